@@ -7,8 +7,10 @@ import Fastify, { FastifyInstance, FastifyError, FastifyRequest, FastifyReply }
 import cors from '@fastify/cors'
 import helmet from '@fastify/helmet'
 import cookie from '@fastify/cookie'
+import multipart from '@fastify/multipart'
 import oauth2 from '@fastify/oauth2'
-import { db } from '@concentrate/database'
+import { db, redis } from '@concentrate/database'
+import { EventHub, createMailer, createStorageBackend } from '@concentrate/services'
 import {
   NotFoundError,
   UnauthorizedError,
@@ -19,6 +21,7 @@ import {
   InvalidCredentialsError,
   TokenExpiredError,
   TokenInvalidError,
+  UPLOAD_LIMITS,
 } from '@concentrate/shared'
 import { registerRoutes } from './routes/index.js'
 
@@ -76,6 +79,14 @@ export async function buildApp(): Promise<FastifyInstance> {
     parseOptions: {},
   })
 
+  // Register multipart support for file uploads
+  await app.register(multipart, {
+    limits: {
+      fileSize: UPLOAD_LIMITS.MAX_FILE_SIZE_BYTES,
+      files: UPLOAD_LIMITS.MAX_FILES_PER_SUBMISSION,
+    },
+  })
+
   // Register Google OAuth2 plugin
   await app.register(oauth2, {
     name: 'googleOAuth2',
@@ -94,6 +105,18 @@ export async function buildApp(): Promise<FastifyInstance> {
   // Inject database into request context
   app.decorateRequest('db', { getter: () => db })
 
+  // File storage backend (local disk by default, see STORAGE_DRIVER)
+  app.decorate('storage', createStorageBackend())
+
+  // Outgoing email (printed to the console by default, see MAIL_DRIVER)
+  app.decorate('mailer', createMailer())
+
+  // Live updates fanned out from Redis pub/sub (dedicated subscriber connection)
+  app.decorate('events', new EventHub(redis.duplicate()))
+  app.addHook('onClose', async () => {
+    app.events.close()
+  })
+
   // Health check endpoint
   app.get('/health', async () => {
     return { status: 'ok', timestamp: new Date().toISOString() }
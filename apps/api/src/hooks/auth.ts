@@ -5,10 +5,12 @@
 
 import { FastifyRequest, FastifyReply } from 'fastify'
 import { verifyAccessToken, UnauthorizedError } from '@concentrate/shared'
+import { AuthService } from '@concentrate/services'
 
 /**
  * Require authentication
  * Verifies JWT from access_token cookie and attaches user to request
+ * Rejects tokens revoked by suspension, deletion or a password change
  */
 export async function requireAuth(
   request: FastifyRequest,
@@ -25,10 +27,17 @@ export async function requireAuth(
     // Verify and decode token
     const payload = verifyAccessToken(token)
 
+    // One Redis lookup of the user's token version
+    const authService = new AuthService(request.db)
+    if (await authService.isAccessTokenRevoked(payload.userId, payload.tokenVersion)) {
+      throw new UnauthorizedError('Session has been revoked')
+    }
+
     // Attach user to request
     request.user = {
       userId: payload.userId,
       role: payload.role,
+      tokenVersion: payload.tokenVersion ?? 0,
     }
   } catch (error) {
     if (error instanceof UnauthorizedError) {
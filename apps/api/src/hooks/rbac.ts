@@ -1,11 +1,18 @@
 /**
  * Role-Based Access Control Hook
- * Checks if authenticated user has required role
+ * Checks if authenticated user has required role or permission
  */
 
 import { FastifyRequest, FastifyReply } from 'fastify'
-import { ForbiddenError, UnauthorizedError } from '@concentrate/shared'
+import {
+  ForbiddenError,
+  UNSCOPED_PERMISSIONS,
+  UnauthorizedError,
+  allowsPermission,
+  type Permission,
+} from '@concentrate/shared'
 import type { UserRole } from '@concentrate/database'
+import { PermissionService } from '@concentrate/services'
 
 /**
  * Require specific role(s)
@@ -26,3 +33,45 @@ export function requireRole(...allowedRoles: UserRole[]) {
     }
   }
 }
+
+/**
+ * Require a permission from the role table or granted by an admin
+ * A scoped permission (e.g. classes:read_own) is also met by its unscoped
+ * counterpart (classes:read_all); handlers check ownership with canAccessAll
+ * Must be used AFTER requireAuth hook
+ */
+export function requirePermission(permission: Permission) {
+  return async (request: FastifyRequest, _reply: FastifyReply): Promise<void> => {
+    // User must be authenticated first
+    if (!request.user) {
+      throw new UnauthorizedError('Authentication required')
+    }
+
+    // Resolved once per request, even with several permission hooks
+    if (!request.permissions) {
+      const permissionService = new PermissionService(request.db)
+      request.permissions = await permissionService.getEffectivePermissions(
+        request.user.userId,
+        request.user.role
+      )
+    }
+
+    if (!allowsPermission(request.permissions, permission)) {
+      throw new ForbiddenError(
+        `Access denied. Required permission: ${permission}`
+      )
+    }
+  }
+}
+
+/**
+ * Whether the request may skip the ownership check of a scoped permission
+ * Must be used in a route guarded by requirePermission
+ */
+export function canAccessAll(
+  request: FastifyRequest,
+  permission: Permission
+): boolean {
+  const unscoped = UNSCOPED_PERMISSIONS[permission]
+  return unscoped !== undefined && !!request.permissions?.includes(unscoped)
+}
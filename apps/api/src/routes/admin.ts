@@ -4,13 +4,34 @@
  */
 
 import { FastifyInstance } from 'fastify'
-import { UserService } from '@concentrate/services'
+import {
+  UserService,
+  ClassService,
+  TeacherGroupService,
+  InvitationService,
+  AuditService,
+  PermissionService,
+  MfaService,
+} from '@concentrate/services'
 import {
   CreateUserSchema,
   UpdateUserSchema,
   UserQuerySchema,
   UserSearchSchema,
   UserIdParamSchema,
+  GrantPermissionSchema,
+  UserPermissionParamsSchema,
+  MfaRequiredRolesSchema,
+  CreateTeacherGroupSchema,
+  UpdateTeacherGroupSchema,
+  TeacherGroupQuerySchema,
+  TeacherGroupIdParamSchema,
+  AddTeacherGroupMemberSchema,
+  TeacherGroupMemberParamsSchema,
+  ImportRosterSchema,
+  CreateInvitationSchema,
+  InvitationTokenParamSchema,
+  AuditEventQuerySchema,
 } from '@concentrate/validation'
 import { requireAuth } from '../hooks/auth.js'
 import { requireRole } from '../hooks/rbac.js'
@@ -88,7 +109,7 @@ export async function adminRoutes(app: FastifyInstance) {
       if (validated.name !== undefined) updates.name = validated.name
       if (validated.role !== undefined) updates.role = validated.role
 
-      const user = await userService.updateUser(id, updates)
+      const user = await userService.updateUser(id, updates, request.user!.userId)
       return reply.send({ user })
     }
   )
@@ -104,7 +125,7 @@ export async function adminRoutes(app: FastifyInstance) {
       const userService = new UserService(request.db)
       const { id } = UserIdParamSchema.parse(request.params)
 
-      await userService.deleteUser(id)
+      await userService.deleteUser(id, request.user!.userId)
       return reply.code(204).send()
     }
   )
@@ -163,72 +184,352 @@ export async function adminRoutes(app: FastifyInstance) {
       const userService = new UserService(request.db)
       const { id } = UserIdParamSchema.parse(request.params)
 
-      const user = await userService.unsuspendUser(id)
+      const user = await userService.unsuspendUser(id, request.user!.userId)
       return reply.send({ user })
     }
   )
 
+  /**
+   * GET /admin/users/:id/permissions
+   * List a user's role permissions and the extra permissions granted to them
+   */
+  app.get(
+    '/users/:id/permissions',
+    { preHandler: [requireAuth, requireRole('admin')] },
+    async (request, reply) => {
+      const permissionService = new PermissionService(request.db)
+      const { id } = UserIdParamSchema.parse(request.params)
+
+      const permissions = await permissionService.listPermissions(id)
+      return reply.send({ permissions })
+    }
+  )
+
+  /**
+   * POST /admin/users/:id/permissions
+   * Grant an extra permission to a user
+   */
+  app.post(
+    '/users/:id/permissions',
+    { preHandler: [requireAuth, requireRole('admin')] },
+    async (request, reply) => {
+      const permissionService = new PermissionService(request.db)
+      const { id } = UserIdParamSchema.parse(request.params)
+      const { permission } = GrantPermissionSchema.parse(request.body)
+
+      const grant = await permissionService.grantPermission(
+        request.user!.userId,
+        id,
+        permission
+      )
+      return reply.code(201).send({ grant })
+    }
+  )
+
+  /**
+   * DELETE /admin/users/:id/permissions/:permission
+   * Revoke a granted permission
+   */
+  app.delete(
+    '/users/:id/permissions/:permission',
+    { preHandler: [requireAuth, requireRole('admin')] },
+    async (request, reply) => {
+      const permissionService = new PermissionService(request.db)
+      const { id, permission } = UserPermissionParamsSchema.parse(request.params)
+
+      await permissionService.revokePermission(request.user!.userId, id, permission)
+      return reply.code(204).send()
+    }
+  )
+
+  /**
+   * GET /admin/users/:id/mfa
+   * MFA status of a user
+   */
+  app.get(
+    '/users/:id/mfa',
+    { preHandler: [requireAuth, requireRole('admin')] },
+    async (request, reply) => {
+      const mfaService = new MfaService(request.db)
+      const { id } = UserIdParamSchema.parse(request.params)
+
+      const mfa = await mfaService.getStatus(id)
+      return reply.send({ mfa })
+    }
+  )
+
+  /**
+   * DELETE /admin/users/:id/mfa
+   * Reset a user's MFA, e.g. after they lost their device
+   */
+  app.delete(
+    '/users/:id/mfa',
+    { preHandler: [requireAuth, requireRole('admin')] },
+    async (request, reply) => {
+      const mfaService = new MfaService(request.db)
+      const { id } = UserIdParamSchema.parse(request.params)
+
+      await mfaService.resetMfa(request.user!.userId, id)
+      return reply.code(204).send()
+    }
+  )
+
+  /**
+   * GET /admin/mfa/required-roles
+   * Roles whose users must use MFA
+   */
+  app.get(
+    '/mfa/required-roles',
+    { preHandler: [requireAuth, requireRole('admin')] },
+    async (request, reply) => {
+      const mfaService = new MfaService(request.db)
+
+      const roles = await mfaService.getRequiredRoles()
+      return reply.send({ roles })
+    }
+  )
+
+  /**
+   * PUT /admin/mfa/required-roles
+   * Set the roles whose users must use MFA
+   */
+  app.put(
+    '/mfa/required-roles',
+    { preHandler: [requireAuth, requireRole('admin')] },
+    async (request, reply) => {
+      const mfaService = new MfaService(request.db)
+      const { roles } = MfaRequiredRolesSchema.parse(request.body)
+
+      const updated = await mfaService.setRequiredRoles(request.user!.userId, roles)
+      return reply.send({ roles: updated })
+    }
+  )
+
+  /**
+   * POST /admin/roster/import
+   * Import students into any class from CSV (Name, Email, Class),
+   * creating missing student accounts
+   */
+  app.post(
+    '/roster/import',
+    { preHandler: [requireAuth, requireRole('admin')] },
+    async (request, reply) => {
+      const classService = new ClassService(request.db)
+      const validated = ImportRosterSchema.parse(request.body)
+
+      const result = await classService.importRoster(validated.csv, {
+        userId: request.user!.userId,
+        role: 'admin',
+      })
+      return reply.send({ result })
+    }
+  )
+
+  /**
+   * GET /admin/invitations
+   * List pending account invitations
+   */
+  app.get(
+    '/invitations',
+    { preHandler: [requireAuth, requireRole('admin')] },
+    async (request, reply) => {
+      const invitationService = new InvitationService(request.db, app.mailer)
+
+      const invitations = await invitationService.listInvitations()
+      return reply.send({ invitations })
+    }
+  )
+
+  /**
+   * POST /admin/invitations
+   * Invite someone to create an account with a fixed role
+   */
+  app.post(
+    '/invitations',
+    { preHandler: [requireAuth, requireRole('admin')] },
+    async (request, reply) => {
+      const invitationService = new InvitationService(request.db, app.mailer)
+      const validated = CreateInvitationSchema.parse(request.body)
+
+      const invitation = await invitationService.createInvitation(
+        request.user!.userId,
+        validated
+      )
+      return reply.code(201).send({ invitation })
+    }
+  )
+
+  /**
+   * DELETE /admin/invitations/:token
+   * Revoke a pending invitation
+   */
+  app.delete(
+    '/invitations/:token',
+    { preHandler: [requireAuth, requireRole('admin')] },
+    async (request, reply) => {
+      const invitationService = new InvitationService(request.db, app.mailer)
+      const { token } = InvitationTokenParamSchema.parse(request.params)
+
+      await invitationService.revokeInvitation(token)
+      return reply.code(204).send()
+    }
+  )
+
   /**
    * GET /admin/teacher-groups
-   * List teacher groups
-   * TODO: Implement teacher groups in future session
+   * List teacher groups with pagination
    */
   app.get(
     '/teacher-groups',
     { preHandler: [requireAuth, requireRole('admin')] },
-    async (_request, reply) => {
-      return reply.code(501).send({
-        error: 'Not implemented',
-        message: 'Teacher groups will be implemented in a future session',
-      })
+    async (request, reply) => {
+      const teacherGroupService = new TeacherGroupService(request.db)
+      const validated = TeacherGroupQuerySchema.parse(request.query)
+
+      // Filter out undefined properties for exactOptionalPropertyTypes
+      const options: { page?: number; limit?: number } = {}
+      if (validated.page !== undefined) options.page = validated.page
+      if (validated.limit !== undefined) options.limit = validated.limit
+
+      const teacherGroups = await teacherGroupService.getAllGroups(options)
+      return reply.send({ teacherGroups })
     }
   )
 
   /**
    * POST /admin/teacher-groups
-   * Create teacher group
-   * TODO: Implement teacher groups in future session
+   * Create a teacher group owned by the current admin
    */
   app.post(
     '/teacher-groups',
     { preHandler: [requireAuth, requireRole('admin')] },
-    async (_request, reply) => {
-      return reply.code(501).send({
-        error: 'Not implemented',
-        message: 'Teacher groups will be implemented in a future session',
-      })
+    async (request, reply) => {
+      const teacherGroupService = new TeacherGroupService(request.db)
+      const validated = CreateTeacherGroupSchema.parse(request.body)
+
+      const teacherGroup = await teacherGroupService.createGroup(
+        request.user!.userId,
+        validated
+      )
+      return reply.code(201).send({ teacherGroup })
+    }
+  )
+
+  /**
+   * GET /admin/teacher-groups/:id
+   * Get a teacher group
+   */
+  app.get(
+    '/teacher-groups/:id',
+    { preHandler: [requireAuth, requireRole('admin')] },
+    async (request, reply) => {
+      const teacherGroupService = new TeacherGroupService(request.db)
+      const { id } = TeacherGroupIdParamSchema.parse(request.params)
+
+      const teacherGroup = await teacherGroupService.getGroupById(id)
+      return reply.send({ teacherGroup })
     }
   )
 
   /**
    * PUT /admin/teacher-groups/:id
-   * Update teacher group
-   * TODO: Implement teacher groups in future session
+   * Update a teacher group
    */
   app.put(
     '/teacher-groups/:id',
     { preHandler: [requireAuth, requireRole('admin')] },
-    async (_request, reply) => {
-      return reply.code(501).send({
-        error: 'Not implemented',
-        message: 'Teacher groups will be implemented in a future session',
-      })
+    async (request, reply) => {
+      const teacherGroupService = new TeacherGroupService(request.db)
+      const { id } = TeacherGroupIdParamSchema.parse(request.params)
+      const validated = UpdateTeacherGroupSchema.parse(request.body)
+
+      // Filter out undefined properties for exactOptionalPropertyTypes
+      const updates: { name?: string } = {}
+      if (validated.name !== undefined) updates.name = validated.name
+
+      const teacherGroup = await teacherGroupService.updateGroup(id, updates)
+      return reply.send({ teacherGroup })
     }
   )
 
   /**
    * DELETE /admin/teacher-groups/:id
-   * Delete teacher group
-   * TODO: Implement teacher groups in future session
+   * Delete a teacher group and its memberships
    */
   app.delete(
     '/teacher-groups/:id',
     { preHandler: [requireAuth, requireRole('admin')] },
-    async (_request, reply) => {
-      return reply.code(501).send({
-        error: 'Not implemented',
-        message: 'Teacher groups will be implemented in a future session',
-      })
+    async (request, reply) => {
+      const teacherGroupService = new TeacherGroupService(request.db)
+      const { id } = TeacherGroupIdParamSchema.parse(request.params)
+
+      await teacherGroupService.deleteGroup(id)
+      return reply.code(204).send()
+    }
+  )
+
+  /**
+   * GET /admin/teacher-groups/:id/members
+   * List members of a teacher group
+   */
+  app.get(
+    '/teacher-groups/:id/members',
+    { preHandler: [requireAuth, requireRole('admin')] },
+    async (request, reply) => {
+      const teacherGroupService = new TeacherGroupService(request.db)
+      const { id } = TeacherGroupIdParamSchema.parse(request.params)
+
+      const members = await teacherGroupService.getMembers(id)
+      return reply.send({ members })
+    }
+  )
+
+  /**
+   * POST /admin/teacher-groups/:id/members
+   * Add a teacher to a group
+   */
+  app.post(
+    '/teacher-groups/:id/members',
+    { preHandler: [requireAuth, requireRole('admin')] },
+    async (request, reply) => {
+      const teacherGroupService = new TeacherGroupService(request.db)
+      const { id } = TeacherGroupIdParamSchema.parse(request.params)
+      const { teacherId } = AddTeacherGroupMemberSchema.parse(request.body)
+
+      await teacherGroupService.addMember(id, teacherId)
+      return reply.send({ success: true })
+    }
+  )
+
+  /**
+   * DELETE /admin/teacher-groups/:id/members/:teacherId
+   * Remove a teacher from a group
+   */
+  app.delete(
+    '/teacher-groups/:id/members/:teacherId',
+    { preHandler: [requireAuth, requireRole('admin')] },
+    async (request, reply) => {
+      const teacherGroupService = new TeacherGroupService(request.db)
+      const { id, teacherId } = TeacherGroupMemberParamsSchema.parse(request.params)
+
+      await teacherGroupService.removeMember(id, teacherId)
+      return reply.code(204).send()
+    }
+  )
+
+  /**
+   * GET /admin/audit-events
+   * List audit log events, newest first, with optional filters
+   */
+  app.get(
+    '/audit-events',
+    { preHandler: [requireAuth, requireRole('admin')] },
+    async (request, reply) => {
+      const auditService = new AuditService(request.db)
+      const { page, limit, ...filters } = AuditEventQuerySchema.parse(request.query)
+
+      const result = await auditService.listEvents(filters, { page, limit })
+      return reply.send(result)
     }
   )
 }
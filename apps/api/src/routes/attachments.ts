@@ -0,0 +1,37 @@
+/**
+ * Attachment Routes
+ * Authenticated downloads of submission attachments
+ */
+
+import { FastifyInstance } from 'fastify'
+import { SubmissionAttachmentService } from '@concentrate/services'
+import { AttachmentIdParamSchema } from '@concentrate/validation'
+import { requireAuth } from '../hooks/auth.js'
+
+export async function attachmentRoutes(app: FastifyInstance) {
+  /**
+   * GET /attachments/:id/download
+   * Download an attachment
+   * Only the submitting student and the class teacher can fetch the file
+   */
+  app.get('/:id/download', { preHandler: requireAuth }, async (request, reply) => {
+    const attachmentService = new SubmissionAttachmentService(request.db, app.storage)
+    const { id } = AttachmentIdParamSchema.parse(request.params)
+
+    const { attachment, data } = await attachmentService.downloadAttachment(
+      id,
+      request.user!.userId
+    )
+
+    const asciiName = attachment.filename.replace(/[^\x20-\x7e]|["\\]/g, '_')
+    return reply
+      .header('Content-Type', attachment.mime_type)
+      .header('Content-Length', data.length)
+      .header(
+        'Content-Disposition',
+        `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`
+      )
+      .header('Cache-Control', 'private, no-store')
+      .send(data)
+  })
+}
@@ -3,16 +3,42 @@
  * Handles user registration, login, logout, token refresh, and OAuth
  */
 
-import { FastifyInstance } from 'fastify'
-import { AuthService, OAuthService, UserService, type GoogleProfile } from '@concentrate/services'
-import { SessionRepository } from '@concentrate/database'
+import { FastifyInstance, FastifyRequest } from 'fastify'
+import {
+  AuthService,
+  InvitationService,
+  MfaService,
+  OAuthService,
+  UserService,
+  type GoogleProfile,
+} from '@concentrate/services'
+import { SessionRepository, type SessionMetadata } from '@concentrate/database'
 import { redis } from '@concentrate/database'
 import {
   RegisterSchema,
   LoginSchema,
+  AcceptInvitationSchema,
+  InvitationTokenParamSchema,
+  PasswordResetRequestSchema,
+  PasswordResetSchema,
+  SessionIdParamSchema,
+  MfaCodeSchema,
+  MfaChallengeSchema,
+  MfaChallengeVerifySchema,
 } from '@concentrate/validation'
 import { requireAuth } from '../hooks/auth.js'
 
+/**
+ * Device details recorded on the session, shown on the security settings page
+ */
+function getSessionMetadata(request: FastifyRequest): SessionMetadata {
+  const userAgent = request.headers['user-agent']
+  return {
+    ...(userAgent && { userAgent: userAgent.slice(0, 512) }),
+    ip: request.ip,
+  }
+}
+
 export async function authRoutes(app: FastifyInstance) {
   // AuthService will be instantiated per-request using request.db
 
@@ -41,16 +67,105 @@ export async function authRoutes(app: FastifyInstance) {
     })
   })
 
+  /**
+   * GET /auth/registration
+   * Roles open for self-registration (others need an invitation)
+   */
+  app.get('/registration', async (request, reply) => {
+    const authService = new AuthService(request.db)
+
+    return reply.send({ openRoles: authService.getOpenRegistrationRoles() })
+  })
+
+  /**
+   * GET /auth/invitations/:token
+   * Get a pending invitation so the invitee can review it
+   */
+  app.get('/invitations/:token', async (request, reply) => {
+    const { token } = InvitationTokenParamSchema.parse(request.params)
+    const invitationService = new InvitationService(request.db)
+
+    const invitation = await invitationService.getInvitation(token)
+
+    return reply.send({
+      invitation: {
+        email: invitation.email,
+        name: invitation.name,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+      },
+    })
+  })
+
+  /**
+   * POST /auth/invitations/:token/accept
+   * Accept an invitation: create the account and set its password
+   */
+  app.post('/invitations/:token/accept', async (request, reply) => {
+    const { token } = InvitationTokenParamSchema.parse(request.params)
+    const validated = AcceptInvitationSchema.parse(request.body)
+    const invitationService = new InvitationService(request.db)
+
+    const user = await invitationService.acceptInvitation(token, validated)
+
+    return reply.code(201).send({
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+      },
+    })
+  })
+
+  /**
+   * POST /auth/password-reset/request
+   * Email a password reset link
+   * Always answers 202 so the response does not reveal whether the email has an account
+   */
+  app.post('/password-reset/request', async (request, reply) => {
+    const validated = PasswordResetRequestSchema.parse(request.body)
+    const authService = new AuthService(request.db, app.mailer)
+
+    await authService.requestPasswordReset(validated.email)
+
+    return reply.code(202).send({
+      message: 'If an account exists for this email, a reset link has been sent',
+    })
+  })
+
+  /**
+   * POST /auth/password-reset
+   * Set a new password with a reset token; signs out all sessions
+   */
+  app.post('/password-reset', async (request, reply) => {
+    const validated = PasswordResetSchema.parse(request.body)
+    const authService = new AuthService(request.db)
+
+    await authService.resetPassword(validated.token, validated.password)
+
+    return reply.code(204).send()
+  })
+
   /**
    * POST /auth/login
    * Login with email and password
-   * Sets HTTP-only cookie with tokens
+   * Sets HTTP-only cookie with tokens, or returns an MFA challenge to pass
+   * at /auth/mfa/challenge/verify first
    */
   app.post('/login', async (request, reply) => {
     const validated = LoginSchema.parse(request.body)
     const authService = new AuthService(request.db)
 
-    const result = await authService.login(validated.email, validated.password)
+    const result = await authService.login(
+      validated.email,
+      validated.password,
+      getSessionMetadata(request)
+    )
+
+    if (result.mfaChallenge) {
+      return reply.send({ mfa: result.mfaChallenge })
+    }
 
     // Set tokens as HTTP-only cookies
     reply.setCookie('access_token', result.tokens.accessToken, {
@@ -103,6 +218,7 @@ export async function authRoutes(app: FastifyInstance) {
   /**
    * POST /auth/refresh
    * Refresh access token using refresh token
+   * Rotates the refresh token; replaying an old one logs out its session
    */
   app.post('/refresh', async (request, reply) => {
     const authService = new AuthService(request.db)
@@ -112,7 +228,7 @@ export async function authRoutes(app: FastifyInstance) {
       return reply.code(401).send({ error: 'Missing refresh token' })
     }
 
-    const tokens = await authService.refreshAccessToken(refreshToken, true)
+    const tokens = await authService.refreshAccessToken(refreshToken, getSessionMetadata(request))
 
     // Set new access token cookie
     reply.setCookie('access_token', tokens.accessToken, {
@@ -124,17 +240,15 @@ export async function authRoutes(app: FastifyInstance) {
       ...(process.env['COOKIE_DOMAIN'] && { domain: process.env['COOKIE_DOMAIN'] }),
     })
 
-    // If refresh token was rotated, update cookie
-    if (tokens.refreshToken !== refreshToken) {
-      reply.setCookie('refresh_token', tokens.refreshToken, {
-        httpOnly: true,
-        secure: process.env['NODE_ENV'] === 'production',
-        sameSite: 'lax',
-        maxAge: 7 * 24 * 60 * 60, // 7 days
-        path: '/',
-        ...(process.env['COOKIE_DOMAIN'] && { domain: process.env['COOKIE_DOMAIN'] }),
-      })
-    }
+    // Replace the rotated-out refresh token
+    reply.setCookie('refresh_token', tokens.refreshToken, {
+      httpOnly: true,
+      secure: process.env['NODE_ENV'] === 'production',
+      sameSite: 'lax',
+      maxAge: 7 * 24 * 60 * 60, // 7 days
+      path: '/',
+      ...(process.env['COOKIE_DOMAIN'] && { domain: process.env['COOKIE_DOMAIN'] }),
+    })
 
     return reply.send({ success: true })
   })
@@ -158,6 +272,159 @@ export async function authRoutes(app: FastifyInstance) {
     })
   })
 
+  /**
+   * GET /auth/sessions
+   * List the devices the current user is logged in on
+   */
+  app.get('/sessions', { preHandler: [requireAuth] }, async (request, reply) => {
+    const authService = new AuthService(request.db)
+
+    const sessions = await authService.listSessions(
+      request.user!.userId,
+      request.cookies['refresh_token']
+    )
+
+    return reply.send({ sessions })
+  })
+
+  /**
+   * DELETE /auth/sessions/:id
+   * Revoke one session of the current user; revoking the current one logs out
+   */
+  app.delete('/sessions/:id', { preHandler: [requireAuth] }, async (request, reply) => {
+    const { id } = SessionIdParamSchema.parse(request.params)
+    const authService = new AuthService(request.db)
+
+    const revoked = await authService.revokeSession(request.user!.userId, id)
+
+    if (revoked.refreshToken === request.cookies['refresh_token']) {
+      reply.clearCookie('access_token', { path: '/' })
+      reply.clearCookie('refresh_token', { path: '/' })
+    }
+
+    return reply.code(204).send()
+  })
+
+  /**
+   * POST /auth/mfa/challenge/enroll
+   * Start the MFA setup a role requires, with the challenge token from login
+   */
+  app.post('/mfa/challenge/enroll', async (request, reply) => {
+    const { challengeToken } = MfaChallengeSchema.parse(request.body)
+    const authService = new AuthService(request.db)
+
+    const enrollment = await authService.startChallengeEnrollment(challengeToken)
+
+    return reply.send(enrollment)
+  })
+
+  /**
+   * POST /auth/mfa/challenge/verify
+   * Finish a login with the challenge token and a TOTP or recovery code
+   * Sets HTTP-only cookie with tokens
+   */
+  app.post('/mfa/challenge/verify', async (request, reply) => {
+    const validated = MfaChallengeVerifySchema.parse(request.body)
+    const authService = new AuthService(request.db)
+
+    const result = await authService.completeMfaChallenge(
+      validated.challengeToken,
+      validated.code
+    )
+
+    // Set tokens as HTTP-only cookies
+    reply.setCookie('access_token', result.tokens.accessToken, {
+      httpOnly: true,
+      secure: process.env['NODE_ENV'] === 'production',
+      sameSite: 'lax',
+      maxAge: 15 * 60, // 15 minutes
+      path: '/',
+      ...(process.env['COOKIE_DOMAIN'] && { domain: process.env['COOKIE_DOMAIN'] }),
+    })
+
+    reply.setCookie('refresh_token', result.tokens.refreshToken, {
+      httpOnly: true,
+      secure: process.env['NODE_ENV'] === 'production',
+      sameSite: 'lax',
+      maxAge: 7 * 24 * 60 * 60, // 7 days
+      path: '/',
+      ...(process.env['COOKIE_DOMAIN'] && { domain: process.env['COOKIE_DOMAIN'] }),
+    })
+
+    return reply.send({
+      user: {
+        id: result.user.id,
+        email: result.user.email,
+        name: result.user.name,
+        role: result.user.role,
+      },
+      recoveryCodes: result.recoveryCodes,
+    })
+  })
+
+  /**
+   * GET /auth/mfa
+   * MFA status of the current user
+   */
+  app.get('/mfa', { preHandler: [requireAuth] }, async (request, reply) => {
+    const mfaService = new MfaService(request.db)
+
+    const mfa = await mfaService.getStatus(request.user!.userId)
+
+    return reply.send({ mfa })
+  })
+
+  /**
+   * POST /auth/mfa/enroll
+   * Start MFA setup: returns the secret and the otpauth URI to show as a QR code
+   */
+  app.post('/mfa/enroll', { preHandler: [requireAuth] }, async (request, reply) => {
+    const mfaService = new MfaService(request.db)
+
+    const enrollment = await mfaService.startEnrollment(request.user!.userId)
+
+    return reply.send(enrollment)
+  })
+
+  /**
+   * POST /auth/mfa/confirm
+   * Finish MFA setup with a first code; returns the recovery codes once
+   */
+  app.post('/mfa/confirm', { preHandler: [requireAuth] }, async (request, reply) => {
+    const { code } = MfaCodeSchema.parse(request.body)
+    const mfaService = new MfaService(request.db)
+
+    const recoveryCodes = await mfaService.confirmEnrollment(request.user!.userId, code)
+
+    return reply.send({ recoveryCodes })
+  })
+
+  /**
+   * POST /auth/mfa/recovery-codes
+   * Replace the recovery codes of the current user
+   */
+  app.post('/mfa/recovery-codes', { preHandler: [requireAuth] }, async (request, reply) => {
+    const { code } = MfaCodeSchema.parse(request.body)
+    const mfaService = new MfaService(request.db)
+
+    const recoveryCodes = await mfaService.regenerateRecoveryCodes(request.user!.userId, code)
+
+    return reply.send({ recoveryCodes })
+  })
+
+  /**
+   * POST /auth/mfa/disable
+   * Turn MFA off, confirmed with a current code
+   */
+  app.post('/mfa/disable', { preHandler: [requireAuth] }, async (request, reply) => {
+    const { code } = MfaCodeSchema.parse(request.body)
+    const mfaService = new MfaService(request.db)
+
+    await mfaService.disable(request.user!.userId, code)
+
+    return reply.code(204).send()
+  })
+
   /**
    * GET /auth/oauth/google
    * Redirect to Google OAuth
@@ -213,9 +480,31 @@ export async function authRoutes(app: FastifyInstance) {
 
       const result = await oauthService.handleGoogleCallback(profile, tokens)
 
+      // Users with MFA finish on the login page, like after a password login.
+      // The challenge travels in the URL fragment, which browsers never send
+      // to servers or in Referer headers
+      const authService = new AuthService(request.db)
+      const mfaChallenge = await authService.startMfaChallenge(
+        result.user,
+        getSessionMetadata(request)
+      )
+      if (mfaChallenge) {
+        const params = new URLSearchParams({ mfa: mfaChallenge.challengeToken })
+        if (mfaChallenge.enrollmentRequired) {
+          params.set('enroll', 'true')
+        }
+        const appUrl = (process.env['APP_URL'] || 'http://localhost:3000').replace(/\/+$/, '')
+        return reply.redirect(`${appUrl}/login#${params.toString()}`)
+      }
+
       // Store session in Redis
       const sessionRepository = new SessionRepository(redis)
-      await sessionRepository.create(result.user.id, result.tokens.refreshToken)
+      await sessionRepository.create(
+        result.user.id,
+        result.tokens.refreshToken,
+        undefined,
+        getSessionMetadata(request)
+      )
 
       // Set JWT tokens as HTTP-only cookies (same as regular login)
       reply.setCookie('access_token', result.tokens.accessToken, {
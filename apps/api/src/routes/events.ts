@@ -0,0 +1,104 @@
+/**
+ * Event Routes
+ * Server-Sent Events stream of live updates for the signed-in user (all roles)
+ */
+
+import { PassThrough } from 'node:stream'
+import { FastifyInstance } from 'fastify'
+import { AuthService, type RealtimeEvent } from '@concentrate/services'
+import { requireAuth } from '../hooks/auth.js'
+
+// Comment line sent while idle so proxies keep the connection open
+const HEARTBEAT_INTERVAL_MS = 25_000
+
+// How long the browser waits before reconnecting a dropped stream
+const RECONNECT_DELAY_MS = 5_000
+
+/**
+ * Format an event in the text/event-stream wire format
+ */
+function formatEvent(event: RealtimeEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+}
+
+export async function eventRoutes(app: FastifyInstance) {
+  const streams = new Set<PassThrough>()
+
+  // Open streams never finish by themselves, so end them before the server waits on them
+  app.addHook('preClose', async () => {
+    for (const stream of streams) {
+      stream.end()
+    }
+  })
+
+  /**
+   * GET /events
+   * Stream live updates (new submissions for teachers, new grades and
+   * notifications for students) until the client disconnects or the user's
+   * sessions are revoked
+   */
+  app.get('/', { preHandler: requireAuth }, async (request, reply) => {
+    const stream = new PassThrough()
+    let unsubscribe: (() => Promise<void>) | undefined
+    let heartbeat: NodeJS.Timeout | undefined
+    let closed = false
+
+    // Registered before subscribing, so a client leaving mid-subscribe is still cleaned up
+    reply.raw.on('close', () => {
+      closed = true
+      clearInterval(heartbeat)
+      streams.delete(stream)
+      stream.end()
+      unsubscribe?.().catch((error) => request.log.error(error))
+    })
+
+    const { userId, tokenVersion } = request.user!
+    unsubscribe = await app.events.subscribe(userId, (event) => {
+      if (stream.writableEnded) {
+        return
+      }
+      // Suspension, deletion and password changes end the stream; the browser's
+      // reconnect is then refused like any other request with the old token
+      if (event.type === 'session_revoked') {
+        stream.end()
+        return
+      }
+      stream.write(formatEvent(event))
+    })
+
+    // The client went away before the subscription was ready
+    if (closed || request.raw.destroyed) {
+      stream.end()
+      await unsubscribe()
+      return reply
+    }
+
+    // Revocation is also checked on every heartbeat, in case its event was missed
+    const authService = new AuthService(request.db)
+    heartbeat = setInterval(async () => {
+      let revoked = false
+      try {
+        revoked = await authService.isAccessTokenRevoked(userId, tokenVersion)
+      } catch (error) {
+        request.log.error(error)
+      }
+      if (stream.writableEnded) {
+        return
+      }
+      if (revoked) {
+        stream.end()
+        return
+      }
+      stream.write(': heartbeat\n\n')
+    }, HEARTBEAT_INTERVAL_MS)
+    streams.add(stream)
+
+    stream.write(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+
+    return reply
+      .header('Content-Type', 'text/event-stream; charset=utf-8')
+      .header('Cache-Control', 'no-cache, no-transform')
+      .header('X-Accel-Buffering', 'no')
+      .send(stream)
+  })
+}
@@ -10,6 +10,9 @@ import { teacherRoutes } from './teacher.js'
 import { studentRoutes } from './student.js'
 import { statsRoutes } from './stats.js'
 import { chatbotRoutes } from './chatbot.js'
+import { attachmentRoutes } from './attachments.js'
+import { notificationRoutes } from './notifications.js'
+import { eventRoutes } from './events.js'
 
 export async function registerRoutes(app: FastifyInstance) {
   app.get('/', async () => {
@@ -33,4 +36,13 @@ export async function registerRoutes(app: FastifyInstance) {
 
   // Chatbot routes (auth required)
   await app.register(chatbotRoutes, { prefix: '/chatbot' })
+
+  // Attachment download routes (auth required)
+  await app.register(attachmentRoutes, { prefix: '/attachments' })
+
+  // Notification routes (auth required)
+  await app.register(notificationRoutes, { prefix: '/notifications' })
+
+  // Live update stream (auth required)
+  await app.register(eventRoutes, { prefix: '/events' })
 }
@@ -0,0 +1,80 @@
+/**
+ * Notification Routes
+ * In-app notifications of the signed-in user (all roles)
+ */
+
+import { FastifyInstance } from 'fastify'
+import { NotificationService } from '@concentrate/services'
+import { NotificationIdParamSchema, NotificationQuerySchema } from '@concentrate/validation'
+import { requireAuth } from '../hooks/auth.js'
+
+export async function notificationRoutes(app: FastifyInstance) {
+  /**
+   * GET /notifications
+   * List own notifications (newest first) with the unread count
+   */
+  app.get('/', { preHandler: requireAuth }, async (request, reply) => {
+    const notificationService = new NotificationService(request.db)
+    const query = NotificationQuerySchema.parse(request.query)
+
+    const [notifications, unreadCount] = await Promise.all([
+      notificationService.getNotifications(request.user!.userId, {
+        unreadOnly: query.unread,
+        limit: query.limit,
+      }),
+      notificationService.getUnreadCount(request.user!.userId),
+    ])
+
+    return reply.send({ notifications, unreadCount })
+  })
+
+  /**
+   * GET /notifications/unread-count
+   * Unread count for the notification bell
+   */
+  app.get('/unread-count', { preHandler: requireAuth }, async (request, reply) => {
+    const notificationService = new NotificationService(request.db)
+
+    const unreadCount = await notificationService.getUnreadCount(request.user!.userId)
+
+    return reply.send({ unreadCount })
+  })
+
+  /**
+   * POST /notifications/read-all
+   * Mark all own notifications as read
+   */
+  app.post('/read-all', { preHandler: requireAuth }, async (request, reply) => {
+    const notificationService = new NotificationService(request.db)
+
+    const count = await notificationService.markAllRead(request.user!.userId)
+
+    return reply.send({ count })
+  })
+
+  /**
+   * POST /notifications/:id/read
+   * Mark an own notification as read
+   */
+  app.post('/:id/read', { preHandler: requireAuth }, async (request, reply) => {
+    const notificationService = new NotificationService(request.db)
+    const { id } = NotificationIdParamSchema.parse(request.params)
+
+    const notification = await notificationService.markRead(id, request.user!.userId)
+
+    return reply.send({ notification })
+  })
+
+  /**
+   * DELETE /notifications/:id/read
+   * Mark an own notification as unread
+   */
+  app.delete('/:id/read', { preHandler: requireAuth }, async (request, reply) => {
+    const notificationService = new NotificationService(request.db)
+    const { id } = NotificationIdParamSchema.parse(request.params)
+
+    const notification = await notificationService.markUnread(id, request.user!.userId)
+
+    return reply.send({ notification })
+  })
+}
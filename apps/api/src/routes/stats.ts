@@ -4,61 +4,45 @@
  */
 
 import { FastifyInstance } from 'fastify'
-import { UserService, ClassService } from '@concentrate/services'
+import { UserService, ClassService, AssignmentService } from '@concentrate/services'
 import { ClassIdParamSchema } from '@concentrate/validation'
 
+// How long the site-wide average is served from memory before it is recomputed
+const SITE_AVERAGE_TTL_MS = 60_000
+
 export async function statsRoutes(app: FastifyInstance) {
+  // The site-wide average computes the course grades of every class, so
+  // anonymous requests share one result per TTL instead of each running it
+  let siteAverage: { value: { average: number; count: number }; expiresAt: number } | null = null
+
   /**
    * GET /stats/average-grades
-   * Get average grade across all classes
+   * Get average weighted course grade across all classes (released grades only)
    */
   app.get('/average-grades', async (request, reply) => {
-    // Get all grades directly from database (public endpoint, no auth required)
-    const grades = await request.db
-      .selectFrom('grades')
-      .selectAll()
-      .execute()
-
-    if (grades.length === 0) {
-      return reply.send({ average: 0, count: 0 })
+    // Public endpoint, no auth required
+    if (!siteAverage || siteAverage.expiresAt <= Date.now()) {
+      const assignmentService = new AssignmentService(request.db)
+      siteAverage = {
+        value: await assignmentService.getAverageCourseGrade(),
+        expiresAt: Date.now() + SITE_AVERAGE_TTL_MS,
+      }
     }
 
-    const sum = grades.reduce(
-      (acc: number, grade: { grade: string | number }) => acc + Number(grade.grade),
-      0
-    )
-    const average = sum / grades.length
-
-    return reply.send({ average, count: grades.length })
+    const { average, count } = siteAverage.value
+    return reply.send({ average, count })
   })
 
   /**
    * GET /stats/average-grades/:id
-   * Get average grade for a specific class
+   * Get average weighted course grade for a specific class (released grades only)
    */
   app.get('/average-grades/:id', async (request, reply) => {
+    const assignmentService = new AssignmentService(request.db)
     const { id: classId } = ClassIdParamSchema.parse(request.params)
 
-    // Get all grades for this class using database join
-    const grades = await request.db
-      .selectFrom('grades')
-      .innerJoin('submissions', 'grades.submission_id', 'submissions.id')
-      .innerJoin('assignments', 'submissions.assignment_id', 'assignments.id')
-      .select('grades.grade')
-      .where('assignments.class_id', '=', classId)
-      .execute()
-
-    if (grades.length === 0) {
-      return reply.send({ average: 0, count: 0 })
-    }
-
-    const sum = grades.reduce(
-      (acc: number, grade: { grade: string | number }) => acc + Number(grade.grade),
-      0
-    )
-    const average = sum / grades.length
-
-    return reply.send({ average, count: grades.length })
+    const { average, count } = await assignmentService.getAverageCourseGrade(classId)
+    return reply.send({ average, count })
   })
 
   /**
@@ -1,16 +1,27 @@
 /**
  * Student Routes
- * Student-only endpoints for viewing classes, assignments, and submitting work
+ * Student-only endpoints for viewing classes, lessons, assignments, and submitting work
  */
 
 import { FastifyInstance } from 'fastify'
-import { ClassService, AssignmentService } from '@concentrate/services'
+import {
+  ClassService,
+  AssignmentService,
+  LessonService,
+  SubmissionAttachmentService,
+} from '@concentrate/services'
+import type { UploadedFile } from '@concentrate/services'
 import {
   SubmitAssignmentSchema,
   UpdateSubmissionSchema,
   AssignmentIdParamSchema,
   SubmissionIdParamSchema,
+  AttachmentIdParamSchema,
   GradeIdParamSchema,
+  ClassIdParamSchema,
+  ClassLessonParamsSchema,
+  JoinClassSchema,
+  SubmissionVersionDiffQuerySchema,
 } from '@concentrate/validation'
 import { requireAuth } from '../hooks/auth.js'
 import { requireRole } from '../hooks/rbac.js'
@@ -31,6 +42,58 @@ export async function studentRoutes(app: FastifyInstance) {
     }
   )
 
+  /**
+   * POST /student/classes/join
+   * Enroll in a class with its join code
+   */
+  app.post(
+    '/classes/join',
+    { preHandler: [requireAuth, requireRole('student')] },
+    async (request, reply) => {
+      const classService = new ClassService(request.db)
+      const { code } = JoinClassSchema.parse(request.body)
+
+      const joinedClass = await classService.joinClassWithCode(code, request.user!.userId)
+      return reply.code(201).send({ class: joinedClass })
+    }
+  )
+
+  /**
+   * GET /student/classes/:id/lessons
+   * Get published lessons of an enrolled class
+   */
+  app.get(
+    '/classes/:id/lessons',
+    { preHandler: [requireAuth, requireRole('student')] },
+    async (request, reply) => {
+      const lessonService = new LessonService(request.db)
+      const { id } = ClassIdParamSchema.parse(request.params)
+
+      const lessons = await lessonService.getLessonsForStudent(id, request.user!.userId)
+      return reply.send({ lessons })
+    }
+  )
+
+  /**
+   * GET /student/classes/:id/lessons/:lessonId
+   * Get a published lesson of an enrolled class
+   */
+  app.get(
+    '/classes/:id/lessons/:lessonId',
+    { preHandler: [requireAuth, requireRole('student')] },
+    async (request, reply) => {
+      const lessonService = new LessonService(request.db)
+      const { id, lessonId } = ClassLessonParamsSchema.parse(request.params)
+
+      const lesson = await lessonService.getLessonForStudent(
+        id,
+        lessonId,
+        request.user!.userId
+      )
+      return reply.send({ lesson })
+    }
+  )
+
   /**
    * GET /student/assignments
    * Get all assignments for student's classes
@@ -64,6 +127,38 @@ export async function studentRoutes(app: FastifyInstance) {
     }
   )
 
+  /**
+   * GET /student/assignments/:id/rubric
+   * Get the rubric of an assignment (empty if none)
+   */
+  app.get(
+    '/assignments/:id/rubric',
+    { preHandler: [requireAuth, requireRole('student')] },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db)
+      const { id } = AssignmentIdParamSchema.parse(request.params)
+
+      const rubric = await assignmentService.getRubric(id, request.user!.userId)
+      return reply.send({ rubric })
+    }
+  )
+
+  /**
+   * GET /student/assignments/:id/submission
+   * Get own submission for an assignment (null if not submitted yet)
+   */
+  app.get(
+    '/assignments/:id/submission',
+    { preHandler: [requireAuth, requireRole('student')] },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db)
+      const { id } = AssignmentIdParamSchema.parse(request.params)
+
+      const submission = await assignmentService.getSubmission(id, request.user!.userId)
+      return reply.send({ submission })
+    }
+  )
+
   /**
    * POST /student/submissions
    * Submit an assignment
@@ -130,9 +225,122 @@ export async function studentRoutes(app: FastifyInstance) {
     }
   )
 
+  /**
+   * POST /student/submissions/:id/attachments
+   * Upload one or more files (multipart/form-data) to own submission
+   */
+  app.post(
+    '/submissions/:id/attachments',
+    { preHandler: [requireAuth, requireRole('student')] },
+    async (request, reply) => {
+      const attachmentService = new SubmissionAttachmentService(request.db, app.storage)
+      const { id: submissionId } = SubmissionIdParamSchema.parse(request.params)
+
+      // Buffer all parts first - size and count limits are enforced by the multipart plugin
+      const files: UploadedFile[] = []
+      for await (const part of request.files()) {
+        files.push({
+          filename: part.filename,
+          mimeType: part.mimetype,
+          data: await part.toBuffer(),
+        })
+      }
+
+      if (files.length === 0) {
+        return reply.code(400).send({ error: 'At least one file is required' })
+      }
+
+      const attachments = []
+      for (const file of files) {
+        attachments.push(
+          await attachmentService.uploadAttachment(submissionId, request.user!.userId, file)
+        )
+      }
+
+      return reply.code(201).send({ attachments })
+    }
+  )
+
+  /**
+   * GET /student/submissions/:id/attachments
+   * List files attached to own submission
+   */
+  app.get(
+    '/submissions/:id/attachments',
+    { preHandler: [requireAuth, requireRole('student')] },
+    async (request, reply) => {
+      const attachmentService = new SubmissionAttachmentService(request.db, app.storage)
+      const { id: submissionId } = SubmissionIdParamSchema.parse(request.params)
+
+      const attachments = await attachmentService.getAttachments(
+        submissionId,
+        request.user!.userId
+      )
+      return reply.send({ attachments })
+    }
+  )
+
+  /**
+   * GET /student/submissions/:id/versions
+   * List versions of own submission
+   */
+  app.get(
+    '/submissions/:id/versions',
+    { preHandler: [requireAuth, requireRole('student')] },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db)
+      const { id: submissionId } = SubmissionIdParamSchema.parse(request.params)
+
+      const versions = await assignmentService.getSubmissionVersions(
+        submissionId,
+        request.user!.userId
+      )
+      return reply.send({ versions })
+    }
+  )
+
+  /**
+   * GET /student/submissions/:id/versions/diff?from=1&to=2
+   * Compare two versions of own submission
+   */
+  app.get(
+    '/submissions/:id/versions/diff',
+    { preHandler: [requireAuth, requireRole('student')] },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db)
+      const { id: submissionId } = SubmissionIdParamSchema.parse(request.params)
+      const { from, to } = SubmissionVersionDiffQuerySchema.parse(request.query)
+
+      const diff = await assignmentService.diffSubmissionVersions(
+        submissionId,
+        request.user!.userId,
+        from,
+        to
+      )
+      return reply.send(diff)
+    }
+  )
+
+  /**
+   * DELETE /student/attachments/:id
+   * Remove a file from own submission (before grading)
+   */
+  app.delete(
+    '/attachments/:id',
+    { preHandler: [requireAuth, requireRole('student')] },
+    async (request, reply) => {
+      const attachmentService = new SubmissionAttachmentService(request.db, app.storage)
+      const { id } = AttachmentIdParamSchema.parse(request.params)
+
+      await attachmentService.deleteAttachment(id, request.user!.userId)
+      return reply.code(204).send()
+    }
+  )
+
   /**
    * GET /student/grades
-   * Get all grades for student with assignment details
+   * Get all grades for student with assignment details; grades not released
+   * yet are listed as pending release without their values
    */
   app.get(
     '/grades',
@@ -144,7 +352,26 @@ export async function studentRoutes(app: FastifyInstance) {
         request.user!.userId
       )
 
-      return reply.send({ grades: grades.filter((g) => g.grade !== null) })
+      return reply.send({
+        grades: grades.filter((g) => g.grade !== null || g.pendingRelease),
+      })
+    }
+  )
+
+  /**
+   * GET /student/course-grades
+   * Get weighted course grade per enrolled class
+   */
+  app.get(
+    '/course-grades',
+    { preHandler: [requireAuth, requireRole('student')] },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db)
+
+      const courseGrades = await assignmentService.getCourseGradesForStudent(
+        request.user!.userId
+      )
+      return reply.send({ courseGrades })
     }
   )
 
@@ -162,10 +389,13 @@ export async function studentRoutes(app: FastifyInstance) {
       const grade = await request.db
         .selectFrom('grades')
         .innerJoin('submissions', 'grades.submission_id', 'submissions.id')
+        .innerJoin('assignments', 'submissions.assignment_id', 'assignments.id')
         .selectAll('grades')
         .select(['submissions.assignment_id', 'submissions.student_id'])
         .where('grades.id', '=', gradeId)
         .where('submissions.student_id', '=', request.user!.userId)
+        // Unreleased grades stay hidden
+        .where('assignments.grades_released_at', 'is not', null)
         .executeTakeFirst()
 
       if (!grade) {
@@ -1,27 +1,52 @@
 /**
  * Teacher Routes
- * Teacher-only endpoints for class and assignment management
+ * Teacher-only endpoints for class, lesson and assignment management
  */
 
 import { FastifyInstance } from 'fastify'
-import { ClassService, AssignmentService } from '@concentrate/services'
+import {
+  ClassService,
+  AssignmentService,
+  LessonService,
+  SubmissionAttachmentService,
+} from '@concentrate/services'
 import {
   CreateClassSchema,
   UpdateClassSchema,
   ClassQuerySchema,
   AddStudentSchema,
   AddMultipleStudentsSchema,
+  ImportRosterSchema,
+  RegenerateJoinCodeSchema,
   ClassIdParamSchema,
+  AddClassStaffSchema,
+  UpdateClassStaffSchema,
+  ClassStaffParamsSchema,
   CreateAssignmentSchema,
   UpdateAssignmentSchema,
   AssignmentQuerySchema,
   GradeSubmissionSchema,
+  BulkGradeSubmissionsSchema,
+  ImportGradesCsvSchema,
   AssignmentIdParamSchema,
   SubmissionIdParamSchema,
   UserSearchSchema,
+  CreateLessonSchema,
+  UpdateLessonSchema,
+  ClassLessonParamsSchema,
+  SubmissionVersionDiffQuerySchema,
+  SetRubricSchema,
+  CreateCategorySchema,
+  UpdateCategorySchema,
+  CategoryIdParamSchema,
 } from '@concentrate/validation'
+import type { LatePolicy } from '@concentrate/database'
 import { requireAuth } from '../hooks/auth.js'
-import { requireRole } from '../hooks/rbac.js'
+import {
+  canAccessAll,
+  requirePermission,
+  requireRole,
+} from '../hooks/rbac.js'
 
 export async function teacherRoutes(app: FastifyInstance) {
   // ============ CLASS ROUTES ============
@@ -32,7 +57,13 @@ export async function teacherRoutes(app: FastifyInstance) {
    */
   app.get(
     '/classes',
-    { preHandler: [requireAuth, requireRole('teacher')] },
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('classes:read_own'),
+      ],
+    },
     async (request, reply) => {
       const classService = new ClassService(request.db)
       const validated = ClassQuerySchema.parse(request.query)
@@ -42,10 +73,10 @@ export async function teacherRoutes(app: FastifyInstance) {
       if (validated.page !== undefined) options.page = validated.page
       if (validated.limit !== undefined) options.limit = validated.limit
 
-      const classes = await classService.getClassesByTeacher(
-        request.user!.userId,
-        options
-      )
+      // Teachers granted classes:read_all see every class
+      const classes = canAccessAll(request, 'classes:read_own')
+        ? await classService.getAllClasses(options)
+        : await classService.getClassesByTeacher(request.user!.userId, options)
       return reply.send({ classes })
     }
   )
@@ -56,7 +87,13 @@ export async function teacherRoutes(app: FastifyInstance) {
    */
   app.post(
     '/classes',
-    { preHandler: [requireAuth, requireRole('teacher')] },
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('classes:create'),
+      ],
+    },
     async (request, reply) => {
       const classService = new ClassService(request.db)
       const validated = CreateClassSchema.parse(request.body)
@@ -81,7 +118,13 @@ export async function teacherRoutes(app: FastifyInstance) {
    */
   app.put(
     '/classes/:id',
-    { preHandler: [requireAuth, requireRole('teacher')] },
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('classes:update_own'),
+      ],
+    },
     async (request, reply) => {
       const classService = new ClassService(request.db)
       const { id } = ClassIdParamSchema.parse(request.params)
@@ -107,7 +150,13 @@ export async function teacherRoutes(app: FastifyInstance) {
    */
   app.delete(
     '/classes/:id',
-    { preHandler: [requireAuth, requireRole('teacher')] },
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('classes:delete_own'),
+      ],
+    },
     async (request, reply) => {
       const classService = new ClassService(request.db)
       const { id } = ClassIdParamSchema.parse(request.params)
@@ -123,7 +172,13 @@ export async function teacherRoutes(app: FastifyInstance) {
    */
   app.post(
     '/classes/:id/students',
-    { preHandler: [requireAuth, requireRole('teacher')] },
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('classes:add_student'),
+      ],
+    },
     async (request, reply) => {
       const classService = new ClassService(request.db)
       const { id } = ClassIdParamSchema.parse(request.params)
@@ -155,7 +210,13 @@ export async function teacherRoutes(app: FastifyInstance) {
    */
   app.delete(
     '/classes/:classId/students/:studentId',
-    { preHandler: [requireAuth, requireRole('teacher')] },
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('classes:remove_student'),
+      ],
+    },
     async (request, reply) => {
       const classService = new ClassService(request.db)
       const params = request.params as { classId: string; studentId: string }
@@ -169,6 +230,167 @@ export async function teacherRoutes(app: FastifyInstance) {
     }
   )
 
+  /**
+   * GET /teacher/classes/:id/join-code
+   * Get the class join code (null when disabled)
+   */
+  app.get(
+    '/classes/:id/join-code',
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('classes:add_student'),
+      ],
+    },
+    async (request, reply) => {
+      const classService = new ClassService(request.db)
+      const { id } = ClassIdParamSchema.parse(request.params)
+
+      const joinCode = await classService.getJoinCode(id, request.user!.userId)
+      return reply.send({ joinCode })
+    }
+  )
+
+  /**
+   * POST /teacher/classes/:id/join-code
+   * Generate a new class join code, replacing the previous one
+   */
+  app.post(
+    '/classes/:id/join-code',
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('classes:add_student'),
+      ],
+    },
+    async (request, reply) => {
+      const classService = new ClassService(request.db)
+      const { id } = ClassIdParamSchema.parse(request.params)
+      const validated = RegenerateJoinCodeSchema.parse(request.body ?? {})
+
+      const joinCode = await classService.regenerateJoinCode(id, request.user!.userId, {
+        expiresAt: validated.expiresAt ? new Date(validated.expiresAt) : null,
+        maxUses: validated.maxUses ?? null,
+      })
+      return reply.code(201).send({ joinCode })
+    }
+  )
+
+  /**
+   * DELETE /teacher/classes/:id/join-code
+   * Disable the class join code
+   */
+  app.delete(
+    '/classes/:id/join-code',
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('classes:add_student'),
+      ],
+    },
+    async (request, reply) => {
+      const classService = new ClassService(request.db)
+      const { id } = ClassIdParamSchema.parse(request.params)
+
+      await classService.disableJoinCode(id, request.user!.userId)
+      return reply.code(204).send()
+    }
+  )
+
+  /**
+   * GET /teacher/classes/:id/staff
+   * List the class staff (owner, co-teachers and TAs)
+   */
+  app.get(
+    '/classes/:id/staff',
+    { preHandler: [requireAuth, requireRole('teacher')] },
+    async (request, reply) => {
+      const classService = new ClassService(request.db)
+      const { id } = ClassIdParamSchema.parse(request.params)
+
+      const staff = await classService.listStaff(id, request.user!.userId)
+      return reply.send({ staff })
+    }
+  )
+
+  /**
+   * POST /teacher/classes/:id/staff
+   * Add a co-teacher or TA to own class (owner only)
+   */
+  app.post(
+    '/classes/:id/staff',
+    { preHandler: [requireAuth, requireRole('teacher')] },
+    async (request, reply) => {
+      const classService = new ClassService(request.db)
+      const { id } = ClassIdParamSchema.parse(request.params)
+      const validated = AddClassStaffSchema.parse(request.body)
+
+      const member = await classService.addStaff(id, request.user!.userId, validated)
+      return reply.code(201).send({ member })
+    }
+  )
+
+  /**
+   * PUT /teacher/classes/:id/staff/:userId
+   * Change the role of a staff member (owner only)
+   */
+  app.put(
+    '/classes/:id/staff/:userId',
+    { preHandler: [requireAuth, requireRole('teacher')] },
+    async (request, reply) => {
+      const classService = new ClassService(request.db)
+      const { id, userId } = ClassStaffParamsSchema.parse(request.params)
+      const validated = UpdateClassStaffSchema.parse(request.body)
+
+      const member = await classService.updateStaffRole(
+        id,
+        request.user!.userId,
+        userId,
+        validated.role
+      )
+      return reply.send({ member })
+    }
+  )
+
+  /**
+   * DELETE /teacher/classes/:id/staff/:userId
+   * Remove a staff member (owner, or the staff member leaving)
+   */
+  app.delete(
+    '/classes/:id/staff/:userId',
+    { preHandler: [requireAuth, requireRole('teacher')] },
+    async (request, reply) => {
+      const classService = new ClassService(request.db)
+      const { id, userId } = ClassStaffParamsSchema.parse(request.params)
+
+      await classService.removeStaff(id, request.user!.userId, userId)
+      return reply.code(204).send()
+    }
+  )
+
+  /**
+   * POST /teacher/roster/import
+   * Import students into own classes from CSV (Name, Email, Class),
+   * creating missing student accounts
+   */
+  app.post(
+    '/roster/import',
+    { preHandler: [requireAuth, requireRole('teacher')] },
+    async (request, reply) => {
+      const classService = new ClassService(request.db)
+      const validated = ImportRosterSchema.parse(request.body)
+
+      const result = await classService.importRoster(validated.csv, {
+        userId: request.user!.userId,
+        role: 'teacher',
+      })
+      return reply.send({ result })
+    }
+  )
+
   /**
    * GET /teacher/users/search
    * Search for students by email to add to class
@@ -205,9 +427,15 @@ export async function teacherRoutes(app: FastifyInstance) {
    */
   app.get(
     '/assignments',
-    { preHandler: [requireAuth, requireRole('teacher')] },
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('assignments:read_own'),
+      ],
+    },
     async (request, reply) => {
-      const assignmentService = new AssignmentService(request.db)
+      const assignmentService = new AssignmentService(request.db, app.mailer)
       const validated = AssignmentQuerySchema.parse(request.query)
 
       // Pass options object for pagination
@@ -215,10 +443,10 @@ export async function teacherRoutes(app: FastifyInstance) {
       if (validated.page !== undefined) options.page = validated.page
       if (validated.limit !== undefined) options.limit = validated.limit
 
-      const assignments = await assignmentService.getAssignmentsByTeacher(
-        request.user!.userId,
-        options
-      )
+      // Teachers granted assignments:read_all see every assignment
+      const assignments = canAccessAll(request, 'assignments:read_own')
+        ? await assignmentService.getAllAssignments(options)
+        : await assignmentService.getAssignmentsByTeacher(request.user!.userId, options)
       return reply.send({ assignments })
     }
   )
@@ -229,9 +457,15 @@ export async function teacherRoutes(app: FastifyInstance) {
    */
   app.post(
     '/assignments',
-    { preHandler: [requireAuth, requireRole('teacher')] },
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('assignments:create'),
+      ],
+    },
     async (request, reply) => {
-      const assignmentService = new AssignmentService(request.db)
+      const assignmentService = new AssignmentService(request.db, app.mailer)
 
       // Extend validation to include class_id from body
       const body = request.body as { classId?: string; title?: string; description?: string; dueDate?: string }
@@ -243,11 +477,29 @@ export async function teacherRoutes(app: FastifyInstance) {
       const validated = CreateAssignmentSchema.parse(request.body)
 
       // Transform schema data to service format
-      const assignmentData = {
+      const assignmentData: {
+        title: string
+        description: string
+        due_date: Date
+        late_policy?: LatePolicy
+        late_cutoff?: Date | null
+        late_penalty_per_day?: number
+        max_points?: number
+        category_id?: string | null
+      } = {
         title: validated.title,
         description: validated.description,
         due_date: new Date(validated.dueDate),
       }
+      if (validated.latePolicy !== undefined) assignmentData.late_policy = validated.latePolicy
+      if (validated.lateCutoff !== undefined) {
+        assignmentData.late_cutoff = validated.lateCutoff ? new Date(validated.lateCutoff) : null
+      }
+      if (validated.latePenaltyPerDay !== undefined) {
+        assignmentData.late_penalty_per_day = validated.latePenaltyPerDay
+      }
+      if (validated.maxPoints !== undefined) assignmentData.max_points = validated.maxPoints
+      if (validated.categoryId !== undefined) assignmentData.category_id = validated.categoryId
 
       const assignment = await assignmentService.createAssignment(
         classId,
@@ -264,17 +516,41 @@ export async function teacherRoutes(app: FastifyInstance) {
    */
   app.put(
     '/assignments/:id',
-    { preHandler: [requireAuth, requireRole('teacher')] },
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('assignments:update_own'),
+      ],
+    },
     async (request, reply) => {
-      const assignmentService = new AssignmentService(request.db)
+      const assignmentService = new AssignmentService(request.db, app.mailer)
       const { id } = AssignmentIdParamSchema.parse(request.params)
       const validated = UpdateAssignmentSchema.parse(request.body)
 
       // Filter undefined and transform dueDate -> due_date
-      const updates: { title?: string; description?: string; due_date?: Date } = {}
+      const updates: {
+        title?: string
+        description?: string
+        due_date?: Date
+        late_policy?: LatePolicy
+        late_cutoff?: Date | null
+        late_penalty_per_day?: number
+        max_points?: number
+        category_id?: string | null
+      } = {}
       if (validated.title !== undefined) updates.title = validated.title
       if (validated.description !== undefined) updates.description = validated.description
       if (validated.dueDate !== undefined) updates.due_date = new Date(validated.dueDate)
+      if (validated.latePolicy !== undefined) updates.late_policy = validated.latePolicy
+      if (validated.lateCutoff !== undefined) {
+        updates.late_cutoff = validated.lateCutoff ? new Date(validated.lateCutoff) : null
+      }
+      if (validated.latePenaltyPerDay !== undefined) {
+        updates.late_penalty_per_day = validated.latePenaltyPerDay
+      }
+      if (validated.maxPoints !== undefined) updates.max_points = validated.maxPoints
+      if (validated.categoryId !== undefined) updates.category_id = validated.categoryId
 
       const assignment = await assignmentService.updateAssignment(
         id,
@@ -291,9 +567,15 @@ export async function teacherRoutes(app: FastifyInstance) {
    */
   app.delete(
     '/assignments/:id',
-    { preHandler: [requireAuth, requireRole('teacher')] },
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('assignments:delete_own'),
+      ],
+    },
     async (request, reply) => {
-      const assignmentService = new AssignmentService(request.db)
+      const assignmentService = new AssignmentService(request.db, app.mailer)
       const { id } = AssignmentIdParamSchema.parse(request.params)
 
       await assignmentService.deleteAssignment(id, request.user!.userId)
@@ -301,15 +583,156 @@ export async function teacherRoutes(app: FastifyInstance) {
     }
   )
 
+  /**
+   * GET /teacher/assignments/:id/rubric
+   * Get the rubric of an assignment (empty if none)
+   */
+  app.get(
+    '/assignments/:id/rubric',
+    { preHandler: [requireAuth, requireRole('teacher')] },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db, app.mailer)
+      const { id } = AssignmentIdParamSchema.parse(request.params)
+
+      const rubric = await assignmentService.getRubric(id, request.user!.userId)
+      return reply.send({ rubric })
+    }
+  )
+
+  /**
+   * PUT /teacher/assignments/:id/rubric
+   * Replace the rubric of an assignment
+   */
+  app.put(
+    '/assignments/:id/rubric',
+    { preHandler: [requireAuth, requireRole('teacher')] },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db, app.mailer)
+      const { id } = AssignmentIdParamSchema.parse(request.params)
+      const validated = SetRubricSchema.parse(request.body)
+
+      const criteria = validated.criteria.map((criterion) => ({
+        title: criterion.title,
+        description: criterion.description ?? null,
+        levels: criterion.levels.map((level) => ({
+          label: level.label,
+          description: level.description ?? null,
+          points: level.points,
+        })),
+      }))
+
+      const rubric = await assignmentService.setRubric(id, request.user!.userId, criteria)
+      return reply.send({ rubric })
+    }
+  )
+
+  /**
+   * DELETE /teacher/assignments/:id/rubric
+   * Remove the rubric of an assignment
+   */
+  app.delete(
+    '/assignments/:id/rubric',
+    { preHandler: [requireAuth, requireRole('teacher')] },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db, app.mailer)
+      const { id } = AssignmentIdParamSchema.parse(request.params)
+
+      await assignmentService.deleteRubric(id, request.user!.userId)
+      return reply.code(204).send()
+    }
+  )
+
+  // ============ CATEGORY ROUTES ============
+
+  /**
+   * GET /teacher/classes/:id/categories
+   * List weighted assignment categories of a class
+   */
+  app.get(
+    '/classes/:id/categories',
+    { preHandler: [requireAuth, requireRole('teacher')] },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db, app.mailer)
+      const { id } = ClassIdParamSchema.parse(request.params)
+
+      const categories = await assignmentService.getCategoriesByClass(id, request.user!.userId)
+      return reply.send({ categories })
+    }
+  )
+
+  /**
+   * POST /teacher/classes/:id/categories
+   * Add a weighted assignment category to a class
+   */
+  app.post(
+    '/classes/:id/categories',
+    { preHandler: [requireAuth, requireRole('teacher')] },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db, app.mailer)
+      const { id } = ClassIdParamSchema.parse(request.params)
+      const validated = CreateCategorySchema.parse(request.body)
+
+      const category = await assignmentService.createCategory(
+        id,
+        request.user!.userId,
+        validated
+      )
+      return reply.code(201).send({ category })
+    }
+  )
+
+  /**
+   * PUT /teacher/categories/:id
+   * Rename or reweight an assignment category
+   */
+  app.put(
+    '/categories/:id',
+    { preHandler: [requireAuth, requireRole('teacher')] },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db, app.mailer)
+      const { id } = CategoryIdParamSchema.parse(request.params)
+      const validated = UpdateCategorySchema.parse(request.body)
+
+      const updates: { name?: string; weight?: number } = {}
+      if (validated.name !== undefined) updates.name = validated.name
+      if (validated.weight !== undefined) updates.weight = validated.weight
+
+      const category = await assignmentService.updateCategory(id, request.user!.userId, updates)
+      return reply.send({ category })
+    }
+  )
+
+  /**
+   * DELETE /teacher/categories/:id
+   * Delete an assignment category; its assignments become uncategorized
+   */
+  app.delete(
+    '/categories/:id',
+    { preHandler: [requireAuth, requireRole('teacher')] },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db, app.mailer)
+      const { id } = CategoryIdParamSchema.parse(request.params)
+
+      await assignmentService.deleteCategory(id, request.user!.userId)
+      return reply.code(204).send()
+    }
+  )
+
   /**
    * GET /teacher/submissions
    * List submissions for teacher's assignments
    */
   app.get(
     '/submissions',
-    { preHandler: [requireAuth, requireRole('teacher')] },
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('submissions:read_class'),
+      ],
+    },
     async (request, reply) => {
-      const assignmentService = new AssignmentService(request.db)
+      const assignmentService = new AssignmentService(request.db, app.mailer)
       const query = request.query as { assignment_id?: string }
 
       if (query.assignment_id) {
@@ -330,9 +753,15 @@ export async function teacherRoutes(app: FastifyInstance) {
    */
   app.get(
     '/assignments/:id/stats',
-    { preHandler: [requireAuth, requireRole('teacher')] },
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('submissions:read_class'),
+      ],
+    },
     async (request, reply) => {
-      const assignmentService = new AssignmentService(request.db)
+      const assignmentService = new AssignmentService(request.db, app.mailer)
       const { id } = AssignmentIdParamSchema.parse(request.params)
 
       const stats = await assignmentService.getSubmissionStats(
@@ -344,15 +773,147 @@ export async function teacherRoutes(app: FastifyInstance) {
     }
   )
 
+  /**
+   * POST /teacher/assignments/:id/release-grades
+   * Release an assignment's grades to students and notify them
+   */
+  app.post(
+    '/assignments/:id/release-grades',
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('grades:update_own'),
+      ],
+    },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db, app.mailer)
+      const { id } = AssignmentIdParamSchema.parse(request.params)
+
+      const assignment = await assignmentService.releaseGrades(id, request.user!.userId)
+      return reply.send({ assignment })
+    }
+  )
+
+  /**
+   * GET /teacher/submissions/:id/attachments
+   * List files attached to a submission in one of teacher's classes
+   */
+  app.get(
+    '/submissions/:id/attachments',
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('submissions:read_class'),
+      ],
+    },
+    async (request, reply) => {
+      const attachmentService = new SubmissionAttachmentService(request.db, app.storage)
+      const { id: submissionId } = SubmissionIdParamSchema.parse(request.params)
+
+      const attachments = await attachmentService.getAttachments(
+        submissionId,
+        request.user!.userId
+      )
+      return reply.send({ attachments })
+    }
+  )
+
+  /**
+   * GET /teacher/submissions/:id/versions
+   * List versions of a submission in one of teacher's classes
+   */
+  app.get(
+    '/submissions/:id/versions',
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('submissions:read_class'),
+      ],
+    },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db, app.mailer)
+      const { id: submissionId } = SubmissionIdParamSchema.parse(request.params)
+
+      const versions = await assignmentService.getSubmissionVersions(
+        submissionId,
+        request.user!.userId
+      )
+      return reply.send({ versions })
+    }
+  )
+
+  /**
+   * GET /teacher/submissions/:id/versions/diff?from=1&to=2
+   * Compare two versions of a submission in one of teacher's classes
+   */
+  app.get(
+    '/submissions/:id/versions/diff',
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('submissions:read_class'),
+      ],
+    },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db, app.mailer)
+      const { id: submissionId } = SubmissionIdParamSchema.parse(request.params)
+      const { from, to } = SubmissionVersionDiffQuerySchema.parse(request.query)
+
+      const diff = await assignmentService.diffSubmissionVersions(
+        submissionId,
+        request.user!.userId,
+        from,
+        to
+      )
+      return reply.send(diff)
+    }
+  )
+
+  /**
+   * POST /teacher/submissions/:id/return
+   * Return a graded submission to the student for revision
+   */
+  app.post(
+    '/submissions/:id/return',
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('grades:update_own'),
+      ],
+    },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db, app.mailer)
+      const { id: submissionId } = SubmissionIdParamSchema.parse(request.params)
+
+      const submission = await assignmentService.returnSubmissionForRevision(
+        submissionId,
+        request.user!.userId
+      )
+      return reply.send({ submission })
+    }
+  )
+
   /**
    * POST /teacher/submissions/:id/grade
-   * Grade a submission
+   * Grade a submission, either directly or per rubric criterion;
+   * regrading needs a reason and is kept as a revision
    */
   app.post(
     '/submissions/:id/grade',
-    { preHandler: [requireAuth, requireRole('teacher')] },
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('grades:update_own'),
+      ],
+    },
     async (request, reply) => {
-      const assignmentService = new AssignmentService(request.db)
+      const assignmentService = new AssignmentService(request.db, app.mailer)
       const { id: submissionId } = SubmissionIdParamSchema.parse(request.params)
       const validated = GradeSubmissionSchema.parse(request.body)
 
@@ -367,14 +928,324 @@ export async function teacherRoutes(app: FastifyInstance) {
         return reply.code(404).send({ error: 'Submission not found' })
       }
 
+      if (validated.rubricScores) {
+        const scores = validated.rubricScores.map((score) => ({
+          criterionId: score.criterionId,
+          levelId: score.levelId,
+          ...(score.comment !== undefined && { comment: score.comment }),
+        }))
+        const result = await assignmentService.gradeSubmissionWithRubric(
+          submission.assignment_id,
+          submission.student_id,
+          request.user!.userId,
+          scores,
+          validated.feedback,
+          validated.reason
+        )
+        return reply.send(result)
+      }
+
       const grade = await assignmentService.gradeSubmission(
         submission.assignment_id,
         submission.student_id,
         request.user!.userId,
-        validated.grade,
-        validated.feedback
+        validated.grade!,
+        validated.feedback,
+        validated.reason
       )
       return reply.send({ grade })
     }
   )
+
+  /**
+   * GET /teacher/submissions/:id/grade/revisions
+   * Get the change history of a submission's grade, newest first
+   */
+  app.get(
+    '/submissions/:id/grade/revisions',
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('grades:read_class'),
+      ],
+    },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db, app.mailer)
+      const { id: submissionId } = SubmissionIdParamSchema.parse(request.params)
+
+      const revisions = await assignmentService.getGradeRevisions(
+        submissionId,
+        request.user!.userId
+      )
+      return reply.send({ revisions })
+    }
+  )
+
+  /**
+   * POST /teacher/grades/bulk
+   * Grade several submissions at once, replacing existing grades
+   */
+  app.post(
+    '/grades/bulk',
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('grades:update_own'),
+      ],
+    },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db, app.mailer)
+      const validated = BulkGradeSubmissionsSchema.parse(request.body)
+
+      // Resolve submissions to the assignment/student pairs the service grades by
+      const submissions = await request.db
+        .selectFrom('submissions')
+        .select(['id', 'assignment_id', 'student_id'])
+        .where('id', 'in', validated.grades.map((g) => g.submissionId))
+        .execute()
+
+      const grades = []
+      for (const gradeData of validated.grades) {
+        const submission = submissions.find((s) => s.id === gradeData.submissionId)
+        if (!submission) {
+          return reply.code(404).send({ error: 'Submission not found' })
+        }
+        grades.push({
+          assignmentId: submission.assignment_id,
+          studentId: submission.student_id,
+          grade: gradeData.grade,
+          ...(gradeData.feedback !== undefined && { feedback: gradeData.feedback }),
+        })
+      }
+
+      const count = await assignmentService.bulkGradeSubmissions(
+        grades,
+        request.user!.userId,
+        validated.reason
+      )
+      return reply.send({ count })
+    }
+  )
+
+  // ============ GRADEBOOK ROUTES ============
+
+  /**
+   * GET /teacher/classes/:id/gradebook
+   * Get the students x assignments grade matrix of a class
+   */
+  app.get(
+    '/classes/:id/gradebook',
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('grades:read_class'),
+      ],
+    },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db, app.mailer)
+      const { id } = ClassIdParamSchema.parse(request.params)
+
+      const gradebook = await assignmentService.getGradebook(id, request.user!.userId, {
+        readAll: canAccessAll(request, 'grades:read_class'),
+      })
+      return reply.send({ gradebook })
+    }
+  )
+
+  /**
+   * GET /teacher/classes/:id/gradebook.csv
+   * Download the gradebook of a class as CSV
+   */
+  app.get(
+    '/classes/:id/gradebook.csv',
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('grades:read_class'),
+      ],
+    },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db, app.mailer)
+      const { id } = ClassIdParamSchema.parse(request.params)
+
+      const csv = await assignmentService.exportGradebookCsv(id, request.user!.userId, {
+        readAll: canAccessAll(request, 'grades:read_class'),
+      })
+      return reply
+        .header('Content-Type', 'text/csv; charset=utf-8')
+        .header('Content-Disposition', `attachment; filename="gradebook-${id}.csv"`)
+        .header('Cache-Control', 'private, no-store')
+        .send(csv)
+    }
+  )
+
+  // ============ GRADE CSV ROUTES ============
+
+  /**
+   * GET /teacher/assignments/:id/grades.csv
+   * Download the submissions and grades of an assignment as CSV
+   */
+  app.get(
+    '/assignments/:id/grades.csv',
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('grades:read_class'),
+      ],
+    },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db, app.mailer)
+      const { id } = AssignmentIdParamSchema.parse(request.params)
+
+      const csv = await assignmentService.exportAssignmentGradesCsv(id, request.user!.userId, {
+        readAll: canAccessAll(request, 'grades:read_class'),
+      })
+      return reply
+        .header('Content-Type', 'text/csv; charset=utf-8')
+        .header('Content-Disposition', `attachment; filename="grades-${id}.csv"`)
+        .header('Cache-Control', 'private, no-store')
+        .send(csv)
+    }
+  )
+
+  /**
+   * POST /teacher/assignments/:id/grades/import
+   * Import assignment grades from CSV (Email, Grade, optional Feedback);
+   * dryRun reports per-row problems without saving
+   */
+  app.post(
+    '/assignments/:id/grades/import',
+    {
+      preHandler: [
+        requireAuth,
+        requireRole('teacher'),
+        requirePermission('grades:update_own'),
+      ],
+    },
+    async (request, reply) => {
+      const assignmentService = new AssignmentService(request.db, app.mailer)
+      const { id } = AssignmentIdParamSchema.parse(request.params)
+      const validated = ImportGradesCsvSchema.parse(request.body)
+
+      const result = await assignmentService.importAssignmentGradesCsv(
+        id,
+        request.user!.userId,
+        validated.csv,
+        validated.dryRun ?? false,
+        validated.reason
+      )
+      return reply.send({ result })
+    }
+  )
+
+  // ============ LESSON ROUTES ============
+
+  /**
+   * GET /teacher/classes/:id/lessons
+   * List all lessons of a class (drafts included), ordered by module and position
+   */
+  app.get(
+    '/classes/:id/lessons',
+    { preHandler: [requireAuth, requireRole('teacher')] },
+    async (request, reply) => {
+      const lessonService = new LessonService(request.db)
+      const { id } = ClassIdParamSchema.parse(request.params)
+
+      const lessons = await lessonService.getLessonsForTeacher(id, request.user!.userId)
+      return reply.send({ lessons })
+    }
+  )
+
+  /**
+   * POST /teacher/classes/:id/lessons
+   * Create a lesson in a class
+   */
+  app.post(
+    '/classes/:id/lessons',
+    { preHandler: [requireAuth, requireRole('teacher')] },
+    async (request, reply) => {
+      const lessonService = new LessonService(request.db)
+      const { id } = ClassIdParamSchema.parse(request.params)
+      const validated = CreateLessonSchema.parse(request.body)
+
+      // Transform schema data to service format, filtering undefined
+      const lessonData: {
+        title: string
+        content: string
+        module_name?: string
+        module_position?: number
+        position?: number
+        status?: 'draft' | 'published'
+      } = {
+        title: validated.title,
+        content: validated.content,
+      }
+      if (validated.moduleName !== undefined) lessonData.module_name = validated.moduleName
+      if (validated.modulePosition !== undefined) lessonData.module_position = validated.modulePosition
+      if (validated.position !== undefined) lessonData.position = validated.position
+      if (validated.status !== undefined) lessonData.status = validated.status
+
+      const lesson = await lessonService.createLesson(id, request.user!.userId, lessonData)
+      return reply.code(201).send({ lesson })
+    }
+  )
+
+  /**
+   * PUT /teacher/classes/:id/lessons/:lessonId
+   * Update, reorder, publish or unpublish a lesson
+   */
+  app.put(
+    '/classes/:id/lessons/:lessonId',
+    { preHandler: [requireAuth, requireRole('teacher')] },
+    async (request, reply) => {
+      const lessonService = new LessonService(request.db)
+      const { id, lessonId } = ClassLessonParamsSchema.parse(request.params)
+      const validated = UpdateLessonSchema.parse(request.body)
+
+      // Filter undefined and transform camelCase -> snake_case
+      const updates: {
+        title?: string
+        content?: string
+        module_name?: string | null
+        module_position?: number
+        position?: number
+        status?: 'draft' | 'published'
+      } = {}
+      if (validated.title !== undefined) updates.title = validated.title
+      if (validated.content !== undefined) updates.content = validated.content
+      if (validated.moduleName !== undefined) updates.module_name = validated.moduleName
+      if (validated.modulePosition !== undefined) updates.module_position = validated.modulePosition
+      if (validated.position !== undefined) updates.position = validated.position
+      if (validated.status !== undefined) updates.status = validated.status
+
+      const lesson = await lessonService.updateLesson(
+        id,
+        lessonId,
+        request.user!.userId,
+        updates
+      )
+      return reply.send({ lesson })
+    }
+  )
+
+  /**
+   * DELETE /teacher/classes/:id/lessons/:lessonId
+   * Delete a lesson
+   */
+  app.delete(
+    '/classes/:id/lessons/:lessonId',
+    { preHandler: [requireAuth, requireRole('teacher')] },
+    async (request, reply) => {
+      const lessonService = new LessonService(request.db)
+      const { id, lessonId } = ClassLessonParamsSchema.parse(request.params)
+
+      await lessonService.deleteLesson(id, lessonId, request.user!.userId)
+      return reply.code(204).send()
+    }
+  )
 }
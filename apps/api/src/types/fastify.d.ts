@@ -1,18 +1,30 @@
 /**
  * Fastify Type Extensions
- * Extends Fastify's request interface to add custom properties
+ * Extends Fastify's instance and request interfaces to add custom properties
  */
 
 import 'fastify'
 import type { Kysely } from 'kysely'
 import type { Database, UserRole } from '@concentrate/database'
+import type { Permission } from '@concentrate/shared'
+import type { EventHub, Mailer, StorageBackend } from '@concentrate/services'
 
 declare module 'fastify' {
+  interface FastifyInstance {
+    storage: StorageBackend
+    mailer: Mailer
+    events: EventHub
+  }
+
   interface FastifyRequest {
     db: Kysely<Database>
     user?: {
       userId: string
       role: UserRole
+      // Token version the access token was issued with
+      tokenVersion: number
     }
+    // Effective permissions, resolved by the requirePermission hook
+    permissions?: Permission[]
   }
 }
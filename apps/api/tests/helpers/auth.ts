@@ -0,0 +1,34 @@
+import type { FastifyInstance } from 'fastify'
+import type { UserRole } from '@concentrate/shared'
+
+const PASSWORD = 'Password123!'
+
+/**
+ * Register a user through the API and log them in
+ * @param app - Fastify app under test
+ * @param email - User email
+ * @param role - User role
+ * @param name - Display name (defaults to "<role> user")
+ * @returns Created user ID and access token cookie value
+ */
+export async function registerAndLogin(
+  app: FastifyInstance,
+  email: string,
+  role: UserRole,
+  name = `${role} user`
+): Promise<{ id: string; token: string }> {
+  const registerResponse = await app.inject({
+    method: 'POST',
+    url: '/api/v0/auth/register',
+    payload: { email, password: PASSWORD, name, role },
+  })
+  const loginResponse = await app.inject({
+    method: 'POST',
+    url: '/api/v0/auth/login',
+    payload: { email, password: PASSWORD },
+  })
+  return {
+    id: JSON.parse(registerResponse.body).user.id as string,
+    token: loginResponse.cookies.find((c) => c.name === 'access_token')?.value || '',
+  }
+}
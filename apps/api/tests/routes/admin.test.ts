@@ -77,6 +77,22 @@ describe('Admin Routes', () => {
     await clearAllTables(db)
   })
 
+  async function loginAs(email: string, password: string) {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v0/auth/login',
+      payload: { email, password },
+    })
+    return {
+      access_token: response.cookies.find((c) => c.name === 'access_token')?.value || '',
+      refresh_token: response.cookies.find((c) => c.name === 'refresh_token')?.value || '',
+    }
+  }
+
+  async function getMe(cookies: Record<string, string>) {
+    return app.inject({ method: 'GET', url: '/api/v0/auth/me', cookies })
+  }
+
   describe('GET /api/v0/admin/users', () => {
     it('should list all users with admin auth', async () => {
       const response = await app.inject({
@@ -353,6 +369,18 @@ describe('Admin Routes', () => {
       expect(response.statusCode).toBe(204)
     })
 
+    it('should reject the deleted user\'s access token immediately', async () => {
+      const student = await loginAs('student@test.com', 'Student123!')
+
+      await app.inject({
+        method: 'DELETE',
+        url: `/api/v0/admin/users/${studentUserId}`,
+        cookies: { access_token: adminToken },
+      })
+
+      expect((await getMe(student)).statusCode).toBe(401)
+    })
+
     it('should prevent deleting last admin', async () => {
       const response = await app.inject({
         method: 'DELETE',
@@ -442,6 +470,28 @@ describe('Admin Routes', () => {
       expect(body.user.suspended).toBe(true)
     })
 
+    it('should revoke the suspended user\'s tokens immediately', async () => {
+      const teacher = await loginAs('teacher@test.com', 'Teacher123!')
+      expect((await getMe(teacher)).statusCode).toBe(200)
+
+      await app.inject({
+        method: 'POST',
+        url: `/api/v0/admin/users/${teacherUserId}/suspend`,
+        cookies: { access_token: adminToken },
+      })
+
+      expect((await getMe(teacher)).statusCode).toBe(401)
+      const refreshResponse = await app.inject({
+        method: 'POST',
+        url: '/api/v0/auth/refresh',
+        cookies: { refresh_token: teacher.refresh_token },
+      })
+      expect(refreshResponse.statusCode).toBe(401)
+
+      // Other users are not affected
+      expect((await getMe({ access_token: adminToken })).statusCode).toBe(200)
+    })
+
     it('should prevent self-suspension', async () => {
       const response = await app.inject({
         method: 'POST',
@@ -479,57 +529,239 @@ describe('Admin Routes', () => {
       const body = JSON.parse(response.body)
       expect(body.user.suspended).toBe(false)
     })
-  })
 
-  describe('GET /api/v0/admin/teacher-groups', () => {
-    it('should return not implemented', async () => {
-      const response = await app.inject({
-        method: 'GET',
-        url: '/api/v0/admin/teacher-groups',
+    it('should let an unsuspended user log in again', async () => {
+      await app.inject({
+        method: 'POST',
+        url: `/api/v0/admin/users/${teacherUserId}/suspend`,
+        cookies: { access_token: adminToken },
+      })
+      await app.inject({
+        method: 'POST',
+        url: `/api/v0/admin/users/${teacherUserId}/unsuspend`,
         cookies: { access_token: adminToken },
       })
 
-      expect(response.statusCode).toBe(501)
+      const teacher = await loginAs('teacher@test.com', 'Teacher123!')
+      expect((await getMe(teacher)).statusCode).toBe(200)
     })
   })
 
-  describe('POST /api/v0/admin/teacher-groups', () => {
-    it('should return not implemented', async () => {
+  describe('Teacher groups', () => {
+    const fakeId = '00000000-0000-0000-0000-000000000000'
+
+    const createGroup = async (name = 'Science Department') => {
       const response = await app.inject({
         method: 'POST',
         url: '/api/v0/admin/teacher-groups',
         cookies: { access_token: adminToken },
-        payload: {},
+        payload: { name },
+      })
+      return JSON.parse(response.body).teacherGroup
+    }
+
+    describe('GET /api/v0/admin/teacher-groups', () => {
+      it('should list teacher groups', async () => {
+        await createGroup('Science')
+        await createGroup('Arts')
+
+        const response = await app.inject({
+          method: 'GET',
+          url: '/api/v0/admin/teacher-groups',
+          cookies: { access_token: adminToken },
+        })
+
+        expect(response.statusCode).toBe(200)
+        const body = JSON.parse(response.body)
+        expect(body.teacherGroups).toHaveLength(2)
+        expect(body.teacherGroups[0].name).toBe('Arts')
+      })
+
+      it('should require admin role', async () => {
+        const loginResponse = await app.inject({
+          method: 'POST',
+          url: '/api/v0/auth/login',
+          payload: { email: 'teacher@test.com', password: 'Teacher123!' },
+        })
+        const teacherToken =
+          loginResponse.cookies.find((c) => c.name === 'access_token')?.value || ''
+
+        const response = await app.inject({
+          method: 'GET',
+          url: '/api/v0/admin/teacher-groups',
+          cookies: { access_token: teacherToken },
+        })
+
+        expect(response.statusCode).toBe(403)
       })
+    })
+
+    describe('POST /api/v0/admin/teacher-groups', () => {
+      it('should create a teacher group owned by the admin', async () => {
+        const response = await app.inject({
+          method: 'POST',
+          url: '/api/v0/admin/teacher-groups',
+          cookies: { access_token: adminToken },
+          payload: { name: 'Science Department' },
+        })
 
-      expect(response.statusCode).toBe(501)
+        expect(response.statusCode).toBe(201)
+        const body = JSON.parse(response.body)
+        expect(body.teacherGroup.name).toBe('Science Department')
+        expect(body.teacherGroup.admin_id).toBe(adminUserId)
+      })
     })
-  })
 
-  describe('PUT /api/v0/admin/teacher-groups/:id', () => {
-    it('should return not implemented', async () => {
-      const fakeId = '00000000-0000-0000-0000-000000000000'
-      const response = await app.inject({
-        method: 'PUT',
-        url: `/api/v0/admin/teacher-groups/${fakeId}`,
-        cookies: { access_token: adminToken },
-        payload: {},
+    describe('GET /api/v0/admin/teacher-groups/:id', () => {
+      it('should return the group', async () => {
+        const group = await createGroup()
+
+        const response = await app.inject({
+          method: 'GET',
+          url: `/api/v0/admin/teacher-groups/${group.id}`,
+          cookies: { access_token: adminToken },
+        })
+
+        expect(response.statusCode).toBe(200)
+        expect(JSON.parse(response.body).teacherGroup.id).toBe(group.id)
       })
 
-      expect(response.statusCode).toBe(501)
+      it('should return 404 for non-existent group', async () => {
+        const response = await app.inject({
+          method: 'GET',
+          url: `/api/v0/admin/teacher-groups/${fakeId}`,
+          cookies: { access_token: adminToken },
+        })
+
+        expect(response.statusCode).toBe(404)
+      })
     })
-  })
 
-  describe('DELETE /api/v0/admin/teacher-groups/:id', () => {
-    it('should return not implemented', async () => {
-      const fakeId = '00000000-0000-0000-0000-000000000000'
-      const response = await app.inject({
-        method: 'DELETE',
-        url: `/api/v0/admin/teacher-groups/${fakeId}`,
-        cookies: { access_token: adminToken },
+    describe('PUT /api/v0/admin/teacher-groups/:id', () => {
+      it('should rename the group', async () => {
+        const group = await createGroup()
+
+        const response = await app.inject({
+          method: 'PUT',
+          url: `/api/v0/admin/teacher-groups/${group.id}`,
+          cookies: { access_token: adminToken },
+          payload: { name: 'Renamed' },
+        })
+
+        expect(response.statusCode).toBe(200)
+        expect(JSON.parse(response.body).teacherGroup.name).toBe('Renamed')
+      })
+
+      it('should return 404 for non-existent group', async () => {
+        const response = await app.inject({
+          method: 'PUT',
+          url: `/api/v0/admin/teacher-groups/${fakeId}`,
+          cookies: { access_token: adminToken },
+          payload: { name: 'Renamed' },
+        })
+
+        expect(response.statusCode).toBe(404)
+      })
+    })
+
+    describe('DELETE /api/v0/admin/teacher-groups/:id', () => {
+      it('should delete the group', async () => {
+        const group = await createGroup()
+
+        const response = await app.inject({
+          method: 'DELETE',
+          url: `/api/v0/admin/teacher-groups/${group.id}`,
+          cookies: { access_token: adminToken },
+        })
+
+        expect(response.statusCode).toBe(204)
+      })
+
+      it('should return 404 for non-existent group', async () => {
+        const response = await app.inject({
+          method: 'DELETE',
+          url: `/api/v0/admin/teacher-groups/${fakeId}`,
+          cookies: { access_token: adminToken },
+        })
+
+        expect(response.statusCode).toBe(404)
+      })
+    })
+
+    describe('Members', () => {
+      it('should add, list and remove a teacher', async () => {
+        const group = await createGroup()
+
+        const addResponse = await app.inject({
+          method: 'POST',
+          url: `/api/v0/admin/teacher-groups/${group.id}/members`,
+          cookies: { access_token: adminToken },
+          payload: { teacherId: teacherUserId },
+        })
+        expect(addResponse.statusCode).toBe(200)
+
+        const listResponse = await app.inject({
+          method: 'GET',
+          url: `/api/v0/admin/teacher-groups/${group.id}/members`,
+          cookies: { access_token: adminToken },
+        })
+        expect(listResponse.statusCode).toBe(200)
+        const { members } = JSON.parse(listResponse.body)
+        expect(members).toHaveLength(1)
+        expect(members[0].id).toBe(teacherUserId)
+        expect(members[0].email).toBe('teacher@test.com')
+
+        const removeResponse = await app.inject({
+          method: 'DELETE',
+          url: `/api/v0/admin/teacher-groups/${group.id}/members/${teacherUserId}`,
+          cookies: { access_token: adminToken },
+        })
+        expect(removeResponse.statusCode).toBe(204)
+      })
+
+      it('should reject non-teacher members', async () => {
+        const group = await createGroup()
+
+        const response = await app.inject({
+          method: 'POST',
+          url: `/api/v0/admin/teacher-groups/${group.id}/members`,
+          cookies: { access_token: adminToken },
+          payload: { teacherId: studentUserId },
+        })
+
+        expect(response.statusCode).toBe(403)
+      })
+
+      it('should reject duplicate members', async () => {
+        const group = await createGroup()
+        await app.inject({
+          method: 'POST',
+          url: `/api/v0/admin/teacher-groups/${group.id}/members`,
+          cookies: { access_token: adminToken },
+          payload: { teacherId: teacherUserId },
+        })
+
+        const response = await app.inject({
+          method: 'POST',
+          url: `/api/v0/admin/teacher-groups/${group.id}/members`,
+          cookies: { access_token: adminToken },
+          payload: { teacherId: teacherUserId },
+        })
+
+        expect(response.statusCode).toBe(409)
       })
 
-      expect(response.statusCode).toBe(501)
+      it('should return 404 when removing a non-member', async () => {
+        const group = await createGroup()
+
+        const response = await app.inject({
+          method: 'DELETE',
+          url: `/api/v0/admin/teacher-groups/${group.id}/members/${teacherUserId}`,
+          cookies: { access_token: adminToken },
+        })
+
+        expect(response.statusCode).toBe(404)
+      })
     })
   })
 })
@@ -0,0 +1,275 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { buildApp } from '../../src/app.js'
+import { FastifyInstance } from 'fastify'
+import { db, clearAllTables } from '@concentrate/database'
+import { UPLOAD_LIMITS } from '@concentrate/shared'
+import { registerAndLogin } from '../helpers/auth.js'
+
+/**
+ * Build a multipart/form-data payload for app.inject
+ */
+function multipart(files: Array<{ filename: string; contentType: string; data: Buffer }>) {
+  const boundary = '----attachment-test-boundary'
+  const chunks: Buffer[] = []
+  for (const file of files) {
+    chunks.push(
+      Buffer.from(
+        `--${boundary}\r\n` +
+          `Content-Disposition: form-data; name="files"; filename="${file.filename}"\r\n` +
+          `Content-Type: ${file.contentType}\r\n\r\n`
+      ),
+      file.data,
+      Buffer.from('\r\n')
+    )
+  }
+  chunks.push(Buffer.from(`--${boundary}--\r\n`))
+
+  return {
+    payload: Buffer.concat(chunks),
+    headers: { 'content-type': `multipart/form-data; boundary=${boundary}` },
+  }
+}
+
+describe('Attachment Routes', () => {
+  let app: FastifyInstance
+  let uploadDir: string
+  let teacherToken: string
+  let studentToken: string
+  let otherStudentToken: string
+  let submissionId: string
+
+  const pdf = { filename: 'essay.pdf', contentType: 'application/pdf', data: Buffer.from('%PDF-1.4') }
+
+  async function upload(token: string, files = [pdf]) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/v0/student/submissions/${submissionId}/attachments`,
+      cookies: { access_token: token },
+      ...multipart(files),
+    })
+  }
+
+  beforeAll(async () => {
+    uploadDir = await mkdtemp(path.join(tmpdir(), 'attachments-test-'))
+    process.env['UPLOAD_DIR'] = uploadDir
+  })
+
+  afterAll(async () => {
+    delete process.env['UPLOAD_DIR']
+    await rm(uploadDir, { recursive: true, force: true })
+  })
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    app = await buildApp()
+
+    const teacher = await registerAndLogin(app, 'teacher@test.com', 'teacher')
+    const student = await registerAndLogin(app, 'student@test.com', 'student')
+    const otherStudent = await registerAndLogin(app, 'other@test.com', 'student')
+    teacherToken = teacher.token
+    studentToken = student.token
+    otherStudentToken = otherStudent.token
+
+    const classResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/classes',
+      cookies: { access_token: teacherToken },
+      payload: { name: 'English', description: 'Essays' },
+    })
+    const classId = JSON.parse(classResponse.body).class.id
+
+    await app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/classes/${classId}/students`,
+      cookies: { access_token: teacherToken },
+      payload: { studentId: student.id },
+    })
+
+    const assignmentResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/assignments',
+      cookies: { access_token: teacherToken },
+      payload: {
+        classId,
+        title: 'Essay',
+        description: 'Write an essay',
+        dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      },
+    })
+    const assignmentId = JSON.parse(assignmentResponse.body).assignment.id
+
+    const submissionResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/student/submissions',
+      cookies: { access_token: studentToken },
+      payload: { assignmentId, content: 'See attached' },
+    })
+    submissionId = JSON.parse(submissionResponse.body).submission.id
+  })
+
+  afterEach(async () => {
+    if (app) {
+      await app.close()
+    }
+    await clearAllTables(db)
+  })
+
+  describe('POST /api/v0/student/submissions/:id/attachments', () => {
+    it('should upload multiple files', async () => {
+      const response = await upload(studentToken, [
+        pdf,
+        { filename: 'notes.txt', contentType: 'text/plain', data: Buffer.from('notes') },
+      ])
+
+      expect(response.statusCode).toBe(201)
+      const body = JSON.parse(response.body)
+      expect(body.attachments).toHaveLength(2)
+      expect(body.attachments[0].filename).toBe('essay.pdf')
+      expect(body.attachments[0].size_bytes).toBe(pdf.data.length)
+      expect(body.attachments[1].mime_type).toBe('text/plain')
+    })
+
+    it('should reject disallowed MIME types', async () => {
+      const response = await upload(studentToken, [
+        { filename: 'run.exe', contentType: 'application/x-msdownload', data: Buffer.from('MZ') },
+      ])
+
+      expect(response.statusCode).toBe(400)
+    })
+
+    it('should reject files over the size limit', async () => {
+      const response = await upload(studentToken, [
+        { ...pdf, data: Buffer.alloc(UPLOAD_LIMITS.MAX_FILE_SIZE_BYTES + 1) },
+      ])
+
+      expect(response.statusCode).toBe(413)
+    })
+
+    it('should reject uploads to another student submission', async () => {
+      const response = await upload(otherStudentToken)
+
+      expect(response.statusCode).toBe(403)
+    })
+
+    it('should reject teachers', async () => {
+      const response = await upload(teacherToken)
+
+      expect(response.statusCode).toBe(403)
+    })
+  })
+
+  describe('GET /api/v0/{student,teacher}/submissions/:id/attachments', () => {
+    beforeEach(async () => {
+      await upload(studentToken)
+    })
+
+    it('should list attachments for the student', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/student/submissions/${submissionId}/attachments`,
+        cookies: { access_token: studentToken },
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(JSON.parse(response.body).attachments).toHaveLength(1)
+    })
+
+    it('should list attachments for the class teacher', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/teacher/submissions/${submissionId}/attachments`,
+        cookies: { access_token: teacherToken },
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(JSON.parse(response.body).attachments).toHaveLength(1)
+    })
+
+    it('should forbid other students', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/student/submissions/${submissionId}/attachments`,
+        cookies: { access_token: otherStudentToken },
+      })
+
+      expect(response.statusCode).toBe(403)
+    })
+  })
+
+  describe('GET /api/v0/attachments/:id/download', () => {
+    let attachmentId: string
+
+    beforeEach(async () => {
+      const response = await upload(studentToken)
+      attachmentId = JSON.parse(response.body).attachments[0].id
+    })
+
+    it('should download file for the student', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/attachments/${attachmentId}/download`,
+        cookies: { access_token: studentToken },
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.headers['content-type']).toBe('application/pdf')
+      expect(response.headers['content-disposition']).toContain('filename="essay.pdf"')
+      expect(response.rawPayload.equals(pdf.data)).toBe(true)
+    })
+
+    it('should download file for the class teacher', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/attachments/${attachmentId}/download`,
+        cookies: { access_token: teacherToken },
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.rawPayload.equals(pdf.data)).toBe(true)
+    })
+
+    it('should forbid other students', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/attachments/${attachmentId}/download`,
+        cookies: { access_token: otherStudentToken },
+      })
+
+      expect(response.statusCode).toBe(403)
+    })
+
+    it('should require authentication', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/attachments/${attachmentId}/download`,
+      })
+
+      expect(response.statusCode).toBe(401)
+    })
+  })
+
+  describe('DELETE /api/v0/student/attachments/:id', () => {
+    it('should delete own attachment', async () => {
+      const uploadResponse = await upload(studentToken)
+      const attachmentId = JSON.parse(uploadResponse.body).attachments[0].id
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/v0/student/attachments/${attachmentId}`,
+        cookies: { access_token: studentToken },
+      })
+
+      expect(response.statusCode).toBe(204)
+
+      const download = await app.inject({
+        method: 'GET',
+        url: `/api/v0/attachments/${attachmentId}/download`,
+        cookies: { access_token: studentToken },
+      })
+      expect(download.statusCode).toBe(404)
+    })
+  })
+})
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { buildApp } from '../../src/app.js'
+import { FastifyInstance } from 'fastify'
+import { db, clearAllTables } from '@concentrate/database'
+import { registerAndLogin } from '../helpers/auth.js'
+
+describe('Audit Event Routes', () => {
+  let app: FastifyInstance
+  let adminToken: string
+  let adminId: string
+  let teacherToken: string
+  let teacherId: string
+
+  async function listEvents(query = '', token = adminToken) {
+    return app.inject({
+      method: 'GET',
+      url: `/api/v0/admin/audit-events${query}`,
+      cookies: { access_token: token },
+    })
+  }
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    app = await buildApp()
+
+    const admin = await registerAndLogin(app, 'admin@test.com', 'admin', 'Admin')
+    adminToken = admin.token
+    adminId = admin.id
+    const teacher = await registerAndLogin(app, 'teacher@test.com', 'teacher', 'Teacher')
+    teacherToken = teacher.token
+    teacherId = teacher.id
+  })
+
+  afterEach(async () => {
+    if (app) {
+      await app.close()
+    }
+    await clearAllTables(db)
+  })
+
+  it('should record admin user actions with actor and snapshots', async () => {
+    await app.inject({
+      method: 'PUT',
+      url: `/api/v0/admin/users/${teacherId}`,
+      cookies: { access_token: adminToken },
+      payload: { name: 'Renamed Teacher' },
+    })
+    await app.inject({
+      method: 'POST',
+      url: `/api/v0/admin/users/${teacherId}/suspend`,
+      cookies: { access_token: adminToken },
+    })
+
+    const response = await listEvents()
+
+    expect(response.statusCode).toBe(200)
+    const body = JSON.parse(response.body)
+    expect(body.total).toBe(2)
+    expect(body.events.map((e: { action: string }) => e.action)).toEqual([
+      'user_suspended',
+      'user_updated',
+    ])
+    expect(body.events[1]).toMatchObject({
+      actor: { id: adminId, email: 'admin@test.com' },
+      target_type: 'user',
+      target_id: teacherId,
+      before: { name: 'Teacher', suspended: false },
+      after: { name: 'Renamed Teacher', suspended: false },
+    })
+  })
+
+  it('should filter by action and target', async () => {
+    const classResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/classes',
+      cookies: { access_token: teacherToken },
+      payload: { name: 'Math 101' },
+    })
+    const classId = JSON.parse(classResponse.body).class.id
+    await app.inject({
+      method: 'DELETE',
+      url: `/api/v0/teacher/classes/${classId}`,
+      cookies: { access_token: teacherToken },
+    })
+    await app.inject({
+      method: 'POST',
+      url: `/api/v0/admin/users/${teacherId}/suspend`,
+      cookies: { access_token: adminToken },
+    })
+
+    const byAction = JSON.parse((await listEvents('?action=class_deleted')).body)
+    expect(byAction.total).toBe(1)
+    expect(byAction.events[0]).toMatchObject({
+      actor: { id: teacherId },
+      target_type: 'class',
+      target_id: classId,
+      before: { name: 'Math 101', teacher_id: teacherId },
+      after: null,
+    })
+
+    const byTarget = JSON.parse(
+      (await listEvents(`?targetType=user&targetId=${teacherId}`)).body
+    )
+    expect(byTarget.events.map((e: { action: string }) => e.action)).toEqual(['user_suspended'])
+
+    const future = JSON.parse((await listEvents('?from=2999-01-01T00:00:00.000Z')).body)
+    expect(future).toEqual({ events: [], total: 0 })
+  })
+
+  it('should paginate events', async () => {
+    for (const path of ['suspend', 'unsuspend', 'suspend']) {
+      await app.inject({
+        method: 'POST',
+        url: `/api/v0/admin/users/${teacherId}/${path}`,
+        cookies: { access_token: adminToken },
+      })
+    }
+
+    const body = JSON.parse((await listEvents('?page=2&limit=2')).body)
+    expect(body.total).toBe(3)
+    expect(body.events).toHaveLength(1)
+    expect(body.events[0].action).toBe('user_suspended')
+  })
+
+  it('should require admin role', async () => {
+    const response = await listEvents('', teacherToken)
+
+    expect(response.statusCode).toBe(403)
+  })
+})
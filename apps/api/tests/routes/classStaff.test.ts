@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { buildApp } from '../../src/app.js'
+import { FastifyInstance } from 'fastify'
+import { db, clearAllTables } from '@concentrate/database'
+import { registerAndLogin } from '../helpers/auth.js'
+
+describe('Class Staff Routes', () => {
+  let app: FastifyInstance
+  let ownerToken: string
+  let ownerId: string
+  let coTeacherToken: string
+  let coTeacherId: string
+  let taToken: string
+  let taId: string
+  let studentToken: string
+  let studentId: string
+  let classId: string
+
+  async function addStaff(email: string, role: string, token = ownerToken) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/classes/${classId}/staff`,
+      cookies: { access_token: token },
+      payload: { email, role },
+    })
+  }
+
+  async function createAssignment(token: string) {
+    return app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/assignments',
+      cookies: { access_token: token },
+      payload: {
+        classId,
+        title: 'Staff Assignment',
+        description: 'Read chapter 2',
+        dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      },
+    })
+  }
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    app = await buildApp()
+
+    const owner = await registerAndLogin(app, 'owner@test.com', 'teacher')
+    const coTeacher = await registerAndLogin(app, 'co@test.com', 'teacher')
+    const ta = await registerAndLogin(app, 'ta@test.com', 'teacher')
+    const student = await registerAndLogin(app, 'student@test.com', 'student')
+    ownerToken = owner.token
+    ownerId = owner.id
+    coTeacherToken = coTeacher.token
+    coTeacherId = coTeacher.id
+    taToken = ta.token
+    taId = ta.id
+    studentToken = student.token
+    studentId = student.id
+
+    const classResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/classes',
+      cookies: { access_token: ownerToken },
+      payload: { name: 'Biology', description: 'Cells' },
+    })
+    classId = JSON.parse(classResponse.body).class.id
+
+    await addStaff('co@test.com', 'co_teacher')
+    await addStaff('ta@test.com', 'ta')
+  })
+
+  afterEach(async () => {
+    if (app) {
+      await app.close()
+    }
+    await clearAllTables(db)
+  })
+
+  it('should list the owner first, then the added staff', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/v0/teacher/classes/${classId}/staff`,
+      cookies: { access_token: taToken },
+    })
+
+    expect(response.statusCode).toBe(200)
+    const { staff } = JSON.parse(response.body)
+    expect(staff.map((m: { user_id: string; role: string }) => [m.user_id, m.role])).toEqual([
+      [ownerId, 'owner'],
+      [coTeacherId, 'co_teacher'],
+      [taId, 'ta'],
+    ])
+  })
+
+  it('should show the class to its staff', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/v0/teacher/classes',
+      cookies: { access_token: coTeacherToken },
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(JSON.parse(response.body).classes.map((c: { id: string }) => c.id)).toEqual([classId])
+  })
+
+  it('should let a co-teacher create assignments but not a TA', async () => {
+    expect((await createAssignment(coTeacherToken)).statusCode).toBe(201)
+    expect((await createAssignment(taToken)).statusCode).toBe(403)
+  })
+
+  it('should let a TA grade submissions', async () => {
+    await app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/classes/${classId}/students`,
+      cookies: { access_token: ownerToken },
+      payload: { studentId },
+    })
+    const assignment = JSON.parse((await createAssignment(ownerToken)).body).assignment
+    const submitResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/student/submissions',
+      cookies: { access_token: studentToken },
+      payload: { assignmentId: assignment.id, content: 'My answer' },
+    })
+    const submissionId = JSON.parse(submitResponse.body).submission.id
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/submissions/${submissionId}/grade`,
+      cookies: { access_token: taToken },
+      payload: { grade: 88 },
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(JSON.parse(response.body).grade.teacher_id).toBe(taId)
+  })
+
+  it('should only let the owner manage the staff', async () => {
+    const response = await addStaff('other@test.com', 'ta', coTeacherToken)
+    expect(response.statusCode).toBe(403)
+
+    const updateResponse = await app.inject({
+      method: 'PUT',
+      url: `/api/v0/teacher/classes/${classId}/staff/${taId}`,
+      cookies: { access_token: coTeacherToken },
+      payload: { role: 'co_teacher' },
+    })
+    expect(updateResponse.statusCode).toBe(403)
+  })
+
+  it('should let the owner promote a TA', async () => {
+    const response = await app.inject({
+      method: 'PUT',
+      url: `/api/v0/teacher/classes/${classId}/staff/${taId}`,
+      cookies: { access_token: ownerToken },
+      payload: { role: 'co_teacher' },
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(JSON.parse(response.body).member.role).toBe('co_teacher')
+    expect((await createAssignment(taToken)).statusCode).toBe(201)
+  })
+
+  it('should reject adding a student or an existing staff member', async () => {
+    expect((await addStaff('student@test.com', 'ta')).statusCode).toBe(400)
+    expect((await addStaff('ta@test.com', 'co_teacher')).statusCode).toBe(409)
+  })
+
+  it('should let a staff member leave and lose access', async () => {
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/v0/teacher/classes/${classId}/staff/${coTeacherId}`,
+      cookies: { access_token: coTeacherToken },
+    })
+
+    expect(response.statusCode).toBe(204)
+    expect((await createAssignment(coTeacherToken)).statusCode).toBe(403)
+  })
+
+  it('should not remove the class owner', async () => {
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/v0/teacher/classes/${classId}/staff/${ownerId}`,
+      cookies: { access_token: ownerToken },
+    })
+
+    expect(response.statusCode).toBe(400)
+  })
+})
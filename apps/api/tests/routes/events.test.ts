@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { buildApp } from '../../src/app.js'
+import { FastifyInstance } from 'fastify'
+import { db, clearAllTables } from '@concentrate/database'
+import { registerAndLogin } from '../helpers/auth.js'
+
+/**
+ * Open SSE stream read over a real connection (inject waits for the response to end)
+ */
+interface EventStream {
+  statusCode: number
+  headers: http.IncomingHttpHeaders
+  text: () => string
+  ended: () => boolean
+  close: () => void
+}
+
+describe('Event Routes', () => {
+  let app: FastifyInstance
+  let baseUrl: string
+  let teacherToken: string
+  let studentToken: string
+  let studentId: string
+  let classId: string
+  const streams: EventStream[] = []
+
+  function openStream(token: string): Promise<EventStream> {
+    return new Promise((resolve, reject) => {
+      const request = http.get(
+        `${baseUrl}/api/v0/events`,
+        { headers: { cookie: `access_token=${token}` } },
+        (response) => {
+          let body = ''
+          let ended = false
+          response.setEncoding('utf8')
+          response.on('data', (chunk: string) => {
+            body += chunk
+          })
+          response.on('end', () => {
+            ended = true
+          })
+          const stream: EventStream = {
+            statusCode: response.statusCode ?? 0,
+            headers: response.headers,
+            text: () => body,
+            ended: () => ended,
+            close: () => request.destroy(),
+          }
+          streams.push(stream)
+          resolve(stream)
+        }
+      )
+      request.on('error', reject)
+    })
+  }
+
+  async function waitForText(stream: EventStream, text: string) {
+    await vi.waitFor(() => expect(stream.text()).toContain(text), { timeout: 5000 })
+  }
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    app = await buildApp()
+    vi.spyOn(app.mailer, 'sendGradePosted').mockResolvedValue()
+    await app.listen({ port: 0, host: '127.0.0.1' })
+    baseUrl = `http://127.0.0.1:${(app.server.address() as AddressInfo).port}`
+
+    teacherToken = (await registerAndLogin(app, 'teacher@test.com', 'teacher', 'Teacher')).token
+    const student = await registerAndLogin(app, 'student@test.com', 'student', 'Student')
+    studentToken = student.token
+    studentId = student.id
+
+    const classResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/classes',
+      cookies: { access_token: teacherToken },
+      payload: { name: 'Biology', description: 'Cells' },
+    })
+    classId = JSON.parse(classResponse.body).class.id
+
+    await app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/classes/${classId}/students`,
+      cookies: { access_token: teacherToken },
+      payload: { studentId },
+    })
+  })
+
+  afterEach(async () => {
+    for (const stream of streams.splice(0)) {
+      stream.close()
+    }
+    if (app) {
+      await app.close()
+    }
+    await clearAllTables(db)
+  })
+
+  it('should require authentication', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/v0/events' })
+
+    expect(response.statusCode).toBe(401)
+  })
+
+  it('should open an event stream', async () => {
+    const stream = await openStream(studentToken)
+
+    expect(stream.statusCode).toBe(200)
+    expect(stream.headers['content-type']).toContain('text/event-stream')
+    await waitForText(stream, 'retry: 5000')
+  })
+
+  it('should unsubscribe when the client disconnects while subscribing', async () => {
+    const unsubscribe = vi.fn().mockResolvedValue(undefined)
+    let subscribing!: () => void
+    let finishSubscribe!: () => void
+    const started = new Promise<void>((resolve) => (subscribing = resolve))
+    const finished = new Promise<void>((resolve) => (finishSubscribe = resolve))
+    vi.spyOn(app.events, 'subscribe').mockImplementation(async () => {
+      subscribing()
+      await finished
+      return unsubscribe
+    })
+
+    const request = http.get(`${baseUrl}/api/v0/events`, {
+      headers: { cookie: `access_token=${studentToken}` },
+    })
+    request.on('error', () => {})
+    await started
+    request.destroy()
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    finishSubscribe()
+
+    await vi.waitFor(() => expect(unsubscribe).toHaveBeenCalledTimes(1), { timeout: 5000 })
+  })
+
+  it('should close the streams of a user whose sessions are revoked', async () => {
+    const admin = await registerAndLogin(app, 'admin@test.com', 'admin', 'Admin')
+    const teacherStream = await openStream(teacherToken)
+    const studentStream = await openStream(studentToken)
+    await waitForText(teacherStream, 'retry:')
+    await waitForText(studentStream, 'retry:')
+
+    await app.inject({
+      method: 'POST',
+      url: `/api/v0/admin/users/${studentId}/suspend`,
+      cookies: { access_token: admin.token },
+    })
+
+    await vi.waitFor(() => expect(studentStream.ended()).toBe(true), { timeout: 5000 })
+    expect(studentStream.text()).not.toContain('session_revoked')
+    expect(teacherStream.ended()).toBe(false)
+    expect((await openStream(studentToken)).statusCode).toBe(401)
+  })
+
+  it('should push new submissions to the teacher and new grades to the student', async () => {
+    const teacherStream = await openStream(teacherToken)
+    const studentStream = await openStream(studentToken)
+    await waitForText(teacherStream, 'retry:')
+    await waitForText(studentStream, 'retry:')
+
+    const assignmentResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/assignments',
+      cookies: { access_token: teacherToken },
+      payload: {
+        classId,
+        title: 'Lab Report',
+        description: 'Write it up',
+        dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      },
+    })
+    const assignmentId = JSON.parse(assignmentResponse.body).assignment.id
+
+    const submitResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/student/submissions',
+      cookies: { access_token: studentToken },
+      payload: { assignmentId, content: 'My report' },
+    })
+    const submissionId = JSON.parse(submitResponse.body).submission.id
+
+    await waitForText(teacherStream, 'event: submission_created')
+    expect(teacherStream.text()).toContain(
+      `data: ${JSON.stringify({
+        type: 'submission_created',
+        assignmentId,
+        submissionId,
+        studentId,
+      })}`
+    )
+
+    await app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/submissions/${submissionId}/grade`,
+      cookies: { access_token: teacherToken },
+      payload: { grade: 90 },
+    })
+    await app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/assignments/${assignmentId}/release-grades`,
+      cookies: { access_token: teacherToken },
+    })
+
+    await waitForText(studentStream, 'event: grade_posted')
+    expect(studentStream.text()).toContain('event: notification_created')
+    expect(teacherStream.text()).not.toContain('grade_posted')
+  })
+})
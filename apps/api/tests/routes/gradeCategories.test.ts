@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { buildApp } from '../../src/app.js'
+import { FastifyInstance } from 'fastify'
+import { db, clearAllTables } from '@concentrate/database'
+import { registerAndLogin } from '../helpers/auth.js'
+
+describe('Grade Category Routes', () => {
+  let app: FastifyInstance
+  let teacherToken: string
+  let studentToken: string
+  let otherTeacherToken: string
+  let classId: string
+
+  async function createCategory(name: string, weight: number, token = teacherToken) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/classes/${classId}/categories`,
+      cookies: { access_token: token },
+      payload: { name, weight },
+    })
+  }
+
+  async function createGradedAssignment(
+    title: string,
+    grade: number,
+    extra: { maxPoints?: number; categoryId?: string } = {}
+  ) {
+    const assignmentResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/assignments',
+      cookies: { access_token: teacherToken },
+      payload: {
+        classId,
+        title,
+        description: 'Graded work',
+        dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+        ...extra,
+      },
+    })
+    const assignmentId = JSON.parse(assignmentResponse.body).assignment.id
+
+    const submissionResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/student/submissions',
+      cookies: { access_token: studentToken },
+      payload: { assignmentId, content: 'My work' },
+    })
+    const submissionId = JSON.parse(submissionResponse.body).submission.id
+
+    // Released up front so students see the grade as soon as it is posted
+    await app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/assignments/${assignmentId}/release-grades`,
+      cookies: { access_token: teacherToken },
+    })
+
+    return app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/submissions/${submissionId}/grade`,
+      cookies: { access_token: teacherToken },
+      payload: { grade },
+    })
+  }
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    app = await buildApp()
+
+    const teacher = await registerAndLogin(app, 'teacher@test.com', 'teacher')
+    const student = await registerAndLogin(app, 'student@test.com', 'student')
+    const otherTeacher = await registerAndLogin(app, 'other@test.com', 'teacher')
+    teacherToken = teacher.token
+    studentToken = student.token
+    otherTeacherToken = otherTeacher.token
+
+    const classResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/classes',
+      cookies: { access_token: teacherToken },
+      payload: { name: 'Biology', description: 'Cells' },
+    })
+    classId = JSON.parse(classResponse.body).class.id
+
+    await app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/classes/${classId}/students`,
+      cookies: { access_token: teacherToken },
+      payload: { studentId: student.id },
+    })
+  })
+
+  afterEach(async () => {
+    if (app) {
+      await app.close()
+    }
+    await clearAllTables(db)
+  })
+
+  describe('/api/v0/teacher/classes/:id/categories', () => {
+    it('should create and list categories', async () => {
+      const response = await createCategory('Homework', 30)
+      await createCategory('Exams', 70)
+
+      expect(response.statusCode).toBe(201)
+      expect(JSON.parse(response.body).category.weight).toBe(30)
+
+      const listResponse = await app.inject({
+        method: 'GET',
+        url: `/api/v0/teacher/classes/${classId}/categories`,
+        cookies: { access_token: teacherToken },
+      })
+      const { categories } = JSON.parse(listResponse.body)
+      expect(categories.map((c: { name: string }) => c.name)).toEqual(['Exams', 'Homework'])
+    })
+
+    it('should reject weights above 100 in total', async () => {
+      await createCategory('Exams', 70)
+
+      const response = await createCategory('Homework', 40)
+
+      expect(response.statusCode).toBe(400)
+    })
+
+    it('should forbid other teachers', async () => {
+      const response = await createCategory('Homework', 30, otherTeacherToken)
+
+      expect(response.statusCode).toBe(403)
+    })
+  })
+
+  describe('/api/v0/teacher/categories/:id', () => {
+    it('should update and delete a category', async () => {
+      const categoryId = JSON.parse((await createCategory('Homework', 30)).body).category.id
+
+      const updateResponse = await app.inject({
+        method: 'PUT',
+        url: `/api/v0/teacher/categories/${categoryId}`,
+        cookies: { access_token: teacherToken },
+        payload: { weight: 40 },
+      })
+      expect(updateResponse.statusCode).toBe(200)
+      expect(JSON.parse(updateResponse.body).category.weight).toBe(40)
+
+      const deleteResponse = await app.inject({
+        method: 'DELETE',
+        url: `/api/v0/teacher/categories/${categoryId}`,
+        cookies: { access_token: teacherToken },
+      })
+      expect(deleteResponse.statusCode).toBe(204)
+    })
+
+    it('should return 404 for unknown category', async () => {
+      const response = await app.inject({
+        method: 'DELETE',
+        url: '/api/v0/teacher/categories/123e4567-e89b-12d3-a456-426614174000',
+        cookies: { access_token: teacherToken },
+      })
+
+      expect(response.statusCode).toBe(404)
+    })
+  })
+
+  describe('max points', () => {
+    it('should reject grades above the assignment max points', async () => {
+      const response = await createGradedAssignment('Quiz', 25, { maxPoints: 20 })
+
+      expect(response.statusCode).toBe(400)
+    })
+  })
+
+  describe('weighted course grades', () => {
+    beforeEach(async () => {
+      const homework = JSON.parse((await createCategory('Homework', 30)).body).category.id
+      const exams = JSON.parse((await createCategory('Exams', 70)).body).category.id
+
+      // Homework 15/20 = 75%, Exams 60/100 = 60%
+      await createGradedAssignment('Worksheet', 15, { maxPoints: 20, categoryId: homework })
+      await createGradedAssignment('Midterm', 60, { categoryId: exams })
+    })
+
+    it('should return the weighted course grade to the student', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v0/student/course-grades',
+        cookies: { access_token: studentToken },
+      })
+
+      expect(response.statusCode).toBe(200)
+      const { courseGrades } = JSON.parse(response.body)
+      expect(courseGrades).toHaveLength(1)
+      expect(courseGrades[0].classId).toBe(classId)
+      expect(courseGrades[0].courseGrade).toBe(64.5)
+    })
+
+    it('should use course grades for class statistics', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/stats/average-grades/${classId}`,
+      })
+
+      const body = JSON.parse(response.body)
+      expect(body.count).toBe(1)
+      expect(body.average).toBe(64.5)
+    })
+
+    it('should include max points in student grades', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v0/student/grades',
+        cookies: { access_token: studentToken },
+      })
+
+      const { grades } = JSON.parse(response.body)
+      const worksheet = grades.find(
+        (g: { assignment: { title: string } }) => g.assignment.title === 'Worksheet'
+      )
+      expect(worksheet.assignment.maxPoints).toBe(20)
+    })
+  })
+})
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { buildApp } from '../../src/app.js'
+import { FastifyInstance } from 'fastify'
+import { db, clearAllTables } from '@concentrate/database'
+import { registerAndLogin } from '../helpers/auth.js'
+
+describe('Grade Release Routes', () => {
+  let app: FastifyInstance
+  let teacherToken: string
+  let studentToken: string
+  let otherTeacherToken: string
+  let assignmentId: string
+  let submissionId: string
+
+  async function grade(payload: Record<string, unknown>) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/submissions/${submissionId}/grade`,
+      cookies: { access_token: teacherToken },
+      payload,
+    })
+  }
+
+  async function releaseGrades(token = teacherToken) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/assignments/${assignmentId}/release-grades`,
+      cookies: { access_token: token },
+    })
+  }
+
+  async function getStudentGrades() {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/v0/student/grades',
+      cookies: { access_token: studentToken },
+    })
+    return JSON.parse(response.body).grades
+  }
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    app = await buildApp()
+
+    const teacher = await registerAndLogin(app, 'teacher@test.com', 'teacher')
+    const student = await registerAndLogin(app, 'student@test.com', 'student')
+    const otherTeacher = await registerAndLogin(app, 'other@test.com', 'teacher')
+    teacherToken = teacher.token
+    studentToken = student.token
+    otherTeacherToken = otherTeacher.token
+
+    const classResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/classes',
+      cookies: { access_token: teacherToken },
+      payload: { name: 'English', description: 'Essays' },
+    })
+    const classId = JSON.parse(classResponse.body).class.id
+
+    await app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/classes/${classId}/students`,
+      cookies: { access_token: teacherToken },
+      payload: { studentId: student.id },
+    })
+
+    const assignmentResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/assignments',
+      cookies: { access_token: teacherToken },
+      payload: {
+        classId,
+        title: 'Essay',
+        description: 'Write an essay',
+        dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      },
+    })
+    assignmentId = JSON.parse(assignmentResponse.body).assignment.id
+
+    const submissionResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/student/submissions',
+      cookies: { access_token: studentToken },
+      payload: { assignmentId, content: 'Intro\nFirst draft' },
+    })
+    submissionId = JSON.parse(submissionResponse.body).submission.id
+  })
+
+  afterEach(async () => {
+    if (app) {
+      await app.close()
+    }
+    await clearAllTables(db)
+  })
+
+  it('should show the grade as pending until it is released', async () => {
+    await grade({ grade: 70, feedback: 'Needs a conclusion' })
+
+    const [pending] = await getStudentGrades()
+    expect(pending.pendingRelease).toBe(true)
+    expect(pending.grade).toBeNull()
+
+    const response = await releaseGrades()
+
+    expect(response.statusCode).toBe(200)
+    expect(JSON.parse(response.body).assignment.grades_released_at).not.toBeNull()
+    const [released] = await getStudentGrades()
+    expect(released.pendingRelease).toBe(false)
+    expect(Number(released.grade.grade)).toBe(70)
+    expect(released.grade.feedback).toBe('Needs a conclusion')
+  })
+
+  it('should notify graded students on release', async () => {
+    await grade({ grade: 70 })
+
+    const listNotifications = async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v0/notifications',
+        cookies: { access_token: studentToken },
+      })
+      return JSON.parse(response.body).notifications as Array<{ type: string }>
+    }
+
+    expect((await listNotifications()).map((n) => n.type)).not.toContain('grade_posted')
+    await releaseGrades()
+    expect((await listNotifications()).map((n) => n.type)).toContain('grade_posted')
+  })
+
+  it('should reject releasing twice', async () => {
+    await releaseGrades()
+
+    const response = await releaseGrades()
+
+    expect(response.statusCode).toBe(400)
+    expect(JSON.parse(response.body).message).toBe('Grades are already released')
+  })
+
+  it('should only let the class teacher release grades', async () => {
+    expect((await releaseGrades(otherTeacherToken)).statusCode).toBe(403)
+    expect((await releaseGrades(studentToken)).statusCode).toBe(403)
+  })
+})
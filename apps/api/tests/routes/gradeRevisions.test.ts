@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { buildApp } from '../../src/app.js'
+import { FastifyInstance } from 'fastify'
+import { db, clearAllTables } from '@concentrate/database'
+import { registerAndLogin } from '../helpers/auth.js'
+
+describe('Grade Revision Routes', () => {
+  let app: FastifyInstance
+  let teacherToken: string
+  let studentToken: string
+  let otherTeacherToken: string
+  let assignmentId: string
+  let submissionId: string
+
+  async function grade(payload: Record<string, unknown>) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/submissions/${submissionId}/grade`,
+      cookies: { access_token: teacherToken },
+      payload,
+    })
+  }
+
+  async function releaseGrades() {
+    return app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/assignments/${assignmentId}/release-grades`,
+      cookies: { access_token: teacherToken },
+    })
+  }
+
+  async function getRevisions(token = teacherToken) {
+    return app.inject({
+      method: 'GET',
+      url: `/api/v0/teacher/submissions/${submissionId}/grade/revisions`,
+      cookies: { access_token: token },
+    })
+  }
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    app = await buildApp()
+
+    const teacher = await registerAndLogin(app, 'teacher@test.com', 'teacher')
+    const student = await registerAndLogin(app, 'student@test.com', 'student')
+    const otherTeacher = await registerAndLogin(app, 'other@test.com', 'teacher')
+    teacherToken = teacher.token
+    studentToken = student.token
+    otherTeacherToken = otherTeacher.token
+
+    const classResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/classes',
+      cookies: { access_token: teacherToken },
+      payload: { name: 'English', description: 'Essays' },
+    })
+    const classId = JSON.parse(classResponse.body).class.id
+
+    await app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/classes/${classId}/students`,
+      cookies: { access_token: teacherToken },
+      payload: { studentId: student.id },
+    })
+
+    const assignmentResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/assignments',
+      cookies: { access_token: teacherToken },
+      payload: {
+        classId,
+        title: 'Essay',
+        description: 'Write an essay',
+        dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      },
+    })
+    assignmentId = JSON.parse(assignmentResponse.body).assignment.id
+
+    const submissionResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/student/submissions',
+      cookies: { access_token: studentToken },
+      payload: { assignmentId, content: 'Intro\nFirst draft' },
+    })
+    submissionId = JSON.parse(submissionResponse.body).submission.id
+  })
+
+  afterEach(async () => {
+    if (app) {
+      await app.close()
+    }
+    await clearAllTables(db)
+  })
+
+  it('should keep every change to a grade with its reason', async () => {
+    await grade({ grade: 70, feedback: 'Missing conclusion' })
+
+    const first = await grade({ grade: 80, reason: 'Conclusion was on page 2' })
+    expect(first.statusCode).toBe(200)
+    expect(Number(JSON.parse(first.body).grade.grade)).toBe(80)
+
+    await grade({ grade: 80, feedback: 'Solid essay', reason: 'Updated feedback' })
+
+    const response = await getRevisions()
+
+    expect(response.statusCode).toBe(200)
+    const { revisions } = JSON.parse(response.body)
+    expect(revisions).toHaveLength(2)
+    expect(revisions[0]).toMatchObject({
+      previous_grade: '80.00',
+      previous_feedback: 'Missing conclusion',
+      grade: '80.00',
+      feedback: 'Solid essay',
+      reason: 'Updated feedback',
+      teacher_name: 'teacher user',
+    })
+    expect(revisions[1]).toMatchObject({
+      previous_grade: '70.00',
+      grade: '80.00',
+      reason: 'Conclusion was on page 2',
+    })
+  })
+
+  it('should require a reason to change a released grade', async () => {
+    await grade({ grade: 70 })
+    await releaseGrades()
+
+    const response = await grade({ grade: 75 })
+
+    expect(response.statusCode).toBe(400)
+    expect(JSON.parse(response.body).message).toBe(
+      'A reason is required to change a released grade'
+    )
+    expect(JSON.parse((await getRevisions()).body).revisions).toEqual([])
+  })
+
+  it('should let unreleased grades change without a reason', async () => {
+    await grade({ grade: 70 })
+
+    const response = await grade({ grade: 75 })
+
+    expect(response.statusCode).toBe(200)
+    const { revisions } = JSON.parse((await getRevisions()).body)
+    expect(revisions).toHaveLength(1)
+    expect(revisions[0]).toMatchObject({ previous_grade: '70.00', grade: '75.00', reason: null })
+  })
+
+  it('should require a reason to change released grades in bulk', async () => {
+    await grade({ grade: 70 })
+    await releaseGrades()
+
+    const withoutReason = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/grades/bulk',
+      cookies: { access_token: teacherToken },
+      payload: { grades: [{ submissionId, grade: 90 }] },
+    })
+    expect(withoutReason.statusCode).toBe(400)
+
+    const withReason = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/grades/bulk',
+      cookies: { access_token: teacherToken },
+      payload: { grades: [{ submissionId, grade: 90 }], reason: 'Curve applied' },
+    })
+    expect(withReason.statusCode).toBe(200)
+
+    const { revisions } = JSON.parse((await getRevisions()).body)
+    expect(revisions).toHaveLength(1)
+    expect(revisions[0]).toMatchObject({ previous_grade: '70.00', grade: '90.00', reason: 'Curve applied' })
+  })
+
+  it('should only show the history to the class teacher', async () => {
+    await grade({ grade: 70 })
+
+    const otherTeacher = await getRevisions(otherTeacherToken)
+    expect(otherTeacher.statusCode).toBe(403)
+
+    const student = await getRevisions(studentToken)
+    expect(student.statusCode).toBe(403)
+  })
+})
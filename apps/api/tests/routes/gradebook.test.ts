@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { buildApp } from '../../src/app.js'
+import { FastifyInstance } from 'fastify'
+import { db, clearAllTables } from '@concentrate/database'
+import { registerAndLogin } from '../helpers/auth.js'
+
+describe('Gradebook Routes', () => {
+  let app: FastifyInstance
+  let teacherToken: string
+  let otherTeacherToken: string
+  let aliceToken: string
+  let classId: string
+  let essayId: string
+  let quizId: string
+  let submissionId: string
+
+  async function createAssignment(title: string, dueDate: Date) {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/assignments',
+      cookies: { access_token: teacherToken },
+      payload: {
+        classId,
+        title,
+        description: 'Graded work',
+        dueDate: dueDate.toISOString(),
+        latePolicy: 'allow',
+      },
+    })
+    return JSON.parse(response.body).assignment.id as string
+  }
+
+  async function getGradebook(token = teacherToken) {
+    return app.inject({
+      method: 'GET',
+      url: `/api/v0/teacher/classes/${classId}/gradebook`,
+      cookies: { access_token: token },
+    })
+  }
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    app = await buildApp()
+
+    const teacher = await registerAndLogin(app, 'teacher@test.com', 'teacher', 'Teacher')
+    const otherTeacher = await registerAndLogin(app, 'other@test.com', 'teacher', 'Other')
+    const alice = await registerAndLogin(app, 'alice@test.com', 'student', 'Alice')
+    const bob = await registerAndLogin(app, 'bob@test.com', 'student', 'Bob')
+    teacherToken = teacher.token
+    otherTeacherToken = otherTeacher.token
+    aliceToken = alice.token
+
+    const classResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/classes',
+      cookies: { access_token: teacherToken },
+      payload: { name: 'History', description: 'Rome' },
+    })
+    classId = JSON.parse(classResponse.body).class.id
+
+    for (const studentId of [bob.id, alice.id]) {
+      await app.inject({
+        method: 'POST',
+        url: `/api/v0/teacher/classes/${classId}/students`,
+        cookies: { access_token: teacherToken },
+        payload: { studentId },
+      })
+    }
+
+    essayId = await createAssignment('Essay', new Date(Date.now() - 24 * 60 * 60 * 1000))
+    quizId = await createAssignment('Quiz', new Date(Date.now() + 7 * 24 * 60 * 60 * 1000))
+
+    const submissionResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/student/submissions',
+      cookies: { access_token: aliceToken },
+      payload: { assignmentId: essayId, content: 'Late essay' },
+    })
+    submissionId = JSON.parse(submissionResponse.body).submission.id
+  })
+
+  afterEach(async () => {
+    if (app) {
+      await app.close()
+    }
+    await clearAllTables(db)
+  })
+
+  describe('GET /api/v0/teacher/classes/:id/gradebook', () => {
+    it('should return the students x assignments matrix', async () => {
+      const response = await getGradebook()
+
+      expect(response.statusCode).toBe(200)
+      const { gradebook } = JSON.parse(response.body)
+      expect(gradebook.assignments.map((a: { id: string }) => a.id)).toEqual([essayId, quizId])
+      expect(gradebook.rows.map((r: { student: { name: string } }) => r.student.name)).toEqual([
+        'Alice',
+        'Bob',
+      ])
+      expect(gradebook.rows[0].cells[0]).toMatchObject({
+        submissionId,
+        status: 'late',
+        grade: null,
+      })
+      expect(gradebook.rows[0].cells[1].status).toBe('pending')
+      expect(gradebook.rows[1].cells[0].status).toBe('missing')
+    })
+
+    it('should forbid other teachers', async () => {
+      const response = await getGradebook(otherTeacherToken)
+
+      expect(response.statusCode).toBe(403)
+    })
+
+    it('should forbid students', async () => {
+      const response = await getGradebook(aliceToken)
+
+      expect(response.statusCode).toBe(403)
+    })
+  })
+
+  describe('POST /api/v0/teacher/grades/bulk', () => {
+    it('should grade and regrade submissions from the gradebook', async () => {
+      const first = await app.inject({
+        method: 'POST',
+        url: '/api/v0/teacher/grades/bulk',
+        cookies: { access_token: teacherToken },
+        payload: { grades: [{ submissionId, grade: 70 }] },
+      })
+      const second = await app.inject({
+        method: 'POST',
+        url: '/api/v0/teacher/grades/bulk',
+        cookies: { access_token: teacherToken },
+        payload: { grades: [{ submissionId, grade: 85 }], reason: 'Recounted' },
+      })
+
+      expect(first.statusCode).toBe(200)
+      expect(JSON.parse(second.body).count).toBe(1)
+
+      const { gradebook } = JSON.parse((await getGradebook()).body)
+      expect(gradebook.rows[0].cells[0].grade).toBe(85)
+      expect(gradebook.rows[0].courseGrade).toBe(85)
+    })
+
+    it('should return 404 for unknown submissions', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v0/teacher/grades/bulk',
+        cookies: { access_token: teacherToken },
+        payload: { grades: [{ submissionId: '123e4567-e89b-12d3-a456-426614174000', grade: 70 }] },
+      })
+
+      expect(response.statusCode).toBe(404)
+    })
+
+    it('should forbid other teachers', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v0/teacher/grades/bulk',
+        cookies: { access_token: otherTeacherToken },
+        payload: { grades: [{ submissionId, grade: 70 }] },
+      })
+
+      expect(response.statusCode).toBe(403)
+    })
+  })
+})
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { buildApp } from '../../src/app.js'
+import { FastifyInstance } from 'fastify'
+import { db, clearAllTables } from '@concentrate/database'
+import { parseCsv } from '@concentrate/shared'
+import { registerAndLogin } from '../helpers/auth.js'
+
+describe('Grade CSV Routes', () => {
+  let app: FastifyInstance
+  let teacherToken: string
+  let otherTeacherToken: string
+  let aliceToken: string
+  let classId: string
+  let assignmentId: string
+
+  async function importCsv(csv: string, dryRun: boolean, token = teacherToken) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/assignments/${assignmentId}/grades/import`,
+      cookies: { access_token: token },
+      payload: { csv, dryRun },
+    })
+  }
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    app = await buildApp()
+
+    const teacher = await registerAndLogin(app, 'teacher@test.com', 'teacher', 'Teacher')
+    const otherTeacher = await registerAndLogin(app, 'other@test.com', 'teacher', 'Other')
+    const alice = await registerAndLogin(app, 'alice@test.com', 'student', 'Alice')
+    const bob = await registerAndLogin(app, 'bob@test.com', 'student', 'Bob')
+    teacherToken = teacher.token
+    otherTeacherToken = otherTeacher.token
+    aliceToken = alice.token
+
+    const classResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/classes',
+      cookies: { access_token: teacherToken },
+      payload: { name: 'History', description: 'Rome' },
+    })
+    classId = JSON.parse(classResponse.body).class.id
+
+    for (const studentId of [alice.id, bob.id]) {
+      await app.inject({
+        method: 'POST',
+        url: `/api/v0/teacher/classes/${classId}/students`,
+        cookies: { access_token: teacherToken },
+        payload: { studentId },
+      })
+    }
+
+    const assignmentResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/assignments',
+      cookies: { access_token: teacherToken },
+      payload: {
+        classId,
+        title: 'Essay, Part 1',
+        description: 'Graded work',
+        dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+        maxPoints: 50,
+      },
+    })
+    assignmentId = JSON.parse(assignmentResponse.body).assignment.id
+
+    await app.inject({
+      method: 'POST',
+      url: '/api/v0/student/submissions',
+      cookies: { access_token: aliceToken },
+      payload: { assignmentId, content: 'My essay' },
+    })
+  })
+
+  afterEach(async () => {
+    if (app) {
+      await app.close()
+    }
+    await clearAllTables(db)
+  })
+
+  describe('POST /api/v0/teacher/assignments/:id/grades/import', () => {
+    it('should preview problems on a dry run without saving', async () => {
+      const response = await importCsv(
+        'Email,Grade\nalice@test.com,60\nbob@test.com,40\nzed@test.com,30\n',
+        true
+      )
+
+      expect(response.statusCode).toBe(200)
+      const { result } = JSON.parse(response.body)
+      expect(result.rows.map((r: { status: string }) => r.status)).toEqual([
+        'out_of_range',
+        'missing_submission',
+        'unknown_student',
+      ])
+      expect(result.errorCount).toBe(3)
+
+      const grades = await db.selectFrom('grades').selectAll().execute()
+      expect(grades).toHaveLength(0)
+    })
+
+    it('should import grades and feedback', async () => {
+      const response = await importCsv('Email,Grade,Feedback\nalice@test.com,42.5,Well argued\n', false)
+
+      expect(response.statusCode).toBe(200)
+      expect(JSON.parse(response.body).result.imported).toBe(1)
+
+      const grade = await db.selectFrom('grades').selectAll().executeTakeFirstOrThrow()
+      expect(Number(grade.grade)).toBe(42.5)
+      expect(grade.feedback).toBe('Well argued')
+    })
+
+    it('should return 400 and save nothing when rows have errors', async () => {
+      const response = await importCsv('Email,Grade\nalice@test.com,40\nbob@test.com,40\n', false)
+
+      expect(response.statusCode).toBe(400)
+
+      const grades = await db.selectFrom('grades').selectAll().execute()
+      expect(grades).toHaveLength(0)
+    })
+
+    it('should forbid other teachers', async () => {
+      const response = await importCsv('Email,Grade\nalice@test.com,40\n', true, otherTeacherToken)
+
+      expect(response.statusCode).toBe(403)
+    })
+  })
+
+  describe('CSV exports', () => {
+    it('should export assignment grades for re-import', async () => {
+      await importCsv('Email,Grade\nalice@test.com,45\n', false)
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/teacher/assignments/${assignmentId}/grades.csv`,
+        cookies: { access_token: teacherToken },
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.headers['content-type']).toContain('text/csv')
+      expect(response.headers['content-disposition']).toBe(
+        `attachment; filename="grades-${assignmentId}.csv"`
+      )
+      const [header, alice, bob] = parseCsv(response.body)
+      expect(header).toEqual([
+        'Student Name',
+        'Email',
+        'Submitted At',
+        'Late',
+        'Late Penalty (%)',
+        'Grade',
+        'Feedback',
+      ])
+      expect(alice).toEqual(['Alice', 'alice@test.com', expect.any(String), 'No', '0', '45', ''])
+      expect(bob).toEqual(['Bob', 'bob@test.com', '', '', '', '', ''])
+    })
+
+    it('should export the class gradebook', async () => {
+      await importCsv('Email,Grade\nalice@test.com,45\n', false)
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/teacher/classes/${classId}/gradebook.csv`,
+        cookies: { access_token: teacherToken },
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(parseCsv(response.body)).toEqual([
+        ['Student Name', 'Email', 'Essay, Part 1 (/50)', 'Course Grade (%)'],
+        ['Alice', 'alice@test.com', '45', '90'],
+        ['Bob', 'bob@test.com', '', ''],
+      ])
+    })
+
+    it('should forbid students', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/teacher/classes/${classId}/gradebook.csv`,
+        cookies: { access_token: aliceToken },
+      })
+
+      expect(response.statusCode).toBe(403)
+    })
+  })
+})
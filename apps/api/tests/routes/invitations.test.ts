@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { buildApp } from '../../src/app.js'
+import { FastifyInstance } from 'fastify'
+import { db, clearAllTables } from '@concentrate/database'
+import { registerAndLogin } from '../helpers/auth.js'
+
+describe('Invitation Routes', () => {
+  let app: FastifyInstance
+  let adminToken: string
+  let teacherToken: string
+
+  async function invite(payload: Record<string, unknown>, token = adminToken) {
+    return app.inject({
+      method: 'POST',
+      url: '/api/v0/admin/invitations',
+      cookies: { access_token: token },
+      payload,
+    })
+  }
+
+  async function inviteTeacher(email: string) {
+    const response = await invite({ email, role: 'teacher' })
+    return JSON.parse(response.body).invitation as { token: string }
+  }
+
+  async function accept(token: string, password = 'Welcome123!') {
+    return app.inject({
+      method: 'POST',
+      url: `/api/v0/auth/invitations/${token}/accept`,
+      payload: { name: 'New Teacher', password },
+    })
+  }
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    app = await buildApp()
+
+    adminToken = (await registerAndLogin(app, 'admin@test.com', 'admin', 'Admin')).token
+    teacherToken = (await registerAndLogin(app, 'teacher@test.com', 'teacher', 'Teacher')).token
+  })
+
+  afterEach(async () => {
+    delete process.env['OPEN_STAFF_REGISTRATION']
+    if (app) {
+      await app.close()
+    }
+    await clearAllTables(db)
+  })
+
+  describe('admin invitation management', () => {
+    it('should create, list and revoke invitations', async () => {
+      const response = await invite({ email: 'New@Test.com', role: 'teacher' })
+
+      expect(response.statusCode).toBe(201)
+      const { invitation } = JSON.parse(response.body)
+      expect(invitation).toMatchObject({ email: 'new@test.com', role: 'teacher' })
+      expect(invitation.token).toMatch(/^[0-9a-f]{64}$/)
+
+      const listResponse = await app.inject({
+        method: 'GET',
+        url: '/api/v0/admin/invitations',
+        cookies: { access_token: adminToken },
+      })
+      expect(
+        JSON.parse(listResponse.body).invitations.map((i: { token: string }) => i.token)
+      ).toContain(invitation.token)
+
+      const revokeResponse = await app.inject({
+        method: 'DELETE',
+        url: `/api/v0/admin/invitations/${invitation.token}`,
+        cookies: { access_token: adminToken },
+      })
+      expect(revokeResponse.statusCode).toBe(204)
+      expect((await accept(invitation.token)).statusCode).toBe(404)
+    })
+
+    it('should email the invitation link to the invitee', async () => {
+      const sendInvitation = vi.spyOn(app.mailer, 'sendInvitation').mockResolvedValue()
+
+      const invitation = await inviteTeacher('new@test.com')
+
+      expect(sendInvitation).toHaveBeenCalledWith(
+        expect.objectContaining({ token: invitation.token, email: 'new@test.com' }),
+        'Admin'
+      )
+    })
+
+    it('should reject inviting an existing account', async () => {
+      const response = await invite({ email: 'teacher@test.com', role: 'teacher' })
+
+      expect(response.statusCode).toBe(409)
+    })
+
+    it('should forbid teachers', async () => {
+      const response = await invite({ email: 'new@test.com', role: 'admin' }, teacherToken)
+
+      expect(response.statusCode).toBe(403)
+    })
+  })
+
+  describe('accepting an invitation', () => {
+    it('should show the invitation and create the account with the invited role', async () => {
+      const invitation = await inviteTeacher('new@test.com')
+
+      const getResponse = await app.inject({
+        method: 'GET',
+        url: `/api/v0/auth/invitations/${invitation.token}`,
+      })
+      expect(getResponse.statusCode).toBe(200)
+      expect(JSON.parse(getResponse.body).invitation).toMatchObject({
+        email: 'new@test.com',
+        role: 'teacher',
+      })
+
+      const response = await accept(invitation.token)
+      expect(response.statusCode).toBe(201)
+      expect(JSON.parse(response.body).user).toMatchObject({
+        email: 'new@test.com',
+        name: 'New Teacher',
+        role: 'teacher',
+      })
+
+      const loginResponse = await app.inject({
+        method: 'POST',
+        url: '/api/v0/auth/login',
+        payload: { email: 'new@test.com', password: 'Welcome123!' },
+      })
+      expect(loginResponse.statusCode).toBe(200)
+    })
+
+    it('should only accept an invitation once', async () => {
+      const invitation = await inviteTeacher('new@test.com')
+
+      await accept(invitation.token)
+
+      expect((await accept(invitation.token)).statusCode).toBe(404)
+    })
+
+    it('should return 404 for an unknown invitation', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/auth/invitations/${'0'.repeat(64)}`,
+      })
+
+      expect(response.statusCode).toBe(404)
+    })
+  })
+
+  describe('open registration setting', () => {
+    it('should list every role as open by default', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/v0/auth/registration' })
+
+      expect(JSON.parse(response.body).openRoles).toEqual(['admin', 'teacher', 'student'])
+    })
+
+    it('should require an invitation for staff when disabled', async () => {
+      process.env['OPEN_STAFF_REGISTRATION'] = 'false'
+
+      const teacherResponse = await app.inject({
+        method: 'POST',
+        url: '/api/v0/auth/register',
+        payload: {
+          email: 'self@test.com',
+          password: 'Password123!',
+          name: 'Self',
+          role: 'teacher',
+        },
+      })
+      expect(teacherResponse.statusCode).toBe(403)
+
+      const studentResponse = await app.inject({
+        method: 'POST',
+        url: '/api/v0/auth/register',
+        payload: {
+          email: 'pupil@test.com',
+          password: 'Password123!',
+          name: 'Pupil',
+          role: 'student',
+        },
+      })
+      expect(studentResponse.statusCode).toBe(201)
+
+      const invitation = await inviteTeacher('self@test.com')
+      expect((await accept(invitation.token)).statusCode).toBe(201)
+    })
+  })
+})
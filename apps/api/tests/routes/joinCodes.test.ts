@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { buildApp } from '../../src/app.js'
+import { FastifyInstance } from 'fastify'
+import { db, clearAllTables } from '@concentrate/database'
+import { registerAndLogin } from '../helpers/auth.js'
+
+describe('Class Join Code Routes', () => {
+  let app: FastifyInstance
+  let teacherToken: string
+  let otherTeacherToken: string
+  let aliceToken: string
+  let bobToken: string
+  let classId: string
+
+  async function regenerate(payload: Record<string, unknown> = {}, token = teacherToken) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/classes/${classId}/join-code`,
+      cookies: { access_token: token },
+      payload,
+    })
+  }
+
+  async function join(code: string, token: string) {
+    return app.inject({
+      method: 'POST',
+      url: '/api/v0/student/classes/join',
+      cookies: { access_token: token },
+      payload: { code },
+    })
+  }
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    app = await buildApp()
+
+    teacherToken = (await registerAndLogin(app, 'teacher@test.com', 'teacher', 'Teacher')).token
+    otherTeacherToken = (await registerAndLogin(app, 'other@test.com', 'teacher', 'Other')).token
+    aliceToken = (await registerAndLogin(app, 'alice@test.com', 'student', 'Alice')).token
+    bobToken = (await registerAndLogin(app, 'bob@test.com', 'student', 'Bob')).token
+
+    const classResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/classes',
+      cookies: { access_token: teacherToken },
+      payload: { name: 'Biology', description: 'Cells' },
+    })
+    classId = JSON.parse(classResponse.body).class.id
+  })
+
+  afterEach(async () => {
+    if (app) {
+      await app.close()
+    }
+    await clearAllTables(db)
+  })
+
+  describe('teacher join code management', () => {
+    it('should have no code until one is generated', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/teacher/classes/${classId}/join-code`,
+        cookies: { access_token: teacherToken },
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(JSON.parse(response.body).joinCode).toBeNull()
+    })
+
+    it('should generate a code and replace it on regenerate', async () => {
+      const first = await regenerate({ maxUses: 30 })
+      expect(first.statusCode).toBe(201)
+      const firstCode = JSON.parse(first.body).joinCode
+      expect(firstCode).toMatchObject({ class_id: classId, max_uses: 30, use_count: 0 })
+
+      const second = await regenerate()
+      const secondCode = JSON.parse(second.body).joinCode
+      expect(secondCode.code).not.toBe(firstCode.code)
+      expect(secondCode.max_uses).toBeNull()
+
+      expect((await join(firstCode.code, aliceToken)).statusCode).toBe(404)
+    })
+
+    it('should disable the code', async () => {
+      const { joinCode } = JSON.parse((await regenerate()).body)
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/v0/teacher/classes/${classId}/join-code`,
+        cookies: { access_token: teacherToken },
+      })
+
+      expect(response.statusCode).toBe(204)
+      expect((await join(joinCode.code, aliceToken)).statusCode).toBe(404)
+    })
+
+    it('should forbid other teachers', async () => {
+      const response = await regenerate({}, otherTeacherToken)
+
+      expect(response.statusCode).toBe(403)
+    })
+  })
+
+  describe('POST /api/v0/student/classes/join', () => {
+    it('should enroll the student with a case-insensitive code', async () => {
+      const { joinCode } = JSON.parse((await regenerate()).body)
+
+      const response = await join(joinCode.code.toLowerCase(), aliceToken)
+
+      expect(response.statusCode).toBe(201)
+      expect(JSON.parse(response.body).class.id).toBe(classId)
+
+      const classesResponse = await app.inject({
+        method: 'GET',
+        url: '/api/v0/student/classes',
+        cookies: { access_token: aliceToken },
+      })
+      expect(JSON.parse(classesResponse.body).classes.map((c: { id: string }) => c.id)).toEqual([
+        classId,
+      ])
+    })
+
+    it('should reject joining twice', async () => {
+      const { joinCode } = JSON.parse((await regenerate()).body)
+      await join(joinCode.code, aliceToken)
+
+      expect((await join(joinCode.code, aliceToken)).statusCode).toBe(409)
+    })
+
+    it('should stop accepting the code after max uses', async () => {
+      const { joinCode } = JSON.parse((await regenerate({ maxUses: 1 })).body)
+
+      expect((await join(joinCode.code, aliceToken)).statusCode).toBe(201)
+      expect((await join(joinCode.code, bobToken)).statusCode).toBe(400)
+    })
+
+    it('should reject an expired code', async () => {
+      const { joinCode } = JSON.parse((await regenerate()).body)
+      await db
+        .updateTable('class_join_codes')
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where('class_id', '=', classId)
+        .execute()
+
+      const response = await join(joinCode.code, aliceToken)
+
+      expect(response.statusCode).toBe(400)
+      expect(JSON.parse(response.body).message).toBe('Join code has expired')
+    })
+
+    it('should forbid teachers', async () => {
+      const { joinCode } = JSON.parse((await regenerate()).body)
+
+      expect((await join(joinCode.code, teacherToken)).statusCode).toBe(403)
+    })
+  })
+})
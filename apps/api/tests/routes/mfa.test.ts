@@ -0,0 +1,319 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { buildApp } from '../../src/app.js'
+import { FastifyInstance } from 'fastify'
+import { db, clearAllTables } from '@concentrate/database'
+import { generateTotp, getTotpStep } from '@concentrate/shared'
+
+describe('MFA Routes', () => {
+  let app: FastifyInstance
+  let adminToken: string
+  let teacherId: string
+
+  async function register(email: string, password: string, role: string) {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v0/auth/register',
+      payload: { email, password, name: `${role} user`, role },
+    })
+    return JSON.parse(response.body).user.id as string
+  }
+
+  async function login(email: string, password: string) {
+    return app.inject({
+      method: 'POST',
+      url: '/api/v0/auth/login',
+      payload: { email, password },
+    })
+  }
+
+  async function verifyChallenge(challengeToken: string, code: string) {
+    return app.inject({
+      method: 'POST',
+      url: '/api/v0/auth/mfa/challenge/verify',
+      payload: { challengeToken, code },
+    })
+  }
+
+  async function getMe(accessToken: string) {
+    return app.inject({
+      method: 'GET',
+      url: '/api/v0/auth/me',
+      cookies: { access_token: accessToken },
+    })
+  }
+
+  // Codes of the current step are used by enrollment, so later checks use the next one
+  const nextCode = (secret: string) => generateTotp(secret, getTotpStep() + 1)
+
+  /**
+   * Set up MFA for the teacher
+   * @returns TOTP secret and recovery codes
+   */
+  async function enrollTeacher() {
+    const loginResponse = await login('teacher@test.com', 'Teacher123!')
+    const cookies = {
+      access_token: loginResponse.cookies.find((c) => c.name === 'access_token')?.value || '',
+    }
+
+    const enrollResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/auth/mfa/enroll',
+      cookies,
+    })
+    const { secret, otpauthUrl } = JSON.parse(enrollResponse.body)
+
+    const confirmResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/auth/mfa/confirm',
+      cookies,
+      payload: { code: generateTotp(secret) },
+    })
+
+    return {
+      secret: secret as string,
+      otpauthUrl: otpauthUrl as string,
+      confirmResponse,
+      recoveryCodes: JSON.parse(confirmResponse.body).recoveryCodes as string[],
+      cookies,
+    }
+  }
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    app = await buildApp()
+
+    await register('admin@test.com', 'Admin123!', 'admin')
+    teacherId = await register('teacher@test.com', 'Teacher123!', 'teacher')
+    await register('student@test.com', 'Student123!', 'student')
+
+    const adminLogin = await login('admin@test.com', 'Admin123!')
+    adminToken = adminLogin.cookies.find((c) => c.name === 'access_token')?.value || ''
+  })
+
+  afterEach(async () => {
+    if (app) {
+      await app.close()
+    }
+    await clearAllTables(db)
+  })
+
+  describe('enrollment', () => {
+    it('should enable MFA with a confirmed code', async () => {
+      const { otpauthUrl, secret, confirmResponse, recoveryCodes, cookies } =
+        await enrollTeacher()
+
+      expect(otpauthUrl).toMatch(/^otpauth:\/\/totp\//)
+      expect(otpauthUrl).toContain(`secret=${secret}`)
+      expect(confirmResponse.statusCode).toBe(200)
+      expect(recoveryCodes).toHaveLength(10)
+
+      const statusResponse = await app.inject({
+        method: 'GET',
+        url: '/api/v0/auth/mfa',
+        cookies,
+      })
+      expect(JSON.parse(statusResponse.body).mfa).toMatchObject({
+        enabled: true,
+        required: false,
+        recoveryCodesRemaining: 10,
+      })
+    })
+
+    it('should reject a wrong confirmation code', async () => {
+      const loginResponse = await login('teacher@test.com', 'Teacher123!')
+      const cookies = {
+        access_token: loginResponse.cookies.find((c) => c.name === 'access_token')?.value || '',
+      }
+      await app.inject({ method: 'POST', url: '/api/v0/auth/mfa/enroll', cookies })
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v0/auth/mfa/confirm',
+        cookies,
+        payload: { code: '000000' },
+      })
+
+      expect(response.statusCode).toBe(400)
+    })
+
+    it('should require authentication', async () => {
+      const response = await app.inject({ method: 'POST', url: '/api/v0/auth/mfa/enroll' })
+      expect(response.statusCode).toBe(401)
+    })
+  })
+
+  describe('login', () => {
+    it('should return a challenge instead of cookies, then log in with a code', async () => {
+      const { secret } = await enrollTeacher()
+
+      const loginResponse = await login('teacher@test.com', 'Teacher123!')
+      expect(loginResponse.statusCode).toBe(200)
+      expect(loginResponse.cookies.find((c) => c.name === 'access_token')).toBeUndefined()
+      const { mfa } = JSON.parse(loginResponse.body)
+      expect(mfa).toMatchObject({ enrollmentRequired: false })
+      expect(mfa.challengeToken).toMatch(/^[0-9a-f]{64}$/)
+
+      const verifyResponse = await verifyChallenge(mfa.challengeToken, nextCode(secret))
+      expect(verifyResponse.statusCode).toBe(200)
+      expect(JSON.parse(verifyResponse.body)).toMatchObject({
+        user: { id: teacherId, role: 'teacher' },
+        recoveryCodes: null,
+      })
+
+      const accessToken =
+        verifyResponse.cookies.find((c) => c.name === 'access_token')?.value || ''
+      expect((await getMe(accessToken)).statusCode).toBe(200)
+
+      // The challenge is single-use
+      const replay = await verifyChallenge(mfa.challengeToken, nextCode(secret))
+      expect(replay.statusCode).toBe(401)
+    })
+
+    it('should not accept a code twice', async () => {
+      const { secret } = await enrollTeacher()
+      const first = JSON.parse((await login('teacher@test.com', 'Teacher123!')).body).mfa
+      const second = JSON.parse((await login('teacher@test.com', 'Teacher123!')).body).mfa
+      const code = nextCode(secret)
+
+      expect((await verifyChallenge(first.challengeToken, code)).statusCode).toBe(200)
+      expect((await verifyChallenge(second.challengeToken, code)).statusCode).toBe(401)
+    })
+
+    it('should accept each recovery code once', async () => {
+      const { recoveryCodes } = await enrollTeacher()
+      const first = JSON.parse((await login('teacher@test.com', 'Teacher123!')).body).mfa
+      const second = JSON.parse((await login('teacher@test.com', 'Teacher123!')).body).mfa
+
+      const response = await verifyChallenge(first.challengeToken, recoveryCodes[0]!.toUpperCase())
+      expect(response.statusCode).toBe(200)
+
+      expect((await verifyChallenge(second.challengeToken, recoveryCodes[0]!)).statusCode).toBe(
+        401
+      )
+    })
+
+    it('should drop the challenge after 5 wrong codes', async () => {
+      const { secret } = await enrollTeacher()
+      const { mfa } = JSON.parse((await login('teacher@test.com', 'Teacher123!')).body)
+
+      for (let attempt = 1; attempt <= 4; attempt++) {
+        expect((await verifyChallenge(mfa.challengeToken, '000000')).statusCode).toBe(401)
+      }
+      const lastAttempt = await verifyChallenge(mfa.challengeToken, '000000')
+      expect(JSON.parse(lastAttempt.body).message).toContain('Too many invalid codes')
+
+      const response = await verifyChallenge(mfa.challengeToken, nextCode(secret))
+      expect(response.statusCode).toBe(401)
+    })
+  })
+
+  describe('required roles', () => {
+    async function requireRoles(roles: string[]) {
+      return app.inject({
+        method: 'PUT',
+        url: '/api/v0/admin/mfa/required-roles',
+        cookies: { access_token: adminToken },
+        payload: { roles },
+      })
+    }
+
+    it('should make users of a required role set up MFA at login', async () => {
+      const response = await requireRoles(['student'])
+      expect(JSON.parse(response.body).roles).toEqual(['student'])
+
+      const loginResponse = await login('student@test.com', 'Student123!')
+      const { mfa } = JSON.parse(loginResponse.body)
+      expect(mfa.enrollmentRequired).toBe(true)
+
+      // Without the setup step there is nothing to confirm
+      expect((await verifyChallenge(mfa.challengeToken, '123456')).statusCode).toBe(400)
+
+      const enrollResponse = await app.inject({
+        method: 'POST',
+        url: '/api/v0/auth/mfa/challenge/enroll',
+        payload: { challengeToken: mfa.challengeToken },
+      })
+      const { secret } = JSON.parse(enrollResponse.body)
+
+      const verifyResponse = await verifyChallenge(mfa.challengeToken, generateTotp(secret))
+      expect(verifyResponse.statusCode).toBe(200)
+      expect(JSON.parse(verifyResponse.body).recoveryCodes).toHaveLength(10)
+      expect(verifyResponse.cookies.find((c) => c.name === 'access_token')).toBeDefined()
+    })
+
+    it('should not let users of a required role disable MFA', async () => {
+      const { secret, cookies } = await enrollTeacher()
+      await requireRoles(['teacher'])
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v0/auth/mfa/disable',
+        cookies,
+        payload: { code: nextCode(secret) },
+      })
+
+      expect(response.statusCode).toBe(403)
+    })
+
+    it('should only be managed by admins', async () => {
+      const { cookies } = await enrollTeacher()
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/v0/admin/mfa/required-roles',
+        cookies,
+        payload: { roles: [] },
+      })
+
+      expect(response.statusCode).toBe(403)
+    })
+  })
+
+  describe('admin reset', () => {
+    it('should remove the MFA of a user and audit it', async () => {
+      await enrollTeacher()
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/v0/admin/users/${teacherId}/mfa`,
+        cookies: { access_token: adminToken },
+      })
+      expect(response.statusCode).toBe(204)
+
+      const loginResponse = await login('teacher@test.com', 'Teacher123!')
+      expect(JSON.parse(loginResponse.body).mfa).toBeUndefined()
+      expect(loginResponse.cookies.find((c) => c.name === 'access_token')).toBeDefined()
+
+      const auditResponse = await app.inject({
+        method: 'GET',
+        url: '/api/v0/admin/audit-events?action=mfa_reset',
+        cookies: { access_token: adminToken },
+      })
+      const { events } = JSON.parse(auditResponse.body)
+      expect(events).toHaveLength(1)
+      expect(events[0]).toMatchObject({ target_type: 'user', target_id: teacherId })
+    })
+
+    it('should reject users without MFA', async () => {
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/v0/admin/users/${teacherId}/mfa`,
+        cookies: { access_token: adminToken },
+      })
+
+      expect(response.statusCode).toBe(400)
+    })
+
+    it('should require admin role', async () => {
+      const { cookies } = await enrollTeacher()
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/v0/admin/users/${teacherId}/mfa`,
+        cookies,
+      })
+
+      expect(response.statusCode).toBe(403)
+    })
+  })
+})
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { buildApp } from '../../src/app.js'
+import { FastifyInstance } from 'fastify'
+import { db, clearAllTables } from '@concentrate/database'
+import { registerAndLogin } from '../helpers/auth.js'
+
+describe('Notification Routes', () => {
+  let app: FastifyInstance
+  let teacherToken: string
+  let studentToken: string
+  let otherStudentToken: string
+  let studentId: string
+  let classId: string
+
+  async function listNotifications(token = studentToken, query = '') {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/v0/notifications${query}`,
+      cookies: { access_token: token },
+    })
+    return JSON.parse(response.body) as {
+      notifications: Array<{ id: string; type: string; title: string; read_at: string | null }>
+      unreadCount: number
+    }
+  }
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    app = await buildApp()
+    vi.spyOn(app.mailer, 'sendGradePosted').mockResolvedValue()
+
+    teacherToken = (await registerAndLogin(app, 'teacher@test.com', 'teacher', 'Teacher')).token
+    const student = await registerAndLogin(app, 'student@test.com', 'student', 'Student')
+    studentToken = student.token
+    studentId = student.id
+    otherStudentToken = (await registerAndLogin(app, 'other@test.com', 'student', 'Other')).token
+
+    const classResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/classes',
+      cookies: { access_token: teacherToken },
+      payload: { name: 'Biology', description: 'Cells' },
+    })
+    classId = JSON.parse(classResponse.body).class.id
+
+    await app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/classes/${classId}/students`,
+      cookies: { access_token: teacherToken },
+      payload: { studentId },
+    })
+  })
+
+  afterEach(async () => {
+    if (app) {
+      await app.close()
+    }
+    await clearAllTables(db)
+  })
+
+  it('should require authentication', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/v0/notifications' })
+
+    expect(response.statusCode).toBe(401)
+  })
+
+  it('should notify students of enrollment, new assignments and grades', async () => {
+    const assignmentResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/assignments',
+      cookies: { access_token: teacherToken },
+      payload: {
+        classId,
+        title: 'Lab Report',
+        description: 'Write it up',
+        dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      },
+    })
+    const assignmentId = JSON.parse(assignmentResponse.body).assignment.id
+
+    const submitResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/student/submissions',
+      cookies: { access_token: studentToken },
+      payload: { assignmentId, content: 'My report' },
+    })
+    const submissionId = JSON.parse(submitResponse.body).submission.id
+
+    await app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/submissions/${submissionId}/grade`,
+      cookies: { access_token: teacherToken },
+      payload: { grade: 90 },
+    })
+
+    // The grade is announced when released, not when posted
+    expect((await listNotifications()).unreadCount).toBe(2)
+    await app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/assignments/${assignmentId}/release-grades`,
+      cookies: { access_token: teacherToken },
+    })
+
+    const { notifications, unreadCount } = await listNotifications()
+
+    expect(unreadCount).toBe(3)
+    expect(notifications.map((n) => n.type)).toEqual([
+      'grade_posted',
+      'assignment_created',
+      'class_enrolled',
+    ])
+    expect(notifications[0]!.title).toBe('Grade posted: Lab Report')
+    expect((await listNotifications(otherStudentToken)).notifications).toEqual([])
+  })
+
+  it('should mark notifications read and unread', async () => {
+    const [notification] = (await listNotifications()).notifications
+
+    const readResponse = await app.inject({
+      method: 'POST',
+      url: `/api/v0/notifications/${notification!.id}/read`,
+      cookies: { access_token: studentToken },
+    })
+    expect(readResponse.statusCode).toBe(200)
+    expect(JSON.parse(readResponse.body).notification.read_at).not.toBeNull()
+
+    const countResponse = await app.inject({
+      method: 'GET',
+      url: '/api/v0/notifications/unread-count',
+      cookies: { access_token: studentToken },
+    })
+    expect(JSON.parse(countResponse.body).unreadCount).toBe(0)
+    expect((await listNotifications(studentToken, '?unread=true')).notifications).toEqual([])
+
+    const unreadResponse = await app.inject({
+      method: 'DELETE',
+      url: `/api/v0/notifications/${notification!.id}/read`,
+      cookies: { access_token: studentToken },
+    })
+    expect(unreadResponse.statusCode).toBe(200)
+    expect((await listNotifications()).unreadCount).toBe(1)
+  })
+
+  it('should mark all notifications read', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v0/notifications/read-all',
+      cookies: { access_token: studentToken },
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(JSON.parse(response.body).count).toBe(1)
+    expect((await listNotifications()).unreadCount).toBe(0)
+  })
+
+  it("should not let users mark someone else's notification", async () => {
+    const [notification] = (await listNotifications()).notifications
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/v0/notifications/${notification!.id}/read`,
+      cookies: { access_token: otherStudentToken },
+    })
+
+    expect(response.statusCode).toBe(404)
+    expect((await listNotifications()).unreadCount).toBe(1)
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { buildApp } from '../../src/app.js'
+import { FastifyInstance } from 'fastify'
+import { db, clearAllTables } from '@concentrate/database'
+
+describe('Password Reset Routes', () => {
+  let app: FastifyInstance
+  let sendPasswordReset: ReturnType<typeof vi.spyOn>
+
+  async function requestReset(email: string) {
+    return app.inject({
+      method: 'POST',
+      url: '/api/v0/auth/password-reset/request',
+      payload: { email },
+    })
+  }
+
+  async function login(password: string) {
+    return app.inject({
+      method: 'POST',
+      url: '/api/v0/auth/login',
+      payload: { email: 'student@test.com', password },
+    })
+  }
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    app = await buildApp()
+    sendPasswordReset = vi.spyOn(app.mailer, 'sendPasswordReset').mockResolvedValue()
+
+    await app.inject({
+      method: 'POST',
+      url: '/api/v0/auth/register',
+      payload: {
+        email: 'student@test.com',
+        password: 'Password123!',
+        name: 'Student',
+        role: 'student',
+      },
+    })
+  })
+
+  afterEach(async () => {
+    if (app) {
+      await app.close()
+    }
+    await clearAllTables(db)
+  })
+
+  it('should email the reset token without returning it', async () => {
+    const response = await requestReset('Student@Test.com')
+
+    expect(response.statusCode).toBe(202)
+    expect(sendPasswordReset).toHaveBeenCalledTimes(1)
+    const [to, token] = sendPasswordReset.mock.calls[0]!
+    expect(to).toEqual({ email: 'student@test.com', name: 'Student' })
+    expect(response.body).not.toContain(token as string)
+  })
+
+  it('should answer the same way for unknown emails', async () => {
+    const known = await requestReset('student@test.com')
+    const unknown = await requestReset('nobody@test.com')
+
+    expect(unknown.statusCode).toBe(202)
+    expect(unknown.body).toBe(known.body)
+    expect(sendPasswordReset).toHaveBeenCalledTimes(1)
+  })
+
+  it('should reset the password with the emailed token once', async () => {
+    await requestReset('student@test.com')
+    const token = sendPasswordReset.mock.calls[0]![1] as string
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v0/auth/password-reset',
+      payload: { token, password: 'NewPassword123!' },
+    })
+
+    expect(response.statusCode).toBe(204)
+    expect((await login('Password123!')).statusCode).toBe(401)
+    expect((await login('NewPassword123!')).statusCode).toBe(200)
+
+    const reuse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/auth/password-reset',
+      payload: { token, password: 'Another123!' },
+    })
+    expect(reuse.statusCode).toBe(401)
+  })
+
+  it('should sign out existing sessions immediately', async () => {
+    const before = await login('Password123!')
+    const accessToken = before.cookies.find((c) => c.name === 'access_token')?.value || ''
+
+    await requestReset('student@test.com')
+    const token = sendPasswordReset.mock.calls[0]![1] as string
+    await app.inject({
+      method: 'POST',
+      url: '/api/v0/auth/password-reset',
+      payload: { token, password: 'NewPassword123!' },
+    })
+
+    const me = await app.inject({
+      method: 'GET',
+      url: '/api/v0/auth/me',
+      cookies: { access_token: accessToken },
+    })
+    expect(me.statusCode).toBe(401)
+  })
+
+  it('should reject invalid reset tokens', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v0/auth/password-reset',
+      payload: { token: 'not-a-token', password: 'NewPassword123!' },
+    })
+
+    expect(response.statusCode).toBe(401)
+  })
+})
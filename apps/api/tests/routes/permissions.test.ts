@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { buildApp } from '../../src/app.js'
+import { FastifyInstance } from 'fastify'
+import { db, clearAllTables } from '@concentrate/database'
+import { registerAndLogin } from '../helpers/auth.js'
+
+describe('Permission Routes', () => {
+  let app: FastifyInstance
+  let adminToken: string
+  let teacherToken: string
+  let teacherId: string
+  let otherTeacherToken: string
+  let otherClassId: string
+
+  async function grant(permission: string, userId = teacherId) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/v0/admin/users/${userId}/permissions`,
+      cookies: { access_token: adminToken },
+      payload: { permission },
+    })
+  }
+
+  async function revoke(permission: string) {
+    return app.inject({
+      method: 'DELETE',
+      url: `/api/v0/admin/users/${teacherId}/permissions/${permission}`,
+      cookies: { access_token: adminToken },
+    })
+  }
+
+  async function listClasses() {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/v0/teacher/classes',
+      cookies: { access_token: teacherToken },
+    })
+    return JSON.parse(response.body).classes as { id: string }[]
+  }
+
+  async function getGradebook() {
+    return app.inject({
+      method: 'GET',
+      url: `/api/v0/teacher/classes/${otherClassId}/gradebook`,
+      cookies: { access_token: teacherToken },
+    })
+  }
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    app = await buildApp()
+
+    const admin = await registerAndLogin(app, 'admin@test.com', 'admin')
+    const teacher = await registerAndLogin(app, 'teacher@test.com', 'teacher')
+    const otherTeacher = await registerAndLogin(app, 'other@test.com', 'teacher')
+    adminToken = admin.token
+    teacherToken = teacher.token
+    teacherId = teacher.id
+    otherTeacherToken = otherTeacher.token
+
+    const classResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/classes',
+      cookies: { access_token: otherTeacherToken },
+      payload: { name: 'Chemistry', description: 'Labs' },
+    })
+    otherClassId = JSON.parse(classResponse.body).class.id
+  })
+
+  afterEach(async () => {
+    if (app) {
+      await app.close()
+    }
+    await clearAllTables(db)
+  })
+
+  it('should let a teacher granted classes:read_all list every class', async () => {
+    expect(await listClasses()).toEqual([])
+
+    const response = await grant('classes:read_all')
+
+    expect(response.statusCode).toBe(201)
+    expect(JSON.parse(response.body).grant).toMatchObject({
+      user_id: teacherId,
+      permission: 'classes:read_all',
+    })
+    expect((await listClasses()).map((c) => c.id)).toEqual([otherClassId])
+  })
+
+  it('should let a teacher granted grades:read_all view other gradebooks until revoked', async () => {
+    expect((await getGradebook()).statusCode).toBe(403)
+
+    await grant('grades:read_all')
+    expect((await getGradebook()).statusCode).toBe(200)
+
+    const response = await revoke('grades:read_all')
+    expect(response.statusCode).toBe(204)
+    expect((await getGradebook()).statusCode).toBe(403)
+  })
+
+  it('should let a teacher granted assignments:read_all and grades:read_all see other assignments', async () => {
+    const assignmentResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/assignments',
+      cookies: { access_token: otherTeacherToken },
+      payload: {
+        classId: otherClassId,
+        title: 'Titration',
+        description: 'Lab report',
+        dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      },
+    })
+    const assignmentId = JSON.parse(assignmentResponse.body).assignment.id
+
+    const listAssignments = async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v0/teacher/assignments',
+        cookies: { access_token: teacherToken },
+      })
+      return (JSON.parse(response.body).assignments as { id: string }[]).map((a) => a.id)
+    }
+    const exportGrades = () =>
+      app.inject({
+        method: 'GET',
+        url: `/api/v0/teacher/assignments/${assignmentId}/grades.csv`,
+        cookies: { access_token: teacherToken },
+      })
+
+    expect(await listAssignments()).toEqual([])
+    expect((await exportGrades()).statusCode).toBe(403)
+
+    await grant('assignments:read_all')
+    await grant('grades:read_all')
+
+    expect(await listAssignments()).toEqual([assignmentId])
+    expect((await exportGrades()).statusCode).toBe(200)
+  })
+
+  it('should not let the extra permission change other classes', async () => {
+    await grant('classes:read_all')
+
+    const response = await app.inject({
+      method: 'PUT',
+      url: `/api/v0/teacher/classes/${otherClassId}`,
+      cookies: { access_token: teacherToken },
+      payload: { name: 'Taken over' },
+    })
+
+    expect(response.statusCode).toBe(403)
+  })
+
+  it('should list role and granted permissions', async () => {
+    await grant('classes:read_all')
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/v0/admin/users/${teacherId}/permissions`,
+      cookies: { access_token: adminToken },
+    })
+
+    expect(response.statusCode).toBe(200)
+    const { permissions } = JSON.parse(response.body)
+    expect(permissions.role).toContain('grades:update_own')
+    expect(permissions.granted.map((g: { permission: string }) => g.permission)).toEqual([
+      'classes:read_all',
+    ])
+  })
+
+  it('should reject unknown, role-held and duplicate grants', async () => {
+    expect((await grant('reports:read')).statusCode).toBe(400)
+    expect((await grant('grades:update_own')).statusCode).toBe(400)
+
+    await grant('classes:read_all')
+    expect((await grant('classes:read_all')).statusCode).toBe(409)
+  })
+
+  it('should return 404 when revoking a permission that was not granted', async () => {
+    expect((await revoke('classes:read_all')).statusCode).toBe(404)
+  })
+
+  it('should record grants and revocations in the audit log', async () => {
+    await grant('classes:read_all')
+    await revoke('classes:read_all')
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/v0/admin/audit-events?targetId=${teacherId}`,
+      cookies: { access_token: adminToken },
+    })
+
+    const { events } = JSON.parse(response.body)
+    expect(events.map((e: { action: string }) => e.action)).toEqual([
+      'permission_revoked',
+      'permission_granted',
+    ])
+  })
+
+  it('should require admin role to manage permissions', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/v0/admin/users/${teacherId}/permissions`,
+      cookies: { access_token: teacherToken },
+      payload: { permission: 'classes:read_all' },
+    })
+
+    expect(response.statusCode).toBe(403)
+  })
+})
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { buildApp } from '../../src/app.js'
+import { FastifyInstance } from 'fastify'
+import { db, clearAllTables } from '@concentrate/database'
+import { registerAndLogin } from '../helpers/auth.js'
+
+describe('Roster Import Routes', () => {
+  let app: FastifyInstance
+  let adminToken: string
+  let teacherToken: string
+  let studentToken: string
+  let ownClassId: string
+  let otherClassId: string
+
+  async function createClass(token: string, name: string) {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/classes',
+      cookies: { access_token: token },
+      payload: { name, description: 'Roster test' },
+    })
+    return JSON.parse(response.body).class.id as string
+  }
+
+  async function enrolledEmails(classId: string) {
+    const rows = await db
+      .selectFrom('class_students')
+      .innerJoin('users', 'users.id', 'class_students.student_id')
+      .select('users.email')
+      .where('class_students.class_id', '=', classId)
+      .orderBy('users.email')
+      .execute()
+    return rows.map((r) => r.email)
+  }
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    app = await buildApp()
+
+    adminToken = (await registerAndLogin(app, 'admin@test.com', 'admin', 'Admin')).token
+    teacherToken = (await registerAndLogin(app, 'teacher@test.com', 'teacher', 'Teacher')).token
+    const otherTeacherToken = (await registerAndLogin(app, 'other@test.com', 'teacher', 'Other')).token
+    studentToken = (await registerAndLogin(app, 'alice@test.com', 'student', 'Alice')).token
+
+    ownClassId = await createClass(teacherToken, 'Biology')
+    otherClassId = await createClass(otherTeacherToken, 'Chemistry')
+  })
+
+  afterEach(async () => {
+    if (app) {
+      await app.close()
+    }
+    await clearAllTables(db)
+  })
+
+  describe('POST /api/v0/teacher/roster/import', () => {
+    it('should create missing students and enroll them in own classes', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v0/teacher/roster/import',
+        cookies: { access_token: teacherToken },
+        payload: {
+          csv: 'Name,Email,Class\nAlice,alice@test.com,Biology\nBob,Bob@Test.com,biology\n',
+        },
+      })
+
+      expect(response.statusCode).toBe(200)
+      const { result } = JSON.parse(response.body)
+      expect(result.rows.map((r: { status: string }) => r.status)).toEqual(['enrolled', 'created'])
+      expect(result).toMatchObject({ created: 1, enrolled: 2, errorCount: 0 })
+      expect(await enrolledEmails(ownClassId)).toEqual(['alice@test.com', 'bob@test.com'])
+
+      const bob = await db
+        .selectFrom('users')
+        .selectAll()
+        .where('email', '=', 'bob@test.com')
+        .executeTakeFirstOrThrow()
+      expect(bob).toMatchObject({ name: 'Bob', role: 'student', password_hash: null })
+    })
+
+    it("should not reach other teachers' classes", async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v0/teacher/roster/import',
+        cookies: { access_token: teacherToken },
+        payload: { csv: `Name,Email,Class\nAlice,alice@test.com,${otherClassId}\n` },
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(JSON.parse(response.body).result.rows[0].status).toBe('unknown_class')
+      expect(await enrolledEmails(otherClassId)).toEqual([])
+    })
+
+    it('should return 400 when columns are missing', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v0/teacher/roster/import',
+        cookies: { access_token: teacherToken },
+        payload: { csv: 'Name,Email\nAlice,alice@test.com\n' },
+      })
+
+      expect(response.statusCode).toBe(400)
+    })
+
+    it('should forbid students', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v0/teacher/roster/import',
+        cookies: { access_token: studentToken },
+        payload: { csv: 'Name,Email,Class\n' },
+      })
+
+      expect(response.statusCode).toBe(403)
+    })
+  })
+
+  describe('POST /api/v0/admin/roster/import', () => {
+    it('should enroll students in any class', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v0/admin/roster/import',
+        cookies: { access_token: adminToken },
+        payload: {
+          csv: 'Name,Email,Class\nAlice,alice@test.com,Chemistry\nTeacher,teacher@test.com,Chemistry\n',
+        },
+      })
+
+      expect(response.statusCode).toBe(200)
+      const { result } = JSON.parse(response.body)
+      expect(result.rows.map((r: { status: string }) => r.status)).toEqual([
+        'enrolled',
+        'not_a_student',
+      ])
+      expect(await enrolledEmails(otherClassId)).toEqual(['alice@test.com'])
+    })
+
+    it('should forbid teachers', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v0/admin/roster/import',
+        cookies: { access_token: teacherToken },
+        payload: { csv: 'Name,Email,Class\n' },
+      })
+
+      expect(response.statusCode).toBe(403)
+    })
+  })
+})
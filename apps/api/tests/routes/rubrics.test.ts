@@ -0,0 +1,242 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { buildApp } from '../../src/app.js'
+import { FastifyInstance } from 'fastify'
+import { db, clearAllTables } from '@concentrate/database'
+import { registerAndLogin } from '../helpers/auth.js'
+
+describe('Rubric Routes', () => {
+  let app: FastifyInstance
+  let teacherToken: string
+  let studentToken: string
+  let assignmentId: string
+  let submissionId: string
+
+  const rubricPayload = {
+    criteria: [
+      {
+        title: 'Thesis',
+        description: 'Clear central claim',
+        levels: [
+          { label: 'Missing', points: 0 },
+          { label: 'Developing', points: 6 },
+          { label: 'Strong', points: 10 },
+        ],
+      },
+      {
+        title: 'Evidence',
+        levels: [
+          { label: 'Weak', points: 2 },
+          { label: 'Solid', points: 5 },
+        ],
+      },
+    ],
+  }
+
+  async function putRubric(payload: unknown = rubricPayload) {
+    return app.inject({
+      method: 'PUT',
+      url: `/api/v0/teacher/assignments/${assignmentId}/rubric`,
+      cookies: { access_token: teacherToken },
+      payload: payload as Record<string, unknown>,
+    })
+  }
+
+  async function gradeWithRubric(rubricScores: unknown[]) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/submissions/${submissionId}/grade`,
+      cookies: { access_token: teacherToken },
+      payload: { rubricScores, feedback: 'See rubric' },
+    })
+  }
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    app = await buildApp()
+
+    const teacher = await registerAndLogin(app, 'teacher@test.com', 'teacher')
+    const student = await registerAndLogin(app, 'student@test.com', 'student')
+    teacherToken = teacher.token
+    studentToken = student.token
+
+    const classResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/classes',
+      cookies: { access_token: teacherToken },
+      payload: { name: 'English', description: 'Essays' },
+    })
+    const classId = JSON.parse(classResponse.body).class.id
+
+    await app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/classes/${classId}/students`,
+      cookies: { access_token: teacherToken },
+      payload: { studentId: student.id },
+    })
+
+    const assignmentResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/assignments',
+      cookies: { access_token: teacherToken },
+      payload: {
+        classId,
+        title: 'Essay',
+        description: 'Write an essay',
+        dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      },
+    })
+    assignmentId = JSON.parse(assignmentResponse.body).assignment.id
+
+    const submissionResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/student/submissions',
+      cookies: { access_token: studentToken },
+      payload: { assignmentId, content: 'My essay' },
+    })
+    submissionId = JSON.parse(submissionResponse.body).submission.id
+  })
+
+  afterEach(async () => {
+    if (app) {
+      await app.close()
+    }
+    await clearAllTables(db)
+  })
+
+  describe('PUT /api/v0/teacher/assignments/:id/rubric', () => {
+    it('should store the rubric in order', async () => {
+      const response = await putRubric()
+
+      expect(response.statusCode).toBe(200)
+      const { rubric } = JSON.parse(response.body)
+      expect(rubric.map((c: { title: string }) => c.title)).toEqual(['Thesis', 'Evidence'])
+      expect(rubric[0].levels).toHaveLength(3)
+      expect(rubric[0].levels[2].points).toBe('10.00')
+    })
+
+    it('should reject students', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/v0/teacher/assignments/${assignmentId}/rubric`,
+        cookies: { access_token: studentToken },
+        payload: rubricPayload,
+      })
+
+      expect(response.statusCode).toBe(403)
+    })
+  })
+
+  describe('GET /api/v0/student/assignments/:id/rubric', () => {
+    it('should return the rubric to enrolled students', async () => {
+      await putRubric()
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/student/assignments/${assignmentId}/rubric`,
+        cookies: { access_token: studentToken },
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(JSON.parse(response.body).rubric).toHaveLength(2)
+    })
+  })
+
+  describe('POST /api/v0/teacher/submissions/:id/grade with rubric scores', () => {
+    it('should compute the grade and show the breakdown to the student', async () => {
+      const { rubric } = JSON.parse((await putRubric()).body)
+
+      const response = await gradeWithRubric([
+        { criterionId: rubric[0].id, levelId: rubric[0].levels[1].id, comment: 'Sharpen it' },
+        { criterionId: rubric[1].id, levelId: rubric[1].levels[1].id },
+      ])
+
+      expect(response.statusCode).toBe(200)
+      const body = JSON.parse(response.body)
+      expect(body.grade.grade).toBe('73.33')
+      expect(body.rubricScores).toHaveLength(2)
+
+      await app.inject({
+        method: 'POST',
+        url: `/api/v0/teacher/assignments/${assignmentId}/release-grades`,
+        cookies: { access_token: teacherToken },
+      })
+
+      const gradesResponse = await app.inject({
+        method: 'GET',
+        url: '/api/v0/student/grades',
+        cookies: { access_token: studentToken },
+      })
+      const [entry] = JSON.parse(gradesResponse.body).grades
+      expect(entry.rubricScores).toEqual([
+        expect.objectContaining({
+          criterion_title: 'Thesis',
+          level_label: 'Developing',
+          points: '6.00',
+          comment: 'Sharpen it',
+        }),
+        expect.objectContaining({ criterion_title: 'Evidence', level_label: 'Solid' }),
+      ])
+    })
+
+    it('should reject scores missing a criterion', async () => {
+      const { rubric } = JSON.parse((await putRubric()).body)
+
+      const response = await gradeWithRubric([
+        { criterionId: rubric[0].id, levelId: rubric[0].levels[0].id },
+      ])
+
+      expect(response.statusCode).toBe(400)
+    })
+
+    it('should reject rubric scores when assignment has no rubric', async () => {
+      const response = await gradeWithRubric([
+        {
+          criterionId: '00000000-0000-0000-0000-000000000000',
+          levelId: '00000000-0000-0000-0000-000000000001',
+        },
+      ])
+
+      expect(response.statusCode).toBe(400)
+    })
+
+    it('should lock the rubric once used for grading', async () => {
+      const { rubric } = JSON.parse((await putRubric()).body)
+      await gradeWithRubric(
+        rubric.map((c: { id: string; levels: Array<{ id: string }> }) => ({
+          criterionId: c.id,
+          levelId: c.levels[0]!.id,
+        }))
+      )
+
+      const replace = await putRubric()
+      const remove = await app.inject({
+        method: 'DELETE',
+        url: `/api/v0/teacher/assignments/${assignmentId}/rubric`,
+        cookies: { access_token: teacherToken },
+      })
+
+      expect(replace.statusCode).toBe(400)
+      expect(remove.statusCode).toBe(400)
+    })
+  })
+
+  describe('DELETE /api/v0/teacher/assignments/:id/rubric', () => {
+    it('should remove an unused rubric', async () => {
+      await putRubric()
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/v0/teacher/assignments/${assignmentId}/rubric`,
+        cookies: { access_token: teacherToken },
+      })
+      const getResponse = await app.inject({
+        method: 'GET',
+        url: `/api/v0/teacher/assignments/${assignmentId}/rubric`,
+        cookies: { access_token: teacherToken },
+      })
+
+      expect(response.statusCode).toBe(204)
+      expect(JSON.parse(getResponse.body).rubric).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { buildApp } from '../../src/app.js'
+import { FastifyInstance } from 'fastify'
+import { db, clearAllTables } from '@concentrate/database'
+
+describe('Session Routes', () => {
+  let app: FastifyInstance
+
+  async function login(userAgent: string) {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v0/auth/login',
+      headers: { 'user-agent': userAgent },
+      payload: { email: 'student@test.com', password: 'Password123!' },
+    })
+    return {
+      access_token: response.cookies.find((c) => c.name === 'access_token')?.value || '',
+      refresh_token: response.cookies.find((c) => c.name === 'refresh_token')?.value || '',
+    }
+  }
+
+  async function listSessions(cookies: Record<string, string>) {
+    return app.inject({
+      method: 'GET',
+      url: '/api/v0/auth/sessions',
+      cookies,
+    })
+  }
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    app = await buildApp()
+
+    await app.inject({
+      method: 'POST',
+      url: '/api/v0/auth/register',
+      payload: {
+        email: 'student@test.com',
+        password: 'Password123!',
+        name: 'Student',
+        role: 'student',
+      },
+    })
+  })
+
+  afterEach(async () => {
+    if (app) {
+      await app.close()
+    }
+    await clearAllTables(db)
+  })
+
+  it('should list each device with the current one flagged', async () => {
+    await login('Laptop Browser')
+    const phone = await login('Phone Browser')
+
+    const response = await listSessions(phone)
+
+    expect(response.statusCode).toBe(200)
+    const { sessions } = JSON.parse(response.body)
+    expect(sessions).toHaveLength(2)
+    const current = sessions.find((s: { current: boolean }) => s.current)
+    expect(current.userAgent).toBe('Phone Browser')
+    expect(current.ip).toBeTruthy()
+    expect(current.createdAt).toBeDefined()
+    expect(current.lastUsedAt).toBeDefined()
+    expect(response.body).not.toContain(phone.refresh_token)
+  })
+
+  it('should keep the session ID when the refresh token rotates', async () => {
+    const laptop = await login('Laptop Browser')
+    const before = JSON.parse((await listSessions(laptop)).body).sessions[0]
+
+    const refreshResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/auth/refresh',
+      headers: { 'user-agent': 'Laptop Browser 2' },
+      cookies: { refresh_token: laptop.refresh_token },
+    })
+    const rotated = {
+      access_token: laptop.access_token,
+      refresh_token:
+        refreshResponse.cookies.find((c) => c.name === 'refresh_token')?.value || '',
+    }
+
+    const { sessions } = JSON.parse((await listSessions(rotated)).body)
+    expect(sessions).toHaveLength(1)
+    expect(sessions[0]).toMatchObject({
+      id: before.id,
+      userAgent: 'Laptop Browser 2',
+      current: true,
+    })
+  })
+
+  it('should log out a session whose rotated-out refresh token is replayed', async () => {
+    const laptop = await login('Laptop Browser')
+    const phone = await login('Phone Browser')
+
+    const refresh = (refreshToken: string) =>
+      app.inject({
+        method: 'POST',
+        url: '/api/v0/auth/refresh',
+        cookies: { refresh_token: refreshToken },
+      })
+
+    const rotatedResponse = await refresh(laptop.refresh_token)
+    const rotatedToken =
+      rotatedResponse.cookies.find((c) => c.name === 'refresh_token')?.value || ''
+
+    expect((await refresh(laptop.refresh_token)).statusCode).toBe(401)
+    expect((await refresh(rotatedToken)).statusCode).toBe(401)
+
+    const { sessions } = JSON.parse((await listSessions(phone)).body)
+    expect(sessions.map((s: { userAgent: string }) => s.userAgent)).toEqual(['Phone Browser'])
+  })
+
+  it('should revoke another device', async () => {
+    const laptop = await login('Laptop Browser')
+    const phone = await login('Phone Browser')
+    const { sessions } = JSON.parse((await listSessions(phone)).body)
+    const laptopSession = sessions.find((s: { current: boolean }) => !s.current)
+
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/v0/auth/sessions/${laptopSession.id}`,
+      cookies: phone,
+    })
+
+    expect(response.statusCode).toBe(204)
+    expect(response.cookies.find((c) => c.name === 'refresh_token')).toBeUndefined()
+
+    const refreshResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/auth/refresh',
+      cookies: { refresh_token: laptop.refresh_token },
+    })
+    expect(refreshResponse.statusCode).toBe(401)
+    expect(JSON.parse((await listSessions(phone)).body).sessions).toHaveLength(1)
+  })
+
+  it('should clear cookies when revoking the current session', async () => {
+    const laptop = await login('Laptop Browser')
+    const { sessions } = JSON.parse((await listSessions(laptop)).body)
+
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/v0/auth/sessions/${sessions[0].id}`,
+      cookies: laptop,
+    })
+
+    expect(response.statusCode).toBe(204)
+    const cleared = response.cookies.find((c) => c.name === 'refresh_token')
+    expect(cleared?.value).toBe('')
+  })
+
+  it('should not revoke sessions of other users', async () => {
+    const laptop = await login('Laptop Browser')
+    const { sessions } = JSON.parse((await listSessions(laptop)).body)
+
+    await app.inject({
+      method: 'POST',
+      url: '/api/v0/auth/register',
+      payload: {
+        email: 'other@test.com',
+        password: 'Password123!',
+        name: 'Other',
+        role: 'student',
+      },
+    })
+    const otherLogin = await app.inject({
+      method: 'POST',
+      url: '/api/v0/auth/login',
+      payload: { email: 'other@test.com', password: 'Password123!' },
+    })
+    const otherToken = otherLogin.cookies.find((c) => c.name === 'access_token')?.value || ''
+
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/v0/auth/sessions/${sessions[0].id}`,
+      cookies: { access_token: otherToken },
+    })
+
+    expect(response.statusCode).toBe(404)
+  })
+
+  it('should require authentication', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/v0/auth/sessions' })
+    expect(response.statusCode).toBe(401)
+  })
+})
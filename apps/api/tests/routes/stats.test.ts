@@ -147,6 +147,12 @@ describe('Stats Routes (Public)', () => {
         },
       })
 
+      await app.inject({
+        method: 'POST',
+        url: `/api/v0/teacher/assignments/${assignmentId}/release-grades`,
+        cookies: { access_token: teacherToken },
+      })
+
       // Get average
       const response = await app.inject({
         method: 'GET',
@@ -203,6 +209,19 @@ describe('Stats Routes (Public)', () => {
         payload: { grade: 90 },
       })
 
+      // Unreleased grades stay out of the public average
+      const pendingResponse = await app.inject({
+        method: 'GET',
+        url: `/api/v0/stats/average-grades/${classId}`,
+      })
+      expect(JSON.parse(pendingResponse.body).count).toBe(0)
+
+      await app.inject({
+        method: 'POST',
+        url: `/api/v0/teacher/assignments/${assignmentId}/release-grades`,
+        cookies: { access_token: teacherToken },
+      })
+
       const response = await app.inject({
         method: 'GET',
         url: `/api/v0/stats/average-grades/${classId}`,
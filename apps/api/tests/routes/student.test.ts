@@ -1,11 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { buildApp } from '../../src/app.js'
 import { FastifyInstance } from 'fastify'
-import { db, clearAllTables } from '@concentrate/database'
+import { db, clearAllTables, createTestLesson } from '@concentrate/database'
 
 describe('Student Routes', () => {
   let app: FastifyInstance
   let studentToken: string
+  let teacherToken: string
   let studentId: string
   let teacherId: string
   let classId: string
@@ -43,7 +44,7 @@ describe('Student Routes', () => {
       },
     })
     const teacherCookies = teacherLogin.cookies
-    const teacherToken = teacherCookies.find((c) => c.name === 'access_token')?.value || ''
+    teacherToken = teacherCookies.find((c) => c.name === 'access_token')?.value || ''
 
     // Create class as teacher
     const classResponse = await app.inject({
@@ -135,6 +136,79 @@ describe('Student Routes', () => {
     })
   })
 
+  describe('GET /api/v0/student/classes/:id/lessons', () => {
+    it('should only list published lessons', async () => {
+      await createTestLesson(db, { classId, title: 'Draft lesson' })
+      await createTestLesson(db, { classId, title: 'Published lesson', status: 'published' })
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/student/classes/${classId}/lessons`,
+        cookies: { access_token: studentToken },
+      })
+
+      expect(response.statusCode).toBe(200)
+      const body = JSON.parse(response.body)
+      expect(body.lessons).toHaveLength(1)
+      expect(body.lessons[0].title).toBe('Published lesson')
+    })
+
+    it('should reject students not enrolled in the class', async () => {
+      await app.inject({
+        method: 'POST',
+        url: '/api/v0/auth/register',
+        payload: {
+          email: 'outsider@test.com',
+          password: 'Student123!',
+          name: 'Outsider',
+          role: 'student',
+        },
+      })
+      const loginResponse = await app.inject({
+        method: 'POST',
+        url: '/api/v0/auth/login',
+        payload: { email: 'outsider@test.com', password: 'Student123!' },
+      })
+      const outsiderToken =
+        loginResponse.cookies.find((c) => c.name === 'access_token')?.value || ''
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/student/classes/${classId}/lessons`,
+        cookies: { access_token: outsiderToken },
+      })
+
+      expect(response.statusCode).toBe(403)
+    })
+  })
+
+  describe('GET /api/v0/student/classes/:id/lessons/:lessonId', () => {
+    it('should return a published lesson', async () => {
+      const lesson = await createTestLesson(db, { classId, status: 'published' })
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/student/classes/${classId}/lessons/${lesson.id}`,
+        cookies: { access_token: studentToken },
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(JSON.parse(response.body).lesson.id).toBe(lesson.id)
+    })
+
+    it('should return 404 for draft lessons', async () => {
+      const lesson = await createTestLesson(db, { classId })
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/student/classes/${classId}/lessons/${lesson.id}`,
+        cookies: { access_token: studentToken },
+      })
+
+      expect(response.statusCode).toBe(404)
+    })
+  })
+
   describe('GET /api/v0/student/assignments', () => {
     it('should get all assignments for student', async () => {
       const response = await app.inject({
@@ -212,6 +286,57 @@ describe('Student Routes', () => {
 
       expect(response.statusCode).toBe(400)
     })
+
+    it('should accept late submission with penalty under penalty policy', async () => {
+      await app.inject({
+        method: 'PUT',
+        url: `/api/v0/teacher/assignments/${assignmentId}`,
+        cookies: { access_token: teacherToken },
+        payload: {
+          dueDate: new Date(Date.now() - 36 * 60 * 60 * 1000).toISOString(),
+          latePolicy: 'penalty',
+          latePenaltyPerDay: 15,
+        },
+      })
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v0/student/submissions',
+        cookies: { access_token: studentToken },
+        payload: {
+          assignmentId: assignmentId,
+          content: 'Late submission',
+        },
+      })
+
+      expect(response.statusCode).toBe(201)
+      const body = JSON.parse(response.body)
+      expect(body.submission.is_late).toBe(true)
+      expect(body.submission.late_penalty).toBe(30)
+    })
+
+    it('should reject late submission under default policy', async () => {
+      await app.inject({
+        method: 'PUT',
+        url: `/api/v0/teacher/assignments/${assignmentId}`,
+        cookies: { access_token: teacherToken },
+        payload: {
+          dueDate: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+        },
+      })
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v0/student/submissions',
+        cookies: { access_token: studentToken },
+        payload: {
+          assignmentId: assignmentId,
+          content: 'Late submission',
+        },
+      })
+
+      expect(response.statusCode).toBe(400)
+    })
   })
 
   describe('PUT /api/v0/student/submissions/:id', () => {
@@ -308,6 +433,23 @@ describe('Student Routes', () => {
         },
       })
 
+      // Listed without its value until the teacher releases it
+      const pendingResponse = await app.inject({
+        method: 'GET',
+        url: '/api/v0/student/grades',
+        cookies: { access_token: studentToken },
+      })
+      const pendingBody = JSON.parse(pendingResponse.body)
+      expect(pendingBody.grades.length).toBe(1)
+      expect(pendingBody.grades[0].pendingRelease).toBe(true)
+      expect(pendingBody.grades[0].grade).toBeNull()
+
+      await app.inject({
+        method: 'POST',
+        url: `/api/v0/teacher/assignments/${assignmentId}/release-grades`,
+        cookies: { access_token: teacherToken },
+      })
+
       // Get grades
       const response = await app.inject({
         method: 'GET',
@@ -407,6 +549,20 @@ describe('Student Routes', () => {
       const gradeBody = JSON.parse(gradeResponse.body)
       const gradeId = gradeBody.grade.id
 
+      // Hidden until released
+      const pendingResponse = await app.inject({
+        method: 'GET',
+        url: `/api/v0/student/grades/${gradeId}`,
+        cookies: { access_token: studentToken },
+      })
+      expect(pendingResponse.statusCode).toBe(404)
+
+      await app.inject({
+        method: 'POST',
+        url: `/api/v0/teacher/assignments/${assignmentId}/release-grades`,
+        cookies: { access_token: teacherToken },
+      })
+
       // Get grade by ID
       const response = await app.inject({
         method: 'GET',
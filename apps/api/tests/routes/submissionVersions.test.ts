@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { buildApp } from '../../src/app.js'
+import { FastifyInstance } from 'fastify'
+import { db, clearAllTables } from '@concentrate/database'
+import { registerAndLogin } from '../helpers/auth.js'
+
+describe('Submission Version Routes', () => {
+  let app: FastifyInstance
+  let teacherToken: string
+  let studentToken: string
+  let otherStudentToken: string
+  let assignmentId: string
+  let submissionId: string
+
+  async function grade(value: number, feedback: string) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/submissions/${submissionId}/grade`,
+      cookies: { access_token: teacherToken },
+      payload: { grade: value, feedback },
+    })
+  }
+
+  async function returnForRevision(token: string) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/submissions/${submissionId}/return`,
+      cookies: { access_token: token },
+    })
+  }
+
+  async function resubmit(content: string) {
+    return app.inject({
+      method: 'PUT',
+      url: `/api/v0/student/submissions/${submissionId}`,
+      cookies: { access_token: studentToken },
+      payload: { content },
+    })
+  }
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    app = await buildApp()
+
+    const teacher = await registerAndLogin(app, 'teacher@test.com', 'teacher')
+    const student = await registerAndLogin(app, 'student@test.com', 'student')
+    const otherStudent = await registerAndLogin(app, 'other@test.com', 'student')
+    teacherToken = teacher.token
+    studentToken = student.token
+    otherStudentToken = otherStudent.token
+
+    const classResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/classes',
+      cookies: { access_token: teacherToken },
+      payload: { name: 'English', description: 'Essays' },
+    })
+    const classId = JSON.parse(classResponse.body).class.id
+
+    await app.inject({
+      method: 'POST',
+      url: `/api/v0/teacher/classes/${classId}/students`,
+      cookies: { access_token: teacherToken },
+      payload: { studentId: student.id },
+    })
+
+    const assignmentResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/teacher/assignments',
+      cookies: { access_token: teacherToken },
+      payload: {
+        classId,
+        title: 'Essay',
+        description: 'Write an essay',
+        dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      },
+    })
+    assignmentId = JSON.parse(assignmentResponse.body).assignment.id
+
+    const submissionResponse = await app.inject({
+      method: 'POST',
+      url: '/api/v0/student/submissions',
+      cookies: { access_token: studentToken },
+      payload: { assignmentId, content: 'Intro\nFirst draft' },
+    })
+    submissionId = JSON.parse(submissionResponse.body).submission.id
+  })
+
+  afterEach(async () => {
+    if (app) {
+      await app.close()
+    }
+    await clearAllTables(db)
+  })
+
+  describe('POST /api/v0/teacher/submissions/:id/return', () => {
+    it('should reopen a graded submission for resubmission', async () => {
+      await grade(60, 'Needs more detail')
+      expect((await resubmit('Blocked')).statusCode).toBe(400)
+
+      const response = await returnForRevision(teacherToken)
+
+      expect(response.statusCode).toBe(200)
+      expect(JSON.parse(response.body).submission.returned_at).not.toBeNull()
+
+      const resubmitResponse = await resubmit('Intro\nSecond draft')
+      expect(resubmitResponse.statusCode).toBe(200)
+      expect(JSON.parse(resubmitResponse.body).submission.returned_at).toBeNull()
+    })
+
+    it('should reject ungraded submissions', async () => {
+      const response = await returnForRevision(teacherToken)
+
+      expect(response.statusCode).toBe(400)
+    })
+
+    it('should reject students', async () => {
+      await grade(60, 'Needs more detail')
+
+      const response = await returnForRevision(studentToken)
+
+      expect(response.statusCode).toBe(403)
+    })
+  })
+
+  describe('GET /api/v0/student/assignments/:id/submission', () => {
+    it('should return own submission or null', async () => {
+      const own = await app.inject({
+        method: 'GET',
+        url: `/api/v0/student/assignments/${assignmentId}/submission`,
+        cookies: { access_token: studentToken },
+      })
+      const other = await app.inject({
+        method: 'GET',
+        url: `/api/v0/student/assignments/${assignmentId}/submission`,
+        cookies: { access_token: otherStudentToken },
+      })
+
+      expect(JSON.parse(own.body).submission.id).toBe(submissionId)
+      expect(JSON.parse(other.body).submission).toBeNull()
+    })
+  })
+
+  describe('GET /api/v0/{student,teacher}/submissions/:id/versions', () => {
+    beforeEach(async () => {
+      await grade(60, 'Needs more detail')
+      await returnForRevision(teacherToken)
+      await resubmit('Intro\nSecond draft')
+    })
+
+    it('should list versions for the student with returned grade', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/student/submissions/${submissionId}/versions`,
+        cookies: { access_token: studentToken },
+      })
+
+      expect(response.statusCode).toBe(200)
+      const { versions } = JSON.parse(response.body)
+      expect(versions).toHaveLength(2)
+      expect(versions[0].version_number).toBe(1)
+      expect(versions[0].grade).toBe('60.00')
+      expect(versions[0].feedback).toBe('Needs more detail')
+      expect(versions[0].returned_at).not.toBeNull()
+      expect(versions[1].content).toBe('Intro\nSecond draft')
+      expect(versions[1].returned_at).toBeNull()
+    })
+
+    it('should list versions for the class teacher', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/teacher/submissions/${submissionId}/versions`,
+        cookies: { access_token: teacherToken },
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(JSON.parse(response.body).versions).toHaveLength(2)
+    })
+
+    it('should forbid other students', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/student/submissions/${submissionId}/versions`,
+        cookies: { access_token: otherStudentToken },
+      })
+
+      expect(response.statusCode).toBe(403)
+    })
+
+    it('should diff two versions', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/teacher/submissions/${submissionId}/versions/diff?from=1&to=2`,
+        cookies: { access_token: teacherToken },
+      })
+
+      expect(response.statusCode).toBe(200)
+      const body = JSON.parse(response.body)
+      expect(body.from.version_number).toBe(1)
+      expect(body.to.version_number).toBe(2)
+      expect(body.changes).toEqual([
+        { type: 'equal', text: 'Intro' },
+        { type: 'removed', text: 'First draft' },
+        { type: 'added', text: 'Second draft' },
+      ])
+    })
+
+    it('should return 404 for unknown versions', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v0/student/submissions/${submissionId}/versions/diff?from=1&to=9`,
+        cookies: { access_token: studentToken },
+      })
+
+      expect(response.statusCode).toBe(404)
+    })
+  })
+})
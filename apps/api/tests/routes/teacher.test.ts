@@ -1094,4 +1094,151 @@ describe('Teacher Routes', () => {
       })
     })
   })
+
+  describe('Lesson Management', () => {
+    let lessonClassId: string
+
+    beforeEach(async () => {
+      const createResponse = await app.inject({
+        method: 'POST',
+        url: '/api/v0/teacher/classes',
+        cookies: { access_token: teacherToken },
+        payload: { name: 'Science 101' },
+      })
+      lessonClassId = JSON.parse(createResponse.body).class.id
+    })
+
+    const createLesson = async (payload: Record<string, unknown>) => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v0/teacher/classes/${lessonClassId}/lessons`,
+        cookies: { access_token: teacherToken },
+        payload,
+      })
+      return JSON.parse(response.body).lesson
+    }
+
+    describe('POST /api/v0/teacher/classes/:id/lessons', () => {
+      it('should create a draft lesson', async () => {
+        const response = await app.inject({
+          method: 'POST',
+          url: `/api/v0/teacher/classes/${lessonClassId}/lessons`,
+          cookies: { access_token: teacherToken },
+          payload: {
+            title: 'Cells',
+            content: 'The cell is the basic unit of life',
+            moduleName: 'Biology Basics',
+          },
+        })
+
+        expect(response.statusCode).toBe(201)
+        const body = JSON.parse(response.body)
+        expect(body.lesson.title).toBe('Cells')
+        expect(body.lesson.status).toBe('draft')
+        expect(body.lesson.module_name).toBe('Biology Basics')
+        expect(body.lesson.position).toBe(0)
+      })
+
+      it('should append lessons to the end of the module', async () => {
+        await createLesson({ title: 'First', content: 'One' })
+        const second = await createLesson({ title: 'Second', content: 'Two' })
+
+        expect(second.position).toBe(1)
+      })
+
+      it("should reject lessons for another teacher's class", async () => {
+        const otherTeacher = await app.inject({
+          method: 'POST',
+          url: '/api/v0/auth/register',
+          payload: {
+            email: 'other-teacher@test.com',
+            password: 'Teacher123!',
+            name: 'Other Teacher',
+            role: 'teacher',
+          },
+        })
+        expect(otherTeacher.statusCode).toBe(201)
+        const otherLogin = await app.inject({
+          method: 'POST',
+          url: '/api/v0/auth/login',
+          payload: { email: 'other-teacher@test.com', password: 'Teacher123!' },
+        })
+        const otherToken =
+          otherLogin.cookies.find((c) => c.name === 'access_token')?.value || ''
+
+        const response = await app.inject({
+          method: 'POST',
+          url: `/api/v0/teacher/classes/${lessonClassId}/lessons`,
+          cookies: { access_token: otherToken },
+          payload: { title: 'Intrusion', content: 'Nope' },
+        })
+
+        expect(response.statusCode).toBe(403)
+      })
+    })
+
+    describe('GET /api/v0/teacher/classes/:id/lessons', () => {
+      it('should list drafts and published lessons in order', async () => {
+        await createLesson({ title: 'Module 2', content: 'B', modulePosition: 1 })
+        await createLesson({ title: 'Module 1', content: 'A', status: 'published' })
+
+        const response = await app.inject({
+          method: 'GET',
+          url: `/api/v0/teacher/classes/${lessonClassId}/lessons`,
+          cookies: { access_token: teacherToken },
+        })
+
+        expect(response.statusCode).toBe(200)
+        const body = JSON.parse(response.body)
+        expect(body.lessons.map((l: { title: string }) => l.title)).toEqual([
+          'Module 1',
+          'Module 2',
+        ])
+      })
+    })
+
+    describe('PUT /api/v0/teacher/classes/:id/lessons/:lessonId', () => {
+      it('should publish a lesson', async () => {
+        const lesson = await createLesson({ title: 'Cells', content: 'Body' })
+
+        const response = await app.inject({
+          method: 'PUT',
+          url: `/api/v0/teacher/classes/${lessonClassId}/lessons/${lesson.id}`,
+          cookies: { access_token: teacherToken },
+          payload: { status: 'published' },
+        })
+
+        expect(response.statusCode).toBe(200)
+        const body = JSON.parse(response.body)
+        expect(body.lesson.status).toBe('published')
+        expect(body.lesson.published_at).not.toBeNull()
+      })
+
+      it('should return 404 for non-existent lesson', async () => {
+        const fakeId = '00000000-0000-0000-0000-000000000000'
+        const response = await app.inject({
+          method: 'PUT',
+          url: `/api/v0/teacher/classes/${lessonClassId}/lessons/${fakeId}`,
+          cookies: { access_token: teacherToken },
+          payload: { title: 'Updated' },
+        })
+
+        expect(response.statusCode).toBe(404)
+      })
+    })
+
+    describe('DELETE /api/v0/teacher/classes/:id/lessons/:lessonId', () => {
+      it('should delete a lesson', async () => {
+        const lesson = await createLesson({ title: 'Cells', content: 'Body' })
+
+        const response = await app.inject({
+          method: 'DELETE',
+          url: `/api/v0/teacher/classes/${lessonClassId}/lessons/${lesson.id}`,
+          cookies: { access_token: teacherToken },
+        })
+
+        expect(response.statusCode).toBe(204)
+      })
+    })
+  })
 })
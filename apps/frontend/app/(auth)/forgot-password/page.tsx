@@ -0,0 +1,92 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import Link from 'next/link';
+import { Card } from '@/components/ui/Card';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+import { forgotPasswordSchema, type ForgotPasswordFormData } from '@/lib/validations/auth';
+import { authApi } from '@/lib/api/authApi';
+
+export default function ForgotPasswordPage() {
+  const [error, setError] = useState<string>('');
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isSent, setIsSent] = useState<boolean>(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    try {
+      setIsLoading(true);
+      setError('');
+      await authApi.requestPasswordReset(data.email);
+      setIsSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request a reset link');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-neutral-100">
+      <div className="w-full max-w-md px-4">
+        <div className="text-center mb-8">
+          <h1 className="text-[52px] font-normal leading-tight text-neutral-700 mb-2 uppercase">
+            School Portal
+          </h1>
+          <p className="text-base text-neutral-600">Reset your password</p>
+        </div>
+
+        <Card>
+          {isSent ? (
+            <div className="space-y-6">
+              <p className="text-sm font-mono text-neutral-700">
+                If an account exists for that email, we sent a link to reset your password.
+                The link expires in 30 minutes.
+              </p>
+              <Link href="/login" className="text-sm font-mono text-primary hover:underline">
+                Back to Log In
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+              {error && (
+                <div className="bg-red-50 border border-red-500 rounded-[2px] p-4">
+                  <p className="text-sm text-red-500 font-mono">{error}</p>
+                </div>
+              )}
+
+              <Input
+                label="Email"
+                type="email"
+                placeholder="your.email@example.com"
+                error={errors.email?.message}
+                {...register('email')}
+              />
+
+              <Button type="submit" disabled={isLoading} className="w-full">
+                {isLoading ? 'Sending...' : 'Send Reset Link'}
+              </Button>
+
+              <p className="text-sm text-neutral-600 font-mono text-center">
+                Remembered it?{' '}
+                <Link href="/login" className="text-primary hover:underline">
+                  Log In
+                </Link>
+              </p>
+            </form>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
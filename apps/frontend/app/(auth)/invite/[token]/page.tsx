@@ -0,0 +1,145 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Card } from '@/components/ui/Card';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+import {
+  acceptInvitationSchema,
+  type AcceptInvitationFormData,
+} from '@/lib/validations/auth';
+import { authApi } from '@/lib/api/authApi';
+import { useAuth } from '@/contexts/AuthContext';
+import type { InvitationDetails } from '@/types/auth';
+
+export default function AcceptInvitationPage() {
+  const router = useRouter();
+  const params = useParams();
+  const token = params['token'] as string;
+  const { login } = useAuth();
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [error, setError] = useState<string>('');
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<AcceptInvitationFormData>({
+    resolver: zodResolver(acceptInvitationSchema),
+  });
+
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      try {
+        const data = await authApi.getInvitation(token);
+        setInvitation(data);
+        reset({ name: data.name ?? '' });
+      } catch {
+        setLoadError('This invitation is invalid, expired or has already been used.');
+      }
+    };
+
+    if (token) {
+      fetchInvitation();
+    }
+  }, [token, reset]);
+
+  const onSubmit = async (data: AcceptInvitationFormData) => {
+    if (!invitation) return;
+
+    try {
+      setIsLoading(true);
+      setError('');
+
+      await authApi.acceptInvitation(token, { name: data.name, password: data.password });
+
+      // Log in with the new password and go to the role dashboard
+      await login(invitation.email, data.password);
+      router.push(`/${invitation.role}/dashboard`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept invitation');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-neutral-100">
+      <div className="w-full max-w-md px-4">
+        <div className="text-center mb-8">
+          <h1 className="text-[52px] font-normal leading-tight text-neutral-700 mb-2 uppercase">
+            School Portal
+          </h1>
+          <p className="text-base text-neutral-600">Accept your invitation</p>
+        </div>
+
+        <Card>
+          {loadError ? (
+            <div className="space-y-6">
+              <p className="text-sm text-red-500 font-mono">{loadError}</p>
+              <Link href="/login" className="text-sm font-mono text-primary hover:underline">
+                Go to Log In
+              </Link>
+            </div>
+          ) : !invitation ? (
+            <p className="text-sm font-mono text-neutral-600 text-center">Loading...</p>
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+              {error && (
+                <div className="bg-red-50 border border-red-500 rounded-[2px] p-4">
+                  <p className="text-sm text-red-500 font-mono">{error}</p>
+                </div>
+              )}
+
+              <div className="font-mono text-sm space-y-1">
+                <p>
+                  <span className="text-neutral-600">Email:</span>{' '}
+                  <span className="text-neutral-700">{invitation.email}</span>
+                </p>
+                <p>
+                  <span className="text-neutral-600">Role:</span>{' '}
+                  <span className="text-neutral-700 uppercase">{invitation.role}</span>
+                </p>
+              </div>
+
+              <Input
+                label="Name"
+                type="text"
+                placeholder="Your full name"
+                error={errors.name?.message}
+                {...register('name')}
+              />
+
+              <Input
+                label="Password"
+                type="password"
+                placeholder="At least 8 characters"
+                error={errors.password?.message}
+                {...register('password')}
+              />
+
+              <Input
+                label="Confirm Password"
+                type="password"
+                placeholder="Re-enter your password"
+                error={errors.confirmPassword?.message}
+                {...register('confirmPassword')}
+              />
+
+              <Button type="submit" disabled={isLoading} className="w-full">
+                {isLoading ? 'Creating account...' : 'Create Account'}
+              </Button>
+            </form>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
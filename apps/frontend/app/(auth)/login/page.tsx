@@ -8,16 +8,20 @@ import Link from 'next/link';
 import { Card } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
 import { Button, SecondaryButton } from '@/components/ui/Button';
+import { MfaChallengeForm } from '@/components/MfaChallengeForm';
 import { loginSchema, type LoginFormData } from '@/lib/validations/auth';
 import { useAuth } from '@/contexts/AuthContext';
+import { authApi } from '@/lib/api/authApi';
+import type { MfaChallenge } from '@/types/auth';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
 function LoginForm() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const { login } = useAuth();
+  const { login, completeMfaLogin } = useAuth();
   const [error, setError] = useState<string>('');
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
 
   const {
@@ -34,35 +38,56 @@ function LoginForm() {
     if (oauthError) {
       setError(decodeURIComponent(oauthError));
     }
+
+    // Google logins of users with MFA come back with a challenge in the URL
+    // fragment; drop it from the address bar so it stays out of history
+    const fragment = new URLSearchParams(window.location.hash.slice(1));
+    const oauthChallenge = fragment.get('mfa');
+    if (oauthChallenge) {
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      setMfaChallenge({
+        challengeToken: oauthChallenge,
+        enrollmentRequired: fragment.get('enroll') === 'true',
+        expiresAt: '',
+      });
+    }
   }, [searchParams]);
 
+  const redirectToDashboard = async () => {
+    // Fetch user again to ensure we have latest data
+    const response = await fetch(`${API_URL}/api/v0/auth/me`, {
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch user: ${response.status}`);
+    }
+
+    const userData = await response.json();
+    console.log('User data received:', userData); // DEBUG
+
+    // Redirect to role-specific dashboard
+    if (userData.user && userData.user.role) {
+      router.push(`/${userData.user.role}/dashboard`);
+    } else {
+      console.error('Response data:', userData); // DEBUG
+      throw new Error(`User role not found. Response data: ${JSON.stringify(userData)}`);
+    }
+  };
+
   const onSubmit = async (data: LoginFormData) => {
     try {
       setIsLoading(true);
       setError('');
 
       // Login using AuthContext which returns the user
-      await login(data.email, data.password);
-
-      // Fetch user again to ensure we have latest data
-      const response = await fetch(`${API_URL}/api/v0/auth/me`, {
-        credentials: 'include',
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch user: ${response.status}`);
+      const challenge = await login(data.email, data.password);
+      if (challenge) {
+        setMfaChallenge(challenge);
+        return;
       }
 
-      const userData = await response.json();
-      console.log('User data received:', userData); // DEBUG
-
-      // Redirect to role-specific dashboard
-      if (userData.user && userData.user.role) {
-        router.push(`/${userData.user.role}/dashboard`);
-      } else {
-        console.error('Response data:', userData); // DEBUG
-        throw new Error(`User role not found. Response data: ${JSON.stringify(userData)}`);
-      }
+      await redirectToDashboard();
     } catch (err) {
       console.error('Login error:', err); // DEBUG
       setError(err instanceof Error ? err.message : 'Invalid email or password');
@@ -71,6 +96,13 @@ function LoginForm() {
     }
   };
 
+  const handleMfaComplete = () => {
+    redirectToDashboard().catch((err) => {
+      setMfaChallenge(null);
+      setError(err instanceof Error ? err.message : 'Login failed');
+    });
+  };
+
   const handleGoogleLogin = () => {
     window.location.href = `${API_URL}/api/v0/auth/oauth/google`;
   };
@@ -85,70 +117,100 @@ function LoginForm() {
           <p className="text-base text-neutral-600">Log in to your account</p>
         </div>
 
-        <Card>
-          <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-            {error && (
-              <div className="bg-red-50 border border-red-500 rounded-[2px] p-4">
-                <p className="text-sm text-red-500 font-mono">{error}</p>
-              </div>
-            )}
-
-            <Input
-              label="Email"
-              type="email"
-              placeholder="your.email@example.com"
-              error={errors.email?.message}
-              {...register('email')}
+        {mfaChallenge ? (
+          <Card>
+            <h2 className="text-xl font-mono text-neutral-700 uppercase mb-4">
+              Two-factor authentication
+            </h2>
+            <MfaChallengeForm
+              challenge={mfaChallenge}
+              onStartEnrollment={() => authApi.startChallengeEnrollment(mfaChallenge.challengeToken)}
+              onVerify={(code) => completeMfaLogin(mfaChallenge.challengeToken, code)}
+              onComplete={handleMfaComplete}
             />
+            <button
+              type="button"
+              onClick={() => setMfaChallenge(null)}
+              className="mt-6 w-full text-sm text-primary font-mono hover:underline"
+            >
+              Back to login
+            </button>
+          </Card>
+        ) : (
+          <Card>
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+              {error && (
+                <div className="bg-red-50 border border-red-500 rounded-[2px] p-4">
+                  <p className="text-sm text-red-500 font-mono">{error}</p>
+                </div>
+              )}
+
+              <Input
+                label="Email"
+                type="email"
+                placeholder="your.email@example.com"
+                error={errors.email?.message}
+                {...register('email')}
+              />
+
+              <Input
+                label="Password"
+                type="password"
+                placeholder="Enter your password"
+                error={errors.password?.message}
+                {...register('password')}
+              />
+
+              <div className="text-right -mt-4">
+                <Link
+                  href="/forgot-password"
+                  className="text-sm text-primary font-mono hover:underline"
+                >
+                  Forgot password?
+                </Link>
+              </div>
 
-            <Input
-              label="Password"
-              type="password"
-              placeholder="Enter your password"
-              error={errors.password?.message}
-              {...register('password')}
-            />
+              <Button
+                type="submit"
+                disabled={isLoading}
+                className="w-full"
+              >
+                {isLoading ? 'Logging in...' : 'Log In'}
+              </Button>
+            </form>
 
-            <Button
-              type="submit"
-              disabled={isLoading}
+            <div className="my-6 relative">
+              <div className="absolute inset-0 flex items-center">
+                <div className="w-full border-t border-neutral-300"></div>
+              </div>
+              <div className="relative flex justify-center text-sm">
+                <span className="px-4 bg-white text-neutral-600 font-mono uppercase">
+                  Or
+                </span>
+              </div>
+            </div>
+
+            <SecondaryButton
+              type="button"
+              onClick={handleGoogleLogin}
               className="w-full"
             >
-              {isLoading ? 'Logging in...' : 'Log In'}
-            </Button>
-          </form>
-
-          <div className="my-6 relative">
-            <div className="absolute inset-0 flex items-center">
-              <div className="w-full border-t border-neutral-300"></div>
-            </div>
-            <div className="relative flex justify-center text-sm">
-              <span className="px-4 bg-white text-neutral-600 font-mono uppercase">
-                Or
-              </span>
+              Sign in with Google
+            </SecondaryButton>
+
+            <div className="mt-6 text-center">
+              <p className="text-sm text-neutral-600 font-mono">
+                Don't have an account?{' '}
+                <Link
+                  href="/register"
+                  className="text-primary hover:underline"
+                >
+                  Register
+                </Link>
+              </p>
             </div>
-          </div>
-
-          <SecondaryButton
-            type="button"
-            onClick={handleGoogleLogin}
-            className="w-full"
-          >
-            Sign in with Google
-          </SecondaryButton>
-
-          <div className="mt-6 text-center">
-            <p className="text-sm text-neutral-600 font-mono">
-              Don't have an account?{' '}
-              <Link
-                href="/register"
-                className="text-primary hover:underline"
-              >
-                Register
-              </Link>
-            </p>
-          </div>
-        </Card>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,114 @@
+'use client';
+
+import React, { Suspense, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { Card } from '@/components/ui/Card';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+import { resetPasswordSchema, type ResetPasswordFormData } from '@/lib/validations/auth';
+import { authApi } from '@/lib/api/authApi';
+
+function ResetPasswordForm() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [error, setError] = useState<string>('');
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isDone, setIsDone] = useState<boolean>(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+  });
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    if (!token) return;
+
+    try {
+      setIsLoading(true);
+      setError('');
+      await authApi.resetPassword(token, data.password);
+      setIsDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset password');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!token || isDone) {
+    return (
+      <div className="space-y-6">
+        <p className={`text-sm font-mono ${isDone ? 'text-neutral-700' : 'text-red-500'}`}>
+          {isDone
+            ? 'Your password has been reset. You have been signed out everywhere else.'
+            : 'This reset link is invalid. Request a new one.'}
+        </p>
+        <Link
+          href={isDone ? '/login' : '/forgot-password'}
+          className="text-sm font-mono text-primary hover:underline"
+        >
+          {isDone ? 'Go to Log In' : 'Request a Reset Link'}
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-500 rounded-[2px] p-4">
+          <p className="text-sm text-red-500 font-mono">{error}</p>
+        </div>
+      )}
+
+      <Input
+        label="New Password"
+        type="password"
+        placeholder="At least 8 characters"
+        error={errors.password?.message}
+        {...register('password')}
+      />
+
+      <Input
+        label="Confirm Password"
+        type="password"
+        placeholder="Re-enter your password"
+        error={errors.confirmPassword?.message}
+        {...register('confirmPassword')}
+      />
+
+      <Button type="submit" disabled={isLoading} className="w-full">
+        {isLoading ? 'Resetting...' : 'Reset Password'}
+      </Button>
+    </form>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-neutral-100">
+      <div className="w-full max-w-md px-4">
+        <div className="text-center mb-8">
+          <h1 className="text-[52px] font-normal leading-tight text-neutral-700 mb-2 uppercase">
+            School Portal
+          </h1>
+          <p className="text-base text-neutral-600">Choose a new password</p>
+        </div>
+
+        <Card>
+          <Suspense
+            fallback={<p className="text-sm font-mono text-neutral-600 text-center">Loading...</p>}
+          >
+            <ResetPasswordForm />
+          </Suspense>
+        </Card>
+      </div>
+    </div>
+  );
+}
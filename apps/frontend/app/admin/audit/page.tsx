@@ -0,0 +1,288 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRequireAuth } from '@/contexts/AuthContext';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { adminApi } from '@/lib/api/adminApi';
+import type {
+  AuditAction,
+  AuditEvent,
+  AuditEventQueryParams,
+  AuditTargetType,
+} from '@/types/admin';
+
+const PAGE_SIZE = 50;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  user_updated: 'User updated',
+  user_suspended: 'User suspended',
+  user_unsuspended: 'User unsuspended',
+  user_deleted: 'User deleted',
+  class_deleted: 'Class deleted',
+  students_transferred: 'Students transferred',
+  grade_posted: 'Grade posted',
+  grade_updated: 'Grade updated',
+  grade_returned: 'Grade returned',
+  permission_granted: 'Permission granted',
+  permission_revoked: 'Permission revoked',
+  refresh_token_reused: 'Refresh token reused',
+  mfa_reset: 'MFA reset',
+};
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined
+    ? '—'
+    : typeof value === 'object'
+      ? JSON.stringify(value)
+      : String(value);
+
+/**
+ * Fields whose value differs between the before and after snapshots
+ */
+const describeChanges = (event: AuditEvent) => {
+  const before = event.before ?? {};
+  const after = event.after ?? {};
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return keys
+    .filter((key) => formatValue(before[key]) !== formatValue(after[key]))
+    .map((key) => ({ key, from: formatValue(before[key]), to: formatValue(after[key]) }));
+};
+
+export default function AdminAuditPage() {
+  const { user, isLoading: authLoading } = useRequireAuth(['admin']);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filters, applied on submit
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [targetType, setTargetType] = useState<AuditTargetType | ''>('');
+  const [targetId, setTargetId] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [filters, setFilters] = useState<AuditEventQueryParams>({});
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const result = await adminApi.getAuditEvents({ ...filters, page, limit: PAGE_SIZE });
+        setEvents(result.events);
+        setTotal(result.total);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load audit log');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (user) {
+      fetchEvents();
+    }
+  }, [user, filters, page]);
+
+  const handleFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setFilters({
+      ...(action && { action }),
+      ...(targetType && { targetType }),
+      ...(targetId.trim() && { targetId: targetId.trim() }),
+      // Date inputs are whole local days
+      ...(fromDate && { from: new Date(`${fromDate}T00:00:00`).toISOString() }),
+      ...(toDate && { to: new Date(`${toDate}T23:59:59.999`).toISOString() }),
+    });
+  };
+
+  const handleReset = () => {
+    setAction('');
+    setTargetType('');
+    setTargetId('');
+    setFromDate('');
+    setToDate('');
+    setPage(1);
+    setFilters({});
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-neutral-100">
+        <p className="text-lg font-mono text-neutral-700">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-100 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-[52px] font-normal leading-tight text-neutral-700 uppercase">
+              Audit Log
+            </h1>
+            <p className="text-base text-neutral-600 mt-2">
+              {total} {total === 1 ? 'event' : 'events'}
+            </p>
+          </div>
+          <Link
+            href="/admin/dashboard"
+            className="text-sm font-mono text-neutral-700 hover:text-neutral-900 uppercase flex items-center"
+          >
+            ← Back
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-[2px]">
+            <p className="text-sm font-mono text-red-700">{error}</p>
+          </div>
+        )}
+
+        <Card className="mb-6">
+          <form onSubmit={handleFilter} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-mono text-neutral-700 mb-2 uppercase">
+                Action
+              </label>
+              <select
+                aria-label="Action"
+                value={action}
+                onChange={(e) => setAction(e.target.value as AuditAction | '')}
+                className="w-full px-4 py-3 border border-neutral-300 rounded-[2px] font-mono text-base text-neutral-700 focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">All actions</option>
+                {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-mono text-neutral-700 mb-2 uppercase">
+                Target Type
+              </label>
+              <select
+                aria-label="Target Type"
+                value={targetType}
+                onChange={(e) => setTargetType(e.target.value as AuditTargetType | '')}
+                className="w-full px-4 py-3 border border-neutral-300 rounded-[2px] font-mono text-base text-neutral-700 focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">All targets</option>
+                <option value="user">User</option>
+                <option value="class">Class</option>
+                <option value="submission">Submission</option>
+              </select>
+            </div>
+            <Input
+              label="Target ID"
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+            />
+            <Input
+              label="From"
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+            />
+            <Input
+              label="To"
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+            />
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isLoading}>
+                Filter
+              </Button>
+              <Button type="button" variant="secondary" onClick={handleReset}>
+                Reset
+              </Button>
+            </div>
+          </form>
+        </Card>
+
+        <Card>
+          {isLoading ? (
+            <p className="text-sm font-mono text-neutral-600 py-4">Loading...</p>
+          ) : events.length === 0 ? (
+            <p className="text-sm font-mono text-neutral-600 py-4">No matching events.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm font-mono text-neutral-700">
+                <thead>
+                  <tr className="border-b border-neutral-300 uppercase text-left">
+                    <th className="py-2 pr-4">Time</th>
+                    <th className="py-2 pr-4">Actor</th>
+                    <th className="py-2 pr-4">Action</th>
+                    <th className="py-2 pr-4">Target</th>
+                    <th className="py-2">Changes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {events.map((event) => (
+                    <tr key={event.id} className="border-b border-neutral-200 align-top">
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        {new Date(event.createdAt).toLocaleString()}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {event.actor ? event.actor.email : event.actorId ? 'Deleted user' : 'System'}
+                      </td>
+                      <td className="py-2 pr-4">{ACTION_LABELS[event.action]}</td>
+                      <td className="py-2 pr-4">
+                        <span className="uppercase text-xs text-neutral-500">
+                          {event.targetType}
+                        </span>
+                        <br />
+                        <span className="text-xs break-all">{event.targetId}</span>
+                      </td>
+                      <td className="py-2 text-xs">
+                        {describeChanges(event).map((change) => (
+                          <p key={change.key}>
+                            <span className="text-neutral-500">{change.key}:</span> {change.from}{' '}
+                            → {change.to}
+                          </p>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {pageCount > 1 && (
+            <div className="flex justify-between items-center mt-4">
+              <Button
+                variant="secondary"
+                onClick={() => setPage(page - 1)}
+                disabled={isLoading || page <= 1}
+              >
+                ← Previous
+              </Button>
+              <p className="text-sm font-mono text-neutral-600">
+                Page {page} of {pageCount}
+              </p>
+              <Button
+                variant="secondary"
+                onClick={() => setPage(page + 1)}
+                disabled={isLoading || page >= pageCount}
+              >
+                Next →
+              </Button>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
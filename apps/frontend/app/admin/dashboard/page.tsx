@@ -67,7 +67,15 @@ export default function AdminDashboard() {
             </h1>
             <p className="text-base text-neutral-600 mt-2">Welcome back, {user?.name}</p>
           </div>
-          <LogoutButton />
+          <div className="flex items-center gap-6">
+            <Link
+              href="/settings/security"
+              className="text-sm font-mono text-neutral-700 hover:text-neutral-900 uppercase"
+            >
+              Security
+            </Link>
+            <LogoutButton />
+          </div>
         </div>
 
         {/* Quick Stats */}
@@ -132,10 +140,36 @@ export default function AdminDashboard() {
             <h2 className="text-xl font-mono text-neutral-700 uppercase mb-4">
               Teacher Groups
             </h2>
-            <p className="text-sm text-neutral-600 font-mono mb-4">
-              Organize teachers into groups and manage permissions
+            <p className="text-sm text-neutral-600 font-mono mb-6">
+              Organize teachers into groups and manage membership
             </p>
-            <p className="text-sm text-neutral-400 font-mono mt-4">Coming in Phase 3</p>
+            <Link href="/admin/teacher-groups">
+              <Button>Manage Groups →</Button>
+            </Link>
+          </Card>
+
+          <Card>
+            <h2 className="text-xl font-mono text-neutral-700 uppercase mb-4">
+              Invitations
+            </h2>
+            <p className="text-sm text-neutral-600 font-mono mb-6">
+              Invite teachers and admins to create their accounts
+            </p>
+            <Link href="/admin/invitations">
+              <Button>Manage Invitations →</Button>
+            </Link>
+          </Card>
+
+          <Card>
+            <h2 className="text-xl font-mono text-neutral-700 uppercase mb-4">
+              Audit Log
+            </h2>
+            <p className="text-sm text-neutral-600 font-mono mb-6">
+              Review account, class and grading changes and who made them
+            </p>
+            <Link href="/admin/audit">
+              <Button>View Audit Log →</Button>
+            </Link>
           </Card>
 
           <Card>
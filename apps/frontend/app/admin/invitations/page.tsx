@@ -0,0 +1,199 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRequireAuth } from '@/contexts/AuthContext';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { adminApi } from '@/lib/api/adminApi';
+import type { Role } from '@/types/auth';
+import type { Invitation } from '@/types/admin';
+
+const inviteLink = (token: string) => `${window.location.origin}/invite/${token}`;
+
+export default function AdminInvitationsPage() {
+  const { user, isLoading: authLoading } = useRequireAuth(['admin']);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Invite form
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<Role>('teacher');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchInvitations = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        setInvitations(await adminApi.getInvitations());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load invitations');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (user) {
+      fetchInvitations();
+    }
+  }, [user]);
+
+  // Send invitation
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const invitation = await adminApi.createInvitation({
+        email: email.trim(),
+        role,
+        ...(name.trim() && { name: name.trim() }),
+      });
+      setInvitations([invitation, ...invitations]);
+      setEmail('');
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create invitation');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Revoke invitation
+  const handleRevoke = async (token: string) => {
+    try {
+      setError(null);
+      await adminApi.revokeInvitation(token);
+      setInvitations(invitations.filter((i) => i.token !== token));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke invitation');
+    }
+  };
+
+  const handleCopy = async (token: string) => {
+    await navigator.clipboard.writeText(inviteLink(token));
+    setCopiedToken(token);
+  };
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-neutral-100">
+        <p className="text-lg font-mono text-neutral-700">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-100 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-[52px] font-normal leading-tight text-neutral-700 uppercase">
+              Invitations
+            </h1>
+            <p className="text-base text-neutral-600 mt-2">
+              {invitations.length} pending{' '}
+              {invitations.length === 1 ? 'invitation' : 'invitations'}
+            </p>
+          </div>
+          <Link
+            href="/admin/dashboard"
+            className="text-sm font-mono text-neutral-700 hover:text-neutral-900 uppercase flex items-center"
+          >
+            ← Back
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-[2px]">
+            <p className="text-sm font-mono text-red-700">{error}</p>
+          </div>
+        )}
+
+        <Card className="mb-6">
+          <h2 className="text-xl font-mono text-neutral-700 uppercase mb-4">Invite Someone</h2>
+          <form onSubmit={handleInvite} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <Input
+              label="Email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="new.teacher@school.edu"
+              required
+            />
+            <Input
+              label="Name (optional)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <div>
+              <label className="block text-sm font-mono text-neutral-700 mb-2 uppercase">
+                Role
+              </label>
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as Role)}
+                className="w-full px-4 py-3 border border-neutral-300 rounded-[2px] font-mono text-base text-neutral-700 focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="teacher">Teacher</option>
+                <option value="admin">Admin</option>
+                <option value="student">Student</option>
+              </select>
+            </div>
+            <Button type="submit" disabled={isSubmitting || !email.trim()}>
+              {isSubmitting ? 'Inviting...' : 'Send Invitation'}
+            </Button>
+          </form>
+        </Card>
+
+        <Card>
+          <h2 className="text-xl font-mono text-neutral-700 uppercase mb-4">Pending</h2>
+          {invitations.length === 0 ? (
+            <p className="text-sm font-mono text-neutral-600 py-4">No pending invitations.</p>
+          ) : (
+            <div className="space-y-3">
+              {invitations.map((invitation) => (
+                <div
+                  key={invitation.token}
+                  className="flex justify-between items-center p-3 bg-neutral-50 rounded-[2px] border border-neutral-200"
+                >
+                  <div>
+                    <p className="text-sm font-mono text-neutral-700">
+                      {invitation.email}
+                      {invitation.name && ` (${invitation.name})`}
+                    </p>
+                    <p className="text-xs text-neutral-500 font-mono uppercase">
+                      {invitation.role} • Expires{' '}
+                      {new Date(invitation.expiresAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleCopy(invitation.token)}
+                      className="text-xs font-mono text-neutral-700 hover:text-neutral-900 uppercase px-3 py-1 border border-neutral-300 rounded-[2px]"
+                    >
+                      {copiedToken === invitation.token ? 'Copied' : 'Copy Link'}
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(invitation.token)}
+                      className="text-xs font-mono text-red-600 hover:text-red-700 uppercase px-3 py-1 border border-red-300 rounded-[2px]"
+                    >
+                      Revoke
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
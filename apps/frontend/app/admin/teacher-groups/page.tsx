@@ -0,0 +1,444 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRequireAuth } from '@/contexts/AuthContext';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { adminApi } from '@/lib/api/adminApi';
+import type { AdminUser, TeacherGroup, TeacherGroupMember } from '@/types/admin';
+
+export default function AdminTeacherGroupsPage() {
+  const { user, isLoading: authLoading } = useRequireAuth(['admin']);
+  const [groups, setGroups] = useState<TeacherGroup[]>([]);
+  const [teachers, setTeachers] = useState<AdminUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Selected group and its members
+  const [selectedGroup, setSelectedGroup] = useState<TeacherGroup | null>(null);
+  const [members, setMembers] = useState<TeacherGroupMember[]>([]);
+  const [membersLoading, setMembersLoading] = useState(false);
+  const [teacherToAdd, setTeacherToAdd] = useState('');
+
+  // Modal states
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [groupName, setGroupName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Fetch groups and teachers
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const [groupData, teacherData] = await Promise.all([
+          adminApi.getTeacherGroups({ limit: 100 }),
+          adminApi.getUsers({ role: 'teacher', suspended: false, limit: 100 }),
+        ]);
+        setGroups(groupData);
+        setTeachers(teacherData);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load teacher groups');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (user) {
+      fetchData();
+    }
+  }, [user]);
+
+  // Fetch members of the selected group
+  useEffect(() => {
+    const fetchMembers = async () => {
+      if (!selectedGroup) return;
+
+      try {
+        setMembersLoading(true);
+        setError(null);
+        const data = await adminApi.getTeacherGroupMembers(selectedGroup.id);
+        setMembers(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load members');
+      } finally {
+        setMembersLoading(false);
+      }
+    };
+
+    fetchMembers();
+  }, [selectedGroup]);
+
+  // Create group
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!groupName.trim()) {
+      setError('Group name is required');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const newGroup = await adminApi.createTeacherGroup({ name: groupName.trim() });
+      setGroups([...groups, newGroup].sort((a, b) => a.name.localeCompare(b.name)));
+      setShowCreateModal(false);
+      setGroupName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create group');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Rename group
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedGroup) return;
+
+    if (!groupName.trim()) {
+      setError('Group name is required');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const updatedGroup = await adminApi.updateTeacherGroup(selectedGroup.id, {
+        name: groupName.trim(),
+      });
+      setGroups(groups.map((g) => (g.id === updatedGroup.id ? updatedGroup : g)));
+      setSelectedGroup(updatedGroup);
+      setShowEditModal(false);
+      setGroupName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update group');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Delete group
+  const handleDelete = async () => {
+    if (!selectedGroup) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      await adminApi.deleteTeacherGroup(selectedGroup.id);
+      setGroups(groups.filter((g) => g.id !== selectedGroup.id));
+      setShowDeleteModal(false);
+      setSelectedGroup(null);
+      setMembers([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete group');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Add member
+  const handleAddMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedGroup || !teacherToAdd) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      await adminApi.addTeacherGroupMember(selectedGroup.id, teacherToAdd);
+      const data = await adminApi.getTeacherGroupMembers(selectedGroup.id);
+      setMembers(data);
+      setTeacherToAdd('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add member');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Remove member
+  const handleRemoveMember = async (teacherId: string) => {
+    if (!selectedGroup) return;
+
+    try {
+      setError(null);
+      await adminApi.removeTeacherGroupMember(selectedGroup.id, teacherId);
+      setMembers(members.filter((m) => m.id !== teacherId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove member');
+    }
+  };
+
+  const availableTeachers = teachers.filter((t) => !members.some((m) => m.id === t.id));
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-neutral-100">
+        <p className="text-lg font-mono text-neutral-700">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-100 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-[52px] font-normal leading-tight text-neutral-700 uppercase">
+              Teacher Groups
+            </h1>
+            <p className="text-base text-neutral-600 mt-2">
+              {groups.length} {groups.length === 1 ? 'group' : 'groups'}
+            </p>
+          </div>
+          <div className="flex gap-4">
+            <Button
+              onClick={() => {
+                setGroupName('');
+                setShowCreateModal(true);
+              }}
+            >
+              Create Group
+            </Button>
+            <Link
+              href="/admin/dashboard"
+              className="text-sm font-mono text-neutral-700 hover:text-neutral-900 uppercase flex items-center"
+            >
+              ← Back
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-[2px]">
+            <p className="text-sm font-mono text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Groups List */}
+          <Card>
+            <h2 className="text-xl font-mono text-neutral-700 uppercase mb-4">Groups</h2>
+            {groups.length === 0 ? (
+              <p className="text-sm font-mono text-neutral-600 py-4">
+                No teacher groups yet. Create one to get started.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {groups.map((group) => (
+                  <li key={group.id}>
+                    <button
+                      onClick={() => setSelectedGroup(group)}
+                      className={`w-full text-left px-3 py-2 text-sm font-mono rounded-[2px] border ${
+                        selectedGroup?.id === group.id
+                          ? 'border-primary bg-neutral-50 text-neutral-900'
+                          : 'border-neutral-200 text-neutral-700 hover:bg-neutral-50'
+                      }`}
+                    >
+                      {group.name}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+
+          {/* Selected Group */}
+          <Card className="lg:col-span-2">
+            {!selectedGroup ? (
+              <p className="text-base font-mono text-neutral-600 text-center py-8">
+                Select a group to manage its members.
+              </p>
+            ) : (
+              <>
+                <div className="flex justify-between items-center mb-4">
+                  <h2 className="text-xl font-mono text-neutral-700 uppercase">
+                    {selectedGroup.name}
+                  </h2>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => {
+                        setGroupName(selectedGroup.name);
+                        setShowEditModal(true);
+                      }}
+                      className="text-xs font-mono text-neutral-700 hover:text-neutral-900 uppercase px-2 py-1 border border-neutral-300 rounded-[2px]"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      onClick={() => setShowDeleteModal(true)}
+                      className="text-xs font-mono text-red-600 hover:text-red-700 uppercase px-2 py-1 border border-red-300 rounded-[2px]"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                <form onSubmit={handleAddMember} className="flex gap-2 mb-6">
+                  <select
+                    value={teacherToAdd}
+                    onChange={(e) => setTeacherToAdd(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-neutral-300 rounded-[2px] font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    <option value="">Select a teacher...</option>
+                    {availableTeachers.map((teacher) => (
+                      <option key={teacher.id} value={teacher.id}>
+                        {teacher.name} ({teacher.email})
+                      </option>
+                    ))}
+                  </select>
+                  <Button type="submit" disabled={isSubmitting || !teacherToAdd}>
+                    {isSubmitting ? 'Adding...' : 'Add Member'}
+                  </Button>
+                </form>
+
+                {membersLoading ? (
+                  <p className="text-sm font-mono text-neutral-600 text-center py-4">
+                    Loading members...
+                  </p>
+                ) : members.length === 0 ? (
+                  <p className="text-sm font-mono text-neutral-600 text-center py-4">
+                    This group has no members yet.
+                  </p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-neutral-200">
+                          <th className="text-left py-3 px-4 text-xs font-mono text-neutral-600 uppercase">
+                            Name
+                          </th>
+                          <th className="text-left py-3 px-4 text-xs font-mono text-neutral-600 uppercase">
+                            Email
+                          </th>
+                          <th className="text-left py-3 px-4 text-xs font-mono text-neutral-600 uppercase">
+                            Joined
+                          </th>
+                          <th className="text-right py-3 px-4 text-xs font-mono text-neutral-600 uppercase">
+                            Actions
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {members.map((member) => (
+                          <tr
+                            key={member.id}
+                            className="border-b border-neutral-100 hover:bg-neutral-50"
+                          >
+                            <td className="py-3 px-4 text-sm font-mono text-neutral-700">
+                              {member.name}
+                            </td>
+                            <td className="py-3 px-4 text-sm font-mono text-neutral-600">
+                              {member.email}
+                            </td>
+                            <td className="py-3 px-4 text-sm font-mono text-neutral-500">
+                              {new Date(member.joinedAt).toLocaleDateString()}
+                            </td>
+                            <td className="py-3 px-4 text-right">
+                              <button
+                                onClick={() => handleRemoveMember(member.id)}
+                                className="text-xs font-mono text-red-600 hover:text-red-700 uppercase px-2 py-1 border border-red-300 rounded-[2px]"
+                              >
+                                Remove
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
+            )}
+          </Card>
+        </div>
+      </div>
+
+      {/* Create / Rename Modal */}
+      {(showCreateModal || (showEditModal && selectedGroup)) && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-[2px] p-6 max-w-md w-full">
+            <h2 className="text-2xl font-mono text-neutral-700 uppercase mb-4">
+              {showCreateModal ? 'Create Teacher Group' : 'Rename Group'}
+            </h2>
+            <form onSubmit={showCreateModal ? handleCreate : handleUpdate}>
+              <div className="mb-6">
+                <label className="block text-sm font-mono text-neutral-700 mb-2">Name *</label>
+                <Input
+                  type="text"
+                  value={groupName}
+                  onChange={(e) => setGroupName(e.target.value)}
+                  placeholder="e.g. Science Department"
+                  required
+                />
+              </div>
+              <div className="flex gap-3">
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? 'Saving...' : showCreateModal ? 'Create' : 'Save'}
+                </Button>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={() => {
+                    setShowCreateModal(false);
+                    setShowEditModal(false);
+                    setGroupName('');
+                    setError(null);
+                  }}
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {showDeleteModal && selectedGroup && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-[2px] p-6 max-w-md w-full">
+            <h2 className="text-2xl font-mono text-neutral-700 uppercase mb-4">Delete Group</h2>
+            <p className="text-sm font-mono text-neutral-600 mb-6">
+              Are you sure you want to delete "{selectedGroup.name}"? All memberships in this
+              group will be removed. Teacher accounts are not affected.
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={handleDelete}
+                disabled={isSubmitting}
+                className="flex-1 bg-red-600 text-white font-mono text-sm uppercase px-4 py-2 rounded-[2px] hover:bg-red-700 disabled:opacity-50"
+              >
+                {isSubmitting ? 'Deleting...' : 'Delete'}
+              </button>
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => {
+                  setShowDeleteModal(false);
+                  setError(null);
+                }}
+                disabled={isSubmitting}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,14 +6,18 @@ import { useRequireAuth } from '@/contexts/AuthContext';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { RosterCsvImport } from '@/components/RosterCsvImport';
+import { UserPermissionManager } from '@/components/UserPermissionManager';
+import { MfaRequiredRoles } from '@/components/MfaRequiredRoles';
 import { adminApi } from '@/lib/api/adminApi';
 import type {
   AdminUser,
   CreateUserRequest,
   UpdateUserRequest,
+  UserPermissions,
   UserQueryParams,
 } from '@/types/admin';
-import type { Role } from '@/types/auth';
+import type { MfaStatus, Role } from '@/types/auth';
 
 export default function AdminUsersPage() {
   const { user, isLoading: authLoading } = useRequireAuth(['admin']);
@@ -30,7 +34,11 @@ export default function AdminUsersPage() {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [selectedUser, setSelectedUser] = useState<AdminUser | null>(null);
+  const [permissions, setPermissions] = useState<UserPermissions | null>(null);
+  const [mfaStatus, setMfaStatus] = useState<MfaStatus | null>(null);
+  const [mfaRequiredRoles, setMfaRequiredRoles] = useState<Role[] | null>(null);
 
   // Form states
   const [formData, setFormData] = useState<CreateUserRequest>({
@@ -68,6 +76,19 @@ export default function AdminUsersPage() {
     }
   }, [user, roleFilter, suspendedFilter]);
 
+  // Import a roster, then reload so created student accounts are listed
+  const handleImportRoster = async (csv: string) => {
+    const result = await adminApi.importRoster(csv);
+
+    const params: UserQueryParams = {};
+    if (roleFilter) params.role = roleFilter;
+    if (suspendedFilter === 'active') params.suspended = false;
+    if (suspendedFilter === 'suspended') params.suspended = true;
+    setUsers(await adminApi.getUsers(params));
+
+    return result;
+  };
+
   // Search users by email
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -244,6 +265,71 @@ export default function AdminUsersPage() {
     setShowDeleteModal(true);
   };
 
+  // Open permissions modal
+  const openPermissionsModal = async (userItem: AdminUser) => {
+    try {
+      setError(null);
+      setSelectedUser(userItem);
+      setPermissions(await adminApi.getUserPermissions(userItem.id));
+    } catch (err) {
+      setSelectedUser(null);
+      setError(err instanceof Error ? err.message : 'Failed to load permissions');
+    }
+  };
+
+  const handleGrantPermission = async (permission: string) => {
+    if (!selectedUser) return;
+    await adminApi.grantPermission(selectedUser.id, permission);
+    setPermissions(await adminApi.getUserPermissions(selectedUser.id));
+  };
+
+  const handleRevokePermission = async (permission: string) => {
+    if (!selectedUser) return;
+    await adminApi.revokePermission(selectedUser.id, permission);
+    setPermissions(await adminApi.getUserPermissions(selectedUser.id));
+  };
+
+  // Open MFA modal
+  const openMfaModal = async (userItem: AdminUser) => {
+    try {
+      setError(null);
+      setSelectedUser(userItem);
+      setMfaStatus(await adminApi.getUserMfa(userItem.id));
+    } catch (err) {
+      setSelectedUser(null);
+      setError(err instanceof Error ? err.message : 'Failed to load MFA status');
+    }
+  };
+
+  const handleResetMfa = async () => {
+    if (!selectedUser) return;
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await adminApi.resetUserMfa(selectedUser.id);
+      setMfaStatus(await adminApi.getUserMfa(selectedUser.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset MFA');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Open the modal for roles that must use MFA
+  const openMfaRolesModal = async () => {
+    try {
+      setError(null);
+      setMfaRequiredRoles(await adminApi.getMfaRequiredRoles());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load MFA settings');
+    }
+  };
+
+  const handleSaveMfaRoles = async (roles: Role[]) => {
+    await adminApi.setMfaRequiredRoles(roles);
+    setMfaRequiredRoles(null);
+  };
+
   if (authLoading || isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-neutral-100">
@@ -265,6 +351,12 @@ export default function AdminUsersPage() {
             </p>
           </div>
           <div className="flex gap-4">
+            <Button variant="secondary" onClick={() => setShowImportModal(true)}>
+              Import Roster
+            </Button>
+            <Button variant="secondary" onClick={openMfaRolesModal}>
+              MFA Policy
+            </Button>
             <Button onClick={() => setShowCreateModal(true)}>Create User</Button>
             <Link
               href="/admin/dashboard"
@@ -411,6 +503,18 @@ export default function AdminUsersPage() {
                           >
                             Edit
                           </button>
+                          <button
+                            onClick={() => openPermissionsModal(userItem)}
+                            className="text-xs font-mono text-neutral-700 hover:text-neutral-900 uppercase px-2 py-1 border border-neutral-300 rounded-[2px]"
+                          >
+                            Permissions
+                          </button>
+                          <button
+                            onClick={() => openMfaModal(userItem)}
+                            className="text-xs font-mono text-neutral-700 hover:text-neutral-900 uppercase px-2 py-1 border border-neutral-300 rounded-[2px]"
+                          >
+                            MFA
+                          </button>
                           {userItem.suspended ? (
                             <button
                               onClick={() => handleUnsuspend(userItem.id)}
@@ -443,6 +547,21 @@ export default function AdminUsersPage() {
         )}
       </div>
 
+      {/* Roster Import Modal */}
+      {showImportModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-[2px] p-6 max-w-2xl w-full">
+            <h2 className="text-2xl font-mono text-neutral-700 uppercase mb-4">Import Roster</h2>
+            <RosterCsvImport onImport={handleImportRoster} />
+            <div className="flex gap-3 mt-6">
+              <Button variant="secondary" onClick={() => setShowImportModal(false)}>
+                Close
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Create Modal */}
       {showCreateModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -595,6 +714,90 @@ export default function AdminUsersPage() {
         </div>
       )}
 
+      {/* Permissions Modal */}
+      {permissions && selectedUser && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-[2px] p-6 max-w-2xl w-full">
+            <h2 className="text-2xl font-mono text-neutral-700 uppercase mb-1">Permissions</h2>
+            <p className="text-sm font-mono text-neutral-600 mb-4">
+              {selectedUser.name} ({selectedUser.email}) • {selectedUser.role}
+            </p>
+            <UserPermissionManager
+              permissions={permissions}
+              onGrant={handleGrantPermission}
+              onRevoke={handleRevokePermission}
+            />
+            <div className="flex gap-3 mt-6">
+              <Button
+                variant="secondary"
+                onClick={() => {
+                  setPermissions(null);
+                  setSelectedUser(null);
+                }}
+              >
+                Close
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* MFA Modal */}
+      {mfaStatus && selectedUser && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-[2px] p-6 max-w-md w-full">
+            <h2 className="text-2xl font-mono text-neutral-700 uppercase mb-1">
+              Two-Factor Authentication
+            </h2>
+            <p className="text-sm font-mono text-neutral-600 mb-4">
+              {selectedUser.name} ({selectedUser.email}) • {selectedUser.role}
+            </p>
+            <p className="text-sm font-mono text-neutral-700">
+              {mfaStatus.enabled
+                ? `Enabled${mfaStatus.enabledAt ? ` since ${new Date(mfaStatus.enabledAt).toLocaleDateString()}` : ''} · ${mfaStatus.recoveryCodesRemaining} recovery codes left`
+                : 'Not enabled'}
+            </p>
+            {mfaStatus.required && (
+              <p className="text-xs font-mono text-neutral-500 mt-1">
+                Required for {selectedUser.role} accounts
+              </p>
+            )}
+            {error && <p className="text-sm font-mono text-red-700 mt-4">{error}</p>}
+            <div className="flex gap-3 mt-6">
+              {mfaStatus.enabled && (
+                <Button onClick={handleResetMfa} disabled={isSubmitting}>
+                  {isSubmitting ? 'Resetting...' : 'Reset MFA'}
+                </Button>
+              )}
+              <Button
+                variant="secondary"
+                onClick={() => {
+                  setMfaStatus(null);
+                  setSelectedUser(null);
+                }}
+              >
+                Close
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* MFA Policy Modal */}
+      {mfaRequiredRoles && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-[2px] p-6 max-w-md w-full">
+            <h2 className="text-2xl font-mono text-neutral-700 uppercase mb-4">MFA Policy</h2>
+            <MfaRequiredRoles roles={mfaRequiredRoles} onSave={handleSaveMfaRoles} />
+            <div className="flex gap-3 mt-6">
+              <Button variant="secondary" onClick={() => setMfaRequiredRoles(null)}>
+                Close
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteModal && selectedUser && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
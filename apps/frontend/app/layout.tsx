@@ -2,6 +2,7 @@ import type { Metadata } from 'next';
 import './globals.css';
 import { Providers } from './providers';
 import { Chatbot } from '@/components/Chatbot';
+import { NotificationBell } from '@/components/NotificationBell';
 
 export const metadata: Metadata = {
   title: 'School Portal - Concentrate.ai',
@@ -17,6 +18,7 @@ export default function RootLayout({
     <html lang="en">
       <body>
         <Providers>
+          <NotificationBell />
           {children}
           <Chatbot />
         </Providers>
@@ -0,0 +1,138 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRequireAuth } from '@/contexts/AuthContext';
+import { Card } from '@/components/ui/Card';
+import { SessionList } from '@/components/SessionList';
+import { MfaSettings } from '@/components/MfaSettings';
+import { authApi } from '@/lib/api/authApi';
+import type { ActiveSession, MfaStatus } from '@/types/auth';
+
+export default function SecuritySettingsPage() {
+  const { user, isLoading: authLoading } = useRequireAuth();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [mfaStatus, setMfaStatus] = useState<MfaStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const [activeSessions, mfa] = await Promise.all([
+          authApi.getSessions(),
+          authApi.getMfaStatus(),
+        ]);
+        setSessions(activeSessions);
+        setMfaStatus(mfa);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load sessions');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (user) {
+      fetchSessions();
+    }
+  }, [user]);
+
+  const handleRevoke = async (session: ActiveSession) => {
+    await authApi.revokeSession(session.id);
+
+    // The server cleared this browser's cookies
+    if (session.current) {
+      window.location.href = '/login';
+      return;
+    }
+    setSessions((prev) => prev.filter((s) => s.id !== session.id));
+  };
+
+  const refreshMfaStatus = async () => {
+    setMfaStatus(await authApi.getMfaStatus());
+  };
+
+  const handleConfirmMfa = async (code: string) => {
+    const recoveryCodes = await authApi.confirmMfaEnrollment(code);
+    await refreshMfaStatus();
+    return recoveryCodes;
+  };
+
+  const handleRegenerateRecoveryCodes = async (code: string) => {
+    const recoveryCodes = await authApi.regenerateRecoveryCodes(code);
+    await refreshMfaStatus();
+    return recoveryCodes;
+  };
+
+  const handleDisableMfa = async (code: string) => {
+    await authApi.disableMfa(code);
+    await refreshMfaStatus();
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-neutral-100">
+        <p className="text-lg font-mono text-neutral-700">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-100 p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-[52px] font-normal leading-tight text-neutral-700 uppercase">
+              Security
+            </h1>
+            <p className="text-base text-neutral-600 mt-2">
+              Two-factor authentication and devices where you are logged in
+            </p>
+          </div>
+          <Link
+            href={user ? `/${user.role}/dashboard` : '/'}
+            className="text-sm font-mono text-neutral-700 hover:text-neutral-900 uppercase flex items-center"
+          >
+            ← Back
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-[2px]">
+            <p className="text-sm font-mono text-red-700">{error}</p>
+          </div>
+        )}
+
+        <Card className="mb-6">
+          <h2 className="text-xl font-mono text-neutral-700 uppercase mb-4">
+            Two-Factor Authentication
+          </h2>
+          {isLoading ? (
+            <p className="text-sm font-mono text-neutral-600 py-4">Loading...</p>
+          ) : (
+            mfaStatus && (
+              <MfaSettings
+                status={mfaStatus}
+                onStartEnrollment={authApi.startMfaEnrollment}
+                onConfirm={handleConfirmMfa}
+                onRegenerate={handleRegenerateRecoveryCodes}
+                onDisable={handleDisableMfa}
+              />
+            )
+          )}
+        </Card>
+
+        <Card>
+          <h2 className="text-xl font-mono text-neutral-700 uppercase mb-4">Active Sessions</h2>
+          {isLoading ? (
+            <p className="text-sm font-mono text-neutral-600 py-4">Loading...</p>
+          ) : (
+            <SessionList sessions={sessions} onRevoke={handleRevoke} />
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
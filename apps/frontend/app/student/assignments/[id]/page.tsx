@@ -6,9 +6,20 @@ import { useParams, useRouter } from 'next/navigation';
 import { useRequireAuth } from '@/contexts/AuthContext';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
-import { Input } from '@/components/ui/Input';
+import { SubmissionHistory } from '@/components/SubmissionHistory';
 import { studentApi } from '@/lib/api/studentApi';
-import type { Assignment } from '@/types/student';
+import type { Assignment, Submission } from '@/types/student';
+
+// Mirrors UPLOAD_LIMITS / ALLOWED_UPLOAD_MIME_TYPES enforced by the API
+const MAX_FILES = 5;
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+const ALLOWED_FILE_TYPES = '.pdf,.doc,.docx,.ppt,.pptx,.xls,.xlsx,.zip,.txt,.csv,.png,.jpg,.jpeg,.gif';
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
 
 export default function AssignmentDetailPage() {
   const { user, isLoading: authLoading } = useRequireAuth(['student']);
@@ -17,8 +28,9 @@ export default function AssignmentDetailPage() {
   const assignmentId = params.id as string;
 
   const [assignment, setAssignment] = useState<Assignment | null>(null);
+  const [submission, setSubmission] = useState<Submission | null>(null);
   const [content, setContent] = useState('');
-  const [fileUrl, setFileUrl] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -28,8 +40,16 @@ export default function AssignmentDetailPage() {
     const fetchAssignment = async () => {
       try {
         setIsLoading(true);
-        const data = await studentApi.getAssignmentById(assignmentId);
+        const [data, existingSubmission] = await Promise.all([
+          studentApi.getAssignmentById(assignmentId),
+          studentApi.getOwnSubmission(assignmentId),
+        ]);
         setAssignment(data);
+        setSubmission(existingSubmission);
+        // Start revisions from the returned content
+        if (existingSubmission?.returnedAt) {
+          setContent(existingSubmission.content);
+        }
         setError(null);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load assignment');
@@ -51,19 +71,38 @@ export default function AssignmentDetailPage() {
       return;
     }
 
+    if (files.length > MAX_FILES) {
+      setError(`You can attach at most ${MAX_FILES} files`);
+      return;
+    }
+
+    const oversized = files.find((file) => file.size > MAX_FILE_SIZE);
+    if (oversized) {
+      setError(`${oversized.name} exceeds the ${formatFileSize(MAX_FILE_SIZE)} limit`);
+      return;
+    }
+
     try {
       setIsSubmitting(true);
       setError(null);
 
-      await studentApi.submitAssignment({
-        assignmentId,
-        content: content.trim(),
-        fileUrl: fileUrl.trim() || undefined,
-      });
+      // Returned submissions are revised in place; each update is stored as a new version
+      const saved = submission
+        ? await studentApi.updateSubmission(submission.id, { content: content.trim() })
+        : await studentApi.submitAssignment({
+            assignmentId,
+            content: content.trim(),
+          });
+
+      if (files.length > 0) {
+        await studentApi.uploadAttachments(saved.id, files);
+      }
 
-      setSuccess('Assignment submitted successfully!');
+      setSuccess(
+        submission ? 'Revision submitted successfully!' : 'Assignment submitted successfully!'
+      );
       setContent('');
-      setFileUrl('');
+      setFiles([]);
 
       // Redirect to assignments page after 2 seconds
       setTimeout(() => {
@@ -109,6 +148,22 @@ export default function AssignmentDetailPage() {
   }
 
   const overdue = isOverdue(assignment.dueDate);
+  const pastCutoff = assignment.lateCutoff !== null && isOverdue(assignment.lateCutoff);
+  const isRevision = submission?.returnedAt != null;
+  const submissionClosed =
+    (submission !== null && !isRevision) ||
+    (!isRevision && overdue && (assignment.latePolicy === 'reject' || pastCutoff));
+
+  const latePolicyText = () => {
+    if (assignment.latePolicy === 'reject') return 'Late submissions are not accepted';
+    const cutoff = assignment.lateCutoff
+      ? ` until ${new Date(assignment.lateCutoff).toLocaleDateString()}`
+      : '';
+    if (assignment.latePolicy === 'penalty') {
+      return `Late submissions accepted${cutoff} with a ${assignment.latePenaltyPerDay}% penalty per day late`;
+    }
+    return `Late submissions accepted${cutoff}`;
+  };
 
   return (
     <div className="min-h-screen bg-neutral-100 p-8">
@@ -158,12 +213,38 @@ export default function AssignmentDetailPage() {
               Due: {new Date(assignment.dueDate).toLocaleDateString()} at{' '}
               {new Date(assignment.dueDate).toLocaleTimeString()}
             </span>
+            <span>{latePolicyText()}</span>
+            <span>{assignment.maxPoints} points</span>
           </div>
         </Card>
 
         <Card>
           <h3 className="text-xl font-mono text-neutral-700 uppercase mb-6">Your Submission</h3>
 
+          {isRevision && (
+            <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-[2px]">
+              <p className="text-sm font-mono text-yellow-800">
+                Your teacher returned this submission for revision. Update it below and resubmit.
+              </p>
+            </div>
+          )}
+
+          {submission && !isRevision && (
+            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-[2px]">
+              <p className="text-sm font-mono text-green-700">
+                Submitted on {new Date(submission.submittedAt).toLocaleString()}.
+              </p>
+            </div>
+          )}
+
+          {submissionClosed && !submission && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-[2px]">
+              <p className="text-sm font-mono text-red-700">
+                This assignment no longer accepts submissions.
+              </p>
+            </div>
+          )}
+
           <form onSubmit={handleSubmit}>
             <div className="mb-6">
               <label htmlFor="content" className="block text-sm font-mono text-neutral-700 mb-2">
@@ -181,25 +262,36 @@ export default function AssignmentDetailPage() {
             </div>
 
             <div className="mb-6">
-              <label htmlFor="fileUrl" className="block text-sm font-mono text-neutral-700 mb-2">
-                File URL (Optional)
+              <label htmlFor="files" className="block text-sm font-mono text-neutral-700 mb-2">
+                Attachments (Optional)
               </label>
-              <Input
-                id="fileUrl"
-                type="url"
-                value={fileUrl}
-                onChange={(e) => setFileUrl(e.target.value)}
-                placeholder="https://example.com/your-file.pdf"
+              <input
+                id="files"
+                type="file"
+                multiple
+                accept={ALLOWED_FILE_TYPES}
+                onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
                 disabled={isSubmitting}
+                className="block w-full text-sm font-mono text-neutral-700 file:mr-4 file:px-4 file:py-2 file:border-0 file:rounded-[2px] file:bg-neutral-200 file:text-neutral-700 file:font-mono file:text-sm file:uppercase"
               />
+              {files.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {files.map((file) => (
+                    <li key={file.name} className="text-xs font-mono text-neutral-600">
+                      {file.name} ({formatFileSize(file.size)})
+                    </li>
+                  ))}
+                </ul>
+              )}
               <p className="text-xs font-mono text-neutral-500 mt-2">
-                Provide a URL to any supporting files (Google Drive, Dropbox, etc.)
+                Up to {MAX_FILES} files, {formatFileSize(MAX_FILE_SIZE)} each (PDF, Office documents,
+                text, images, ZIP)
               </p>
             </div>
 
             <div className="flex gap-4">
-              <Button type="submit" disabled={isSubmitting || !content.trim()}>
-                {isSubmitting ? 'Submitting...' : 'Submit Assignment'}
+              <Button type="submit" disabled={isSubmitting || submissionClosed || !content.trim()}>
+                {isSubmitting ? 'Submitting...' : isRevision ? 'Resubmit' : 'Submit Assignment'}
               </Button>
               <Link href="/student/assignments">
                 <Button type="button" variant="secondary" disabled={isSubmitting}>
@@ -209,6 +301,18 @@ export default function AssignmentDetailPage() {
             </div>
           </form>
         </Card>
+
+        {submission && (
+          <Card className="mt-6">
+            <h3 className="text-xl font-mono text-neutral-700 uppercase mb-6">Version History</h3>
+            <SubmissionHistory
+              submissionId={submission.id}
+              maxPoints={assignment.maxPoints}
+              loadVersions={studentApi.getSubmissionVersions}
+              loadDiff={studentApi.diffSubmissionVersions}
+            />
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,153 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useRequireAuth } from '@/contexts/AuthContext';
+import { Card } from '@/components/ui/Card';
+import { studentApi } from '@/lib/api/studentApi';
+import type { Lesson } from '@/types/student';
+
+/**
+ * Group lessons (already ordered by the API) into modules
+ */
+function groupByModule(lessons: Lesson[]): { key: string; name: string; lessons: Lesson[] }[] {
+  const groups: { key: string; name: string; lessons: Lesson[] }[] = [];
+  for (const lesson of lessons) {
+    const key = `${lesson.modulePosition}:${lesson.moduleName ?? ''}`;
+    let group = groups.find((m) => m.key === key);
+    if (!group) {
+      group = {
+        key,
+        name: lesson.moduleName || `Module ${lesson.modulePosition + 1}`,
+        lessons: [],
+      };
+      groups.push(group);
+    }
+    group.lessons.push(lesson);
+  }
+  return groups;
+}
+
+export default function StudentLessonsPage() {
+  const params = useParams();
+  const classId = params.id as string;
+  const { user, isLoading: authLoading } = useRequireAuth(['student']);
+
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [selectedLesson, setSelectedLesson] = useState<Lesson | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchLessons = async () => {
+      try {
+        setIsLoading(true);
+        const data = await studentApi.getLessons(classId);
+        setLessons(data);
+        setSelectedLesson(data[0] ?? null);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load lessons');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (user && classId) {
+      fetchLessons();
+    }
+  }, [user, classId]);
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-neutral-100">
+        <p className="text-lg font-mono text-neutral-700">Loading...</p>
+      </div>
+    );
+  }
+
+  const groups = groupByModule(lessons);
+
+  return (
+    <div className="min-h-screen bg-neutral-100 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-[52px] font-normal leading-tight text-neutral-700 uppercase">
+              Lessons
+            </h1>
+            <p className="text-base text-neutral-600 mt-2">
+              {lessons.length} {lessons.length === 1 ? 'lesson' : 'lessons'} available
+            </p>
+          </div>
+          <Link
+            href="/student/classes"
+            className="text-sm font-mono text-neutral-700 hover:text-neutral-900 uppercase"
+          >
+            ← Back to Classes
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-[2px]">
+            <p className="text-sm font-mono text-red-700">{error}</p>
+          </div>
+        )}
+
+        {lessons.length === 0 && !error && (
+          <Card>
+            <p className="text-base font-mono text-neutral-600 text-center py-8">
+              No lessons have been published yet.
+            </p>
+          </Card>
+        )}
+
+        {lessons.length > 0 && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card>
+              {groups.map((group) => (
+                <div key={group.key} className="mb-6 last:mb-0">
+                  <h2 className="text-sm font-mono text-neutral-500 uppercase mb-2">
+                    {group.name}
+                  </h2>
+                  <div className="space-y-1">
+                    {group.lessons.map((lesson) => (
+                      <button
+                        key={lesson.id}
+                        onClick={() => setSelectedLesson(lesson)}
+                        className={`w-full text-left px-3 py-2 text-sm font-mono rounded-[2px] ${
+                          selectedLesson?.id === lesson.id
+                            ? 'bg-neutral-700 text-white'
+                            : 'text-neutral-700 hover:bg-neutral-100'
+                        }`}
+                      >
+                        {lesson.title}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </Card>
+
+            {selectedLesson && (
+              <Card className="lg:col-span-2">
+                <h2 className="text-2xl font-mono text-neutral-700 uppercase mb-2">
+                  {selectedLesson.title}
+                </h2>
+                {selectedLesson.publishedAt && (
+                  <p className="text-xs text-neutral-500 font-mono mb-6">
+                    Published {new Date(selectedLesson.publishedAt).toLocaleDateString()}
+                  </p>
+                )}
+                <p className="text-sm text-neutral-700 font-mono whitespace-pre-wrap">
+                  {selectedLesson.content}
+                </p>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
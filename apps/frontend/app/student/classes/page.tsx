@@ -4,6 +4,8 @@ import React, { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { useRequireAuth } from '@/contexts/AuthContext';
 import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
 import { studentApi } from '@/lib/api/studentApi';
 import type { Class } from '@/types/student';
 
@@ -12,6 +14,9 @@ export default function MyClassesPage() {
   const [classes, setClasses] = useState<Class[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [joinCode, setJoinCode] = useState('');
+  const [isJoining, setIsJoining] = useState(false);
+  const [joinError, setJoinError] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchClasses = async () => {
@@ -32,6 +37,23 @@ export default function MyClassesPage() {
     }
   }, [user]);
 
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!joinCode.trim()) return;
+
+    try {
+      setIsJoining(true);
+      setJoinError(null);
+      const joined = await studentApi.joinClass(joinCode.trim());
+      setClasses([...classes, joined]);
+      setJoinCode('');
+    } catch (err) {
+      setJoinError(err instanceof Error ? err.message : 'Failed to join class');
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
   if (authLoading || isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-neutral-100">
@@ -66,6 +88,24 @@ export default function MyClassesPage() {
           </div>
         )}
 
+        <Card className="mb-6">
+          <form onSubmit={handleJoin} className="flex items-end gap-3">
+            <div className="flex-1">
+              <Input
+                label="Join a Class"
+                value={joinCode}
+                onChange={(e) => setJoinCode(e.target.value)}
+                placeholder="Enter the code from your teacher"
+                maxLength={16}
+              />
+            </div>
+            <Button type="submit" disabled={isJoining || !joinCode.trim()}>
+              {isJoining ? 'Joining...' : 'Join'}
+            </Button>
+          </form>
+          {joinError && <p className="mt-3 text-sm font-mono text-red-700">{joinError}</p>}
+        </Card>
+
         {classes.length === 0 && !error && (
           <Card>
             <p className="text-base font-mono text-neutral-600 text-center py-8">
@@ -95,6 +135,12 @@ export default function MyClassesPage() {
                 >
                   View Assignments →
                 </Link>
+                <Link
+                  href={`/student/classes/${classItem.id}/lessons`}
+                  className="block mt-2 text-sm font-mono text-primary hover:text-primary-400 uppercase"
+                >
+                  View Lessons →
+                </Link>
               </div>
             </Card>
           ))}
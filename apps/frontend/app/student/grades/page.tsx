@@ -1,24 +1,37 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import Link from 'next/link';
 import { useRequireAuth } from '@/contexts/AuthContext';
 import { Card } from '@/components/ui/Card';
 import { studentApi } from '@/lib/api/studentApi';
-import type { GradeWithSubmission } from '@/types/student';
+import { useRealtimeEvents } from '@/lib/realtime';
+import type { Class, CourseGrade, GradeWithSubmission } from '@/types/student';
 
 export default function GradesPage() {
   const { user, isLoading: authLoading } = useRequireAuth(['student']);
   const [grades, setGrades] = useState<GradeWithSubmission[]>([]);
+  const [courseGrades, setCourseGrades] = useState<CourseGrade[]>([]);
+  const [classes, setClasses] = useState<Class[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const fetchGrades = useCallback(async () => {
+    const [data, courseGradesData, classesData] = await Promise.all([
+      studentApi.getGrades(),
+      studentApi.getCourseGrades(),
+      studentApi.getClasses(),
+    ]);
+    setGrades(data);
+    setCourseGrades(courseGradesData);
+    setClasses(classesData);
+  }, []);
+
   useEffect(() => {
-    const fetchGrades = async () => {
+    const loadGrades = async () => {
       try {
         setIsLoading(true);
-        const data = await studentApi.getGrades();
-        setGrades(data);
+        await fetchGrades();
         setError(null);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load grades');
@@ -28,22 +41,32 @@ export default function GradesPage() {
     };
 
     if (user) {
-      fetchGrades();
+      loadGrades();
+    }
+  }, [user, fetchGrades]);
+
+  const releasedCount = grades.filter((g) => g.grade !== null).length;
+  const pendingCount = grades.length - releasedCount;
+
+  // Pick up grades as teachers post, change or release them
+  useRealtimeEvents((event) => {
+    if (event.type === 'grade_posted' || event.type === 'grade_updated') {
+      fetchGrades().catch(() => {
+        // Keep showing the loaded grades
+      });
     }
-  }, [user]);
+  }, !!user);
 
-  const calculateAverage = () => {
-    if (grades.length === 0) return null;
-    const sum = grades.reduce((acc, { grade }) => acc + Number(grade.grade), 0);
-    return (sum / grades.length).toFixed(2);
+  const getClassName = (classId: string) => {
+    return classes.find((c) => c.id === classId)?.name || 'Unknown Class';
   };
 
-  const getGradeColor = (grade: string | number) => {
-    const numGrade = Number(grade);
-    if (numGrade >= 90) return 'text-green-600';
-    if (numGrade >= 80) return 'text-green-500';
-    if (numGrade >= 70) return 'text-primary';
-    if (numGrade >= 60) return 'text-yellow-600';
+  // Color by percent so grades out of any max points compare alike
+  const getGradeColor = (percent: number) => {
+    if (percent >= 90) return 'text-green-600';
+    if (percent >= 80) return 'text-green-500';
+    if (percent >= 70) return 'text-primary';
+    if (percent >= 60) return 'text-yellow-600';
     return 'text-red-600';
   };
 
@@ -55,8 +78,6 @@ export default function GradesPage() {
     );
   }
 
-  const averageGrade = calculateAverage();
-
   return (
     <div className="min-h-screen bg-neutral-100 p-8">
       <div className="max-w-6xl mx-auto">
@@ -66,8 +87,8 @@ export default function GradesPage() {
               My Grades
             </h1>
             <p className="text-base text-neutral-600 mt-2">
-              {grades.length} {grades.length === 1 ? 'grade' : 'grades'} received
-              {averageGrade && ` • Average: ${averageGrade}%`}
+              {releasedCount} {releasedCount === 1 ? 'grade' : 'grades'} received
+              {pendingCount > 0 && ` • ${pendingCount} pending release`}
             </p>
           </div>
           <Link
@@ -92,23 +113,99 @@ export default function GradesPage() {
           </Card>
         )}
 
+        {courseGrades.some((c) => c.courseGrade !== null) && (
+          <div className="mb-8 space-y-4">
+            <h2 className="text-2xl font-mono text-neutral-700 uppercase">Course Grades</h2>
+            {courseGrades
+              .filter((c) => c.courseGrade !== null)
+              .map((courseGrade) => (
+                <Card key={courseGrade.classId}>
+                  <div className="flex items-center gap-4 mb-3">
+                    <h3 className="text-xl font-mono text-neutral-700 uppercase">
+                      {getClassName(courseGrade.classId)}
+                    </h3>
+                    <span
+                      className={`text-2xl font-mono font-bold ${getGradeColor(courseGrade.courseGrade!)}`}
+                    >
+                      {courseGrade.courseGrade}%
+                    </span>
+                  </div>
+                  <table className="w-full text-sm font-mono text-neutral-600">
+                    <tbody>
+                      {courseGrade.categories.map((category) => (
+                        <tr key={category.categoryId ?? 'uncategorized'} className="border-t border-neutral-200">
+                          <td className="py-2 pr-4 text-neutral-700">
+                            {category.name} ({category.weight}%)
+                          </td>
+                          <td className="py-2 pr-4">
+                            {category.pointsEarned}/{category.pointsPossible} pts
+                          </td>
+                          <td className="py-2 text-right">
+                            {category.percent === null ? '—' : `${category.percent}%`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </Card>
+              ))}
+          </div>
+        )}
+
         <div className="space-y-4">
-          {grades.map(({ submission, grade, assignment }) => (
-            <Card key={grade.id}>
+          {grades.map(({ submission, grade, assignment, rubricScores }) => (
+            <Card key={submission.id}>
               <div className="flex items-start justify-between">
                 <div className="flex-1">
                   <div className="flex items-center gap-4 mb-3">
                     <h2 className="text-xl font-mono text-neutral-700 uppercase">
                       {assignment.title}
                     </h2>
-                    <span
-                      className={`text-2xl font-mono font-bold ${getGradeColor(grade.grade)}`}
-                    >
-                      {grade.grade}%
-                    </span>
+                    {grade ? (
+                      <span
+                        className={`text-2xl font-mono font-bold ${getGradeColor(
+                          (Number(grade.grade) / assignment.maxPoints) * 100
+                        )}`}
+                      >
+                        {grade.grade}/{assignment.maxPoints}
+                      </span>
+                    ) : (
+                      <span className="px-2 py-1 bg-neutral-100 text-neutral-600 text-xs font-mono uppercase rounded-[2px]">
+                        Graded, pending release
+                      </span>
+                    )}
+                    {submission.isLate && (
+                      <span className="px-2 py-1 bg-red-100 text-red-700 text-xs font-mono uppercase rounded-[2px]">
+                        Late{submission.latePenalty > 0 && ` −${submission.latePenalty}%`}
+                      </span>
+                    )}
                   </div>
 
-                  {grade.feedback && (
+                  {rubricScores.length > 0 && (
+                    <div className="mb-4">
+                      <p className="text-sm font-mono text-neutral-700 uppercase mb-2">Rubric:</p>
+                      <table className="w-full text-sm font-mono text-neutral-600">
+                        <tbody>
+                          {rubricScores.map((score) => (
+                            <tr key={score.id} className="border-t border-neutral-200 align-top">
+                              <td className="py-2 pr-4 text-neutral-700">{score.criterionTitle}</td>
+                              <td className="py-2 pr-4">
+                                {score.levelLabel}
+                                {score.comment && (
+                                  <p className="text-xs text-neutral-500 whitespace-pre-wrap">
+                                    {score.comment}
+                                  </p>
+                                )}
+                              </td>
+                              <td className="py-2 text-right">{score.points} pts</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+
+                  {grade?.feedback && (
                     <div className="mb-4 p-3 bg-neutral-50 rounded-[2px]">
                       <p className="text-sm font-mono text-neutral-700 uppercase mb-2">
                         Teacher Feedback:
@@ -140,8 +237,12 @@ export default function GradesPage() {
 
                   <div className="flex items-center gap-4 text-xs font-mono text-neutral-500 mt-4">
                     <span>Submitted: {new Date(submission.submittedAt).toLocaleDateString()}</span>
-                    <span>•</span>
-                    <span>Graded: {new Date(grade.gradedAt).toLocaleDateString()}</span>
+                    {grade && (
+                      <>
+                        <span>•</span>
+                        <span>Graded: {new Date(grade.gradedAt).toLocaleDateString()}</span>
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
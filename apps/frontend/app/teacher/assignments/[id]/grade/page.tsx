@@ -7,9 +7,21 @@ import { useRequireAuth } from '@/contexts/AuthContext';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { SubmissionHistory } from '@/components/SubmissionHistory';
+import { GradeRevisionHistory } from '@/components/GradeRevisionHistory';
+import { RubricEditor } from '@/components/RubricEditor';
+import { GradeCsvImport } from '@/components/GradeCsvImport';
 import { teacherApi } from '@/lib/api/teacherApi';
 import { apiClient } from '@/lib/apiClient';
-import type { Assignment, Submission, Grade } from '@/types/teacher';
+import { useRealtimeEvents } from '@/lib/realtime';
+import type {
+  Assignment,
+  Submission,
+  Grade,
+  SubmissionAttachment,
+  RubricCriterion,
+  SetRubricRequest,
+} from '@/types/teacher';
 
 interface SubmissionWithStudent extends Submission {
   student?: {
@@ -18,6 +30,7 @@ interface SubmissionWithStudent extends Submission {
     email: string;
   };
   grade?: Grade;
+  attachments?: SubmissionAttachment[];
 }
 
 type FilterType = 'all' | 'graded' | 'ungraded';
@@ -38,7 +51,14 @@ export default function GradeAssignmentPage() {
   const [gradingSubmissionId, setGradingSubmissionId] = useState<string | null>(null);
   const [gradeValue, setGradeValue] = useState<number>(0);
   const [feedback, setFeedback] = useState<string>('');
+  const [reason, setReason] = useState<string>('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [historySubmissionId, setHistorySubmissionId] = useState<string | null>(null);
+
+  // Rubric states; selected level per criterion while grading with the rubric
+  const [rubric, setRubric] = useState<RubricCriterion[]>([]);
+  const [isEditingRubric, setIsEditingRubric] = useState(false);
+  const [selectedLevels, setSelectedLevels] = useState<Record<string, string>>({});
 
   // Fetch assignment and submissions
   useEffect(() => {
@@ -57,11 +77,20 @@ export default function GradeAssignmentPage() {
         }
 
         setAssignment(foundAssignment);
+        setRubric(await teacherApi.getRubric(assignmentId));
 
         // Fetch submissions for this assignment (includes student data)
         const submissionsData = await teacherApi.getSubmissionsByAssignment(assignmentId);
 
-        setSubmissions(submissionsData);
+        // Fetch uploaded files for each submission
+        const withAttachments = await Promise.all(
+          submissionsData.map(async (submission) => ({
+            ...submission,
+            attachments: await teacherApi.getSubmissionAttachments(submission.id),
+          }))
+        );
+
+        setSubmissions(withAttachments);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load data');
       } finally {
@@ -74,6 +103,34 @@ export default function GradeAssignmentPage() {
     }
   }, [user, assignmentId]);
 
+  // Show new and resubmitted work as students hand it in
+  useRealtimeEvents(async (event) => {
+    if (
+      (event.type !== 'submission_created' && event.type !== 'submission_updated') ||
+      event.assignmentId !== assignmentId
+    ) {
+      return;
+    }
+
+    try {
+      const [refreshed, attachments] = await Promise.all([
+        teacherApi.getSubmissionsByAssignment(assignmentId),
+        teacherApi.getSubmissionAttachments(event.submissionId),
+      ]);
+      setSubmissions((current) =>
+        refreshed.map((submission) => ({
+          ...submission,
+          attachments:
+            submission.id === event.submissionId
+              ? attachments
+              : current.find((s) => s.id === submission.id)?.attachments ?? [],
+        }))
+      );
+    } catch {
+      // The list catches up on the next event or reload
+    }
+  }, !!user);
+
   // Filter submissions
   useEffect(() => {
     let filtered = submissions;
@@ -89,8 +146,23 @@ export default function GradeAssignmentPage() {
 
   // Submit grade
   const handleGrade = async (submissionId: string) => {
-    if (gradeValue < 0 || gradeValue > 100) {
-      setError('Grade must be between 0 and 100');
+    const useRubric = rubric.length > 0;
+    const isRegrade = submissions.some((s) => s.id === submissionId && s.grade);
+    const needsReason = isRegrade && !!assignment?.gradesReleasedAt;
+
+    if (needsReason && !reason.trim()) {
+      setError('Give a reason for changing the grade');
+      return;
+    }
+
+    if (useRubric && rubric.some((criterion) => !selectedLevels[criterion.id])) {
+      setError('Select a level for every criterion');
+      return;
+    }
+
+    const maxPoints = assignment?.maxPoints ?? 100;
+    if (!useRubric && (gradeValue < 0 || gradeValue > maxPoints)) {
+      setError(`Grade must be between 0 and ${maxPoints}`);
       return;
     }
 
@@ -99,8 +171,16 @@ export default function GradeAssignmentPage() {
       setError(null);
 
       const newGrade = await teacherApi.gradeSubmission(submissionId, {
-        grade: gradeValue,
+        ...(useRubric
+          ? {
+              rubricScores: rubric.map((criterion) => ({
+                criterionId: criterion.id,
+                levelId: selectedLevels[criterion.id]!,
+              })),
+            }
+          : { grade: gradeValue }),
         feedback: feedback.trim() || null,
+        ...(isRegrade && reason.trim() && { reason: reason.trim() }),
       });
 
       // Update local state
@@ -118,7 +198,9 @@ export default function GradeAssignmentPage() {
       // Reset grading form
       setGradingSubmissionId(null);
       setGradeValue(0);
+      setSelectedLevels({});
       setFeedback('');
+      setReason('');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to submit grade');
     } finally {
@@ -126,9 +208,44 @@ export default function GradeAssignmentPage() {
     }
   };
 
+  // Show every grade of the assignment to its students
+  const handleRelease = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      setAssignment(await teacherApi.releaseGrades(assignmentId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to release grades');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Return a graded submission to the student for revision
+  const handleReturn = async (submissionId: string) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const returned = await teacherApi.returnSubmission(submissionId);
+
+      // Grade moves into the version history; submission is ungraded again
+      setSubmissions(
+        submissions.map((s) =>
+          s.id === submissionId ? { ...s, returnedAt: returned.returnedAt, grade: undefined } : s
+        )
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to return submission');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   // Start grading a submission
   const startGrading = (submission: SubmissionWithStudent) => {
     setGradingSubmissionId(submission.id);
+    setReason('');
     if (submission.grade) {
       setGradeValue(Number(submission.grade.grade));
       setFeedback(submission.grade.feedback || '');
@@ -142,10 +259,57 @@ export default function GradeAssignmentPage() {
   const cancelGrading = () => {
     setGradingSubmissionId(null);
     setGradeValue(0);
+    setSelectedLevels({});
     setFeedback('');
+    setReason('');
     setError(null);
   };
 
+  // Save the rubric; the API refuses once it has been used for grading
+  const handleSaveRubric = async (data: SetRubricRequest) => {
+    setRubric(await teacherApi.setRubric(assignmentId, data));
+    setIsEditingRubric(false);
+  };
+
+  const handleDeleteRubric = async () => {
+    try {
+      setError(null);
+      await teacherApi.deleteRubric(assignmentId);
+      setRubric([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove rubric');
+    }
+  };
+
+  // Import grades from CSV, then refresh grades while keeping loaded attachments
+  const handleImportCsv = async (csv: string, reason?: string) => {
+    const result = await teacherApi.importGradesCsv(assignmentId, {
+      csv,
+      ...(reason && { reason }),
+    });
+    const refreshed = await teacherApi.getSubmissionsByAssignment(assignmentId);
+    setSubmissions(
+      refreshed.map((submission) => ({
+        ...submission,
+        attachments: submissions.find((s) => s.id === submission.id)?.attachments ?? [],
+      }))
+    );
+    return result.imported;
+  };
+
+  // Points the selected levels are worth, mirroring the server-side calculation
+  const rubricPreview = () => {
+    let earned = 0;
+    let possible = 0;
+    for (const criterion of rubric) {
+      const level = criterion.levels.find((l) => l.id === selectedLevels[criterion.id]);
+      earned += level ? Number(level.points) : 0;
+      possible += Math.max(...criterion.levels.map((l) => Number(l.points)));
+    }
+    const maxPoints = assignment?.maxPoints ?? 100;
+    return possible === 0 ? 0 : Math.round((earned / possible) * maxPoints * 100) / 100;
+  };
+
   if (authLoading || isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-neutral-100">
@@ -202,6 +366,88 @@ export default function GradeAssignmentPage() {
           <p className="text-sm text-neutral-600 font-mono">{assignment.description}</p>
         </Card>
 
+        {/* Grade Release */}
+        <Card className="mb-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-lg font-mono text-neutral-700 uppercase mb-2">Grade Release</h2>
+              <p className="text-sm text-neutral-600 font-mono">
+                {assignment.gradesReleasedAt
+                  ? `Released ${new Date(assignment.gradesReleasedAt).toLocaleString()}. New grades are visible to students right away.`
+                  : 'Grades are hidden from students until you release them.'}
+              </p>
+            </div>
+            {!assignment.gradesReleasedAt && (
+              <Button onClick={handleRelease} disabled={isSubmitting}>
+                Release {gradedCount} {gradedCount === 1 ? 'Grade' : 'Grades'}
+              </Button>
+            )}
+          </div>
+        </Card>
+
+        {/* Rubric */}
+        <Card className="mb-6">
+          <div className="flex justify-between items-center mb-2">
+            <h2 className="text-lg font-mono text-neutral-700 uppercase">Rubric</h2>
+            {!isEditingRubric && (
+              <div className="flex gap-3">
+                {rubric.length > 0 && (
+                  <button
+                    onClick={handleDeleteRubric}
+                    className="text-sm font-mono text-red-600 hover:text-red-700 uppercase"
+                  >
+                    Remove
+                  </button>
+                )}
+                <button
+                  onClick={() => setIsEditingRubric(true)}
+                  className="text-sm font-mono text-primary hover:text-primary-400 uppercase"
+                >
+                  {rubric.length > 0 ? 'Edit Rubric' : 'Add Rubric'}
+                </button>
+              </div>
+            )}
+          </div>
+          {isEditingRubric ? (
+            <RubricEditor
+              rubric={rubric}
+              onSave={handleSaveRubric}
+              onCancel={() => setIsEditingRubric(false)}
+            />
+          ) : rubric.length === 0 ? (
+            <p className="text-sm text-neutral-500 font-mono">
+              No rubric. Submissions are graded with a single score.
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {rubric.map((criterion) => (
+                <li key={criterion.id} className="text-sm font-mono text-neutral-600">
+                  <span className="text-neutral-700">{criterion.title}</span>
+                  {' — '}
+                  {criterion.levels.map((level) => `${level.label} (${level.points})`).join(' / ')}
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+
+        {/* Grade CSV */}
+        <Card className="mb-6">
+          <div className="flex justify-between items-center mb-2">
+            <h2 className="text-lg font-mono text-neutral-700 uppercase">Grades CSV</h2>
+            <a
+              href={teacherApi.getAssignmentGradesCsvUrl(assignmentId)}
+              className="text-sm font-mono text-primary hover:text-primary-400 uppercase"
+            >
+              Export CSV ↓
+            </a>
+          </div>
+          <GradeCsvImport
+            onPreview={(csv) => teacherApi.importGradesCsv(assignmentId, { csv, dryRun: true })}
+            onImport={handleImportCsv}
+          />
+        </Card>
+
         {/* Filter */}
         <div className="mb-6">
           <div className="flex gap-2">
@@ -264,16 +510,28 @@ export default function GradeAssignmentPage() {
                 {/* Student Info */}
                 <div className="flex justify-between items-start">
                   <div>
-                    <h3 className="text-base font-mono text-neutral-700">
-                      {submission.student?.name || 'Unknown Student'}
-                    </h3>
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-base font-mono text-neutral-700">
+                        {submission.student?.name || 'Unknown Student'}
+                      </h3>
+                      {submission.returnedAt && (
+                        <span className="px-2 py-1 bg-yellow-100 text-yellow-800 text-xs font-mono uppercase rounded-[2px]">
+                          Returned
+                        </span>
+                      )}
+                      {submission.isLate && (
+                        <span className="px-2 py-1 bg-red-100 text-red-700 text-xs font-mono uppercase rounded-[2px]">
+                          Late{submission.latePenalty > 0 && ` −${submission.latePenalty}%`}
+                        </span>
+                      )}
+                    </div>
                     <p className="text-xs text-neutral-500 font-mono">
                       Submitted: {new Date(submission.submittedAt).toLocaleString()}
                     </p>
                   </div>
                   {submission.grade && (
                     <div className="text-right">
-                      <p className="text-2xl font-mono text-primary">{submission.grade.grade}/100</p>
+                      <p className="text-2xl font-mono text-primary">{submission.grade.grade}/{assignment.maxPoints}</p>
                       <p className="text-xs text-neutral-500 font-mono">
                         Graded {new Date(submission.grade.gradedAt).toLocaleDateString()}
                       </p>
@@ -296,6 +554,19 @@ export default function GradeAssignmentPage() {
                       View Attachment →
                     </a>
                   )}
+                  {submission.attachments && submission.attachments.length > 0 && (
+                    <div className="mt-3 pt-3 border-t border-neutral-200 space-y-1">
+                      {submission.attachments.map((attachment) => (
+                        <a
+                          key={attachment.id}
+                          href={teacherApi.getAttachmentDownloadUrl(attachment.id)}
+                          className="block text-xs font-mono text-primary hover:text-primary-400"
+                        >
+                          {attachment.filename} ({Math.ceil(attachment.sizeBytes / 1024)} KB) ↓
+                        </a>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
                 {/* Existing Feedback */}
@@ -312,22 +583,55 @@ export default function GradeAssignmentPage() {
                     <h4 className="text-sm font-mono text-neutral-700 uppercase mb-3">
                       {submission.grade ? 'Update Grade' : 'Grade Submission'}
                     </h4>
-                    <div className="grid grid-cols-2 gap-4 mb-4">
-                      <div>
-                        <label className="block text-xs font-mono text-neutral-700 uppercase mb-2">
-                          Grade (0-100) *
-                        </label>
-                        <Input
-                          type="number"
-                          min="0"
-                          max="100"
-                          value={gradeValue}
-                          onChange={(e) => setGradeValue(Number(e.target.value))}
-                          placeholder="85"
-                          required
-                        />
+                    {rubric.length > 0 ? (
+                      <div className="space-y-3 mb-4">
+                        {rubric.map((criterion) => (
+                          <div key={criterion.id}>
+                            <label className="block text-xs font-mono text-neutral-700 uppercase mb-2">
+                              {criterion.title} *
+                            </label>
+                            <select
+                              aria-label={criterion.title}
+                              value={selectedLevels[criterion.id] ?? ''}
+                              onChange={(e) =>
+                                setSelectedLevels({
+                                  ...selectedLevels,
+                                  [criterion.id]: e.target.value,
+                                })
+                              }
+                              className="w-full px-3 py-2 border border-neutral-300 rounded-[2px] font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                            >
+                              <option value="">Select level</option>
+                              {criterion.levels.map((level) => (
+                                <option key={level.id} value={level.id}>
+                                  {level.label} ({level.points} pts)
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                        ))}
+                        <p className="text-sm font-mono text-neutral-700">
+                          Total: {rubricPreview()}/{assignment.maxPoints}
+                        </p>
                       </div>
-                    </div>
+                    ) : (
+                      <div className="grid grid-cols-2 gap-4 mb-4">
+                        <div>
+                          <label className="block text-xs font-mono text-neutral-700 uppercase mb-2">
+                            Grade (0-{assignment.maxPoints}) *
+                          </label>
+                          <Input
+                            type="number"
+                            min="0"
+                            max={assignment.maxPoints}
+                            value={gradeValue}
+                            onChange={(e) => setGradeValue(Number(e.target.value))}
+                            placeholder="85"
+                            required
+                          />
+                        </div>
+                      </div>
+                    )}
                     <div className="mb-4">
                       <label className="block text-xs font-mono text-neutral-700 uppercase mb-2">
                         Feedback (optional)
@@ -340,6 +644,20 @@ export default function GradeAssignmentPage() {
                         className="w-full px-3 py-2 border border-neutral-300 rounded-[2px] font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary"
                       />
                     </div>
+                    {submission.grade && assignment.gradesReleasedAt && (
+                      <div className="mb-4">
+                        <label className="block text-xs font-mono text-neutral-700 uppercase mb-2">
+                          Reason for change *
+                        </label>
+                        <Input
+                          value={reason}
+                          onChange={(e) => setReason(e.target.value)}
+                          placeholder="Missed a page while grading"
+                          maxLength={500}
+                          required
+                        />
+                      </div>
+                    )}
                     <div className="flex gap-3">
                       <Button onClick={() => handleGrade(submission.id)} disabled={isSubmitting}>
                         {isSubmitting ? 'Saving...' : 'Save Grade'}
@@ -354,12 +672,51 @@ export default function GradeAssignmentPage() {
                     </div>
                   </div>
                 ) : (
-                  <div className="flex justify-end">
+                  <div className="flex justify-end gap-3">
+                    <Button
+                      variant="secondary"
+                      onClick={() =>
+                        setHistorySubmissionId(
+                          historySubmissionId === submission.id ? null : submission.id
+                        )
+                      }
+                    >
+                      {historySubmissionId === submission.id ? 'Hide History' : 'History'}
+                    </Button>
+                    {submission.grade && (
+                      <Button
+                        variant="secondary"
+                        onClick={() => handleReturn(submission.id)}
+                        disabled={isSubmitting}
+                      >
+                        Return for Revision
+                      </Button>
+                    )}
                     <Button onClick={() => startGrading(submission)}>
                       {submission.grade ? 'Update Grade' : 'Grade'}
                     </Button>
                   </div>
                 )}
+
+                {/* Version History */}
+                {historySubmissionId === submission.id && (
+                  <div className="border-t border-neutral-200 pt-4">
+                    <SubmissionHistory
+                      submissionId={submission.id}
+                      maxPoints={assignment.maxPoints}
+                      loadVersions={teacherApi.getSubmissionVersions}
+                      loadDiff={teacherApi.diffSubmissionVersions}
+                    />
+                    <h4 className="text-xs font-mono text-neutral-500 uppercase mt-4 mb-2">
+                      Grade Changes
+                    </h4>
+                    <GradeRevisionHistory
+                      submissionId={submission.id}
+                      maxPoints={assignment.maxPoints}
+                      loadRevisions={teacherApi.getGradeRevisions}
+                    />
+                  </div>
+                )}
               </div>
             </Card>
           ))}
@@ -13,8 +13,22 @@ import type {
   CreateAssignmentRequest,
   UpdateAssignmentRequest,
   AssignmentStats,
+  AssignmentCategory,
+  LatePolicy,
 } from '@/types/teacher';
 
+const EMPTY_FORM: CreateAssignmentRequest = {
+  classId: '',
+  title: '',
+  description: '',
+  dueDate: '',
+  latePolicy: 'reject',
+  lateCutoff: '',
+  latePenaltyPerDay: 0,
+  maxPoints: 100,
+  categoryId: null,
+};
+
 export default function TeacherAssignmentsPage() {
   const { user, isLoading: authLoading } = useRequireAuth(['teacher']);
   const [assignments, setAssignments] = useState<Assignment[]>([]);
@@ -22,6 +36,7 @@ export default function TeacherAssignmentsPage() {
   const [filteredAssignments, setFilteredAssignments] = useState<Assignment[]>([]);
   const [selectedClassId, setSelectedClassId] = useState<string>('all');
   const [assignmentStats, setAssignmentStats] = useState<Map<string, AssignmentStats>>(new Map());
+  const [categories, setCategories] = useState<AssignmentCategory[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -32,12 +47,7 @@ export default function TeacherAssignmentsPage() {
   const [selectedAssignment, setSelectedAssignment] = useState<Assignment | null>(null);
 
   // Form states
-  const [formData, setFormData] = useState<CreateAssignmentRequest>({
-    classId: '',
-    title: '',
-    description: '',
-    dueDate: '',
-  });
+  const [formData, setFormData] = useState<CreateAssignmentRequest>(EMPTY_FORM);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Fetch assignments and classes
@@ -65,6 +75,12 @@ export default function TeacherAssignmentsPage() {
         const statsMap = new Map(statsResults.map((r) => [r.id, r.stats]));
         setAssignmentStats(statsMap);
 
+        // Fetch grade categories of every class for the form and list
+        const categoriesResults = await Promise.all(
+          classesData.map((classItem) => teacherApi.getCategories(classItem.id).catch(() => []))
+        );
+        setCategories(categoriesResults.flat());
+
         setError(null);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load data');
@@ -95,6 +111,28 @@ export default function TeacherAssignmentsPage() {
     return classItem?.name || 'Unknown Class';
   };
 
+  // Get category name by ID
+  const getCategoryName = (categoryId: string | null) => {
+    const category = categories.find((c) => c.id === categoryId);
+    return category ? `${category.name} (${category.weight}%)` : 'Uncategorized';
+  };
+
+  // Build late policy fields for create/update requests
+  const getLatePolicyPayload = (): Pick<
+    UpdateAssignmentRequest,
+    'latePolicy' | 'lateCutoff' | 'latePenaltyPerDay'
+  > => {
+    const latePolicy = formData.latePolicy || 'reject';
+    return {
+      latePolicy,
+      lateCutoff:
+        latePolicy !== 'reject' && formData.lateCutoff
+          ? new Date(formData.lateCutoff + 'T23:59:59.999Z').toISOString()
+          : null,
+      latePenaltyPerDay: latePolicy === 'penalty' ? formData.latePenaltyPerDay || 0 : 0,
+    };
+  };
+
   // Create assignment
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -116,11 +154,14 @@ export default function TeacherAssignmentsPage() {
         title: formData.title.trim(),
         description: formData.description.trim(),
         dueDate: dueDateTime,
+        ...getLatePolicyPayload(),
+        maxPoints: formData.maxPoints || 100,
+        categoryId: formData.categoryId || null,
       });
 
       setAssignments([...assignments, newAssignment]);
       setShowCreateModal(false);
-      setFormData({ classId: '', title: '', description: '', dueDate: '' });
+      setFormData(EMPTY_FORM);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create assignment');
     } finally {
@@ -148,6 +189,9 @@ export default function TeacherAssignmentsPage() {
         title: formData.title.trim(),
         description: formData.description.trim(),
         dueDate: dueDateTime,
+        ...getLatePolicyPayload(),
+        maxPoints: formData.maxPoints || 100,
+        categoryId: formData.categoryId || null,
       });
 
       setAssignments(
@@ -155,7 +199,7 @@ export default function TeacherAssignmentsPage() {
       );
       setShowEditModal(false);
       setSelectedAssignment(null);
-      setFormData({ classId: '', title: '', description: '', dueDate: '' });
+      setFormData(EMPTY_FORM);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update assignment');
     } finally {
@@ -190,6 +234,11 @@ export default function TeacherAssignmentsPage() {
       title: assignment.title,
       description: assignment.description,
       dueDate: assignment.dueDate.split('T')[0], // Convert to YYYY-MM-DD
+      latePolicy: assignment.latePolicy,
+      lateCutoff: assignment.lateCutoff ? assignment.lateCutoff.split('T')[0] : '',
+      latePenaltyPerDay: assignment.latePenaltyPerDay,
+      maxPoints: assignment.maxPoints,
+      categoryId: assignment.categoryId,
     });
     setShowEditModal(true);
   };
@@ -200,6 +249,98 @@ export default function TeacherAssignmentsPage() {
     setShowDeleteModal(true);
   };
 
+  // Describe late policy for the assignment list
+  const describeLatePolicy = (assignment: Assignment) => {
+    if (assignment.latePolicy === 'reject') return 'Late: not accepted';
+    const cutoff = assignment.lateCutoff
+      ? ` until ${new Date(assignment.lateCutoff).toLocaleDateString()}`
+      : '';
+    if (assignment.latePolicy === 'penalty') {
+      return `Late: -${assignment.latePenaltyPerDay}%/day${cutoff}`;
+    }
+    return `Late: accepted${cutoff}`;
+  };
+
+  // Late policy form fields shared by create and edit modals
+  const renderLatePolicyFields = () => (
+    <div className="mb-6">
+      <label className="block text-sm font-mono text-neutral-700 mb-2">Late Submissions</label>
+      <select
+        value={formData.latePolicy}
+        onChange={(e) =>
+          setFormData({ ...formData, latePolicy: e.target.value as LatePolicy })
+        }
+        className="w-full px-3 py-2 border border-neutral-300 rounded-[2px] font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+      >
+        <option value="reject">Not accepted</option>
+        <option value="allow">Accepted without penalty</option>
+        <option value="penalty">Accepted with penalty</option>
+      </select>
+      {formData.latePolicy === 'penalty' && (
+        <div className="mt-4">
+          <label className="block text-sm font-mono text-neutral-700 mb-2">
+            Penalty per day late (%)
+          </label>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            value={formData.latePenaltyPerDay}
+            onChange={(e) =>
+              setFormData({ ...formData, latePenaltyPerDay: Number(e.target.value) })
+            }
+          />
+        </div>
+      )}
+      {formData.latePolicy !== 'reject' && (
+        <div className="mt-4">
+          <label className="block text-sm font-mono text-neutral-700 mb-2">
+            Late cutoff (optional)
+          </label>
+          <Input
+            type="date"
+            value={formData.lateCutoff || ''}
+            onChange={(e) => setFormData({ ...formData, lateCutoff: e.target.value })}
+          />
+        </div>
+      )}
+    </div>
+  );
+
+  // Max points and category fields shared by create and edit modals
+  const renderGradingFields = () => {
+    const classCategories = categories.filter((c) => c.classId === formData.classId);
+    return (
+      <div className="mb-4 flex gap-4">
+        <div className="w-32">
+          <label className="block text-sm font-mono text-neutral-700 mb-2">Max Points</label>
+          <Input
+            type="number"
+            min={1}
+            max={999}
+            value={formData.maxPoints}
+            onChange={(e) => setFormData({ ...formData, maxPoints: Number(e.target.value) })}
+          />
+        </div>
+        <div className="flex-1">
+          <label className="block text-sm font-mono text-neutral-700 mb-2">Category</label>
+          <select
+            value={formData.categoryId || ''}
+            onChange={(e) => setFormData({ ...formData, categoryId: e.target.value || null })}
+            className="w-full px-3 py-2 border border-neutral-300 rounded-[2px] font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            <option value="">Uncategorized</option>
+            {classCategories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name} ({category.weight}%)
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+    );
+  };
+
   // Check if assignment is overdue
   const isOverdue = (dueDate: string) => {
     return new Date(dueDate) < new Date();
@@ -289,6 +430,9 @@ export default function TeacherAssignmentsPage() {
                     <div className="flex gap-4 text-xs text-neutral-500 font-mono">
                       <span>Class: {getClassName(assignment.classId)}</span>
                       <span>Due: {new Date(assignment.dueDate).toLocaleDateString()}</span>
+                      <span>{describeLatePolicy(assignment)}</span>
+                      <span>Points: {assignment.maxPoints}</span>
+                      <span>{getCategoryName(assignment.categoryId)}</span>
                       {assignmentStats.get(assignment.id) && (
                         <span>
                           Submissions: {assignmentStats.get(assignment.id)!.total} ({assignmentStats.get(assignment.id)!.graded} graded)
@@ -335,7 +479,9 @@ export default function TeacherAssignmentsPage() {
                 <label className="block text-sm font-mono text-neutral-700 mb-2">Class *</label>
                 <select
                   value={formData.classId}
-                  onChange={(e) => setFormData({ ...formData, classId: e.target.value })}
+                  onChange={(e) =>
+                    setFormData({ ...formData, classId: e.target.value, categoryId: null })
+                  }
                   className="w-full px-3 py-2 border border-neutral-300 rounded-[2px] font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary"
                   required
                 >
@@ -369,7 +515,7 @@ export default function TeacherAssignmentsPage() {
                   className="w-full px-3 py-2 border border-neutral-300 rounded-[2px] font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary"
                 />
               </div>
-              <div className="mb-6">
+              <div className="mb-4">
                 <label className="block text-sm font-mono text-neutral-700 mb-2">Due Date *</label>
                 <Input
                   type="date"
@@ -378,6 +524,8 @@ export default function TeacherAssignmentsPage() {
                   required
                 />
               </div>
+              {renderGradingFields()}
+              {renderLatePolicyFields()}
               <div className="flex gap-3">
                 <Button type="submit" disabled={isSubmitting}>
                   {isSubmitting ? 'Creating...' : 'Create'}
@@ -387,7 +535,7 @@ export default function TeacherAssignmentsPage() {
                   variant="secondary"
                   onClick={() => {
                     setShowCreateModal(false);
-                    setFormData({ classId: '', title: '', description: '', dueDate: '' });
+                    setFormData(EMPTY_FORM);
                     setError(null);
                   }}
                   disabled={isSubmitting}
@@ -439,7 +587,7 @@ export default function TeacherAssignmentsPage() {
                   className="w-full px-3 py-2 border border-neutral-300 rounded-[2px] font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary"
                 />
               </div>
-              <div className="mb-6">
+              <div className="mb-4">
                 <label className="block text-sm font-mono text-neutral-700 mb-2">Due Date *</label>
                 <Input
                   type="date"
@@ -448,6 +596,8 @@ export default function TeacherAssignmentsPage() {
                   required
                 />
               </div>
+              {renderGradingFields()}
+              {renderLatePolicyFields()}
               <div className="flex gap-3">
                 <Button type="submit" disabled={isSubmitting}>
                   {isSubmitting ? 'Updating...' : 'Update'}
@@ -458,7 +608,7 @@ export default function TeacherAssignmentsPage() {
                   onClick={() => {
                     setShowEditModal(false);
                     setSelectedAssignment(null);
-                    setFormData({ classId: '', title: '', description: '', dueDate: '' });
+                    setFormData(EMPTY_FORM);
                     setError(null);
                   }}
                   disabled={isSubmitting}
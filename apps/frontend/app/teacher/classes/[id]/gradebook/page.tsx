@@ -0,0 +1,118 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useRequireAuth } from '@/contexts/AuthContext';
+import { Card } from '@/components/ui/Card';
+import { GradebookTable } from '@/components/GradebookTable';
+import { teacherApi } from '@/lib/api/teacherApi';
+import type { BulkGradeRequest, Gradebook } from '@/types/teacher';
+
+// Matches the API limit on grades per bulk request
+const BULK_GRADE_LIMIT = 50;
+
+export default function ClassGradebookPage() {
+  const params = useParams();
+  const classId = params.id as string;
+  const { user, isLoading: authLoading } = useRequireAuth(['teacher']);
+
+  const [gradebook, setGradebook] = useState<Gradebook | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchGradebook = async () => {
+      try {
+        setIsLoading(true);
+        setGradebook(await teacherApi.getGradebook(classId));
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load gradebook');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (user && classId) {
+      fetchGradebook();
+    }
+  }, [user, classId]);
+
+  // Save edited cells, then reload so statuses and course grades are current
+  const handleSave = async (grades: BulkGradeRequest['grades'], reason?: string) => {
+    for (let i = 0; i < grades.length; i += BULK_GRADE_LIMIT) {
+      await teacherApi.bulkGradeSubmissions({
+        grades: grades.slice(i, i + BULK_GRADE_LIMIT),
+        ...(reason && { reason }),
+      });
+    }
+    setGradebook(await teacherApi.getGradebook(classId));
+  };
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-neutral-100">
+        <p className="text-lg font-mono text-neutral-700">Loading...</p>
+      </div>
+    );
+  }
+
+  const missingCount =
+    gradebook?.rows.flatMap((row) => row.cells).filter((cell) => cell.status === 'missing')
+      .length ?? 0;
+
+  return (
+    <div className="min-h-screen bg-neutral-100 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-[52px] font-normal leading-tight text-neutral-700 uppercase">
+              Gradebook
+            </h1>
+            {gradebook && (
+              <p className="text-base text-neutral-600 mt-2">
+                {gradebook.rows.length} {gradebook.rows.length === 1 ? 'student' : 'students'} •{' '}
+                {gradebook.assignments.length}{' '}
+                {gradebook.assignments.length === 1 ? 'assignment' : 'assignments'} •{' '}
+                {missingCount} missing
+              </p>
+            )}
+          </div>
+          <div className="flex gap-6">
+            <a
+              href={teacherApi.getGradebookCsvUrl(classId)}
+              className="text-sm font-mono text-primary hover:text-primary-400 uppercase"
+            >
+              Export CSV ↓
+            </a>
+            <Link
+              href={`/teacher/classes/${classId}`}
+              className="text-sm font-mono text-neutral-700 hover:text-neutral-900 uppercase"
+            >
+              ← Back to Class
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-[2px]">
+            <p className="text-sm font-mono text-red-700">{error}</p>
+          </div>
+        )}
+
+        {gradebook && (
+          <Card>
+            {gradebook.rows.length === 0 || gradebook.assignments.length === 0 ? (
+              <p className="text-base font-mono text-neutral-600 text-center py-8">
+                Enroll students and create assignments to fill the gradebook.
+              </p>
+            ) : (
+              <GradebookTable gradebook={gradebook} onSave={handleSave} />
+            )}
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,426 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useRequireAuth } from '@/contexts/AuthContext';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { teacherApi } from '@/lib/api/teacherApi';
+import type { Lesson, LessonStatus } from '@/types/teacher';
+
+interface LessonFormState {
+  title: string;
+  content: string;
+  moduleName: string;
+  modulePosition: string;
+  position: string;
+  status: LessonStatus;
+}
+
+const emptyForm: LessonFormState = {
+  title: '',
+  content: '',
+  moduleName: '',
+  modulePosition: '0',
+  position: '',
+  status: 'draft',
+};
+
+/**
+ * Group lessons (already ordered by the API) into modules
+ */
+function groupByModule(lessons: Lesson[]): { key: string; name: string; lessons: Lesson[] }[] {
+  const groups: { key: string; name: string; lessons: Lesson[] }[] = [];
+  for (const lesson of lessons) {
+    const key = `${lesson.modulePosition}:${lesson.moduleName ?? ''}`;
+    let group = groups.find((m) => m.key === key);
+    if (!group) {
+      group = {
+        key,
+        name: lesson.moduleName || `Module ${lesson.modulePosition + 1}`,
+        lessons: [],
+      };
+      groups.push(group);
+    }
+    group.lessons.push(lesson);
+  }
+  return groups;
+}
+
+export default function ClassLessonsPage() {
+  const params = useParams();
+  const classId = params.id as string;
+  const { user, isLoading: authLoading } = useRequireAuth(['teacher']);
+
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Modal states
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [selectedLesson, setSelectedLesson] = useState<Lesson | null>(null);
+
+  // Form state
+  const [form, setForm] = useState<LessonFormState>(emptyForm);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchLessons = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await teacherApi.getLessons(classId);
+      setLessons(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load lessons');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user && classId) {
+      fetchLessons();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, classId]);
+
+  const openCreateModal = () => {
+    setSelectedLesson(null);
+    setForm(emptyForm);
+    setShowFormModal(true);
+  };
+
+  const openEditModal = (lesson: Lesson) => {
+    setSelectedLesson(lesson);
+    setForm({
+      title: lesson.title,
+      content: lesson.content,
+      moduleName: lesson.moduleName ?? '',
+      modulePosition: String(lesson.modulePosition),
+      position: String(lesson.position),
+      status: lesson.status,
+    });
+    setShowFormModal(true);
+  };
+
+  const closeFormModal = () => {
+    setShowFormModal(false);
+    setSelectedLesson(null);
+    setForm(emptyForm);
+    setError(null);
+  };
+
+  // Create or update lesson
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.title.trim() || !form.content.trim()) {
+      setError('Title and content are required');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const modulePosition = parseInt(form.modulePosition, 10) || 0;
+      const position = form.position === '' ? undefined : parseInt(form.position, 10);
+
+      if (selectedLesson) {
+        await teacherApi.updateLesson(classId, selectedLesson.id, {
+          title: form.title,
+          content: form.content,
+          moduleName: form.moduleName.trim() || null,
+          modulePosition,
+          ...(position !== undefined && !isNaN(position) && { position }),
+          status: form.status,
+        });
+      } else {
+        await teacherApi.createLesson(classId, {
+          title: form.title,
+          content: form.content,
+          ...(form.moduleName.trim() && { moduleName: form.moduleName.trim() }),
+          modulePosition,
+          ...(position !== undefined && !isNaN(position) && { position }),
+          status: form.status,
+        });
+      }
+
+      closeFormModal();
+      await fetchLessons();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save lesson');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Toggle draft/published
+  const handleToggleStatus = async (lesson: Lesson) => {
+    try {
+      setError(null);
+      const updated = await teacherApi.updateLesson(classId, lesson.id, {
+        status: lesson.status === 'published' ? 'draft' : 'published',
+      });
+      setLessons(lessons.map((l) => (l.id === updated.id ? updated : l)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update lesson');
+    }
+  };
+
+  // Delete lesson
+  const handleDelete = async () => {
+    if (!selectedLesson) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      await teacherApi.deleteLesson(classId, selectedLesson.id);
+
+      setLessons(lessons.filter((l) => l.id !== selectedLesson.id));
+      setShowDeleteModal(false);
+      setSelectedLesson(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete lesson');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-neutral-100">
+        <p className="text-lg font-mono text-neutral-700">Loading...</p>
+      </div>
+    );
+  }
+
+  const groups = groupByModule(lessons);
+
+  return (
+    <div className="min-h-screen bg-neutral-100 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-[52px] font-normal leading-tight text-neutral-700 uppercase">
+              Lessons
+            </h1>
+            <p className="text-base text-neutral-600 mt-2">
+              {lessons.length} {lessons.length === 1 ? 'lesson' : 'lessons'}
+            </p>
+          </div>
+          <div className="flex items-center gap-6">
+            <Link
+              href={`/teacher/classes/${classId}`}
+              className="text-sm font-mono text-neutral-700 hover:text-neutral-900 uppercase"
+            >
+              ← Back to Class
+            </Link>
+            <Button onClick={openCreateModal}>Create Lesson</Button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-[2px]">
+            <p className="text-sm font-mono text-red-700">{error}</p>
+          </div>
+        )}
+
+        {lessons.length === 0 && !error && (
+          <Card>
+            <p className="text-base font-mono text-neutral-600 text-center py-8">
+              No lessons yet
+            </p>
+          </Card>
+        )}
+
+        {groups.map((group) => (
+          <Card key={group.key} className="mb-8">
+            <h2 className="text-2xl font-mono text-neutral-700 uppercase mb-6">{group.name}</h2>
+            <div className="space-y-3">
+              {group.lessons.map((lesson) => (
+                <div
+                  key={lesson.id}
+                  className="flex justify-between items-start p-4 bg-neutral-50 rounded-[2px] border border-neutral-200"
+                >
+                  <div className="flex-1">
+                    <div className="flex items-center gap-3 mb-1">
+                      <h3 className="text-base font-mono text-neutral-700 uppercase">
+                        {lesson.title}
+                      </h3>
+                      <span
+                        className={`text-xs font-mono uppercase px-2 py-0.5 rounded-[2px] border ${
+                          lesson.status === 'published'
+                            ? 'text-green-700 border-green-300 bg-green-50'
+                            : 'text-neutral-600 border-neutral-300 bg-white'
+                        }`}
+                      >
+                        {lesson.status}
+                      </span>
+                    </div>
+                    <p className="text-sm text-neutral-600 font-mono line-clamp-2">
+                      {lesson.content}
+                    </p>
+                    <p className="text-xs text-neutral-500 font-mono mt-2">
+                      Position {lesson.position}
+                      {lesson.publishedAt &&
+                        ` · Published ${new Date(lesson.publishedAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 ml-4">
+                    <button
+                      onClick={() => handleToggleStatus(lesson)}
+                      className="text-xs font-mono text-neutral-700 hover:text-neutral-900 uppercase px-3 py-1 border border-neutral-300 rounded-[2px]"
+                    >
+                      {lesson.status === 'published' ? 'Unpublish' : 'Publish'}
+                    </button>
+                    <button
+                      onClick={() => openEditModal(lesson)}
+                      className="text-xs font-mono text-neutral-700 hover:text-neutral-900 uppercase px-3 py-1 border border-neutral-300 rounded-[2px]"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => {
+                        setSelectedLesson(lesson);
+                        setShowDeleteModal(true);
+                      }}
+                      className="text-xs font-mono text-red-600 hover:text-red-700 uppercase px-3 py-1 border border-red-300 rounded-[2px]"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      {/* Create/Edit Lesson Modal */}
+      {showFormModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-[2px] p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <h2 className="text-2xl font-mono text-neutral-700 uppercase mb-4">
+              {selectedLesson ? 'Edit Lesson' : 'Create Lesson'}
+            </h2>
+            <form onSubmit={handleSubmit}>
+              <div className="mb-4">
+                <label className="block text-sm font-mono text-neutral-700 mb-2">Title</label>
+                <Input
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="mb-4">
+                <label className="block text-sm font-mono text-neutral-700 mb-2">Content</label>
+                <textarea
+                  value={form.content}
+                  onChange={(e) => setForm({ ...form, content: e.target.value })}
+                  rows={8}
+                  required
+                  className="w-full px-3 py-2 border border-neutral-300 rounded-[2px] font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4 mb-4">
+                <div>
+                  <label className="block text-sm font-mono text-neutral-700 mb-2">Module</label>
+                  <Input
+                    value={form.moduleName}
+                    onChange={(e) => setForm({ ...form, moduleName: e.target.value })}
+                    placeholder="Module 1"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-mono text-neutral-700 mb-2">
+                    Module Order
+                  </label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={form.modulePosition}
+                    onChange={(e) => setForm({ ...form, modulePosition: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-mono text-neutral-700 mb-2">
+                    Position in Module
+                  </label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={form.position}
+                    onChange={(e) => setForm({ ...form, position: e.target.value })}
+                    placeholder="End of module"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-mono text-neutral-700 mb-2">Status</label>
+                  <select
+                    value={form.status}
+                    onChange={(e) => setForm({ ...form, status: e.target.value as LessonStatus })}
+                    className="w-full px-3 py-2 border border-neutral-300 rounded-[2px] font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    <option value="draft">Draft</option>
+                    <option value="published">Published</option>
+                  </select>
+                </div>
+              </div>
+              <div className="flex gap-3 mt-6">
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? 'Saving...' : selectedLesson ? 'Save Lesson' : 'Create Lesson'}
+                </Button>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={closeFormModal}
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Delete Lesson Modal */}
+      {showDeleteModal && selectedLesson && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-[2px] p-6 max-w-md w-full">
+            <h2 className="text-2xl font-mono text-neutral-700 uppercase mb-4">Delete Lesson</h2>
+            <p className="text-sm font-mono text-neutral-600 mb-6">
+              Are you sure you want to delete {selectedLesson.title}?
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={handleDelete}
+                disabled={isSubmitting}
+                className="flex-1 bg-red-600 text-white font-mono text-sm uppercase px-4 py-2 rounded-[2px] hover:bg-red-700 disabled:opacity-50"
+              >
+                {isSubmitting ? 'Deleting...' : 'Delete'}
+              </button>
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => {
+                  setShowDeleteModal(false);
+                  setSelectedLesson(null);
+                  setError(null);
+                }}
+                disabled={isSubmitting}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,16 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { teacherApi } from '@/lib/api/teacherApi';
 import { apiClient } from '@/lib/apiClient';
-import type { Class, Assignment } from '@/types/teacher';
+import { GradeCategoryManager } from '@/components/GradeCategoryManager';
+import { JoinCodeManager } from '@/components/JoinCodeManager';
+import { ClassStaffManager } from '@/components/ClassStaffManager';
+import type {
+  Class,
+  Assignment,
+  AssignmentCategory,
+  ClassJoinCode,
+  ClassStaffMember,
+} from '@/types/teacher';
 
 interface Student {
   id: string;
@@ -26,6 +35,9 @@ export default function ClassDetailPage() {
   const [classData, setClassData] = useState<Class | null>(null);
   const [students, setStudents] = useState<Student[]>([]);
   const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [categories, setCategories] = useState<AssignmentCategory[]>([]);
+  const [joinCode, setJoinCode] = useState<ClassJoinCode | null>(null);
+  const [staff, setStaff] = useState<ClassStaffMember[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -66,6 +78,19 @@ export default function ClassDetailPage() {
         const allAssignments = await teacherApi.getAssignments();
         const classAssignments = allAssignments.filter((a) => a.classId === classId);
         setAssignments(classAssignments);
+
+        // Fetch the class staff; TAs only grade, so skip class management data
+        const classStaff = await teacherApi.getClassStaff(classId);
+        setStaff(classStaff);
+        if (classStaff.find((m) => m.userId === user?.id)?.role === 'ta') {
+          return;
+        }
+
+        // Fetch weighted grade categories
+        setCategories(await teacherApi.getCategories(classId));
+
+        // Fetch the self-enrollment join code
+        setJoinCode(await teacherApi.getJoinCode(classId));
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load class data');
       } finally {
@@ -149,6 +174,8 @@ export default function ClassDetailPage() {
     }
   };
 
+  const isTa = staff.find((m) => m.userId === user?.id)?.role === 'ta';
+
   if (authLoading || isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-neutral-100">
@@ -183,12 +210,26 @@ export default function ClassDetailPage() {
             </h1>
             <p className="text-base text-neutral-600 mt-2">{classData.description}</p>
           </div>
-          <Link
-            href="/teacher/classes"
-            className="text-sm font-mono text-neutral-700 hover:text-neutral-900 uppercase"
-          >
-            ← Back to Classes
-          </Link>
+          <div className="flex items-center gap-6">
+            <Link
+              href={`/teacher/classes/${classId}/lessons`}
+              className="text-sm font-mono text-primary hover:text-primary-400 uppercase"
+            >
+              Lessons →
+            </Link>
+            <Link
+              href={`/teacher/classes/${classId}/gradebook`}
+              className="text-sm font-mono text-primary hover:text-primary-400 uppercase"
+            >
+              Gradebook →
+            </Link>
+            <Link
+              href="/teacher/classes"
+              className="text-sm font-mono text-neutral-700 hover:text-neutral-900 uppercase"
+            >
+              ← Back to Classes
+            </Link>
+          </div>
         </div>
 
         {error && (
@@ -239,6 +280,69 @@ export default function ClassDetailPage() {
           )}
         </Card>
 
+        {/* Staff Section */}
+        <Card className="mb-8">
+          <h2 className="text-2xl font-mono text-neutral-700 uppercase mb-6">Staff</h2>
+          <ClassStaffManager
+            staff={staff}
+            currentUserId={user?.id ?? ''}
+            onAdd={async (data) => {
+              await teacherApi.addClassStaff(classId, data);
+              setStaff(await teacherApi.getClassStaff(classId));
+            }}
+            onUpdateRole={async (userId, role) => {
+              await teacherApi.updateClassStaffRole(classId, userId, role);
+              setStaff(staff.map((m) => (m.userId === userId ? { ...m, role } : m)));
+            }}
+            onRemove={async (userId) => {
+              await teacherApi.removeClassStaff(classId, userId);
+              setStaff(staff.filter((m) => m.userId !== userId));
+            }}
+          />
+        </Card>
+
+        {/* TAs only grade, so class management is hidden from them */}
+        {!isTa && (
+          <>
+            {/* Join Code Section */}
+            <Card className="mb-8">
+              <h2 className="text-2xl font-mono text-neutral-700 uppercase mb-6">Join Code</h2>
+              <JoinCodeManager
+                joinCode={joinCode}
+                onRegenerate={async (data) => {
+                  setJoinCode(await teacherApi.regenerateJoinCode(classId, data));
+                }}
+                onDisable={async () => {
+                  await teacherApi.disableJoinCode(classId);
+                  setJoinCode(null);
+                }}
+              />
+            </Card>
+
+            {/* Grade Categories Section */}
+            <Card className="mb-8">
+              <h2 className="text-2xl font-mono text-neutral-700 uppercase mb-6">
+                Grade Categories
+              </h2>
+              <GradeCategoryManager
+                categories={categories}
+                onCreate={async (data) => {
+                  const category = await teacherApi.createCategory(classId, data);
+                  setCategories([...categories, category]);
+                }}
+                onUpdate={async (categoryId, data) => {
+                  const updated = await teacherApi.updateCategory(categoryId, data);
+                  setCategories(categories.map((c) => (c.id === updated.id ? updated : c)));
+                }}
+                onDelete={async (categoryId) => {
+                  await teacherApi.deleteCategory(categoryId);
+                  setCategories(categories.filter((c) => c.id !== categoryId));
+                }}
+              />
+            </Card>
+          </>
+        )}
+
         {/* Assignments Section */}
         <Card>
           <div className="flex justify-between items-center mb-6">
@@ -270,7 +374,7 @@ export default function ClassDetailPage() {
                         {assignment.description}
                       </p>
                       <p className="text-xs text-neutral-500 font-mono">
-                        Due: {new Date(assignment.dueDate).toLocaleDateString()}
+                        Due: {new Date(assignment.dueDate).toLocaleDateString()} • {assignment.maxPoints} points
                       </p>
                     </div>
                     <Link
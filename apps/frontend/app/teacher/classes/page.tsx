@@ -6,6 +6,7 @@ import { useRequireAuth } from '@/contexts/AuthContext';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { RosterCsvImport } from '@/components/RosterCsvImport';
 import { teacherApi } from '@/lib/api/teacherApi';
 import type { Class, CreateClassRequest, UpdateClassRequest } from '@/types/teacher';
 
@@ -19,6 +20,7 @@ export default function TeacherClassesPage() {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [selectedClass, setSelectedClass] = useState<Class | null>(null);
 
   // Form states
@@ -161,6 +163,9 @@ export default function TeacherClassesPage() {
             </p>
           </div>
           <div className="flex gap-4">
+            <Button variant="secondary" onClick={() => setShowImportModal(true)}>
+              Import Roster
+            </Button>
             <Button onClick={() => setShowCreateModal(true)}>Create Class</Button>
             <Link
               href="/teacher/dashboard"
@@ -226,6 +231,21 @@ export default function TeacherClassesPage() {
         </div>
       </div>
 
+      {/* Roster Import Modal */}
+      {showImportModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-[2px] p-6 max-w-2xl w-full">
+            <h2 className="text-2xl font-mono text-neutral-700 uppercase mb-4">Import Roster</h2>
+            <RosterCsvImport onImport={teacherApi.importRoster} />
+            <div className="flex gap-3 mt-6">
+              <Button variant="secondary" onClick={() => setShowImportModal(false)}>
+                Close
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Create Modal */}
       {showCreateModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
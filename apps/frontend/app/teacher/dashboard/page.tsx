@@ -29,7 +29,15 @@ export default function TeacherDashboard() {
               Welcome back, {user?.name}
             </p>
           </div>
-          <LogoutButton />
+          <div className="flex items-center gap-6">
+            <Link
+              href="/settings/security"
+              className="text-sm font-mono text-neutral-700 hover:text-neutral-900 uppercase"
+            >
+              Security
+            </Link>
+            <LogoutButton />
+          </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
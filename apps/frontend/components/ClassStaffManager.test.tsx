@@ -0,0 +1,109 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@/__tests__/test-utils';
+import { ClassStaffManager } from './ClassStaffManager';
+import type { ClassStaffMember } from '@/types/teacher';
+
+const member = (overrides: Partial<ClassStaffMember> = {}): ClassStaffMember => ({
+  classId: 'class-1',
+  userId: 'owner-1',
+  role: 'owner',
+  name: 'Olivia Owner',
+  email: 'owner@school.edu',
+  createdAt: '2026-03-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const staff = [
+  member(),
+  member({ userId: 'ta-1', role: 'ta', name: 'Tariq TA', email: 'ta@school.edu' }),
+];
+
+describe('ClassStaffManager', () => {
+  it('should let the owner add a co-teacher', async () => {
+    const onAdd = vi.fn().mockResolvedValue(undefined);
+    render(
+      <ClassStaffManager
+        staff={staff}
+        currentUserId="owner-1"
+        onAdd={onAdd}
+        onUpdateRole={vi.fn()}
+        onRemove={vi.fn()}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText('Staff email'), {
+      target: { value: 'co@school.edu' },
+    });
+    fireEvent.change(screen.getByLabelText('Staff role'), { target: { value: 'co_teacher' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add Staff' }));
+
+    await waitFor(() =>
+      expect(onAdd).toHaveBeenCalledWith({ email: 'co@school.edu', role: 'co_teacher' })
+    );
+  });
+
+  it('should let the owner change a role and remove staff', async () => {
+    const onUpdateRole = vi.fn().mockResolvedValue(undefined);
+    const onRemove = vi.fn().mockResolvedValue(undefined);
+    render(
+      <ClassStaffManager
+        staff={staff}
+        currentUserId="owner-1"
+        onAdd={vi.fn()}
+        onUpdateRole={onUpdateRole}
+        onRemove={onRemove}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText('Role of ta@school.edu'), {
+      target: { value: 'co_teacher' },
+    });
+    await waitFor(() => expect(onUpdateRole).toHaveBeenCalledWith('ta-1', 'co_teacher'));
+
+    fireEvent.click(screen.getByLabelText('Remove ta@school.edu'));
+    await waitFor(() => expect(onRemove).toHaveBeenCalledWith('ta-1'));
+    expect(screen.queryByLabelText('Remove owner@school.edu')).not.toBeInTheDocument();
+  });
+
+  it('should only let other staff leave', async () => {
+    const onRemove = vi.fn().mockResolvedValue(undefined);
+    render(
+      <ClassStaffManager
+        staff={staff}
+        currentUserId="ta-1"
+        onAdd={vi.fn()}
+        onUpdateRole={vi.fn()}
+        onRemove={onRemove}
+      />
+    );
+
+    expect(screen.queryByLabelText('Staff email')).not.toBeInTheDocument();
+    expect(screen.queryByLabelText('Role of ta@school.edu')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove ta@school.edu' }));
+    await waitFor(() => expect(onRemove).toHaveBeenCalledWith('ta-1'));
+  });
+
+  it('should show errors from the API', async () => {
+    const onAdd = vi.fn().mockRejectedValue(new Error('Only teachers can join the staff of a class'));
+    render(
+      <ClassStaffManager
+        staff={staff}
+        currentUserId="owner-1"
+        onAdd={onAdd}
+        onUpdateRole={vi.fn()}
+        onRemove={vi.fn()}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText('Staff email'), {
+      target: { value: 'student@school.edu' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Add Staff' }));
+
+    expect(
+      await screen.findByText('Only teachers can join the staff of a class')
+    ).toBeInTheDocument();
+  });
+});
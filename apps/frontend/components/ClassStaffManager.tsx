@@ -0,0 +1,140 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import type { AddClassStaffRequest, ClassStaffMember, ClassStaffRole } from '@/types/teacher';
+
+type AssignableRole = Exclude<ClassStaffRole, 'owner'>;
+
+const ROLE_LABELS: Record<ClassStaffRole, string> = {
+  owner: 'Owner',
+  co_teacher: 'Co-teacher',
+  ta: 'TA',
+};
+
+interface ClassStaffManagerProps {
+  staff: ClassStaffMember[];
+  currentUserId: string;
+  onAdd: (data: AddClassStaffRequest) => Promise<void>;
+  onUpdateRole: (userId: string, role: AssignableRole) => Promise<void>;
+  onRemove: (userId: string) => Promise<void>;
+}
+
+/**
+ * Class staff list; the owner adds co-teachers and TAs, other staff can only leave
+ */
+export function ClassStaffManager({
+  staff,
+  currentUserId,
+  onAdd,
+  onUpdateRole,
+  onRemove,
+}: ClassStaffManagerProps) {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<AssignableRole>('ta');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOwner = staff.some((m) => m.userId === currentUserId && m.role === 'owner');
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update staff');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    run(async () => {
+      await onAdd({ email: email.trim(), role });
+      setEmail('');
+    });
+  };
+
+  const inputClass =
+    'px-3 py-2 border border-neutral-300 rounded-[2px] font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {staff.map((member) => (
+          <div
+            key={member.userId}
+            className="flex justify-between items-center p-3 bg-neutral-50 rounded-[2px] border border-neutral-200"
+          >
+            <div>
+              <p className="text-sm font-mono text-neutral-700">{member.name}</p>
+              <p className="text-xs font-mono text-neutral-500">{member.email}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              {isOwner && member.role !== 'owner' ? (
+                <select
+                  aria-label={`Role of ${member.email}`}
+                  value={member.role}
+                  onChange={(e) =>
+                    run(() => onUpdateRole(member.userId, e.target.value as AssignableRole))
+                  }
+                  disabled={isSaving}
+                  className={inputClass}
+                >
+                  <option value="co_teacher">{ROLE_LABELS.co_teacher}</option>
+                  <option value="ta">{ROLE_LABELS.ta}</option>
+                </select>
+              ) : (
+                <span className="text-xs font-mono text-neutral-600 uppercase">
+                  {ROLE_LABELS[member.role]}
+                </span>
+              )}
+              {member.role !== 'owner' && (isOwner || member.userId === currentUserId) && (
+                <button
+                  type="button"
+                  aria-label={`Remove ${member.email}`}
+                  onClick={() => run(() => onRemove(member.userId))}
+                  disabled={isSaving}
+                  className="text-xs font-mono text-red-600 hover:text-red-700 uppercase px-3 py-1 border border-red-300 rounded-[2px]"
+                >
+                  {member.userId === currentUserId ? 'Leave' : 'Remove'}
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isOwner && (
+        <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-3">
+          <input
+            aria-label="Staff email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="teacher@school.edu"
+            className={`${inputClass} flex-1`}
+          />
+          <select
+            aria-label="Staff role"
+            value={role}
+            onChange={(e) => setRole(e.target.value as AssignableRole)}
+            className={inputClass}
+          >
+            <option value="ta">{ROLE_LABELS.ta}</option>
+            <option value="co_teacher">{ROLE_LABELS.co_teacher}</option>
+          </select>
+          <Button type="submit" disabled={isSaving || !email.trim()}>
+            Add Staff
+          </Button>
+        </form>
+      )}
+
+      {error && <p className="text-sm font-mono text-red-700">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@/__tests__/test-utils';
+import { GradeCategoryManager } from './GradeCategoryManager';
+import type { AssignmentCategory } from '@/types/teacher';
+
+const category = (id: string, name: string, weight: number): AssignmentCategory => ({
+  id,
+  classId: 'class-1',
+  name,
+  weight,
+  createdAt: '2026-03-01T10:00:00.000Z',
+  updatedAt: '2026-03-01T10:00:00.000Z',
+});
+
+const categories = [category('category-1', 'Exams', 70)];
+
+describe('GradeCategoryManager', () => {
+  it('should show the weight left for uncategorized work', () => {
+    render(
+      <GradeCategoryManager
+        categories={categories}
+        onCreate={vi.fn()}
+        onUpdate={vi.fn()}
+        onDelete={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('Exams')).toBeInTheDocument();
+    expect(screen.getByText('Uncategorized: 30%')).toBeInTheDocument();
+  });
+
+  it('should create a category with a numeric weight', async () => {
+    const onCreate = vi.fn().mockResolvedValue(undefined);
+    render(
+      <GradeCategoryManager
+        categories={categories}
+        onCreate={onCreate}
+        onUpdate={vi.fn()}
+        onDelete={vi.fn()}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText('Category name'), { target: { value: ' Homework ' } });
+    fireEvent.change(screen.getByLabelText('Category weight'), { target: { value: '30' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add Category' }));
+
+    await waitFor(() => expect(onCreate).toHaveBeenCalledWith({ name: 'Homework', weight: 30 }));
+  });
+
+  it('should update the weight when the input loses focus', async () => {
+    const onUpdate = vi.fn().mockResolvedValue(undefined);
+    render(
+      <GradeCategoryManager
+        categories={categories}
+        onCreate={vi.fn()}
+        onUpdate={onUpdate}
+        onDelete={vi.fn()}
+      />
+    );
+
+    const input = screen.getByLabelText('Exams weight');
+    fireEvent.change(input, { target: { value: '60' } });
+    fireEvent.blur(input);
+
+    await waitFor(() => expect(onUpdate).toHaveBeenCalledWith('category-1', { weight: 60 }));
+  });
+
+  it('should show save errors', async () => {
+    const onCreate = vi
+      .fn()
+      .mockRejectedValue(new Error('Category weights cannot exceed 100 (30 remaining)'));
+    render(
+      <GradeCategoryManager
+        categories={categories}
+        onCreate={onCreate}
+        onUpdate={vi.fn()}
+        onDelete={vi.fn()}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText('Category name'), { target: { value: 'Homework' } });
+    fireEvent.change(screen.getByLabelText('Category weight'), { target: { value: '40' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add Category' }));
+
+    expect(
+      await screen.findByText('Category weights cannot exceed 100 (30 remaining)')
+    ).toBeInTheDocument();
+  });
+});
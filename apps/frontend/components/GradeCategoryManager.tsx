@@ -0,0 +1,125 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import type {
+  AssignmentCategory,
+  CreateCategoryRequest,
+  UpdateCategoryRequest,
+} from '@/types/teacher';
+
+interface GradeCategoryManagerProps {
+  categories: AssignmentCategory[];
+  onCreate: (data: CreateCategoryRequest) => Promise<void>;
+  onUpdate: (categoryId: string, data: UpdateCategoryRequest) => Promise<void>;
+  onDelete: (categoryId: string) => Promise<void>;
+}
+
+/**
+ * Weighted assignment categories of a class; uncategorized work gets the remaining weight
+ */
+export function GradeCategoryManager({
+  categories,
+  onCreate,
+  onUpdate,
+  onDelete,
+}: GradeCategoryManagerProps) {
+  const [name, setName] = useState('');
+  const [weight, setWeight] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const remainingWeight = 100 - categories.reduce((sum, c) => sum + c.weight, 0);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save category');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    run(async () => {
+      await onCreate({ name: name.trim(), weight });
+      setName('');
+      setWeight(0);
+    });
+  };
+
+  const inputClass =
+    'px-3 py-2 border border-neutral-300 rounded-[2px] font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+  return (
+    <div className="space-y-3">
+      {categories.map((category) => (
+        <div
+          key={category.id}
+          className="flex items-center gap-3 p-3 bg-neutral-50 rounded-[2px] border border-neutral-200"
+        >
+          <span className="flex-1 text-sm font-mono text-neutral-700">{category.name}</span>
+          <input
+            aria-label={`${category.name} weight`}
+            type="number"
+            min="0"
+            max="100"
+            defaultValue={category.weight}
+            onBlur={(e) => {
+              const value = Number(e.target.value);
+              if (value !== category.weight) {
+                run(() => onUpdate(category.id, { weight: value }));
+              }
+            }}
+            className={`${inputClass} w-20`}
+          />
+          <span className="text-sm font-mono text-neutral-600">%</span>
+          <button
+            type="button"
+            onClick={() => run(() => onDelete(category.id))}
+            disabled={isSaving}
+            className="text-xs font-mono text-red-600 hover:text-red-700 uppercase px-3 py-1 border border-red-300 rounded-[2px]"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      <p className="text-xs font-mono text-neutral-500">
+        {categories.length === 0
+          ? 'No categories: every assignment counts equally by points'
+          : `Uncategorized: ${remainingWeight}%`}
+      </p>
+
+      <form onSubmit={handleCreate} className="flex items-center gap-3">
+        <input
+          aria-label="Category name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g., Homework"
+          className={`${inputClass} flex-1`}
+        />
+        <input
+          aria-label="Category weight"
+          type="number"
+          min="0"
+          max="100"
+          value={weight}
+          onChange={(e) => setWeight(Number(e.target.value))}
+          className={`${inputClass} w-20`}
+        />
+        <span className="text-sm font-mono text-neutral-600">%</span>
+        <Button type="submit" disabled={isSaving || !name.trim()}>
+          Add Category
+        </Button>
+      </form>
+
+      {error && <p className="text-sm font-mono text-red-700">{error}</p>}
+    </div>
+  );
+}
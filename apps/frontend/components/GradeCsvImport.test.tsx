@@ -0,0 +1,67 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@/__tests__/test-utils';
+import { GradeCsvImport } from './GradeCsvImport';
+import type { GradeImportResult } from '@/types/teacher';
+
+const csv = 'Email,Grade\nalice@test.com,90\nzed@test.com,80\n';
+
+const uploadCsv = () => {
+  fireEvent.change(screen.getByLabelText('Grades CSV file'), {
+    target: { files: [new File([csv], 'grades.csv', { type: 'text/csv' })] },
+  });
+};
+
+const preview = (errorCount: number): GradeImportResult => ({
+  dryRun: true,
+  errorCount,
+  imported: 0,
+  rows: [
+    { line: 2, email: 'alice@test.com', grade: 90, feedback: null, status: 'ok' },
+    {
+      line: 3,
+      email: 'zed@test.com',
+      grade: 80,
+      feedback: null,
+      status: errorCount > 0 ? 'unknown_student' : 'skipped',
+    },
+  ],
+});
+
+describe('GradeCsvImport', () => {
+  it('should preview the uploaded CSV with row problems', async () => {
+    const onPreview = vi.fn().mockResolvedValue(preview(1));
+    render(<GradeCsvImport onPreview={onPreview} onImport={vi.fn()} />);
+
+    uploadCsv();
+
+    expect(await screen.findByText('Unknown student')).toBeInTheDocument();
+    expect(onPreview).toHaveBeenCalledWith(csv);
+    expect(screen.getByText('1 ready • 1 error')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Import 1 Grade' })).toBeDisabled();
+  });
+
+  it('should import the previewed CSV', async () => {
+    const onImport = vi.fn().mockResolvedValue(1);
+    render(<GradeCsvImport onPreview={vi.fn().mockResolvedValue(preview(0))} onImport={onImport} />);
+
+    uploadCsv();
+    const importButton = await screen.findByRole('button', { name: 'Import 1 Grade' });
+    fireEvent.change(screen.getByLabelText('Reason for changed grades'), {
+      target: { value: ' Moderated ' },
+    });
+    fireEvent.click(importButton);
+
+    await waitFor(() => expect(onImport).toHaveBeenCalledWith(csv, 'Moderated'));
+    expect(await screen.findByText('Imported 1 grade')).toBeInTheDocument();
+  });
+
+  it('should show preview errors', async () => {
+    const onPreview = vi.fn().mockRejectedValue(new Error('CSV must have Email and Grade columns'));
+    render(<GradeCsvImport onPreview={onPreview} onImport={vi.fn()} />);
+
+    uploadCsv();
+
+    expect(await screen.findByText('CSV must have Email and Grade columns')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,160 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { readTextFile } from '@/lib/readTextFile';
+import type { GradeImportResult, GradeImportStatus } from '@/types/teacher';
+
+interface GradeCsvImportProps {
+  onPreview: (csv: string) => Promise<GradeImportResult>;
+  onImport: (csv: string, reason?: string) => Promise<number>;
+}
+
+const STATUS_LABELS: Record<GradeImportStatus, string> = {
+  ok: 'Ready',
+  skipped: 'Skipped (blank grade)',
+  invalid_grade: 'Invalid grade',
+  out_of_range: 'Out of range',
+  unknown_student: 'Unknown student',
+  duplicate_student: 'Duplicate row',
+  missing_submission: 'No submission',
+};
+
+/**
+ * Upload a grades CSV, preview it as a dry run, then import it
+ */
+export function GradeCsvImport({ onPreview, onImport }: GradeCsvImportProps) {
+  const [csv, setCsv] = useState<string | null>(null);
+  const [preview, setPreview] = useState<GradeImportResult | null>(null);
+  const [reason, setReason] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    setPreview(null);
+    setMessage(null);
+    setError(null);
+    if (!file) {
+      setCsv(null);
+      return;
+    }
+
+    try {
+      setIsBusy(true);
+      const text = await readTextFile(file);
+      setCsv(text);
+      setPreview(await onPreview(text));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read CSV');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (csv === null) {
+      return;
+    }
+
+    try {
+      setIsBusy(true);
+      setError(null);
+      const imported = await onImport(csv, reason.trim() || undefined);
+      setMessage(`Imported ${imported} ${imported === 1 ? 'grade' : 'grades'}`);
+      setCsv(null);
+      setPreview(null);
+      setReason('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import grades');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const readyCount = preview?.rows.filter((row) => row.status === 'ok').length ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm font-mono text-neutral-600">
+        Columns: Email, Grade and optionally Feedback. Blank grades are skipped.
+      </p>
+      <input
+        aria-label="Grades CSV file"
+        type="file"
+        accept=".csv,text/csv"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        // Clear so picking the same (fixed) file again still fires onChange
+        onClick={(e) => {
+          e.currentTarget.value = '';
+        }}
+        disabled={isBusy}
+        className="block text-sm font-mono text-neutral-700"
+      />
+
+      {preview && (
+        <>
+          <p className="text-sm font-mono text-neutral-700">
+            {readyCount} ready • {preview.errorCount}{' '}
+            {preview.errorCount === 1 ? 'error' : 'errors'}
+          </p>
+          <div className="overflow-x-auto max-h-80">
+            <table className="min-w-full text-sm font-mono text-neutral-700">
+              <thead>
+                <tr className="border-b border-neutral-300 uppercase text-left">
+                  <th className="py-2 pr-4">Line</th>
+                  <th className="py-2 pr-4">Email</th>
+                  <th className="py-2 pr-4 text-right">Grade</th>
+                  <th className="py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map((row) => (
+                  <tr key={row.line} className="border-b border-neutral-200">
+                    <td className="py-1 pr-4">{row.line}</td>
+                    <td className="py-1 pr-4">{row.email || '—'}</td>
+                    <td className="py-1 pr-4 text-right">{row.grade ?? '—'}</td>
+                    <td
+                      className={`py-1 ${
+                        row.status === 'ok'
+                          ? 'text-green-700'
+                          : row.status === 'skipped'
+                            ? 'text-neutral-500'
+                            : 'text-red-700'
+                      }`}
+                    >
+                      {STATUS_LABELS[row.status]}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {preview.errorCount > 0 && (
+            <p className="text-sm font-mono text-red-700">
+              Fix the rows with errors and upload the file again.
+            </p>
+          )}
+          <Input
+            label="Reason for changed grades"
+            aria-label="Reason for changed grades"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Required when the file changes released grades"
+            maxLength={500}
+          />
+          <Button
+            onClick={handleImport}
+            disabled={isBusy || preview.errorCount > 0 || readyCount === 0}
+          >
+            {isBusy ? 'Importing...' : `Import ${readyCount} ${readyCount === 1 ? 'Grade' : 'Grades'}`}
+          </Button>
+        </>
+      )}
+
+      {error && <p className="text-sm font-mono text-red-700">{error}</p>}
+      {message && <p className="text-sm font-mono text-green-700">{message}</p>}
+    </div>
+  );
+}
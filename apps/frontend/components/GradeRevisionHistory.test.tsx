@@ -0,0 +1,61 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@/__tests__/test-utils';
+import { GradeRevisionHistory } from './GradeRevisionHistory';
+import type { GradeRevision } from '@/types/teacher';
+
+const revision = (overrides: Partial<GradeRevision> = {}): GradeRevision => ({
+  id: 'revision-1',
+  submissionId: 'submission-1',
+  teacherId: 'teacher-1',
+  teacherName: 'Ms. Teacher',
+  previousGrade: '70.00',
+  previousFeedback: 'Good',
+  grade: '80.00',
+  feedback: 'Good',
+  reason: 'Missed a page',
+  createdAt: '2026-03-01T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('GradeRevisionHistory', () => {
+  it('should list grade changes with teacher and reason', async () => {
+    const loadRevisions = vi.fn().mockResolvedValue([revision()]);
+
+    render(
+      <GradeRevisionHistory submissionId="submission-1" maxPoints={90} loadRevisions={loadRevisions} />
+    );
+
+    expect(await screen.findByText('70.00 → 80.00/90')).toBeInTheDocument();
+    expect(screen.getByText(/Ms\. Teacher/)).toBeInTheDocument();
+    expect(screen.getByText('Reason: Missed a page')).toBeInTheDocument();
+    expect(screen.queryByText(/Feedback was/)).not.toBeInTheDocument();
+    expect(loadRevisions).toHaveBeenCalledWith('submission-1');
+  });
+
+  it('should show the replaced feedback when it changed', async () => {
+    const loadRevisions = vi
+      .fn()
+      .mockResolvedValue([revision({ grade: '70.00', feedback: 'Great structure' })]);
+
+    render(<GradeRevisionHistory submissionId="submission-1" loadRevisions={loadRevisions} />);
+
+    expect(await screen.findByText('Feedback was: Good')).toBeInTheDocument();
+  });
+
+  it('should say when the grade never changed', async () => {
+    render(
+      <GradeRevisionHistory submissionId="submission-1" loadRevisions={vi.fn().mockResolvedValue([])} />
+    );
+
+    expect(await screen.findByText('No grade changes.')).toBeInTheDocument();
+  });
+
+  it('should show an error when the history fails to load', async () => {
+    const loadRevisions = vi.fn().mockRejectedValue(new Error('Forbidden'));
+
+    render(<GradeRevisionHistory submissionId="submission-1" loadRevisions={loadRevisions} />);
+
+    expect(await screen.findByText('Forbidden')).toBeInTheDocument();
+  });
+});
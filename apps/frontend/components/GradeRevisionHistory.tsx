@@ -0,0 +1,64 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { GradeRevision } from '@/types/teacher';
+
+interface GradeRevisionHistoryProps {
+  submissionId: string;
+  maxPoints?: number;
+  loadRevisions: (submissionId: string) => Promise<GradeRevision[]>;
+}
+
+/**
+ * Changes made to a submission's grade, newest first, with who made them and why
+ */
+export function GradeRevisionHistory({
+  submissionId,
+  maxPoints = 100,
+  loadRevisions,
+}: GradeRevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<GradeRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRevisions(submissionId)
+      .then(setRevisions)
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : 'Failed to load grade history')
+      );
+  }, [submissionId, loadRevisions]);
+
+  if (error) {
+    return <p className="text-sm font-mono text-red-700">{error}</p>;
+  }
+
+  if (revisions === null) {
+    return null;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-xs font-mono text-neutral-500">No grade changes.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {revisions.map((revision) => (
+        <li key={revision.id} className="text-xs font-mono text-neutral-600">
+          <span className="text-neutral-700">
+            {revision.previousGrade} → {revision.grade}/{maxPoints}
+          </span>
+          {' • '}
+          {new Date(revision.createdAt).toLocaleString()}
+          {' • '}
+          {revision.teacherName ?? 'Deleted user'}
+          {revision.reason && <p className="mt-1 text-neutral-700">Reason: {revision.reason}</p>}
+          {revision.feedback !== revision.previousFeedback && (
+            <p className="mt-1 text-neutral-500 whitespace-pre-wrap">
+              Feedback was: {revision.previousFeedback || '—'}
+            </p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,131 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@/__tests__/test-utils';
+import { GradebookTable } from './GradebookTable';
+import type { Assignment, Gradebook } from '@/types/teacher';
+
+const assignment = (
+  id: string,
+  title: string,
+  maxPoints: number,
+  gradesReleasedAt: string | null = null
+): Assignment => ({
+  id,
+  classId: 'class-1',
+  title,
+  description: 'Work',
+  dueDate: '2026-03-01T10:00:00.000Z',
+  latePolicy: 'allow',
+  lateCutoff: null,
+  latePenaltyPerDay: 0,
+  maxPoints,
+  categoryId: null,
+  gradesReleasedAt,
+  createdAt: '2026-02-01T10:00:00.000Z',
+  updatedAt: '2026-02-01T10:00:00.000Z',
+});
+
+const gradebook: Gradebook = {
+  classId: 'class-1',
+  assignments: [
+    assignment('essay', 'Essay', 100, '2026-03-05T10:00:00.000Z'),
+    assignment('quiz', 'Quiz', 20),
+  ],
+  rows: [
+    {
+      student: { id: 'student-1', name: 'Alice', email: 'alice@test.com' },
+      courseGrade: 85,
+      cells: [
+        { assignmentId: 'essay', submissionId: 'submission-1', status: 'late', grade: 85, latePenalty: 10 },
+        { assignmentId: 'quiz', submissionId: 'submission-2', status: 'submitted', grade: null, latePenalty: 0 },
+      ],
+    },
+    {
+      student: { id: 'student-2', name: 'Bob', email: 'bob@test.com' },
+      courseGrade: null,
+      cells: [
+        { assignmentId: 'essay', submissionId: null, status: 'missing', grade: null, latePenalty: 0 },
+        { assignmentId: 'quiz', submissionId: null, status: 'pending', grade: null, latePenalty: 0 },
+      ],
+    },
+  ],
+};
+
+describe('GradebookTable', () => {
+  it('should show grades, statuses and course grades', () => {
+    render(<GradebookTable gradebook={gradebook} onSave={vi.fn()} />);
+
+    expect(screen.getByLabelText('Alice Essay grade')).toHaveValue(85);
+    expect(screen.getByText('Late −10%')).toBeInTheDocument();
+    expect(screen.getByText('Missing')).toBeInTheDocument();
+    expect(screen.getByText('85%')).toBeInTheDocument();
+    expect(screen.getByText('/20')).toBeInTheDocument();
+  });
+
+  it('should save only edited cells', async () => {
+    const onSave = vi.fn().mockResolvedValue(undefined);
+    render(<GradebookTable gradebook={gradebook} onSave={onSave} />);
+
+    fireEvent.change(screen.getByLabelText('Alice Quiz grade'), { target: { value: '18.5' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save 1 Change' }));
+
+    await waitFor(() =>
+      expect(onSave).toHaveBeenCalledWith(
+        [{ submissionId: 'submission-2', grade: 18.5 }],
+        undefined
+      )
+    );
+    expect(screen.queryByLabelText('Reason for changing released grades')).not.toBeInTheDocument();
+  });
+
+  it('should require a reason to change a released grade', async () => {
+    const onSave = vi.fn().mockResolvedValue(undefined);
+    render(<GradebookTable gradebook={gradebook} onSave={onSave} />);
+
+    fireEvent.change(screen.getByLabelText('Alice Essay grade'), { target: { value: '90' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save 1 Change' }));
+
+    expect(screen.getByText('Give a reason for changing released grades')).toBeInTheDocument();
+    expect(onSave).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText('Reason for changing released grades'), {
+      target: { value: ' Regraded question 2 ' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Save 1 Change' }));
+
+    await waitFor(() =>
+      expect(onSave).toHaveBeenCalledWith(
+        [{ submissionId: 'submission-1', grade: 90 }],
+        'Regraded question 2'
+      )
+    );
+  });
+
+  it('should reject grades above the assignment max points', () => {
+    const onSave = vi.fn();
+    render(<GradebookTable gradebook={gradebook} onSave={onSave} />);
+
+    fireEvent.change(screen.getByLabelText('Alice Quiz grade'), { target: { value: '25' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save 1 Change' }));
+
+    expect(
+      screen.getByText('Grades must be between 0 and the assignment max points')
+    ).toBeInTheDocument();
+    expect(onSave).not.toHaveBeenCalled();
+  });
+
+  it('should show save errors', async () => {
+    const onSave = vi.fn().mockRejectedValue(new Error('You can only grade submissions for your own classes'));
+    render(<GradebookTable gradebook={gradebook} onSave={onSave} />);
+
+    fireEvent.change(screen.getByLabelText('Alice Essay grade'), { target: { value: '90' } });
+    fireEvent.change(screen.getByLabelText('Reason for changing released grades'), {
+      target: { value: 'Late penalty waived' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Save 1 Change' }));
+
+    expect(
+      await screen.findByText('You can only grade submissions for your own classes')
+    ).toBeInTheDocument();
+  });
+});
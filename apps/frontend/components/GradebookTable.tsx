@@ -0,0 +1,190 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import type { BulkGradeRequest, Gradebook, GradebookCell } from '@/types/teacher';
+
+interface GradebookTableProps {
+  gradebook: Gradebook;
+  onSave: (grades: BulkGradeRequest['grades'], reason?: string) => Promise<void>;
+}
+
+const STATUS_STYLES: Record<GradebookCell['status'], string> = {
+  submitted: 'text-neutral-500',
+  late: 'text-red-600',
+  missing: 'text-red-700',
+  pending: 'text-neutral-400',
+};
+
+/**
+ * Students x assignments grade spreadsheet; edited cells are saved together
+ */
+export function GradebookTable({ gradebook, onSave }: GradebookTableProps) {
+  // Edited grade per submission ID, as typed
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const maxPointsById = new Map(gradebook.assignments.map((a) => [a.id, a.maxPoints]));
+  const releasedIds = new Set(
+    gradebook.assignments.filter((a) => a.gradesReleasedAt).map((a) => a.id)
+  );
+
+  const isInvalid = (assignmentId: string, value: string) => {
+    const grade = Number(value);
+    const maxPoints = maxPointsById.get(assignmentId) ?? 100;
+    return value.trim() === '' || Number.isNaN(grade) || grade < 0 || grade > maxPoints;
+  };
+
+  const changedCells = gradebook.rows
+    .flatMap((row) => row.cells)
+    .filter((cell) => cell.submissionId !== null && edits[cell.submissionId] !== undefined);
+
+  // Students have seen released grades, so changing one needs a reason
+  const changesReleasedGrade = changedCells.some(
+    (cell) => cell.grade !== null && releasedIds.has(cell.assignmentId)
+  );
+
+  const handleSave = async () => {
+    if (changedCells.some((cell) => isInvalid(cell.assignmentId, edits[cell.submissionId!]!))) {
+      setError('Grades must be between 0 and the assignment max points');
+      return;
+    }
+
+    if (changesReleasedGrade && !reason.trim()) {
+      setError('Give a reason for changing released grades');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await onSave(
+        changedCells.map((cell) => ({
+          submissionId: cell.submissionId!,
+          grade: Number(edits[cell.submissionId!]),
+        })),
+        changesReleasedGrade ? reason.trim() : undefined
+      );
+      setEdits({});
+      setReason('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save grades');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderCell = (studentName: string, cell: GradebookCell) => {
+    const assignment = gradebook.assignments.find((a) => a.id === cell.assignmentId)!;
+
+    if (cell.submissionId === null) {
+      return (
+        <span className={`text-xs uppercase ${STATUS_STYLES[cell.status]}`}>
+          {cell.status === 'missing' ? 'Missing' : '—'}
+        </span>
+      );
+    }
+
+    const value = edits[cell.submissionId] ?? (cell.grade === null ? '' : String(cell.grade));
+    const edited = edits[cell.submissionId] !== undefined;
+
+    return (
+      <div className="flex flex-col items-center gap-1">
+        <input
+          aria-label={`${studentName} ${assignment.title} grade`}
+          type="number"
+          min="0"
+          max={assignment.maxPoints}
+          step="0.01"
+          value={value}
+          onChange={(e) => setEdits({ ...edits, [cell.submissionId!]: e.target.value })}
+          className={`w-20 px-2 py-1 border rounded-[2px] font-mono text-sm text-right focus:outline-none focus:ring-2 focus:ring-primary ${
+            edited && isInvalid(cell.assignmentId, value)
+              ? 'border-red-500'
+              : edited
+                ? 'border-primary bg-primary-50'
+                : 'border-neutral-300'
+          }`}
+        />
+        {cell.status === 'late' && (
+          <span className={`text-xs uppercase ${STATUS_STYLES.late}`}>
+            Late{cell.latePenalty > 0 && ` −${cell.latePenalty}%`}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm font-mono text-neutral-700 border-collapse">
+          <thead>
+            <tr className="border-b border-neutral-300">
+              <th className="py-2 pr-4 text-left uppercase sticky left-0 bg-white">Student</th>
+              {gradebook.assignments.map((assignment) => (
+                <th key={assignment.id} className="py-2 px-2 text-center font-normal">
+                  <div className="uppercase">{assignment.title}</div>
+                  <div className="text-xs text-neutral-500">/{assignment.maxPoints}</div>
+                </th>
+              ))}
+              <th className="py-2 pl-4 text-right uppercase">Course</th>
+            </tr>
+          </thead>
+          <tbody>
+            {gradebook.rows.map((row) => (
+              <tr key={row.student.id} className="border-b border-neutral-200">
+                <td className="py-2 pr-4 sticky left-0 bg-white">
+                  <div>{row.student.name}</div>
+                  <div className="text-xs text-neutral-500">{row.student.email}</div>
+                </td>
+                {row.cells.map((cell) => (
+                  <td key={cell.assignmentId} className="py-2 px-2 text-center">
+                    {renderCell(row.student.name, cell)}
+                  </td>
+                ))}
+                <td className="py-2 pl-4 text-right">
+                  {row.courseGrade === null ? '—' : `${row.courseGrade}%`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {changesReleasedGrade && (
+        <input
+          aria-label="Reason for changing released grades"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason for changing released grades"
+          maxLength={500}
+          className="w-full max-w-md px-3 py-2 border border-neutral-300 rounded-[2px] font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+      )}
+
+      {error && <p className="text-sm font-mono text-red-700">{error}</p>}
+
+      <div className="flex gap-3">
+        <Button onClick={handleSave} disabled={isSaving || changedCells.length === 0}>
+          {isSaving
+            ? 'Saving...'
+            : `Save ${changedCells.length} ${changedCells.length === 1 ? 'Change' : 'Changes'}`}
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={() => {
+            setEdits({});
+            setReason('');
+            setError(null);
+          }}
+          disabled={isSaving || changedCells.length === 0}
+        >
+          Discard
+        </Button>
+      </div>
+    </div>
+  );
+}
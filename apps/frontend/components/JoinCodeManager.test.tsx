@@ -0,0 +1,59 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@/__tests__/test-utils';
+import { JoinCodeManager } from './JoinCodeManager';
+import type { ClassJoinCode } from '@/types/teacher';
+
+const joinCode = (overrides: Partial<ClassJoinCode> = {}): ClassJoinCode => ({
+  classId: 'class-1',
+  code: 'ABCD2345',
+  expiresAt: null,
+  maxUses: 30,
+  useCount: 4,
+  createdAt: '2026-03-01T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('JoinCodeManager', () => {
+  it('should show the code and its uses', () => {
+    render(<JoinCodeManager joinCode={joinCode()} onRegenerate={vi.fn()} onDisable={vi.fn()} />);
+
+    expect(screen.getByText('ABCD2345')).toBeInTheDocument();
+    expect(screen.getByText('Uses: 4 / 30')).toBeInTheDocument();
+    expect(screen.getByText('Never expires')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Regenerate Code' })).toBeInTheDocument();
+  });
+
+  it('should flag a used up code', () => {
+    render(
+      <JoinCodeManager
+        joinCode={joinCode({ useCount: 30 })}
+        onRegenerate={vi.fn()}
+        onDisable={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('No uses left')).toBeInTheDocument();
+  });
+
+  it('should generate a code with max uses', async () => {
+    const onRegenerate = vi.fn().mockResolvedValue(undefined);
+    render(<JoinCodeManager joinCode={null} onRegenerate={onRegenerate} onDisable={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Join code max uses'), { target: { value: '25' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Generate Code' }));
+
+    await waitFor(() =>
+      expect(onRegenerate).toHaveBeenCalledWith({ expiresAt: null, maxUses: 25 })
+    );
+  });
+
+  it('should disable the code', async () => {
+    const onDisable = vi.fn().mockResolvedValue(undefined);
+    render(<JoinCodeManager joinCode={joinCode()} onRegenerate={vi.fn()} onDisable={onDisable} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Disable' }));
+
+    await waitFor(() => expect(onDisable).toHaveBeenCalled());
+  });
+});
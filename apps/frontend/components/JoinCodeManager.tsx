@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import type { ClassJoinCode, RegenerateJoinCodeRequest } from '@/types/teacher';
+
+interface JoinCodeManagerProps {
+  joinCode: ClassJoinCode | null;
+  onRegenerate: (data: RegenerateJoinCodeRequest) => Promise<void>;
+  onDisable: () => Promise<void>;
+}
+
+/**
+ * Class join code students enter to enroll themselves; regenerating invalidates the old code
+ */
+export function JoinCodeManager({ joinCode, onRegenerate, onDisable }: JoinCodeManagerProps) {
+  const [expiresAt, setExpiresAt] = useState('');
+  const [maxUses, setMaxUses] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update join code');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRegenerate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await onRegenerate({
+        // datetime-local values are local time without a zone
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+        maxUses: maxUses ? Number(maxUses) : null,
+      });
+      setExpiresAt('');
+      setMaxUses('');
+    });
+  };
+
+  const inputClass =
+    'px-3 py-2 border border-neutral-300 rounded-[2px] font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+  const isExpired = joinCode?.expiresAt ? new Date(joinCode.expiresAt) <= new Date() : false;
+  const isUsedUp = joinCode?.maxUses != null && joinCode.useCount >= joinCode.maxUses;
+
+  return (
+    <div className="space-y-4">
+      {joinCode ? (
+        <div className="flex items-center gap-4 p-3 bg-neutral-50 rounded-[2px] border border-neutral-200">
+          <span className="text-2xl font-mono tracking-widest text-neutral-800">
+            {joinCode.code}
+          </span>
+          <div className="flex-1 text-xs font-mono text-neutral-500 space-y-1">
+            <p>
+              Uses: {joinCode.useCount}
+              {joinCode.maxUses != null ? ` / ${joinCode.maxUses}` : ' (unlimited)'}
+            </p>
+            <p>
+              {joinCode.expiresAt
+                ? `Expires: ${new Date(joinCode.expiresAt).toLocaleString()}`
+                : 'Never expires'}
+            </p>
+            {(isExpired || isUsedUp) && (
+              <p className="text-red-700 uppercase">
+                {isExpired ? 'Expired' : 'No uses left'}
+              </p>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={() => run(onDisable)}
+            disabled={isSaving}
+            className="text-xs font-mono text-red-600 hover:text-red-700 uppercase px-3 py-1 border border-red-300 rounded-[2px]"
+          >
+            Disable
+          </button>
+        </div>
+      ) : (
+        <p className="text-sm font-mono text-neutral-600">
+          No join code: students can only be added by a teacher
+        </p>
+      )}
+
+      <form onSubmit={handleRegenerate} className="flex flex-wrap items-center gap-3">
+        <label className="text-sm font-mono text-neutral-600">
+          Expires
+          <input
+            aria-label="Join code expiry"
+            type="datetime-local"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            className={`${inputClass} ml-2`}
+          />
+        </label>
+        <label className="text-sm font-mono text-neutral-600">
+          Max uses
+          <input
+            aria-label="Join code max uses"
+            type="number"
+            min="1"
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+            placeholder="Unlimited"
+            className={`${inputClass} ml-2 w-28`}
+          />
+        </label>
+        <Button type="submit" disabled={isSaving}>
+          {joinCode ? 'Regenerate Code' : 'Generate Code'}
+        </Button>
+      </form>
+
+      {error && <p className="text-sm font-mono text-red-700">{error}</p>}
+    </div>
+  );
+}
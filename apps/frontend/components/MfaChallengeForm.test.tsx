@@ -0,0 +1,85 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@/__tests__/test-utils';
+import { MfaChallengeForm } from './MfaChallengeForm';
+import type { MfaChallenge } from '@/types/auth';
+
+const challenge = (overrides: Partial<MfaChallenge> = {}): MfaChallenge => ({
+  challengeToken: 'a'.repeat(64),
+  enrollmentRequired: false,
+  expiresAt: '2026-03-01T10:05:00.000Z',
+  ...overrides,
+});
+
+const enterCode = (code: string) => {
+  fireEvent.change(screen.getByLabelText('Verification code'), { target: { value: code } });
+  fireEvent.click(screen.getByRole('button', { name: 'Verify' }));
+};
+
+describe('MfaChallengeForm', () => {
+  it('should verify a code and complete the login', async () => {
+    const onVerify = vi.fn().mockResolvedValue(null);
+    const onComplete = vi.fn();
+    render(
+      <MfaChallengeForm
+        challenge={challenge()}
+        onStartEnrollment={vi.fn()}
+        onVerify={onVerify}
+        onComplete={onComplete}
+      />
+    );
+
+    enterCode(' 123456 ');
+
+    await waitFor(() => expect(onComplete).toHaveBeenCalled());
+    expect(onVerify).toHaveBeenCalledWith('123456');
+  });
+
+  it('should show errors from the API', async () => {
+    const onComplete = vi.fn();
+    render(
+      <MfaChallengeForm
+        challenge={challenge()}
+        onStartEnrollment={vi.fn()}
+        onVerify={vi.fn().mockRejectedValue(new Error('Invalid verification code'))}
+        onComplete={onComplete}
+      />
+    );
+
+    enterCode('000000');
+
+    expect(await screen.findByText('Invalid verification code')).toBeInTheDocument();
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+
+  it('should set up MFA first when the role requires it', async () => {
+    const onStartEnrollment = vi.fn().mockResolvedValue({
+      secret: 'JBSWY3DPEHPK3PXP',
+      otpauthUrl: 'otpauth://totp/School%20Portal:ada?secret=JBSWY3DPEHPK3PXP',
+    });
+    const onVerify = vi.fn().mockResolvedValue(['a1b2c-3d4e5']);
+    const onComplete = vi.fn();
+    render(
+      <MfaChallengeForm
+        challenge={challenge({ enrollmentRequired: true })}
+        onStartEnrollment={onStartEnrollment}
+        onVerify={onVerify}
+        onComplete={onComplete}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Set up authenticator' }));
+    expect(await screen.findByLabelText('Authenticator key')).toHaveTextContent(
+      'JBSW Y3DP EHPK 3PXP'
+    );
+
+    enterCode('123456');
+
+    // Recovery codes are shown before leaving the page
+    expect(await screen.findByText('a1b2c-3d4e5')).toBeInTheDocument();
+    expect(onComplete).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Continue' }));
+    expect(onComplete).toHaveBeenCalled();
+  });
+});
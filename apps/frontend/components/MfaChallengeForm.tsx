@@ -0,0 +1,113 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+import { MfaSecret, RecoveryCodeList } from '@/components/MfaSetup';
+import type { MfaChallenge, MfaEnrollment } from '@/types/auth';
+
+interface MfaChallengeFormProps {
+  challenge: MfaChallenge;
+  onStartEnrollment: () => Promise<MfaEnrollment>;
+  // Resolves with recovery codes when the challenge finished an MFA setup
+  onVerify: (code: string) => Promise<string[] | null>;
+  onComplete: () => void;
+}
+
+/**
+ * Second login step: a code from the authenticator app or a recovery code,
+ * after setting MFA up first when the user's role requires it
+ */
+export function MfaChallengeForm({
+  challenge,
+  onStartEnrollment,
+  onVerify,
+  onComplete,
+}: MfaChallengeFormProps) {
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerify = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    run(async () => {
+      const codes = await onVerify(code.trim());
+      if (codes) {
+        setRecoveryCodes(codes);
+      } else {
+        onComplete();
+      }
+    });
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-6">
+        <RecoveryCodeList codes={recoveryCodes} />
+        <Button type="button" onClick={onComplete} className="w-full">
+          Continue
+        </Button>
+      </div>
+    );
+  }
+
+  if (challenge.enrollmentRequired && !enrollment) {
+    return (
+      <div className="space-y-6">
+        <p className="text-sm font-mono text-neutral-600">
+          Your account requires two-factor authentication. Set up an authenticator app to
+          continue.
+        </p>
+        {error && <p className="text-sm font-mono text-red-500">{error}</p>}
+        <Button
+          type="button"
+          disabled={isLoading}
+          onClick={() => run(async () => setEnrollment(await onStartEnrollment()))}
+          className="w-full"
+        >
+          {isLoading ? 'Loading...' : 'Set up authenticator'}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleVerify} className="space-y-6">
+      {enrollment ? (
+        <MfaSecret enrollment={enrollment} />
+      ) : (
+        <p className="text-sm font-mono text-neutral-600">
+          Enter the code from your authenticator app, or one of your recovery codes.
+        </p>
+      )}
+
+      <Input
+        label="Verification code"
+        aria-label="Verification code"
+        autoComplete="one-time-code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        error={error ?? undefined}
+      />
+
+      <Button type="submit" disabled={isLoading || !code.trim()} className="w-full">
+        {isLoading ? 'Verifying...' : 'Verify'}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,34 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@/__tests__/test-utils';
+import { MfaRequiredRoles } from './MfaRequiredRoles';
+
+describe('MfaRequiredRoles', () => {
+  it('should check the required roles', () => {
+    render(<MfaRequiredRoles roles={['admin']} onSave={vi.fn()} />);
+
+    expect(screen.getByLabelText('admin')).toBeChecked();
+    expect(screen.getByLabelText('teacher')).not.toBeChecked();
+  });
+
+  it('should save the selected roles', async () => {
+    const onSave = vi.fn().mockResolvedValue(undefined);
+    render(<MfaRequiredRoles roles={['admin']} onSave={onSave} />);
+
+    fireEvent.click(screen.getByLabelText('teacher'));
+    fireEvent.click(screen.getByLabelText('admin'));
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => expect(onSave).toHaveBeenCalledWith(['teacher']));
+  });
+
+  it('should show errors from the API', async () => {
+    render(
+      <MfaRequiredRoles roles={[]} onSave={vi.fn().mockRejectedValue(new Error('Forbidden'))} />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(await screen.findByText('Forbidden')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,64 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import type { Role } from '@/types/auth';
+
+const ROLES: Role[] = ['admin', 'teacher', 'student'];
+
+interface MfaRequiredRolesProps {
+  roles: Role[];
+  onSave: (roles: Role[]) => Promise<void>;
+}
+
+/**
+ * Roles whose users must set up two-factor authentication
+ */
+export function MfaRequiredRoles({ roles, onSave }: MfaRequiredRolesProps) {
+  const [selected, setSelected] = useState<Role[]>(roles);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (role: Role) => {
+    setSelected((prev) =>
+      prev.includes(role) ? prev.filter((r) => r !== role) : [...prev, role]
+    );
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSaving(true);
+      setError(null);
+      await onSave(selected);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save required roles');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      <p className="text-sm font-mono text-neutral-600">
+        Users of these roles set up two-factor authentication at their next login.
+      </p>
+      <div className="flex gap-6">
+        {ROLES.map((role) => (
+          <label key={role} className="flex items-center gap-2 text-sm font-mono text-neutral-700 uppercase">
+            <input
+              type="checkbox"
+              checked={selected.includes(role)}
+              onChange={() => toggle(role)}
+            />
+            {role}
+          </label>
+        ))}
+      </div>
+      {error && <p className="text-sm font-mono text-red-700">{error}</p>}
+      <Button type="submit" disabled={isSaving}>
+        {isSaving ? 'Saving...' : 'Save'}
+      </Button>
+    </form>
+  );
+}
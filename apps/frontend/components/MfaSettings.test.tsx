@@ -0,0 +1,89 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@/__tests__/test-utils';
+import { MfaSettings } from './MfaSettings';
+import type { MfaStatus } from '@/types/auth';
+
+const status = (overrides: Partial<MfaStatus> = {}): MfaStatus => ({
+  enabled: false,
+  enabledAt: null,
+  required: false,
+  recoveryCodesRemaining: 0,
+  ...overrides,
+});
+
+const renderSettings = (props: Partial<React.ComponentProps<typeof MfaSettings>> = {}) =>
+  render(
+    <MfaSettings
+      status={status()}
+      onStartEnrollment={vi.fn()}
+      onConfirm={vi.fn()}
+      onRegenerate={vi.fn()}
+      onDisable={vi.fn()}
+      {...props}
+    />
+  );
+
+const enterCode = (code: string) => {
+  fireEvent.change(screen.getByLabelText('Verification code'), { target: { value: code } });
+};
+
+describe('MfaSettings', () => {
+  it('should set up MFA and show the recovery codes', async () => {
+    const onConfirm = vi.fn().mockResolvedValue(['a1b2c-3d4e5', 'f6a7b-8c9d0']);
+    renderSettings({
+      onStartEnrollment: vi.fn().mockResolvedValue({
+        secret: 'JBSWY3DPEHPK3PXP',
+        otpauthUrl: 'otpauth://totp/School%20Portal:ada?secret=JBSWY3DPEHPK3PXP',
+      }),
+      onConfirm,
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Set up' }));
+    await screen.findByLabelText('Authenticator key');
+
+    enterCode('123456');
+    fireEvent.click(screen.getByRole('button', { name: 'Confirm' }));
+
+    expect(await screen.findByText('f6a7b-8c9d0')).toBeInTheDocument();
+    expect(onConfirm).toHaveBeenCalledWith('123456');
+  });
+
+  it('should issue new recovery codes with a current code', async () => {
+    const onRegenerate = vi.fn().mockResolvedValue(['b1b2c-3d4e5']);
+    renderSettings({
+      status: status({ enabled: true, enabledAt: '2026-03-01T10:00:00.000Z', recoveryCodesRemaining: 3 }),
+      onRegenerate,
+    });
+
+    expect(screen.getByText(/3 recovery codes left/)).toBeInTheDocument();
+
+    enterCode('123456');
+    fireEvent.click(screen.getByRole('button', { name: 'New recovery codes' }));
+
+    expect(await screen.findByText('b1b2c-3d4e5')).toBeInTheDocument();
+    expect(onRegenerate).toHaveBeenCalledWith('123456');
+  });
+
+  it('should turn MFA off unless the role requires it', async () => {
+    const onDisable = vi.fn().mockRejectedValue(new Error('Invalid verification code'));
+    const { rerender } = renderSettings({ status: status({ enabled: true }), onDisable });
+
+    enterCode('000000');
+    fireEvent.click(screen.getByRole('button', { name: 'Turn off' }));
+
+    await waitFor(() => expect(onDisable).toHaveBeenCalledWith('000000'));
+    expect(await screen.findByText('Invalid verification code')).toBeInTheDocument();
+
+    rerender(
+      <MfaSettings
+        status={status({ enabled: true, required: true })}
+        onStartEnrollment={vi.fn()}
+        onConfirm={vi.fn()}
+        onRegenerate={vi.fn()}
+        onDisable={onDisable}
+      />
+    );
+    expect(screen.queryByRole('button', { name: 'Turn off' })).not.toBeInTheDocument();
+  });
+});
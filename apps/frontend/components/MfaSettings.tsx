@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/Input';
+import { Button, SecondaryButton } from '@/components/ui/Button';
+import { MfaSecret, RecoveryCodeList } from '@/components/MfaSetup';
+import type { MfaEnrollment, MfaStatus } from '@/types/auth';
+
+interface MfaSettingsProps {
+  status: MfaStatus;
+  onStartEnrollment: () => Promise<MfaEnrollment>;
+  // Each resolves with new recovery codes
+  onConfirm: (code: string) => Promise<string[]>;
+  onRegenerate: (code: string) => Promise<string[]>;
+  onDisable: (code: string) => Promise<void>;
+}
+
+/**
+ * Two-factor authentication settings: setup, new recovery codes and turning it off
+ */
+export function MfaSettings({
+  status,
+  onStartEnrollment,
+  onConfirm,
+  onRegenerate,
+  onDisable,
+}: MfaSettingsProps) {
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await action();
+      setCode('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update two-factor authentication');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const codeInput = (
+    <Input
+      label="Verification code"
+      aria-label="Verification code"
+      autoComplete="one-time-code"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+    />
+  );
+
+  const errorMessage = error && <p className="text-sm font-mono text-red-700">{error}</p>;
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodeList codes={recoveryCodes} />
+        <Button type="button" onClick={() => setRecoveryCodes(null)}>
+          Done
+        </Button>
+      </div>
+    );
+  }
+
+  if (!status.enabled) {
+    if (!enrollment) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm font-mono text-neutral-600">
+            {status.required
+              ? 'Two-factor authentication is required for your account.'
+              : 'Protect your account with a code from an authenticator app.'}
+          </p>
+          {errorMessage}
+          <Button
+            type="button"
+            disabled={isSaving}
+            onClick={() => run(async () => setEnrollment(await onStartEnrollment()))}
+          >
+            Set up
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <form
+        className="space-y-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          run(async () => {
+            setRecoveryCodes(await onConfirm(code.trim()));
+            setEnrollment(null);
+          });
+        }}
+      >
+        <MfaSecret enrollment={enrollment} />
+        {codeInput}
+        {errorMessage}
+        <Button type="submit" disabled={isSaving || !code.trim()}>
+          Confirm
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm font-mono text-neutral-700">
+        Enabled{status.enabledAt && ` since ${new Date(status.enabledAt).toLocaleDateString()}`}
+        {' · '}
+        {status.recoveryCodesRemaining} recovery codes left
+      </p>
+      {codeInput}
+      {errorMessage}
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          disabled={isSaving || !code.trim()}
+          onClick={() => run(async () => setRecoveryCodes(await onRegenerate(code.trim())))}
+        >
+          New recovery codes
+        </Button>
+        {!status.required && (
+          <SecondaryButton
+            type="button"
+            disabled={isSaving || !code.trim()}
+            onClick={() => run(() => onDisable(code.trim()))}
+          >
+            Turn off
+          </SecondaryButton>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import React from 'react';
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@/__tests__/test-utils';
+import { MfaSecret, RecoveryCodeList } from './MfaSetup';
+
+describe('MfaSecret', () => {
+  it('should show the key in groups and link the otpauth URI', () => {
+    render(
+      <MfaSecret
+        enrollment={{
+          secret: 'JBSWY3DPEHPK3PXP',
+          otpauthUrl: 'otpauth://totp/School%20Portal:ada%40example.com?secret=JBSWY3DPEHPK3PXP',
+        }}
+      />
+    );
+
+    expect(screen.getByLabelText('Authenticator key')).toHaveTextContent('JBSW Y3DP EHPK 3PXP');
+    expect(screen.getByRole('link', { name: 'Open in authenticator app' })).toHaveAttribute(
+      'href',
+      'otpauth://totp/School%20Portal:ada%40example.com?secret=JBSWY3DPEHPK3PXP'
+    );
+  });
+});
+
+describe('RecoveryCodeList', () => {
+  it('should list every code', () => {
+    render(<RecoveryCodeList codes={['a1b2c-3d4e5', 'f6a7b-8c9d0']} />);
+
+    expect(screen.getByText('a1b2c-3d4e5')).toBeInTheDocument();
+    expect(screen.getByText('f6a7b-8c9d0')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,53 @@
+'use client';
+
+import React from 'react';
+import type { MfaEnrollment } from '@/types/auth';
+
+/**
+ * Secret to add to an authenticator app, by typing it in or opening the otpauth link
+ */
+export function MfaSecret({ enrollment }: { enrollment: MfaEnrollment }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-mono text-neutral-600">
+        Add this key to your authenticator app, then enter the 6-digit code it shows.
+      </p>
+      <p
+        aria-label="Authenticator key"
+        className="p-3 bg-neutral-50 rounded-[2px] border border-neutral-200 text-sm font-mono text-neutral-700 break-all"
+      >
+        {enrollment.secret.match(/.{1,4}/g)?.join(' ')}
+      </p>
+      <a
+        href={enrollment.otpauthUrl}
+        className="text-sm text-primary font-mono hover:underline"
+      >
+        Open in authenticator app
+      </a>
+    </div>
+  );
+}
+
+/**
+ * Recovery codes, shown once after they are issued
+ */
+export function RecoveryCodeList({ codes }: { codes: string[] }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-mono text-neutral-600">
+        Save these recovery codes somewhere safe. Each one logs you in once if you lose your
+        device, and they will not be shown again.
+      </p>
+      <ul
+        aria-label="Recovery codes"
+        className="grid grid-cols-2 gap-2 p-3 bg-neutral-50 rounded-[2px] border border-neutral-200"
+      >
+        {codes.map((code) => (
+          <li key={code} className="text-sm font-mono text-neutral-700">
+            {code}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
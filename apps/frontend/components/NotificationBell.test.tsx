@@ -0,0 +1,148 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, render, screen, userEvent, waitFor } from '@/__tests__/test-utils';
+import { NotificationBell } from './NotificationBell';
+import { AuthProvider } from '@/contexts/AuthContext';
+import { createMockUser } from '@/__tests__/mocks/factories';
+import type { Notification } from '@/types/notification';
+import type { RealtimeEvent } from '@/types/realtime';
+
+const mockPush = vi.fn();
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push: mockPush }),
+  usePathname: () => '/',
+  useSearchParams: () => new URLSearchParams(),
+}));
+
+const mockGetCurrentUser = vi.fn();
+vi.mock('@/lib/api/authApi', () => ({
+  authApi: {
+    getCurrentUser: () => mockGetCurrentUser(),
+    logout: vi.fn(),
+    login: vi.fn(),
+    register: vi.fn(),
+  },
+}));
+
+const mockGetUnreadCount = vi.fn();
+const mockGetNotifications = vi.fn();
+const mockMarkRead = vi.fn();
+const mockMarkUnread = vi.fn();
+const mockMarkAllRead = vi.fn();
+vi.mock('@/lib/api/notificationsApi', () => ({
+  notificationsApi: {
+    getUnreadCount: () => mockGetUnreadCount(),
+    getNotifications: (options: unknown) => mockGetNotifications(options),
+    markRead: (id: string) => mockMarkRead(id),
+    markUnread: (id: string) => mockMarkUnread(id),
+    markAllRead: () => mockMarkAllRead(),
+  },
+}));
+
+const gradeNotification: Notification = {
+  id: 'n-1',
+  userId: 'student-1',
+  type: 'grade_posted',
+  title: 'Grade posted: Lab Report',
+  body: '18/20 in Biology',
+  link: '/student/assignments/a-1',
+  readAt: null,
+  createdAt: '2030-01-01T10:00:00.000Z',
+};
+
+let realtimeHandler: ((event: RealtimeEvent) => void) | null = null;
+vi.mock('@/lib/realtime', () => ({
+  useRealtimeEvents: (onEvent: (event: RealtimeEvent) => void, enabled: boolean) => {
+    realtimeHandler = enabled ? onEvent : null;
+  },
+}));
+
+const renderBell = () =>
+  render(
+    <AuthProvider>
+      <NotificationBell />
+    </AuthProvider>
+  );
+
+describe('NotificationBell', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetCurrentUser.mockResolvedValue(createMockUser());
+    mockGetUnreadCount.mockResolvedValue(2);
+    mockGetNotifications.mockResolvedValue({
+      notifications: [gradeNotification],
+      unreadCount: 2,
+    });
+  });
+
+  it('should render nothing while signed out', async () => {
+    mockGetCurrentUser.mockRejectedValue(new Error('Unauthorized'));
+
+    const { container } = renderBell();
+
+    await waitFor(() => expect(mockGetCurrentUser).toHaveBeenCalled());
+    expect(container).toBeEmptyDOMElement();
+    expect(mockGetUnreadCount).not.toHaveBeenCalled();
+  });
+
+  it('should show the unread count', async () => {
+    renderBell();
+
+    expect(await screen.findByRole('button', { name: 'Notifications (2 unread)' })).toHaveTextContent(
+      '2'
+    );
+  });
+
+  it('should refresh the unread count when a notification arrives live', async () => {
+    renderBell();
+    await screen.findByRole('button', { name: 'Notifications (2 unread)' });
+
+    mockGetUnreadCount.mockResolvedValue(3);
+    act(() => realtimeHandler?.({ type: 'notification_created', notificationId: 'n-2' }));
+
+    expect(await screen.findByRole('button', { name: 'Notifications (3 unread)' })).toBeInTheDocument();
+  });
+
+  it('should list notifications and open one, marking it read', async () => {
+    const user = userEvent.setup();
+    mockMarkRead.mockResolvedValue({ ...gradeNotification, readAt: '2030-01-02T00:00:00.000Z' });
+    renderBell();
+
+    await user.click(await screen.findByRole('button', { name: 'Notifications (2 unread)' }));
+    await user.click(await screen.findByText('Grade posted: Lab Report'));
+
+    expect(mockGetNotifications).toHaveBeenCalledWith({ limit: 20 });
+    expect(mockMarkRead).toHaveBeenCalledWith('n-1');
+    expect(mockPush).toHaveBeenCalledWith('/student/assignments/a-1');
+    expect(screen.getByRole('button', { name: 'Notifications (1 unread)' })).toBeInTheDocument();
+  });
+
+  it('should mark a read notification as unread again', async () => {
+    const user = userEvent.setup();
+    mockGetNotifications.mockResolvedValue({
+      notifications: [{ ...gradeNotification, readAt: '2030-01-02T00:00:00.000Z' }],
+      unreadCount: 0,
+    });
+    mockMarkUnread.mockResolvedValue(gradeNotification);
+    renderBell();
+
+    await user.click(await screen.findByRole('button', { name: /Notifications/ }));
+    await user.click(await screen.findByRole('button', { name: 'Mark as unread' }));
+
+    expect(mockMarkUnread).toHaveBeenCalledWith('n-1');
+    expect(screen.getByRole('button', { name: 'Notifications (1 unread)' })).toBeInTheDocument();
+  });
+
+  it('should mark all notifications read', async () => {
+    const user = userEvent.setup();
+    mockMarkAllRead.mockResolvedValue(2);
+    renderBell();
+
+    await user.click(await screen.findByRole('button', { name: 'Notifications (2 unread)' }));
+    await user.click(await screen.findByRole('button', { name: 'Mark all read' }));
+
+    expect(mockMarkAllRead).toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: 'Notifications (0 unread)' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Mark all read' })).not.toBeInTheDocument();
+  });
+});
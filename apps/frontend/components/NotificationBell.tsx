@@ -0,0 +1,206 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { notificationsApi } from '@/lib/api/notificationsApi';
+import { useRealtimeEvents } from '@/lib/realtime';
+import type { Notification } from '@/types/notification';
+
+// How often the unread count is refreshed while signed in (live updates fill the gaps)
+const POLL_INTERVAL_MS = 60_000;
+
+/**
+ * Bell with unread count and a dropdown of recent notifications
+ * Renders nothing while signed out
+ */
+export function NotificationBell() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshCount = useCallback(async () => {
+    try {
+      setUnreadCount(await notificationsApi.getUnreadCount());
+    } catch {
+      // Keep the last known count; the next poll retries
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      setUnreadCount(0);
+      setNotifications([]);
+      setIsOpen(false);
+      return;
+    }
+
+    refreshCount();
+    const interval = setInterval(refreshCount, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [user, refreshCount]);
+
+  useRealtimeEvents((event) => {
+    if (event.type === 'notification_created') {
+      refreshCount();
+    }
+  }, !!user);
+
+  if (!user) {
+    return null;
+  }
+
+  const handleToggle = async () => {
+    if (isOpen) {
+      setIsOpen(false);
+      return;
+    }
+
+    setIsOpen(true);
+    try {
+      setError(null);
+      const list = await notificationsApi.getNotifications({ limit: 20 });
+      setNotifications(list.notifications);
+      setUnreadCount(list.unreadCount);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notifications');
+    }
+  };
+
+  const handleOpen = async (notification: Notification) => {
+    if (!notification.readAt) {
+      try {
+        const updated = await notificationsApi.markRead(notification.id);
+        setNotifications((prev) => prev.map((n) => (n.id === updated.id ? updated : n)));
+        setUnreadCount((count) => Math.max(0, count - 1));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to update notification');
+        return;
+      }
+    }
+
+    if (notification.link) {
+      setIsOpen(false);
+      router.push(notification.link);
+    }
+  };
+
+  const handleToggleRead = async (notification: Notification) => {
+    try {
+      const updated = notification.readAt
+        ? await notificationsApi.markUnread(notification.id)
+        : await notificationsApi.markRead(notification.id);
+      setNotifications((prev) => prev.map((n) => (n.id === updated.id ? updated : n)));
+      setUnreadCount((count) => Math.max(0, count + (updated.readAt ? -1 : 1)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update notification');
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationsApi.markAllRead();
+      const now = new Date().toISOString();
+      setNotifications((prev) => prev.map((n) => ({ ...n, readAt: n.readAt ?? now })));
+      setUnreadCount(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update notifications');
+    }
+  };
+
+  return (
+    <div className="fixed top-4 right-4 z-40">
+      <button
+        onClick={handleToggle}
+        aria-label={`Notifications (${unreadCount} unread)`}
+        aria-expanded={isOpen}
+        className="relative bg-white border border-neutral-300 hover:border-neutral-500 text-neutral-700 rounded-[2px] p-3 shadow-sm transition-colors"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          className="w-5 h-5"
+          aria-hidden="true"
+        >
+          <path d="M18 8a6 6 0 0 0-12 0c0 7-3 9-3 9h18s-3-2-3-9" />
+          <path d="M13.73 21a2 2 0 0 1-3.46 0" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-2 -right-2 min-w-[20px] h-5 px-1 bg-red-600 text-white text-xs font-mono rounded-[2px] flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-h-[480px] overflow-y-auto bg-white border border-neutral-300 rounded-[2px] shadow-lg">
+          <div className="flex justify-between items-center px-4 py-3 border-b border-neutral-200">
+            <h2 className="text-sm font-mono text-neutral-700 uppercase">Notifications</h2>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="text-xs font-mono text-neutral-600 hover:text-neutral-900 uppercase"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {error && <p className="px-4 py-3 text-sm font-mono text-red-700">{error}</p>}
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm font-mono text-neutral-600 text-center">
+              No notifications yet.
+            </p>
+          ) : (
+            <ul>
+              {notifications.map((notification) => (
+                <li
+                  key={notification.id}
+                  className={`flex gap-2 px-4 py-3 border-b border-neutral-100 ${
+                    notification.readAt ? 'bg-white' : 'bg-neutral-50'
+                  }`}
+                >
+                  <button
+                    onClick={() => handleOpen(notification)}
+                    className="flex-1 text-left"
+                  >
+                    <p
+                      className={`text-sm font-mono ${
+                        notification.readAt ? 'text-neutral-600' : 'text-neutral-900'
+                      }`}
+                    >
+                      {notification.title}
+                    </p>
+                    <p className="text-xs font-mono text-neutral-500">{notification.body}</p>
+                    <p className="text-xs font-mono text-neutral-400 mt-1">
+                      {new Date(notification.createdAt).toLocaleString()}
+                    </p>
+                  </button>
+                  <button
+                    onClick={() => handleToggleRead(notification)}
+                    aria-label={notification.readAt ? 'Mark as unread' : 'Mark as read'}
+                    title={notification.readAt ? 'Mark as unread' : 'Mark as read'}
+                    className="self-start mt-1"
+                  >
+                    <span
+                      className={`block w-2 h-2 rounded-full ${
+                        notification.readAt ? 'border border-neutral-400' : 'bg-primary'
+                      }`}
+                    />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@/__tests__/test-utils';
+import { RosterCsvImport } from './RosterCsvImport';
+import type { RosterImportResult } from '@/types/teacher';
+
+const csv = 'Name,Email,Class\nAda,ada@test.com,Math\nBen,ben,Math\n';
+
+const uploadCsv = () => {
+  fireEvent.change(screen.getByLabelText('Roster CSV file'), {
+    target: { files: [new File([csv], 'roster.csv', { type: 'text/csv' })] },
+  });
+};
+
+const result: RosterImportResult = {
+  created: 1,
+  enrolled: 1,
+  errorCount: 1,
+  rows: [
+    {
+      line: 2,
+      name: 'Ada',
+      email: 'ada@test.com',
+      class: 'Math',
+      classId: 'class-1',
+      status: 'created',
+      message: null,
+    },
+    {
+      line: 3,
+      name: 'Ben',
+      email: 'ben',
+      class: 'Math',
+      classId: null,
+      status: 'invalid_row',
+      message: 'Invalid email format',
+    },
+  ],
+};
+
+describe('RosterCsvImport', () => {
+  it('should import the uploaded CSV and show the result of each row', async () => {
+    const onImport = vi.fn().mockResolvedValue(result);
+    render(<RosterCsvImport onImport={onImport} />);
+
+    uploadCsv();
+
+    expect(await screen.findByText('Account created')).toBeInTheDocument();
+    expect(onImport).toHaveBeenCalledWith(csv);
+    expect(screen.getByText('Invalid row: Invalid email format')).toBeInTheDocument();
+    expect(screen.getByText('1 enrolled • 1 account created • 1 error')).toBeInTheDocument();
+  });
+
+  it('should show import errors', async () => {
+    const onImport = vi
+      .fn()
+      .mockRejectedValue(new Error('CSV must have Name, Email and Class columns'));
+    render(<RosterCsvImport onImport={onImport} />);
+
+    uploadCsv();
+
+    expect(
+      await screen.findByText('CSV must have Name, Email and Class columns')
+    ).toBeInTheDocument();
+  });
+});
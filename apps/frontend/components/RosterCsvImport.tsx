@@ -0,0 +1,111 @@
+'use client';
+
+import React, { useState } from 'react';
+import { readTextFile } from '@/lib/readTextFile';
+import type { RosterImportResult, RosterImportStatus } from '@/types/teacher';
+
+interface RosterCsvImportProps {
+  onImport: (csv: string) => Promise<RosterImportResult>;
+}
+
+const STATUS_LABELS: Record<RosterImportStatus, string> = {
+  created: 'Account created',
+  enrolled: 'Enrolled',
+  already_enrolled: 'Already enrolled',
+  invalid_row: 'Invalid row',
+  unknown_class: 'Unknown class',
+  ambiguous_class: 'Class name not unique',
+  not_a_student: 'Not a student account',
+};
+
+const SUCCESS_STATUSES: RosterImportStatus[] = ['created', 'enrolled', 'already_enrolled'];
+
+/**
+ * Upload a roster CSV and show what happened to each row
+ */
+export function RosterCsvImport({ onImport }: RosterCsvImportProps) {
+  const [result, setResult] = useState<RosterImportResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+
+    try {
+      setIsImporting(true);
+      setError(null);
+      setResult(null);
+      setResult(await onImport(await readTextFile(file)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import roster');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm font-mono text-neutral-600">
+        Columns: Name, Email and Class (class name or ID). Missing student accounts are
+        created without a password.
+      </p>
+      <input
+        aria-label="Roster CSV file"
+        type="file"
+        accept=".csv,text/csv"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        // Clear so picking the same (fixed) file again still fires onChange
+        onClick={(e) => {
+          e.currentTarget.value = '';
+        }}
+        disabled={isImporting}
+        className="block text-sm font-mono text-neutral-700"
+      />
+
+      {isImporting && <p className="text-sm font-mono text-neutral-600">Importing...</p>}
+
+      {result && (
+        <>
+          <p className="text-sm font-mono text-neutral-700">
+            {result.enrolled} enrolled • {result.created}{' '}
+            {result.created === 1 ? 'account' : 'accounts'} created • {result.errorCount}{' '}
+            {result.errorCount === 1 ? 'error' : 'errors'}
+          </p>
+          <div className="overflow-x-auto max-h-80">
+            <table className="min-w-full text-sm font-mono text-neutral-700">
+              <thead>
+                <tr className="border-b border-neutral-300 uppercase text-left">
+                  <th className="py-2 pr-4">Line</th>
+                  <th className="py-2 pr-4">Email</th>
+                  <th className="py-2 pr-4">Class</th>
+                  <th className="py-2">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.rows.map((row) => (
+                  <tr key={row.line} className="border-b border-neutral-200">
+                    <td className="py-1 pr-4">{row.line}</td>
+                    <td className="py-1 pr-4">{row.email || '—'}</td>
+                    <td className="py-1 pr-4">{row.class || '—'}</td>
+                    <td
+                      className={`py-1 ${
+                        SUCCESS_STATUSES.includes(row.status) ? 'text-green-700' : 'text-red-700'
+                      }`}
+                    >
+                      {STATUS_LABELS[row.status]}
+                      {row.message && `: ${row.message}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-sm font-mono text-red-700">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@/__tests__/test-utils';
+import { RubricEditor } from './RubricEditor';
+import type { RubricCriterion } from '@/types/teacher';
+
+const rubric: RubricCriterion[] = [
+  {
+    id: 'criterion-1',
+    assignmentId: 'assignment-1',
+    title: 'Thesis',
+    description: null,
+    position: 0,
+    createdAt: '2026-03-01T10:00:00.000Z',
+    levels: [
+      { id: 'level-1', criterionId: 'criterion-1', label: 'Weak', description: null, points: '2.00', position: 0 },
+      { id: 'level-2', criterionId: 'criterion-1', label: 'Strong', description: null, points: '10.00', position: 1 },
+    ],
+  },
+];
+
+describe('RubricEditor', () => {
+  it('should prefill the existing rubric and show max points', () => {
+    render(<RubricEditor rubric={rubric} onSave={vi.fn()} onCancel={vi.fn()} />);
+
+    expect(screen.getByLabelText('Criterion 1 title')).toHaveValue('Thesis');
+    expect(screen.getByText('Max points: 10')).toBeInTheDocument();
+  });
+
+  it('should save edited criteria with numeric points', async () => {
+    const onSave = vi.fn().mockResolvedValue(undefined);
+    render(<RubricEditor rubric={rubric} onSave={onSave} onCancel={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Criterion 1 level 2 points'), {
+      target: { value: '8' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Save Rubric' }));
+
+    await waitFor(() =>
+      expect(onSave).toHaveBeenCalledWith({
+        criteria: [
+          {
+            title: 'Thesis',
+            description: null,
+            levels: [
+              { label: 'Weak', description: null, points: 2 },
+              { label: 'Strong', description: null, points: 8 },
+            ],
+          },
+        ],
+      })
+    );
+  });
+
+  it('should show save errors', async () => {
+    const onSave = vi.fn().mockRejectedValue(new Error('Cannot change a rubric that has been used for grading'));
+    render(<RubricEditor rubric={rubric} onSave={onSave} onCancel={vi.fn()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save Rubric' }));
+
+    expect(
+      await screen.findByText('Cannot change a rubric that has been used for grading')
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,172 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import type { RubricCriterion, SetRubricRequest } from '@/types/teacher';
+
+type CriterionDraft = SetRubricRequest['criteria'][number];
+
+interface RubricEditorProps {
+  rubric: RubricCriterion[];
+  onSave: (data: SetRubricRequest) => Promise<void>;
+  onCancel: () => void;
+}
+
+const EMPTY_CRITERION: CriterionDraft = {
+  title: '',
+  description: null,
+  levels: [{ label: '', description: null, points: 0 }],
+};
+
+/**
+ * Editor for the criteria and point levels of an assignment rubric
+ */
+export function RubricEditor({ rubric, onSave, onCancel }: RubricEditorProps) {
+  const [criteria, setCriteria] = useState<CriterionDraft[]>(() =>
+    rubric.length > 0
+      ? rubric.map((criterion) => ({
+          title: criterion.title,
+          description: criterion.description,
+          levels: criterion.levels.map((level) => ({
+            label: level.label,
+            description: level.description,
+            points: Number(level.points),
+          })),
+        }))
+      : [EMPTY_CRITERION]
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const maxPoints = criteria.reduce(
+    (sum, criterion) => sum + Math.max(0, ...criterion.levels.map((level) => level.points)),
+    0
+  );
+
+  const updateCriterion = (index: number, changes: Partial<CriterionDraft>) => {
+    setCriteria(criteria.map((c, i) => (i === index ? { ...c, ...changes } : c)));
+  };
+
+  const updateLevel = (
+    criterionIndex: number,
+    levelIndex: number,
+    changes: Partial<CriterionDraft['levels'][number]>
+  ) => {
+    const criterion = criteria[criterionIndex]!;
+    updateCriterion(criterionIndex, {
+      levels: criterion.levels.map((l, i) => (i === levelIndex ? { ...l, ...changes } : l)),
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await onSave({ criteria });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rubric');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass =
+    'px-3 py-2 border border-neutral-300 rounded-[2px] font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+  return (
+    <div className="space-y-4">
+      {criteria.map((criterion, criterionIndex) => (
+        <div
+          key={criterionIndex}
+          className="p-3 bg-neutral-50 border border-neutral-200 rounded-[2px] space-y-2"
+        >
+          <div className="flex gap-2">
+            <input
+              aria-label={`Criterion ${criterionIndex + 1} title`}
+              value={criterion.title}
+              onChange={(e) => updateCriterion(criterionIndex, { title: e.target.value })}
+              placeholder="Criterion"
+              className={`${inputClass} flex-1`}
+            />
+            <button
+              type="button"
+              onClick={() => setCriteria(criteria.filter((_, i) => i !== criterionIndex))}
+              disabled={criteria.length === 1}
+              className="text-xs font-mono text-red-600 uppercase disabled:text-neutral-400"
+            >
+              Remove
+            </button>
+          </div>
+          {criterion.levels.map((level, levelIndex) => (
+            <div key={levelIndex} className="flex gap-2 ml-4">
+              <input
+                aria-label={`Criterion ${criterionIndex + 1} level ${levelIndex + 1} label`}
+                value={level.label}
+                onChange={(e) => updateLevel(criterionIndex, levelIndex, { label: e.target.value })}
+                placeholder="Level"
+                className={`${inputClass} flex-1`}
+              />
+              <input
+                aria-label={`Criterion ${criterionIndex + 1} level ${levelIndex + 1} points`}
+                type="number"
+                min="0"
+                max="100"
+                step="0.5"
+                value={level.points}
+                onChange={(e) =>
+                  updateLevel(criterionIndex, levelIndex, { points: Number(e.target.value) })
+                }
+                className={`${inputClass} w-24`}
+              />
+              <button
+                type="button"
+                onClick={() =>
+                  updateCriterion(criterionIndex, {
+                    levels: criterion.levels.filter((_, i) => i !== levelIndex),
+                  })
+                }
+                disabled={criterion.levels.length === 1}
+                className="text-xs font-mono text-red-600 uppercase disabled:text-neutral-400"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() =>
+              updateCriterion(criterionIndex, {
+                levels: [...criterion.levels, { label: '', description: null, points: 0 }],
+              })
+            }
+            className="ml-4 text-xs font-mono text-primary hover:text-primary-400 uppercase"
+          >
+            + Add Level
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => setCriteria([...criteria, EMPTY_CRITERION])}
+          className="text-sm font-mono text-primary hover:text-primary-400 uppercase"
+        >
+          + Add Criterion
+        </button>
+        <p className="text-sm font-mono text-neutral-600">Max points: {maxPoints}</p>
+      </div>
+
+      {error && <p className="text-sm font-mono text-red-700">{error}</p>}
+
+      <div className="flex gap-3">
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save Rubric'}
+        </Button>
+        <Button variant="secondary" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@/__tests__/test-utils';
+import { SessionList, describeDevice } from './SessionList';
+import type { ActiveSession } from '@/types/auth';
+
+const FIREFOX_WINDOWS =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:128.0) Gecko/20100101 Firefox/128.0';
+const SAFARI_IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+
+const session = (overrides: Partial<ActiveSession> = {}): ActiveSession => ({
+  id: 'session-1',
+  userAgent: FIREFOX_WINDOWS,
+  ip: '10.0.0.1',
+  createdAt: '2026-03-01T10:00:00.000Z',
+  lastUsedAt: '2026-03-02T10:00:00.000Z',
+  expiresAt: '2026-03-09T10:00:00.000Z',
+  current: true,
+  ...overrides,
+});
+
+describe('describeDevice', () => {
+  it('should name the browser and platform', () => {
+    expect(describeDevice(FIREFOX_WINDOWS)).toBe('Firefox on Windows');
+    expect(describeDevice(SAFARI_IPHONE)).toBe('Safari on iOS');
+    expect(describeDevice('curl/8.0')).toBe('curl/8.0');
+    expect(describeDevice(null)).toBe('Unknown device');
+  });
+});
+
+describe('SessionList', () => {
+  it('should list devices with the current one marked', () => {
+    render(
+      <SessionList
+        sessions={[
+          session(),
+          session({ id: 'session-2', userAgent: SAFARI_IPHONE, ip: null, current: false }),
+        ]}
+        onRevoke={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('Firefox on Windows')).toBeInTheDocument();
+    expect(screen.getByText('Safari on iOS')).toBeInTheDocument();
+    expect(screen.getAllByText('This device')).toHaveLength(1);
+    expect(screen.getByText(/Unknown IP/)).toBeInTheDocument();
+  });
+
+  it('should log out a session', async () => {
+    const onRevoke = vi.fn().mockResolvedValue(undefined);
+    const other = session({ id: 'session-2', current: false });
+    render(<SessionList sessions={[session(), other]} onRevoke={onRevoke} />);
+
+    fireEvent.click(screen.getByLabelText('Log out session session-2'));
+
+    await waitFor(() => expect(onRevoke).toHaveBeenCalledWith(other));
+  });
+
+  it('should show errors from the API', async () => {
+    const onRevoke = vi.fn().mockRejectedValue(new Error('Session not found'));
+    render(<SessionList sessions={[session()]} onRevoke={onRevoke} />);
+
+    fireEvent.click(screen.getByLabelText('Log out session session-1'));
+
+    expect(await screen.findByText('Session not found')).toBeInTheDocument();
+  });
+
+  it('should show an empty state', () => {
+    render(<SessionList sessions={[]} onRevoke={vi.fn()} />);
+
+    expect(screen.getByText('No active sessions.')).toBeInTheDocument();
+  });
+});
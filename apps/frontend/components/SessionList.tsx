@@ -0,0 +1,101 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { ActiveSession } from '@/types/auth';
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Short device name from a user agent, e.g. "Firefox on Windows"
+ */
+export const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? userAgent;
+};
+
+interface SessionListProps {
+  sessions: ActiveSession[];
+  onRevoke: (session: ActiveSession) => Promise<void>;
+}
+
+/**
+ * Devices the user is logged in on, each of which can be logged out
+ */
+export function SessionList({ sessions, onRevoke }: SessionListProps) {
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRevoke = async (session: ActiveSession) => {
+    try {
+      setRevokingId(session.id);
+      setError(null);
+      await onRevoke(session);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log out session');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  if (sessions.length === 0) {
+    return <p className="text-sm font-mono text-neutral-600">No active sessions.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {sessions.map((session) => (
+          <div
+            key={session.id}
+            className="flex justify-between items-center p-3 bg-neutral-50 rounded-[2px] border border-neutral-200"
+          >
+            <div>
+              <p className="text-sm font-mono text-neutral-700">
+                {describeDevice(session.userAgent)}
+                {session.current && (
+                  <span className="ml-2 text-xs text-primary uppercase">This device</span>
+                )}
+              </p>
+              <p className="text-xs font-mono text-neutral-500">
+                {session.ip ?? 'Unknown IP'} · Last active{' '}
+                {new Date(session.lastUsedAt).toLocaleString()}
+              </p>
+              <p className="text-xs font-mono text-neutral-500">
+                Signed in {new Date(session.createdAt).toLocaleString()}
+              </p>
+            </div>
+            <button
+              type="button"
+              aria-label={`Log out session ${session.id}`}
+              onClick={() => handleRevoke(session)}
+              disabled={revokingId !== null}
+              className="text-xs font-mono text-red-600 hover:text-red-700 uppercase px-3 py-1 border border-red-300 rounded-[2px]"
+            >
+              {revokingId === session.id ? 'Logging out...' : 'Log out'}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-sm font-mono text-red-700">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, waitFor } from '@/__tests__/test-utils';
+import { SubmissionHistory } from './SubmissionHistory';
+import type { SubmissionVersion } from '@/types/student';
+
+const version = (versionNumber: number, overrides: Partial<SubmissionVersion> = {}): SubmissionVersion => ({
+  id: `version-${versionNumber}`,
+  submissionId: 'submission-1',
+  versionNumber,
+  content: `Draft ${versionNumber}`,
+  fileUrl: null,
+  grade: null,
+  feedback: null,
+  returnedAt: null,
+  createdAt: '2026-03-01T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('SubmissionHistory', () => {
+  it('should list versions with returned grade and feedback', async () => {
+    const loadVersions = vi.fn().mockResolvedValue([
+      version(1, { grade: '60.00', feedback: 'Needs more detail', returnedAt: '2026-03-02T10:00:00.000Z' }),
+    ]);
+
+    render(
+      <SubmissionHistory submissionId="submission-1" loadVersions={loadVersions} loadDiff={vi.fn()} />
+    );
+
+    expect(await screen.findByText('Version 1')).toBeInTheDocument();
+    expect(screen.getByText(/returned at 60.00\/100/i)).toBeInTheDocument();
+    expect(screen.getByText('Needs more detail')).toBeInTheDocument();
+  });
+
+  it('should diff the two latest versions by default', async () => {
+    const loadVersions = vi.fn().mockResolvedValue([version(1), version(2), version(3)]);
+    const loadDiff = vi.fn().mockResolvedValue({
+      from: version(2),
+      to: version(3),
+      changes: [
+        { type: 'removed', text: 'Draft 2' },
+        { type: 'added', text: 'Draft 3' },
+      ],
+    });
+
+    render(
+      <SubmissionHistory submissionId="submission-1" loadVersions={loadVersions} loadDiff={loadDiff} />
+    );
+
+    await waitFor(() => expect(loadDiff).toHaveBeenCalledWith('submission-1', 2, 3));
+    expect(await screen.findByText(/\+ Draft 3/)).toBeInTheDocument();
+  });
+
+  it('should show an error when versions fail to load', async () => {
+    const loadVersions = vi.fn().mockRejectedValue(new Error('Forbidden'));
+
+    render(
+      <SubmissionHistory submissionId="submission-1" loadVersions={loadVersions} loadDiff={vi.fn()} />
+    );
+
+    expect(await screen.findByText('Forbidden')).toBeInTheDocument();
+  });
+});
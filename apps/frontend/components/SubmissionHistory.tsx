@@ -0,0 +1,121 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { SubmissionVersion, SubmissionVersionDiff } from '@/types/student';
+
+interface SubmissionHistoryProps {
+  submissionId: string;
+  maxPoints?: number;
+  loadVersions: (submissionId: string) => Promise<SubmissionVersion[]>;
+  loadDiff: (submissionId: string, from: number, to: number) => Promise<SubmissionVersionDiff>;
+}
+
+/**
+ * Version list of a submission with a line diff between any two versions
+ */
+export function SubmissionHistory({
+  submissionId,
+  maxPoints = 100,
+  loadVersions,
+  loadDiff,
+}: SubmissionHistoryProps) {
+  const [versions, setVersions] = useState<SubmissionVersion[]>([]);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [diff, setDiff] = useState<SubmissionVersionDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadVersions(submissionId)
+      .then((data) => {
+        setVersions(data);
+        // Default to comparing the two most recent versions
+        if (data.length >= 2) {
+          setFromVersion(data[data.length - 2]!.versionNumber);
+          setToVersion(data[data.length - 1]!.versionNumber);
+        }
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load versions'));
+  }, [submissionId, loadVersions]);
+
+  useEffect(() => {
+    if (fromVersion === null || toVersion === null || fromVersion === toVersion) {
+      setDiff(null);
+      return;
+    }
+    loadDiff(submissionId, fromVersion, toVersion)
+      .then(setDiff)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load changes'));
+  }, [submissionId, fromVersion, toVersion, loadDiff]);
+
+  if (error) {
+    return <p className="text-sm font-mono text-red-700">{error}</p>;
+  }
+
+  const versionSelect = (value: number | null, onChange: (value: number) => void, label: string) => (
+    <select
+      aria-label={label}
+      value={value ?? ''}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="px-3 py-2 border border-neutral-300 rounded-[2px] font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+    >
+      {versions.map((version) => (
+        <option key={version.id} value={version.versionNumber}>
+          Version {version.versionNumber}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <ul className="space-y-2">
+        {versions.map((version) => (
+          <li key={version.id} className="text-xs font-mono text-neutral-600">
+            <span className="text-neutral-700">Version {version.versionNumber}</span>
+            {' • '}
+            {new Date(version.createdAt).toLocaleString()}
+            {version.returnedAt && (
+              <span className="ml-2 px-2 py-1 bg-yellow-100 text-yellow-800 uppercase rounded-[2px]">
+                Returned{version.grade !== null && ` at ${version.grade}/${maxPoints}`}
+              </span>
+            )}
+            {version.feedback && (
+              <p className="mt-1 text-neutral-500 whitespace-pre-wrap">{version.feedback}</p>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {versions.length >= 2 && (
+        <div>
+          <div className="flex items-center gap-2 mb-2 text-sm font-mono text-neutral-700">
+            <span>Compare</span>
+            {versionSelect(fromVersion, setFromVersion, 'From version')}
+            <span>with</span>
+            {versionSelect(toVersion, setToVersion, 'To version')}
+          </div>
+          {diff && (
+            <pre className="p-3 bg-neutral-50 border border-neutral-200 rounded-[2px] text-xs font-mono whitespace-pre-wrap">
+              {diff.changes.map((line, index) => (
+                <div
+                  key={index}
+                  className={
+                    line.type === 'added'
+                      ? 'bg-green-50 text-green-800'
+                      : line.type === 'removed'
+                        ? 'bg-red-50 text-red-800 line-through'
+                        : 'text-neutral-600'
+                  }
+                >
+                  {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                  {line.text}
+                </div>
+              ))}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@/__tests__/test-utils';
+import { UserPermissionManager } from './UserPermissionManager';
+import type { UserPermissions } from '@/types/admin';
+
+const permissions = (overrides: Partial<UserPermissions> = {}): UserPermissions => ({
+  role: ['classes:read_own', 'grades:update_own'],
+  granted: [],
+  ...overrides,
+});
+
+describe('UserPermissionManager', () => {
+  it('should list role permissions and offer grantable ones', () => {
+    render(<UserPermissionManager permissions={permissions()} onGrant={vi.fn()} onRevoke={vi.fn()} />);
+
+    expect(screen.getByText('No extra permissions.')).toBeInTheDocument();
+    expect(screen.getByText('classes:read_own, grades:update_own')).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: 'Read all classes' })).toBeInTheDocument();
+  });
+
+  it('should grant the selected permission', async () => {
+    const onGrant = vi.fn().mockResolvedValue(undefined);
+    render(<UserPermissionManager permissions={permissions()} onGrant={onGrant} onRevoke={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Permission to grant'), {
+      target: { value: 'grades:read_all' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Grant' }));
+
+    await waitFor(() => expect(onGrant).toHaveBeenCalledWith('grades:read_all'));
+  });
+
+  it('should revoke a granted permission and stop offering it', async () => {
+    const onRevoke = vi.fn().mockResolvedValue(undefined);
+    render(
+      <UserPermissionManager
+        permissions={permissions({
+          granted: [
+            {
+              userId: 'teacher-1',
+              permission: 'classes:read_all',
+              grantedBy: 'admin-1',
+              createdAt: '2026-03-01T10:00:00.000Z',
+            },
+          ],
+        })}
+        onGrant={vi.fn()}
+        onRevoke={onRevoke}
+      />
+    );
+
+    expect(screen.queryByRole('option', { name: 'Read all classes' })).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Revoke' }));
+
+    await waitFor(() => expect(onRevoke).toHaveBeenCalledWith('classes:read_all'));
+  });
+
+  it('should show errors from the server', async () => {
+    const onGrant = vi.fn().mockRejectedValue(new Error('Permission already exists'));
+    render(<UserPermissionManager permissions={permissions()} onGrant={onGrant} onRevoke={vi.fn()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Grant' }));
+
+    expect(await screen.findByText('Permission already exists')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import type { UserPermissions } from '@/types/admin';
+
+/**
+ * Permissions worth granting on top of a role: they lift the "own classes only" limit
+ */
+const GRANTABLE_PERMISSIONS: Record<string, string> = {
+  'classes:read_all': 'Read all classes',
+  'grades:read_all': 'Read all gradebooks',
+};
+
+interface UserPermissionManagerProps {
+  permissions: UserPermissions;
+  onGrant: (permission: string) => Promise<void>;
+  onRevoke: (permission: string) => Promise<void>;
+}
+
+/**
+ * Role permissions of a user plus the extra permissions an admin granted them
+ */
+export function UserPermissionManager({ permissions, onGrant, onRevoke }: UserPermissionManagerProps) {
+  const available = Object.keys(GRANTABLE_PERMISSIONS).filter(
+    (permission) =>
+      !permissions.role.includes(permission) &&
+      !permissions.granted.some((grant) => grant.permission === permission)
+  );
+  const [selected, setSelected] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update permissions');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleGrant = (e: React.FormEvent) => {
+    e.preventDefault();
+    const permission = selected || available[0];
+    if (!permission) return;
+    run(async () => {
+      await onGrant(permission);
+      setSelected('');
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-mono text-neutral-700 uppercase mb-2">Granted</h3>
+        {permissions.granted.length === 0 ? (
+          <p className="text-sm font-mono text-neutral-600">No extra permissions.</p>
+        ) : (
+          <ul className="space-y-2">
+            {permissions.granted.map((grant) => (
+              <li
+                key={grant.permission}
+                className="flex justify-between items-center p-2 bg-neutral-50 rounded-[2px] border border-neutral-200"
+              >
+                <span className="text-sm font-mono text-neutral-700">
+                  {GRANTABLE_PERMISSIONS[grant.permission] ?? grant.permission}
+                  <span className="text-xs text-neutral-500 ml-2">{grant.permission}</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => run(() => onRevoke(grant.permission))}
+                  disabled={isSaving}
+                  className="text-xs font-mono text-red-600 hover:text-red-700 uppercase px-3 py-1 border border-red-300 rounded-[2px]"
+                >
+                  Revoke
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {available.length > 0 && (
+        <form onSubmit={handleGrant} className="flex items-center gap-3">
+          <select
+            aria-label="Permission to grant"
+            value={selected || available[0]}
+            onChange={(e) => setSelected(e.target.value)}
+            className="flex-1 px-3 py-2 border border-neutral-300 rounded-[2px] font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            {available.map((permission) => (
+              <option key={permission} value={permission}>
+                {GRANTABLE_PERMISSIONS[permission]}
+              </option>
+            ))}
+          </select>
+          <Button type="submit" disabled={isSaving}>
+            Grant
+          </Button>
+        </form>
+      )}
+
+      <div>
+        <h3 className="text-sm font-mono text-neutral-700 uppercase mb-2">From Role</h3>
+        <p className="text-xs font-mono text-neutral-500 break-words">
+          {permissions.role.join(', ')}
+        </p>
+      </div>
+
+      {error && <p className="text-sm font-mono text-red-700">{error}</p>}
+    </div>
+  );
+}
@@ -24,12 +24,15 @@ vi.mock('next/navigation', () => ({
 const mockGetCurrentUser = vi.fn();
 const mockLogin = vi.fn();
 const mockLogout = vi.fn();
+const mockVerifyMfaChallenge = vi.fn();
 
 vi.mock('@/lib/api/authApi', () => ({
   authApi: {
     getCurrentUser: () => mockGetCurrentUser(),
     login: (email: string, password: string) => mockLogin(email, password),
     logout: () => mockLogout(),
+    verifyMfaChallenge: (challengeToken: string, code: string) =>
+      mockVerifyMfaChallenge(challengeToken, code),
     register: vi.fn(),
   },
 }));
@@ -149,6 +152,62 @@ describe('AuthContext', () => {
 
       expect(mockLogin).toHaveBeenCalledWith('test@example.com', 'password');
     });
+
+    it('should wait for the MFA challenge before setting the user', async () => {
+      const mockUser = createMockTeacher({ email: 'teacher@example.com' });
+      const challenge = {
+        challengeToken: 'a'.repeat(64),
+        enrollmentRequired: false,
+        expiresAt: '2026-03-01T10:05:00.000Z',
+      };
+      mockGetCurrentUser.mockResolvedValue(null);
+      mockLogin.mockResolvedValue({ mfa: challenge });
+      mockVerifyMfaChallenge.mockResolvedValue({ user: mockUser, recoveryCodes: null });
+
+      function MfaTestComponent() {
+        const { login, completeMfaLogin, user } = useAuth();
+        const [result, setResult] = React.useState('');
+
+        return (
+          <div>
+            <button
+              onClick={async () => {
+                const pending = await login('teacher@example.com', 'password');
+                setResult(pending ? pending.challengeToken : 'none');
+              }}
+            >
+              Login
+            </button>
+            <button onClick={() => completeMfaLogin(challenge.challengeToken, '123456')}>
+              Verify
+            </button>
+            <div data-testid="challenge">{result}</div>
+            <div data-testid="user">{user ? user.email : 'No User'}</div>
+          </div>
+        );
+      }
+
+      const user = userEvent.setup();
+      render(
+        <AuthProvider>
+          <MfaTestComponent />
+        </AuthProvider>
+      );
+
+      await user.click(screen.getByRole('button', { name: 'Login' }));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('challenge')).toHaveTextContent(challenge.challengeToken);
+      });
+      expect(screen.getByTestId('user')).toHaveTextContent('No User');
+
+      await user.click(screen.getByRole('button', { name: 'Verify' }));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('user')).toHaveTextContent('teacher@example.com');
+      });
+      expect(mockVerifyMfaChallenge).toHaveBeenCalledWith(challenge.challengeToken, '123456');
+    });
   });
 
   describe('logout', () => {
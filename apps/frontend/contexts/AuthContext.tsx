@@ -2,14 +2,17 @@
 
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import type { User } from '@/types/auth';
+import type { MfaChallenge, User } from '@/types/auth';
 import { authApi } from '@/lib/api/authApi';
 
 interface AuthContextValue {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves with a challenge when the user still has to pass MFA
+  login: (email: string, password: string) => Promise<MfaChallenge | null>;
+  // Resolves with recovery codes when the challenge finished an MFA setup
+  completeMfaLogin: (challengeToken: string, code: string) => Promise<string[] | null>;
   logout: () => Promise<void>;
   refetchUser: () => Promise<void>;
 }
@@ -34,7 +37,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const login = useCallback(async (email: string, password: string) => {
     const response = await authApi.login(email, password);
+    if (response.mfa) {
+      return response.mfa;
+    }
+    setUser(response.user ?? null);
+    return null;
+  }, []);
+
+  const completeMfaLogin = useCallback(async (challengeToken: string, code: string) => {
+    const response = await authApi.verifyMfaChallenge(challengeToken, code);
     setUser(response.user);
+    return response.recoveryCodes;
   }, []);
 
   const logout = useCallback(async () => {
@@ -64,6 +77,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     isAuthenticated: !!user,
     isLoading,
     login,
+    completeMfaLogin,
     logout,
     refetchUser,
   };
@@ -7,9 +7,18 @@ import type {
   UserSearchParams,
   UserResponse,
   TeacherGroup,
+  TeacherGroupMember,
   CreateTeacherGroupRequest,
   UpdateTeacherGroupRequest,
+  RosterImportResult,
+  Invitation,
+  CreateInvitationRequest,
+  AuditEvent,
+  AuditEventQueryParams,
+  PermissionGrant,
+  UserPermissions,
 } from '@/types/admin';
+import type { MfaStatus, Role } from '@/types/auth';
 
 export const adminApi = {
   // ============ USER MANAGEMENT ROUTES ============
@@ -90,71 +99,205 @@ export const adminApi = {
     return response.user;
   },
 
-  // ============ TEACHER GROUPS ROUTES (Placeholder - 501 Not Implemented) ============
+  /**
+   * Import students into any class from a CSV (Name, Email, Class),
+   * creating missing student accounts
+   */
+  importRoster: async (csv: string): Promise<RosterImportResult> => {
+    const response = await apiClient.post<{ result: RosterImportResult }>(
+      '/api/v0/admin/roster/import',
+      { csv }
+    );
+    return response.result;
+  },
+
+  // ============ PERMISSION ROUTES ============
+
+  /**
+   * Get a user's role permissions and the extra permissions granted to them
+   */
+  getUserPermissions: async (userId: string): Promise<UserPermissions> => {
+    const response = await apiClient.get<{ permissions: UserPermissions }>(
+      `/api/v0/admin/users/${userId}/permissions`
+    );
+    return response.permissions;
+  },
+
+  /**
+   * Grant an extra permission to a user
+   */
+  grantPermission: async (userId: string, permission: string): Promise<PermissionGrant> => {
+    const response = await apiClient.post<{ grant: PermissionGrant }>(
+      `/api/v0/admin/users/${userId}/permissions`,
+      { permission }
+    );
+    return response.grant;
+  },
+
+  /**
+   * Revoke a granted permission
+   */
+  revokePermission: async (userId: string, permission: string): Promise<void> => {
+    await apiClient.delete(
+      `/api/v0/admin/users/${userId}/permissions/${encodeURIComponent(permission)}`
+    );
+  },
+
+  // ============ MFA ROUTES ============
+
+  /**
+   * Get the MFA state of a user
+   */
+  getUserMfa: async (userId: string): Promise<MfaStatus> => {
+    const response = await apiClient.get<{ mfa: MfaStatus }>(`/api/v0/admin/users/${userId}/mfa`);
+    return response.mfa;
+  },
+
+  /**
+   * Reset a user's MFA, e.g. after they lost their device
+   */
+  resetUserMfa: async (userId: string): Promise<void> => {
+    await apiClient.delete(`/api/v0/admin/users/${userId}/mfa`);
+  },
+
+  /**
+   * Get the roles whose users must use MFA
+   */
+  getMfaRequiredRoles: async (): Promise<Role[]> => {
+    const response = await apiClient.get<{ roles: Role[] }>('/api/v0/admin/mfa/required-roles');
+    return response.roles;
+  },
+
+  /**
+   * Set the roles whose users must use MFA
+   */
+  setMfaRequiredRoles: async (roles: Role[]): Promise<Role[]> => {
+    const response = await apiClient.put<{ roles: Role[] }>('/api/v0/admin/mfa/required-roles', {
+      roles,
+    });
+    return response.roles;
+  },
+
+  // ============ INVITATION ROUTES ============
+
+  /**
+   * Get pending account invitations
+   */
+  getInvitations: async (): Promise<Invitation[]> => {
+    const response = await apiClient.get<{ invitations: Invitation[] }>(
+      '/api/v0/admin/invitations'
+    );
+    return response.invitations;
+  },
+
+  /**
+   * Invite someone to create an account with a fixed role
+   */
+  createInvitation: async (data: CreateInvitationRequest): Promise<Invitation> => {
+    const response = await apiClient.post<{ invitation: Invitation }>(
+      '/api/v0/admin/invitations',
+      data
+    );
+    return response.invitation;
+  },
+
+  /**
+   * Revoke a pending invitation
+   */
+  revokeInvitation: async (token: string): Promise<void> => {
+    await apiClient.delete(`/api/v0/admin/invitations/${token}`);
+  },
+
+  // ============ AUDIT LOG ROUTES ============
+
+  /**
+   * Get audit log events, newest first, with optional filters and pagination
+   */
+  getAuditEvents: async (
+    params?: AuditEventQueryParams
+  ): Promise<{ events: AuditEvent[]; total: number }> => {
+    const queryParams = new URLSearchParams();
+    if (params?.actorId) queryParams.set('actorId', params.actorId);
+    if (params?.action) queryParams.set('action', params.action);
+    if (params?.targetType) queryParams.set('targetType', params.targetType);
+    if (params?.targetId) queryParams.set('targetId', params.targetId);
+    if (params?.from) queryParams.set('from', params.from);
+    if (params?.to) queryParams.set('to', params.to);
+    if (params?.page) queryParams.set('page', params.page.toString());
+    if (params?.limit) queryParams.set('limit', params.limit.toString());
+
+    const url = `/api/v0/admin/audit-events${queryParams.toString() ? `?${queryParams}` : ''}`;
+    return apiClient.get<{ events: AuditEvent[]; total: number }>(url);
+  },
+
+  // ============ TEACHER GROUPS ROUTES ============
 
   /**
    * Get all teacher groups
-   * Note: Returns 501 - Not Implemented (future feature)
    */
-  getTeacherGroups: async (): Promise<TeacherGroup[]> => {
-    try {
-      const response = await apiClient.get<{ teacherGroups: TeacherGroup[] }>(
-        '/api/v0/admin/teacher-groups'
-      );
-      return response.teacherGroups;
-    } catch (error) {
-      // Expected 501 response for now
-      return [];
-    }
+  getTeacherGroups: async (params?: { page?: number; limit?: number }): Promise<TeacherGroup[]> => {
+    const queryParams = new URLSearchParams();
+    if (params?.page) queryParams.set('page', params.page.toString());
+    if (params?.limit) queryParams.set('limit', params.limit.toString());
+
+    const url = `/api/v0/admin/teacher-groups${queryParams.toString() ? `?${queryParams}` : ''}`;
+    const response = await apiClient.get<{ teacherGroups: TeacherGroup[] }>(url);
+    return response.teacherGroups;
   },
 
   /**
    * Create a new teacher group
-   * Note: Returns 501 - Not Implemented (future feature)
    */
-  createTeacherGroup: async (data: CreateTeacherGroupRequest): Promise<TeacherGroup | null> => {
-    try {
-      const response = await apiClient.post<{ teacherGroup: TeacherGroup }>(
-        '/api/v0/admin/teacher-groups',
-        data
-      );
-      return response.teacherGroup;
-    } catch (error) {
-      // Expected 501 response for now
-      return null;
-    }
+  createTeacherGroup: async (data: CreateTeacherGroupRequest): Promise<TeacherGroup> => {
+    const response = await apiClient.post<{ teacherGroup: TeacherGroup }>(
+      '/api/v0/admin/teacher-groups',
+      data
+    );
+    return response.teacherGroup;
   },
 
   /**
    * Update a teacher group
-   * Note: Returns 501 - Not Implemented (future feature)
    */
   updateTeacherGroup: async (
     groupId: string,
     data: UpdateTeacherGroupRequest
-  ): Promise<TeacherGroup | null> => {
-    try {
-      const response = await apiClient.put<{ teacherGroup: TeacherGroup }>(
-        `/api/v0/admin/teacher-groups/${groupId}`,
-        data
-      );
-      return response.teacherGroup;
-    } catch (error) {
-      // Expected 501 response for now
-      return null;
-    }
+  ): Promise<TeacherGroup> => {
+    const response = await apiClient.put<{ teacherGroup: TeacherGroup }>(
+      `/api/v0/admin/teacher-groups/${groupId}`,
+      data
+    );
+    return response.teacherGroup;
   },
 
   /**
    * Delete a teacher group
-   * Note: Returns 501 - Not Implemented (future feature)
    */
   deleteTeacherGroup: async (groupId: string): Promise<void> => {
-    try {
-      await apiClient.delete(`/api/v0/admin/teacher-groups/${groupId}`);
-    } catch (error) {
-      // Expected 501 response for now
-      // Silently fail for future feature
-    }
+    await apiClient.delete(`/api/v0/admin/teacher-groups/${groupId}`);
+  },
+
+  /**
+   * Get members of a teacher group
+   */
+  getTeacherGroupMembers: async (groupId: string): Promise<TeacherGroupMember[]> => {
+    const response = await apiClient.get<{ members: TeacherGroupMember[] }>(
+      `/api/v0/admin/teacher-groups/${groupId}/members`
+    );
+    return response.members;
+  },
+
+  /**
+   * Add a teacher to a group
+   */
+  addTeacherGroupMember: async (groupId: string, teacherId: string): Promise<void> => {
+    await apiClient.post(`/api/v0/admin/teacher-groups/${groupId}/members`, { teacherId });
+  },
+
+  /**
+   * Remove a teacher from a group
+   */
+  removeTeacherGroupMember: async (groupId: string, teacherId: string): Promise<void> => {
+    await apiClient.delete(`/api/v0/admin/teacher-groups/${groupId}/members/${teacherId}`);
   },
 };
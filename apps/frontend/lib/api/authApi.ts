@@ -1,12 +1,84 @@
 import { apiClient } from '../apiClient';
-import type { User, LoginRequest, RegisterRequest, AuthResponse } from '@/types/auth';
+import type {
+  User,
+  LoginRequest,
+  RegisterRequest,
+  AuthResponse,
+  InvitationDetails,
+  AcceptInvitationRequest,
+  ActiveSession,
+  LoginResponse,
+  MfaVerifyResponse,
+  MfaEnrollment,
+  MfaStatus,
+} from '@/types/auth';
 
 export const authApi = {
   /**
-   * Login with email and password
+   * Login with email and password; users with MFA get a challenge instead of a session
    */
-  login: async (email: string, password: string): Promise<AuthResponse> => {
-    return apiClient.post<AuthResponse>('/api/v0/auth/login', { email, password });
+  login: async (email: string, password: string): Promise<LoginResponse> => {
+    return apiClient.post<LoginResponse>('/api/v0/auth/login', { email, password });
+  },
+
+  /**
+   * Finish a login with the MFA challenge token and a TOTP or recovery code
+   */
+  verifyMfaChallenge: async (challengeToken: string, code: string): Promise<MfaVerifyResponse> => {
+    return apiClient.post<MfaVerifyResponse>('/api/v0/auth/mfa/challenge/verify', {
+      challengeToken,
+      code,
+    });
+  },
+
+  /**
+   * Start the MFA setup a role requires, during login
+   */
+  startChallengeEnrollment: async (challengeToken: string): Promise<MfaEnrollment> => {
+    return apiClient.post<MfaEnrollment>('/api/v0/auth/mfa/challenge/enroll', { challengeToken });
+  },
+
+  /**
+   * Get the MFA state of the current user
+   */
+  getMfaStatus: async (): Promise<MfaStatus> => {
+    const response = await apiClient.get<{ mfa: MfaStatus }>('/api/v0/auth/mfa');
+    return response.mfa;
+  },
+
+  /**
+   * Start MFA setup with a new secret
+   */
+  startMfaEnrollment: async (): Promise<MfaEnrollment> => {
+    return apiClient.post<MfaEnrollment>('/api/v0/auth/mfa/enroll');
+  },
+
+  /**
+   * Finish MFA setup with a first code; returns the recovery codes
+   */
+  confirmMfaEnrollment: async (code: string): Promise<string[]> => {
+    const response = await apiClient.post<{ recoveryCodes: string[] }>('/api/v0/auth/mfa/confirm', {
+      code,
+    });
+    return response.recoveryCodes;
+  },
+
+  /**
+   * Replace the recovery codes, confirmed with a current code
+   */
+  regenerateRecoveryCodes: async (code: string): Promise<string[]> => {
+    const response = await apiClient.post<{ recoveryCodes: string[] }>(
+      '/api/v0/auth/mfa/recovery-codes',
+      { code }
+    );
+    return response.recoveryCodes;
+  },
+
+  /**
+   * Turn MFA off, confirmed with a current code
+   */
+  disableMfa: async (code: string): Promise<void> => {
+    return apiClient.post<void>('/api/v0/auth/mfa/disable', { code });
   },
 
   /**
@@ -19,6 +91,37 @@ export const authApi = {
     });
   },
 
+  /**
+   * Get a pending invitation by its token
+   */
+  getInvitation: async (token: string): Promise<InvitationDetails> => {
+    const response = await apiClient.get<{ invitation: InvitationDetails }>(
+      `/api/v0/auth/invitations/${token}`
+    );
+    return response.invitation;
+  },
+
+  /**
+   * Accept an invitation: create the account with the invited role
+   */
+  acceptInvitation: async (token: string, data: AcceptInvitationRequest): Promise<AuthResponse> => {
+    return apiClient.post<AuthResponse>(`/api/v0/auth/invitations/${token}/accept`, data);
+  },
+
+  /**
+   * Ask for a password reset link by email (same response whether or not the account exists)
+   */
+  requestPasswordReset: async (email: string): Promise<void> => {
+    await apiClient.post<{ message: string }>('/api/v0/auth/password-reset/request', { email });
+  },
+
+  /**
+   * Set a new password with the token from the reset email
+   */
+  resetPassword: async (token: string, password: string): Promise<void> => {
+    return apiClient.post<void>('/api/v0/auth/password-reset', { token, password });
+  },
+
   /**
    * Logout current user
    */
@@ -26,6 +129,21 @@ export const authApi = {
     return apiClient.post<void>('/api/v0/auth/logout');
   },
 
+  /**
+   * List the devices the current user is logged in on
+   */
+  getSessions: async (): Promise<ActiveSession[]> => {
+    const response = await apiClient.get<{ sessions: ActiveSession[] }>('/api/v0/auth/sessions');
+    return response.sessions;
+  },
+
+  /**
+   * Log out one device; revoking the current session logs this browser out
+   */
+  revokeSession: async (sessionId: string): Promise<void> => {
+    return apiClient.delete<void>(`/api/v0/auth/sessions/${sessionId}`);
+  },
+
   /**
    * Get current authenticated user
    */
@@ -0,0 +1,53 @@
+import { apiClient } from '../apiClient';
+import type { Notification, NotificationList } from '@/types/notification';
+
+export const notificationsApi = {
+  /**
+   * Get own notifications (newest first) and the unread count
+   */
+  getNotifications: async (options: { unread?: boolean; limit?: number } = {}): Promise<NotificationList> => {
+    const params = new URLSearchParams();
+    if (options.unread) params.set('unread', 'true');
+    if (options.limit) params.set('limit', String(options.limit));
+    const query = params.toString();
+    return apiClient.get<NotificationList>(`/api/v0/notifications${query ? `?${query}` : ''}`);
+  },
+
+  /**
+   * Get the unread notification count
+   */
+  getUnreadCount: async (): Promise<number> => {
+    const response = await apiClient.get<{ unreadCount: number }>(
+      '/api/v0/notifications/unread-count'
+    );
+    return response.unreadCount;
+  },
+
+  /**
+   * Mark a notification as read
+   */
+  markRead: async (id: string): Promise<Notification> => {
+    const response = await apiClient.post<{ notification: Notification }>(
+      `/api/v0/notifications/${id}/read`
+    );
+    return response.notification;
+  },
+
+  /**
+   * Mark a notification as unread
+   */
+  markUnread: async (id: string): Promise<Notification> => {
+    const response = await apiClient.delete<{ notification: Notification }>(
+      `/api/v0/notifications/${id}/read`
+    );
+    return response.notification;
+  },
+
+  /**
+   * Mark all own notifications as read
+   */
+  markAllRead: async (): Promise<number> => {
+    const response = await apiClient.post<{ count: number }>('/api/v0/notifications/read-all');
+    return response.count;
+  },
+};
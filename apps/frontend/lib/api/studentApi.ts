@@ -5,8 +5,13 @@ import type {
   Submission,
   Grade,
   GradeWithSubmission,
+  CourseGrade,
   SubmitAssignmentRequest,
   UpdateSubmissionRequest,
+  Lesson,
+  SubmissionAttachment,
+  SubmissionVersion,
+  SubmissionVersionDiff,
 } from '@/types/student';
 
 export const studentApi = {
@@ -18,6 +23,36 @@ export const studentApi = {
     return response.classes;
   },
 
+  /**
+   * Enroll in a class with its join code
+   */
+  joinClass: async (code: string): Promise<Class> => {
+    const response = await apiClient.post<{ class: Class }>('/api/v0/student/classes/join', {
+      code,
+    });
+    return response.class;
+  },
+
+  /**
+   * Get published lessons of an enrolled class
+   */
+  getLessons: async (classId: string): Promise<Lesson[]> => {
+    const response = await apiClient.get<{ lessons: Lesson[] }>(
+      `/api/v0/student/classes/${classId}/lessons`
+    );
+    return response.lessons;
+  },
+
+  /**
+   * Get a published lesson by ID
+   */
+  getLessonById: async (classId: string, lessonId: string): Promise<Lesson> => {
+    const response = await apiClient.get<{ lesson: Lesson }>(
+      `/api/v0/student/classes/${classId}/lessons/${lessonId}`
+    );
+    return response.lesson;
+  },
+
   /**
    * Get all assignments for student's classes
    */
@@ -38,6 +73,16 @@ export const studentApi = {
     return response.assignment;
   },
 
+  /**
+   * Get own submission for an assignment (null if not submitted yet)
+   */
+  getOwnSubmission: async (assignmentId: string): Promise<Submission | null> => {
+    const response = await apiClient.get<{ submission: Submission | null }>(
+      `/api/v0/student/assignments/${assignmentId}/submission`
+    );
+    return response.submission;
+  },
+
   /**
    * Submit an assignment
    */
@@ -63,6 +108,69 @@ export const studentApi = {
     return response.submission;
   },
 
+  /**
+   * Upload files to own submission
+   */
+  uploadAttachments: async (
+    submissionId: string,
+    files: File[]
+  ): Promise<SubmissionAttachment[]> => {
+    const formData = new FormData();
+    files.forEach((file) => formData.append('files', file));
+    const response = await apiClient.upload<{ attachments: SubmissionAttachment[] }>(
+      `/api/v0/student/submissions/${submissionId}/attachments`,
+      formData
+    );
+    return response.attachments;
+  },
+
+  /**
+   * Get files attached to own submission
+   */
+  getAttachments: async (submissionId: string): Promise<SubmissionAttachment[]> => {
+    const response = await apiClient.get<{ attachments: SubmissionAttachment[] }>(
+      `/api/v0/student/submissions/${submissionId}/attachments`
+    );
+    return response.attachments;
+  },
+
+  /**
+   * Remove a file from own submission (before it's graded)
+   */
+  deleteAttachment: async (attachmentId: string): Promise<void> => {
+    await apiClient.delete(`/api/v0/student/attachments/${attachmentId}`);
+  },
+
+  /**
+   * Authenticated download URL for an attachment
+   */
+  getAttachmentDownloadUrl: (attachmentId: string): string => {
+    return apiClient.url(`/api/v0/attachments/${attachmentId}/download`);
+  },
+
+  /**
+   * Get version history of own submission
+   */
+  getSubmissionVersions: async (submissionId: string): Promise<SubmissionVersion[]> => {
+    const response = await apiClient.get<{ versions: SubmissionVersion[] }>(
+      `/api/v0/student/submissions/${submissionId}/versions`
+    );
+    return response.versions;
+  },
+
+  /**
+   * Compare two versions of own submission
+   */
+  diffSubmissionVersions: async (
+    submissionId: string,
+    from: number,
+    to: number
+  ): Promise<SubmissionVersionDiff> => {
+    return apiClient.get<SubmissionVersionDiff>(
+      `/api/v0/student/submissions/${submissionId}/versions/diff?from=${from}&to=${to}`
+    );
+  },
+
   /**
    * Get all grades for student
    */
@@ -73,6 +181,16 @@ export const studentApi = {
     return response.grades;
   },
 
+  /**
+   * Get weighted course grade per enrolled class
+   */
+  getCourseGrades: async (): Promise<CourseGrade[]> => {
+    const response = await apiClient.get<{ courseGrades: CourseGrade[] }>(
+      '/api/v0/student/course-grades'
+    );
+    return response.courseGrades;
+  },
+
   /**
    * Get specific grade details by ID
    */
@@ -4,6 +4,7 @@ import type {
   Assignment,
   Submission,
   Grade,
+  GradeRevision,
   CreateClassRequest,
   UpdateClassRequest,
   CreateAssignmentRequest,
@@ -12,6 +13,27 @@ import type {
   AddMultipleStudentsRequest,
   GradeSubmissionRequest,
   AssignmentStats,
+  Lesson,
+  CreateLessonRequest,
+  UpdateLessonRequest,
+  SubmissionAttachment,
+  SubmissionVersion,
+  SubmissionVersionDiff,
+  RubricCriterion,
+  SetRubricRequest,
+  AssignmentCategory,
+  CreateCategoryRequest,
+  UpdateCategoryRequest,
+  Gradebook,
+  BulkGradeRequest,
+  GradeImportResult,
+  ImportGradesRequest,
+  RosterImportResult,
+  ClassJoinCode,
+  RegenerateJoinCodeRequest,
+  ClassStaffMember,
+  ClassStaffRole,
+  AddClassStaffRequest,
 } from '@/types/teacher';
 
 export const teacherApi = {
@@ -77,6 +99,84 @@ export const teacherApi = {
     return response.enrolled;
   },
 
+  /**
+   * Import students into own classes from a CSV (Name, Email, Class),
+   * creating missing student accounts
+   */
+  importRoster: async (csv: string): Promise<RosterImportResult> => {
+    const response = await apiClient.post<{ result: RosterImportResult }>(
+      '/api/v0/teacher/roster/import',
+      { csv }
+    );
+    return response.result;
+  },
+
+  /**
+   * Get the class join code (null when disabled)
+   */
+  getJoinCode: async (classId: string): Promise<ClassJoinCode | null> => {
+    const response = await apiClient.get<{ joinCode: ClassJoinCode | null }>(
+      `/api/v0/teacher/classes/${classId}/join-code`
+    );
+    return response.joinCode;
+  },
+
+  /**
+   * Generate a new class join code, replacing the previous one
+   */
+  regenerateJoinCode: async (
+    classId: string,
+    data: RegenerateJoinCodeRequest
+  ): Promise<ClassJoinCode> => {
+    const response = await apiClient.post<{ joinCode: ClassJoinCode }>(
+      `/api/v0/teacher/classes/${classId}/join-code`,
+      data
+    );
+    return response.joinCode;
+  },
+
+  /**
+   * Disable the class join code
+   */
+  disableJoinCode: async (classId: string): Promise<void> => {
+    await apiClient.delete(`/api/v0/teacher/classes/${classId}/join-code`);
+  },
+
+  /**
+   * Get the class staff (owner, co-teachers and TAs)
+   */
+  getClassStaff: async (classId: string): Promise<ClassStaffMember[]> => {
+    const response = await apiClient.get<{ staff: ClassStaffMember[] }>(
+      `/api/v0/teacher/classes/${classId}/staff`
+    );
+    return response.staff;
+  },
+
+  /**
+   * Add a co-teacher or TA to a class (owner only)
+   */
+  addClassStaff: async (classId: string, data: AddClassStaffRequest): Promise<void> => {
+    await apiClient.post(`/api/v0/teacher/classes/${classId}/staff`, data);
+  },
+
+  /**
+   * Change the role of a staff member (owner only)
+   */
+  updateClassStaffRole: async (
+    classId: string,
+    userId: string,
+    role: Exclude<ClassStaffRole, 'owner'>
+  ): Promise<void> => {
+    await apiClient.put(`/api/v0/teacher/classes/${classId}/staff/${userId}`, { role });
+  },
+
+  /**
+   * Remove a staff member, or leave the staff of a class
+   */
+  removeClassStaff: async (classId: string, userId: string): Promise<void> => {
+    await apiClient.delete(`/api/v0/teacher/classes/${classId}/staff/${userId}`);
+  },
+
   /**
    * Remove student from class
    */
@@ -84,6 +184,51 @@ export const teacherApi = {
     await apiClient.delete(`/api/v0/teacher/classes/${classId}/students/${studentId}`);
   },
 
+  // ============ LESSON ROUTES ============
+
+  /**
+   * Get all lessons of a class (including drafts)
+   */
+  getLessons: async (classId: string): Promise<Lesson[]> => {
+    const response = await apiClient.get<{ lessons: Lesson[] }>(
+      `/api/v0/teacher/classes/${classId}/lessons`
+    );
+    return response.lessons;
+  },
+
+  /**
+   * Create a lesson in a class
+   */
+  createLesson: async (classId: string, data: CreateLessonRequest): Promise<Lesson> => {
+    const response = await apiClient.post<{ lesson: Lesson }>(
+      `/api/v0/teacher/classes/${classId}/lessons`,
+      data
+    );
+    return response.lesson;
+  },
+
+  /**
+   * Update a lesson (also used to reorder, publish and unpublish)
+   */
+  updateLesson: async (
+    classId: string,
+    lessonId: string,
+    data: UpdateLessonRequest
+  ): Promise<Lesson> => {
+    const response = await apiClient.put<{ lesson: Lesson }>(
+      `/api/v0/teacher/classes/${classId}/lessons/${lessonId}`,
+      data
+    );
+    return response.lesson;
+  },
+
+  /**
+   * Delete a lesson
+   */
+  deleteLesson: async (classId: string, lessonId: string): Promise<void> => {
+    await apiClient.delete(`/api/v0/teacher/classes/${classId}/lessons/${lessonId}`);
+  },
+
   // ============ ASSIGNMENT ROUTES ============
 
   /**
@@ -131,6 +276,63 @@ export const teacherApi = {
     await apiClient.delete(`/api/v0/teacher/assignments/${assignmentId}`);
   },
 
+  /**
+   * Release an assignment's grades to students
+   */
+  releaseGrades: async (assignmentId: string): Promise<Assignment> => {
+    const response = await apiClient.post<{ assignment: Assignment }>(
+      `/api/v0/teacher/assignments/${assignmentId}/release-grades`
+    );
+    return response.assignment;
+  },
+
+  // ============ CATEGORY ROUTES ============
+
+  /**
+   * Get weighted assignment categories of a class
+   */
+  getCategories: async (classId: string): Promise<AssignmentCategory[]> => {
+    const response = await apiClient.get<{ categories: AssignmentCategory[] }>(
+      `/api/v0/teacher/classes/${classId}/categories`
+    );
+    return response.categories;
+  },
+
+  /**
+   * Add a weighted assignment category to a class
+   */
+  createCategory: async (
+    classId: string,
+    data: CreateCategoryRequest
+  ): Promise<AssignmentCategory> => {
+    const response = await apiClient.post<{ category: AssignmentCategory }>(
+      `/api/v0/teacher/classes/${classId}/categories`,
+      data
+    );
+    return response.category;
+  },
+
+  /**
+   * Rename or reweight an assignment category
+   */
+  updateCategory: async (
+    categoryId: string,
+    data: UpdateCategoryRequest
+  ): Promise<AssignmentCategory> => {
+    const response = await apiClient.put<{ category: AssignmentCategory }>(
+      `/api/v0/teacher/categories/${categoryId}`,
+      data
+    );
+    return response.category;
+  },
+
+  /**
+   * Delete an assignment category
+   */
+  deleteCategory: async (categoryId: string): Promise<void> => {
+    await apiClient.delete(`/api/v0/teacher/categories/${categoryId}`);
+  },
+
   // ============ SUBMISSION & GRADING ROUTES ============
 
   /**
@@ -143,6 +345,56 @@ export const teacherApi = {
     return response.submissions;
   },
 
+  /**
+   * Get files attached to a submission
+   */
+  getSubmissionAttachments: async (submissionId: string): Promise<SubmissionAttachment[]> => {
+    const response = await apiClient.get<{ attachments: SubmissionAttachment[] }>(
+      `/api/v0/teacher/submissions/${submissionId}/attachments`
+    );
+    return response.attachments;
+  },
+
+  /**
+   * Authenticated download URL for an attachment
+   */
+  getAttachmentDownloadUrl: (attachmentId: string): string => {
+    return apiClient.url(`/api/v0/attachments/${attachmentId}/download`);
+  },
+
+  /**
+   * Get version history of a submission
+   */
+  getSubmissionVersions: async (submissionId: string): Promise<SubmissionVersion[]> => {
+    const response = await apiClient.get<{ versions: SubmissionVersion[] }>(
+      `/api/v0/teacher/submissions/${submissionId}/versions`
+    );
+    return response.versions;
+  },
+
+  /**
+   * Compare two versions of a submission
+   */
+  diffSubmissionVersions: async (
+    submissionId: string,
+    from: number,
+    to: number
+  ): Promise<SubmissionVersionDiff> => {
+    return apiClient.get<SubmissionVersionDiff>(
+      `/api/v0/teacher/submissions/${submissionId}/versions/diff?from=${from}&to=${to}`
+    );
+  },
+
+  /**
+   * Return a graded submission to the student for revision
+   */
+  returnSubmission: async (submissionId: string): Promise<Submission> => {
+    const response = await apiClient.post<{ submission: Submission }>(
+      `/api/v0/teacher/submissions/${submissionId}/return`
+    );
+    return response.submission;
+  },
+
   /**
    * Grade a submission
    */
@@ -157,6 +409,90 @@ export const teacherApi = {
     return response.grade;
   },
 
+  /**
+   * Get the change history of a submission's grade, newest first
+   */
+  getGradeRevisions: async (submissionId: string): Promise<GradeRevision[]> => {
+    const response = await apiClient.get<{ revisions: GradeRevision[] }>(
+      `/api/v0/teacher/submissions/${submissionId}/grade/revisions`
+    );
+    return response.revisions;
+  },
+
+  /**
+   * Grade several submissions at once, replacing existing grades
+   */
+  bulkGradeSubmissions: async (data: BulkGradeRequest): Promise<number> => {
+    const response = await apiClient.post<{ count: number }>('/api/v0/teacher/grades/bulk', data);
+    return response.count;
+  },
+
+  /**
+   * Get the students x assignments grade matrix of a class
+   */
+  getGradebook: async (classId: string): Promise<Gradebook> => {
+    const response = await apiClient.get<{ gradebook: Gradebook }>(
+      `/api/v0/teacher/classes/${classId}/gradebook`
+    );
+    return response.gradebook;
+  },
+
+  /**
+   * Authenticated download URL for the gradebook CSV of a class
+   */
+  getGradebookCsvUrl: (classId: string): string => {
+    return apiClient.url(`/api/v0/teacher/classes/${classId}/gradebook.csv`);
+  },
+
+  /**
+   * Authenticated download URL for the grades CSV of an assignment
+   */
+  getAssignmentGradesCsvUrl: (assignmentId: string): string => {
+    return apiClient.url(`/api/v0/teacher/assignments/${assignmentId}/grades.csv`);
+  },
+
+  /**
+   * Import assignment grades from CSV; a dry run only reports per-row problems
+   */
+  importGradesCsv: async (
+    assignmentId: string,
+    data: ImportGradesRequest
+  ): Promise<GradeImportResult> => {
+    const response = await apiClient.post<{ result: GradeImportResult }>(
+      `/api/v0/teacher/assignments/${assignmentId}/grades/import`,
+      data
+    );
+    return response.result;
+  },
+
+  /**
+   * Get the rubric of an assignment (empty if none)
+   */
+  getRubric: async (assignmentId: string): Promise<RubricCriterion[]> => {
+    const response = await apiClient.get<{ rubric: RubricCriterion[] }>(
+      `/api/v0/teacher/assignments/${assignmentId}/rubric`
+    );
+    return response.rubric;
+  },
+
+  /**
+   * Replace the rubric of an assignment
+   */
+  setRubric: async (assignmentId: string, data: SetRubricRequest): Promise<RubricCriterion[]> => {
+    const response = await apiClient.put<{ rubric: RubricCriterion[] }>(
+      `/api/v0/teacher/assignments/${assignmentId}/rubric`,
+      data
+    );
+    return response.rubric;
+  },
+
+  /**
+   * Remove the rubric of an assignment
+   */
+  deleteRubric: async (assignmentId: string): Promise<void> => {
+    await apiClient.delete(`/api/v0/teacher/assignments/${assignmentId}/rubric`);
+  },
+
   /**
    * Get submission statistics for an assignment
    */
@@ -16,10 +16,28 @@ interface ApiError {
 }
 
 class ApiClient {
+  // Refresh tokens are single-use: concurrent 401s share one refresh call,
+  // since replaying the same token would log the session out
+  private refreshPromise: Promise<boolean> | null = null;
+
   private get baseURL(): string {
     return getApiUrl();
   }
 
+  private refreshSession(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = fetch(`${this.baseURL}/api/v0/auth/refresh`, {
+        method: 'POST',
+        credentials: 'include',
+      })
+        .then((response) => response.ok)
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
   private async fetchWithRefresh<T>(
     url: string,
     options: RequestInit = {}
@@ -29,23 +47,23 @@ class ApiClient {
       ...options,
       credentials: 'include', // CRITICAL: Include cookies for JWT auth
       headers: {
-        ...(options.body ? { 'Content-Type': 'application/json' } : {}),
+        // FormData bodies set their own multipart boundary header
+        ...(options.body && !(options.body instanceof FormData)
+          ? { 'Content-Type': 'application/json' }
+          : {}),
         ...options.headers,
       },
     });
 
     // If 401 Unauthorized, try to refresh the token
-    // But skip refresh for public endpoints (login, register, refresh itself)
-    const publicEndpoints = ['/auth/login', '/auth/register', '/auth/refresh'];
+    // But skip refresh for public endpoints (login and its MFA step, register, refresh itself)
+    const publicEndpoints = ['/auth/login', '/auth/mfa/challenge', '/auth/register', '/auth/refresh'];
     const isPublicEndpoint = publicEndpoints.some(endpoint => url.includes(endpoint));
 
     if (response.status === 401 && !isPublicEndpoint) {
-      const refreshResponse = await fetch(`${this.baseURL}/api/v0/auth/refresh`, {
-        method: 'POST',
-        credentials: 'include',
-      });
+      const refreshed = await this.refreshSession();
 
-      if (refreshResponse.ok) {
+      if (refreshed) {
         // Retry the original request
         return this.fetchWithRefresh<T>(url, options);
       } else {
@@ -96,6 +114,24 @@ class ApiClient {
   async delete<T>(url: string): Promise<T> {
     return this.fetchWithRefresh<T>(url, { method: 'DELETE' });
   }
+
+  /**
+   * POST multipart/form-data (file uploads)
+   */
+  async upload<T>(url: string, formData: FormData): Promise<T> {
+    return this.fetchWithRefresh<T>(url, {
+      method: 'POST',
+      body: formData,
+    });
+  }
+
+  /**
+   * Absolute URL for endpoints opened directly by the browser (e.g. file downloads)
+   * Auth cookies are sent automatically since the API shares the cookie domain
+   */
+  url(path: string): string {
+    return `${this.baseURL}${path}`;
+  }
 }
 
 export const apiClient = new ApiClient();
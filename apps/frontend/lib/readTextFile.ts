@@ -0,0 +1,14 @@
+/**
+ * Reads a file picked in a file input as text.
+ *
+ * @param file - File from an input's FileList
+ * @returns The file contents
+ */
+export function readTextFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Failed to read ${file.name}`));
+    reader.readAsText(file);
+  });
+}
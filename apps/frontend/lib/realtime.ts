@@ -0,0 +1,96 @@
+import { useEffect, useRef } from 'react';
+import { apiClient } from './apiClient';
+import { authApi } from './api/authApi';
+import type { RealtimeEvent, RealtimeEventType } from '@/types/realtime';
+
+const EVENT_TYPES: RealtimeEventType[] = [
+  'submission_created',
+  'submission_updated',
+  'grade_posted',
+  'grade_updated',
+  'notification_created',
+];
+
+// Wait before reopening a stream the server refused (e.g. expired access token)
+const RECONNECT_DELAY_MS = 5_000;
+
+type Listener = (event: RealtimeEvent) => void;
+
+const listeners = new Set<Listener>();
+let source: EventSource | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+const open = () => {
+  const eventSource = new EventSource(apiClient.url('/api/v0/events'), { withCredentials: true });
+
+  const dispatch = (message: MessageEvent<string>) => {
+    const event = JSON.parse(message.data) as RealtimeEvent;
+    listeners.forEach((listener) => listener(event));
+  };
+  EVENT_TYPES.forEach((type) => eventSource.addEventListener(type, dispatch));
+
+  // The browser retries dropped connections itself but gives up on an error
+  // response, so refresh the session through the API client and reopen
+  eventSource.onerror = () => {
+    if (eventSource.readyState !== EventSource.CLOSED) {
+      return;
+    }
+    source = null;
+    reconnectTimer = setTimeout(async () => {
+      reconnectTimer = null;
+      try {
+        await authApi.getCurrentUser();
+      } catch {
+        return;
+      }
+      if (listeners.size > 0 && !source) {
+        source = open();
+      }
+    }, RECONNECT_DELAY_MS);
+  };
+
+  return eventSource;
+};
+
+/**
+ * Listen to live updates of the signed-in user
+ * All listeners share one connection, opened with the first and closed with the last
+ * @returns Function that stops listening
+ */
+export function subscribeToEvents(listener: Listener): () => void {
+  listeners.add(listener);
+  if (!source && !reconnectTimer) {
+    source = open();
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size > 0) {
+      return;
+    }
+    source?.close();
+    source = null;
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+  };
+}
+
+/**
+ * Call a handler for every live update while enabled (e.g. once signed in)
+ */
+export function useRealtimeEvents(onEvent: Listener, enabled = true): void {
+  const handlerRef = useRef(onEvent);
+
+  useEffect(() => {
+    handlerRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    return subscribeToEvents((event) => handlerRef.current(event));
+  }, [enabled]);
+}
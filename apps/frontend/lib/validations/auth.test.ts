@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { loginSchema, registerSchema, getPasswordStrength } from './auth';
+import {
+  loginSchema,
+  registerSchema,
+  acceptInvitationSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  getPasswordStrength,
+} from './auth';
 
 describe('Auth Validation', () => {
   describe('loginSchema', () => {
@@ -157,6 +164,74 @@ describe('Auth Validation', () => {
     });
   });
 
+  describe('acceptInvitationSchema', () => {
+    it('should validate name and matching passwords', () => {
+      const result = acceptInvitationSchema.safeParse({
+        name: 'Ada Lovelace',
+        password: 'Password123!',
+        confirmPassword: 'Password123!',
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should require a number like the API does', () => {
+      const result = acceptInvitationSchema.safeParse({
+        name: 'Ada Lovelace',
+        password: 'Password!!',
+        confirmPassword: 'Password!!',
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe('Password must contain at least one number');
+      }
+    });
+
+    it('should reject mismatched passwords', () => {
+      const result = acceptInvitationSchema.safeParse({
+        name: 'Ada Lovelace',
+        password: 'Password123!',
+        confirmPassword: 'Password123?',
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual(['confirmPassword']);
+      }
+    });
+  });
+
+  describe('forgotPasswordSchema', () => {
+    it('should require a valid email', () => {
+      expect(forgotPasswordSchema.safeParse({ email: 'a@example.com' }).success).toBe(true);
+      expect(forgotPasswordSchema.safeParse({ email: 'not-an-email' }).success).toBe(false);
+    });
+  });
+
+  describe('resetPasswordSchema', () => {
+    it('should validate matching passwords', () => {
+      const result = resetPasswordSchema.safeParse({
+        password: 'Password123!',
+        confirmPassword: 'Password123!',
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject mismatched passwords', () => {
+      const result = resetPasswordSchema.safeParse({
+        password: 'Password123!',
+        confirmPassword: 'Password123?',
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual(['confirmPassword']);
+      }
+    });
+  });
+
   describe('getPasswordStrength', () => {
     it('should return "weak" for short passwords', () => {
       expect(getPasswordStrength('Pass1!')).toBe('weak');
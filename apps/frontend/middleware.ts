@@ -6,7 +6,15 @@ export function middleware(request: NextRequest) {
   const path = request.nextUrl.pathname;
 
   // Public routes - allow without authentication
-  const publicPaths = ['/login', '/register', '/oauth', '/'];
+  const publicPaths = [
+    '/login',
+    '/register',
+    '/invite',
+    '/forgot-password',
+    '/reset-password',
+    '/oauth',
+    '/',
+  ];
   const isPublicPath = publicPaths.some((publicPath) => path.startsWith(publicPath));
 
   if (isPublicPath) {
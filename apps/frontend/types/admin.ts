@@ -86,30 +86,171 @@ export interface UserResponse {
 }
 
 /**
- * Teacher group (placeholder for future implementation)
+ * Teacher group managed by an admin
  */
 export interface TeacherGroup {
   id: string;
   name: string;
-  description: string | null;
+  adminId: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Teacher belonging to a teacher group
+ */
+export interface TeacherGroupMember {
+  id: string;
+  name: string;
+  email: string;
+  joinedAt: string;
+}
+
 /**
  * Request body for creating a teacher group
+ * Maps to CreateTeacherGroupSchema in backend
  */
 export interface CreateTeacherGroupRequest {
   name: string;
-  description?: string;
 }
 
 /**
  * Request body for updating a teacher group
+ * Maps to UpdateTeacherGroupSchema in backend
  */
 export interface UpdateTeacherGroupRequest {
   name?: string;
-  description?: string | null;
+}
+
+/**
+ * Outcome of one row in a roster CSV import
+ */
+export type RosterImportStatus =
+  | 'created'
+  | 'enrolled'
+  | 'already_enrolled'
+  | 'invalid_row'
+  | 'unknown_class'
+  | 'ambiguous_class'
+  | 'not_a_student';
+
+/**
+ * One row of a roster CSV import report
+ */
+export interface RosterImportRow {
+  line: number;
+  name: string;
+  email: string;
+  class: string;
+  classId: string | null;
+  status: RosterImportStatus;
+  message: string | null;
+}
+
+/**
+ * Roster CSV import report
+ */
+export interface RosterImportResult {
+  rows: RosterImportRow[];
+  created: number;
+  enrolled: number;
+  errorCount: number;
+}
+
+/**
+ * Pending account invitation
+ * The token is single-use and goes into the invitation link
+ */
+export interface Invitation {
+  token: string;
+  email: string;
+  name: string | null;
+  role: Role;
+  invitedBy: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Request body for inviting someone
+ * Maps to CreateInvitationSchema in backend
+ */
+export interface CreateInvitationRequest {
+  email: string;
+  role: Role;
+  name?: string;
+}
+
+/**
+ * Permission granted to a user on top of those of their role
+ */
+export interface PermissionGrant {
+  userId: string;
+  permission: string;
+  grantedBy: string | null;
+  createdAt: string;
+}
+
+/**
+ * Permissions of a user: from the role table and granted by an admin
+ */
+export interface UserPermissions {
+  role: string[];
+  granted: PermissionGrant[];
+}
+
+/**
+ * Audited action
+ */
+export type AuditAction =
+  | 'user_updated'
+  | 'user_suspended'
+  | 'user_unsuspended'
+  | 'user_deleted'
+  | 'class_deleted'
+  | 'students_transferred'
+  | 'grade_posted'
+  | 'grade_updated'
+  | 'grade_returned'
+  | 'permission_granted'
+  | 'permission_revoked'
+  | 'refresh_token_reused'
+  | 'mfa_reset';
+
+/**
+ * Kind of record an audit event is about
+ */
+export type AuditTargetType = 'user' | 'class' | 'submission';
+
+/**
+ * Audit log entry
+ * The actor is null for system actions or when the actor's account was deleted
+ */
+export interface AuditEvent {
+  id: string;
+  actorId: string | null;
+  actor: { id: string; name: string; email: string } | null;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+/**
+ * Audit log filters
+ * Maps to AuditEventQuerySchema in backend
+ */
+export interface AuditEventQueryParams {
+  actorId?: string;
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
 }
 
 /**
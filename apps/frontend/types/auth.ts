@@ -19,11 +19,80 @@ export interface RegisterRequest {
   role: 'student'; // Always student for self-registration
 }
 
+export interface InvitationDetails {
+  email: string;
+  name: string | null;
+  role: Role;
+  expiresAt: string;
+}
+
+export interface AcceptInvitationRequest {
+  name: string;
+  password: string;
+}
+
+/**
+ * A device the user is logged in on
+ */
+export interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
 export interface AuthResponse {
   user: User;
   message?: string;
 }
 
+/**
+ * Second login step for users with MFA, returned by login instead of a session
+ */
+export interface MfaChallenge {
+  challengeToken: string;
+  // The user's role requires MFA and they have not set it up yet
+  enrollmentRequired: boolean;
+  expiresAt: string;
+}
+
+/**
+ * Login outcome: the user, or an MFA challenge to pass first
+ */
+export interface LoginResponse {
+  user?: User;
+  mfa?: MfaChallenge;
+}
+
+/**
+ * Outcome of a passed MFA challenge; recovery codes are set when it finished an enrollment
+ */
+export interface MfaVerifyResponse {
+  user: User;
+  recoveryCodes: string[] | null;
+}
+
+/**
+ * Secret to add to an authenticator app, and the otpauth URI its QR code encodes
+ */
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+/**
+ * MFA state of a user
+ */
+export interface MfaStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
 export interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
@@ -0,0 +1,23 @@
+/**
+ * In-app notification types for frontend
+ * Based on database schema from @concentrate/database
+ */
+
+export type NotificationType = 'assignment_created' | 'grade_posted' | 'class_enrolled';
+
+export interface Notification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  /** Frontend path of the page the notification is about */
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationList {
+  notifications: Notification[];
+  unreadCount: number;
+}
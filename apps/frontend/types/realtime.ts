@@ -0,0 +1,23 @@
+/**
+ * Live update types for frontend
+ * Mirrors RealtimeEvent from @concentrate/services
+ */
+
+export type RealtimeEvent =
+  | {
+      type: 'submission_created' | 'submission_updated';
+      assignmentId: string;
+      submissionId: string;
+      studentId: string;
+    }
+  | {
+      type: 'grade_posted' | 'grade_updated';
+      assignmentId: string;
+      submissionId: string;
+    }
+  | {
+      type: 'notification_created';
+      notificationId: string;
+    };
+
+export type RealtimeEventType = RealtimeEvent['type'];
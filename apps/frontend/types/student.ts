@@ -12,12 +12,35 @@ export interface Class {
   updatedAt: string;
 }
 
+export type LatePolicy = 'reject' | 'allow' | 'penalty';
+
 export interface Assignment {
   id: string;
   classId: string;
   title: string;
   description: string;
   dueDate: string;
+  latePolicy: LatePolicy;
+  lateCutoff: string | null;
+  latePenaltyPerDay: number;
+  maxPoints: number;
+  categoryId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type LessonStatus = 'draft' | 'published';
+
+export interface Lesson {
+  id: string;
+  classId: string;
+  title: string;
+  content: string;
+  moduleName: string | null;
+  modulePosition: number;
+  position: number;
+  status: LessonStatus;
+  publishedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -28,10 +51,75 @@ export interface Submission {
   studentId: string;
   content: string;
   fileUrl: string | null;
+  isLate: boolean;
+  latePenalty: number;
+  returnedAt: string | null;
   submittedAt: string;
   updatedAt: string;
 }
 
+export interface SubmissionVersion {
+  id: string;
+  submissionId: string;
+  versionNumber: number;
+  content: string;
+  fileUrl: string | null;
+  grade: string | null;
+  feedback: string | null;
+  returnedAt: string | null;
+  createdAt: string;
+}
+
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface SubmissionVersionDiff {
+  from: SubmissionVersion;
+  to: SubmissionVersion;
+  changes: DiffLine[];
+}
+
+export interface SubmissionAttachment {
+  id: string;
+  submissionId: string;
+  filename: string;
+  mimeType: string;
+  sizeBytes: number;
+  createdAt: string;
+}
+
+export interface RubricLevel {
+  id: string;
+  criterionId: string;
+  label: string;
+  description: string | null;
+  points: string;
+  position: number;
+}
+
+export interface RubricCriterion {
+  id: string;
+  assignmentId: string;
+  title: string;
+  description: string | null;
+  position: number;
+  createdAt: string;
+  levels: RubricLevel[];
+}
+
+export interface RubricScore {
+  id: string;
+  gradeId: string;
+  criterionId: string;
+  levelId: string;
+  points: string;
+  comment: string | null;
+  criterionTitle: string;
+  levelLabel: string;
+}
+
 export interface Grade {
   id: string;
   submissionId: string;
@@ -44,15 +132,37 @@ export interface Grade {
 
 export interface GradeWithSubmission {
   submission: Submission;
-  grade: Grade;
+  // Null while the grade is pending release
+  grade: Grade | null;
+  rubricScores: RubricScore[];
+  pendingRelease: boolean;
   assignment: {
     id: string;
     title: string;
     description: string;
     dueDate: string;
+    latePolicy: LatePolicy;
+    maxPoints: number;
+    gradesReleasedAt: string | null;
   };
 }
 
+export interface CourseGradeCategory {
+  categoryId: string | null;
+  name: string;
+  weight: number;
+  pointsEarned: number;
+  pointsPossible: number;
+  percent: number | null;
+}
+
+export interface CourseGrade {
+  classId: string;
+  studentId: string;
+  courseGrade: number | null;
+  categories: CourseGradeCategory[];
+}
+
 export interface SubmitAssignmentRequest {
   assignmentId: string;
   content: string;
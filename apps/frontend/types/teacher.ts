@@ -12,12 +12,37 @@ export interface Class {
   updatedAt: string;
 }
 
+export type LatePolicy = 'reject' | 'allow' | 'penalty';
+
 export interface Assignment {
   id: string;
   classId: string;
   title: string;
   description: string;
   dueDate: string;
+  latePolicy: LatePolicy;
+  lateCutoff: string | null;
+  latePenaltyPerDay: number;
+  maxPoints: number;
+  categoryId: string | null;
+  // Null until the teacher releases the grades to students
+  gradesReleasedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type LessonStatus = 'draft' | 'published';
+
+export interface Lesson {
+  id: string;
+  classId: string;
+  title: string;
+  content: string;
+  moduleName: string | null;
+  modulePosition: number;
+  position: number;
+  status: LessonStatus;
+  publishedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -28,10 +53,91 @@ export interface Submission {
   studentId: string;
   content: string;
   fileUrl: string | null;
+  isLate: boolean;
+  latePenalty: number;
+  returnedAt: string | null;
   submittedAt: string;
   updatedAt: string;
 }
 
+export interface SubmissionVersion {
+  id: string;
+  submissionId: string;
+  versionNumber: number;
+  content: string;
+  fileUrl: string | null;
+  grade: string | null;
+  feedback: string | null;
+  returnedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Change to a posted grade, with the values it replaced
+ */
+export interface GradeRevision {
+  id: string;
+  submissionId: string;
+  teacherId: string | null;
+  teacherName: string | null;
+  previousGrade: string;
+  previousFeedback: string | null;
+  grade: string;
+  feedback: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface SubmissionVersionDiff {
+  from: SubmissionVersion;
+  to: SubmissionVersion;
+  changes: DiffLine[];
+}
+
+export interface SubmissionAttachment {
+  id: string;
+  submissionId: string;
+  filename: string;
+  mimeType: string;
+  sizeBytes: number;
+  createdAt: string;
+}
+
+export interface RubricLevel {
+  id: string;
+  criterionId: string;
+  label: string;
+  description: string | null;
+  points: string;
+  position: number;
+}
+
+export interface RubricCriterion {
+  id: string;
+  assignmentId: string;
+  title: string;
+  description: string | null;
+  position: number;
+  createdAt: string;
+  levels: RubricLevel[];
+}
+
+export interface RubricScore {
+  id: string;
+  gradeId: string;
+  criterionId: string;
+  levelId: string;
+  points: string;
+  comment: string | null;
+  criterionTitle: string;
+  levelLabel: string;
+}
+
 export interface Grade {
   id: string;
   submissionId: string;
@@ -42,6 +148,45 @@ export interface Grade {
   updatedAt: string;
 }
 
+export interface AssignmentCategory {
+  id: string;
+  classId: string;
+  name: string;
+  weight: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ClassJoinCode {
+  classId: string;
+  code: string;
+  expiresAt: string | null;
+  maxUses: number | null;
+  useCount: number;
+  createdAt: string;
+}
+
+export interface RegenerateJoinCodeRequest {
+  expiresAt?: string | null;
+  maxUses?: number | null;
+}
+
+export type ClassStaffRole = 'owner' | 'co_teacher' | 'ta';
+
+export interface ClassStaffMember {
+  classId: string;
+  userId: string;
+  role: ClassStaffRole;
+  name: string;
+  email: string;
+  createdAt: string;
+}
+
+export interface AddClassStaffRequest {
+  email: string;
+  role: Exclude<ClassStaffRole, 'owner'>;
+}
+
 export interface CreateClassRequest {
   name: string;
   description?: string;
@@ -57,12 +202,40 @@ export interface CreateAssignmentRequest {
   title: string;
   description: string;
   dueDate: string;
+  latePolicy?: LatePolicy;
+  lateCutoff?: string | null;
+  latePenaltyPerDay?: number;
+  maxPoints?: number;
+  categoryId?: string | null;
 }
 
 export interface UpdateAssignmentRequest {
   title?: string;
   description?: string;
   dueDate?: string;
+  latePolicy?: LatePolicy;
+  lateCutoff?: string | null;
+  latePenaltyPerDay?: number;
+  maxPoints?: number;
+  categoryId?: string | null;
+}
+
+export interface CreateLessonRequest {
+  title: string;
+  content: string;
+  moduleName?: string;
+  modulePosition?: number;
+  position?: number;
+  status?: LessonStatus;
+}
+
+export interface UpdateLessonRequest {
+  title?: string;
+  content?: string;
+  moduleName?: string | null;
+  modulePosition?: number;
+  position?: number;
+  status?: LessonStatus;
 }
 
 export interface AddStudentRequest {
@@ -73,9 +246,133 @@ export interface AddMultipleStudentsRequest {
   studentIds: string[];
 }
 
+export interface RubricScoreInput {
+  criterionId: string;
+  levelId: string;
+  comment?: string;
+}
+
 export interface GradeSubmissionRequest {
-  grade: number;
+  grade?: number;
+  rubricScores?: RubricScoreInput[];
   feedback?: string | null;
+  // Required when the submission's grade is already released
+  reason?: string;
+}
+
+export interface SetRubricRequest {
+  criteria: Array<{
+    title: string;
+    description?: string | null;
+    levels: Array<{
+      label: string;
+      description?: string | null;
+      points: number;
+    }>;
+  }>;
+}
+
+export interface CreateCategoryRequest {
+  name: string;
+  weight: number;
+}
+
+export interface UpdateCategoryRequest {
+  name?: string;
+  weight?: number;
+}
+
+export type GradebookStatus = 'submitted' | 'late' | 'missing' | 'pending';
+
+export interface GradebookCell {
+  assignmentId: string;
+  submissionId: string | null;
+  status: GradebookStatus;
+  grade: number | null;
+  latePenalty: number;
+}
+
+export interface GradebookRow {
+  student: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  courseGrade: number | null;
+  cells: GradebookCell[];
+}
+
+export interface Gradebook {
+  classId: string;
+  assignments: Assignment[];
+  rows: GradebookRow[];
+}
+
+export interface BulkGradeRequest {
+  grades: Array<{
+    submissionId: string;
+    grade: number;
+    feedback?: string;
+  }>;
+  // Required when any released grade changes
+  reason?: string;
+}
+
+export type GradeImportStatus =
+  | 'ok'
+  | 'skipped'
+  | 'invalid_grade'
+  | 'out_of_range'
+  | 'unknown_student'
+  | 'duplicate_student'
+  | 'missing_submission';
+
+export interface GradeImportRow {
+  line: number;
+  email: string;
+  grade: number | null;
+  feedback: string | null;
+  status: GradeImportStatus;
+}
+
+export interface GradeImportResult {
+  dryRun: boolean;
+  rows: GradeImportRow[];
+  errorCount: number;
+  imported: number;
+}
+
+export interface ImportGradesRequest {
+  csv: string;
+  dryRun?: boolean;
+  // Required when the import changes released grades
+  reason?: string;
+}
+
+export type RosterImportStatus =
+  | 'created'
+  | 'enrolled'
+  | 'already_enrolled'
+  | 'invalid_row'
+  | 'unknown_class'
+  | 'ambiguous_class'
+  | 'not_a_student';
+
+export interface RosterImportRow {
+  line: number;
+  name: string;
+  email: string;
+  class: string;
+  classId: string | null;
+  status: RosterImportStatus;
+  message: string | null;
+}
+
+export interface RosterImportResult {
+  rows: RosterImportRow[];
+  created: number;
+  enrolled: number;
+  errorCount: number;
 }
 
 export interface ClassWithStudentCount extends Class {
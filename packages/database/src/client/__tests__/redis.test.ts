@@ -265,7 +265,7 @@ describe('Redis Client', () => {
         const sessionKey = await createTestSession(userId, token)
 
         expect(sessionKey).toBe(`session:${token}`)
-        const storedUserId = await redisTest.get(sessionKey)
+        const storedUserId = await redisTest.hget(sessionKey, 'userId')
         expect(storedUserId).toBe(userId)
 
         const ttl = await redisTest.ttl(sessionKey)
@@ -0,0 +1,28 @@
+/**
+ * Session Storage Migration Script
+ * Upgrades refresh token sessions stored as `session:{token}` -> `{userId}` strings
+ * to hashes indexed per user (see SessionRepository)
+ *
+ * This script is idempotent - it can be run multiple times safely
+ */
+
+import { redis, connectRedis, disconnectRedis } from './client/redis'
+import { SessionRepository } from './repositories/SessionRepository'
+
+async function migrateSessions() {
+  await connectRedis()
+
+  const upgraded = await new SessionRepository(redis).migrateLegacySessions()
+  console.log(`Upgraded ${upgraded} legacy session(s)`)
+}
+
+migrateSessions()
+  .then(async () => {
+    await disconnectRedis()
+    process.exit(0)
+  })
+  .catch(async (error) => {
+    console.error('Session migration failed:', error)
+    await disconnectRedis()
+    process.exit(1)
+  })
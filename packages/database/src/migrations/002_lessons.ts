@@ -0,0 +1,44 @@
+import { Kysely, sql } from 'kysely'
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Create lesson status enum
+  await sql`CREATE TYPE lesson_status AS ENUM ('draft', 'published')`.execute(db)
+
+  // Create lessons table
+  await db.schema
+    .createTable('lessons')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`)
+    )
+    .addColumn('class_id', 'uuid', (col) =>
+      col.references('classes.id').onDelete('cascade').notNull()
+    )
+    .addColumn('title', 'varchar(255)', (col) => col.notNull())
+    .addColumn('content', 'text', (col) => col.notNull())
+    .addColumn('module_name', 'varchar(255)')
+    .addColumn('module_position', 'integer', (col) => col.defaultTo(0).notNull())
+    .addColumn('position', 'integer', (col) => col.defaultTo(0).notNull())
+    .addColumn('status', sql`lesson_status`, (col) => col.defaultTo('draft').notNull())
+    .addColumn('published_at', 'timestamptz')
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+    )
+    .addColumn('updated_at', 'timestamptz', (col) =>
+      col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+    )
+    .execute()
+
+  await db.schema.createIndex('idx_lessons_class').on('lessons').column('class_id').execute()
+
+  await sql`
+    CREATE TRIGGER update_lessons_updated_at
+    BEFORE UPDATE ON lessons
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+  `.execute(db)
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('lessons').ifExists().execute()
+  await sql`DROP TYPE IF EXISTS lesson_status`.execute(db)
+}
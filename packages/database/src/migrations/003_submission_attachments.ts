@@ -0,0 +1,31 @@
+import { Kysely, sql } from 'kysely'
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Create submission attachments table
+  await db.schema
+    .createTable('submission_attachments')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`)
+    )
+    .addColumn('submission_id', 'uuid', (col) =>
+      col.references('submissions.id').onDelete('cascade').notNull()
+    )
+    .addColumn('filename', 'varchar(255)', (col) => col.notNull())
+    .addColumn('mime_type', 'varchar(255)', (col) => col.notNull())
+    .addColumn('size_bytes', 'integer', (col) => col.notNull())
+    .addColumn('storage_key', 'varchar(500)', (col) => col.notNull().unique())
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+    )
+    .execute()
+
+  await db.schema
+    .createIndex('idx_submission_attachments_submission')
+    .on('submission_attachments')
+    .column('submission_id')
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('submission_attachments').ifExists().execute()
+}
@@ -0,0 +1,42 @@
+import { Kysely, sql } from 'kysely'
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Create late policy enum
+  await sql`CREATE TYPE late_policy AS ENUM ('reject', 'allow', 'penalty')`.execute(db)
+
+  // Per-assignment late submission policy
+  await db.schema
+    .alterTable('assignments')
+    .addColumn('late_policy', sql`late_policy`, (col) => col.defaultTo('reject').notNull())
+    .addColumn('late_cutoff', 'timestamptz')
+    .addColumn('late_penalty_per_day', 'integer', (col) =>
+      col.defaultTo(0).notNull().check(sql`late_penalty_per_day BETWEEN 0 AND 100`)
+    )
+    .execute()
+
+  // Late flag and total penalty (percent) computed at submission time
+  await db.schema
+    .alterTable('submissions')
+    .addColumn('is_late', 'boolean', (col) => col.defaultTo(false).notNull())
+    .addColumn('late_penalty', 'integer', (col) =>
+      col.defaultTo(0).notNull().check(sql`late_penalty BETWEEN 0 AND 100`)
+    )
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('submissions')
+    .dropColumn('is_late')
+    .dropColumn('late_penalty')
+    .execute()
+
+  await db.schema
+    .alterTable('assignments')
+    .dropColumn('late_policy')
+    .dropColumn('late_cutoff')
+    .dropColumn('late_penalty_per_day')
+    .execute()
+
+  await sql`DROP TYPE IF EXISTS late_policy`.execute(db)
+}
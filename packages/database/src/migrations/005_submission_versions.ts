@@ -0,0 +1,45 @@
+import { Kysely, sql } from 'kysely'
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Immutable snapshots of submission content, one per submit/update
+  await db.schema
+    .createTable('submission_versions')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`)
+    )
+    .addColumn('submission_id', 'uuid', (col) =>
+      col.references('submissions.id').onDelete('cascade').notNull()
+    )
+    .addColumn('version_number', 'integer', (col) => col.notNull())
+    .addColumn('content', 'text', (col) => col.notNull())
+    .addColumn('file_url', 'varchar(500)')
+    // Grade and feedback the version had when it was returned for revision
+    .addColumn('grade', sql`numeric(5,2)`)
+    .addColumn('feedback', 'text')
+    .addColumn('returned_at', 'timestamptz')
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+    )
+    .addUniqueConstraint('submission_versions_submission_version_unique', [
+      'submission_id',
+      'version_number',
+    ])
+    .execute()
+
+  // Set while a submission is returned for revision and not yet resubmitted
+  await db.schema
+    .alterTable('submissions')
+    .addColumn('returned_at', 'timestamptz')
+    .execute()
+
+  // Existing submissions become version 1
+  await sql`
+    INSERT INTO submission_versions (submission_id, version_number, content, file_url, created_at)
+    SELECT id, 1, content, file_url, submitted_at FROM submissions
+  `.execute(db)
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('submissions').dropColumn('returned_at').execute()
+  await db.schema.dropTable('submission_versions').ifExists().execute()
+}
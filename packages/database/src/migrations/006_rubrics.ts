@@ -0,0 +1,78 @@
+import { Kysely, sql } from 'kysely'
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Rubric criteria belong to an assignment and are shown in position order
+  await db.schema
+    .createTable('rubric_criteria')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`)
+    )
+    .addColumn('assignment_id', 'uuid', (col) =>
+      col.references('assignments.id').onDelete('cascade').notNull()
+    )
+    .addColumn('title', 'varchar(255)', (col) => col.notNull())
+    .addColumn('description', 'text')
+    .addColumn('position', 'integer', (col) => col.notNull().defaultTo(0))
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+    )
+    .execute()
+
+  await db.schema
+    .createIndex('rubric_criteria_assignment_id_index')
+    .on('rubric_criteria')
+    .column('assignment_id')
+    .execute()
+
+  // Performance levels of a criterion, each worth a fixed number of points
+  await db.schema
+    .createTable('rubric_levels')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`)
+    )
+    .addColumn('criterion_id', 'uuid', (col) =>
+      col.references('rubric_criteria.id').onDelete('cascade').notNull()
+    )
+    .addColumn('label', 'varchar(255)', (col) => col.notNull())
+    .addColumn('description', 'text')
+    .addColumn('points', sql`numeric(5,2)`, (col) =>
+      col.notNull().check(sql`points >= 0`)
+    )
+    .addColumn('position', 'integer', (col) => col.notNull().defaultTo(0))
+    .execute()
+
+  await db.schema
+    .createIndex('rubric_levels_criterion_id_index')
+    .on('rubric_levels')
+    .column('criterion_id')
+    .execute()
+
+  // Level chosen for each criterion when a grade was given with the rubric
+  await db.schema
+    .createTable('grade_criterion_scores')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`)
+    )
+    .addColumn('grade_id', 'uuid', (col) =>
+      col.references('grades.id').onDelete('cascade').notNull()
+    )
+    .addColumn('criterion_id', 'uuid', (col) =>
+      col.references('rubric_criteria.id').onDelete('cascade').notNull()
+    )
+    .addColumn('level_id', 'uuid', (col) =>
+      col.references('rubric_levels.id').onDelete('cascade').notNull()
+    )
+    .addColumn('points', sql`numeric(5,2)`, (col) => col.notNull())
+    .addColumn('comment', 'text')
+    .addUniqueConstraint('grade_criterion_scores_grade_criterion_unique', [
+      'grade_id',
+      'criterion_id',
+    ])
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('grade_criterion_scores').ifExists().execute()
+  await db.schema.dropTable('rubric_levels').ifExists().execute()
+  await db.schema.dropTable('rubric_criteria').ifExists().execute()
+}
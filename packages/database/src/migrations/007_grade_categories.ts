@@ -0,0 +1,59 @@
+import { Kysely, sql } from 'kysely'
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Weighted assignment categories per class (e.g. Homework 30%, Exams 70%)
+  await db.schema
+    .createTable('assignment_categories')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`)
+    )
+    .addColumn('class_id', 'uuid', (col) =>
+      col.references('classes.id').onDelete('cascade').notNull()
+    )
+    .addColumn('name', 'varchar(100)', (col) => col.notNull())
+    .addColumn('weight', 'integer', (col) =>
+      col.notNull().check(sql`weight BETWEEN 0 AND 100`)
+    )
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+    )
+    .addColumn('updated_at', 'timestamptz', (col) =>
+      col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+    )
+    .addUniqueConstraint('assignment_categories_class_name_unique', ['class_id', 'name'])
+    .execute()
+
+  await sql`
+    CREATE TRIGGER update_assignment_categories_updated_at
+    BEFORE UPDATE ON assignment_categories
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+  `.execute(db)
+
+  // Grades are points out of max_points; existing assignments stay out of 100
+  await db.schema
+    .alterTable('assignments')
+    .addColumn('max_points', 'integer', (col) =>
+      col.defaultTo(100).notNull().check(sql`max_points BETWEEN 1 AND 999`)
+    )
+    .addColumn('category_id', 'uuid', (col) =>
+      col.references('assignment_categories.id').onDelete('set null')
+    )
+    .execute()
+
+  await db.schema
+    .createIndex('idx_assignments_category')
+    .on('assignments')
+    .column('category_id')
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('assignments')
+    .dropColumn('max_points')
+    .dropColumn('category_id')
+    .execute()
+
+  await db.schema.dropTable('assignment_categories').ifExists().execute()
+}
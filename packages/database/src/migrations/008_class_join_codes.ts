@@ -0,0 +1,22 @@
+import { Kysely, sql } from 'kysely'
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // At most one active join code per class; rotating replaces the row
+  await db.schema
+    .createTable('class_join_codes')
+    .addColumn('class_id', 'uuid', (col) =>
+      col.primaryKey().references('classes.id').onDelete('cascade')
+    )
+    .addColumn('code', 'varchar(16)', (col) => col.notNull().unique())
+    .addColumn('expires_at', 'timestamptz')
+    .addColumn('max_uses', 'integer', (col) => col.check(sql`max_uses > 0`))
+    .addColumn('use_count', 'integer', (col) => col.defaultTo(0).notNull())
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+    )
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('class_join_codes').ifExists().execute()
+}
@@ -0,0 +1,37 @@
+import { Kysely, sql } from 'kysely'
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // In-app notifications, one row per recipient
+  await db.schema
+    .createTable('notifications')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`)
+    )
+    .addColumn('user_id', 'uuid', (col) =>
+      col.references('users.id').onDelete('cascade').notNull()
+    )
+    .addColumn('type', 'varchar(50)', (col) =>
+      col
+        .notNull()
+        .check(sql`type IN ('assignment_created', 'grade_posted', 'class_enrolled')`)
+    )
+    .addColumn('title', 'varchar(255)', (col) => col.notNull())
+    .addColumn('body', 'text', (col) => col.notNull())
+    // Frontend path to open when the notification is clicked
+    .addColumn('link', 'varchar(500)')
+    .addColumn('read_at', 'timestamptz')
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+    )
+    .execute()
+
+  await db.schema
+    .createIndex('idx_notifications_user_created')
+    .on('notifications')
+    .columns(['user_id', 'created_at'])
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('notifications').ifExists().execute()
+}
@@ -0,0 +1,70 @@
+import { Kysely, sql } from 'kysely'
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Append-only log of administrative and grading actions.
+  // No foreign keys: entries must outlive the users, classes and submissions they mention.
+  await db.schema
+    .createTable('audit_events')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`)
+    )
+    // Null when the action was not performed by a signed-in user
+    .addColumn('actor_id', 'uuid')
+    .addColumn('action', 'varchar(50)', (col) =>
+      col
+        .notNull()
+        .check(
+          sql`action IN ('user_updated', 'user_suspended', 'user_unsuspended', 'user_deleted', 'class_deleted', 'students_transferred', 'grade_posted', 'grade_updated')`
+        )
+    )
+    .addColumn('target_type', 'varchar(20)', (col) =>
+      col.notNull().check(sql`target_type IN ('user', 'class', 'submission')`)
+    )
+    .addColumn('target_id', 'uuid', (col) => col.notNull())
+    // Snapshots of the target before and after the action (null when it did not exist)
+    .addColumn('before', 'jsonb')
+    .addColumn('after', 'jsonb')
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+    )
+    .execute()
+
+  await db.schema
+    .createIndex('idx_audit_events_created')
+    .on('audit_events')
+    .column('created_at')
+    .execute()
+
+  await db.schema
+    .createIndex('idx_audit_events_target')
+    .on('audit_events')
+    .columns(['target_type', 'target_id'])
+    .execute()
+
+  await db.schema
+    .createIndex('idx_audit_events_actor')
+    .on('audit_events')
+    .column('actor_id')
+    .execute()
+
+  // Reject changes to written entries (TRUNCATE stays available for test cleanup)
+  await sql`
+    CREATE OR REPLACE FUNCTION prevent_audit_event_changes()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      RAISE EXCEPTION 'audit_events is append-only';
+    END;
+    $$ LANGUAGE plpgsql;
+  `.execute(db)
+
+  await sql`
+    CREATE TRIGGER audit_events_append_only
+    BEFORE UPDATE OR DELETE ON audit_events
+    FOR EACH ROW EXECUTE FUNCTION prevent_audit_event_changes();
+  `.execute(db)
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('audit_events').ifExists().execute()
+  await sql`DROP FUNCTION IF EXISTS prevent_audit_event_changes()`.execute(db)
+}
@@ -0,0 +1,36 @@
+import { Kysely, sql } from 'kysely'
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Every change to a posted grade, with the values it replaced
+  await db.schema
+    .createTable('grade_revisions')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`)
+    )
+    // Keyed by submission so the history survives the grade being returned and regraded
+    .addColumn('submission_id', 'uuid', (col) =>
+      col.references('submissions.id').onDelete('cascade').notNull()
+    )
+    .addColumn('teacher_id', 'uuid', (col) =>
+      col.references('users.id').onDelete('set null')
+    )
+    .addColumn('previous_grade', sql`numeric(5,2)`, (col) => col.notNull())
+    .addColumn('previous_feedback', 'text')
+    .addColumn('grade', sql`numeric(5,2)`, (col) => col.notNull())
+    .addColumn('feedback', 'text')
+    .addColumn('reason', 'text')
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+    )
+    .execute()
+
+  await db.schema
+    .createIndex('idx_grade_revisions_submission_created')
+    .on('grade_revisions')
+    .columns(['submission_id', 'created_at'])
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('grade_revisions').ifExists().execute()
+}
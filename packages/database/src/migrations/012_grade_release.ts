@@ -0,0 +1,22 @@
+import { Kysely, sql } from 'kysely'
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Students see an assignment's grades only once the teacher releases them
+  await db.schema
+    .alterTable('assignments')
+    .addColumn('grades_released_at', 'timestamptz')
+    .execute()
+
+  // Grades posted before this migration were already visible to students
+  await sql`
+    UPDATE assignments SET grades_released_at = now()
+    WHERE id IN (
+      SELECT submissions.assignment_id FROM submissions
+      INNER JOIN grades ON grades.submission_id = submissions.id
+    )
+  `.execute(db)
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('assignments').dropColumn('grades_released_at').execute()
+}
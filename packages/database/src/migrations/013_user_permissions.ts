@@ -0,0 +1,29 @@
+import { Kysely, sql } from 'kysely'
+import { addAuditActions, removeAuditActions } from './helpers/auditActions'
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Permissions granted to a user on top of those of their role
+  await db.schema
+    .createTable('user_permissions')
+    .addColumn('user_id', 'uuid', (col) =>
+      col.references('users.id').onDelete('cascade').notNull()
+    )
+    .addColumn('permission', 'varchar(50)', (col) => col.notNull())
+    .addColumn('granted_by', 'uuid', (col) =>
+      col.references('users.id').onDelete('set null')
+    )
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+    )
+    .addPrimaryKeyConstraint('user_permissions_pkey', ['user_id', 'permission'])
+    .execute()
+
+  // Grants and revocations are audited
+  await addAuditActions(db, ['permission_granted', 'permission_revoked'])
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  // Fails once permission changes were audited: the log is append-only
+  await removeAuditActions(db, ['permission_granted', 'permission_revoked'])
+  await db.schema.dropTable('user_permissions').ifExists().execute()
+}
@@ -0,0 +1,41 @@
+import { Kysely, sql } from 'kysely'
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Teachers of a class: the owner (classes.teacher_id), co-teachers and TAs
+  await db.schema
+    .createTable('class_staff')
+    .addColumn('class_id', 'uuid', (col) =>
+      col.references('classes.id').onDelete('cascade').notNull()
+    )
+    .addColumn('user_id', 'uuid', (col) =>
+      col.references('users.id').onDelete('cascade').notNull()
+    )
+    .addColumn('role', 'varchar(20)', (col) =>
+      col.notNull().check(sql`role IN ('owner', 'co_teacher', 'ta')`)
+    )
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+    )
+    .addPrimaryKeyConstraint('class_staff_pkey', ['class_id', 'user_id'])
+    .execute()
+
+  await db.schema
+    .createIndex('idx_class_staff_user')
+    .on('class_staff')
+    .column('user_id')
+    .execute()
+
+  // A class has exactly one owner
+  await sql`
+    CREATE UNIQUE INDEX idx_class_staff_owner ON class_staff (class_id) WHERE role = 'owner'
+  `.execute(db)
+
+  await sql`
+    INSERT INTO class_staff (class_id, user_id, role, created_at)
+    SELECT id, teacher_id, 'owner', created_at FROM classes
+  `.execute(db)
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('class_staff').ifExists().execute()
+}
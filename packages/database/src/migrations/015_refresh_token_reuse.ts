@@ -0,0 +1,12 @@
+import { Kysely } from 'kysely'
+import { addAuditActions, removeAuditActions } from './helpers/auditActions'
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Replays of rotated-out refresh tokens are logged as security events
+  await addAuditActions(db, ['refresh_token_reused'])
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  // Fails once a replay was audited: the log is append-only
+  await removeAuditActions(db, ['refresh_token_reused'])
+}
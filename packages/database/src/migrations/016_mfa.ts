@@ -0,0 +1,64 @@
+import { Kysely, sql } from 'kysely'
+import { addAuditActions, removeAuditActions } from './helpers/auditActions'
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // TOTP secret of a user; enabled once the first code was confirmed
+  await db.schema
+    .createTable('user_mfa')
+    .addColumn('user_id', 'uuid', (col) =>
+      col.primaryKey().references('users.id').onDelete('cascade')
+    )
+    .addColumn('secret', 'varchar(64)', (col) => col.notNull())
+    .addColumn('enabled_at', 'timestamptz')
+    // Time step of the last accepted code, so a code cannot be used twice
+    .addColumn('last_used_step', 'integer')
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+    )
+    .execute()
+
+  // Single-use recovery codes, stored as SHA-256 hashes
+  await db.schema
+    .createTable('mfa_recovery_codes')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`)
+    )
+    .addColumn('user_id', 'uuid', (col) =>
+      col.references('users.id').onDelete('cascade').notNull()
+    )
+    .addColumn('code_hash', 'varchar(64)', (col) => col.notNull())
+    .addColumn('used_at', 'timestamptz')
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+    )
+    .execute()
+
+  await db.schema
+    .createIndex('idx_mfa_recovery_codes_user_id')
+    .on('mfa_recovery_codes')
+    .column('user_id')
+    .execute()
+
+  // Roles whose users must set up MFA before they can log in
+  await db.schema
+    .createTable('mfa_required_roles')
+    .addColumn('role', sql`user_role`, (col) => col.primaryKey())
+    .addColumn('enforced_by', 'uuid', (col) =>
+      col.references('users.id').onDelete('set null')
+    )
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+    )
+    .execute()
+
+  // Admin resets of a user's MFA are audited
+  await addAuditActions(db, ['mfa_reset'])
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  // Fails once a reset was audited: the log is append-only
+  await removeAuditActions(db, ['mfa_reset'])
+  await db.schema.dropTable('mfa_required_roles').ifExists().execute()
+  await db.schema.dropTable('mfa_recovery_codes').ifExists().execute()
+  await db.schema.dropTable('user_mfa').ifExists().execute()
+}
@@ -0,0 +1,35 @@
+import { Kysely, sql } from 'kysely'
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Attachments the submission had when the version was recorded
+  await db.schema
+    .alterTable('submission_versions')
+    .addColumn('attachments', 'jsonb', (col) => col.defaultTo(sql`'[]'::jsonb`).notNull())
+    .execute()
+
+  // The latest version of each submission carries its current attachments
+  await sql`
+    UPDATE submission_versions SET attachments = current.attachments
+    FROM (
+      SELECT submission_id, jsonb_agg(
+        jsonb_build_object(
+          'id', id,
+          'filename', filename,
+          'mime_type', mime_type,
+          'size_bytes', size_bytes
+        ) ORDER BY created_at
+      ) AS attachments
+      FROM submission_attachments
+      GROUP BY submission_id
+    ) AS current
+    WHERE submission_versions.submission_id = current.submission_id
+      AND submission_versions.version_number = (
+        SELECT MAX(version_number) FROM submission_versions AS latest
+        WHERE latest.submission_id = current.submission_id
+      )
+  `.execute(db)
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('submission_versions').dropColumn('attachments').execute()
+}
@@ -0,0 +1,12 @@
+import { Kysely } from 'kysely'
+import { addAuditActions, removeAuditActions } from './helpers/auditActions'
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Returning a submission for revision removes its grade, so it is audited
+  await addAuditActions(db, ['grade_returned'])
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  // Fails once a return was audited: the log is append-only
+  await removeAuditActions(db, ['grade_returned'])
+}
@@ -0,0 +1,74 @@
+import { Kysely, sql } from 'kysely'
+
+/**
+ * Helpers for migrations that change the allowed audit_events actions
+ *
+ * Lives in a subdirectory so the migration runner does not pick it up.
+ * Migrations pass only the actions they introduce; the rest of the list is
+ * read from the current CHECK constraint.
+ */
+
+const CONSTRAINT_NAME = 'audit_events_action_check'
+
+/**
+ * Allow additional audit event actions
+ * @param db - Database connection
+ * @param actions - Actions to allow
+ */
+export async function addAuditActions(db: Kysely<any>, actions: string[]): Promise<void> {
+  const current = await getAuditActions(db)
+  await replaceAuditActionCheck(db, [
+    ...current,
+    ...actions.filter((action) => !current.includes(action)),
+  ])
+}
+
+/**
+ * Disallow audit event actions again (fails while rows still use them)
+ * @param db - Database connection
+ * @param actions - Actions to remove
+ */
+export async function removeAuditActions(db: Kysely<any>, actions: string[]): Promise<void> {
+  const current = await getAuditActions(db)
+  await replaceAuditActionCheck(
+    db,
+    current.filter((action) => !actions.includes(action))
+  )
+}
+
+/**
+ * Read the actions allowed by the current CHECK constraint
+ * @param db - Database connection
+ * @returns Allowed actions
+ * @throws Error if the constraint does not exist
+ */
+async function getAuditActions(db: Kysely<any>): Promise<string[]> {
+  const result = await sql<{ definition: string }>`
+    SELECT pg_get_constraintdef(oid) AS definition
+    FROM pg_constraint
+    WHERE conname = ${CONSTRAINT_NAME} AND conrelid = 'audit_events'::regclass
+  `.execute(db)
+
+  const definition = result.rows[0]?.definition
+  if (!definition) {
+    throw new Error(`Constraint ${CONSTRAINT_NAME} not found`)
+  }
+
+  // e.g. CHECK (((action)::text = ANY ((ARRAY['user_updated'::character varying, ...])::text[])))
+  return [...definition.matchAll(/'([^']+)'/g)].map((match) => match[1]!)
+}
+
+async function replaceAuditActionCheck(db: Kysely<any>, actions: string[]): Promise<void> {
+  await db.schema
+    .alterTable('audit_events')
+    .dropConstraint(CONSTRAINT_NAME)
+    .execute()
+
+  await db.schema
+    .alterTable('audit_events')
+    .addCheckConstraint(
+      CONSTRAINT_NAME,
+      sql`action IN (${sql.join(actions.map((action) => sql.lit(action)))})`
+    )
+    .execute()
+}
@@ -0,0 +1,121 @@
+import type { Kysely, Transaction } from 'kysely'
+import type {
+  Database,
+  AssignmentCategory,
+  NewAssignmentCategory,
+  AssignmentCategoryUpdate,
+} from '../schema'
+
+/**
+ * AssignmentCategoryRepository - Encapsulates all database operations for assignment categories
+ *
+ * Following Repository Pattern:
+ * - Accept Kysely instance or Transaction for flexibility
+ * - No business logic - only data access operations
+ * - Return null for not found, throw for database errors
+ * - Deleting a category leaves its assignments uncategorized (FK set null)
+ */
+export class AssignmentCategoryRepository {
+  constructor(private db: Kysely<Database> | Transaction<Database>) {}
+
+  /**
+   * Create a new category
+   * @param category - Category data to insert
+   * @returns The created category
+   * @throws Database error if creation fails (e.g., duplicate name in class)
+   */
+  async create(category: NewAssignmentCategory): Promise<AssignmentCategory> {
+    return await this.db
+      .insertInto('assignment_categories')
+      .values(category)
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  /**
+   * Find category by ID
+   * @param id - Category ID
+   * @returns Category if found, null otherwise
+   */
+  async findById(id: string): Promise<AssignmentCategory | null> {
+    const category = await this.db
+      .selectFrom('assignment_categories')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst()
+
+    return category ?? null
+  }
+
+  /**
+   * Find categories of a class
+   * @param classId - Class ID
+   * @returns Array of categories ordered by name
+   */
+  async findByClass(classId: string): Promise<AssignmentCategory[]> {
+    return await this.db
+      .selectFrom('assignment_categories')
+      .selectAll()
+      .where('class_id', '=', classId)
+      .orderBy('name', 'asc')
+      .execute()
+  }
+
+  /**
+   * Update a category
+   * @param id - Category ID
+   * @param updates - Fields to update
+   * @returns Updated category
+   * @throws Error if category not found
+   */
+  async update(id: string, updates: AssignmentCategoryUpdate): Promise<AssignmentCategory> {
+    const category = await this.db
+      .updateTable('assignment_categories')
+      .set(updates)
+      .where('id', '=', id)
+      .returningAll()
+      .executeTakeFirst()
+
+    if (!category) {
+      throw new Error(`Assignment category with id ${id} not found`)
+    }
+
+    return category
+  }
+
+  /**
+   * Delete a category
+   * @param id - Category ID
+   * @throws Error if category not found
+   */
+  async delete(id: string): Promise<void> {
+    const result = await this.db
+      .deleteFrom('assignment_categories')
+      .where('id', '=', id)
+      .executeTakeFirst()
+
+    if (result.numDeletedRows === 0n) {
+      throw new Error(`Assignment category with id ${id} not found`)
+    }
+  }
+
+  /**
+   * Sum category weights of a class
+   * @param classId - Class ID
+   * @param excludeId - Category to leave out (e.g., the one being updated)
+   * @returns Total weight (0 if no categories)
+   */
+  async sumWeightsByClass(classId: string, excludeId?: string): Promise<number> {
+    let query = this.db
+      .selectFrom('assignment_categories')
+      .select((eb) => eb.fn.sum<string | null>('weight').as('total'))
+      .where('class_id', '=', classId)
+
+    if (excludeId) {
+      query = query.where('id', '!=', excludeId)
+    }
+
+    const result = await query.executeTakeFirstOrThrow()
+    return Number(result.total ?? 0)
+  }
+}
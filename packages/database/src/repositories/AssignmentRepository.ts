@@ -10,6 +10,8 @@ import type {
   GradeUpdate,
   SubmissionWithStudent,
   GradeWithAssignment,
+  ClassGradeRow,
+  GradebookSubmissionRow,
 } from '../schema'
 
 /**
@@ -141,11 +143,26 @@ export class AssignmentRepository {
       .execute()
   }
 
+  /**
+   * Find every assignment of a class, earliest due first
+   * @param classId - Class ID
+   * @returns Array of assignments for the class
+   */
+  async findAllByClass(classId: string): Promise<Assignment[]> {
+    return await this.db
+      .selectFrom('assignments')
+      .selectAll()
+      .where('class_id', '=', classId)
+      .orderBy('due_date', 'asc')
+      .orderBy('created_at', 'asc')
+      .execute()
+  }
+
   /**
    * Find assignments by teacher ID (via classes table)
    * @param teacherId - Teacher ID
    * @param options - Pagination options
-   * @returns Array of assignments for all classes taught by the teacher
+   * @returns Array of assignments for all classes the teacher owns or is on the staff of
    */
   async findByTeacher(
     teacherId: string,
@@ -159,7 +176,19 @@ export class AssignmentRepository {
       .selectFrom('assignments')
       .innerJoin('classes', 'assignments.class_id', 'classes.id')
       .selectAll('assignments')
-      .where('classes.teacher_id', '=', teacherId)
+      .where((eb) =>
+        eb.or([
+          eb('classes.teacher_id', '=', teacherId),
+          eb(
+            'classes.id',
+            'in',
+            eb
+              .selectFrom('class_staff')
+              .select('class_staff.class_id')
+              .where('class_staff.user_id', '=', teacherId)
+          ),
+        ])
+      )
       .orderBy('assignments.created_at', 'desc')
       .limit(limit)
       .offset(offset)
@@ -268,6 +297,7 @@ export class AssignmentRepository {
    * @param studentId - Student ID
    * @param content - Submission content
    * @param fileUrl - Optional file URL
+   * @param late - Optional late flag and penalty (defaults to on time)
    * @returns The created submission
    * @throws Database error if creation fails
    */
@@ -275,7 +305,8 @@ export class AssignmentRepository {
     assignmentId: string,
     studentId: string,
     content: string,
-    fileUrl?: string
+    fileUrl?: string,
+    late?: { is_late: boolean; late_penalty: number }
   ): Promise<Submission> {
     return await this.db
       .insertInto('submissions')
@@ -284,6 +315,7 @@ export class AssignmentRepository {
         student_id: studentId,
         content,
         file_url: fileUrl ?? null,
+        ...late,
       })
       .returningAll()
       .executeTakeFirstOrThrow()
@@ -309,6 +341,21 @@ export class AssignmentRepository {
     return submission ?? null
   }
 
+  /**
+   * Get a submission by ID
+   * @param id - Submission ID
+   * @returns Submission if found, null otherwise
+   */
+  async getSubmissionById(id: string): Promise<Submission | null> {
+    const submission = await this.db
+      .selectFrom('submissions')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst()
+
+    return submission ?? null
+  }
+
   /**
    * Get all submissions for an assignment with student information
    * @param assignmentId - Assignment ID
@@ -326,6 +373,9 @@ export class AssignmentRepository {
         'submissions.student_id',
         'submissions.content',
         'submissions.file_url',
+        'submissions.is_late',
+        'submissions.late_penalty',
+        'submissions.returned_at',
         'submissions.submitted_at',
         'submissions.updated_at',
         'users.id as student_user_id',
@@ -342,6 +392,9 @@ export class AssignmentRepository {
       student_id: row.student_id,
       content: row.content,
       file_url: row.file_url,
+      is_late: row.is_late,
+      late_penalty: row.late_penalty,
+      returned_at: row.returned_at,
       submitted_at: row.submitted_at,
       updated_at: row.updated_at,
       student: {
@@ -474,9 +527,25 @@ export class AssignmentRepository {
   }
 
   /**
-   * Bulk grade multiple submissions
+   * Delete a grade
+   * @param gradeId - Grade ID
+   * @throws Error if grade not found
+   */
+  async deleteGrade(gradeId: string): Promise<void> {
+    const result = await this.db
+      .deleteFrom('grades')
+      .where('id', '=', gradeId)
+      .executeTakeFirst()
+
+    if (result.numDeletedRows === 0n) {
+      throw new Error(`Grade with id ${gradeId} not found`)
+    }
+  }
+
+  /**
+   * Bulk grade multiple submissions, replacing existing grades
    * @param grades - Array of grade data
-   * @returns Number of grades created
+   * @returns Grades as saved, one per created or updated grade
    */
   async bulkGradeSubmissions(
     grades: Array<{
@@ -485,9 +554,9 @@ export class AssignmentRepository {
       grade: number
       feedback?: string
     }>
-  ): Promise<number> {
+  ): Promise<Grade[]> {
     if (grades.length === 0) {
-      return 0
+      return []
     }
 
     const values = grades.map((g) => ({
@@ -497,17 +566,19 @@ export class AssignmentRepository {
       feedback: g.feedback ?? null,
     }))
 
-    const result = await this.db
+    // Regrading replaces the grade; feedback is only replaced when given
+    return await this.db
       .insertInto('grades')
       .values(values)
-      .executeTakeFirst()
-
-    // PostgreSQL always returns numInsertedOrUpdatedRows, but handle undefined for type safety
-    if (result.numInsertedOrUpdatedRows === undefined) {
-      return 0
-    }
-
-    return Number(result.numInsertedOrUpdatedRows)
+      .onConflict((oc) =>
+        oc.column('submission_id').doUpdateSet((eb) => ({
+          teacher_id: eb.ref('excluded.teacher_id'),
+          grade: eb.ref('excluded.grade'),
+          feedback: eb.fn.coalesce('excluded.feedback', 'grades.feedback'),
+        }))
+      )
+      .returningAll()
+      .execute()
   }
 
   /**
@@ -544,6 +615,9 @@ export class AssignmentRepository {
         'submissions.student_id as submission_student_id',
         'submissions.content as submission_content',
         'submissions.file_url as submission_file_url',
+        'submissions.is_late as submission_is_late',
+        'submissions.late_penalty as submission_late_penalty',
+        'submissions.returned_at as submission_returned_at',
         'submissions.submitted_at as submission_submitted_at',
         'submissions.updated_at as submission_updated_at',
         // Grade fields
@@ -559,11 +633,36 @@ export class AssignmentRepository {
         'assignments.title as assignment_title',
         'assignments.description as assignment_description',
         'assignments.due_date as assignment_due_date',
+        'assignments.late_policy as assignment_late_policy',
+        'assignments.max_points as assignment_max_points',
+        'assignments.grades_released_at as assignment_grades_released_at',
       ])
       .where('submissions.student_id', '=', studentId)
       .orderBy('submissions.submitted_at', 'desc')
       .execute()
 
+    // Rubric breakdown for graded submissions, fetched in one query
+    const gradeIds = results.flatMap((row) => (row.grade_id ? [row.grade_id] : []))
+    const scores =
+      gradeIds.length === 0
+        ? []
+        : await this.db
+            .selectFrom('grade_criterion_scores')
+            .innerJoin(
+              'rubric_criteria',
+              'grade_criterion_scores.criterion_id',
+              'rubric_criteria.id'
+            )
+            .innerJoin('rubric_levels', 'grade_criterion_scores.level_id', 'rubric_levels.id')
+            .selectAll('grade_criterion_scores')
+            .select([
+              'rubric_criteria.title as criterion_title',
+              'rubric_levels.label as level_label',
+            ])
+            .where('grade_criterion_scores.grade_id', 'in', gradeIds)
+            .orderBy('rubric_criteria.position', 'asc')
+            .execute()
+
     return results.map((row) => ({
       submission: {
         id: row.submission_id,
@@ -571,6 +670,9 @@ export class AssignmentRepository {
         student_id: row.submission_student_id,
         content: row.submission_content,
         file_url: row.submission_file_url,
+        is_late: row.submission_is_late,
+        late_penalty: row.submission_late_penalty,
+        returned_at: row.submission_returned_at,
         submitted_at: row.submission_submitted_at,
         updated_at: row.submission_updated_at,
       },
@@ -585,12 +687,98 @@ export class AssignmentRepository {
             updated_at: row.grade_updated_at!,
           }
         : null,
+      rubricScores: scores.filter((score) => score.grade_id === row.grade_id),
       assignment: {
         id: row.assignment_id,
         title: row.assignment_title,
         description: row.assignment_description,
         dueDate: row.assignment_due_date,
+        latePolicy: row.assignment_late_policy,
+        maxPoints: row.assignment_max_points,
+        gradesReleasedAt: row.assignment_grades_released_at,
       },
     }))
   }
+
+  /**
+   * Get all grades given on an assignment
+   * @param assignmentId - Assignment ID
+   * @returns Grades of the assignment's submissions
+   */
+  async getGradesByAssignment(assignmentId: string): Promise<Grade[]> {
+    return await this.db
+      .selectFrom('grades')
+      .innerJoin('submissions', 'grades.submission_id', 'submissions.id')
+      .selectAll('grades')
+      .where('submissions.assignment_id', '=', assignmentId)
+      .execute()
+  }
+
+  /**
+   * Get all grades in a class with the data needed for course grades
+   * @param classId - Class ID
+   * @param releasedOnly - Skip assignments whose grades are not released yet
+   * @returns One row per graded submission
+   */
+  async getGradesByClass(classId: string, releasedOnly = false): Promise<ClassGradeRow[]> {
+    let query = this.db
+      .selectFrom('grades')
+      .innerJoin('submissions', 'grades.submission_id', 'submissions.id')
+      .innerJoin('assignments', 'submissions.assignment_id', 'assignments.id')
+      .select([
+        'submissions.student_id as student_id',
+        'assignments.id as assignment_id',
+        'assignments.category_id as category_id',
+        'assignments.max_points as max_points',
+        'submissions.late_penalty as late_penalty',
+        'grades.grade as grade',
+      ])
+      .where('assignments.class_id', '=', classId)
+
+    if (releasedOnly) {
+      query = query.where('assignments.grades_released_at', 'is not', null)
+    }
+
+    return await query.execute()
+  }
+
+  /**
+   * Get every submission in a class with its grade for the gradebook
+   * @param classId - Class ID
+   * @returns One row per submission, grade fields null when ungraded
+   */
+  async getGradebookSubmissions(classId: string): Promise<GradebookSubmissionRow[]> {
+    return await this.db
+      .selectFrom('submissions')
+      .innerJoin('assignments', 'submissions.assignment_id', 'assignments.id')
+      .leftJoin('grades', 'grades.submission_id', 'submissions.id')
+      .select([
+        'submissions.student_id as student_id',
+        'submissions.assignment_id as assignment_id',
+        'submissions.id as submission_id',
+        'submissions.is_late as is_late',
+        'submissions.late_penalty as late_penalty',
+        'submissions.submitted_at as submitted_at',
+        'grades.id as grade_id',
+        'grades.grade as grade',
+      ])
+      .where('assignments.class_id', '=', classId)
+      .execute()
+  }
+
+  /**
+   * Get IDs of classes that have at least one grade
+   * @returns Array of distinct class IDs
+   */
+  async getGradedClassIds(): Promise<string[]> {
+    const rows = await this.db
+      .selectFrom('grades')
+      .innerJoin('submissions', 'grades.submission_id', 'submissions.id')
+      .innerJoin('assignments', 'submissions.assignment_id', 'assignments.id')
+      .select('assignments.class_id')
+      .distinct()
+      .execute()
+
+    return rows.map((row) => row.class_id)
+  }
 }
@@ -0,0 +1,124 @@
+import type { Expression, ExpressionBuilder, Kysely, SqlBool, Transaction } from 'kysely'
+import type {
+  Database,
+  AuditAction,
+  AuditEvent,
+  AuditEventWithActor,
+  AuditTargetType,
+  NewAuditEvent,
+} from '../schema'
+
+/**
+ * Filters for listing audit events; all optional and combined with AND
+ */
+export interface AuditEventFilters {
+  actorId?: string | undefined
+  action?: AuditAction | undefined
+  targetType?: AuditTargetType | undefined
+  targetId?: string | undefined
+  from?: Date | undefined
+  to?: Date | undefined
+}
+
+/**
+ * AuditEventRepository - Encapsulates all database operations for the audit log
+ *
+ * Following Repository Pattern:
+ * - Accept Kysely instance or Transaction for flexibility
+ * - No business logic - only data access operations
+ * - Append-only: no update or delete methods (the table rejects them too)
+ */
+export class AuditEventRepository {
+  constructor(private db: Kysely<Database> | Transaction<Database>) {}
+
+  /**
+   * Record an audit event
+   * @param event - Event data
+   * @returns Created event
+   */
+  async create(event: NewAuditEvent): Promise<AuditEvent> {
+    return await this.db
+      .insertInto('audit_events')
+      .values(event)
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  /**
+   * Find audit events, newest first, with the acting user
+   * @param filters - Event filters
+   * @param options - Pagination options (page, limit)
+   * @returns Matching events
+   */
+  async find(
+    filters: AuditEventFilters = {},
+    options?: { page?: number; limit?: number }
+  ): Promise<AuditEventWithActor[]> {
+    const page = options?.page ?? 1
+    const limit = options?.limit ?? 50
+    const offset = (page - 1) * limit
+
+    const rows = await this.db
+      .selectFrom('audit_events')
+      .leftJoin('users', 'users.id', 'audit_events.actor_id')
+      .selectAll('audit_events')
+      .select(['users.name as actor_name', 'users.email as actor_email'])
+      .where(this.matching(filters))
+      .orderBy('audit_events.created_at', 'desc')
+      .orderBy('audit_events.id', 'desc')
+      .limit(limit)
+      .offset(offset)
+      .execute()
+
+    return rows.map(({ actor_name, actor_email, ...event }) => ({
+      ...event,
+      actor:
+        event.actor_id && actor_name !== null && actor_email !== null
+          ? { id: event.actor_id, name: actor_name, email: actor_email }
+          : null,
+    }))
+  }
+
+  /**
+   * Count audit events matching filters
+   * @param filters - Event filters
+   * @returns Number of matching events
+   */
+  async count(filters: AuditEventFilters = {}): Promise<number> {
+    const result = await this.db
+      .selectFrom('audit_events')
+      .select((eb) => eb.fn.countAll<string>().as('count'))
+      .where(this.matching(filters))
+      .executeTakeFirstOrThrow()
+
+    return parseInt(result.count, 10)
+  }
+
+  /**
+   * Build the WHERE condition for audit event filters
+   */
+  private matching(filters: AuditEventFilters) {
+    return (eb: ExpressionBuilder<Database, 'audit_events'>) => {
+      const conditions: Expression<SqlBool>[] = []
+      if (filters.actorId) {
+        conditions.push(eb('audit_events.actor_id', '=', filters.actorId))
+      }
+      if (filters.action) {
+        conditions.push(eb('audit_events.action', '=', filters.action))
+      }
+      if (filters.targetType) {
+        conditions.push(eb('audit_events.target_type', '=', filters.targetType))
+      }
+      if (filters.targetId) {
+        conditions.push(eb('audit_events.target_id', '=', filters.targetId))
+      }
+      if (filters.from) {
+        conditions.push(eb('audit_events.created_at', '>=', filters.from))
+      }
+      if (filters.to) {
+        conditions.push(eb('audit_events.created_at', '<=', filters.to))
+      }
+      return eb.and(conditions)
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import type { Kysely, Transaction } from 'kysely'
+import type { Database, ClassJoinCode, NewClassJoinCode } from '../schema'
+
+/**
+ * ClassJoinCodeRepository - Encapsulates all database operations for class join codes
+ *
+ * Following Repository Pattern:
+ * - Accept Kysely instance or Transaction for flexibility
+ * - No business logic - only data access operations
+ * - Return null for not found, throw for database errors
+ * - A class has at most one join code; saving a new one replaces it
+ */
+export class ClassJoinCodeRepository {
+  constructor(private db: Kysely<Database> | Transaction<Database>) {}
+
+  /**
+   * Find the join code of a class
+   * @param classId - Class ID
+   * @returns Join code if the class has one, null otherwise
+   */
+  async findByClass(classId: string): Promise<ClassJoinCode | null> {
+    const joinCode = await this.db
+      .selectFrom('class_join_codes')
+      .selectAll()
+      .where('class_id', '=', classId)
+      .executeTakeFirst()
+
+    return joinCode ?? null
+  }
+
+  /**
+   * Find a join code by its code
+   * @param code - Join code (exact match)
+   * @returns Join code if found, null otherwise
+   */
+  async findByCode(code: string): Promise<ClassJoinCode | null> {
+    const joinCode = await this.db
+      .selectFrom('class_join_codes')
+      .selectAll()
+      .where('code', '=', code)
+      .executeTakeFirst()
+
+    return joinCode ?? null
+  }
+
+  /**
+   * Save the join code of a class, replacing any previous code
+   * - Resets the use count
+   * @param joinCode - Join code data
+   * @returns The saved join code
+   * @throws Database error if the code is already used by another class
+   */
+  async save(joinCode: NewClassJoinCode): Promise<ClassJoinCode> {
+    return await this.db
+      .insertInto('class_join_codes')
+      .values(joinCode)
+      .onConflict((oc) =>
+        oc.column('class_id').doUpdateSet({
+          code: joinCode.code,
+          expires_at: joinCode.expires_at ?? null,
+          max_uses: joinCode.max_uses ?? null,
+          use_count: 0,
+          created_at: new Date(),
+        })
+      )
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  /**
+   * Delete the join code of a class
+   * @param classId - Class ID
+   * @returns True if a code was deleted
+   */
+  async deleteByClass(classId: string): Promise<boolean> {
+    const result = await this.db
+      .deleteFrom('class_join_codes')
+      .where('class_id', '=', classId)
+      .executeTakeFirst()
+
+    return result.numDeletedRows > 0n
+  }
+
+  /**
+   * Count one use of a join code, unless it has reached its max uses
+   * - Single conditional update, so concurrent joins cannot exceed max uses
+   * @param classId - Class ID
+   * @returns Updated join code, null if no code or no uses left
+   */
+  async incrementUses(classId: string): Promise<ClassJoinCode | null> {
+    const joinCode = await this.db
+      .updateTable('class_join_codes')
+      .set((eb) => ({ use_count: eb('use_count', '+', 1) }))
+      .where('class_id', '=', classId)
+      .where((eb) => eb.or([eb('max_uses', 'is', null), eb('use_count', '<', eb.ref('max_uses'))]))
+      .returningAll()
+      .executeTakeFirst()
+
+    return joinCode ?? null
+  }
+
+  /**
+   * Count one use of a join code and enroll the student, all or nothing
+   * - Runs in one transaction, so a failed enrollment (e.g. already enrolled)
+   *   does not consume a use
+   * @param classId - Class ID
+   * @param studentId - Student ID
+   * @returns False if no code or no uses left (nothing is written)
+   * @throws Database error if the enrollment cannot be inserted
+   */
+  async redeem(classId: string, studentId: string): Promise<boolean> {
+    const run = async (trx: Transaction<Database>): Promise<boolean> => {
+      const counted = await new ClassJoinCodeRepository(trx).incrementUses(classId)
+      if (!counted) {
+        return false
+      }
+
+      await trx
+        .insertInto('class_students')
+        .values({ class_id: classId, student_id: studentId })
+        .execute()
+      return true
+    }
+
+    // Already inside a caller's transaction: Kysely does not nest them
+    return this.db.isTransaction
+      ? run(this.db as Transaction<Database>)
+      : this.db.transaction().execute(run)
+  }
+}
@@ -1,5 +1,5 @@
-import type { Kysely, Transaction } from 'kysely'
-import type { Database, Class, NewClass, ClassUpdate } from '../schema'
+import type { ExpressionBuilder, Kysely, Transaction } from 'kysely'
+import type { Database, Class, NewClass, ClassUpdate, ClassStudent } from '../schema'
 
 /**
  * ClassRepository - Encapsulates all database operations for classes table
@@ -100,7 +100,7 @@ export class ClassRepository {
    * Find classes by teacher ID
    * @param teacherId - Teacher ID
    * @param options - Pagination options
-   * @returns Array of classes taught by the teacher
+   * @returns Array of classes the teacher owns or is on the staff of
    */
   async findByTeacher(
     teacherId: string,
@@ -113,13 +113,32 @@ export class ClassRepository {
     return await this.db
       .selectFrom('classes')
       .selectAll()
-      .where('teacher_id', '=', teacherId)
+      .where(this.taughtBy(teacherId))
       .orderBy('created_at', 'desc')
       .limit(limit)
       .offset(offset)
       .execute()
   }
 
+  /**
+   * Find classes by name, ignoring case and surrounding whitespace
+   * @param name - Class name
+   * @param teacherId - Only classes this teacher owns or is on the staff of, if given
+   * @returns Matching classes (names are not unique)
+   */
+  async findByName(name: string, teacherId?: string): Promise<Class[]> {
+    let query = this.db
+      .selectFrom('classes')
+      .selectAll()
+      .where((eb) => eb(eb.fn('lower', ['name']), '=', name.trim().toLowerCase()))
+
+    if (teacherId) {
+      query = query.where(this.taughtBy(teacherId))
+    }
+
+    return await query.orderBy('created_at', 'asc').execute()
+  }
+
   /**
    * Count total number of classes
    * @returns Total class count
@@ -136,13 +155,13 @@ export class ClassRepository {
   /**
    * Count classes by teacher
    * @param teacherId - Teacher ID
-   * @returns Number of classes for the teacher
+   * @returns Number of classes the teacher owns or is on the staff of
    */
   async countByTeacher(teacherId: string): Promise<number> {
     const result = await this.db
       .selectFrom('classes')
       .select((eb) => eb.fn.countAll<string>().as('count'))
-      .where('teacher_id', '=', teacherId)
+      .where(this.taughtBy(teacherId))
       .executeTakeFirstOrThrow()
 
     return parseInt(result.count, 10)
@@ -260,6 +279,21 @@ export class ClassRepository {
     return enrollments.map((e) => e.student_id)
   }
 
+  /**
+   * Get name and email of all students enrolled in a class
+   * @param classId - Class ID
+   * @returns Array of students ordered by name
+   */
+  async getEnrolledStudentDetails(classId: string): Promise<ClassStudent[]> {
+    return await this.db
+      .selectFrom('class_students')
+      .innerJoin('users', 'class_students.student_id', 'users.id')
+      .select(['users.id', 'users.name', 'users.email'])
+      .where('class_students.class_id', '=', classId)
+      .orderBy('users.name', 'asc')
+      .execute()
+  }
+
   /**
    * Count students enrolled in a class
    * @param classId - Class ID
@@ -384,4 +418,22 @@ export class ClassRepository {
     }
     return Number(result.numDeletedRows)
   }
+
+  /**
+   * Build the WHERE condition for classes a teacher owns or is on the staff of
+   */
+  private taughtBy(teacherId: string) {
+    return (eb: ExpressionBuilder<Database, 'classes'>) =>
+      eb.or([
+        eb('classes.teacher_id', '=', teacherId),
+        eb(
+          'classes.id',
+          'in',
+          eb
+            .selectFrom('class_staff')
+            .select('class_staff.class_id')
+            .where('class_staff.user_id', '=', teacherId)
+        ),
+      ])
+  }
 }
@@ -0,0 +1,125 @@
+import type { Kysely, Transaction } from 'kysely'
+import type {
+  Database,
+  ClassStaffMember,
+  ClassStaffMemberWithUser,
+  ClassStaffRole,
+  NewClassStaffMember,
+} from '../schema'
+
+/**
+ * ClassStaffRepository - Encapsulates all database operations for class staff
+ *
+ * Following Repository Pattern:
+ * - Accept Kysely instance or Transaction for flexibility
+ * - No business logic - only data access operations
+ * - Return null for not found, throw for database errors
+ * - The owner row mirrors classes.teacher_id; services never move or remove it
+ */
+export class ClassStaffRepository {
+  constructor(private db: Kysely<Database> | Transaction<Database>) {}
+
+  /**
+   * Add a user to the staff of a class
+   * @param member - Class, user and staff role
+   * @returns Created staff member, or null if the user was already on the staff
+   */
+  async add(member: NewClassStaffMember): Promise<ClassStaffMember | null> {
+    const row = await this.db
+      .insertInto('class_staff')
+      .values(member)
+      .onConflict((oc) => oc.columns(['class_id', 'user_id']).doNothing())
+      .returningAll()
+      .executeTakeFirst()
+
+    return row ?? null
+  }
+
+  /**
+   * Find the staff of a class
+   * @param classId - Class ID
+   * @returns Staff members with name and email, owner first, then by name
+   */
+  async findByClass(classId: string): Promise<ClassStaffMemberWithUser[]> {
+    return await this.db
+      .selectFrom('class_staff')
+      .innerJoin('users', 'users.id', 'class_staff.user_id')
+      .selectAll('class_staff')
+      .select(['users.name', 'users.email'])
+      .where('class_staff.class_id', '=', classId)
+      .orderBy((eb) => eb.case().when('class_staff.role', '=', 'owner').then(0).else(1).end())
+      .orderBy('users.name', 'asc')
+      .execute()
+  }
+
+  /**
+   * Find the staff role of a user in a class
+   * @param classId - Class ID
+   * @param userId - User ID
+   * @returns Staff role, or null if the user is not on the staff
+   */
+  async findRole(classId: string, userId: string): Promise<ClassStaffRole | null> {
+    const row = await this.db
+      .selectFrom('class_staff')
+      .select('role')
+      .where('class_id', '=', classId)
+      .where('user_id', '=', userId)
+      .executeTakeFirst()
+
+    return row?.role ?? null
+  }
+
+  /**
+   * Find the IDs of everyone on the staff of a class
+   * @param classId - Class ID
+   * @returns User IDs
+   */
+  async findUserIds(classId: string): Promise<string[]> {
+    const rows = await this.db
+      .selectFrom('class_staff')
+      .select('user_id')
+      .where('class_id', '=', classId)
+      .execute()
+
+    return rows.map((row) => row.user_id)
+  }
+
+  /**
+   * Change the staff role of a user
+   * @param classId - Class ID
+   * @param userId - User ID
+   * @param role - New staff role
+   * @returns Updated staff member, or null if the user is not on the staff
+   */
+  async updateRole(
+    classId: string,
+    userId: string,
+    role: ClassStaffRole
+  ): Promise<ClassStaffMember | null> {
+    const row = await this.db
+      .updateTable('class_staff')
+      .set({ role })
+      .where('class_id', '=', classId)
+      .where('user_id', '=', userId)
+      .returningAll()
+      .executeTakeFirst()
+
+    return row ?? null
+  }
+
+  /**
+   * Remove a user from the staff of a class
+   * @param classId - Class ID
+   * @param userId - User ID
+   * @returns True if the user was removed, false if they were not on the staff
+   */
+  async remove(classId: string, userId: string): Promise<boolean> {
+    const result = await this.db
+      .deleteFrom('class_staff')
+      .where('class_id', '=', classId)
+      .where('user_id', '=', userId)
+      .executeTakeFirst()
+
+    return Number(result.numDeletedRows) > 0
+  }
+}
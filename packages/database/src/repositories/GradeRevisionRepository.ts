@@ -0,0 +1,49 @@
+import type { Kysely, Transaction } from 'kysely'
+import type {
+  Database,
+  GradeRevision,
+  GradeRevisionWithTeacher,
+  NewGradeRevision,
+} from '../schema'
+
+/**
+ * GradeRevisionRepository - Encapsulates all database operations for grade revisions
+ *
+ * Following Repository Pattern:
+ * - Accept Kysely instance or Transaction for flexibility
+ * - No business logic - only data access operations
+ * - Return null for not found, throw for database errors
+ * - Revisions are append-only; there are no update or delete methods
+ */
+export class GradeRevisionRepository {
+  constructor(private db: Kysely<Database> | Transaction<Database>) {}
+
+  /**
+   * Record a change to a grade
+   * @param revision - Previous and new values, teacher and reason
+   * @returns The created revision
+   */
+  async create(revision: NewGradeRevision): Promise<GradeRevision> {
+    return await this.db
+      .insertInto('grade_revisions')
+      .values(revision)
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  /**
+   * Find the revisions of a submission's grade
+   * @param submissionId - Submission ID
+   * @returns Revisions with the teacher's name, newest first
+   */
+  async findBySubmission(submissionId: string): Promise<GradeRevisionWithTeacher[]> {
+    return await this.db
+      .selectFrom('grade_revisions')
+      .leftJoin('users', 'users.id', 'grade_revisions.teacher_id')
+      .selectAll('grade_revisions')
+      .select('users.name as teacher_name')
+      .where('grade_revisions.submission_id', '=', submissionId)
+      .orderBy('grade_revisions.created_at', 'desc')
+      .execute()
+  }
+}
@@ -0,0 +1,174 @@
+import type Redis from 'ioredis'
+import type { UserRole } from '../schema'
+
+/**
+ * Pending account invitation stored in Redis
+ */
+export interface Invitation {
+  token: string
+  email: string
+  name: string | null
+  role: UserRole
+  invitedBy: string
+  createdAt: Date
+  expiresAt: Date
+}
+
+/**
+ * Invitation fields supplied by the inviter
+ */
+export type NewInvitation = Pick<Invitation, 'email' | 'name' | 'role' | 'invitedBy'>
+
+/**
+ * Shape of an invitation as serialized in Redis
+ */
+interface StoredInvitation {
+  email: string
+  name: string | null
+  role: UserRole
+  invitedBy: string
+  createdAt: string
+  expiresAt: string
+}
+
+/**
+ * InvitationRepository - Manages single-use account invitation tokens using Redis
+ *
+ * Design decisions:
+ * - Stored like sessions: Redis with automatic TTL instead of PostgreSQL
+ * - Key format: `invitation:{token}` -> JSON invitation data
+ * - Index: `invitations` -> set of pending tokens, so listing avoids a KEYS
+ *   scan; members whose invitation expired are pruned when the index is read
+ * - Consuming an invitation reads and deletes it atomically (GETDEL),
+ *   so a token can only be accepted once
+ */
+export class InvitationRepository {
+  private readonly keyPrefix = 'invitation:'
+  private readonly indexKey = 'invitations'
+  private readonly defaultTTL = 7 * 24 * 60 * 60 // 7 days in seconds
+
+  constructor(private redis: Redis) {}
+
+  /**
+   * Create an invitation
+   * @param token - Invitation token
+   * @param data - Invitation data
+   * @param expiresIn - Expiration time in seconds (default: 7 days)
+   * @returns Created invitation
+   */
+  async create(
+    token: string,
+    data: NewInvitation,
+    expiresIn: number = this.defaultTTL
+  ): Promise<Invitation> {
+    const createdAt = new Date()
+    const expiresAt = new Date(createdAt.getTime() + expiresIn * 1000)
+    const stored: StoredInvitation = {
+      ...data,
+      createdAt: createdAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    }
+
+    await this.redis
+      .multi()
+      .setex(this.getKey(token), expiresIn, JSON.stringify(stored))
+      .sadd(this.indexKey, token)
+      .exec()
+
+    return { token, ...data, createdAt, expiresAt }
+  }
+
+  /**
+   * Get invitation by token
+   * @param token - Invitation token
+   * @returns Invitation if found and not expired, null otherwise
+   */
+  async get(token: string): Promise<Invitation | null> {
+    const value = await this.redis.get(this.getKey(token))
+    return value ? this.parse(token, value) : null
+  }
+
+  /**
+   * Read and delete an invitation in one step
+   * @param token - Invitation token
+   * @returns Invitation if it was still pending, null otherwise
+   */
+  async consume(token: string): Promise<Invitation | null> {
+    const results = await this.redis
+      .multi()
+      .getdel(this.getKey(token))
+      .srem(this.indexKey, token)
+      .exec()
+    const value = results?.[0]?.[1] as string | null | undefined
+    return value ? this.parse(token, value) : null
+  }
+
+  /**
+   * Delete an invitation
+   * @param token - Invitation token
+   * @returns True if invitation was deleted, false if it didn't exist
+   */
+  async delete(token: string): Promise<boolean> {
+    const results = await this.redis
+      .multi()
+      .del(this.getKey(token))
+      .srem(this.indexKey, token)
+      .exec()
+    return Number(results?.[0]?.[1] ?? 0) > 0
+  }
+
+  /**
+   * Get all pending invitations
+   * @returns Invitations, newest first
+   */
+  async getAll(): Promise<Invitation[]> {
+    const tokens = await this.redis.smembers(this.indexKey)
+    if (tokens.length === 0) {
+      return []
+    }
+
+    const values = await this.redis.mget(...tokens.map((token) => this.getKey(token)))
+    const invitations: Invitation[] = []
+    const expired: string[] = []
+
+    tokens.forEach((token, index) => {
+      const value = values[index]
+      if (value) {
+        invitations.push(this.parse(token, value))
+      } else {
+        expired.push(token)
+      }
+    })
+
+    if (expired.length > 0) {
+      await this.redis.srem(this.indexKey, ...expired)
+    }
+
+    return invitations.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+  }
+
+  /**
+   * Parse stored invitation JSON
+   * @param token - Invitation token
+   * @param value - Stored JSON
+   * @returns Invitation
+   */
+  private parse(token: string, value: string): Invitation {
+    const stored = JSON.parse(value) as StoredInvitation
+    return {
+      token,
+      ...stored,
+      createdAt: new Date(stored.createdAt),
+      expiresAt: new Date(stored.expiresAt),
+    }
+  }
+
+  /**
+   * Get Redis key for an invitation token
+   * @param token - Invitation token
+   * @returns Redis key
+   */
+  private getKey(token: string): string {
+    return `${this.keyPrefix}${token}`
+  }
+}
@@ -0,0 +1,149 @@
+import type { Kysely, Transaction } from 'kysely'
+import type { Database, Lesson, NewLesson, LessonUpdate, LessonStatus } from '../schema'
+
+/**
+ * LessonRepository - Encapsulates all database operations for lessons
+ *
+ * Following Repository Pattern:
+ * - Accept Kysely instance or Transaction for flexibility
+ * - No business logic - only data access operations
+ * - Return null for not found, throw for database errors
+ * - Support filtering by publication status
+ */
+export class LessonRepository {
+  constructor(private db: Kysely<Database> | Transaction<Database>) {}
+
+  /**
+   * Create a new lesson
+   * @param lesson - Lesson data to insert
+   * @returns The created lesson
+   * @throws Database error if creation fails
+   */
+  async create(lesson: NewLesson): Promise<Lesson> {
+    return await this.db
+      .insertInto('lessons')
+      .values(lesson)
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  /**
+   * Find lesson by ID
+   * @param id - Lesson ID
+   * @returns Lesson if found, null otherwise
+   */
+  async findById(id: string): Promise<Lesson | null> {
+    const lesson = await this.db
+      .selectFrom('lessons')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst()
+
+    return lesson ?? null
+  }
+
+  /**
+   * Find lessons by class ID
+   * @param classId - Class ID
+   * @param options - Optional status filter
+   * @returns Array of lessons ordered by module, then position within module
+   */
+  async findByClass(
+    classId: string,
+    options?: { status?: LessonStatus }
+  ): Promise<Lesson[]> {
+    let query = this.db
+      .selectFrom('lessons')
+      .selectAll()
+      .where('class_id', '=', classId)
+
+    if (options?.status) {
+      query = query.where('status', '=', options.status)
+    }
+
+    return await query
+      .orderBy('module_position', 'asc')
+      .orderBy('position', 'asc')
+      .orderBy('created_at', 'asc')
+      .execute()
+  }
+
+  /**
+   * Update a lesson
+   * @param id - Lesson ID
+   * @param updates - Fields to update
+   * @returns Updated lesson
+   * @throws Error if lesson not found
+   */
+  async update(id: string, updates: LessonUpdate): Promise<Lesson> {
+    const lesson = await this.db
+      .updateTable('lessons')
+      .set(updates)
+      .where('id', '=', id)
+      .returningAll()
+      .executeTakeFirst()
+
+    if (!lesson) {
+      throw new Error(`Lesson with id ${id} not found`)
+    }
+
+    return lesson
+  }
+
+  /**
+   * Delete a lesson
+   * @param id - Lesson ID
+   * @throws Error if lesson not found
+   */
+  async delete(id: string): Promise<void> {
+    const result = await this.db
+      .deleteFrom('lessons')
+      .where('id', '=', id)
+      .executeTakeFirst()
+
+    if (result.numDeletedRows === 0n) {
+      throw new Error(`Lesson with id ${id} not found`)
+    }
+  }
+
+  /**
+   * Count lessons in a class
+   * @param classId - Class ID
+   * @param options - Optional status filter
+   * @returns Number of lessons
+   */
+  async countByClass(
+    classId: string,
+    options?: { status?: LessonStatus }
+  ): Promise<number> {
+    let query = this.db
+      .selectFrom('lessons')
+      .select((eb) => eb.fn.countAll<string>().as('count'))
+      .where('class_id', '=', classId)
+
+    if (options?.status) {
+      query = query.where('status', '=', options.status)
+    }
+
+    const result = await query.executeTakeFirstOrThrow()
+    return parseInt(result.count, 10)
+  }
+
+  /**
+   * Get the next free position within a module of a class
+   * @param classId - Class ID
+   * @param modulePosition - Module position
+   * @returns One past the highest position in the module (0 if empty)
+   */
+  async getNextPosition(classId: string, modulePosition: number): Promise<number> {
+    const result = await this.db
+      .selectFrom('lessons')
+      .select((eb) => eb.fn.max('position').as('max_position'))
+      .where('class_id', '=', classId)
+      .where('module_position', '=', modulePosition)
+      .executeTakeFirst()
+
+    const max = result?.max_position
+    return max === null || max === undefined ? 0 : Number(max) + 1
+  }
+}
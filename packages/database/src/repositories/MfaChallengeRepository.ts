@@ -0,0 +1,135 @@
+import type Redis from 'ioredis'
+import type { SessionMetadata } from './SessionRepository'
+
+/**
+ * Pending second login step of a user who passed the password check
+ */
+export interface MfaChallenge {
+  token: string
+  userId: string
+  userAgent: string | null
+  ip: string | null
+  failedAttempts: number
+  expiresAt: Date
+}
+
+/**
+ * MfaChallengeRepository - Short-lived MFA login challenges in Redis
+ *
+ * Design decisions:
+ * - Key format: `mfa_challenge:{token}` -> hash
+ *   `{ userId, userAgent, ip, failedAttempts }`, expiring with the challenge
+ * - The device details are kept so the session created once the challenge
+ *   is passed records where the password was entered
+ * - Failed attempts are counted with HINCRBY so concurrent guesses are all
+ *   counted; services decide when to give up on a challenge
+ * - Deleting is the claim: of two concurrent completions only the one whose
+ *   DEL removed the key may issue a session
+ */
+export class MfaChallengeRepository {
+  constructor(
+    private redis: Redis,
+    private readonly keyPrefix: string = 'mfa_challenge:'
+  ) {}
+
+  /**
+   * Create a challenge
+   * @param userId - User who passed the password check
+   * @param token - Random challenge token
+   * @param expiresIn - Expiration time in seconds
+   * @param metadata - Device the user logs in from
+   * @returns Created challenge
+   */
+  async create(
+    userId: string,
+    token: string,
+    expiresIn: number,
+    metadata: SessionMetadata = {}
+  ): Promise<MfaChallenge> {
+    const key = this.getKey(token)
+
+    await this.redis
+      .multi()
+      .hset(key, {
+        userId,
+        failedAttempts: 0,
+        ...(metadata.userAgent && { userAgent: metadata.userAgent }),
+        ...(metadata.ip && { ip: metadata.ip }),
+      })
+      .expire(key, expiresIn)
+      .exec()
+
+    return {
+      token,
+      userId,
+      userAgent: metadata.userAgent ?? null,
+      ip: metadata.ip ?? null,
+      failedAttempts: 0,
+      expiresAt: new Date(Date.now() + expiresIn * 1000),
+    }
+  }
+
+  /**
+   * Get a challenge by token
+   * @param token - Challenge token
+   * @returns Challenge if found and not expired, null otherwise
+   */
+  async get(token: string): Promise<MfaChallenge | null> {
+    const key = this.getKey(token)
+    const results = await this.redis
+      .pipeline()
+      .hmget(key, 'userId', 'userAgent', 'ip', 'failedAttempts')
+      .ttl(key)
+      .exec()
+
+    const [userId, userAgent, ip, failedAttempts] = results?.[0]?.[1] as (string | null)[]
+    const ttl = Number(results?.[1]?.[1] ?? -2)
+    if (!userId || ttl <= 0) {
+      return null
+    }
+
+    return {
+      token,
+      userId,
+      userAgent: userAgent ?? null,
+      ip: ip ?? null,
+      failedAttempts: Number(failedAttempts ?? 0),
+      expiresAt: new Date(Date.now() + ttl * 1000),
+    }
+  }
+
+  /**
+   * Count a wrong code entered for a challenge
+   * @param token - Challenge token
+   * @returns Failed attempts so far
+   */
+  async recordFailedAttempt(token: string): Promise<number> {
+    const key = this.getKey(token)
+    const results = await this.redis.multi().hincrby(key, 'failedAttempts', 1).ttl(key).exec()
+
+    // The challenge expired meanwhile and HINCRBY recreated it without a TTL
+    if (Number(results?.[1]?.[1]) === -1) {
+      await this.redis.del(key)
+    }
+
+    return Number(results?.[0]?.[1] ?? 0)
+  }
+
+  /**
+   * Delete a challenge
+   * @param token - Challenge token
+   * @returns True if the challenge was deleted, false if it no longer existed
+   */
+  async delete(token: string): Promise<boolean> {
+    return (await this.redis.del(this.getKey(token))) > 0
+  }
+
+  /**
+   * Get Redis key for a challenge token
+   * @param token - Challenge token
+   * @returns Redis key
+   */
+  private getKey(token: string): string {
+    return `${this.keyPrefix}${token}`
+  }
+}
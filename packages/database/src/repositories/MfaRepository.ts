@@ -0,0 +1,217 @@
+import type { Kysely, Transaction } from 'kysely'
+import type {
+  Database,
+  MfaRequiredRole,
+  UserMfa,
+  UserRole,
+} from '../schema'
+
+/**
+ * MfaRepository - Encapsulates all database operations for multi-factor authentication
+ *
+ * Following Repository Pattern:
+ * - Accept Kysely instance or Transaction for flexibility
+ * - No business logic - only data access operations
+ * - Covers TOTP secrets, recovery codes and the roles MFA is required for
+ * - Recovery codes are looked up by hash; services do the hashing
+ * - Single-use updates (used time steps, recovery codes) are conditional
+ *   UPDATEs, so of two concurrent uses only one succeeds
+ */
+export class MfaRepository {
+  constructor(private db: Kysely<Database> | Transaction<Database>) {}
+
+  /**
+   * Find the MFA setup of a user
+   * @param userId - User ID
+   * @returns MFA setup (pending or enabled), or null if none
+   */
+  async findByUser(userId: string): Promise<UserMfa | null> {
+    const row = await this.db
+      .selectFrom('user_mfa')
+      .selectAll()
+      .where('user_id', '=', userId)
+      .executeTakeFirst()
+
+    return row ?? null
+  }
+
+  /**
+   * Store a new secret for a user, replacing a pending one
+   * @param userId - User ID
+   * @param secret - Base32-encoded TOTP secret
+   * @returns Pending MFA setup
+   */
+  async savePendingSecret(userId: string, secret: string): Promise<UserMfa> {
+    return await this.db
+      .insertInto('user_mfa')
+      .values({ user_id: userId, secret })
+      .onConflict((oc) =>
+        oc.column('user_id').doUpdateSet({ secret, enabled_at: null, last_used_step: null })
+      )
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  /**
+   * Enable a pending MFA setup
+   * @param userId - User ID
+   * @param step - Time step of the code that confirmed it
+   * @returns Enabled setup, or null if there was no pending one
+   */
+  async enable(userId: string, step: number): Promise<UserMfa | null> {
+    const row = await this.db
+      .updateTable('user_mfa')
+      .set({ enabled_at: new Date(), last_used_step: step })
+      .where('user_id', '=', userId)
+      .where('enabled_at', 'is', null)
+      .returningAll()
+      .executeTakeFirst()
+
+    return row ?? null
+  }
+
+  /**
+   * Record the use of a TOTP time step
+   * @param userId - User ID
+   * @param step - Time step of the accepted code
+   * @returns True if the step was newer than the last used one, false on a replay
+   */
+  async claimStep(userId: string, step: number): Promise<boolean> {
+    const result = await this.db
+      .updateTable('user_mfa')
+      .set({ last_used_step: step })
+      .where('user_id', '=', userId)
+      .where((eb) =>
+        eb.or([eb('last_used_step', 'is', null), eb('last_used_step', '<', step)])
+      )
+      .executeTakeFirst()
+
+    return Number(result.numUpdatedRows) > 0
+  }
+
+  /**
+   * Remove the MFA setup of a user along with their recovery codes
+   * @param userId - User ID
+   * @returns True if the user had an MFA setup
+   */
+  async delete(userId: string): Promise<boolean> {
+    await this.db.deleteFrom('mfa_recovery_codes').where('user_id', '=', userId).execute()
+
+    const result = await this.db
+      .deleteFrom('user_mfa')
+      .where('user_id', '=', userId)
+      .executeTakeFirst()
+
+    return Number(result.numDeletedRows) > 0
+  }
+
+  /**
+   * Replace all recovery codes of a user
+   * @param userId - User ID
+   * @param codeHashes - SHA-256 hashes of the new codes
+   */
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await this.db.deleteFrom('mfa_recovery_codes').where('user_id', '=', userId).execute()
+
+    if (codeHashes.length === 0) {
+      return
+    }
+
+    await this.db
+      .insertInto('mfa_recovery_codes')
+      .values(codeHashes.map((code_hash) => ({ user_id: userId, code_hash })))
+      .execute()
+  }
+
+  /**
+   * Mark an unused recovery code as used
+   * @param userId - User ID
+   * @param codeHash - SHA-256 hash of the code
+   * @returns True if the code existed and was unused
+   */
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await this.db
+      .updateTable('mfa_recovery_codes')
+      .set({ used_at: new Date() })
+      .where('user_id', '=', userId)
+      .where('code_hash', '=', codeHash)
+      .where('used_at', 'is', null)
+      .executeTakeFirst()
+
+    return Number(result.numUpdatedRows) > 0
+  }
+
+  /**
+   * Count the recovery codes a user has left
+   * @param userId - User ID
+   * @returns Number of unused codes
+   */
+  async countUnusedRecoveryCodes(userId: string): Promise<number> {
+    const result = await this.db
+      .selectFrom('mfa_recovery_codes')
+      .select((eb) => eb.fn.countAll<string>().as('count'))
+      .where('user_id', '=', userId)
+      .where('used_at', 'is', null)
+      .executeTakeFirstOrThrow()
+
+    return Number(result.count)
+  }
+
+  /**
+   * Find the roles MFA is required for
+   * @returns Required roles, oldest first
+   */
+  async findRequiredRoles(): Promise<MfaRequiredRole[]> {
+    return await this.db
+      .selectFrom('mfa_required_roles')
+      .selectAll()
+      .orderBy('created_at', 'asc')
+      .execute()
+  }
+
+  /**
+   * Check whether MFA is required for a role
+   * @param role - User role
+   * @returns True if users of the role must use MFA
+   */
+  async isRequiredForRole(role: UserRole): Promise<boolean> {
+    const row = await this.db
+      .selectFrom('mfa_required_roles')
+      .select('role')
+      .where('role', '=', role)
+      .executeTakeFirst()
+
+    return row !== undefined
+  }
+
+  /**
+   * Require MFA for a role
+   * @param role - User role
+   * @param enforcedBy - Admin requiring it
+   * @returns True if it was not required before
+   */
+  async requireForRole(role: UserRole, enforcedBy: string): Promise<boolean> {
+    const row = await this.db
+      .insertInto('mfa_required_roles')
+      .values({ role, enforced_by: enforcedBy })
+      .onConflict((oc) => oc.column('role').doNothing())
+      .returning('role')
+      .executeTakeFirst()
+
+    return row !== undefined
+  }
+
+  /**
+   * Stop requiring MFA for a role
+   * @param role - User role
+   * @returns True if it was required before
+   */
+  async unrequireForRole(role: UserRole): Promise<boolean> {
+    const result = await this.db
+      .deleteFrom('mfa_required_roles')
+      .where('role', '=', role)
+      .executeTakeFirst()
+
+    return Number(result.numDeletedRows) > 0
+  }
+}
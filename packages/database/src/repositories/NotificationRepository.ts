@@ -0,0 +1,126 @@
+import type { Kysely, Transaction } from 'kysely'
+import type { Database, Notification, NewNotification } from '../schema'
+
+/**
+ * NotificationRepository - Encapsulates all database operations for in-app notifications
+ *
+ * Following Repository Pattern:
+ * - Accept Kysely instance or Transaction for flexibility
+ * - No business logic - only data access operations
+ * - Return null for not found, throw for database errors
+ * - Read/unread updates are scoped to the recipient
+ */
+export class NotificationRepository {
+  constructor(private db: Kysely<Database> | Transaction<Database>) {}
+
+  /**
+   * Create notifications in one insert
+   * @param notifications - Notifications to create
+   * @returns Created notifications
+   */
+  async createMany(notifications: NewNotification[]): Promise<Notification[]> {
+    if (notifications.length === 0) {
+      return []
+    }
+
+    return await this.db
+      .insertInto('notifications')
+      .values(notifications)
+      .returningAll()
+      .execute()
+  }
+
+  /**
+   * Find notifications of a user, newest first
+   * @param userId - Recipient ID
+   * @param options - Only unread notifications, and maximum number returned
+   * @returns Notifications
+   */
+  async findByUser(
+    userId: string,
+    options: { unreadOnly?: boolean; limit?: number } = {}
+  ): Promise<Notification[]> {
+    let query = this.db
+      .selectFrom('notifications')
+      .selectAll()
+      .where('user_id', '=', userId)
+      .orderBy('created_at', 'desc')
+      .orderBy('id', 'desc')
+      .limit(options.limit ?? 50)
+
+    if (options.unreadOnly) {
+      query = query.where('read_at', 'is', null)
+    }
+
+    return await query.execute()
+  }
+
+  /**
+   * Count unread notifications of a user
+   * @param userId - Recipient ID
+   * @returns Unread count
+   */
+  async countUnread(userId: string): Promise<number> {
+    const result = await this.db
+      .selectFrom('notifications')
+      .select((eb) => eb.fn.countAll<string>().as('count'))
+      .where('user_id', '=', userId)
+      .where('read_at', 'is', null)
+      .executeTakeFirstOrThrow()
+
+    return Number(result.count)
+  }
+
+  /**
+   * Mark a notification as read
+   * - Keeps the original read time if it was already read
+   * @param id - Notification ID
+   * @param userId - Recipient ID
+   * @returns Notification if it belongs to the user, null otherwise
+   */
+  async markRead(id: string, userId: string): Promise<Notification | null> {
+    const notification = await this.db
+      .updateTable('notifications')
+      .set((eb) => ({ read_at: eb.fn.coalesce('read_at', eb.val(new Date())) }))
+      .where('id', '=', id)
+      .where('user_id', '=', userId)
+      .returningAll()
+      .executeTakeFirst()
+
+    return notification ?? null
+  }
+
+  /**
+   * Mark a notification as unread
+   * @param id - Notification ID
+   * @param userId - Recipient ID
+   * @returns Notification if it belongs to the user, null otherwise
+   */
+  async markUnread(id: string, userId: string): Promise<Notification | null> {
+    const notification = await this.db
+      .updateTable('notifications')
+      .set({ read_at: null })
+      .where('id', '=', id)
+      .where('user_id', '=', userId)
+      .returningAll()
+      .executeTakeFirst()
+
+    return notification ?? null
+  }
+
+  /**
+   * Mark all unread notifications of a user as read
+   * @param userId - Recipient ID
+   * @returns Number of notifications marked
+   */
+  async markAllRead(userId: string): Promise<number> {
+    const result = await this.db
+      .updateTable('notifications')
+      .set({ read_at: new Date() })
+      .where('user_id', '=', userId)
+      .where('read_at', 'is', null)
+      .executeTakeFirst()
+
+    return Number(result.numUpdatedRows)
+  }
+}
@@ -0,0 +1,208 @@
+import type { Kysely, Transaction } from 'kysely'
+import type {
+  Database,
+  RubricCriterionWithLevels,
+  GradeCriterionScore,
+  GradeCriterionScoreDetail,
+} from '../schema'
+
+/**
+ * Input shape for one criterion of a rubric, levels included
+ */
+export interface RubricCriterionInput {
+  title: string
+  description: string | null
+  levels: Array<{
+    label: string
+    description: string | null
+    points: number
+  }>
+}
+
+/**
+ * RubricRepository - Encapsulates all database operations for rubrics and rubric scores
+ *
+ * Following Repository Pattern:
+ * - Accept Kysely instance or Transaction for flexibility
+ * - No business logic - only data access operations
+ * - Return null for not found, throw for database errors
+ * - A rubric is always read and written as a whole for its assignment
+ */
+export class RubricRepository {
+  constructor(private db: Kysely<Database> | Transaction<Database>) {}
+
+  /**
+   * Find the rubric of an assignment
+   * @param assignmentId - Assignment ID
+   * @returns Criteria ordered by position, each with its levels ordered by position
+   */
+  async findByAssignment(assignmentId: string): Promise<RubricCriterionWithLevels[]> {
+    const criteria = await this.db
+      .selectFrom('rubric_criteria')
+      .selectAll()
+      .where('assignment_id', '=', assignmentId)
+      .orderBy('position', 'asc')
+      .execute()
+
+    if (criteria.length === 0) {
+      return []
+    }
+
+    const levels = await this.db
+      .selectFrom('rubric_levels')
+      .selectAll()
+      .where('criterion_id', 'in', criteria.map((c) => c.id))
+      .orderBy('position', 'asc')
+      .execute()
+
+    return criteria.map((criterion) => ({
+      ...criterion,
+      levels: levels.filter((level) => level.criterion_id === criterion.id),
+    }))
+  }
+
+  /**
+   * Replace the rubric of an assignment
+   * - Existing criteria and levels are removed, new ones keep input order
+   * @param assignmentId - Assignment ID
+   * @param criteria - New criteria with levels
+   * @returns The stored rubric
+   * @throws Database error if insertion fails
+   */
+  async replaceForAssignment(
+    assignmentId: string,
+    criteria: RubricCriterionInput[]
+  ): Promise<RubricCriterionWithLevels[]> {
+    await this.deleteByAssignment(assignmentId)
+
+    for (const [position, criterion] of criteria.entries()) {
+      const created = await this.db
+        .insertInto('rubric_criteria')
+        .values({
+          assignment_id: assignmentId,
+          title: criterion.title,
+          description: criterion.description,
+          position,
+        })
+        .returning('id')
+        .executeTakeFirstOrThrow()
+
+      if (criterion.levels.length > 0) {
+        await this.db
+          .insertInto('rubric_levels')
+          .values(
+            criterion.levels.map((level, levelPosition) => ({
+              criterion_id: created.id,
+              label: level.label,
+              description: level.description,
+              points: level.points,
+              position: levelPosition,
+            }))
+          )
+          .execute()
+      }
+    }
+
+    return await this.findByAssignment(assignmentId)
+  }
+
+  /**
+   * Delete the rubric of an assignment
+   * @param assignmentId - Assignment ID
+   * @returns Number of criteria deleted
+   */
+  async deleteByAssignment(assignmentId: string): Promise<number> {
+    const result = await this.db
+      .deleteFrom('rubric_criteria')
+      .where('assignment_id', '=', assignmentId)
+      .executeTakeFirst()
+
+    return Number(result.numDeletedRows)
+  }
+
+  /**
+   * Count grades of an assignment that were given with its rubric
+   * @param assignmentId - Assignment ID
+   * @returns Number of distinct grades with criterion scores
+   */
+  async countScoredGrades(assignmentId: string): Promise<number> {
+    const result = await this.db
+      .selectFrom('grade_criterion_scores')
+      .innerJoin(
+        'rubric_criteria',
+        'grade_criterion_scores.criterion_id',
+        'rubric_criteria.id'
+      )
+      .select((eb) =>
+        eb.fn.count<string>('grade_criterion_scores.grade_id').distinct().as('count')
+      )
+      .where('rubric_criteria.assignment_id', '=', assignmentId)
+      .executeTakeFirst()
+
+    return Number(result?.count ?? 0)
+  }
+
+  /**
+   * Replace the criterion scores of a grade
+   * @param gradeId - Grade ID
+   * @param scores - Chosen level and points per criterion
+   * @returns The stored scores
+   * @throws Database error if insertion fails (e.g., duplicate criterion)
+   */
+  async saveScores(
+    gradeId: string,
+    scores: Array<{
+      criterionId: string
+      levelId: string
+      points: number | string
+      comment: string | null
+    }>
+  ): Promise<GradeCriterionScore[]> {
+    await this.db
+      .deleteFrom('grade_criterion_scores')
+      .where('grade_id', '=', gradeId)
+      .execute()
+
+    if (scores.length === 0) {
+      return []
+    }
+
+    return await this.db
+      .insertInto('grade_criterion_scores')
+      .values(
+        scores.map((score) => ({
+          grade_id: gradeId,
+          criterion_id: score.criterionId,
+          level_id: score.levelId,
+          points: score.points,
+          comment: score.comment,
+        }))
+      )
+      .returningAll()
+      .execute()
+  }
+
+  /**
+   * Find criterion scores of a grade
+   * @param gradeId - Grade ID
+   * @returns Scores with criterion title and level label, in rubric order
+   */
+  async findScoresByGrade(gradeId: string): Promise<GradeCriterionScoreDetail[]> {
+    return await this.db
+      .selectFrom('grade_criterion_scores')
+      .innerJoin(
+        'rubric_criteria',
+        'grade_criterion_scores.criterion_id',
+        'rubric_criteria.id'
+      )
+      .innerJoin('rubric_levels', 'grade_criterion_scores.level_id', 'rubric_levels.id')
+      .selectAll('grade_criterion_scores')
+      .select([
+        'rubric_criteria.title as criterion_title',
+        'rubric_levels.label as level_label',
+      ])
+      .where('grade_criterion_scores.grade_id', '=', gradeId)
+      .orderBy('rubric_criteria.position', 'asc')
+      .execute()
+  }
+}
@@ -1,3 +1,4 @@
+import { createHash, randomUUID } from 'crypto'
 import type Redis from 'ioredis'
 
 /**
@@ -5,10 +6,42 @@ import type Redis from 'ioredis'
  * Note: Named RedisSession to avoid conflict with database Session type
  */
 export interface RedisSession {
+  id: string
   userId: string
   refreshToken: string
+  userAgent: string | null
+  ip: string | null
   expiresAt: Date
   createdAt: Date
+  lastUsedAt: Date
+}
+
+/**
+ * Device details recorded when a session is created or used
+ */
+export interface SessionMetadata {
+  userAgent?: string | null | undefined
+  ip?: string | null | undefined
+}
+
+/**
+ * A refresh token that was rotated out, and the token family it belonged to
+ */
+export interface RetiredRefreshToken {
+  userId: string
+  sessionId: string
+}
+
+/**
+ * Session fields as stored in the Redis hash, with the key's remaining TTL
+ */
+interface StoredSession {
+  id: string
+  userId: string
+  userAgent: string | null
+  ip: string | null
+  createdAt: Date
+  lastUsedAt: Date
 }
 
 /**
@@ -16,41 +49,60 @@ export interface RedisSession {
  *
  * Design decisions:
  * - Uses Redis instead of PostgreSQL for better performance and automatic TTL
- * - Key format: `session:{refreshToken}` -> `{userId}`
- * - Supports automatic expiration via Redis TTL
- * - All operations are atomic and fast (O(1))
+ * - Key format: `session:{refreshToken}` -> hash
+ *   `{ id, userId, userAgent, ip, createdAt, lastUsedAt }`
+ * - The session ID is public and stays the same when the refresh token is
+ *   rotated, so clients can list and revoke sessions without seeing tokens
+ * - The refresh tokens a session went through form its token family, named
+ *   by the session ID. Rotated-out tokens are kept as
+ *   `retired_session:{refreshToken}` -> `{ userId, sessionId }` for as long
+ *   as their successor lives, so a replay can be traced to its family
+ * - Per-user index: `user_sessions:{userId}` -> set of refresh tokens, so
+ *   user lookups cost O(sessions of the user) instead of a KEYS scan
+ * - Writes touching a session and its index run in one MULTI transaction
+ * - The index lives as long as the longest session in it; members whose
+ *   session expired are pruned when the index is read
+ * - Sessions stored by earlier versions as plain `session:{token}` -> `{userId}`
+ *   strings are upgraded on read, or all at once with `migrateLegacySessions`
+ * - Other single-use tokens (e.g. password resets) reuse this class with
+ *   their own key prefixes so they never show up as sessions
  */
 export class SessionRepository {
-  private readonly keyPrefix = 'session:'
   private readonly defaultTTL = 7 * 24 * 60 * 60 // 7 days in seconds
 
-  constructor(private redis: Redis) {}
+  constructor(
+    private redis: Redis,
+    private readonly keyPrefix: string = 'session:',
+    private readonly userIndexPrefix: string = 'user_sessions:'
+  ) {}
 
   /**
    * Create a new session
    * @param userId - User ID for the session
    * @param refreshToken - JWT refresh token
    * @param expiresIn - Expiration time in seconds (default: 7 days)
+   * @param metadata - Device the session was created from
    * @returns Created session data
    */
   async create(
     userId: string,
     refreshToken: string,
-    expiresIn: number = this.defaultTTL
+    expiresIn: number = this.defaultTTL,
+    metadata: SessionMetadata = {}
   ): Promise<RedisSession> {
-    const key = this.getKey(refreshToken)
     const createdAt = new Date()
-    const expiresAt = new Date(createdAt.getTime() + expiresIn * 1000)
-
-    // Store userId in Redis with TTL
-    await this.redis.setex(key, expiresIn, userId)
-
-    return {
+    const stored: StoredSession = {
+      id: randomUUID(),
       userId,
-      refreshToken,
-      expiresAt,
+      userAgent: metadata.userAgent ?? null,
+      ip: metadata.ip ?? null,
       createdAt,
+      lastUsedAt: createdAt,
     }
+
+    await this.write(refreshToken, stored, expiresIn)
+
+    return this.toSession(refreshToken, stored, expiresIn)
   }
 
   /**
@@ -59,32 +111,13 @@ export class SessionRepository {
    * @returns Session if found and not expired, null otherwise
    */
   async get(refreshToken: string): Promise<RedisSession | null> {
-    const key = this.getKey(refreshToken)
-    const userId = await this.redis.get(key)
-
-    if (!userId) {
-      return null
-    }
-
-    // Get TTL to calculate expiresAt
-    const ttl = await this.redis.ttl(key)
-    if (ttl <= 0) {
+    const stored = await this.read(refreshToken)
+    if (!stored || stored.ttl <= 0) {
       // Session expired or doesn't exist
       return null
     }
 
-    const now = new Date()
-    const expiresAt = new Date(now.getTime() + ttl * 1000)
-
-    // Note: We don't have createdAt stored, so we approximate it
-    const createdAt = new Date(expiresAt.getTime() - this.defaultTTL * 1000)
-
-    return {
-      userId,
-      refreshToken,
-      expiresAt,
-      createdAt,
-    }
+    return this.toSession(refreshToken, stored, stored.ttl)
   }
 
   /**
@@ -94,40 +127,108 @@ export class SessionRepository {
    */
   async delete(refreshToken: string): Promise<boolean> {
     const key = this.getKey(refreshToken)
-    const result = await this.redis.del(key)
-    return result > 0
+    const stored = await this.read(refreshToken)
+
+    if (!stored) {
+      // Nothing indexed; still drop the key in case it is unreadable
+      return (await this.redis.del(key)) > 0
+    }
+
+    const results = await this.redis
+      .multi()
+      .del(key)
+      .srem(this.getUserIndexKey(stored.userId), refreshToken)
+      .exec()
+
+    return Number(results?.[0]?.[1] ?? 0) > 0
   }
 
   /**
-   * Refresh a session (extend expiration)
+   * Refresh a session (extend expiration and record its use)
    * @param refreshToken - Refresh token to extend
    * @param expiresIn - New expiration time in seconds (default: 7 days)
+   * @param metadata - Device the session is used from (kept when omitted)
    * @returns Updated session if found, null otherwise
    */
   async refresh(
     refreshToken: string,
-    expiresIn: number = this.defaultTTL
+    expiresIn: number = this.defaultTTL,
+    metadata: SessionMetadata = {}
   ): Promise<RedisSession | null> {
-    const key = this.getKey(refreshToken)
-    const userId = await this.redis.get(key)
+    const stored = await this.read(refreshToken)
 
-    if (!userId) {
+    if (!stored) {
       return null
     }
 
-    // Update TTL
-    await this.redis.expire(key, expiresIn)
+    const used = this.markUsed(stored, metadata)
+    await this.write(refreshToken, used, expiresIn)
+
+    return this.toSession(refreshToken, used, expiresIn)
+  }
 
-    const now = new Date()
-    const expiresAt = new Date(now.getTime() + expiresIn * 1000)
-    const createdAt = new Date(expiresAt.getTime() - this.defaultTTL * 1000)
+  /**
+   * Replace the refresh token of a session
+   * - Keeps the session ID and creation time, records the use
+   * - Retires the old token in the same transaction
+   * - Of concurrent rotations of one token, only the first succeeds
+   * @param refreshToken - Current refresh token
+   * @param newRefreshToken - Refresh token replacing it
+   * @param expiresIn - Expiration time in seconds (default: 7 days)
+   * @param metadata - Device the session is used from (kept when omitted)
+   * @returns Session under the new token, null if the current one was not found
+   *   or was rotated meanwhile
+   */
+  async rotate(
+    refreshToken: string,
+    newRefreshToken: string,
+    expiresIn: number = this.defaultTTL,
+    metadata: SessionMetadata = {}
+  ): Promise<RedisSession | null> {
+    const stored = await this.read(refreshToken)
 
-    return {
-      userId,
-      refreshToken,
-      expiresAt,
-      createdAt,
+    if (!stored) {
+      return null
     }
+
+    // Claim the token; a concurrent rotation that deleted it first wins
+    if ((await this.redis.del(this.getKey(refreshToken))) === 0) {
+      return null
+    }
+
+    const used = this.markUsed(stored, metadata)
+    await this.write(newRefreshToken, used, expiresIn, refreshToken)
+
+    return this.toSession(newRefreshToken, used, expiresIn)
+  }
+
+  /**
+   * Look up a refresh token that was rotated out
+   * @param refreshToken - Refresh token to look up
+   * @returns Its user and token family, null if it was never rotated out
+   *   (or its family has expired since)
+   */
+  async findRetired(refreshToken: string): Promise<RetiredRefreshToken | null> {
+    const [userId, sessionId] = await this.redis.hmget(
+      this.getRetiredKey(refreshToken),
+      'userId',
+      'sessionId'
+    )
+
+    return userId && sessionId ? { userId, sessionId } : null
+  }
+
+  /**
+   * Delete the session of a token family, whichever token it is at
+   * @param userId - User ID
+   * @param sessionId - Session ID naming the family
+   * @returns True if the session was deleted, false if it no longer existed
+   */
+  async deleteFamily(userId: string, sessionId: string): Promise<boolean> {
+    const sessions = await this.findAllForUser(userId)
+    const session = sessions.find((s) => s.id === sessionId)
+
+    return session ? this.delete(session.refreshToken) : false
   }
 
   /**
@@ -143,42 +244,66 @@ export class SessionRepository {
 
   /**
    * Get all sessions for a user
+   * - Prunes index members whose session has expired
    * @param userId - User ID
    * @returns Array of refresh tokens for the user
    */
   async getAllForUser(userId: string): Promise<string[]> {
-    const pattern = `${this.keyPrefix}*`
-    const keys = await this.redis.keys(pattern)
+    const indexKey = this.getUserIndexKey(userId)
+    const tokens = await this.redis.smembers(indexKey)
 
-    const sessions: string[] = []
+    if (tokens.length === 0) {
+      return []
+    }
 
-    for (const key of keys) {
-      const storedUserId = await this.redis.get(key)
-      if (storedUserId === userId) {
-        const refreshToken = key.slice(this.keyPrefix.length)
-        sessions.push(refreshToken)
-      }
+    const pipeline = this.redis.pipeline()
+    tokens.forEach((token) => pipeline.exists(this.getKey(token)))
+    const results = (await pipeline.exec()) ?? []
+
+    const sessions = tokens.filter((_, index) => results[index]?.[1] === 1)
+    const expired = tokens.filter((_, index) => results[index]?.[1] !== 1)
+
+    if (expired.length > 0) {
+      await this.redis.srem(indexKey, ...expired)
     }
 
     return sessions
   }
 
+  /**
+   * Get all sessions of a user with their details
+   * @param userId - User ID
+   * @returns Sessions, most recently used first
+   */
+  async findAllForUser(userId: string): Promise<RedisSession[]> {
+    const tokens = await this.getAllForUser(userId)
+    const sessions = await Promise.all(tokens.map((token) => this.get(token)))
+
+    return sessions
+      .filter((session): session is RedisSession => session !== null)
+      .sort((a, b) => b.lastUsedAt.getTime() - a.lastUsedAt.getTime())
+  }
+
   /**
    * Delete all sessions for a user
    * @param userId - User ID
    * @returns Number of sessions deleted
    */
   async deleteAllForUser(userId: string): Promise<number> {
-    const sessions = await this.getAllForUser(userId)
+    const indexKey = this.getUserIndexKey(userId)
+    const tokens = await this.redis.smembers(indexKey)
 
-    if (sessions.length === 0) {
+    if (tokens.length === 0) {
       return 0
     }
 
-    const keys = sessions.map((token) => this.getKey(token))
-    const result = await this.redis.del(...keys)
+    const results = await this.redis
+      .multi()
+      .del(...tokens.map((token) => this.getKey(token)))
+      .del(indexKey)
+      .exec()
 
-    return result
+    return Number(results?.[0]?.[1] ?? 0)
   }
 
   /**
@@ -186,8 +311,7 @@ export class SessionRepository {
    * @returns Number of active sessions
    */
   async count(): Promise<number> {
-    const pattern = `${this.keyPrefix}*`
-    const keys = await this.redis.keys(pattern)
+    const keys = await this.scanSessionKeys()
     return keys.length
   }
 
@@ -210,15 +334,226 @@ export class SessionRepository {
       throw new Error('Cannot delete all sessions in production')
     }
 
-    const pattern = `${this.keyPrefix}*`
-    const keys = await this.redis.keys(pattern)
+    const keys = await this.scanSessionKeys()
+    const otherKeys = [
+      ...(await this.scanKeys(`${this.userIndexPrefix}*`)),
+      ...(await this.scanKeys(this.getRetiredKey('*'))),
+    ]
+
+    if (otherKeys.length > 0) {
+      await this.redis.del(...otherKeys)
+    }
 
     if (keys.length === 0) {
       return 0
     }
 
-    const result = await this.redis.del(...keys)
-    return result
+    return this.redis.del(...keys)
+  }
+
+  /**
+   * Upgrade every session stored in the legacy string format to a hash
+   * and add it to its user index (safe to run more than once)
+   * @returns Number of sessions upgraded
+   */
+  async migrateLegacySessions(): Promise<number> {
+    let upgraded = 0
+
+    for (const key of await this.scanSessionKeys()) {
+      if ((await this.redis.type(key)) === 'string') {
+        if (await this.upgradeLegacy(key.slice(this.keyPrefix.length))) {
+          upgraded++
+        }
+      }
+    }
+
+    return upgraded
+  }
+
+  /**
+   * Store a session hash and add it to the user index in one transaction
+   * - Extends the index TTL so it outlives its longest session
+   * @param refreshToken - Refresh token
+   * @param stored - Session fields
+   * @param expiresIn - Expiration time in seconds
+   * @param replacedToken - Refresh token retired in the same transaction
+   */
+  private async write(
+    refreshToken: string,
+    stored: StoredSession,
+    expiresIn: number,
+    replacedToken?: string
+  ): Promise<void> {
+    const key = this.getKey(refreshToken)
+    const indexKey = this.getUserIndexKey(stored.userId)
+    const indexTTL = await this.redis.ttl(indexKey)
+
+    const fields: Record<string, string> = {
+      id: stored.id,
+      userId: stored.userId,
+      createdAt: stored.createdAt.toISOString(),
+      lastUsedAt: stored.lastUsedAt.toISOString(),
+      ...(stored.userAgent && { userAgent: stored.userAgent }),
+      ...(stored.ip && { ip: stored.ip }),
+    }
+
+    const transaction = this.redis.multi()
+    if (replacedToken) {
+      const retiredKey = this.getRetiredKey(replacedToken)
+      transaction
+        .del(this.getKey(replacedToken))
+        .srem(indexKey, replacedToken)
+        .hset(retiredKey, { userId: stored.userId, sessionId: stored.id })
+        .expire(retiredKey, expiresIn)
+    }
+
+    await transaction
+      .del(key)
+      .hset(key, fields)
+      .expire(key, expiresIn)
+      .sadd(indexKey, refreshToken)
+      .expire(indexKey, Math.max(indexTTL, expiresIn))
+      .exec()
+  }
+
+  /**
+   * Read a session hash with its remaining TTL
+   * - Upgrades a legacy string session first
+   * @param refreshToken - Refresh token
+   * @returns Stored session and TTL in seconds, null if not found
+   */
+  private async read(refreshToken: string): Promise<(StoredSession & { ttl: number }) | null> {
+    const key = this.getKey(refreshToken)
+    const results = await this.redis
+      .pipeline()
+      .type(key)
+      .hmget(key, 'userId', 'id', 'createdAt', 'lastUsedAt', 'userAgent', 'ip')
+      .ttl(key)
+      .exec()
+
+    const type = results?.[0]?.[1]
+    if (type === 'string') {
+      return (await this.upgradeLegacy(refreshToken)) ? this.read(refreshToken) : null
+    }
+
+    if (type !== 'hash') {
+      return null
+    }
+
+    const [userId, id, createdAt, lastUsedAt, userAgent, ip] = results?.[1]?.[1] as (
+      | string
+      | null
+    )[]
+    if (!userId) {
+      return null
+    }
+
+    const ttl = Number(results?.[2]?.[1] ?? -2)
+    // Sessions without a stored creation time are approximated from the TTL
+    const created = createdAt
+      ? new Date(createdAt)
+      : new Date(Date.now() + (ttl - this.defaultTTL) * 1000)
+
+    return {
+      // Sessions stored without an ID get a stable one derived from the token
+      id: id ?? createHash('sha256').update(refreshToken).digest('hex').slice(0, 32),
+      userId,
+      userAgent: userAgent ?? null,
+      ip: ip ?? null,
+      createdAt: created,
+      lastUsedAt: lastUsedAt ? new Date(lastUsedAt) : created,
+      ttl,
+    }
+  }
+
+  /**
+   * Rewrite a legacy `session:{token}` -> `{userId}` string as a hash,
+   * keeping its remaining TTL
+   * @param refreshToken - Refresh token
+   * @returns True if the session was upgraded, false if it expired meanwhile
+   */
+  private async upgradeLegacy(refreshToken: string): Promise<boolean> {
+    const key = this.getKey(refreshToken)
+    const results = await this.redis.pipeline().get(key).ttl(key).exec()
+
+    const userId = results?.[0]?.[1] as string | null
+    const ttl = Number(results?.[1]?.[1] ?? -2)
+    if (!userId || ttl <= 0) {
+      return false
+    }
+
+    // Legacy sessions did not store their creation time
+    const createdAt = new Date(Date.now() + (ttl - this.defaultTTL) * 1000)
+    await this.write(
+      refreshToken,
+      { id: randomUUID(), userId, userAgent: null, ip: null, createdAt, lastUsedAt: createdAt },
+      ttl
+    )
+
+    return true
+  }
+
+  /**
+   * Record a use of a session, updating the device details that were given
+   * @param stored - Stored session
+   * @param metadata - Device the session is used from
+   * @returns Updated session fields
+   */
+  private markUsed(stored: StoredSession, metadata: SessionMetadata): StoredSession {
+    return {
+      id: stored.id,
+      userId: stored.userId,
+      userAgent: metadata.userAgent ?? stored.userAgent,
+      ip: metadata.ip ?? stored.ip,
+      createdAt: stored.createdAt,
+      lastUsedAt: new Date(),
+    }
+  }
+
+  /**
+   * Build the public session shape
+   * @param refreshToken - Refresh token
+   * @param stored - Stored session
+   * @param ttl - Remaining lifetime in seconds
+   * @returns Session
+   */
+  private toSession(refreshToken: string, stored: StoredSession, ttl: number): RedisSession {
+    return {
+      id: stored.id,
+      userId: stored.userId,
+      refreshToken,
+      userAgent: stored.userAgent,
+      ip: stored.ip,
+      expiresAt: new Date(Date.now() + ttl * 1000),
+      createdAt: stored.createdAt,
+      lastUsedAt: stored.lastUsedAt,
+    }
+  }
+
+  /**
+   * Find all session keys without blocking Redis
+   * @returns Session keys
+   */
+  private async scanSessionKeys(): Promise<string[]> {
+    return this.scanKeys(`${this.keyPrefix}*`)
+  }
+
+  /**
+   * Find all keys matching a pattern with SCAN
+   * @param pattern - Key pattern
+   * @returns Matching keys
+   */
+  private async scanKeys(pattern: string): Promise<string[]> {
+    const keys = new Set<string>()
+    let cursor = '0'
+
+    do {
+      const [next, batch] = await this.redis.scan(cursor, 'MATCH', pattern, 'COUNT', 1000)
+      batch.forEach((key) => keys.add(key))
+      cursor = next
+    } while (cursor !== '0')
+
+    return [...keys]
   }
 
   /**
@@ -229,4 +564,22 @@ export class SessionRepository {
   private getKey(refreshToken: string): string {
     return `${this.keyPrefix}${refreshToken}`
   }
+
+  /**
+   * Get Redis key of a rotated-out refresh token
+   * @param refreshToken - Refresh token
+   * @returns Redis key
+   */
+  private getRetiredKey(refreshToken: string): string {
+    return `retired_${this.keyPrefix}${refreshToken}`
+  }
+
+  /**
+   * Get Redis key of a user's session index
+   * @param userId - User ID
+   * @returns Redis key
+   */
+  private getUserIndexKey(userId: string): string {
+    return `${this.userIndexPrefix}${userId}`
+  }
 }
@@ -0,0 +1,89 @@
+import type { Kysely, Transaction } from 'kysely'
+import type { Database, SubmissionAttachment, NewSubmissionAttachment } from '../schema'
+
+/**
+ * SubmissionAttachmentRepository - Encapsulates all database operations for submission attachments
+ *
+ * Following Repository Pattern:
+ * - Accept Kysely instance or Transaction for flexibility
+ * - No business logic - only data access operations
+ * - Return null for not found, throw for database errors
+ * - Stores attachment metadata only - file contents live in a storage backend
+ */
+export class SubmissionAttachmentRepository {
+  constructor(private db: Kysely<Database> | Transaction<Database>) {}
+
+  /**
+   * Create a new attachment record
+   * @param attachment - Attachment metadata to insert
+   * @returns The created attachment
+   * @throws Database error if creation fails (e.g., duplicate storage key)
+   */
+  async create(attachment: NewSubmissionAttachment): Promise<SubmissionAttachment> {
+    return await this.db
+      .insertInto('submission_attachments')
+      .values(attachment)
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  /**
+   * Find attachment by ID
+   * @param id - Attachment ID
+   * @returns Attachment if found, null otherwise
+   */
+  async findById(id: string): Promise<SubmissionAttachment | null> {
+    const attachment = await this.db
+      .selectFrom('submission_attachments')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst()
+
+    return attachment ?? null
+  }
+
+  /**
+   * Find attachments of a submission
+   * @param submissionId - Submission ID
+   * @returns Array of attachments in upload order
+   */
+  async findBySubmission(submissionId: string): Promise<SubmissionAttachment[]> {
+    return await this.db
+      .selectFrom('submission_attachments')
+      .selectAll()
+      .where('submission_id', '=', submissionId)
+      .orderBy('created_at', 'asc')
+      .execute()
+  }
+
+  /**
+   * Count attachments of a submission
+   * @param submissionId - Submission ID
+   * @returns Number of attachments
+   */
+  async countBySubmission(submissionId: string): Promise<number> {
+    const result = await this.db
+      .selectFrom('submission_attachments')
+      .select((eb) => eb.fn.countAll<string>().as('count'))
+      .where('submission_id', '=', submissionId)
+      .executeTakeFirstOrThrow()
+
+    return parseInt(result.count, 10)
+  }
+
+  /**
+   * Delete an attachment record
+   * @param id - Attachment ID
+   * @throws Error if attachment not found
+   */
+  async delete(id: string): Promise<void> {
+    const result = await this.db
+      .deleteFrom('submission_attachments')
+      .where('id', '=', id)
+      .executeTakeFirst()
+
+    if (result.numDeletedRows === 0n) {
+      throw new Error(`Attachment with id ${id} not found`)
+    }
+  }
+}
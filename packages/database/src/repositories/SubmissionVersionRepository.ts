@@ -0,0 +1,140 @@
+import { sql } from 'kysely'
+import type { Kysely, Transaction } from 'kysely'
+import type { Database, SubmissionVersion } from '../schema'
+
+/**
+ * SubmissionVersionRepository - Encapsulates all database operations for submission versions
+ *
+ * Following Repository Pattern:
+ * - Accept Kysely instance or Transaction for flexibility
+ * - No business logic - only data access operations
+ * - Return null for not found, throw for database errors
+ * - Versions are append-only; only the return-for-revision snapshot is ever written later
+ */
+export class SubmissionVersionRepository {
+  constructor(private db: Kysely<Database> | Transaction<Database>) {}
+
+  /**
+   * Append a new version to a submission
+   * - Version numbers start at 1 and increase by one per submission
+   * - Records the submission's current attachments with the version
+   * @param submissionId - Submission ID
+   * @param content - Submission content at this version
+   * @param fileUrl - File URL at this version
+   * @returns The created version
+   * @throws Database error if creation fails (e.g., concurrent insert of same version number)
+   */
+  async create(
+    submissionId: string,
+    content: string,
+    fileUrl: string | null
+  ): Promise<SubmissionVersion> {
+    return await this.db
+      .insertInto('submission_versions')
+      .values({
+        submission_id: submissionId,
+        version_number: sql<number>`(
+          SELECT COALESCE(MAX(version_number), 0) + 1
+          FROM submission_versions
+          WHERE submission_id = ${submissionId}
+        )`,
+        content,
+        file_url: fileUrl,
+        attachments: sql<string>`(
+          SELECT COALESCE(
+            jsonb_agg(
+              jsonb_build_object(
+                'id', id,
+                'filename', filename,
+                'mime_type', mime_type,
+                'size_bytes', size_bytes
+              ) ORDER BY created_at
+            ),
+            '[]'::jsonb
+          )
+          FROM submission_attachments
+          WHERE submission_id = ${submissionId}
+        )`,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  /**
+   * Find versions of a submission
+   * @param submissionId - Submission ID
+   * @returns Array of versions ordered by version number asc
+   */
+  async findBySubmission(submissionId: string): Promise<SubmissionVersion[]> {
+    return await this.db
+      .selectFrom('submission_versions')
+      .selectAll()
+      .where('submission_id', '=', submissionId)
+      .orderBy('version_number', 'asc')
+      .execute()
+  }
+
+  /**
+   * Find a specific version of a submission
+   * @param submissionId - Submission ID
+   * @param versionNumber - Version number
+   * @returns Version if found, null otherwise
+   */
+  async findByNumber(
+    submissionId: string,
+    versionNumber: number
+  ): Promise<SubmissionVersion | null> {
+    const version = await this.db
+      .selectFrom('submission_versions')
+      .selectAll()
+      .where('submission_id', '=', submissionId)
+      .where('version_number', '=', versionNumber)
+      .executeTakeFirst()
+
+    return version ?? null
+  }
+
+  /**
+   * Find the latest version of a submission
+   * @param submissionId - Submission ID
+   * @returns Latest version if any, null otherwise
+   */
+  async findLatest(submissionId: string): Promise<SubmissionVersion | null> {
+    const version = await this.db
+      .selectFrom('submission_versions')
+      .selectAll()
+      .where('submission_id', '=', submissionId)
+      .orderBy('version_number', 'desc')
+      .limit(1)
+      .executeTakeFirst()
+
+    return version ?? null
+  }
+
+  /**
+   * Record that a version was returned for revision
+   * @param id - Version ID
+   * @param grade - Grade the version had when returned
+   * @param feedback - Feedback the version had when returned
+   * @returns Updated version
+   * @throws Error if version not found
+   */
+  async markReturned(
+    id: string,
+    grade: string | number,
+    feedback: string | null
+  ): Promise<SubmissionVersion> {
+    const version = await this.db
+      .updateTable('submission_versions')
+      .set({ grade, feedback, returned_at: new Date() })
+      .where('id', '=', id)
+      .returningAll()
+      .executeTakeFirst()
+
+    if (!version) {
+      throw new Error(`Submission version with id ${id} not found`)
+    }
+
+    return version
+  }
+}
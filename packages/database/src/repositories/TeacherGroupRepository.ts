@@ -0,0 +1,229 @@
+import type { Kysely, Transaction } from 'kysely'
+import type {
+  Database,
+  TeacherGroup,
+  NewTeacherGroup,
+  TeacherGroupUpdate,
+  TeacherGroupMember,
+} from '../schema'
+
+/**
+ * TeacherGroupRepository - Encapsulates all database operations for teacher groups
+ *
+ * Following Repository Pattern:
+ * - Accept Kysely instance or Transaction for flexibility
+ * - No business logic - only data access operations
+ * - Return null for not found, throw for database errors
+ * - Support pagination and filtering
+ */
+export class TeacherGroupRepository {
+  constructor(private db: Kysely<Database> | Transaction<Database>) {}
+
+  /**
+   * Create a new teacher group
+   * @param group - Teacher group data to insert
+   * @returns The created teacher group
+   * @throws Database error if creation fails
+   */
+  async create(group: NewTeacherGroup): Promise<TeacherGroup> {
+    return await this.db
+      .insertInto('teacher_groups')
+      .values(group)
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  /**
+   * Find teacher group by ID
+   * @param id - Teacher group ID
+   * @returns Teacher group if found, null otherwise
+   */
+  async findById(id: string): Promise<TeacherGroup | null> {
+    const group = await this.db
+      .selectFrom('teacher_groups')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst()
+
+    return group ?? null
+  }
+
+  /**
+   * Find all teacher groups with optional pagination
+   * @param options - Pagination options (page, limit)
+   * @returns Array of teacher groups ordered by name
+   */
+  async findAll(options?: {
+    page?: number
+    limit?: number
+  }): Promise<TeacherGroup[]> {
+    const page = options?.page ?? 1
+    const limit = options?.limit ?? 10
+    const offset = (page - 1) * limit
+
+    return await this.db
+      .selectFrom('teacher_groups')
+      .selectAll()
+      .orderBy('name', 'asc')
+      .limit(limit)
+      .offset(offset)
+      .execute()
+  }
+
+  /**
+   * Update teacher group by ID
+   * @param id - Teacher group ID
+   * @param updates - Partial teacher group data to update
+   * @returns Updated teacher group
+   * @throws Error if teacher group not found
+   */
+  async update(id: string, updates: TeacherGroupUpdate): Promise<TeacherGroup> {
+    return await this.db
+      .updateTable('teacher_groups')
+      .set(updates)
+      .where('id', '=', id)
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  /**
+   * Delete teacher group by ID
+   * Members are removed by the ON DELETE CASCADE constraint
+   * @param id - Teacher group ID
+   * @throws Error if teacher group not found
+   */
+  async delete(id: string): Promise<void> {
+    const result = await this.db
+      .deleteFrom('teacher_groups')
+      .where('id', '=', id)
+      .executeTakeFirst()
+
+    if (result.numDeletedRows === 0n) {
+      throw new Error(`Teacher group with id ${id} not found`)
+    }
+  }
+
+  /**
+   * Count total number of teacher groups
+   * @returns Total teacher group count
+   */
+  async count(): Promise<number> {
+    const result = await this.db
+      .selectFrom('teacher_groups')
+      .select((eb) => eb.fn.countAll<string>().as('count'))
+      .executeTakeFirstOrThrow()
+
+    return parseInt(result.count, 10)
+  }
+
+  // ========== Membership Methods ==========
+
+  /**
+   * Add a teacher to a group
+   * @param groupId - Teacher group ID
+   * @param teacherId - Teacher ID
+   * @returns The membership record (group_id, teacher_id, joined_at)
+   * @throws Error if membership already exists or foreign key constraint fails
+   */
+  async addMember(
+    groupId: string,
+    teacherId: string
+  ): Promise<{ group_id: string; teacher_id: string; joined_at: Date }> {
+    return await this.db
+      .insertInto('teacher_group_members')
+      .values({ group_id: groupId, teacher_id: teacherId })
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  /**
+   * Remove a teacher from a group
+   * @param groupId - Teacher group ID
+   * @param teacherId - Teacher ID
+   * @throws Error if membership not found
+   */
+  async removeMember(groupId: string, teacherId: string): Promise<void> {
+    const result = await this.db
+      .deleteFrom('teacher_group_members')
+      .where('group_id', '=', groupId)
+      .where('teacher_id', '=', teacherId)
+      .executeTakeFirst()
+
+    if (result.numDeletedRows === 0n) {
+      throw new Error(
+        `Teacher ${teacherId} is not a member of group ${groupId}`
+      )
+    }
+  }
+
+  /**
+   * Get all members of a group with their user details
+   * @param groupId - Teacher group ID
+   * @returns Array of members ordered by join date
+   */
+  async getMembers(groupId: string): Promise<TeacherGroupMember[]> {
+    return await this.db
+      .selectFrom('teacher_group_members')
+      .innerJoin('users', 'teacher_group_members.teacher_id', 'users.id')
+      .select([
+        'users.id',
+        'users.name',
+        'users.email',
+        'teacher_group_members.joined_at',
+      ])
+      .where('teacher_group_members.group_id', '=', groupId)
+      .orderBy('teacher_group_members.joined_at', 'asc')
+      .execute()
+  }
+
+  /**
+   * Count members of a group
+   * @param groupId - Teacher group ID
+   * @returns Number of members
+   */
+  async countMembers(groupId: string): Promise<number> {
+    const result = await this.db
+      .selectFrom('teacher_group_members')
+      .select((eb) => eb.fn.countAll<string>().as('count'))
+      .where('group_id', '=', groupId)
+      .executeTakeFirstOrThrow()
+
+    return parseInt(result.count, 10)
+  }
+
+  /**
+   * Check if a teacher is a member of a group
+   * @param groupId - Teacher group ID
+   * @param teacherId - Teacher ID
+   * @returns true if member, false otherwise
+   */
+  async isMember(groupId: string, teacherId: string): Promise<boolean> {
+    const result = await this.db
+      .selectFrom('teacher_group_members')
+      .select('teacher_id')
+      .where('group_id', '=', groupId)
+      .where('teacher_id', '=', teacherId)
+      .executeTakeFirst()
+
+    return result !== undefined
+  }
+
+  /**
+   * Find all groups a teacher belongs to
+   * @param teacherId - Teacher ID
+   * @returns Array of teacher groups ordered by name
+   */
+  async findGroupsForTeacher(teacherId: string): Promise<TeacherGroup[]> {
+    return await this.db
+      .selectFrom('teacher_groups')
+      .innerJoin(
+        'teacher_group_members',
+        'teacher_groups.id',
+        'teacher_group_members.group_id'
+      )
+      .selectAll('teacher_groups')
+      .where('teacher_group_members.teacher_id', '=', teacherId)
+      .orderBy('teacher_groups.name', 'asc')
+      .execute()
+  }
+}
@@ -0,0 +1,49 @@
+import type Redis from 'ioredis'
+
+/**
+ * TokenVersionRepository - Per-user access token versions in Redis
+ *
+ * Design decisions:
+ * - Access tokens are stateless JWTs; each one carries the token version of
+ *   its user at issue time, and is rejected once the version moved on
+ * - Key format: `token_version:{userId}` -> integer; a missing key is version 0
+ * - Revoking increments the version (INCR), which is atomic and revokes
+ *   every token issued before it regardless of clock precision
+ * - Keys do not expire: if the version went back to 0, tokens issued since
+ *   the last revocation would no longer match
+ * - Checking a token costs a single GET per request
+ */
+export class TokenVersionRepository {
+  constructor(
+    private redis: Redis,
+    private readonly keyPrefix: string = 'token_version:'
+  ) {}
+
+  /**
+   * Get the current token version of a user
+   * @param userId - User ID
+   * @returns Token version (0 if never revoked)
+   */
+  async get(userId: string): Promise<number> {
+    const version = await this.redis.get(this.getKey(userId))
+    return version ? Number(version) : 0
+  }
+
+  /**
+   * Revoke every access token issued to a user so far
+   * @param userId - User ID
+   * @returns New token version
+   */
+  async increment(userId: string): Promise<number> {
+    return this.redis.incr(this.getKey(userId))
+  }
+
+  /**
+   * Get Redis key of a user's token version
+   * @param userId - User ID
+   * @returns Redis key
+   */
+  private getKey(userId: string): string {
+    return `${this.keyPrefix}${userId}`
+  }
+}
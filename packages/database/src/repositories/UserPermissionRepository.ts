@@ -0,0 +1,61 @@
+import type { Kysely, Transaction } from 'kysely'
+import type { Database, NewUserPermission, UserPermission } from '../schema'
+
+/**
+ * UserPermissionRepository - Encapsulates all database operations for granted permissions
+ *
+ * Following Repository Pattern:
+ * - Accept Kysely instance or Transaction for flexibility
+ * - No business logic - only data access operations
+ * - Permission names are stored as plain strings; services validate them
+ */
+export class UserPermissionRepository {
+  constructor(private db: Kysely<Database> | Transaction<Database>) {}
+
+  /**
+   * Find the permissions granted to a user
+   * @param userId - User ID
+   * @returns Grants, oldest first
+   */
+  async findByUser(userId: string): Promise<UserPermission[]> {
+    return await this.db
+      .selectFrom('user_permissions')
+      .selectAll()
+      .where('user_id', '=', userId)
+      .orderBy('created_at', 'asc')
+      .orderBy('permission', 'asc')
+      .execute()
+  }
+
+  /**
+   * Grant a permission to a user
+   * @param grant - User, permission and granting admin
+   * @returns Created grant, or null if the user already had it
+   */
+  async grant(grant: NewUserPermission): Promise<UserPermission | null> {
+    const row = await this.db
+      .insertInto('user_permissions')
+      .values(grant)
+      .onConflict((oc) => oc.columns(['user_id', 'permission']).doNothing())
+      .returningAll()
+      .executeTakeFirst()
+
+    return row ?? null
+  }
+
+  /**
+   * Revoke a permission from a user
+   * @param userId - User ID
+   * @param permission - Permission name
+   * @returns True if the grant was removed, false if it didn't exist
+   */
+  async revoke(userId: string, permission: string): Promise<boolean> {
+    const result = await this.db
+      .deleteFrom('user_permissions')
+      .where('user_id', '=', userId)
+      .where('permission', '=', permission)
+      .executeTakeFirst()
+
+    return Number(result.numDeletedRows) > 0
+  }
+}
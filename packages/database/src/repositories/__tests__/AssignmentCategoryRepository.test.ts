@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { AssignmentCategoryRepository } from '../AssignmentCategoryRepository'
+import {
+  db,
+  clearAllTables,
+  createTestUser,
+  createTestClass,
+  createTestAssignment,
+} from '../../index'
+
+describe('AssignmentCategoryRepository', () => {
+  let repository: AssignmentCategoryRepository
+  let classId: string
+  let otherClassId: string
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    repository = new AssignmentCategoryRepository(db)
+    const teacher = await createTestUser(db, { role: 'teacher' })
+    const testClass = await createTestClass(db, { teacherId: teacher.id })
+    const otherClass = await createTestClass(db, { teacherId: teacher.id })
+    classId = testClass.id
+    otherClassId = otherClass.id
+  })
+
+  afterEach(async () => {
+    await clearAllTables(db)
+  })
+
+  describe('create', () => {
+    it('should create a category', async () => {
+      const category = await repository.create({ class_id: classId, name: 'Homework', weight: 30 })
+
+      expect(category.id).toBeDefined()
+      expect(category.name).toBe('Homework')
+      expect(category.weight).toBe(30)
+    })
+
+    it('should reject duplicate names in a class', async () => {
+      await repository.create({ class_id: classId, name: 'Homework', weight: 30 })
+
+      await expect(
+        repository.create({ class_id: classId, name: 'Homework', weight: 20 })
+      ).rejects.toThrow()
+    })
+  })
+
+  describe('findByClass', () => {
+    it('should return categories of the class ordered by name', async () => {
+      await repository.create({ class_id: classId, name: 'Homework', weight: 30 })
+      await repository.create({ class_id: classId, name: 'Exams', weight: 70 })
+      await repository.create({ class_id: otherClassId, name: 'Quizzes', weight: 100 })
+
+      const categories = await repository.findByClass(classId)
+
+      expect(categories.map((c) => c.name)).toEqual(['Exams', 'Homework'])
+    })
+  })
+
+  describe('update', () => {
+    it('should update weight', async () => {
+      const category = await repository.create({ class_id: classId, name: 'Homework', weight: 30 })
+
+      const updated = await repository.update(category.id, { weight: 40 })
+
+      expect(updated.weight).toBe(40)
+    })
+
+    it('should throw error for non-existent category', async () => {
+      await expect(
+        repository.update('00000000-0000-0000-0000-000000000000', { weight: 10 })
+      ).rejects.toThrow('not found')
+    })
+  })
+
+  describe('delete', () => {
+    it('should leave assignments uncategorized', async () => {
+      const category = await repository.create({ class_id: classId, name: 'Homework', weight: 30 })
+      const assignment = await createTestAssignment(db, { classId, categoryId: category.id })
+
+      await repository.delete(category.id)
+
+      const row = await db
+        .selectFrom('assignments')
+        .select('category_id')
+        .where('id', '=', assignment.id)
+        .executeTakeFirstOrThrow()
+      expect(row.category_id).toBeNull()
+      expect(await repository.findById(category.id)).toBeNull()
+    })
+
+    it('should throw error for non-existent category', async () => {
+      await expect(repository.delete('00000000-0000-0000-0000-000000000000')).rejects.toThrow(
+        'not found'
+      )
+    })
+  })
+
+  describe('sumWeightsByClass', () => {
+    it('should sum weights, optionally excluding one category', async () => {
+      const homework = await repository.create({ class_id: classId, name: 'Homework', weight: 30 })
+      await repository.create({ class_id: classId, name: 'Exams', weight: 60 })
+
+      expect(await repository.sumWeightsByClass(classId)).toBe(90)
+      expect(await repository.sumWeightsByClass(classId, homework.id)).toBe(60)
+      expect(await repository.sumWeightsByClass(otherClassId)).toBe(0)
+    })
+  })
+})
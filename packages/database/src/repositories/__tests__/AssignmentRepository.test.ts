@@ -54,6 +54,9 @@ describe('AssignmentRepository', () => {
       expect(assignment.title).toBe('Homework 1')
       expect(assignment.description).toBe('Complete exercises 1-10')
       expect(assignment.due_date).toBeInstanceOf(Date)
+      expect(assignment.late_policy).toBe('reject')
+      expect(assignment.late_cutoff).toBeNull()
+      expect(assignment.late_penalty_per_day).toBe(0)
       expect(assignment.created_at).toBeInstanceOf(Date)
       expect(assignment.updated_at).toBeInstanceOf(Date)
     })
@@ -519,9 +522,45 @@ describe('AssignmentRepository', () => {
       expect(submission.student_id).toBe(student.id)
       expect(submission.content).toBe('My answer to the assignment')
       expect(submission.file_url).toBeNull()
+      expect(submission.is_late).toBe(false)
+      expect(submission.late_penalty).toBe(0)
       expect(submission.submitted_at).toBeInstanceOf(Date)
     })
 
+    it('should create late submission with penalty', async () => {
+      const assignment = await repository.create({
+        class_id: classRecord.id,
+        title: 'Test Assignment',
+        description: 'Test',
+        due_date: new Date('2025-12-31'),
+        late_policy: 'penalty',
+        late_penalty_per_day: 10,
+      })
+
+      const submission = await repository.submitAssignment(
+        assignment.id,
+        student.id,
+        'Late work',
+        undefined,
+        { is_late: true, late_penalty: 20 }
+      )
+
+      expect(submission.is_late).toBe(true)
+      expect(submission.late_penalty).toBe(20)
+    })
+
+    it('should reject penalty above 100 percent', async () => {
+      await expect(
+        repository.create({
+          class_id: classRecord.id,
+          title: 'Test Assignment',
+          description: 'Test',
+          due_date: new Date('2025-12-31'),
+          late_penalty_per_day: 150,
+        })
+      ).rejects.toThrow()
+    })
+
     it('should create submission with file URL', async () => {
       const assignment = await repository.create({
         class_id: classRecord.id,
@@ -581,6 +620,28 @@ describe('AssignmentRepository', () => {
     })
   })
 
+  describe('getSubmissionById', () => {
+    it('should get submission by ID', async () => {
+      const assignment = await repository.create({
+        class_id: classRecord.id,
+        title: 'Test Assignment',
+        description: 'Test',
+        due_date: new Date('2025-12-31'),
+      })
+      const created = await repository.submitAssignment(assignment.id, student.id, 'My submission')
+
+      const submission = await repository.getSubmissionById(created.id)
+
+      expect(submission?.id).toBe(created.id)
+      expect(submission?.student_id).toBe(student.id)
+    })
+
+    it('should return null for non-existent ID', async () => {
+      const submission = await repository.getSubmissionById('00000000-0000-0000-0000-000000000000')
+      expect(submission).toBeNull()
+    })
+  })
+
   describe('getSubmissionsByAssignment', () => {
     it('should get all submissions for an assignment', async () => {
       const assignment = await repository.create({
@@ -784,6 +845,34 @@ describe('AssignmentRepository', () => {
     })
   })
 
+  describe('deleteGrade', () => {
+    it('should delete grade', async () => {
+      const assignment = await repository.create({
+        class_id: classRecord.id,
+        title: 'Test Assignment',
+        description: 'Test',
+        due_date: new Date('2025-12-31'),
+      })
+
+      const submission = await repository.submitAssignment(
+        assignment.id,
+        student.id,
+        'My submission'
+      )
+      const grade = await repository.gradeSubmission(submission.id, teacher.id, 85)
+
+      await repository.deleteGrade(grade.id)
+
+      expect(await repository.getGrade(submission.id)).toBeNull()
+    })
+
+    it('should throw error for non-existent grade', async () => {
+      await expect(
+        repository.deleteGrade('00000000-0000-0000-0000-000000000000')
+      ).rejects.toThrow('not found')
+    })
+  })
+
   describe('bulkGradeSubmissions', () => {
     it('should grade multiple submissions at once', async () => {
       const assignment = await repository.create({
@@ -812,7 +901,7 @@ describe('AssignmentRepository', () => {
         'Submission 3'
       )
 
-      const count = await repository.bulkGradeSubmissions([
+      const saved = await repository.bulkGradeSubmissions([
         { submissionId: submission1.id, teacherId: teacher.id, grade: 90 },
         {
           submissionId: submission2.id,
@@ -823,7 +912,7 @@ describe('AssignmentRepository', () => {
         { submissionId: submission3.id, teacherId: teacher.id, grade: 95 },
       ])
 
-      expect(count).toBe(3)
+      expect(saved).toHaveLength(3)
 
       // Verify all grades were created
       const grade1 = await repository.getGrade(submission1.id)
@@ -836,32 +925,31 @@ describe('AssignmentRepository', () => {
       expect(grade3?.grade).toBe('95.00')
     })
 
-    it('should return 0 for empty array', async () => {
-      const count = await repository.bulkGradeSubmissions([])
-      expect(count).toBe(0)
-    })
-
-    it('should handle undefined numInsertedOrUpdatedRows', async () => {
-      const mockDb = {
-        insertInto: () => ({
-          values: () => ({
-            executeTakeFirst: async () => ({
-              numInsertedOrUpdatedRows: undefined,
-            }),
-          }),
-        }),
-      }
+    it('should replace existing grades and keep feedback unless given', async () => {
+      const assignment = await repository.create({
+        class_id: classRecord.id,
+        title: 'Test Assignment',
+        description: 'Test',
+        due_date: new Date('2025-12-31'),
+      })
+      const submission = await repository.submitAssignment(assignment.id, student.id, 'Work')
+      await repository.gradeSubmission(submission.id, teacher.id, 70, 'Keep going')
 
-      const mockRepository = new AssignmentRepository(mockDb as never)
-      const count = await mockRepository.bulkGradeSubmissions([
-        {
-          submissionId: 'test-id',
-          teacherId: 'test-teacher',
-          grade: 90,
-        },
+      const saved = await repository.bulkGradeSubmissions([
+        { submissionId: submission.id, teacherId: teacher.id, grade: 82.5 },
       ])
 
-      expect(count).toBe(0)
+      expect(saved).toHaveLength(1)
+      expect(saved[0]?.grade).toBe('82.50')
+      expect(saved[0]?.feedback).toBe('Keep going')
+      const grade = await repository.getGrade(submission.id)
+      expect(grade?.grade).toBe('82.50')
+      expect(grade?.feedback).toBe('Keep going')
+    })
+
+    it('should return no grades for empty array', async () => {
+      const saved = await repository.bulkGradeSubmissions([])
+      expect(saved).toEqual([])
     })
   })
 
@@ -908,6 +996,147 @@ describe('AssignmentRepository', () => {
     })
   })
 
+  describe('getGradesByAssignment', () => {
+    it('should return only grades of the assignment', async () => {
+      const assignment = await repository.create({
+        class_id: classRecord.id,
+        title: 'Essay',
+        description: 'Test',
+        due_date: new Date('2025-12-31'),
+      })
+      const other = await repository.create({
+        class_id: classRecord.id,
+        title: 'Quiz',
+        description: 'Test',
+        due_date: new Date('2025-12-31'),
+      })
+      const submission = await repository.submitAssignment(assignment.id, student.id, 'Answer')
+      const otherSubmission = await repository.submitAssignment(other.id, student.id, 'Answer')
+      const grade = await repository.gradeSubmission(submission.id, teacher.id, 75, 'Solid')
+      await repository.gradeSubmission(otherSubmission.id, teacher.id, 90)
+
+      const grades = await repository.getGradesByAssignment(assignment.id)
+
+      expect(grades).toEqual([grade])
+    })
+  })
+
+  describe('getGradesByClass', () => {
+    it('should return graded submissions with max points, category and late penalty', async () => {
+      const category = await db
+        .insertInto('assignment_categories')
+        .values({ class_id: classRecord.id, name: 'Exams', weight: 70 })
+        .returningAll()
+        .executeTakeFirstOrThrow()
+      const graded = await repository.create({
+        class_id: classRecord.id,
+        title: 'Exam 1',
+        description: 'Test',
+        due_date: new Date('2025-12-31'),
+        max_points: 50,
+        category_id: category.id,
+      })
+      const ungraded = await repository.create({
+        class_id: classRecord.id,
+        title: 'Homework 1',
+        description: 'Test',
+        due_date: new Date('2025-12-31'),
+      })
+      const submission = await repository.submitAssignment(graded.id, student.id, 'Answer')
+      await repository.submitAssignment(ungraded.id, student.id, 'Answer')
+      await repository.gradeSubmission(submission.id, teacher.id, 40)
+
+      const rows = await repository.getGradesByClass(classRecord.id)
+
+      expect(rows).toEqual([
+        {
+          student_id: student.id,
+          assignment_id: graded.id,
+          category_id: category.id,
+          max_points: 50,
+          late_penalty: 0,
+          grade: '40.00',
+        },
+      ])
+    })
+
+    it('should skip unreleased assignments when asked for released grades only', async () => {
+      const released = await repository.create({
+        class_id: classRecord.id,
+        title: 'Released',
+        description: 'Test',
+        due_date: new Date('2025-12-31'),
+        grades_released_at: new Date(),
+      })
+      const unreleased = await repository.create({
+        class_id: classRecord.id,
+        title: 'Unreleased',
+        description: 'Test',
+        due_date: new Date('2025-12-31'),
+      })
+      for (const assignment of [released, unreleased]) {
+        const submission = await repository.submitAssignment(assignment.id, student.id, 'Answer')
+        await repository.gradeSubmission(submission.id, teacher.id, 80)
+      }
+
+      const all = await repository.getGradesByClass(classRecord.id)
+      const releasedOnly = await repository.getGradesByClass(classRecord.id, true)
+
+      expect(all).toHaveLength(2)
+      expect(releasedOnly.map((row) => row.assignment_id)).toEqual([released.id])
+    })
+  })
+
+  describe('gradebook queries', () => {
+    it('should list all class assignments earliest due first', async () => {
+      const later = await repository.create({
+        class_id: classRecord.id,
+        title: 'Later',
+        description: 'Test',
+        due_date: new Date('2025-12-31'),
+      })
+      const earlier = await repository.create({
+        class_id: classRecord.id,
+        title: 'Earlier',
+        description: 'Test',
+        due_date: new Date('2025-10-01'),
+      })
+
+      const assignments = await repository.findAllByClass(classRecord.id)
+
+      expect(assignments.map((a) => a.id)).toEqual([earlier.id, later.id])
+    })
+
+    it('should return every submission with its grade or null', async () => {
+      const assignment = await repository.create({
+        class_id: classRecord.id,
+        title: 'Essay',
+        description: 'Test',
+        due_date: new Date('2025-12-31'),
+      })
+      const student2 = await createTestUser(db, { role: 'student' })
+      const graded = await repository.submitAssignment(assignment.id, student.id, 'Answer')
+      const ungraded = await repository.submitAssignment(assignment.id, student2.id, 'Answer')
+      const grade = await repository.gradeSubmission(graded.id, teacher.id, 88)
+
+      const rows = await repository.getGradebookSubmissions(classRecord.id)
+
+      expect(rows).toHaveLength(2)
+      expect(rows.find((r) => r.submission_id === graded.id)).toMatchObject({
+        student_id: student.id,
+        assignment_id: assignment.id,
+        is_late: false,
+        grade_id: grade.id,
+        grade: '88.00',
+      })
+      expect(rows.find((r) => r.submission_id === ungraded.id)).toMatchObject({
+        student_id: student2.id,
+        grade_id: null,
+        grade: null,
+      })
+    })
+  })
+
   // ==================== Transaction Support ====================
 
   describe('transaction support', () => {
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { sql } from 'kysely'
+import { AuditEventRepository } from '../AuditEventRepository'
+import { db, clearAllTables, createTestUser } from '../../index'
+
+describe('AuditEventRepository', () => {
+  let repository: AuditEventRepository
+  let adminId: string
+  let targetId: string
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    repository = new AuditEventRepository(db)
+    adminId = (await createTestUser(db, { role: 'admin', name: 'Ada Admin' })).id
+    targetId = (await createTestUser(db, { role: 'student' })).id
+  })
+
+  afterEach(async () => {
+    await clearAllTables(db)
+  })
+
+  describe('create', () => {
+    it('should store before and after snapshots as JSON', async () => {
+      const event = await repository.create({
+        actor_id: adminId,
+        action: 'user_suspended',
+        target_type: 'user',
+        target_id: targetId,
+        before: { suspended: false },
+        after: { suspended: true },
+      })
+
+      expect(event).toMatchObject({
+        actor_id: adminId,
+        action: 'user_suspended',
+        before: { suspended: false },
+        after: { suspended: true },
+      })
+    })
+
+    it('should reject changes to written events', async () => {
+      const event = await repository.create({
+        actor_id: adminId,
+        action: 'user_deleted',
+        target_type: 'user',
+        target_id: targetId,
+      })
+
+      await expect(
+        sql`UPDATE audit_events SET action = 'user_updated' WHERE id = ${event.id}`.execute(db)
+      ).rejects.toThrow('append-only')
+      await expect(
+        db.deleteFrom('audit_events').where('id', '=', event.id).execute()
+      ).rejects.toThrow('append-only')
+    })
+  })
+
+  describe('find', () => {
+    it('should return events newest first with the actor', async () => {
+      await repository.create({
+        actor_id: adminId,
+        action: 'user_suspended',
+        target_type: 'user',
+        target_id: targetId,
+      })
+      await repository.create({
+        actor_id: null,
+        action: 'user_unsuspended',
+        target_type: 'user',
+        target_id: targetId,
+      })
+
+      const events = await repository.find()
+
+      expect(events.map((e) => e.action)).toEqual(['user_unsuspended', 'user_suspended'])
+      expect(events[0]!.actor).toBeNull()
+      expect(events[1]!.actor).toMatchObject({ id: adminId, name: 'Ada Admin' })
+    })
+
+    it('should filter and paginate', async () => {
+      for (const action of ['user_updated', 'user_suspended', 'user_updated'] as const) {
+        await repository.create({ actor_id: adminId, action, target_type: 'user', target_id: targetId })
+      }
+      await repository.create({
+        actor_id: adminId,
+        action: 'class_deleted',
+        target_type: 'class',
+        target_id: adminId,
+      })
+
+      expect(await repository.count({ action: 'user_updated' })).toBe(2)
+      expect(await repository.count({ targetType: 'user', targetId })).toBe(3)
+      expect(await repository.count({ actorId: targetId })).toBe(0)
+      expect(await repository.count({ from: new Date(Date.now() + 60_000) })).toBe(0)
+      expect(await repository.count()).toBe(4)
+
+      const page = await repository.find({ targetType: 'user' }, { page: 2, limit: 2 })
+      expect(page).toHaveLength(1)
+      expect(page[0]!.action).toBe('user_updated')
+    })
+  })
+})
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { ClassJoinCodeRepository } from '../ClassJoinCodeRepository'
+import { db, clearAllTables, createTestUser, createTestClass } from '../../index'
+
+describe('ClassJoinCodeRepository', () => {
+  let repository: ClassJoinCodeRepository
+  let classId: string
+  let otherClassId: string
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    repository = new ClassJoinCodeRepository(db)
+    const teacher = await createTestUser(db, { role: 'teacher' })
+    const testClass = await createTestClass(db, { teacherId: teacher.id })
+    const otherClass = await createTestClass(db, { teacherId: teacher.id })
+    classId = testClass.id
+    otherClassId = otherClass.id
+  })
+
+  afterEach(async () => {
+    await clearAllTables(db)
+  })
+
+  describe('save', () => {
+    it('should create a join code', async () => {
+      const expiresAt = new Date('2030-01-01T00:00:00.000Z')
+      const joinCode = await repository.save({
+        class_id: classId,
+        code: 'ABCD2345',
+        expires_at: expiresAt,
+        max_uses: 30,
+      })
+
+      expect(joinCode).toMatchObject({
+        class_id: classId,
+        code: 'ABCD2345',
+        expires_at: expiresAt,
+        max_uses: 30,
+        use_count: 0,
+      })
+      expect(await repository.findByCode('ABCD2345')).toEqual(joinCode)
+    })
+
+    it('should replace the previous code and reset its uses', async () => {
+      await repository.save({ class_id: classId, code: 'OLDCODE2', max_uses: 5 })
+      await repository.incrementUses(classId)
+
+      const joinCode = await repository.save({ class_id: classId, code: 'NEWCODE2' })
+
+      expect(joinCode).toMatchObject({ code: 'NEWCODE2', max_uses: null, use_count: 0 })
+      expect(await repository.findByCode('OLDCODE2')).toBeNull()
+      expect((await repository.findByClass(classId))?.code).toBe('NEWCODE2')
+    })
+
+    it('should reject a code used by another class', async () => {
+      await repository.save({ class_id: classId, code: 'SAMECODE' })
+
+      await expect(repository.save({ class_id: otherClassId, code: 'SAMECODE' })).rejects.toThrow()
+    })
+  })
+
+  describe('incrementUses', () => {
+    it('should count uses up to max uses', async () => {
+      await repository.save({ class_id: classId, code: 'ABCD2345', max_uses: 2 })
+
+      expect((await repository.incrementUses(classId))?.use_count).toBe(1)
+      expect((await repository.incrementUses(classId))?.use_count).toBe(2)
+      expect(await repository.incrementUses(classId)).toBeNull()
+    })
+
+    it('should count unlimited uses', async () => {
+      await repository.save({ class_id: classId, code: 'ABCD2345' })
+
+      await repository.incrementUses(classId)
+      expect((await repository.incrementUses(classId))?.use_count).toBe(2)
+    })
+
+    it('should return null when the class has no code', async () => {
+      expect(await repository.incrementUses(classId)).toBeNull()
+    })
+  })
+
+  describe('redeem', () => {
+    let studentId: string
+
+    beforeEach(async () => {
+      studentId = (await createTestUser(db, { role: 'student' })).id
+    })
+
+    it('should count the use and enroll the student', async () => {
+      await repository.save({ class_id: classId, code: 'ABCD2345' })
+
+      expect(await repository.redeem(classId, studentId)).toBe(true)
+
+      expect((await repository.findByClass(classId))?.use_count).toBe(1)
+      const enrollment = await db
+        .selectFrom('class_students')
+        .selectAll()
+        .where('class_id', '=', classId)
+        .where('student_id', '=', studentId)
+        .executeTakeFirst()
+      expect(enrollment).toBeDefined()
+    })
+
+    it('should not enroll once max uses is reached', async () => {
+      await repository.save({ class_id: classId, code: 'ABCD2345', max_uses: 0 })
+
+      expect(await repository.redeem(classId, studentId)).toBe(false)
+    })
+
+    it('should not consume a use when the enrollment fails', async () => {
+      await repository.save({ class_id: classId, code: 'ABCD2345', max_uses: 5 })
+      await repository.redeem(classId, studentId)
+
+      await expect(repository.redeem(classId, studentId)).rejects.toThrow()
+
+      expect((await repository.findByClass(classId))?.use_count).toBe(1)
+    })
+  })
+
+  describe('deleteByClass', () => {
+    it('should delete the code of the class', async () => {
+      await repository.save({ class_id: classId, code: 'ABCD2345' })
+
+      expect(await repository.deleteByClass(classId)).toBe(true)
+      expect(await repository.findByClass(classId)).toBeNull()
+      expect(await repository.deleteByClass(classId)).toBe(false)
+    })
+  })
+})
@@ -223,6 +223,22 @@ describe('ClassRepository', () => {
       expect(classes.every((c) => c.teacher_id === teacher1.id)).toBe(true)
     })
 
+    it('should include classes the teacher is on the staff of', async () => {
+      const owner = await createTestUser(db, { role: 'teacher' })
+      const assistant = await createTestUser(db, { role: 'teacher' })
+      const staffed = await createTestClass(db, { teacherId: owner.id })
+      await createTestClass(db, { teacherId: owner.id })
+      await db
+        .insertInto('class_staff')
+        .values({ class_id: staffed.id, user_id: assistant.id, role: 'ta' })
+        .execute()
+
+      const classes = await repository.findByTeacher(assistant.id)
+
+      expect(classes.map((c) => c.id)).toEqual([staffed.id])
+      expect(await repository.countByTeacher(assistant.id)).toBe(1)
+    })
+
     it('should return empty array for teacher with no classes', async () => {
       const teacher = await createTestUser(db, { role: 'teacher' })
 
@@ -252,6 +268,28 @@ describe('ClassRepository', () => {
     })
   })
 
+  describe('findByName', () => {
+    it('should match names ignoring case and whitespace', async () => {
+      const teacher = await createTestUser(db, { role: 'teacher' })
+      const classRecord = await createTestClass(db, { teacherId: teacher.id, name: 'Biology 101' })
+      await createTestClass(db, { teacherId: teacher.id, name: 'Biology 102' })
+
+      const classes = await repository.findByName('  biology 101 ')
+
+      expect(classes.map((c) => c.id)).toEqual([classRecord.id])
+    })
+
+    it('should limit matches to a teacher', async () => {
+      const teacher1 = await createTestUser(db, { role: 'teacher' })
+      const teacher2 = await createTestUser(db, { role: 'teacher' })
+      await createTestClass(db, { teacherId: teacher1.id, name: 'Art' })
+      const own = await createTestClass(db, { teacherId: teacher2.id, name: 'Art' })
+
+      expect(await repository.findByName('Art')).toHaveLength(2)
+      expect((await repository.findByName('Art', teacher2.id)).map((c) => c.id)).toEqual([own.id])
+    })
+  })
+
   describe('count', () => {
     it('should return 0 when no classes exist', async () => {
       const count = await repository.count()
@@ -488,6 +526,25 @@ describe('ClassRepository', () => {
     })
   })
 
+  describe('getEnrolledStudentDetails', () => {
+    it('should get name and email of enrolled students ordered by name', async () => {
+      const teacher = await createTestUser(db, { role: 'teacher' })
+      const zoe = await createTestUser(db, { role: 'student', name: 'Zoe' })
+      const adam = await createTestUser(db, { role: 'student', name: 'Adam' })
+      const classRecord = await createTestClass(db, { teacherId: teacher.id })
+
+      await repository.addStudent(classRecord.id, zoe.id)
+      await repository.addStudent(classRecord.id, adam.id)
+
+      const students = await repository.getEnrolledStudentDetails(classRecord.id)
+
+      expect(students).toEqual([
+        { id: adam.id, name: 'Adam', email: adam.email },
+        { id: zoe.id, name: 'Zoe', email: zoe.email },
+      ])
+    })
+  })
+
   describe('countStudentsInClass', () => {
     it('should count students in a class', async () => {
       const teacher = await createTestUser(db, { role: 'teacher' })
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { ClassStaffRepository } from '../ClassStaffRepository'
+import { db, clearAllTables, createTestUser, createTestClass } from '../../index'
+
+describe('ClassStaffRepository', () => {
+  let repository: ClassStaffRepository
+  let ownerId: string
+  let coTeacherId: string
+  let taId: string
+  let classId: string
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    repository = new ClassStaffRepository(db)
+    const owner = await createTestUser(db, { role: 'teacher', name: 'Owner' })
+    const coTeacher = await createTestUser(db, { role: 'teacher', name: 'Co Teacher' })
+    const ta = await createTestUser(db, { role: 'teacher', name: 'Assistant' })
+    const testClass = await createTestClass(db, { teacherId: owner.id })
+    ownerId = owner.id
+    coTeacherId = coTeacher.id
+    taId = ta.id
+    classId = testClass.id
+    await repository.add({ class_id: classId, user_id: ownerId, role: 'owner' })
+  })
+
+  afterEach(async () => {
+    await clearAllTables(db)
+  })
+
+  describe('add', () => {
+    it('should add a staff member', async () => {
+      const member = await repository.add({ class_id: classId, user_id: taId, role: 'ta' })
+
+      expect(member).toMatchObject({ class_id: classId, user_id: taId, role: 'ta' })
+      expect(member?.created_at).toBeInstanceOf(Date)
+    })
+
+    it('should return null when the user is already on the staff', async () => {
+      await repository.add({ class_id: classId, user_id: taId, role: 'ta' })
+
+      expect(await repository.add({ class_id: classId, user_id: taId, role: 'co_teacher' })).toBeNull()
+      expect(await repository.findRole(classId, taId)).toBe('ta')
+    })
+
+    it('should reject a second owner', async () => {
+      await expect(
+        repository.add({ class_id: classId, user_id: coTeacherId, role: 'owner' })
+      ).rejects.toThrow()
+    })
+  })
+
+  describe('findByClass', () => {
+    it('should list the owner first, then by name', async () => {
+      await repository.add({ class_id: classId, user_id: taId, role: 'ta' })
+      await repository.add({ class_id: classId, user_id: coTeacherId, role: 'co_teacher' })
+
+      const staff = await repository.findByClass(classId)
+
+      expect(staff.map((m) => [m.name, m.role])).toEqual([
+        ['Owner', 'owner'],
+        ['Assistant', 'ta'],
+        ['Co Teacher', 'co_teacher'],
+      ])
+    })
+  })
+
+  describe('findRole', () => {
+    it('should return null for users not on the staff', async () => {
+      expect(await repository.findRole(classId, coTeacherId)).toBeNull()
+      expect(await repository.findRole(classId, ownerId)).toBe('owner')
+    })
+  })
+
+  describe('findUserIds', () => {
+    it('should return everyone on the staff', async () => {
+      await repository.add({ class_id: classId, user_id: taId, role: 'ta' })
+
+      expect((await repository.findUserIds(classId)).sort()).toEqual([ownerId, taId].sort())
+    })
+  })
+
+  describe('updateRole', () => {
+    it('should change the role of a staff member', async () => {
+      await repository.add({ class_id: classId, user_id: taId, role: 'ta' })
+
+      const member = await repository.updateRole(classId, taId, 'co_teacher')
+
+      expect(member?.role).toBe('co_teacher')
+    })
+
+    it('should return null when the user is not on the staff', async () => {
+      expect(await repository.updateRole(classId, taId, 'co_teacher')).toBeNull()
+    })
+  })
+
+  describe('remove', () => {
+    it('should remove a staff member', async () => {
+      await repository.add({ class_id: classId, user_id: taId, role: 'ta' })
+
+      expect(await repository.remove(classId, taId)).toBe(true)
+      expect(await repository.findRole(classId, taId)).toBeNull()
+    })
+
+    it('should return false when the user is not on the staff', async () => {
+      expect(await repository.remove(classId, taId)).toBe(false)
+    })
+  })
+})
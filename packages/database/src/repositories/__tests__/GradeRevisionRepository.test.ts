@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { GradeRevisionRepository } from '../GradeRevisionRepository'
+import {
+  db,
+  clearAllTables,
+  createTestUser,
+  createTestClass,
+  createTestAssignment,
+  createTestSubmission,
+} from '../../index'
+
+describe('GradeRevisionRepository', () => {
+  let repository: GradeRevisionRepository
+  let teacherId: string
+  let submissionId: string
+  let otherSubmissionId: string
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    repository = new GradeRevisionRepository(db)
+    const teacher = await createTestUser(db, { role: 'teacher', name: 'Ms. Teacher' })
+    const student = await createTestUser(db, { role: 'student' })
+    const otherStudent = await createTestUser(db, { role: 'student' })
+    const testClass = await createTestClass(db, { teacherId: teacher.id })
+    const assignment = await createTestAssignment(db, { classId: testClass.id })
+    const submission = await createTestSubmission(db, {
+      assignmentId: assignment.id,
+      studentId: student.id,
+    })
+    const otherSubmission = await createTestSubmission(db, {
+      assignmentId: assignment.id,
+      studentId: otherStudent.id,
+    })
+    teacherId = teacher.id
+    submissionId = submission.id
+    otherSubmissionId = otherSubmission.id
+  })
+
+  afterEach(async () => {
+    await clearAllTables(db)
+  })
+
+  describe('create', () => {
+    it('should record previous and new values', async () => {
+      const revision = await repository.create({
+        submission_id: submissionId,
+        teacher_id: teacherId,
+        previous_grade: 70,
+        previous_feedback: 'Needs work',
+        grade: 85.5,
+        feedback: 'Better after recount',
+        reason: 'Missed a page while grading',
+      })
+
+      expect(revision).toMatchObject({
+        submission_id: submissionId,
+        teacher_id: teacherId,
+        previous_grade: '70.00',
+        previous_feedback: 'Needs work',
+        grade: '85.50',
+        feedback: 'Better after recount',
+        reason: 'Missed a page while grading',
+      })
+      expect(revision.created_at).toBeInstanceOf(Date)
+    })
+  })
+
+  describe('findBySubmission', () => {
+    it('should return revisions newest first with the teacher name', async () => {
+      await repository.create({
+        submission_id: submissionId,
+        teacher_id: teacherId,
+        previous_grade: 70,
+        grade: 80,
+        reason: 'First',
+      })
+      await repository.create({
+        submission_id: submissionId,
+        teacher_id: teacherId,
+        previous_grade: 80,
+        grade: 90,
+        reason: 'Second',
+      })
+      await repository.create({
+        submission_id: otherSubmissionId,
+        teacher_id: teacherId,
+        previous_grade: 50,
+        grade: 60,
+        reason: 'Other',
+      })
+
+      const revisions = await repository.findBySubmission(submissionId)
+
+      expect(revisions.map((r) => r.reason)).toEqual(['Second', 'First'])
+      expect(revisions[0]?.teacher_name).toBe('Ms. Teacher')
+    })
+
+    it('should keep revisions when the teacher is deleted', async () => {
+      await repository.create({
+        submission_id: submissionId,
+        teacher_id: null,
+        previous_grade: 70,
+        grade: 80,
+        reason: null,
+      })
+
+      const revisions = await repository.findBySubmission(submissionId)
+
+      expect(revisions).toHaveLength(1)
+      expect(revisions[0]?.teacher_name).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { InvitationRepository } from '../InvitationRepository'
+import { redisTest, setupRedisTest, teardownRedisTest } from '../../index'
+
+describe('InvitationRepository', () => {
+  let repository: InvitationRepository
+
+  const data = {
+    email: 'teacher@example.com',
+    name: 'New Teacher',
+    role: 'teacher' as const,
+    invitedBy: 'admin-123',
+  }
+
+  beforeEach(async () => {
+    await setupRedisTest()
+    repository = new InvitationRepository(redisTest)
+  })
+
+  afterEach(async () => {
+    await teardownRedisTest()
+  })
+
+  describe('create', () => {
+    it('should store the invitation with a TTL', async () => {
+      const invitation = await repository.create('token-1', data, 3600)
+
+      expect(invitation).toMatchObject({ token: 'token-1', ...data })
+      expect(invitation.expiresAt.getTime() - invitation.createdAt.getTime()).toBe(3600 * 1000)
+
+      const ttl = await redisTest.ttl('invitation:token-1')
+      expect(ttl).toBeGreaterThan(3590)
+      expect(ttl).toBeLessThanOrEqual(3600)
+    })
+  })
+
+  describe('get', () => {
+    it('should return the stored invitation', async () => {
+      const created = await repository.create('token-1', data)
+
+      expect(await repository.get('token-1')).toEqual(created)
+    })
+
+    it('should return null for an unknown token', async () => {
+      expect(await repository.get('missing')).toBeNull()
+    })
+  })
+
+  describe('consume', () => {
+    it('should return the invitation only once', async () => {
+      await repository.create('token-1', data)
+
+      expect((await repository.consume('token-1'))?.email).toBe('teacher@example.com')
+      expect(await repository.consume('token-1')).toBeNull()
+      expect(await repository.get('token-1')).toBeNull()
+    })
+  })
+
+  describe('delete', () => {
+    it('should delete the invitation', async () => {
+      await repository.create('token-1', data)
+
+      expect(await repository.delete('token-1')).toBe(true)
+      expect(await repository.delete('token-1')).toBe(false)
+    })
+  })
+
+  describe('getAll', () => {
+    it('should list pending invitations', async () => {
+      await repository.create('token-1', data)
+      await repository.create('token-2', { ...data, email: 'admin@example.com', role: 'admin' })
+
+      const invitations = await repository.getAll()
+
+      expect(invitations.map((i) => i.token).sort()).toEqual(['token-1', 'token-2'])
+    })
+
+    it('should drop consumed, deleted and expired invitations from the index', async () => {
+      await repository.create('token-1', data)
+      await repository.create('token-2', data)
+      await repository.create('token-3', data)
+
+      await repository.consume('token-1')
+      await repository.delete('token-2')
+      await redisTest.del('invitation:token-3') // expired
+
+      expect(await repository.getAll()).toEqual([])
+      expect(await redisTest.smembers('invitations')).toEqual([])
+    })
+
+    it('should return an empty list without invitations', async () => {
+      expect(await repository.getAll()).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { LessonRepository } from '../LessonRepository'
+import {
+  db,
+  clearAllTables,
+  createTestUser,
+  createTestClass,
+  createTestLesson,
+} from '../../index'
+
+describe('LessonRepository', () => {
+  let repository: LessonRepository
+  let classId: string
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    repository = new LessonRepository(db)
+    const teacher = await createTestUser(db, { role: 'teacher' })
+    const testClass = await createTestClass(db, { teacherId: teacher.id })
+    classId = testClass.id
+  })
+
+  afterEach(async () => {
+    await clearAllTables(db)
+  })
+
+  describe('create', () => {
+    it('should create a draft lesson by default', async () => {
+      const lesson = await repository.create({
+        class_id: classId,
+        title: 'Introduction',
+        content: 'Welcome to the course',
+      })
+
+      expect(lesson.id).toBeDefined()
+      expect(lesson.title).toBe('Introduction')
+      expect(lesson.status).toBe('draft')
+      expect(lesson.published_at).toBeNull()
+      expect(lesson.module_name).toBeNull()
+      expect(lesson.module_position).toBe(0)
+      expect(lesson.position).toBe(0)
+    })
+
+    it('should throw error for non-existent class', async () => {
+      await expect(
+        repository.create({
+          class_id: '00000000-0000-0000-0000-000000000000',
+          title: 'Orphan',
+          content: 'No class',
+        })
+      ).rejects.toThrow()
+    })
+  })
+
+  describe('findById', () => {
+    it('should find lesson by ID', async () => {
+      const created = await createTestLesson(db, { classId })
+
+      const found = await repository.findById(created.id)
+
+      expect(found?.id).toBe(created.id)
+    })
+
+    it('should return null for non-existent ID', async () => {
+      const found = await repository.findById('00000000-0000-0000-0000-000000000000')
+      expect(found).toBeNull()
+    })
+  })
+
+  describe('findByClass', () => {
+    it('should order lessons by module then position', async () => {
+      await createTestLesson(db, { classId, title: 'M2 L1', modulePosition: 1, position: 0 })
+      await createTestLesson(db, { classId, title: 'M1 L2', modulePosition: 0, position: 1 })
+      await createTestLesson(db, { classId, title: 'M1 L1', modulePosition: 0, position: 0 })
+
+      const lessons = await repository.findByClass(classId)
+
+      expect(lessons.map((l) => l.title)).toEqual(['M1 L1', 'M1 L2', 'M2 L1'])
+    })
+
+    it('should filter by status', async () => {
+      await createTestLesson(db, { classId, title: 'Draft' })
+      await createTestLesson(db, { classId, title: 'Published', status: 'published' })
+
+      const lessons = await repository.findByClass(classId, { status: 'published' })
+
+      expect(lessons).toHaveLength(1)
+      expect(lessons[0]?.title).toBe('Published')
+    })
+  })
+
+  describe('update', () => {
+    it('should update lesson fields', async () => {
+      const created = await createTestLesson(db, { classId })
+
+      const updated = await repository.update(created.id, {
+        title: 'Updated',
+        status: 'published',
+        published_at: new Date(),
+      })
+
+      expect(updated.title).toBe('Updated')
+      expect(updated.status).toBe('published')
+      expect(updated.published_at).toBeInstanceOf(Date)
+    })
+
+    it('should throw error for non-existent lesson', async () => {
+      await expect(
+        repository.update('00000000-0000-0000-0000-000000000000', { title: 'X' })
+      ).rejects.toThrow('not found')
+    })
+  })
+
+  describe('delete', () => {
+    it('should delete lesson', async () => {
+      const created = await createTestLesson(db, { classId })
+
+      await repository.delete(created.id)
+
+      expect(await repository.findById(created.id)).toBeNull()
+    })
+
+    it('should throw error for non-existent lesson', async () => {
+      await expect(
+        repository.delete('00000000-0000-0000-0000-000000000000')
+      ).rejects.toThrow('not found')
+    })
+  })
+
+  describe('countByClass', () => {
+    it('should count lessons with optional status filter', async () => {
+      await createTestLesson(db, { classId })
+      await createTestLesson(db, { classId, status: 'published' })
+
+      expect(await repository.countByClass(classId)).toBe(2)
+      expect(await repository.countByClass(classId, { status: 'published' })).toBe(1)
+    })
+  })
+
+  describe('getNextPosition', () => {
+    it('should return 0 for empty module', async () => {
+      expect(await repository.getNextPosition(classId, 0)).toBe(0)
+    })
+
+    it('should return one past the highest position in the module', async () => {
+      await createTestLesson(db, { classId, modulePosition: 0, position: 0 })
+      await createTestLesson(db, { classId, modulePosition: 0, position: 3 })
+      await createTestLesson(db, { classId, modulePosition: 1, position: 7 })
+
+      expect(await repository.getNextPosition(classId, 0)).toBe(4)
+    })
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { MfaChallengeRepository } from '../MfaChallengeRepository'
+import { redisTest, setupRedisTest, teardownRedisTest } from '../../index'
+
+describe('MfaChallengeRepository', () => {
+  let repository: MfaChallengeRepository
+
+  beforeEach(async () => {
+    await setupRedisTest()
+    repository = new MfaChallengeRepository(redisTest)
+  })
+
+  afterEach(async () => {
+    await teardownRedisTest()
+  })
+
+  it('should create a challenge with the device details', async () => {
+    await repository.create('user-1', 'token-1', 300, { userAgent: 'Browser', ip: '10.0.0.1' })
+
+    const challenge = await repository.get('token-1')
+
+    expect(challenge).toMatchObject({
+      token: 'token-1',
+      userId: 'user-1',
+      userAgent: 'Browser',
+      ip: '10.0.0.1',
+      failedAttempts: 0,
+    })
+    expect(challenge?.expiresAt.getTime()).toBeGreaterThan(Date.now())
+    expect(await redisTest.ttl('mfa_challenge:token-1')).toBeGreaterThan(0)
+  })
+
+  it('should return null for unknown challenges', async () => {
+    expect(await repository.get('missing')).toBeNull()
+  })
+
+  it('should count failed attempts', async () => {
+    await repository.create('user-1', 'token-1', 300)
+
+    expect(await repository.recordFailedAttempt('token-1')).toBe(1)
+    expect(await repository.recordFailedAttempt('token-1')).toBe(2)
+    expect((await repository.get('token-1'))?.failedAttempts).toBe(2)
+  })
+
+  it('should not leave keys behind for expired challenges', async () => {
+    await repository.recordFailedAttempt('expired')
+
+    expect(await redisTest.exists('mfa_challenge:expired')).toBe(0)
+  })
+
+  it('should delete a challenge only once', async () => {
+    await repository.create('user-1', 'token-1', 300)
+
+    expect(await repository.delete('token-1')).toBe(true)
+    expect(await repository.delete('token-1')).toBe(false)
+    expect(await repository.get('token-1')).toBeNull()
+  })
+})
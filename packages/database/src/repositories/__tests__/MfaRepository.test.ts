@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { MfaRepository } from '../MfaRepository'
+import { db, clearAllTables, createTestUser } from '../../index'
+
+describe('MfaRepository', () => {
+  let repository: MfaRepository
+  let adminId: string
+  let teacherId: string
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    repository = new MfaRepository(db)
+    const admin = await createTestUser(db, { role: 'admin' })
+    const teacher = await createTestUser(db, { role: 'teacher' })
+    adminId = admin.id
+    teacherId = teacher.id
+  })
+
+  afterEach(async () => {
+    await clearAllTables(db)
+  })
+
+  describe('secrets', () => {
+    it('should store a pending secret', async () => {
+      const mfa = await repository.savePendingSecret(teacherId, 'SECRETONE')
+
+      expect(mfa).toMatchObject({
+        user_id: teacherId,
+        secret: 'SECRETONE',
+        enabled_at: null,
+        last_used_step: null,
+      })
+      expect(await repository.findByUser(teacherId)).toMatchObject({ secret: 'SECRETONE' })
+      expect(await repository.findByUser(adminId)).toBeNull()
+    })
+
+    it('should replace a pending secret', async () => {
+      await repository.savePendingSecret(teacherId, 'SECRETONE')
+      await repository.savePendingSecret(teacherId, 'SECRETTWO')
+
+      expect(await repository.findByUser(teacherId)).toMatchObject({ secret: 'SECRETTWO' })
+    })
+
+    it('should enable a pending setup once', async () => {
+      await repository.savePendingSecret(teacherId, 'SECRETONE')
+
+      const enabled = await repository.enable(teacherId, 100)
+
+      expect(enabled?.enabled_at).toBeInstanceOf(Date)
+      expect(enabled?.last_used_step).toBe(100)
+      expect(await repository.enable(teacherId, 101)).toBeNull()
+    })
+  })
+
+  describe('claimStep', () => {
+    it('should only accept newer time steps', async () => {
+      await repository.savePendingSecret(teacherId, 'SECRETONE')
+      await repository.enable(teacherId, 100)
+
+      expect(await repository.claimStep(teacherId, 100)).toBe(false)
+      expect(await repository.claimStep(teacherId, 101)).toBe(true)
+      expect(await repository.claimStep(teacherId, 101)).toBe(false)
+      expect(await repository.claimStep(teacherId, 99)).toBe(false)
+    })
+  })
+
+  describe('recovery codes', () => {
+    beforeEach(async () => {
+      await repository.savePendingSecret(teacherId, 'SECRETONE')
+      await repository.replaceRecoveryCodes(teacherId, ['hash-a', 'hash-b'])
+    })
+
+    it('should use each code once', async () => {
+      expect(await repository.useRecoveryCode(teacherId, 'hash-a')).toBe(true)
+      expect(await repository.useRecoveryCode(teacherId, 'hash-a')).toBe(false)
+      expect(await repository.useRecoveryCode(adminId, 'hash-b')).toBe(false)
+      expect(await repository.countUnusedRecoveryCodes(teacherId)).toBe(1)
+    })
+
+    it('should replace all codes', async () => {
+      await repository.useRecoveryCode(teacherId, 'hash-a')
+      await repository.replaceRecoveryCodes(teacherId, ['hash-c', 'hash-d', 'hash-e'])
+
+      expect(await repository.countUnusedRecoveryCodes(teacherId)).toBe(3)
+      expect(await repository.useRecoveryCode(teacherId, 'hash-b')).toBe(false)
+    })
+
+    it('should be removed with the setup', async () => {
+      expect(await repository.delete(teacherId)).toBe(true)
+
+      expect(await repository.findByUser(teacherId)).toBeNull()
+      expect(await repository.countUnusedRecoveryCodes(teacherId)).toBe(0)
+      expect(await repository.delete(teacherId)).toBe(false)
+    })
+  })
+
+  describe('required roles', () => {
+    it('should require and unrequire a role', async () => {
+      expect(await repository.requireForRole('teacher', adminId)).toBe(true)
+      expect(await repository.requireForRole('teacher', adminId)).toBe(false)
+
+      expect(await repository.isRequiredForRole('teacher')).toBe(true)
+      expect(await repository.isRequiredForRole('student')).toBe(false)
+      expect(await repository.findRequiredRoles()).toMatchObject([
+        { role: 'teacher', enforced_by: adminId },
+      ])
+
+      expect(await repository.unrequireForRole('teacher')).toBe(true)
+      expect(await repository.unrequireForRole('teacher')).toBe(false)
+      expect(await repository.findRequiredRoles()).toEqual([])
+    })
+  })
+})
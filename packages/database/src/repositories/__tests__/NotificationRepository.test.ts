@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { NotificationRepository } from '../NotificationRepository'
+import { db, clearAllTables, createTestUser } from '../../index'
+
+describe('NotificationRepository', () => {
+  let repository: NotificationRepository
+  let userId: string
+  let otherUserId: string
+
+  const notification = (recipientId: string, title: string) => ({
+    user_id: recipientId,
+    type: 'assignment_created' as const,
+    title,
+    body: 'Due next week',
+    link: '/student/assignments',
+  })
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    repository = new NotificationRepository(db)
+    userId = (await createTestUser(db, { role: 'student' })).id
+    otherUserId = (await createTestUser(db, { role: 'student' })).id
+  })
+
+  afterEach(async () => {
+    await clearAllTables(db)
+  })
+
+  describe('createMany', () => {
+    it('should create notifications for several recipients', async () => {
+      const created = await repository.createMany([
+        notification(userId, 'First'),
+        notification(otherUserId, 'First'),
+      ])
+
+      expect(created).toHaveLength(2)
+      expect(created[0]).toMatchObject({ user_id: userId, title: 'First', read_at: null })
+    })
+
+    it('should skip the insert for an empty list', async () => {
+      expect(await repository.createMany([])).toEqual([])
+    })
+  })
+
+  describe('findByUser', () => {
+    it('should return only the user notifications, newest first', async () => {
+      await repository.createMany([notification(userId, 'Older')])
+      await repository.createMany([notification(userId, 'Newer')])
+      await repository.createMany([notification(otherUserId, 'Other')])
+
+      const notifications = await repository.findByUser(userId)
+
+      expect(notifications.map((n) => n.title)).toEqual(['Newer', 'Older'])
+    })
+
+    it('should filter unread and limit', async () => {
+      const [read] = await repository.createMany([notification(userId, 'Read')])
+      await repository.createMany([notification(userId, 'Unread 1')])
+      await repository.createMany([notification(userId, 'Unread 2')])
+      await repository.markRead(read!.id, userId)
+
+      const unread = await repository.findByUser(userId, { unreadOnly: true, limit: 1 })
+
+      expect(unread.map((n) => n.title)).toEqual(['Unread 2'])
+    })
+  })
+
+  describe('read state', () => {
+    it('should mark read and unread and count unread', async () => {
+      const [first] = await repository.createMany([
+        notification(userId, 'First'),
+        notification(userId, 'Second'),
+      ])
+      expect(await repository.countUnread(userId)).toBe(2)
+
+      const read = await repository.markRead(first!.id, userId)
+      expect(read?.read_at).toBeInstanceOf(Date)
+      expect(await repository.countUnread(userId)).toBe(1)
+
+      const unread = await repository.markUnread(first!.id, userId)
+      expect(unread?.read_at).toBeNull()
+      expect(await repository.countUnread(userId)).toBe(2)
+    })
+
+    it('should keep the first read time', async () => {
+      const [created] = await repository.createMany([notification(userId, 'First')])
+      const first = await repository.markRead(created!.id, userId)
+
+      const second = await repository.markRead(created!.id, userId)
+
+      expect(second?.read_at).toEqual(first?.read_at)
+    })
+
+    it('should not touch notifications of other users', async () => {
+      const [created] = await repository.createMany([notification(otherUserId, 'Other')])
+
+      expect(await repository.markRead(created!.id, userId)).toBeNull()
+      expect(await repository.markUnread(created!.id, userId)).toBeNull()
+      expect(await repository.countUnread(otherUserId)).toBe(1)
+    })
+
+    it('should mark all unread notifications as read', async () => {
+      await repository.createMany([
+        notification(userId, 'First'),
+        notification(userId, 'Second'),
+        notification(otherUserId, 'Other'),
+      ])
+
+      expect(await repository.markAllRead(userId)).toBe(2)
+      expect(await repository.countUnread(userId)).toBe(0)
+      expect(await repository.countUnread(otherUserId)).toBe(1)
+    })
+  })
+})
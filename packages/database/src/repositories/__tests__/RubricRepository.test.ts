@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { RubricRepository } from '../RubricRepository'
+import type { RubricCriterionInput } from '../RubricRepository'
+import {
+  db,
+  clearAllTables,
+  createTestUser,
+  createTestClass,
+  createTestAssignment,
+  createTestSubmission,
+  createTestGrade,
+} from '../../index'
+
+const RUBRIC: RubricCriterionInput[] = [
+  {
+    title: 'Thesis',
+    description: 'Clear central claim',
+    levels: [
+      { label: 'Missing', description: null, points: 0 },
+      { label: 'Strong', description: null, points: 10 },
+    ],
+  },
+  {
+    title: 'Evidence',
+    description: null,
+    levels: [
+      { label: 'Weak', description: null, points: 2 },
+      { label: 'Solid', description: 'Cites sources', points: 5 },
+    ],
+  },
+]
+
+describe('RubricRepository', () => {
+  let repository: RubricRepository
+  let assignmentId: string
+  let gradeId: string
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    repository = new RubricRepository(db)
+    const teacher = await createTestUser(db, { role: 'teacher' })
+    const student = await createTestUser(db, { role: 'student' })
+    const testClass = await createTestClass(db, { teacherId: teacher.id })
+    const assignment = await createTestAssignment(db, { classId: testClass.id })
+    const submission = await createTestSubmission(db, {
+      assignmentId: assignment.id,
+      studentId: student.id,
+    })
+    const grade = await createTestGrade(db, {
+      submissionId: submission.id,
+      teacherId: teacher.id,
+    })
+    assignmentId = assignment.id
+    gradeId = grade.id
+  })
+
+  afterEach(async () => {
+    await clearAllTables(db)
+  })
+
+  describe('replaceForAssignment', () => {
+    it('should store criteria and levels in input order', async () => {
+      const rubric = await repository.replaceForAssignment(assignmentId, RUBRIC)
+
+      expect(rubric.map((c) => c.title)).toEqual(['Thesis', 'Evidence'])
+      expect(rubric[0]!.levels.map((l) => l.label)).toEqual(['Missing', 'Strong'])
+      expect(rubric[1]!.levels[1]!.points).toBe('5.00')
+    })
+
+    it('should replace an existing rubric', async () => {
+      await repository.replaceForAssignment(assignmentId, RUBRIC)
+
+      const rubric = await repository.replaceForAssignment(assignmentId, [RUBRIC[1]!])
+
+      expect(rubric).toHaveLength(1)
+      expect(rubric[0]!.title).toBe('Evidence')
+    })
+  })
+
+  describe('findByAssignment', () => {
+    it('should return empty array when assignment has no rubric', async () => {
+      expect(await repository.findByAssignment(assignmentId)).toEqual([])
+    })
+  })
+
+  describe('deleteByAssignment', () => {
+    it('should remove criteria and levels', async () => {
+      await repository.replaceForAssignment(assignmentId, RUBRIC)
+
+      const deleted = await repository.deleteByAssignment(assignmentId)
+
+      expect(deleted).toBe(2)
+      expect(await repository.findByAssignment(assignmentId)).toEqual([])
+      const levels = await db.selectFrom('rubric_levels').selectAll().execute()
+      expect(levels).toHaveLength(0)
+    })
+  })
+
+  describe('scores', () => {
+    it('should save, replace and find criterion scores', async () => {
+      const rubric = await repository.replaceForAssignment(assignmentId, RUBRIC)
+      const [thesis, evidence] = rubric
+
+      await repository.saveScores(gradeId, [
+        { criterionId: thesis!.id, levelId: thesis!.levels[0]!.id, points: 0, comment: null },
+      ])
+      await repository.saveScores(gradeId, [
+        { criterionId: evidence!.id, levelId: evidence!.levels[1]!.id, points: 5, comment: 'Good' },
+        { criterionId: thesis!.id, levelId: thesis!.levels[1]!.id, points: 10, comment: null },
+      ])
+
+      const scores = await repository.findScoresByGrade(gradeId)
+
+      expect(scores.map((s) => s.criterion_title)).toEqual(['Thesis', 'Evidence'])
+      expect(scores[0]!.level_label).toBe('Strong')
+      expect(scores[1]!.points).toBe('5.00')
+      expect(scores[1]!.comment).toBe('Good')
+    })
+
+    it('should count grades scored with the rubric', async () => {
+      const rubric = await repository.replaceForAssignment(assignmentId, RUBRIC)
+      expect(await repository.countScoredGrades(assignmentId)).toBe(0)
+
+      await repository.saveScores(
+        gradeId,
+        rubric.map((c) => ({
+          criterionId: c.id,
+          levelId: c.levels[0]!.id,
+          points: c.levels[0]!.points,
+          comment: null,
+        }))
+      )
+
+      expect(await repository.countScoredGrades(assignmentId)).toBe(1)
+    })
+  })
+})
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { SessionRepository } from '../SessionRepository'
 import { redisTest, setupRedisTest, teardownRedisTest } from '../../index'
 
@@ -49,9 +49,33 @@ describe('SessionRepository', () => {
 
       await repository.create(userId, refreshToken)
 
-      const storedUserId = await redisTest.get(`session:${refreshToken}`)
+      const storedUserId = await redisTest.hget(`session:${refreshToken}`, 'userId')
       expect(storedUserId).toBe(userId)
     })
+
+    it('should store the device details', async () => {
+      const session = await repository.create('user-device', 'token-device', undefined, {
+        userAgent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/131.0',
+        ip: '203.0.113.7',
+      })
+
+      expect(session.id).toMatch(/^[0-9a-f-]{36}$/)
+      expect(session.lastUsedAt).toEqual(session.createdAt)
+
+      const retrieved = await repository.get('token-device')
+      expect(retrieved).toMatchObject({
+        id: session.id,
+        userAgent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/131.0',
+        ip: '203.0.113.7',
+      })
+    })
+
+    it('should add the session to the user index', async () => {
+      await repository.create('user-index', 'token-indexed', 3600)
+
+      expect(await redisTest.smembers('user_sessions:user-index')).toEqual(['token-indexed'])
+      expect(await redisTest.ttl('user_sessions:user-index')).toBeGreaterThan(3590)
+    })
   })
 
   describe('get', () => {
@@ -69,11 +93,30 @@ describe('SessionRepository', () => {
       expect(session?.expiresAt).toBeInstanceOf(Date)
     })
 
+    it('should return the stored creation time', async () => {
+      const created = await repository.create('user-created', 'token-created')
+
+      const session = await repository.get('token-created')
+
+      expect(session?.createdAt.toISOString()).toBe(created.createdAt.toISOString())
+    })
+
     it('should return null for non-existent session', async () => {
       const session = await repository.get('non-existent-token')
       expect(session).toBeNull()
     })
 
+    it('should upgrade a legacy string session', async () => {
+      await redisTest.setex('session:token-legacy', 3600, 'user-legacy')
+
+      const session = await repository.get('token-legacy')
+
+      expect(session?.userId).toBe('user-legacy')
+      expect(await redisTest.type('session:token-legacy')).toBe('hash')
+      expect(await redisTest.ttl('session:token-legacy')).toBeGreaterThan(3590)
+      expect(await repository.getAllForUser('user-legacy')).toEqual(['token-legacy'])
+    })
+
     it('should return null for expired session', async () => {
       const userId = 'user-expired'
       const refreshToken = 'token-expired'
@@ -118,6 +161,7 @@ describe('SessionRepository', () => {
 
       const exists = await redisTest.exists(`session:${refreshToken}`)
       expect(exists).toBe(0)
+      expect(await redisTest.smembers(`user_sessions:${userId}`)).toEqual([])
     })
   })
 
@@ -164,6 +208,73 @@ describe('SessionRepository', () => {
     })
   })
 
+  describe('rotate', () => {
+    it('should move the session to the new token', async () => {
+      const created = await repository.create('user-rotate', 'token-old', 3600, {
+        userAgent: 'Safari',
+        ip: '198.51.100.1',
+      })
+
+      const rotated = await repository.rotate('token-old', 'token-new', 7200, {
+        ip: '198.51.100.2',
+      })
+
+      expect(rotated).toMatchObject({
+        id: created.id,
+        refreshToken: 'token-new',
+        userAgent: 'Safari',
+        ip: '198.51.100.2',
+        createdAt: created.createdAt,
+      })
+      expect(await repository.exists('token-old')).toBe(false)
+      expect(await repository.getAllForUser('user-rotate')).toEqual(['token-new'])
+      expect(await redisTest.ttl('session:token-new')).toBeGreaterThan(7190)
+    })
+
+    it('should return null for a non-existent session', async () => {
+      expect(await repository.rotate('non-existent-token', 'token-new')).toBeNull()
+      expect(await repository.exists('token-new')).toBe(false)
+    })
+
+    it('should let only one of two concurrent rotations win', async () => {
+      await repository.create('user-race', 'token-race')
+
+      const results = await Promise.all([
+        repository.rotate('token-race', 'token-a'),
+        repository.rotate('token-race', 'token-b'),
+      ])
+
+      expect(results.filter((r) => r !== null)).toHaveLength(1)
+      expect(await repository.countForUser('user-race')).toBe(1)
+    })
+  })
+
+  describe('token families', () => {
+    it('should remember rotated-out tokens with their family', async () => {
+      const created = await repository.create('user-family', 'token-1')
+      await repository.rotate('token-1', 'token-2', 3600)
+
+      expect(await repository.findRetired('token-1')).toEqual({
+        userId: 'user-family',
+        sessionId: created.id,
+      })
+      expect(await redisTest.ttl('retired_session:token-1')).toBeGreaterThan(3590)
+      expect(await repository.findRetired('token-2')).toBeNull()
+    })
+
+    it('should delete a family at its latest token', async () => {
+      const created = await repository.create('user-family', 'token-1')
+      await repository.create('user-family', 'token-other')
+      await repository.rotate('token-1', 'token-2')
+      await repository.rotate('token-2', 'token-3')
+
+      expect(await repository.deleteFamily('user-family', created.id)).toBe(true)
+      expect(await repository.exists('token-3')).toBe(false)
+      expect(await repository.getAllForUser('user-family')).toEqual(['token-other'])
+      expect(await repository.deleteFamily('user-family', created.id)).toBe(false)
+    })
+  })
+
   describe('exists', () => {
     it('should return true for existing session', async () => {
       const userId = 'user-exists'
@@ -224,6 +335,45 @@ describe('SessionRepository', () => {
       const sessions = await repository.getAllForUser('user-no-sessions')
       expect(sessions).toHaveLength(0)
     })
+
+    it('should not scan the keyspace', async () => {
+      await repository.create('user-scan', 'token-scan')
+      const keys = vi.spyOn(redisTest, 'keys')
+      const scan = vi.spyOn(redisTest, 'scan')
+
+      await repository.getAllForUser('user-scan')
+
+      expect(keys).not.toHaveBeenCalled()
+      expect(scan).not.toHaveBeenCalled()
+      keys.mockRestore()
+      scan.mockRestore()
+    })
+
+    it('should prune expired sessions from the index', async () => {
+      await repository.create('user-prune', 'token-live')
+      await repository.create('user-prune', 'token-short', 1)
+
+      await new Promise((resolve) => setTimeout(resolve, 1100))
+
+      expect(await repository.getAllForUser('user-prune')).toEqual(['token-live'])
+      expect(await redisTest.smembers('user_sessions:user-prune')).toEqual(['token-live'])
+    })
+  })
+
+  describe('findAllForUser', () => {
+    it('should return session details, most recently used first', async () => {
+      await repository.create('user-list', 'token-a', undefined, { userAgent: 'Chrome' })
+      await repository.create('user-list', 'token-b', undefined, { userAgent: 'Firefox' })
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      await repository.refresh('token-a')
+
+      const sessions = await repository.findAllForUser('user-list')
+
+      expect(sessions.map((s) => s.userAgent)).toEqual(['Chrome', 'Firefox'])
+      expect(sessions[0]!.lastUsedAt.getTime()).toBeGreaterThan(
+        sessions[0]!.createdAt.getTime()
+      )
+    })
   })
 
   describe('deleteAllForUser', () => {
@@ -237,6 +387,7 @@ describe('SessionRepository', () => {
       const deleted = await repository.deleteAllForUser(userId)
 
       expect(deleted).toBe(3)
+      expect(await redisTest.exists(`user_sessions:${userId}`)).toBe(0)
 
       const sessions = await repository.getAllForUser(userId)
       expect(sessions).toHaveLength(0)
@@ -305,6 +456,7 @@ describe('SessionRepository', () => {
 
       const count = await repository.count()
       expect(count).toBe(0)
+      expect(await redisTest.exists('user_sessions:user-1')).toBe(0)
     })
 
     it('should return 0 when no sessions', async () => {
@@ -324,7 +476,33 @@ describe('SessionRepository', () => {
     })
   })
 
+  describe('migrateLegacySessions', () => {
+    it('should upgrade every legacy session and index it', async () => {
+      await redisTest.setex('session:legacy-1', 3600, 'user-1')
+      await redisTest.setex('session:legacy-2', 3600, 'user-1')
+      await repository.create('user-2', 'token-current')
+
+      const upgraded = await repository.migrateLegacySessions()
+
+      expect(upgraded).toBe(2)
+      expect(await redisTest.type('session:legacy-1')).toBe('hash')
+      expect((await repository.getAllForUser('user-1')).sort()).toEqual(['legacy-1', 'legacy-2'])
+      expect(await repository.migrateLegacySessions()).toBe(0)
+    })
+  })
+
   describe('key prefix', () => {
+    it('should keep a custom prefix apart from sessions', async () => {
+      const resets = new SessionRepository(redisTest, 'password_reset:', 'user_password_resets:')
+
+      await resets.create('user-prefix', 'token-reset', 1800)
+      await repository.create('user-prefix', 'token-session')
+
+      expect(await resets.getAllForUser('user-prefix')).toEqual(['token-reset'])
+      expect(await repository.getAllForUser('user-prefix')).toEqual(['token-session'])
+      expect(await repository.get('token-reset')).toBeNull()
+    })
+
     it('should use correct key prefix format', async () => {
       const userId = 'user-prefix'
       const refreshToken = 'token-prefix'
@@ -353,11 +531,18 @@ describe('SessionRepository', () => {
 
   describe('edge cases', () => {
     it('should handle TTL edge case when key exists but TTL is 0 or negative', async () => {
-      // Create a mock Redis that returns userId but TTL = 0
-      const mockRedis = {
-        get: async () => 'user-ttl-edge',
-        ttl: async () => 0,
+      // Create a mock Redis that returns the session hash but TTL = 0
+      const pipeline = {
+        type: () => pipeline,
+        hmget: () => pipeline,
+        ttl: () => pipeline,
+        exec: async () => [
+          [null, 'hash'],
+          [null, ['user-ttl-edge', new Date().toISOString()]],
+          [null, 0],
+        ],
       }
+      const mockRedis = { pipeline: () => pipeline }
 
       const mockRepository = new SessionRepository(mockRedis as never)
       const session = await mockRepository.get('token-ttl-edge')
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { SubmissionAttachmentRepository } from '../SubmissionAttachmentRepository'
+import {
+  db,
+  clearAllTables,
+  createTestUser,
+  createTestClass,
+  createTestAssignment,
+  createTestSubmission,
+  createTestSubmissionAttachment,
+} from '../../index'
+
+describe('SubmissionAttachmentRepository', () => {
+  let repository: SubmissionAttachmentRepository
+  let submissionId: string
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    repository = new SubmissionAttachmentRepository(db)
+    const teacher = await createTestUser(db, { role: 'teacher' })
+    const student = await createTestUser(db, { role: 'student' })
+    const testClass = await createTestClass(db, { teacherId: teacher.id })
+    const assignment = await createTestAssignment(db, { classId: testClass.id })
+    const submission = await createTestSubmission(db, {
+      assignmentId: assignment.id,
+      studentId: student.id,
+    })
+    submissionId = submission.id
+  })
+
+  afterEach(async () => {
+    await clearAllTables(db)
+  })
+
+  describe('create', () => {
+    it('should create attachment metadata', async () => {
+      const attachment = await repository.create({
+        submission_id: submissionId,
+        filename: 'essay.pdf',
+        mime_type: 'application/pdf',
+        size_bytes: 2048,
+        storage_key: `submissions/${submissionId}/essay`,
+      })
+
+      expect(attachment.id).toBeDefined()
+      expect(attachment.filename).toBe('essay.pdf')
+      expect(attachment.size_bytes).toBe(2048)
+      expect(attachment.created_at).toBeInstanceOf(Date)
+    })
+
+    it('should reject duplicate storage keys', async () => {
+      await createTestSubmissionAttachment(db, { submissionId, storageKey: 'same-key' })
+
+      await expect(
+        repository.create({
+          submission_id: submissionId,
+          filename: 'other.pdf',
+          mime_type: 'application/pdf',
+          size_bytes: 1,
+          storage_key: 'same-key',
+        })
+      ).rejects.toThrow()
+    })
+  })
+
+  describe('findById', () => {
+    it('should find attachment by ID', async () => {
+      const created = await createTestSubmissionAttachment(db, { submissionId })
+
+      const found = await repository.findById(created.id)
+
+      expect(found?.storage_key).toBe(created.storageKey)
+    })
+
+    it('should return null for non-existent ID', async () => {
+      const found = await repository.findById('00000000-0000-0000-0000-000000000000')
+      expect(found).toBeNull()
+    })
+  })
+
+  describe('findBySubmission', () => {
+    it('should return attachments of the submission only', async () => {
+      await createTestSubmissionAttachment(db, { submissionId, filename: 'a.pdf' })
+      await createTestSubmissionAttachment(db, { submissionId, filename: 'b.pdf' })
+
+      const attachments = await repository.findBySubmission(submissionId)
+
+      expect(attachments).toHaveLength(2)
+      expect(attachments.map((a) => a.filename).sort()).toEqual(['a.pdf', 'b.pdf'])
+    })
+
+    it('should return empty array when submission has no attachments', async () => {
+      const attachments = await repository.findBySubmission(submissionId)
+      expect(attachments).toEqual([])
+    })
+  })
+
+  describe('countBySubmission', () => {
+    it('should count attachments', async () => {
+      await createTestSubmissionAttachment(db, { submissionId })
+      await createTestSubmissionAttachment(db, { submissionId })
+
+      expect(await repository.countBySubmission(submissionId)).toBe(2)
+    })
+  })
+
+  describe('delete', () => {
+    it('should delete attachment', async () => {
+      const created = await createTestSubmissionAttachment(db, { submissionId })
+
+      await repository.delete(created.id)
+
+      expect(await repository.findById(created.id)).toBeNull()
+    })
+
+    it('should throw error for non-existent attachment', async () => {
+      await expect(
+        repository.delete('00000000-0000-0000-0000-000000000000')
+      ).rejects.toThrow('not found')
+    })
+
+    it('should be removed when submission is deleted', async () => {
+      const created = await createTestSubmissionAttachment(db, { submissionId })
+
+      await db.deleteFrom('submissions').where('id', '=', submissionId).execute()
+
+      expect(await repository.findById(created.id)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { SubmissionVersionRepository } from '../SubmissionVersionRepository'
+import {
+  db,
+  clearAllTables,
+  createTestUser,
+  createTestClass,
+  createTestAssignment,
+  createTestSubmission,
+} from '../../index'
+
+describe('SubmissionVersionRepository', () => {
+  let repository: SubmissionVersionRepository
+  let submissionId: string
+  let otherSubmissionId: string
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    repository = new SubmissionVersionRepository(db)
+    const teacher = await createTestUser(db, { role: 'teacher' })
+    const student = await createTestUser(db, { role: 'student' })
+    const otherStudent = await createTestUser(db, { role: 'student' })
+    const testClass = await createTestClass(db, { teacherId: teacher.id })
+    const assignment = await createTestAssignment(db, { classId: testClass.id })
+    const submission = await createTestSubmission(db, {
+      assignmentId: assignment.id,
+      studentId: student.id,
+    })
+    const otherSubmission = await createTestSubmission(db, {
+      assignmentId: assignment.id,
+      studentId: otherStudent.id,
+    })
+    submissionId = submission.id
+    otherSubmissionId = otherSubmission.id
+  })
+
+  afterEach(async () => {
+    await clearAllTables(db)
+  })
+
+  describe('create', () => {
+    it('should number versions per submission starting at 1', async () => {
+      const first = await repository.create(submissionId, 'Draft 1', null)
+      const second = await repository.create(submissionId, 'Draft 2', 'https://example.com/a.pdf')
+      const other = await repository.create(otherSubmissionId, 'Other draft', null)
+
+      expect(first.version_number).toBe(1)
+      expect(second.version_number).toBe(2)
+      expect(second.file_url).toBe('https://example.com/a.pdf')
+      expect(other.version_number).toBe(1)
+      expect(first.returned_at).toBeNull()
+    })
+
+    it('should record the current attachments with the version', async () => {
+      const empty = await repository.create(submissionId, 'Draft 1', null)
+      const attachment = await db
+        .insertInto('submission_attachments')
+        .values({
+          submission_id: submissionId,
+          filename: 'essay.pdf',
+          mime_type: 'application/pdf',
+          size_bytes: 4,
+          storage_key: `submissions/${submissionId}/key`,
+        })
+        .returningAll()
+        .executeTakeFirstOrThrow()
+
+      const withAttachment = await repository.create(submissionId, 'Draft 1', null)
+
+      expect(empty.attachments).toEqual([])
+      expect(withAttachment.attachments).toEqual([
+        { id: attachment.id, filename: 'essay.pdf', mime_type: 'application/pdf', size_bytes: 4 },
+      ])
+    })
+  })
+
+  describe('findBySubmission', () => {
+    it('should return versions in order', async () => {
+      await repository.create(submissionId, 'Draft 1', null)
+      await repository.create(submissionId, 'Draft 2', null)
+      await repository.create(otherSubmissionId, 'Other draft', null)
+
+      const versions = await repository.findBySubmission(submissionId)
+
+      expect(versions.map((v) => v.content)).toEqual(['Draft 1', 'Draft 2'])
+    })
+  })
+
+  describe('findByNumber', () => {
+    it('should find a specific version', async () => {
+      await repository.create(submissionId, 'Draft 1', null)
+      await repository.create(submissionId, 'Draft 2', null)
+
+      const version = await repository.findByNumber(submissionId, 2)
+
+      expect(version?.content).toBe('Draft 2')
+    })
+
+    it('should return null for missing version', async () => {
+      expect(await repository.findByNumber(submissionId, 3)).toBeNull()
+    })
+  })
+
+  describe('findLatest', () => {
+    it('should return the highest version', async () => {
+      await repository.create(submissionId, 'Draft 1', null)
+      await repository.create(submissionId, 'Draft 2', null)
+
+      const latest = await repository.findLatest(submissionId)
+
+      expect(latest?.version_number).toBe(2)
+    })
+
+    it('should return null when submission has no versions', async () => {
+      expect(await repository.findLatest(submissionId)).toBeNull()
+    })
+  })
+
+  describe('markReturned', () => {
+    it('should snapshot grade and feedback', async () => {
+      const version = await repository.create(submissionId, 'Draft 1', null)
+
+      const returned = await repository.markReturned(version.id, 72.5, 'Expand section 2')
+
+      expect(returned.grade).toBe('72.50')
+      expect(returned.feedback).toBe('Expand section 2')
+      expect(returned.returned_at).toBeInstanceOf(Date)
+    })
+
+    it('should throw error for non-existent version', async () => {
+      await expect(
+        repository.markReturned('00000000-0000-0000-0000-000000000000', 50, null)
+      ).rejects.toThrow('not found')
+    })
+  })
+
+  it('should be removed when submission is deleted', async () => {
+    const version = await repository.create(submissionId, 'Draft 1', null)
+
+    await db.deleteFrom('submissions').where('id', '=', submissionId).execute()
+
+    expect(await repository.findByNumber(submissionId, version.version_number)).toBeNull()
+  })
+})
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { TeacherGroupRepository } from '../TeacherGroupRepository'
+import {
+  db,
+  clearAllTables,
+  createTestUser,
+  createTestUsers,
+  createTestTeacherGroup,
+} from '../../index'
+
+describe('TeacherGroupRepository', () => {
+  let repository: TeacherGroupRepository
+  let adminId: string
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    repository = new TeacherGroupRepository(db)
+    const admin = await createTestUser(db, { role: 'admin' })
+    adminId = admin.id
+  })
+
+  afterEach(async () => {
+    await clearAllTables(db)
+  })
+
+  describe('create', () => {
+    it('should create a new teacher group', async () => {
+      const group = await repository.create({ name: 'Science Dept', admin_id: adminId })
+
+      expect(group.id).toBeDefined()
+      expect(group.name).toBe('Science Dept')
+      expect(group.admin_id).toBe(adminId)
+      expect(group.created_at).toBeInstanceOf(Date)
+      expect(group.updated_at).toBeInstanceOf(Date)
+    })
+
+    it('should throw error for non-existent admin', async () => {
+      await expect(
+        repository.create({
+          name: 'Orphan Group',
+          admin_id: '00000000-0000-0000-0000-000000000000',
+        })
+      ).rejects.toThrow()
+    })
+  })
+
+  describe('findById', () => {
+    it('should find teacher group by ID', async () => {
+      const created = await createTestTeacherGroup(db, { adminId })
+
+      const found = await repository.findById(created.id)
+
+      expect(found?.id).toBe(created.id)
+      expect(found?.name).toBe(created.name)
+    })
+
+    it('should return null for non-existent ID', async () => {
+      const found = await repository.findById('00000000-0000-0000-0000-000000000000')
+      expect(found).toBeNull()
+    })
+  })
+
+  describe('findAll', () => {
+    it('should return groups ordered by name', async () => {
+      await createTestTeacherGroup(db, { adminId, name: 'Math' })
+      await createTestTeacherGroup(db, { adminId, name: 'English' })
+
+      const groups = await repository.findAll()
+
+      expect(groups.map((g) => g.name)).toEqual(['English', 'Math'])
+    })
+
+    it('should paginate results', async () => {
+      await createTestTeacherGroup(db, { adminId, name: 'A' })
+      await createTestTeacherGroup(db, { adminId, name: 'B' })
+      await createTestTeacherGroup(db, { adminId, name: 'C' })
+
+      const page2 = await repository.findAll({ page: 2, limit: 2 })
+
+      expect(page2).toHaveLength(1)
+      expect(page2[0]?.name).toBe('C')
+    })
+  })
+
+  describe('update', () => {
+    it('should update group name', async () => {
+      const created = await createTestTeacherGroup(db, { adminId })
+
+      const updated = await repository.update(created.id, { name: 'Renamed' })
+
+      expect(updated.name).toBe('Renamed')
+    })
+
+    it('should throw error for non-existent group', async () => {
+      await expect(
+        repository.update('00000000-0000-0000-0000-000000000000', { name: 'X' })
+      ).rejects.toThrow()
+    })
+  })
+
+  describe('delete', () => {
+    it('should delete group and cascade memberships', async () => {
+      const created = await createTestTeacherGroup(db, { adminId })
+      const teacher = await createTestUser(db, { role: 'teacher' })
+      await repository.addMember(created.id, teacher.id)
+
+      await repository.delete(created.id)
+
+      expect(await repository.findById(created.id)).toBeNull()
+      expect(await repository.countMembers(created.id)).toBe(0)
+    })
+
+    it('should throw error for non-existent group', async () => {
+      await expect(
+        repository.delete('00000000-0000-0000-0000-000000000000')
+      ).rejects.toThrow('not found')
+    })
+  })
+
+  describe('count', () => {
+    it('should count all groups', async () => {
+      await createTestTeacherGroup(db, { adminId })
+      await createTestTeacherGroup(db, { adminId })
+
+      expect(await repository.count()).toBe(2)
+    })
+  })
+
+  describe('membership', () => {
+    it('should add and list members with user details', async () => {
+      const group = await createTestTeacherGroup(db, { adminId })
+      const [first, second] = await createTestUsers(db, 2, { role: 'teacher' })
+
+      await repository.addMember(group.id, first!.id)
+      await repository.addMember(group.id, second!.id)
+
+      const members = await repository.getMembers(group.id)
+
+      expect(members).toHaveLength(2)
+      expect(members[0]?.id).toBe(first!.id)
+      expect(members[0]?.email).toBe(first!.email)
+      expect(members[0]?.joined_at).toBeInstanceOf(Date)
+    })
+
+    it('should throw when adding duplicate member', async () => {
+      const group = await createTestTeacherGroup(db, { adminId })
+      const teacher = await createTestUser(db, { role: 'teacher' })
+      await repository.addMember(group.id, teacher.id)
+
+      await expect(repository.addMember(group.id, teacher.id)).rejects.toThrow()
+    })
+
+    it('should remove a member', async () => {
+      const group = await createTestTeacherGroup(db, { adminId })
+      const teacher = await createTestUser(db, { role: 'teacher' })
+      await repository.addMember(group.id, teacher.id)
+
+      await repository.removeMember(group.id, teacher.id)
+
+      expect(await repository.isMember(group.id, teacher.id)).toBe(false)
+    })
+
+    it('should throw when removing non-member', async () => {
+      const group = await createTestTeacherGroup(db, { adminId })
+      const teacher = await createTestUser(db, { role: 'teacher' })
+
+      await expect(repository.removeMember(group.id, teacher.id)).rejects.toThrow(
+        'is not a member'
+      )
+    })
+
+    it('should report membership and count', async () => {
+      const group = await createTestTeacherGroup(db, { adminId })
+      const teacher = await createTestUser(db, { role: 'teacher' })
+
+      expect(await repository.isMember(group.id, teacher.id)).toBe(false)
+      await repository.addMember(group.id, teacher.id)
+      expect(await repository.isMember(group.id, teacher.id)).toBe(true)
+      expect(await repository.countMembers(group.id)).toBe(1)
+    })
+
+    it('should find groups for a teacher', async () => {
+      const science = await createTestTeacherGroup(db, { adminId, name: 'Science' })
+      const arts = await createTestTeacherGroup(db, { adminId, name: 'Arts' })
+      await createTestTeacherGroup(db, { adminId, name: 'Other' })
+      const teacher = await createTestUser(db, { role: 'teacher' })
+      await repository.addMember(science.id, teacher.id)
+      await repository.addMember(arts.id, teacher.id)
+
+      const groups = await repository.findGroupsForTeacher(teacher.id)
+
+      expect(groups.map((g) => g.name)).toEqual(['Arts', 'Science'])
+    })
+  })
+})
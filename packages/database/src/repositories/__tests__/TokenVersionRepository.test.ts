@@ -0,0 +1,42 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { TokenVersionRepository } from '../TokenVersionRepository'
+import { redisTest, setupRedisTest, teardownRedisTest } from '../../index'
+
+describe('TokenVersionRepository', () => {
+  let repository: TokenVersionRepository
+
+  beforeEach(async () => {
+    await setupRedisTest()
+    repository = new TokenVersionRepository(redisTest)
+  })
+
+  afterEach(async () => {
+    await teardownRedisTest()
+  })
+
+  it('should start users at version 0', async () => {
+    expect(await repository.get('user-new')).toBe(0)
+  })
+
+  it('should increment the version of one user only', async () => {
+    expect(await repository.increment('user-1')).toBe(1)
+    expect(await repository.increment('user-1')).toBe(2)
+
+    expect(await repository.get('user-1')).toBe(2)
+    expect(await repository.get('user-2')).toBe(0)
+  })
+
+  it('should keep versions without expiry', async () => {
+    await repository.increment('user-1')
+
+    expect(await redisTest.ttl('token_version:user-1')).toBe(-1)
+  })
+
+  it('should keep versions under a custom prefix apart', async () => {
+    const other = new TokenVersionRepository(redisTest, 'other_version:')
+    await other.increment('user-1')
+
+    expect(await repository.get('user-1')).toBe(0)
+    expect(await other.get('user-1')).toBe(1)
+  })
+})
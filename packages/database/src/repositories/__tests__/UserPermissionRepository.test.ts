@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { UserPermissionRepository } from '../UserPermissionRepository'
+import { db, clearAllTables, createTestUser } from '../../index'
+
+describe('UserPermissionRepository', () => {
+  let repository: UserPermissionRepository
+  let adminId: string
+  let teacherId: string
+
+  beforeEach(async () => {
+    await clearAllTables(db)
+    repository = new UserPermissionRepository(db)
+    const admin = await createTestUser(db, { role: 'admin' })
+    const teacher = await createTestUser(db, { role: 'teacher' })
+    adminId = admin.id
+    teacherId = teacher.id
+  })
+
+  afterEach(async () => {
+    await clearAllTables(db)
+  })
+
+  describe('grant', () => {
+    it('should grant a permission', async () => {
+      const grant = await repository.grant({
+        user_id: teacherId,
+        permission: 'classes:read_all',
+        granted_by: adminId,
+      })
+
+      expect(grant).toMatchObject({
+        user_id: teacherId,
+        permission: 'classes:read_all',
+        granted_by: adminId,
+      })
+      expect(grant?.created_at).toBeInstanceOf(Date)
+    })
+
+    it('should return null when the permission was already granted', async () => {
+      await repository.grant({ user_id: teacherId, permission: 'classes:read_all', granted_by: adminId })
+
+      const again = await repository.grant({
+        user_id: teacherId,
+        permission: 'classes:read_all',
+        granted_by: adminId,
+      })
+
+      expect(again).toBeNull()
+      expect(await repository.findByUser(teacherId)).toHaveLength(1)
+    })
+  })
+
+  describe('findByUser', () => {
+    it('should only return the user\'s grants', async () => {
+      await repository.grant({ user_id: teacherId, permission: 'classes:read_all', granted_by: adminId })
+      await repository.grant({ user_id: teacherId, permission: 'grades:read_all', granted_by: adminId })
+      await repository.grant({ user_id: adminId, permission: 'grades:read_all', granted_by: null })
+
+      const grants = await repository.findByUser(teacherId)
+
+      expect(grants.map((g) => g.permission).sort()).toEqual(['classes:read_all', 'grades:read_all'])
+    })
+
+    it('should drop grants when the user is deleted', async () => {
+      await repository.grant({ user_id: teacherId, permission: 'classes:read_all', granted_by: adminId })
+
+      await db.deleteFrom('users').where('id', '=', teacherId).execute()
+
+      expect(await repository.findByUser(teacherId)).toEqual([])
+    })
+  })
+
+  describe('revoke', () => {
+    it('should revoke a granted permission', async () => {
+      await repository.grant({ user_id: teacherId, permission: 'classes:read_all', granted_by: adminId })
+
+      expect(await repository.revoke(teacherId, 'classes:read_all')).toBe(true)
+      expect(await repository.findByUser(teacherId)).toEqual([])
+    })
+
+    it('should return false when the permission was not granted', async () => {
+      expect(await repository.revoke(teacherId, 'classes:read_all')).toBe(false)
+    })
+  })
+})
@@ -10,6 +10,22 @@
 
 export * from './UserRepository'
 export * from './ClassRepository'
+export * from './ClassJoinCodeRepository'
+export * from './ClassStaffRepository'
 export * from './AssignmentRepository'
+export * from './AssignmentCategoryRepository'
 export * from './SessionRepository'
+export * from './TokenVersionRepository'
+export * from './MfaChallengeRepository'
+export * from './InvitationRepository'
 export * from './OAuthAccountRepository'
+export * from './TeacherGroupRepository'
+export * from './LessonRepository'
+export * from './SubmissionAttachmentRepository'
+export * from './SubmissionVersionRepository'
+export * from './RubricRepository'
+export * from './NotificationRepository'
+export * from './AuditEventRepository'
+export * from './GradeRevisionRepository'
+export * from './UserPermissionRepository'
+export * from './MfaRepository'
@@ -3,6 +3,36 @@ import type { ColumnType, Generated, Insertable, Selectable, Updateable } from '
 // User roles enum
 export type UserRole = 'admin' | 'teacher' | 'student'
 
+// Class staff role enum
+export type ClassStaffRole = 'owner' | 'co_teacher' | 'ta'
+
+// Lesson status enum
+export type LessonStatus = 'draft' | 'published'
+
+// Late submission policy enum
+export type LatePolicy = 'reject' | 'allow' | 'penalty'
+
+// Notification type enum
+export type NotificationType = 'assignment_created' | 'grade_posted' | 'class_enrolled'
+
+// Audit log enums
+export type AuditAction =
+  | 'user_updated'
+  | 'user_suspended'
+  | 'user_unsuspended'
+  | 'user_deleted'
+  | 'class_deleted'
+  | 'students_transferred'
+  | 'grade_posted'
+  | 'grade_updated'
+  | 'grade_returned'
+  | 'permission_granted'
+  | 'permission_revoked'
+  | 'refresh_token_reused'
+  | 'mfa_reset'
+
+export type AuditTargetType = 'user' | 'class' | 'submission'
+
 // Users table
 export interface UsersTable {
   id: Generated<string>
@@ -48,6 +78,25 @@ export interface ClassStudentsTable {
   enrolled_at: ColumnType<Date, Date | undefined, never>
 }
 
+// Class staff table - owner, co-teachers and teaching assistants of a class
+export interface ClassStaffTable {
+  class_id: string
+  user_id: string
+  role: ClassStaffRole
+  created_at: ColumnType<Date, Date | undefined, never>
+}
+
+// Class join codes table (one active code per class)
+export interface ClassJoinCodesTable {
+  class_id: string
+  code: string
+  expires_at: Date | null
+  max_uses: number | null
+  use_count: ColumnType<number, number | undefined, number>
+  // Reset when the code is rotated
+  created_at: ColumnType<Date, Date | undefined, Date>
+}
+
 // Assignments table
 export interface AssignmentsTable {
   id: Generated<string>
@@ -55,6 +104,37 @@ export interface AssignmentsTable {
   title: string
   description: string
   due_date: Date
+  late_policy: ColumnType<LatePolicy, LatePolicy | undefined, LatePolicy>
+  late_cutoff: ColumnType<Date | null, Date | null | undefined, Date | null>
+  late_penalty_per_day: ColumnType<number, number | undefined, number>
+  max_points: ColumnType<number, number | undefined, number>
+  category_id: ColumnType<string | null, string | null | undefined, string | null>
+  grades_released_at: ColumnType<Date | null, Date | null | undefined, Date | null>
+  created_at: ColumnType<Date, Date | undefined, never>
+  updated_at: ColumnType<Date, Date | undefined, Date>
+}
+
+// Assignment categories table
+export interface AssignmentCategoriesTable {
+  id: Generated<string>
+  class_id: string
+  name: string
+  weight: number
+  created_at: ColumnType<Date, Date | undefined, never>
+  updated_at: ColumnType<Date, Date | undefined, Date>
+}
+
+// Lessons table
+export interface LessonsTable {
+  id: Generated<string>
+  class_id: string
+  title: string
+  content: string
+  module_name: string | null
+  module_position: ColumnType<number, number | undefined, number>
+  position: ColumnType<number, number | undefined, number>
+  status: ColumnType<LessonStatus, LessonStatus | undefined, LessonStatus>
+  published_at: Date | null
   created_at: ColumnType<Date, Date | undefined, never>
   updated_at: ColumnType<Date, Date | undefined, Date>
 }
@@ -66,10 +146,47 @@ export interface SubmissionsTable {
   student_id: string
   content: string
   file_url: string | null
+  is_late: ColumnType<boolean, boolean | undefined, boolean>
+  late_penalty: ColumnType<number, number | undefined, number>
+  returned_at: ColumnType<Date | null, Date | null | undefined, Date | null>
   submitted_at: ColumnType<Date, Date | undefined, never>
   updated_at: ColumnType<Date, Date | undefined, Date>
 }
 
+// Submission versions table
+export interface SubmissionVersionsTable {
+  id: Generated<string>
+  submission_id: string
+  version_number: number
+  content: string
+  file_url: string | null
+  grade: ColumnType<string | null, number | string | null | undefined, number | string | null>
+  feedback: ColumnType<string | null, string | null | undefined, string | null>
+  returned_at: ColumnType<Date | null, Date | null | undefined, Date | null>
+  // Snapshot of the submission's attachments, taken when the version is created
+  attachments: ColumnType<SubmissionVersionAttachment[], string | undefined, never>
+  created_at: ColumnType<Date, Date | undefined, never>
+}
+
+// Attachment metadata recorded on a submission version
+export interface SubmissionVersionAttachment {
+  id: string
+  filename: string
+  mime_type: string
+  size_bytes: number
+}
+
+// Submission attachments table
+export interface SubmissionAttachmentsTable {
+  id: Generated<string>
+  submission_id: string
+  filename: string
+  mime_type: string
+  size_bytes: number
+  storage_key: string
+  created_at: ColumnType<Date, Date | undefined, never>
+}
+
 // Grades table
 export interface GradesTable {
   id: Generated<string>
@@ -81,6 +198,49 @@ export interface GradesTable {
   updated_at: ColumnType<Date, Date | undefined, Date>
 }
 
+// Grade revisions table - one row per change to a posted grade
+export interface GradeRevisionsTable {
+  id: Generated<string>
+  submission_id: string
+  teacher_id: string | null
+  previous_grade: ColumnType<string, number | string, never>
+  previous_feedback: string | null
+  grade: ColumnType<string, number | string, never>
+  feedback: string | null
+  reason: string | null
+  created_at: ColumnType<Date, Date | undefined, never>
+}
+
+// Rubric criteria table
+export interface RubricCriteriaTable {
+  id: Generated<string>
+  assignment_id: string
+  title: string
+  description: string | null
+  position: ColumnType<number, number | undefined, number>
+  created_at: ColumnType<Date, Date | undefined, never>
+}
+
+// Rubric levels table
+export interface RubricLevelsTable {
+  id: Generated<string>
+  criterion_id: string
+  label: string
+  description: string | null
+  points: ColumnType<string, number | string, number | string> // PostgreSQL NUMERIC returns string
+  position: ColumnType<number, number | undefined, number>
+}
+
+// Grade criterion scores table
+export interface GradeCriterionScoresTable {
+  id: Generated<string>
+  grade_id: string
+  criterion_id: string
+  level_id: string
+  points: ColumnType<string, number | string, number | string> // PostgreSQL NUMERIC returns string
+  comment: string | null
+}
+
 // OAuth accounts table
 export interface OAuthAccountsTable {
   id: Generated<string>
@@ -98,6 +258,39 @@ export interface OAuthAccountsTable {
   updated_at: ColumnType<Date, Date | undefined, Date>
 }
 
+// Permissions granted to a user beyond those of their role
+export interface UserPermissionsTable {
+  user_id: string
+  permission: string
+  granted_by: string | null
+  created_at: ColumnType<Date, Date | undefined, never>
+}
+
+// TOTP multi-factor authentication of a user
+export interface UserMfaTable {
+  user_id: string
+  secret: string
+  enabled_at: Date | null
+  last_used_step: number | null
+  created_at: ColumnType<Date, Date | undefined, never>
+}
+
+// Single-use MFA recovery codes (SHA-256 hashes, never the codes themselves)
+export interface MfaRecoveryCodesTable {
+  id: Generated<string>
+  user_id: string
+  code_hash: string
+  used_at: Date | null
+  created_at: ColumnType<Date, Date | undefined, never>
+}
+
+// Roles whose users must use MFA
+export interface MfaRequiredRolesTable {
+  role: UserRole
+  enforced_by: string | null
+  created_at: ColumnType<Date, Date | undefined, never>
+}
+
 // Sessions table for JWT refresh tokens
 export interface SessionsTable {
   id: Generated<string>
@@ -108,6 +301,33 @@ export interface SessionsTable {
   updated_at: ColumnType<Date, Date | undefined, Date>
 }
 
+// In-app notifications table
+export interface NotificationsTable {
+  id: Generated<string>
+  user_id: string
+  type: NotificationType
+  title: string
+  body: string
+  link: string | null
+  read_at: Date | null
+  created_at: ColumnType<Date, Date | undefined, never>
+}
+
+// JSON snapshot of an audited record (never includes secrets such as password hashes)
+export type AuditSnapshot = Record<string, unknown>
+
+// Append-only audit log table
+export interface AuditEventsTable {
+  id: Generated<string>
+  actor_id: string | null
+  action: AuditAction
+  target_type: AuditTargetType
+  target_id: string
+  before: ColumnType<AuditSnapshot | null, AuditSnapshot | null | undefined, never>
+  after: ColumnType<AuditSnapshot | null, AuditSnapshot | null | undefined, never>
+  created_at: ColumnType<Date, Date | undefined, never>
+}
+
 // Database interface combining all tables
 export interface Database {
   users: UsersTable
@@ -115,11 +335,27 @@ export interface Database {
   teacher_group_members: TeacherGroupMembersTable
   classes: ClassesTable
   class_students: ClassStudentsTable
+  class_staff: ClassStaffTable
+  class_join_codes: ClassJoinCodesTable
   assignments: AssignmentsTable
+  assignment_categories: AssignmentCategoriesTable
+  lessons: LessonsTable
   submissions: SubmissionsTable
+  submission_versions: SubmissionVersionsTable
+  submission_attachments: SubmissionAttachmentsTable
   grades: GradesTable
+  grade_revisions: GradeRevisionsTable
+  rubric_criteria: RubricCriteriaTable
+  rubric_levels: RubricLevelsTable
+  grade_criterion_scores: GradeCriterionScoresTable
   oauth_accounts: OAuthAccountsTable
+  user_permissions: UserPermissionsTable
+  user_mfa: UserMfaTable
+  mfa_recovery_codes: MfaRecoveryCodesTable
+  mfa_required_roles: MfaRequiredRolesTable
   sessions: SessionsTable
+  notifications: NotificationsTable
+  audit_events: AuditEventsTable
 }
 
 // Helper types for each table
@@ -127,6 +363,13 @@ export type User = Selectable<UsersTable>
 export type NewUser = Insertable<UsersTable>
 export type UserUpdate = Updateable<UsersTable>
 
+export type UserPermission = Selectable<UserPermissionsTable>
+export type NewUserPermission = Insertable<UserPermissionsTable>
+
+export type UserMfa = Selectable<UserMfaTable>
+export type MfaRecoveryCode = Selectable<MfaRecoveryCodesTable>
+export type MfaRequiredRole = Selectable<MfaRequiredRolesTable>
+
 export type TeacherGroup = Selectable<TeacherGroupsTable>
 export type NewTeacherGroup = Insertable<TeacherGroupsTable>
 export type TeacherGroupUpdate = Updateable<TeacherGroupsTable>
@@ -135,18 +378,51 @@ export type Class = Selectable<ClassesTable>
 export type NewClass = Insertable<ClassesTable>
 export type ClassUpdate = Updateable<ClassesTable>
 
+export type ClassStaffMember = Selectable<ClassStaffTable>
+export type NewClassStaffMember = Insertable<ClassStaffTable>
+
+export type ClassJoinCode = Selectable<ClassJoinCodesTable>
+export type NewClassJoinCode = Insertable<ClassJoinCodesTable>
+
 export type Assignment = Selectable<AssignmentsTable>
 export type NewAssignment = Insertable<AssignmentsTable>
 export type AssignmentUpdate = Updateable<AssignmentsTable>
 
+export type AssignmentCategory = Selectable<AssignmentCategoriesTable>
+export type NewAssignmentCategory = Insertable<AssignmentCategoriesTable>
+export type AssignmentCategoryUpdate = Updateable<AssignmentCategoriesTable>
+
+export type Lesson = Selectable<LessonsTable>
+export type NewLesson = Insertable<LessonsTable>
+export type LessonUpdate = Updateable<LessonsTable>
+
 export type Submission = Selectable<SubmissionsTable>
 export type NewSubmission = Insertable<SubmissionsTable>
 export type SubmissionUpdate = Updateable<SubmissionsTable>
 
+export type SubmissionVersion = Selectable<SubmissionVersionsTable>
+export type NewSubmissionVersion = Insertable<SubmissionVersionsTable>
+export type SubmissionVersionUpdate = Updateable<SubmissionVersionsTable>
+
+export type SubmissionAttachment = Selectable<SubmissionAttachmentsTable>
+export type NewSubmissionAttachment = Insertable<SubmissionAttachmentsTable>
+
 export type Grade = Selectable<GradesTable>
 export type NewGrade = Insertable<GradesTable>
 export type GradeUpdate = Updateable<GradesTable>
 
+export type GradeRevision = Selectable<GradeRevisionsTable>
+export type NewGradeRevision = Insertable<GradeRevisionsTable>
+
+export type RubricCriterion = Selectable<RubricCriteriaTable>
+export type NewRubricCriterion = Insertable<RubricCriteriaTable>
+
+export type RubricLevel = Selectable<RubricLevelsTable>
+export type NewRubricLevel = Insertable<RubricLevelsTable>
+
+export type GradeCriterionScore = Selectable<GradeCriterionScoresTable>
+export type NewGradeCriterionScore = Insertable<GradeCriterionScoresTable>
+
 export type OAuthAccount = Selectable<OAuthAccountsTable>
 export type NewOAuthAccount = Insertable<OAuthAccountsTable>
 export type OAuthAccountUpdate = Updateable<OAuthAccountsTable>
@@ -155,7 +431,22 @@ export type Session = Selectable<SessionsTable>
 export type NewSession = Insertable<SessionsTable>
 export type SessionUpdate = Updateable<SessionsTable>
 
+export type Notification = Selectable<NotificationsTable>
+export type NewNotification = Insertable<NotificationsTable>
+
+export type AuditEvent = Selectable<AuditEventsTable>
+export type NewAuditEvent = Insertable<AuditEventsTable>
+
 // Extended types with joined data
+export interface AuditEventWithActor extends AuditEvent {
+  /** Null for system actions or when the actor's account was deleted */
+  actor: {
+    id: string
+    name: string
+    email: string
+  } | null
+}
+
 export interface SubmissionWithStudent extends Submission {
   student: {
     id: string
@@ -164,13 +455,69 @@ export interface SubmissionWithStudent extends Submission {
   }
 }
 
+export interface TeacherGroupMember {
+  id: string
+  name: string
+  email: string
+  joined_at: Date
+}
+
+export interface ClassStaffMemberWithUser extends ClassStaffMember {
+  name: string
+  email: string
+}
+
+export interface RubricCriterionWithLevels extends RubricCriterion {
+  levels: RubricLevel[]
+}
+
+export interface GradeRevisionWithTeacher extends GradeRevision {
+  /** Null when the teacher's account was deleted */
+  teacher_name: string | null
+}
+
+export interface GradeCriterionScoreDetail extends GradeCriterionScore {
+  criterion_title: string
+  level_label: string
+}
+
 export interface GradeWithAssignment {
   submission: Submission
   grade: Grade | null
+  rubricScores: GradeCriterionScoreDetail[]
   assignment: {
     id: string
     title: string
     description: string
     dueDate: Date
+    latePolicy: LatePolicy
+    maxPoints: number
+    gradesReleasedAt: Date | null
   }
-}
\ No newline at end of file
+}
+
+export interface ClassGradeRow {
+  student_id: string
+  assignment_id: string
+  category_id: string | null
+  max_points: number
+  late_penalty: number
+  grade: string
+}
+
+export interface GradebookSubmissionRow {
+  student_id: string
+  assignment_id: string
+  submission_id: string
+  is_late: boolean
+  late_penalty: number
+  submitted_at: Date
+  grade_id: string | null
+  grade: string | null
+}
+
+export interface ClassStudent {
+  id: string
+  name: string
+  email: string
+}
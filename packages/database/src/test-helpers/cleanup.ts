@@ -3,7 +3,7 @@
  * @description Cleanup utilities for test database
  */
 
-import type { Kysely } from 'kysely'
+import { sql, type Kysely } from 'kysely'
 import type { Database } from '../schema'
 
 /**
@@ -21,15 +21,33 @@ export async function clearTable(
  * Note: Tables are cleared in order to respect foreign key constraints
  */
 export async function clearAllTables(db: Kysely<Database>): Promise<void> {
+  // audit_events rejects row deletes (append-only), but not TRUNCATE
+  await sql`TRUNCATE TABLE audit_events`.execute(db)
+
   // Clear in reverse dependency order
+  await clearTable(db, 'notifications')
+  await clearTable(db, 'grade_criterion_scores')
   await clearTable(db, 'grades')
+  await clearTable(db, 'grade_revisions')
+  await clearTable(db, 'submission_attachments')
+  await clearTable(db, 'submission_versions')
   await clearTable(db, 'submissions')
+  await clearTable(db, 'rubric_levels')
+  await clearTable(db, 'rubric_criteria')
   await clearTable(db, 'assignments')
+  await clearTable(db, 'assignment_categories')
+  await clearTable(db, 'lessons')
+  await clearTable(db, 'class_join_codes')
   await clearTable(db, 'class_students')
+  await clearTable(db, 'class_staff')
   await clearTable(db, 'classes')
   await clearTable(db, 'teacher_group_members')
   await clearTable(db, 'teacher_groups')
   await clearTable(db, 'sessions')
+  await clearTable(db, 'user_permissions')
+  await clearTable(db, 'mfa_recovery_codes')
+  await clearTable(db, 'user_mfa')
+  await clearTable(db, 'mfa_required_roles')
   await clearTable(db, 'oauth_accounts')
   await clearTable(db, 'users')
 }
@@ -104,14 +122,23 @@ export async function truncateAllTables(db: Kysely<Database>): Promise<void> {
   await db.executeQuery({
     sql: `
       TRUNCATE TABLE
+        audit_events,
         grades,
+        grade_revisions,
+        submission_attachments,
         submissions,
         assignments,
+        lessons,
         class_students,
+        class_staff,
         classes,
         teacher_group_members,
         teacher_groups,
         sessions,
+        user_permissions,
+        mfa_recovery_codes,
+        user_mfa,
+        mfa_required_roles,
         oauth_accounts,
         users
       RESTART IDENTITY CASCADE
@@ -27,6 +27,14 @@ export interface ClassFactoryOptions {
   description?: string
 }
 
+/**
+ * Teacher group factory options
+ */
+export interface TeacherGroupFactoryOptions {
+  adminId: string
+  name?: string
+}
+
 /**
  * Assignment factory options
  */
@@ -35,6 +43,24 @@ export interface AssignmentFactoryOptions {
   title?: string
   description?: string
   dueDate?: Date
+  latePolicy?: 'reject' | 'allow' | 'penalty'
+  lateCutoff?: Date
+  latePenaltyPerDay?: number
+  maxPoints?: number
+  categoryId?: string
+}
+
+/**
+ * Lesson factory options
+ */
+export interface LessonFactoryOptions {
+  classId: string
+  title?: string
+  content?: string
+  moduleName?: string
+  modulePosition?: number
+  position?: number
+  status?: 'draft' | 'published'
 }
 
 /**
@@ -47,6 +73,17 @@ export interface SubmissionFactoryOptions {
   fileUrl?: string
 }
 
+/**
+ * Submission attachment factory options
+ */
+export interface SubmissionAttachmentFactoryOptions {
+  submissionId: string
+  filename?: string
+  mimeType?: string
+  sizeBytes?: number
+  storageKey?: string
+}
+
 /**
  * Grade factory options
  */
@@ -208,6 +245,31 @@ export async function enrollStudentsInClass(
     .execute()
 }
 
+/**
+ * Create a test teacher group
+ */
+export async function createTestTeacherGroup(
+  db: Kysely<Database>,
+  options: TeacherGroupFactoryOptions
+): Promise<{ id: string; name: string; adminId: string }> {
+  const name = options.name ?? `Test Group ${Math.random().toString(36).substring(7)}`
+
+  const group = await db
+    .insertInto('teacher_groups')
+    .values({
+      name,
+      admin_id: options.adminId,
+    })
+    .returningAll()
+    .executeTakeFirstOrThrow()
+
+  return {
+    id: group.id,
+    name: group.name,
+    adminId: group.admin_id,
+  }
+}
+
 /**
  * Create a test assignment
  */
@@ -226,6 +288,11 @@ export async function createTestAssignment(
       title,
       description,
       due_date: dueDate,
+      late_policy: options.latePolicy ?? 'reject',
+      late_cutoff: options.lateCutoff ?? null,
+      late_penalty_per_day: options.latePenaltyPerDay ?? 0,
+      max_points: options.maxPoints ?? 100,
+      category_id: options.categoryId ?? null,
     })
     .returningAll()
     .executeTakeFirstOrThrow()
@@ -259,6 +326,39 @@ export async function createTestAssignments(
   return assignments
 }
 
+/**
+ * Create a test lesson
+ */
+export async function createTestLesson(
+  db: Kysely<Database>,
+  options: LessonFactoryOptions
+): Promise<{ id: string; classId: string; title: string; status: 'draft' | 'published' }> {
+  const title = options.title ?? `Test Lesson ${Math.random().toString(36).substring(7)}`
+  const status = options.status ?? 'draft'
+
+  const lesson = await db
+    .insertInto('lessons')
+    .values({
+      class_id: options.classId,
+      title,
+      content: options.content ?? 'Test lesson content',
+      module_name: options.moduleName ?? null,
+      module_position: options.modulePosition ?? 0,
+      position: options.position ?? 0,
+      status,
+      published_at: status === 'published' ? new Date() : null,
+    })
+    .returningAll()
+    .executeTakeFirstOrThrow()
+
+  return {
+    id: lesson.id,
+    classId: lesson.class_id,
+    title: lesson.title,
+    status: lesson.status,
+  }
+}
+
 /**
  * Create a test submission
  */
@@ -311,6 +411,38 @@ export async function createTestSubmissions(
   return submissions
 }
 
+/**
+ * Create a test submission attachment
+ * Only the metadata row is created - nothing is written to storage
+ */
+export async function createTestSubmissionAttachment(
+  db: Kysely<Database>,
+  options: SubmissionAttachmentFactoryOptions
+): Promise<{ id: string; submissionId: string; filename: string; storageKey: string }> {
+  const storageKey =
+    options.storageKey ??
+    `submissions/${options.submissionId}/${Math.random().toString(36).substring(7)}`
+
+  const attachment = await db
+    .insertInto('submission_attachments')
+    .values({
+      submission_id: options.submissionId,
+      filename: options.filename ?? 'test-file.pdf',
+      mime_type: options.mimeType ?? 'application/pdf',
+      size_bytes: options.sizeBytes ?? 1024,
+      storage_key: storageKey,
+    })
+    .returningAll()
+    .executeTakeFirstOrThrow()
+
+  return {
+    id: attachment.id,
+    submissionId: attachment.submission_id,
+    filename: attachment.filename,
+    storageKey: attachment.storage_key,
+  }
+}
+
 /**
  * Create a test grade
  */
@@ -1,5 +1,6 @@
 import type Redis from 'ioredis'
 import { redisTest, connectRedisTest, flushRedis } from '../client/redis'
+import { SessionRepository } from '../repositories/SessionRepository'
 
 /**
  * Clear all Redis data (test database only)
@@ -46,9 +47,8 @@ export async function createTestSession(
   refreshToken: string,
   expiresIn: number = 7 * 24 * 60 * 60 // 7 days
 ): Promise<string> {
-  const sessionKey = `session:${refreshToken}`
-  await redisTest.setex(sessionKey, expiresIn, userId)
-  return sessionKey
+  await new SessionRepository(redisTest).create(userId, refreshToken, expiresIn)
+  return `session:${refreshToken}`
 }
 
 /**
@@ -60,8 +60,8 @@ export async function createTestSession(
 export async function getTestSession(
   refreshToken: string
 ): Promise<string | null> {
-  const sessionKey = `session:${refreshToken}`
-  return await redisTest.get(sessionKey)
+  const session = await new SessionRepository(redisTest).get(refreshToken)
+  return session?.userId ?? null
 }
 
 /**
@@ -70,8 +70,7 @@ export async function getTestSession(
  * @param refreshToken - Refresh token to delete
  */
 export async function deleteTestSession(refreshToken: string): Promise<void> {
-  const sessionKey = `session:${refreshToken}`
-  await redisTest.del(sessionKey)
+  await new SessionRepository(redisTest).delete(refreshToken)
 }
 
 /**
@@ -8,18 +8,167 @@ import type {
   SubmissionUpdate,
   Grade,
   GradeUpdate,
+  GradeRevisionWithTeacher,
+  NewGradeRevision,
   GradeWithAssignment,
+  GradeCriterionScoreDetail,
+  AssignmentCategory,
+  ClassGradeRow,
+  ClassStudent,
+  RubricCriterionWithLevels,
+  RubricCriterionInput,
+  SubmissionVersion,
 } from '@concentrate/database'
 import {
   AssignmentRepository,
+  AssignmentCategoryRepository,
   ClassRepository,
+  ClassStaffRepository,
+  GradeRevisionRepository,
+  RubricRepository,
+  SubmissionVersionRepository,
+  UserRepository,
+  redis,
 } from '@concentrate/database'
 import {
   NotFoundError,
   ForbiddenError,
   InvalidStateError,
   ValidationError,
+  diffLines,
+  parseCsv,
+  toCsv,
 } from '@concentrate/shared'
+import type { DiffLine } from '@concentrate/shared'
+import type { Mailer } from './mail'
+import { NotificationService } from './NotificationService'
+import { EventPublisher } from './realtime'
+import { AuditService, gradeSnapshot } from './AuditService'
+import { assertClassStaff, hasClassStaffPermission } from './classStaff'
+
+/**
+ * Weighted course grade of one student in a class
+ * - Percentages are 0-100 rounded to two decimals, null when nothing is graded yet
+ */
+export interface CourseGrade {
+  classId: string
+  studentId: string
+  courseGrade: number | null
+  categories: Array<{
+    categoryId: string | null
+    name: string
+    weight: number
+    pointsEarned: number
+    pointsPossible: number
+    percent: number | null
+  }>
+}
+
+/**
+ * Gradebook cell status of one student on one assignment
+ * - missing: not submitted and past the due date; pending: not submitted, not yet due
+ */
+export type GradebookStatus = 'submitted' | 'late' | 'missing' | 'pending'
+
+export interface GradebookCell {
+  assignmentId: string
+  submissionId: string | null
+  status: GradebookStatus
+  grade: number | null
+  latePenalty: number
+}
+
+/**
+ * Students x assignments grade matrix of a class
+ * - Cells follow the order of assignments (earliest due first)
+ */
+export interface Gradebook {
+  classId: string
+  assignments: Assignment[]
+  rows: Array<{
+    student: ClassStudent
+    courseGrade: number | null
+    cells: GradebookCell[]
+  }>
+}
+
+/**
+ * Outcome of one CSV row in a grade import
+ * - skipped: blank grade, left untouched; every status other than ok and skipped
+ *   is an error that blocks the import
+ */
+export type GradeImportStatus =
+  | 'ok'
+  | 'skipped'
+  | 'invalid_grade'
+  | 'out_of_range'
+  | 'unknown_student'
+  | 'duplicate_student'
+  | 'missing_submission'
+
+export interface GradeImportRow {
+  line: number
+  email: string
+  grade: number | null
+  feedback: string | null
+  status: GradeImportStatus
+}
+
+/**
+ * Grade CSV import report
+ * - imported is 0 on a dry run
+ */
+export interface GradeImportResult {
+  dryRun: boolean
+  rows: GradeImportRow[]
+  errorCount: number
+  imported: number
+}
+
+/**
+ * A student's view of one of their submissions
+ * - Grade and rubric breakdown are withheld while the assignment's grades are unreleased
+ */
+export interface StudentGrade extends GradeWithAssignment {
+  pendingRelease: boolean
+}
+
+/**
+ * Evaluate a submission time against the assignment late policy
+ * - Penalty is late_penalty_per_day for every started day past the due date, capped at 100
+ * @param assignment - Assignment being submitted
+ * @param submittedAt - Submission time
+ * @returns Late flag and penalty percent
+ * @throws InvalidStateError if late and the policy rejects it or the late cutoff has passed
+ */
+export function evaluateLateness(
+  assignment: Assignment,
+  submittedAt: Date
+): { is_late: boolean; late_penalty: number } {
+  if (submittedAt <= assignment.due_date) {
+    return { is_late: false, late_penalty: 0 }
+  }
+
+  if (assignment.late_policy === 'reject') {
+    throw new InvalidStateError('Cannot submit assignment after due date')
+  }
+
+  if (assignment.late_cutoff && submittedAt > assignment.late_cutoff) {
+    throw new InvalidStateError('Cannot submit assignment after late cutoff')
+  }
+
+  if (assignment.late_policy === 'allow') {
+    return { is_late: true, late_penalty: 0 }
+  }
+
+  const daysLate = Math.ceil(
+    (submittedAt.getTime() - assignment.due_date.getTime()) / (24 * 60 * 60 * 1000)
+  )
+  return {
+    is_late: true,
+    late_penalty: Math.min(100, daysLate * assignment.late_penalty_per_day),
+  }
+}
 
 /**
  * AssignmentService - Business logic for assignment, submission, and grading management
@@ -27,37 +176,95 @@ import {
  * Responsibilities:
  * - Assignment CRUD with teacher ownership validation
  * - Submission management with due date enforcement
+ * - Submission version history and return for revision
+ * - Rubric management and rubric-based grading
  * - Grading operations with permission checks
+ * - Grade release: grades stay hidden from students until the teacher releases them
+ * - Weighted assignment categories and course grade calculation
+ * - Class gradebook (students x assignments matrix)
+ * - Grade CSV export (gradebook, assignment) and import with dry-run preview
  * - Assignment queries (upcoming, overdue, by class/teacher/student)
  *
  * Business Rules:
  * - Only class teacher can create/manage assignments
  * - Student must be enrolled to submit assignments
- * - Cannot submit after due date (configurable)
+ * - Late submissions follow the assignment late policy:
+ *   reject (default), allow, or penalty (percent per started day late, capped at 100)
+ * - Late submissions are never accepted after the late cutoff, if one is set
+ * - Late cutoff must be after the due date
  * - Cannot update submission after grading
+ * - Every submit and update is stored as an immutable, numbered version
+ * - Class teacher can return a graded submission for revision; the grade is moved
+ *   onto the returned version and the submission reopens for updates
+ * - Only the submitting student and the class teacher can view versions
  * - Only assignment owner can update submission
  * - Only class teacher can grade submissions
- * - Grade must be 0-100
+ * - Grade is points out of the assignment max points (default 100)
+ * - Every change to a posted grade is kept as a revision with the previous values,
+ *   the teacher and a reason, which is required once the grades are released
+ * - Category weights of a class add up to at most 100; uncategorized assignments
+ *   share the remaining weight (all of it when the class has no categories)
+ * - Course grade is the weighted mean of category percentages, renormalized over
+ *   categories that have graded work; late penalties reduce the points earned
+ * - Assignment category must belong to the assignment's class
+ * - Rubric grades need exactly one level per criterion; the grade is the share
+ *   of the rubric's maximum points scaled to max points, rounded to two decimals
+ * - Rubric cannot be replaced or removed once grades were given with it
+ * - Changing a rubric grade by hand clears its criterion scores
+ * - Enrolled students can view the rubric of an assignment
  * - Cannot delete assignment with graded submissions
+ * - Grade CSV imports match rows to enrolled students by email and are applied
+ *   only when no row has an error; blank grades are skipped
+ * - Enrolled students are notified in-app of new assignments
+ * - Students see an assignment's grades only once the teacher releases them;
+ *   until then a graded submission shows as pending release
+ * - Students are notified in-app and emailed (when a mailer is configured) when
+ *   their grade is released, and when a released grade is posted or changed;
+ *   a failed email never undoes the grade
+ * - Live updates: the class teacher hears of new and updated submissions, the
+ *   student of released, posted and changed grades
+ * - Posted and changed grades are recorded in the audit log
  */
 export class AssignmentService {
   private assignmentRepository: AssignmentRepository
   private classRepository: ClassRepository
-
-  constructor(db: Kysely<Database> | Transaction<Database>) {
+  private classStaffRepository: ClassStaffRepository
+  private versionRepository: SubmissionVersionRepository
+  private gradeRevisionRepository: GradeRevisionRepository
+  private rubricRepository: RubricRepository
+  private categoryRepository: AssignmentCategoryRepository
+  private userRepository: UserRepository
+  private notificationService: NotificationService
+  private events: EventPublisher
+  private auditService: AuditService
+  private mailer: Mailer | null
+
+  constructor(db: Kysely<Database> | Transaction<Database>, mailer?: Mailer) {
     this.assignmentRepository = new AssignmentRepository(db)
+    this.categoryRepository = new AssignmentCategoryRepository(db)
     this.classRepository = new ClassRepository(db)
+    this.classStaffRepository = new ClassStaffRepository(db)
+    this.versionRepository = new SubmissionVersionRepository(db)
+    this.gradeRevisionRepository = new GradeRevisionRepository(db)
+    this.rubricRepository = new RubricRepository(db)
+    this.userRepository = new UserRepository(db)
+    this.notificationService = new NotificationService(db)
+    this.events = new EventPublisher(redis)
+    this.auditService = new AuditService(db)
+    this.mailer = mailer ?? null
   }
 
   /**
    * Create assignment
    * - Validates class exists and teacher ownership
+   * - Notifies enrolled students
    * @param classId - Class ID
    * @param teacherId - Teacher ID
    * @param data - Assignment data
    * @returns Created assignment
    * @throws NotFoundError if class not found
    * @throws ForbiddenError if not the class teacher
+   * @throws ValidationError if late cutoff is not after the due date or category is from another class
    */
   async createAssignment(
     classId: string,
@@ -70,9 +277,16 @@ export class AssignmentService {
       throw new NotFoundError('Class not found')
     }
 
-    if (classRecord.teacher_id !== teacherId) {
-      throw new ForbiddenError('You can only create assignments for your own classes')
-    }
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'assignments:create',
+      'You can only create assignments for your own classes'
+    )
+
+    this.validateLateCutoff(data.due_date, data.late_cutoff)
+    await this.validateCategory(classId, data.category_id)
 
     const assignmentData: NewAssignment = {
       ...data,
@@ -80,6 +294,14 @@ export class AssignmentService {
     }
 
     const assignment = await this.assignmentRepository.create(assignmentData)
+
+    const studentIds = await this.classRepository.getEnrolledStudents(classId)
+    await this.notificationService.notifyAssignmentCreated(
+      assignment,
+      classRecord.name,
+      studentIds
+    )
+
     return assignment
   }
 
@@ -106,6 +328,7 @@ export class AssignmentService {
    * @returns Updated assignment
    * @throws NotFoundError if assignment or class not found
    * @throws ForbiddenError if not the class teacher
+   * @throws ValidationError if late cutoff is not after the due date or category is from another class
    */
   async updateAssignment(
     id: string,
@@ -120,9 +343,19 @@ export class AssignmentService {
       throw new NotFoundError('Class not found')
     }
 
-    if (classRecord.teacher_id !== teacherId) {
-      throw new ForbiddenError('You can only update assignments for your own classes')
-    }
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'assignments:update_own',
+      'You can only update assignments for your own classes'
+    )
+
+    this.validateLateCutoff(
+      updates.due_date ?? assignment.due_date,
+      updates.late_cutoff !== undefined ? updates.late_cutoff : assignment.late_cutoff
+    )
+    await this.validateCategory(assignment.class_id, updates.category_id)
 
     const updatedAssignment = await this.assignmentRepository.update(id, updates)
     return updatedAssignment
@@ -147,9 +380,13 @@ export class AssignmentService {
       throw new NotFoundError('Class not found')
     }
 
-    if (classRecord.teacher_id !== teacherId) {
-      throw new ForbiddenError('You can only delete assignments for your own classes')
-    }
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'assignments:delete_own',
+      'You can only delete assignments for your own classes'
+    )
 
     // Check for graded submissions
     const submissions = await this.assignmentRepository.getSubmissionsByAssignment(id)
@@ -182,6 +419,18 @@ export class AssignmentService {
     return this.assignmentRepository.findByClass(classId, options)
   }
 
+  /**
+   * Get all assignments with pagination
+   * @param options - Pagination options
+   * @returns List of assignments across all classes
+   */
+  async getAllAssignments(options?: {
+    page?: number
+    limit?: number
+  }): Promise<Assignment[]> {
+    return this.assignmentRepository.findAll(options)
+  }
+
   /**
    * Get assignments by teacher
    * @param teacherId - Teacher ID
@@ -233,6 +482,8 @@ export class AssignmentService {
    * - Validates student enrollment
    * - Checks due date
    * - Prevents duplicate submissions
+   * - Flags late submissions and computes the late penalty
+   * - Stores the content as version 1
    * @param assignmentId - Assignment ID
    * @param studentId - Student ID
    * @param content - Submission content
@@ -240,7 +491,7 @@ export class AssignmentService {
    * @returns Created submission
    * @throws NotFoundError if assignment not found
    * @throws ForbiddenError if student not enrolled
-   * @throws InvalidStateError if past due date or already submitted
+   * @throws InvalidStateError if already submitted, or late and not accepted by the late policy
    */
   async submitAssignment(
     assignmentId: string,
@@ -268,19 +519,21 @@ export class AssignmentService {
       throw new InvalidStateError('Assignment already submitted')
     }
 
-    // Check due date
-    const now = new Date()
-    if (assignment.due_date && now > assignment.due_date) {
-      throw new InvalidStateError('Cannot submit assignment after due date')
-    }
+    // Apply late policy
+    const late = evaluateLateness(assignment, new Date())
 
     const submission = await this.assignmentRepository.submitAssignment(
       assignmentId,
       studentId,
       content,
-      fileUrl
+      fileUrl,
+      late
     )
 
+    await this.versionRepository.create(submission.id, submission.content, submission.file_url)
+
+    await this.publishSubmissionEvent('submission_created', assignment, submission)
+
     return submission
   }
 
@@ -288,13 +541,16 @@ export class AssignmentService {
    * Update submission
    * - Validates ownership
    * - Prevents update after grading
+   * - Re-applies the late policy at edit time and recomputes the late penalty,
+   *   except for revisions of a returned submission
+   * - Stores the updated content as a new version and clears the returned state
    * @param assignmentId - Assignment ID
    * @param studentId - Student ID
    * @param updates - Submission updates
    * @returns Updated submission
-   * @throws NotFoundError if submission not found
+   * @throws NotFoundError if assignment or submission not found
    * @throws ForbiddenError if not the submission owner
-   * @throws InvalidStateError if submission already graded
+   * @throws InvalidStateError if submission already graded, or late and not accepted by the late policy
    */
   async updateSubmission(
     assignmentId: string,
@@ -320,14 +576,130 @@ export class AssignmentService {
       throw new InvalidStateError('Cannot update submission after grading')
     }
 
+    // Apply late policy to the edit, since it replaces the submitted content.
+    // Revisions the teacher asked for keep the lateness of the original submission
+    const assignment = await this.getAssignmentById(assignmentId)
+    const late = submission.returned_at ? {} : evaluateLateness(assignment, new Date())
+
     const updatedSubmission = await this.assignmentRepository.updateSubmission(
       submission.id,
-      updates
+      { ...updates, ...late, returned_at: null }
+    )
+
+    await this.versionRepository.create(
+      updatedSubmission.id,
+      updatedSubmission.content,
+      updatedSubmission.file_url
     )
 
+    await this.publishSubmissionEvent('submission_updated', assignment, updatedSubmission)
+
     return updatedSubmission
   }
 
+  /**
+   * Return a graded submission to the student for revision
+   * - Validates teacher ownership
+   * - Snapshots grade and feedback onto the latest version, then removes the grade
+   * - The removed grade is recorded in the audit log
+   * @param submissionId - Submission ID
+   * @param teacherId - Teacher ID
+   * @returns Reopened submission
+   * @throws NotFoundError if submission, assignment or class not found
+   * @throws ForbiddenError if not the class teacher
+   * @throws InvalidStateError if submission is not graded
+   */
+  async returnSubmissionForRevision(
+    submissionId: string,
+    teacherId: string
+  ): Promise<Submission> {
+    const submission = await this.assignmentRepository.getSubmissionById(submissionId)
+    if (!submission) {
+      throw new NotFoundError('Submission')
+    }
+
+    const assignment = await this.getAssignmentById(submission.assignment_id)
+    const classRecord = await this.classRepository.findById(assignment.class_id)
+    if (!classRecord) {
+      throw new NotFoundError('Class not found')
+    }
+
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'grades:update_own',
+      'You can only return submissions for your own classes'
+    )
+
+    const grade = await this.assignmentRepository.getGrade(submission.id)
+    if (!grade) {
+      throw new InvalidStateError('Only graded submissions can be returned for revision')
+    }
+
+    // Submissions created before versioning may have no version yet
+    const version =
+      (await this.versionRepository.findLatest(submission.id)) ??
+      (await this.versionRepository.create(submission.id, submission.content, submission.file_url))
+
+    await this.versionRepository.markReturned(version.id, grade.grade, grade.feedback)
+    await this.auditService.record(
+      teacherId,
+      'grade_returned',
+      { type: 'submission', id: submission.id },
+      gradeSnapshot(grade),
+      null
+    )
+    await this.assignmentRepository.deleteGrade(grade.id)
+
+    return this.assignmentRepository.updateSubmission(submission.id, {
+      returned_at: new Date(),
+    })
+  }
+
+  /**
+   * Get version history of a submission
+   * @param submissionId - Submission ID
+   * @param userId - Requesting user ID (student owner or class teacher)
+   * @returns Versions ordered by version number
+   * @throws NotFoundError if submission not found
+   * @throws ForbiddenError if user may not view the submission
+   */
+  async getSubmissionVersions(
+    submissionId: string,
+    userId: string
+  ): Promise<SubmissionVersion[]> {
+    const submission = await this.getSubmissionForViewer(submissionId, userId)
+    return this.versionRepository.findBySubmission(submission.id)
+  }
+
+  /**
+   * Diff two versions of a submission
+   * @param submissionId - Submission ID
+   * @param userId - Requesting user ID (student owner or class teacher)
+   * @param fromVersion - Older version number
+   * @param toVersion - Newer version number
+   * @returns Both versions and the line changes between their contents
+   * @throws NotFoundError if submission or either version not found
+   * @throws ForbiddenError if user may not view the submission
+   */
+  async diffSubmissionVersions(
+    submissionId: string,
+    userId: string,
+    fromVersion: number,
+    toVersion: number
+  ): Promise<{ from: SubmissionVersion; to: SubmissionVersion; changes: DiffLine[] }> {
+    const submission = await this.getSubmissionForViewer(submissionId, userId)
+
+    const from = await this.versionRepository.findByNumber(submission.id, fromVersion)
+    const to = await this.versionRepository.findByNumber(submission.id, toVersion)
+    if (!from || !to) {
+      throw new NotFoundError('Submission version')
+    }
+
+    return { from, to, changes: diffLines(from.content, to.content) }
+  }
+
   /**
    * Get submission
    * @param assignmentId - Assignment ID
@@ -362,9 +734,13 @@ export class AssignmentService {
       throw new NotFoundError('Class not found')
     }
 
-    if (classRecord.teacher_id !== teacherId) {
-      throw new ForbiddenError('You can only view submissions for your own classes')
-    }
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'submissions:read_class',
+      'You can only view submissions for your own classes'
+    )
 
     return this.assignmentRepository.getSubmissionsByAssignment(assignmentId)
   }
@@ -381,29 +757,28 @@ export class AssignmentService {
   /**
    * Grade submission
    * - Validates teacher ownership
-   * - Validates grade range (0-100)
+   * - Validates grade range (0 to assignment max points)
+   * - Notifies the student once the assignment's grades are released
+   * - Regrading an already graded submission updates its grade as a revision
    * @param assignmentId - Assignment ID
    * @param studentId - Student ID
    * @param teacherId - Teacher ID
-   * @param grade - Grade value (0-100)
+   * @param grade - Points earned (0 to max points)
    * @param feedback - Optional feedback
-   * @returns Created grade
+   * @param reason - Reason for the change, required when regrading a released grade
+   * @returns Created or updated grade
    * @throws NotFoundError if submission or assignment not found
    * @throws ForbiddenError if not the class teacher
-   * @throws ValidationError if grade out of range
+   * @throws ValidationError if grade out of range, or regrading a released grade without a reason
    */
   async gradeSubmission(
     assignmentId: string,
     studentId: string,
     teacherId: string,
     grade: number,
-    feedback?: string
+    feedback?: string,
+    reason?: string
   ): Promise<Grade> {
-    // Validate grade range
-    if (grade < 0 || grade > 100) {
-      throw new ValidationError('Grade must be between 0 and 100')
-    }
-
     const submission = await this.assignmentRepository.getSubmission(
       assignmentId,
       studentId
@@ -420,8 +795,24 @@ export class AssignmentService {
       throw new NotFoundError('Class not found')
     }
 
-    if (classRecord.teacher_id !== teacherId) {
-      throw new ForbiddenError('You can only grade submissions for your own classes')
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'grades:create',
+      'You can only grade submissions for your own classes'
+    )
+
+    this.validateGradeRange(grade, assignment)
+
+    if (await this.assignmentRepository.getGrade(submission.id)) {
+      return this.updateGrade(
+        assignmentId,
+        studentId,
+        teacherId,
+        { grade, ...(feedback !== undefined && { feedback }) },
+        reason
+      )
     }
 
     const gradeRecord = await this.assignmentRepository.gradeSubmission(
@@ -431,37 +822,128 @@ export class AssignmentService {
       feedback
     )
 
+    await this.auditService.record(
+      teacherId,
+      'grade_posted',
+      { type: 'submission', id: submission.id },
+      null,
+      gradeSnapshot(gradeRecord)
+    )
+
+    await this.announceGradePosted(
+      assignment,
+      classRecord.name,
+      studentId,
+      submission.id,
+      grade
+    )
+
     return gradeRecord
   }
 
+  /**
+   * Grade submission with the assignment rubric
+   * - Validates every criterion is scored exactly once with one of its own levels
+   * - Computes the grade server-side as the share of maximum rubric points, scaled to max points
+   * @param assignmentId - Assignment ID
+   * @param studentId - Student ID
+   * @param teacherId - Teacher ID
+   * @param scores - Chosen level (and optional comment) per criterion
+   * @param feedback - Optional overall feedback
+   * @param reason - Reason for the change, required when regrading a released grade
+   * @returns Created or updated grade and its criterion scores
+   * @throws NotFoundError if submission or assignment not found
+   * @throws ForbiddenError if not the class teacher
+   * @throws InvalidStateError if the assignment has no rubric
+   * @throws ValidationError if scores do not match the rubric, or regrading a released grade
+   *   without a reason
+   */
+  async gradeSubmissionWithRubric(
+    assignmentId: string,
+    studentId: string,
+    teacherId: string,
+    scores: Array<{ criterionId: string; levelId: string; comment?: string }>,
+    feedback?: string,
+    reason?: string
+  ): Promise<{ grade: Grade; rubricScores: GradeCriterionScoreDetail[] }> {
+    const rubric = await this.rubricRepository.findByAssignment(assignmentId)
+    if (rubric.length === 0) {
+      throw new InvalidStateError('Assignment has no rubric')
+    }
+
+    const scoresByCriterion = new Map(scores.map((score) => [score.criterionId, score]))
+    if (scoresByCriterion.size !== scores.length) {
+      throw new ValidationError('Each criterion can only be scored once')
+    }
+
+    let earned = 0
+    let possible = 0
+    const rows = rubric.map((criterion) => {
+      const score = scoresByCriterion.get(criterion.id)
+      if (!score) {
+        throw new ValidationError(`Criterion "${criterion.title}" must be scored`)
+      }
+      const level = criterion.levels.find((l) => l.id === score.levelId)
+      if (!level) {
+        throw new ValidationError(
+          `Level does not belong to criterion "${criterion.title}"`
+        )
+      }
+      earned += Number(level.points)
+      possible += Math.max(...criterion.levels.map((l) => Number(l.points)))
+      return {
+        criterionId: criterion.id,
+        levelId: level.id,
+        points: level.points,
+        comment: score.comment ?? null,
+      }
+    })
+
+    if (scores.length !== rubric.length) {
+      throw new ValidationError('Scores reference criteria outside the rubric')
+    }
+
+    const assignment = await this.getAssignmentById(assignmentId)
+    const points =
+      possible === 0 ? 0 : Math.round((earned / possible) * assignment.max_points * 100) / 100
+
+    const grade = await this.gradeSubmission(
+      assignmentId,
+      studentId,
+      teacherId,
+      points,
+      feedback,
+      reason
+    )
+    await this.rubricRepository.saveScores(grade.id, rows)
+    const rubricScores = await this.rubricRepository.findScoresByGrade(grade.id)
+
+    return { grade, rubricScores }
+  }
+
   /**
    * Update grade
    * - Validates teacher ownership
-   * - Validates grade range if grade is updated
+   * - Validates grade range (0 to assignment max points) if grade is updated
+   * - Keeps the previous grade and feedback as a revision; a no-op update writes nothing
+   * - Tells the student only once the assignment's grades are released
    * @param assignmentId - Assignment ID
    * @param studentId - Student ID
    * @param teacherId - Teacher ID
    * @param updates - Grade updates
+   * @param reason - Reason for the change, required once the grades are released
    * @returns Updated grade
    * @throws NotFoundError if grade, submission, or assignment not found
    * @throws ForbiddenError if not the class teacher
-   * @throws ValidationError if grade out of range
+   * @throws ValidationError if grade out of range or a released grade changes without a reason
    */
   async updateGrade(
     assignmentId: string,
     studentId: string,
     teacherId: string,
-    updates: GradeUpdate
+    updates: GradeUpdate,
+    reason?: string
   ): Promise<Grade> {
-    // Validate grade range if being updated
-    if (updates.grade !== undefined) {
-      const gradeValue =
-        typeof updates.grade === 'string' ? parseFloat(updates.grade) : updates.grade
-      if (gradeValue < 0 || gradeValue > 100) {
-        throw new ValidationError('Grade must be between 0 and 100')
-      }
-    }
-
     const submission = await this.assignmentRepository.getSubmission(
       assignmentId,
       studentId
@@ -483,22 +965,172 @@ export class AssignmentService {
       throw new NotFoundError('Class not found')
     }
 
-    if (classRecord.teacher_id !== teacherId) {
-      throw new ForbiddenError('You can only update grades for your own classes')
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'grades:update_own',
+      'You can only update grades for your own classes'
+    )
+
+    if (updates.grade !== undefined) {
+      const gradeValue =
+        typeof updates.grade === 'string' ? parseFloat(updates.grade) : updates.grade
+      this.validateGradeRange(gradeValue, assignment)
+    }
+
+    const gradeChanged =
+      updates.grade !== undefined && Number(updates.grade) !== Number(grade.grade)
+    const feedbackChanged =
+      updates.feedback !== undefined && (updates.feedback ?? null) !== grade.feedback
+    if (!gradeChanged && !feedbackChanged) {
+      return grade
     }
 
+    const revisionReason = this.resolveRevisionReason(
+      assignment.grades_released_at !== null,
+      reason
+    )
+
     const updatedGrade = await this.assignmentRepository.updateGrade(grade.id, updates)
+
+    await this.gradeRevisionRepository.create({
+      submission_id: submission.id,
+      teacher_id: teacherId,
+      previous_grade: grade.grade,
+      previous_feedback: grade.feedback,
+      grade: updatedGrade.grade,
+      feedback: updatedGrade.feedback,
+      reason: revisionReason,
+    })
+
+    await this.auditService.record(
+      teacherId,
+      'grade_updated',
+      { type: 'submission', id: submission.id },
+      gradeSnapshot(grade),
+      { ...gradeSnapshot(updatedGrade), reason: revisionReason }
+    )
+
+    // A hand-entered grade no longer matches the rubric breakdown
+    if (gradeChanged) {
+      await this.rubricRepository.saveScores(grade.id, [])
+    }
+
+    if (assignment.grades_released_at) {
+      await this.events.publish(studentId, {
+        type: 'grade_updated',
+        assignmentId,
+        submissionId: submission.id,
+      })
+    }
+
     return updatedGrade
   }
 
+  /**
+   * Get the revision history of a submission's grade
+   * @param submissionId - Submission ID
+   * @param teacherId - Teacher ID
+   * @returns Revisions with previous and new values, newest first
+   * @throws NotFoundError if submission, assignment or class not found
+   * @throws ForbiddenError if not the class teacher
+   */
+  async getGradeRevisions(
+    submissionId: string,
+    teacherId: string
+  ): Promise<GradeRevisionWithTeacher[]> {
+    const submission = await this.assignmentRepository.getSubmissionById(submissionId)
+    if (!submission) {
+      throw new NotFoundError('Submission')
+    }
+
+    const assignment = await this.getAssignmentById(submission.assignment_id)
+    const classRecord = await this.classRepository.findById(assignment.class_id)
+    if (!classRecord) {
+      throw new NotFoundError('Class not found')
+    }
+
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'grades:read_class',
+      'You can only view grade history for your own classes'
+    )
+
+    return this.gradeRevisionRepository.findBySubmission(submission.id)
+  }
+
+  /**
+   * Release an assignment's grades to students
+   * - Validates teacher ownership
+   * - Every student with a grade is notified as if it had just been posted
+   * - Grades posted after the release are visible and announced right away
+   * @param assignmentId - Assignment ID
+   * @param teacherId - Teacher ID
+   * @returns Released assignment
+   * @throws NotFoundError if assignment or class not found
+   * @throws ForbiddenError if not the class teacher
+   * @throws InvalidStateError if the grades are already released
+   */
+  async releaseGrades(assignmentId: string, teacherId: string): Promise<Assignment> {
+    const assignment = await this.getAssignmentById(assignmentId)
+
+    const classRecord = await this.classRepository.findById(assignment.class_id)
+    if (!classRecord) {
+      throw new NotFoundError('Class not found')
+    }
+
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'assignments:update_own',
+      'You can only release grades for your own classes'
+    )
+
+    if (assignment.grades_released_at) {
+      throw new InvalidStateError('Grades are already released')
+    }
+
+    const released = await this.assignmentRepository.update(assignmentId, {
+      grades_released_at: new Date(),
+    })
+
+    const [submissions, grades] = await Promise.all([
+      this.assignmentRepository.getSubmissionsByAssignment(assignmentId),
+      this.assignmentRepository.getGradesByAssignment(assignmentId),
+    ])
+    const studentBySubmission = new Map(submissions.map((s) => [s.id, s.student_id]))
+
+    for (const grade of grades) {
+      const studentId = studentBySubmission.get(grade.submission_id)
+      if (studentId) {
+        await this.announceGradePosted(
+          released,
+          classRecord.name,
+          studentId,
+          grade.submission_id,
+          Number(grade.grade)
+        )
+      }
+    }
+
+    return released
+  }
+
   /**
    * Bulk grade submissions
    * - Validates all submissions belong to teacher's classes
-   * - Validates all grade ranges
+   * - Validates all grade ranges against each assignment's max points
+   * - Replaces existing grades; a changed grade clears its rubric breakdown
+   * - Changed grades are kept as revisions sharing one reason
    * @param grades - Array of grade data
    * @param teacherId - Teacher ID
+   * @param reason - Reason for the changes, required when any released grade changes
    * @returns Number of submissions graded
-   * @throws ValidationError if any grade out of range
+   * @throws ValidationError if any grade out of range, or released grades change without a reason
    * @throws ForbiddenError if not the class teacher for any submission
    */
   async bulkGradeSubmissions(
@@ -508,16 +1140,17 @@ export class AssignmentService {
       grade: number
       feedback?: string
     }>,
-    teacherId: string
+    teacherId: string,
+    reason?: string
   ): Promise<number> {
     if (grades.length === 0) {
       return 0
     }
 
-    // Validate all grade ranges
+    // Reject negative grades before touching the database
     for (const gradeData of grades) {
-      if (gradeData.grade < 0 || gradeData.grade > 100) {
-        throw new ValidationError('All grades must be between 0 and 100')
+      if (gradeData.grade < 0) {
+        throw new ValidationError('All grades must be at least 0')
       }
     }
 
@@ -528,6 +1161,17 @@ export class AssignmentService {
       grade: number
       feedback?: string
     }> = []
+    const regradedIds: string[] = []
+    const revisions: NewGradeRevision[] = []
+    let changesReleasedGrade = false
+    const posted: Array<{
+      assignment: Assignment
+      className: string
+      studentId: string
+      submissionId: string
+      grade: number
+      previous: Grade | null
+    }> = []
 
     for (const gradeData of grades) {
       const submission = await this.assignmentRepository.getSubmission(
@@ -546,10 +1190,45 @@ export class AssignmentService {
         throw new NotFoundError('Class not found')
       }
 
-      if (classRecord.teacher_id !== teacherId) {
-        throw new ForbiddenError(
-          'You can only grade submissions for your own classes'
-        )
+      await assertClassStaff(
+        this.classStaffRepository,
+        classRecord,
+        teacherId,
+        'grades:update_own',
+        'You can only grade submissions for your own classes'
+      )
+
+      this.validateGradeRange(gradeData.grade, assignment)
+
+      const existingGrade = await this.assignmentRepository.getGrade(submission.id)
+      if (existingGrade && Number(existingGrade.grade) !== gradeData.grade) {
+        regradedIds.push(existingGrade.id)
+      }
+      // Feedback is kept when none is given, as in the bulk write
+      const newFeedback = gradeData.feedback ?? existingGrade?.feedback ?? null
+      if (
+        existingGrade &&
+        (Number(existingGrade.grade) !== gradeData.grade || newFeedback !== existingGrade.feedback)
+      ) {
+        revisions.push({
+          submission_id: submission.id,
+          teacher_id: teacherId,
+          previous_grade: existingGrade.grade,
+          previous_feedback: existingGrade.feedback,
+          grade: gradeData.grade,
+          feedback: newFeedback,
+        })
+        changesReleasedGrade ||= assignment.grades_released_at !== null
+      }
+      if (!existingGrade || Number(existingGrade.grade) !== gradeData.grade) {
+        posted.push({
+          assignment,
+          className: classRecord.name,
+          studentId: gradeData.studentId,
+          submissionId: submission.id,
+          grade: gradeData.grade,
+          previous: existingGrade,
+        })
       }
 
       submissionRecords.push({
@@ -560,20 +1239,630 @@ export class AssignmentService {
       })
     }
 
+    const revisionReason = this.resolveRevisionReason(changesReleasedGrade, reason)
+
     // Bulk grade
-    const count = await this.assignmentRepository.bulkGradeSubmissions(submissionRecords)
-    return count
+    const saved = await this.assignmentRepository.bulkGradeSubmissions(submissionRecords)
+
+    for (const revision of revisions) {
+      await this.gradeRevisionRepository.create({ ...revision, reason: revisionReason })
+    }
+
+    // A hand-entered grade no longer matches the rubric breakdown
+    for (const gradeId of regradedIds) {
+      await this.rubricRepository.saveScores(gradeId, [])
+    }
+
+    for (const notice of posted) {
+      // The saved row carries the feedback kept from the previous grade
+      const savedGrade = saved.find((g) => g.submission_id === notice.submissionId)
+      await this.auditService.record(
+        teacherId,
+        notice.previous ? 'grade_updated' : 'grade_posted',
+        { type: 'submission', id: notice.submissionId },
+        notice.previous && gradeSnapshot(notice.previous),
+        savedGrade
+          ? {
+              ...gradeSnapshot(savedGrade),
+              ...(notice.previous && { reason: revisionReason }),
+            }
+          : null
+      )
+      await this.announceGradePosted(
+        notice.assignment,
+        notice.className,
+        notice.studentId,
+        notice.submissionId,
+        notice.grade
+      )
+    }
+
+    return saved.length
   }
 
+  // ==================== Rubric Methods ====================
+
   /**
-   * Get grade for submission
+   * Get assignment rubric
+   * - Class teacher and enrolled students can view
    * @param assignmentId - Assignment ID
-   * @param studentId - Student ID
-   * @returns Grade if found, null otherwise
+   * @param userId - Viewing user ID
+   * @returns Criteria with levels, empty if the assignment has no rubric
+   * @throws NotFoundError if assignment or class not found
+   * @throws ForbiddenError if neither class teacher nor enrolled student
    */
-  async getGrade(assignmentId: string, studentId: string): Promise<Grade | null> {
-    const submission = await this.assignmentRepository.getSubmission(
-      assignmentId,
+  async getRubric(
+    assignmentId: string,
+    userId: string
+  ): Promise<RubricCriterionWithLevels[]> {
+    const assignment = await this.getAssignmentById(assignmentId)
+
+    const classRecord = await this.classRepository.findById(assignment.class_id)
+    if (!classRecord) {
+      throw new NotFoundError('Class not found')
+    }
+
+    const isStaff = await hasClassStaffPermission(
+      this.classStaffRepository,
+      classRecord,
+      userId,
+      'submissions:read_class'
+    )
+    if (!isStaff) {
+      const isEnrolled = await this.classRepository.isStudentEnrolled(
+        assignment.class_id,
+        userId
+      )
+      if (!isEnrolled) {
+        throw new ForbiddenError('You do not have access to this assignment')
+      }
+    }
+
+    return this.rubricRepository.findByAssignment(assignmentId)
+  }
+
+  /**
+   * Replace assignment rubric
+   * - Validates teacher ownership
+   * - Blocked once grades were given with the current rubric
+   * @param assignmentId - Assignment ID
+   * @param teacherId - Teacher ID
+   * @param criteria - Criteria with levels, in display order
+   * @returns Stored rubric
+   * @throws NotFoundError if assignment or class not found
+   * @throws ForbiddenError if not the class teacher
+   * @throws InvalidStateError if rubric grades exist
+   * @throws ValidationError if no level is worth any points
+   */
+  async setRubric(
+    assignmentId: string,
+    teacherId: string,
+    criteria: RubricCriterionInput[]
+  ): Promise<RubricCriterionWithLevels[]> {
+    await this.assertRubricEditable(assignmentId, teacherId)
+
+    const maxPoints = criteria.reduce(
+      (sum, criterion) =>
+        sum + Math.max(0, ...criterion.levels.map((level) => level.points)),
+      0
+    )
+    if (maxPoints === 0) {
+      throw new ValidationError('Rubric must be worth more than 0 points')
+    }
+
+    return this.rubricRepository.replaceForAssignment(assignmentId, criteria)
+  }
+
+  /**
+   * Remove assignment rubric
+   * - Validates teacher ownership
+   * - Blocked once grades were given with the current rubric
+   * @param assignmentId - Assignment ID
+   * @param teacherId - Teacher ID
+   * @throws NotFoundError if assignment or class not found
+   * @throws ForbiddenError if not the class teacher
+   * @throws InvalidStateError if rubric grades exist
+   */
+  async deleteRubric(assignmentId: string, teacherId: string): Promise<void> {
+    await this.assertRubricEditable(assignmentId, teacherId)
+    await this.rubricRepository.deleteByAssignment(assignmentId)
+  }
+
+  // ==================== Category Methods ====================
+
+  /**
+   * Get categories of a class
+   * - Validates teacher ownership
+   * @param classId - Class ID
+   * @param teacherId - Teacher ID
+   * @returns Categories ordered by name
+   * @throws NotFoundError if class not found
+   * @throws ForbiddenError if not the class teacher
+   */
+  async getCategoriesByClass(
+    classId: string,
+    teacherId: string
+  ): Promise<AssignmentCategory[]> {
+    await this.assertClassTeacher(classId, teacherId)
+    return this.categoryRepository.findByClass(classId)
+  }
+
+  /**
+   * Create category
+   * - Validates teacher ownership
+   * - Validates class weights stay within 100
+   * @param classId - Class ID
+   * @param teacherId - Teacher ID
+   * @param data - Category name and weight (percent)
+   * @returns Created category
+   * @throws NotFoundError if class not found
+   * @throws ForbiddenError if not the class teacher
+   * @throws ValidationError if total weight would exceed 100
+   */
+  async createCategory(
+    classId: string,
+    teacherId: string,
+    data: { name: string; weight: number }
+  ): Promise<AssignmentCategory> {
+    await this.assertClassTeacher(classId, teacherId)
+    await this.validateCategoryWeight(classId, data.weight)
+
+    return this.categoryRepository.create({ class_id: classId, ...data })
+  }
+
+  /**
+   * Update category
+   * - Validates teacher ownership
+   * - Validates class weights stay within 100
+   * @param categoryId - Category ID
+   * @param teacherId - Teacher ID
+   * @param updates - Name and/or weight
+   * @returns Updated category
+   * @throws NotFoundError if category or class not found
+   * @throws ForbiddenError if not the class teacher
+   * @throws ValidationError if total weight would exceed 100
+   */
+  async updateCategory(
+    categoryId: string,
+    teacherId: string,
+    updates: { name?: string; weight?: number }
+  ): Promise<AssignmentCategory> {
+    const category = await this.categoryRepository.findById(categoryId)
+    if (!category) {
+      throw new NotFoundError('Assignment category')
+    }
+
+    await this.assertClassTeacher(category.class_id, teacherId)
+    if (updates.weight !== undefined) {
+      await this.validateCategoryWeight(category.class_id, updates.weight, categoryId)
+    }
+
+    return this.categoryRepository.update(categoryId, updates)
+  }
+
+  /**
+   * Delete category
+   * - Validates teacher ownership
+   * - Assignments of the category become uncategorized
+   * @param categoryId - Category ID
+   * @param teacherId - Teacher ID
+   * @throws NotFoundError if category or class not found
+   * @throws ForbiddenError if not the class teacher
+   */
+  async deleteCategory(categoryId: string, teacherId: string): Promise<void> {
+    const category = await this.categoryRepository.findById(categoryId)
+    if (!category) {
+      throw new NotFoundError('Assignment category')
+    }
+
+    await this.assertClassTeacher(category.class_id, teacherId)
+    await this.categoryRepository.delete(categoryId)
+  }
+
+  // ==================== Course Grade Methods ====================
+
+  /**
+   * Calculate weighted course grades for every student enrolled in a class
+   * - Category percent is points earned (after late penalty) over points possible
+   * - Course grade is the weighted mean over categories with graded work
+   * @param classId - Class ID
+   * @param releasedOnly - Count only grades already released to students
+   * @returns One course grade per enrolled student, in enrollment order
+   */
+  async calculateCourseGrades(classId: string, releasedOnly = false): Promise<CourseGrade[]> {
+    const [rows, categories, studentIds] = await Promise.all([
+      this.assignmentRepository.getGradesByClass(classId, releasedOnly),
+      this.categoryRepository.findByClass(classId),
+      this.classRepository.getEnrolledStudents(classId),
+    ])
+
+    const categorizedWeight = categories.reduce((sum, c) => sum + c.weight, 0)
+    const buckets: Array<{ categoryId: string | null; name: string; weight: number }> =
+      categories.map((c) => ({ categoryId: c.id, name: c.name, weight: c.weight }))
+
+    // Uncategorized work takes whatever weight the categories leave over
+    const uncategorizedWeight = categories.length === 0 ? 100 : 100 - categorizedWeight
+    if (uncategorizedWeight > 0 || rows.some((row) => row.category_id === null)) {
+      buckets.push({ categoryId: null, name: 'Uncategorized', weight: uncategorizedWeight })
+    }
+
+    return studentIds.map((studentId) =>
+      this.computeCourseGrade(
+        classId,
+        studentId,
+        buckets,
+        rows.filter((row) => row.student_id === studentId)
+      )
+    )
+  }
+
+  /**
+   * Get course grade of a student in a class
+   * - Student must be enrolled
+   * - Only released grades count, so the course grade gives nothing away early
+   * @param classId - Class ID
+   * @param studentId - Student ID
+   * @returns Weighted course grade
+   * @throws ForbiddenError if student not enrolled
+   */
+  async getCourseGrade(classId: string, studentId: string): Promise<CourseGrade> {
+    const courseGrades = await this.calculateCourseGrades(classId, true)
+    const courseGrade = courseGrades.find((g) => g.studentId === studentId)
+    if (!courseGrade) {
+      throw new ForbiddenError('You must be enrolled in the class to view its grades')
+    }
+
+    return courseGrade
+  }
+
+  /**
+   * Get course grades of a student across all enrolled classes
+   * @param studentId - Student ID
+   * @returns Course grade per class
+   */
+  async getCourseGradesForStudent(studentId: string): Promise<CourseGrade[]> {
+    const classes = await this.classRepository.findClassesForStudent(studentId)
+    return Promise.all(classes.map((c) => this.getCourseGrade(c.id, studentId)))
+  }
+
+  // ==================== Gradebook Methods ====================
+
+  /**
+   * Get the gradebook of a class
+   * - Validates teacher ownership, unless the teacher may read all grades
+   * - One row per enrolled student (by name), one cell per assignment (by due date)
+   * @param classId - Class ID
+   * @param teacherId - Teacher ID
+   * @param options - readAll: skip the ownership check (grades:read_all)
+   * @returns Grade matrix with submission status and course grades
+   * @throws NotFoundError if class not found
+   * @throws ForbiddenError if not the class teacher
+   */
+  async getGradebook(
+    classId: string,
+    teacherId: string,
+    options: { readAll?: boolean } = {}
+  ): Promise<Gradebook> {
+    const classRecord = await this.classRepository.findById(classId)
+    if (!classRecord) {
+      throw new NotFoundError('Class')
+    }
+
+    if (!options.readAll) {
+      await assertClassStaff(
+        this.classStaffRepository,
+        classRecord,
+        teacherId,
+        'grades:read_class',
+        'You can only view the gradebook of your own classes'
+      )
+    }
+
+    const [assignments, students, submissions, courseGrades] = await Promise.all([
+      this.assignmentRepository.findAllByClass(classId),
+      this.classRepository.getEnrolledStudentDetails(classId),
+      this.assignmentRepository.getGradebookSubmissions(classId),
+      this.calculateCourseGrades(classId),
+    ])
+
+    const now = new Date()
+    const rows = students.map((student) => ({
+      student,
+      courseGrade: courseGrades.find((g) => g.studentId === student.id)?.courseGrade ?? null,
+      cells: assignments.map((assignment): GradebookCell => {
+        const submission = submissions.find(
+          (row) => row.student_id === student.id && row.assignment_id === assignment.id
+        )
+        if (!submission) {
+          return {
+            assignmentId: assignment.id,
+            submissionId: null,
+            status: assignment.due_date < now ? 'missing' : 'pending',
+            grade: null,
+            latePenalty: 0,
+          }
+        }
+
+        return {
+          assignmentId: assignment.id,
+          submissionId: submission.submission_id,
+          status: submission.is_late ? 'late' : 'submitted',
+          grade: submission.grade === null ? null : Number(submission.grade),
+          latePenalty: submission.late_penalty,
+        }
+      }),
+    }))
+
+    return { classId, assignments, rows }
+  }
+
+  /**
+   * Average weighted course grade
+   * - Only released grades count: the average is public, and for a small class
+   *   it would otherwise give away individual grades before release
+   * @param classId - Class to average over; every class with grades if omitted
+   * @returns Mean course grade and number of students it covers (0/0 if none)
+   */
+  async getAverageCourseGrade(classId?: string): Promise<{ average: number; count: number }> {
+    const classIds = classId
+      ? [classId]
+      : await this.assignmentRepository.getGradedClassIds()
+
+    const courseGrades = (
+      await Promise.all(classIds.map((id) => this.calculateCourseGrades(id, true)))
+    )
+      .flat()
+      .flatMap((g) => (g.courseGrade === null ? [] : [g.courseGrade]))
+
+    if (courseGrades.length === 0) {
+      return { average: 0, count: 0 }
+    }
+
+    const sum = courseGrades.reduce((acc, grade) => acc + grade, 0)
+    return { average: sum / courseGrades.length, count: courseGrades.length }
+  }
+
+  // ==================== Grade CSV Methods ====================
+
+  /**
+   * Export the gradebook of a class as CSV
+   * - One row per enrolled student, one grade column per assignment
+   * - Ungraded cells are blank, missing work is marked Missing
+   * @param classId - Class ID
+   * @param teacherId - Teacher ID
+   * @param options - readAll: skip the ownership check (grades:read_all)
+   * @returns CSV text
+   * @throws NotFoundError if class not found
+   * @throws ForbiddenError if not the class teacher
+   */
+  async exportGradebookCsv(
+    classId: string,
+    teacherId: string,
+    options: { readAll?: boolean } = {}
+  ): Promise<string> {
+    const gradebook = await this.getGradebook(classId, teacherId, options)
+
+    const header = [
+      'Student Name',
+      'Email',
+      ...gradebook.assignments.map((a) => `${a.title} (/${a.max_points})`),
+      'Course Grade (%)',
+    ]
+    const rows = gradebook.rows.map((row) => [
+      row.student.name,
+      row.student.email,
+      ...row.cells.map((cell) => (cell.status === 'missing' ? 'Missing' : cell.grade)),
+      row.courseGrade,
+    ])
+
+    return toCsv([header, ...rows])
+  }
+
+  /**
+   * Export the submissions of an assignment as CSV
+   * - One row per enrolled student; the Email, Grade and Feedback columns can be
+   *   edited and imported again
+   * - Validates teacher ownership, unless the teacher may read all grades
+   * @param assignmentId - Assignment ID
+   * @param teacherId - Teacher ID
+   * @param options - readAll: skip the ownership check (grades:read_all)
+   * @returns CSV text
+   * @throws NotFoundError if assignment or class not found
+   * @throws ForbiddenError if not the class teacher
+   */
+  async exportAssignmentGradesCsv(
+    assignmentId: string,
+    teacherId: string,
+    options: { readAll?: boolean } = {}
+  ): Promise<string> {
+    const assignment = await this.getAssignmentById(assignmentId)
+
+    const classRecord = await this.classRepository.findById(assignment.class_id)
+    if (!classRecord) {
+      throw new NotFoundError('Class')
+    }
+
+    if (!options.readAll) {
+      await assertClassStaff(
+        this.classStaffRepository,
+        classRecord,
+        teacherId,
+        'grades:read_class',
+        'You can only export grades for your own classes'
+      )
+    }
+
+    const [students, submissions, grades] = await Promise.all([
+      this.classRepository.getEnrolledStudentDetails(assignment.class_id),
+      this.assignmentRepository.getSubmissionsByAssignment(assignmentId),
+      this.assignmentRepository.getGradesByAssignment(assignmentId),
+    ])
+
+    const header = [
+      'Student Name',
+      'Email',
+      'Submitted At',
+      'Late',
+      'Late Penalty (%)',
+      'Grade',
+      'Feedback',
+    ]
+    const rows = students.map((student) => {
+      const submission = submissions.find((s) => s.student_id === student.id)
+      const grade = submission && grades.find((g) => g.submission_id === submission.id)
+
+      return [
+        student.name,
+        student.email,
+        submission?.submitted_at,
+        submission ? (submission.is_late ? 'Yes' : 'No') : null,
+        submission?.late_penalty,
+        grade ? Number(grade.grade) : null,
+        grade?.feedback,
+      ]
+    })
+
+    return toCsv([header, ...rows])
+  }
+
+  /**
+   * Import assignment grades from CSV
+   * - Needs Email and Grade columns (any order, case-insensitive); Feedback is optional
+   * - Rows are matched to enrolled students by email
+   * - A dry run only reports what would happen
+   * - Grades are saved with bulk grading, so existing grades are replaced
+   *   and changing one needs a reason
+   * @param assignmentId - Assignment ID
+   * @param teacherId - Teacher ID
+   * @param csv - CSV text
+   * @param dryRun - Report without saving
+   * @param reason - Reason for changing existing grades
+   * @returns Per-row report
+   * @throws NotFoundError if assignment or class not found
+   * @throws ForbiddenError if not the class teacher
+   * @throws ValidationError if columns are missing, or rows have errors when not a dry run,
+   *   or existing grades change without a reason
+   */
+  async importAssignmentGradesCsv(
+    assignmentId: string,
+    teacherId: string,
+    csv: string,
+    dryRun: boolean,
+    reason?: string
+  ): Promise<GradeImportResult> {
+    const assignment = await this.getAssignmentById(assignmentId)
+
+    const classRecord = await this.classRepository.findById(assignment.class_id)
+    if (!classRecord) {
+      throw new NotFoundError('Class')
+    }
+
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'grades:update_own',
+      'You can only import grades for your own classes'
+    )
+
+    const [header = [], ...records] = parseCsv(csv)
+    const columns = header.map((name) => name.trim().toLowerCase())
+    const emailIndex = columns.indexOf('email')
+    const gradeIndex = columns.indexOf('grade')
+    const feedbackIndex = columns.indexOf('feedback')
+    if (emailIndex === -1 || gradeIndex === -1) {
+      throw new ValidationError('CSV must have Email and Grade columns')
+    }
+
+    const [students, submissions] = await Promise.all([
+      this.classRepository.getEnrolledStudentDetails(assignment.class_id),
+      this.assignmentRepository.getSubmissionsByAssignment(assignmentId),
+    ])
+    const studentsByEmail = new Map(students.map((s) => [s.email.toLowerCase(), s]))
+
+    const seenEmails = new Set<string>()
+    const toImport: Array<{
+      assignmentId: string
+      studentId: string
+      grade: number
+      feedback?: string
+    }> = []
+
+    const rows = records.map((record, index): GradeImportRow => {
+      const email = (record[emailIndex] ?? '').trim()
+      const gradeText = (record[gradeIndex] ?? '').trim()
+      const feedback = feedbackIndex === -1 ? '' : (record[feedbackIndex] ?? '').trim()
+      const grade = gradeText === '' ? null : Number(gradeText)
+
+      const row: GradeImportRow = {
+        // Header is line 1
+        line: index + 2,
+        email,
+        grade: grade !== null && Number.isFinite(grade) ? grade : null,
+        feedback: feedback || null,
+        status: 'ok',
+      }
+
+      const student = studentsByEmail.get(email.toLowerCase())
+      if (!student) {
+        return { ...row, status: 'unknown_student' }
+      }
+
+      if (seenEmails.has(student.email)) {
+        return { ...row, status: 'duplicate_student' }
+      }
+      seenEmails.add(student.email)
+
+      if (grade === null) {
+        return { ...row, status: 'skipped' }
+      }
+
+      if (!/^-?\d+(\.\d{1,2})?$/.test(gradeText)) {
+        return { ...row, status: 'invalid_grade' }
+      }
+
+      if (grade < 0 || grade > assignment.max_points) {
+        return { ...row, status: 'out_of_range' }
+      }
+
+      if (!submissions.some((s) => s.student_id === student.id)) {
+        return { ...row, status: 'missing_submission' }
+      }
+
+      toImport.push({
+        assignmentId,
+        studentId: student.id,
+        grade,
+        ...(feedback && { feedback }),
+      })
+      return row
+    })
+
+    const errorCount = rows.filter((r) => r.status !== 'ok' && r.status !== 'skipped').length
+
+    if (dryRun) {
+      return { dryRun, rows, errorCount, imported: 0 }
+    }
+
+    if (errorCount > 0) {
+      throw new ValidationError(
+        `${errorCount} ${errorCount === 1 ? 'row has' : 'rows have'} errors; nothing was imported`
+      )
+    }
+
+    const imported = await this.bulkGradeSubmissions(toImport, teacherId, reason)
+    return { dryRun, rows, errorCount, imported }
+  }
+
+  /**
+   * Get grade for submission
+   * @param assignmentId - Assignment ID
+   * @param studentId - Student ID
+   * @returns Grade if found, null otherwise
+   */
+  async getGrade(assignmentId: string, studentId: string): Promise<Grade | null> {
+    const submission = await this.assignmentRepository.getSubmission(
+      assignmentId,
       studentId
     )
     if (!submission) {
@@ -584,13 +1873,18 @@ export class AssignmentService {
 
   /**
    * Get all grades for a student with assignment details
+   * - Grades of unreleased assignments are withheld and marked pending release
    * @param studentId - Student ID
    * @returns Array of grades with assignment information
    */
-  async getGradesWithAssignmentByStudent(
-    studentId: string
-  ): Promise<GradeWithAssignment[]> {
-    return this.assignmentRepository.getGradesWithAssignmentByStudent(studentId)
+  async getGradesWithAssignmentByStudent(studentId: string): Promise<StudentGrade[]> {
+    const rows = await this.assignmentRepository.getGradesWithAssignmentByStudent(studentId)
+
+    return rows.map((row) =>
+      row.grade && !row.assignment.gradesReleasedAt
+        ? { ...row, grade: null, rubricScores: [], pendingRelease: true }
+        : { ...row, pendingRelease: false }
+    )
   }
 
   /**
@@ -626,9 +1920,13 @@ export class AssignmentService {
       throw new NotFoundError('Class not found')
     }
 
-    if (classRecord.teacher_id !== teacherId) {
-      throw new ForbiddenError('You can only view stats for your own assignments')
-    }
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'submissions:read_class',
+      'You can only view stats for your own assignments'
+    )
 
     const total = await this.assignmentRepository.countSubmissionsByAssignment(
       assignmentId
@@ -643,4 +1941,285 @@ export class AssignmentService {
       ungraded: total - graded,
     }
   }
+
+  /**
+   * Load a submission the user may view
+   * - Submitting student and class teacher can view
+   * @throws NotFoundError if submission not found
+   * @throws ForbiddenError otherwise
+   */
+  private async getSubmissionForViewer(
+    submissionId: string,
+    userId: string
+  ): Promise<Submission> {
+    const submission = await this.assignmentRepository.getSubmissionById(submissionId)
+    if (!submission) {
+      throw new NotFoundError('Submission')
+    }
+
+    if (submission.student_id === userId) {
+      return submission
+    }
+
+    const assignment = await this.assignmentRepository.findById(submission.assignment_id)
+    const classRecord = assignment
+      ? await this.classRepository.findById(assignment.class_id)
+      : null
+
+    if (
+      !classRecord ||
+      !(await hasClassStaffPermission(
+        this.classStaffRepository,
+        classRecord,
+        userId,
+        'submissions:read_class'
+      ))
+    ) {
+      throw new ForbiddenError('You do not have access to this submission')
+    }
+
+    return submission
+  }
+
+  /**
+   * Check the teacher may change the rubric of an assignment
+   * @throws NotFoundError if assignment or class not found
+   * @throws ForbiddenError if not the class teacher
+   * @throws InvalidStateError if grades were given with the rubric
+   */
+  private async assertRubricEditable(assignmentId: string, teacherId: string): Promise<void> {
+    const assignment = await this.getAssignmentById(assignmentId)
+
+    const classRecord = await this.classRepository.findById(assignment.class_id)
+    if (!classRecord) {
+      throw new NotFoundError('Class not found')
+    }
+
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'assignments:update_own',
+      'You can only manage rubrics for your own classes'
+    )
+
+    if ((await this.rubricRepository.countScoredGrades(assignmentId)) > 0) {
+      throw new InvalidStateError('Cannot change a rubric that has been used for grading')
+    }
+  }
+
+  /**
+   * Check the user teaches a class
+   * @throws NotFoundError if class not found
+   * @throws ForbiddenError if not the class teacher
+   */
+  private async assertClassTeacher(classId: string, teacherId: string): Promise<void> {
+    const classRecord = await this.classRepository.findById(classId)
+    if (!classRecord) {
+      throw new NotFoundError('Class')
+    }
+
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'classes:update_own',
+      'You can only manage categories for your own classes'
+    )
+  }
+
+  /**
+   * Validate total category weight of a class stays within 100
+   * @throws ValidationError if the new weight would push the total over 100
+   */
+  private async validateCategoryWeight(
+    classId: string,
+    weight: number,
+    excludeId?: string
+  ): Promise<void> {
+    const otherWeights = await this.categoryRepository.sumWeightsByClass(classId, excludeId)
+    if (otherWeights + weight > 100) {
+      throw new ValidationError(
+        `Category weights cannot exceed 100 (${100 - otherWeights} remaining)`
+      )
+    }
+  }
+
+  /**
+   * Validate an assignment category belongs to the class
+   * @throws ValidationError if category is missing or from another class
+   */
+  private async validateCategory(
+    classId: string,
+    categoryId: string | null | undefined
+  ): Promise<void> {
+    if (!categoryId) {
+      return
+    }
+
+    const category = await this.categoryRepository.findById(categoryId)
+    if (!category || category.class_id !== classId) {
+      throw new ValidationError('Category does not belong to this class')
+    }
+  }
+
+  /**
+   * Validate a grade against the assignment max points
+   * @throws ValidationError if grade is negative or above max points
+   */
+  private validateGradeRange(grade: number, assignment: Assignment): void {
+    if (grade < 0 || grade > assignment.max_points) {
+      throw new ValidationError(`Grade must be between 0 and ${assignment.max_points}`)
+    }
+  }
+
+  /**
+   * Reason to record with a grade revision
+   * - Students have seen a released grade, so changing one needs a reason;
+   *   unreleased grades can be changed freely
+   * @param released - Whether any changed grade is already released
+   * @param reason - Reason given by the teacher
+   * @returns Trimmed reason, null if none was given
+   * @throws ValidationError if a released grade changes without a reason
+   */
+  private resolveRevisionReason(released: boolean, reason: string | undefined): string | null {
+    const trimmed = reason?.trim()
+    if (released && !trimmed) {
+      throw new ValidationError('A reason is required to change a released grade')
+    }
+    return trimmed || null
+  }
+
+  /**
+   * Weighted course grade of one student from their graded rows
+   */
+  private computeCourseGrade(
+    classId: string,
+    studentId: string,
+    buckets: Array<{ categoryId: string | null; name: string; weight: number }>,
+    rows: ClassGradeRow[]
+  ): CourseGrade {
+    const round = (value: number) => Math.round(value * 100) / 100
+
+    const categories = buckets.map((bucket) => {
+      const bucketRows = rows.filter((row) => row.category_id === bucket.categoryId)
+      const pointsEarned = bucketRows.reduce(
+        (sum, row) => sum + Number(row.grade) * (1 - row.late_penalty / 100),
+        0
+      )
+      const pointsPossible = bucketRows.reduce((sum, row) => sum + row.max_points, 0)
+      return {
+        ...bucket,
+        pointsEarned: round(pointsEarned),
+        pointsPossible,
+        percent: pointsPossible === 0 ? null : (pointsEarned / pointsPossible) * 100,
+      }
+    })
+
+    // Renormalize over weighted categories that have graded work
+    let weightedSum = 0
+    let totalWeight = 0
+    for (const category of categories) {
+      if (category.percent !== null && category.weight > 0) {
+        weightedSum += category.percent * category.weight
+        totalWeight += category.weight
+      }
+    }
+
+    return {
+      classId,
+      studentId,
+      courseGrade: totalWeight === 0 ? null : round(weightedSum / totalWeight),
+      categories: categories.map((c) => ({
+        ...c,
+        percent: c.percent === null ? null : round(c.percent),
+      })),
+    }
+  }
+
+  /**
+   * Tell a student that a grade was posted
+   * - Nothing is sent while the assignment's grades are unreleased; releasing
+   *   them announces every grade at once
+   * - In-app notification and live update always
+   * - Email only when a mailer is configured, best effort: the grade is
+   *   already saved, so delivery errors are ignored
+   */
+  private async announceGradePosted(
+    assignment: Assignment,
+    className: string,
+    studentId: string,
+    submissionId: string,
+    grade: number
+  ): Promise<void> {
+    if (!assignment.grades_released_at) {
+      return
+    }
+
+    await this.notificationService.notifyGradePosted(assignment, className, studentId, grade)
+    await this.events.publish(studentId, {
+      type: 'grade_posted',
+      assignmentId: assignment.id,
+      submissionId,
+    })
+
+    if (!this.mailer) {
+      return
+    }
+
+    try {
+      const student = await this.userRepository.findById(studentId)
+      if (!student) {
+        return
+      }
+      await this.mailer.sendGradePosted(
+        { email: student.email, name: student.name },
+        {
+          className,
+          assignmentId: assignment.id,
+          assignmentTitle: assignment.title,
+          grade,
+          maxPoints: assignment.max_points,
+        }
+      )
+    } catch {
+      // Grade stays posted; the student still sees it in the portal
+    }
+  }
+
+  /**
+   * Tell the class staff that a submission was created or updated
+   */
+  private async publishSubmissionEvent(
+    type: 'submission_created' | 'submission_updated',
+    assignment: Assignment,
+    submission: Submission
+  ): Promise<void> {
+    const classRecord = await this.classRepository.findById(assignment.class_id)
+    if (!classRecord) {
+      return
+    }
+
+    const staffIds = await this.classStaffRepository.findUserIds(classRecord.id)
+    const recipients = new Set([classRecord.teacher_id, ...staffIds])
+
+    for (const userId of recipients) {
+      await this.events.publish(userId, {
+        type,
+        assignmentId: assignment.id,
+        submissionId: submission.id,
+        studentId: submission.student_id,
+      })
+    }
+  }
+
+  /**
+   * Validate late cutoff is after due date
+   * @throws ValidationError if cutoff is on or before the due date
+   */
+  private validateLateCutoff(dueDate: Date, lateCutoff: Date | null | undefined): void {
+    if (lateCutoff && lateCutoff <= dueDate) {
+      throw new ValidationError('Late cutoff must be after the due date')
+    }
+  }
 }
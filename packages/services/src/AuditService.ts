@@ -0,0 +1,117 @@
+import type { Kysely, Transaction } from 'kysely'
+import type {
+  Database,
+  AuditAction,
+  AuditEvent,
+  AuditEventFilters,
+  AuditEventWithActor,
+  AuditSnapshot,
+  AuditTargetType,
+  Class,
+  Grade,
+  User,
+} from '@concentrate/database'
+import { AuditEventRepository } from '@concentrate/database'
+
+/**
+ * Snapshot of a user for the audit log (without credentials)
+ */
+export function userSnapshot(user: User): AuditSnapshot {
+  return {
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    suspended: user.suspended,
+  }
+}
+
+/**
+ * Snapshot of a class for the audit log
+ */
+export function classSnapshot(classRecord: Class): AuditSnapshot {
+  return {
+    name: classRecord.name,
+    description: classRecord.description,
+    teacher_id: classRecord.teacher_id,
+  }
+}
+
+/**
+ * Snapshot of a grade for the audit log
+ */
+export function gradeSnapshot(
+  grade: Pick<Grade, 'feedback' | 'teacher_id'> & { grade: Grade['grade'] | number }
+): AuditSnapshot {
+  return {
+    grade: Number(grade.grade),
+    feedback: grade.feedback,
+    teacher_id: grade.teacher_id,
+  }
+}
+
+/**
+ * AuditService - Business logic for the audit log
+ *
+ * Responsibilities:
+ * - Record who did what to which record, with before/after snapshots
+ * - List recorded events with filters and pagination
+ *
+ * Business Rules:
+ * - The log is append-only; events are never changed or removed
+ * - Snapshots never contain credentials
+ * - Lists are newest first and capped at 100 per page
+ */
+export class AuditService {
+  private auditEventRepository: AuditEventRepository
+
+  constructor(db: Kysely<Database> | Transaction<Database>) {
+    this.auditEventRepository = new AuditEventRepository(db)
+  }
+
+  /**
+   * Record an audit event
+   * @param actorId - User performing the action (null for system actions)
+   * @param action - What was done
+   * @param target - Type and ID of the affected record
+   * @param before - Snapshot before the action (null if the record was created)
+   * @param after - Snapshot after the action (null if the record was removed)
+   * @returns Recorded event
+   */
+  async record(
+    actorId: string | null,
+    action: AuditAction,
+    target: { type: AuditTargetType; id: string },
+    before: AuditSnapshot | null,
+    after: AuditSnapshot | null
+  ): Promise<AuditEvent> {
+    return this.auditEventRepository.create({
+      actor_id: actorId,
+      action,
+      target_type: target.type,
+      target_id: target.id,
+      before,
+      after,
+    })
+  }
+
+  /**
+   * List audit events
+   * @param filters - Actor, action, target and time range filters
+   * @param options - Page (default 1) and page size (default 50, max 100)
+   * @returns Events of the page and the total number of matching events
+   */
+  async listEvents(
+    filters: AuditEventFilters = {},
+    options: { page?: number | undefined; limit?: number | undefined } = {}
+  ): Promise<{ events: AuditEventWithActor[]; total: number }> {
+    const page = Math.max(1, options.page ?? 1)
+    const limit = Math.min(Math.max(1, options.limit ?? 50), 100)
+
+    const [events, total] = await Promise.all([
+      this.auditEventRepository.find(filters, { page, limit }),
+      this.auditEventRepository.count(filters),
+    ])
+
+    return { events, total }
+  }
+}
@@ -1,6 +1,19 @@
 import type { Kysely, Transaction } from 'kysely'
-import type { Database, User, NewUser } from '@concentrate/database'
-import { UserRepository, SessionRepository, redis } from '@concentrate/database'
+import type {
+  Database,
+  User,
+  NewUser,
+  UserRole,
+  RedisSession,
+  SessionMetadata,
+} from '@concentrate/database'
+import {
+  UserRepository,
+  SessionRepository,
+  TokenVersionRepository,
+  MfaChallengeRepository,
+  redis,
+} from '@concentrate/database'
 import {
   hashPassword,
   verifyPassword,
@@ -13,7 +26,28 @@ import {
   UnauthorizedError,
   ForbiddenError,
   TokenInvalidError,
+  ValidationError,
 } from '@concentrate/shared'
+import { AuditService } from './AuditService'
+import { MfaService, type MfaEnrollment } from './MfaService'
+import type { Mailer } from './mail'
+import { EventPublisher } from './realtime'
+
+/**
+ * Lifetime of a password reset token in seconds
+ */
+const PASSWORD_RESET_TTL = 30 * 60
+
+/**
+ * Lifetime of an MFA login challenge in seconds
+ */
+const MFA_CHALLENGE_TTL = 5 * 60
+
+/**
+ * Wrong codes accepted per MFA login challenge before the user has to
+ * enter their password again
+ */
+const MFA_MAX_FAILED_ATTEMPTS = 5
 
 /**
  * Token pair returned after authentication
@@ -23,45 +57,138 @@ export interface TokenPair {
   refreshToken: string
 }
 
+/**
+ * Second login step handed out instead of tokens when MFA is needed
+ */
+export interface MfaLoginChallenge {
+  challengeToken: string
+  // The user's role requires MFA and they have not set it up yet
+  enrollmentRequired: boolean
+  expiresAt: Date
+}
+
+/**
+ * Outcome of a password login: tokens, or an MFA challenge to pass first
+ */
+export type LoginResult =
+  | { user: User; tokens: TokenPair; mfaChallenge?: undefined }
+  | { user: User; tokens?: undefined; mfaChallenge: MfaLoginChallenge }
+
+/**
+ * Outcome of a passed MFA challenge
+ */
+export interface MfaLoginResult {
+  user: User
+  tokens: TokenPair
+  // Set when the challenge finished a required enrollment (shown once)
+  recoveryCodes: string[] | null
+}
+
+/**
+ * Session as shown to its user; the refresh token itself is never exposed
+ */
+export interface ActiveSession {
+  id: string
+  userAgent: string | null
+  ip: string | null
+  createdAt: Date
+  lastUsedAt: Date
+  expiresAt: Date
+  current: boolean
+}
+
 /**
  * AuthService - Business logic for authentication and session management
  *
  * Responsibilities:
  * - User registration with password hashing
- * - Login with credential verification
+ * - Login with credential verification, followed by an MFA challenge when
+ *   the user has MFA enabled or their role requires it
  * - JWT token generation and verification
  * - Session management via Redis
- * - Token refresh
+ * - Token refresh with refresh token rotation and reuse detection
  * - Password change
- * - Session revocation
+ * - Session revocation, per device or all at once
  *
  * Business Rules:
  * - Cannot register with existing email
+ * - Open registration for teachers and admins can be turned off with
+ *   OPEN_STAFF_REGISTRATION=false; they then need an invitation
  * - Cannot login if suspended
- * - Access tokens expire after 15 minutes
- * - Refresh tokens expire after 7 days
- * - Sessions stored in Redis with auto-expiration
+ * - Users with MFA get no tokens for their password alone: login returns a
+ *   challenge token valid for 5 minutes, exchanged for tokens with a TOTP or
+ *   recovery code. After 5 wrong codes the challenge is dropped
+ * - Users whose role requires MFA but who have not set it up must enroll
+ *   through their challenge before they get tokens
+ * - Access tokens expire after 15 minutes, or as soon as the user's sessions
+ *   are revoked: each carries the user's token version, which revoking bumps
+ * - Revoking sessions also closes the user's open live update streams
+ * - Refresh tokens expire after 7 days and are single-use: every refresh
+ *   issues a new token in the same token family (the session)
+ * - Replaying a rotated-out refresh token revokes its whole family and is
+ *   logged as a `refresh_token_reused` security event
+ * - Sessions stored in Redis with auto-expiration, recording the device
+ *   (user agent, IP) and when they were created and last used
+ * - Users can only list and revoke their own sessions
  * - Old password must be verified before change
+ * - Changing or resetting the password revokes all sessions and access tokens
+ * - Password reset tokens are only ever emailed, never returned to the caller,
+ *   and unknown emails are ignored silently so accounts cannot be enumerated
  */
 export class AuthService {
   private userRepository: UserRepository
   private sessionRepository: SessionRepository
-
-  constructor(db: Kysely<Database> | Transaction<Database>) {
+  private resetTokenRepository: SessionRepository
+  private tokenVersionRepository: TokenVersionRepository
+  private mfaChallengeRepository: MfaChallengeRepository
+  private mfaService: MfaService
+  private auditService: AuditService
+  private events: EventPublisher
+  private mailer: Mailer | null
+
+  constructor(db: Kysely<Database> | Transaction<Database>, mailer?: Mailer) {
     this.userRepository = new UserRepository(db)
     this.sessionRepository = new SessionRepository(redis)
+    // Kept under their own keys so reset tokens never count as sessions
+    this.resetTokenRepository = new SessionRepository(
+      redis,
+      'password_reset:',
+      'user_password_resets:'
+    )
+    this.tokenVersionRepository = new TokenVersionRepository(redis)
+    this.mfaChallengeRepository = new MfaChallengeRepository(redis)
+    this.mfaService = new MfaService(db)
+    this.auditService = new AuditService(db)
+    this.events = new EventPublisher(redis)
+    this.mailer = mailer ?? null
+  }
+
+  /**
+   * Roles that may self-register without an invitation
+   * @returns Open roles
+   */
+  getOpenRegistrationRoles(): UserRole[] {
+    return process.env['OPEN_STAFF_REGISTRATION'] === 'false'
+      ? ['student']
+      : ['admin', 'teacher', 'student']
   }
 
   /**
    * Register a new user
+   * - Validates the role is open for registration
    * - Validates email uniqueness
    * - Hashes password
    * - Creates user
    * @param data - Registration data
    * @returns Created user
+   * @throws ForbiddenError if the role needs an invitation
    * @throws AlreadyExistsError if email already exists
    */
   async register(data: NewUser): Promise<User> {
+    if (!this.getOpenRegistrationRoles().includes(data.role)) {
+      throw new ForbiddenError('Teacher and admin accounts require an invitation')
+    }
+
     // Check if email already exists
     const existingUser = await this.userRepository.findByEmail(data.email)
     if (existingUser) {
@@ -86,18 +213,20 @@ export class AuthService {
    * Login with email and password
    * - Verifies credentials
    * - Checks if user is suspended
-   * - Generates token pair
-   * - Creates session in Redis
+   * - Returns an MFA challenge if the user needs MFA
+   * - Otherwise generates token pair and creates session in Redis
    * @param email - User email
    * @param password - User password (plain text)
-   * @returns Token pair and user
+   * @param metadata - Device the user logs in from
+   * @returns Token pair or MFA challenge, and user
    * @throws InvalidCredentialsError if credentials are invalid
    * @throws ForbiddenError if user is suspended
    */
   async login(
     email: string,
-    password: string
-  ): Promise<{ tokens: TokenPair; user: User }> {
+    password: string,
+    metadata: SessionMetadata = {}
+  ): Promise<LoginResult> {
     // Find user by email
     const user = await this.userRepository.findByEmail(email.toLowerCase().trim())
     if (!user) {
@@ -116,22 +245,131 @@ export class AuthService {
       throw new ForbiddenError('Your account has been suspended')
     }
 
-    // Generate tokens
-    const accessToken = generateAccessToken(user.id, user.role)
-    const refreshToken = generateRefreshToken()
-
-    // Store session in Redis
-    await this.sessionRepository.create(user.id, refreshToken)
+    const mfaChallenge = await this.startMfaChallenge(user, metadata)
+    if (mfaChallenge) {
+      return { mfaChallenge, user }
+    }
 
     return {
-      tokens: {
-        accessToken,
-        refreshToken,
-      },
+      tokens: await this.createSession(user, metadata),
       user,
     }
   }
 
+  /**
+   * Start the MFA step of a login, if the user needs one
+   * - Also used by logins that skip the password, e.g. OAuth
+   * @param user - User who passed the first factor
+   * @param metadata - Device the user logs in from
+   * @returns Challenge, or null if the user can log in right away
+   */
+  async startMfaChallenge(
+    user: User,
+    metadata: SessionMetadata = {}
+  ): Promise<MfaLoginChallenge | null> {
+    const requirement = await this.mfaService.getLoginRequirement(user)
+    if (requirement === 'none') {
+      return null
+    }
+
+    const challenge = await this.mfaChallengeRepository.create(
+      user.id,
+      generateRefreshToken(),
+      MFA_CHALLENGE_TTL,
+      metadata
+    )
+
+    return {
+      challengeToken: challenge.token,
+      enrollmentRequired: requirement === 'enroll',
+      expiresAt: challenge.expiresAt,
+    }
+  }
+
+  /**
+   * Start the MFA enrollment a user's role requires, during their login
+   * @param challengeToken - MFA challenge token from login
+   * @returns Secret and otpauth URI for the authenticator app
+   * @throws UnauthorizedError if the challenge is invalid or expired
+   * @throws InvalidStateError if the user already has MFA enabled
+   */
+  async startChallengeEnrollment(challengeToken: string): Promise<MfaEnrollment> {
+    const challenge = await this.mfaChallengeRepository.get(challengeToken)
+    if (!challenge) {
+      throw new UnauthorizedError('Invalid or expired MFA challenge')
+    }
+
+    return this.mfaService.startEnrollment(challenge.userId)
+  }
+
+  /**
+   * Pass an MFA challenge and log in
+   * - Checks a TOTP or recovery code, or confirms the enrollment started
+   *   with `startChallengeEnrollment`
+   * - Creates the session with the device details of the password login
+   * - Drops the challenge after too many wrong codes
+   * @param challengeToken - MFA challenge token from login
+   * @param code - TOTP or recovery code
+   * @returns Token pair, user, and recovery codes if MFA was just set up
+   * @throws UnauthorizedError if the challenge is invalid, expired or used up
+   * @throws InvalidCredentialsError if the code is wrong
+   * @throws ForbiddenError if user is suspended
+   * @throws InvalidStateError if an enrollment was not started
+   */
+  async completeMfaChallenge(challengeToken: string, code: string): Promise<MfaLoginResult> {
+    const challenge = await this.mfaChallengeRepository.get(challengeToken)
+    if (!challenge) {
+      throw new UnauthorizedError('Invalid or expired MFA challenge')
+    }
+
+    const user = await this.userRepository.findById(challenge.userId)
+    if (!user) {
+      await this.mfaChallengeRepository.delete(challengeToken)
+      throw new UnauthorizedError('User not found')
+    }
+    if (user.suspended) {
+      await this.mfaChallengeRepository.delete(challengeToken)
+      throw new ForbiddenError('Your account has been suspended')
+    }
+
+    let recoveryCodes: string[] | null = null
+    let accepted = true
+    const requirement = await this.mfaService.getLoginRequirement(user)
+    if (requirement === 'verify') {
+      accepted = await this.mfaService.verifyCode(user.id, code)
+    } else if (requirement === 'enroll') {
+      try {
+        recoveryCodes = await this.mfaService.confirmEnrollment(user.id, code)
+      } catch (error) {
+        if (!(error instanceof ValidationError)) {
+          throw error
+        }
+        accepted = false
+      }
+    }
+
+    if (!accepted) {
+      const attempts = await this.mfaChallengeRepository.recordFailedAttempt(challengeToken)
+      if (attempts >= MFA_MAX_FAILED_ATTEMPTS) {
+        await this.mfaChallengeRepository.delete(challengeToken)
+        throw new UnauthorizedError('Too many invalid codes, please log in again')
+      }
+      throw new InvalidCredentialsError('Invalid verification code')
+    }
+
+    // Claim the challenge; a concurrent completion that deleted it first wins
+    if (!(await this.mfaChallengeRepository.delete(challengeToken))) {
+      throw new UnauthorizedError('Invalid or expired MFA challenge')
+    }
+
+    const tokens = await this.createSession(user, {
+      userAgent: challenge.userAgent,
+      ip: challenge.ip,
+    })
+
+    return { user, tokens, recoveryCodes }
+  }
+
   /**
    * Logout
    * - Removes session from Redis
@@ -145,19 +383,36 @@ export class AuthService {
    * Refresh access token
    * - Verifies refresh token exists in Redis
    * - Generates new access token
-   * - Optionally rotates refresh token
+   * - Rotates the refresh token, retiring the old one
+   * - Revokes the token family if a retired token is replayed
    * @param refreshToken - Refresh token
-   * @param rotate - Whether to rotate refresh token (default: false)
+   * @param metadata - Device the session is used from
    * @returns New token pair
-   * @throws UnauthorizedError if refresh token is invalid
+   * @throws UnauthorizedError if refresh token is invalid, expired or reused
    */
   async refreshAccessToken(
     refreshToken: string,
-    rotate: boolean = false
+    metadata: SessionMetadata = {}
   ): Promise<TokenPair> {
     // Check if session exists in Redis
     const session = await this.sessionRepository.get(refreshToken)
     if (!session) {
+      const retired = await this.sessionRepository.findRetired(refreshToken)
+      if (retired) {
+        // The token was stolen or the client is broken: end the session for both
+        await this.sessionRepository.deleteFamily(retired.userId, retired.sessionId)
+        await this.auditService.record(
+          null,
+          'refresh_token_reused',
+          { type: 'user', id: retired.userId },
+          null,
+          {
+            sessionId: retired.sessionId,
+            ip: metadata.ip ?? null,
+            userAgent: metadata.userAgent ?? null,
+          }
+        )
+      }
       throw new UnauthorizedError('Invalid or expired refresh token')
     }
 
@@ -177,19 +432,20 @@ export class AuthService {
     }
 
     // Generate new access token
-    const accessToken = generateAccessToken(user.id, user.role)
-
-    // Optionally rotate refresh token
-    let newRefreshToken = refreshToken
-    if (rotate) {
-      newRefreshToken = generateRefreshToken()
-
-      // Delete old session and create new one
-      await this.sessionRepository.delete(refreshToken)
-      await this.sessionRepository.create(user.id, newRefreshToken)
-    } else {
-      // Extend session TTL
-      await this.sessionRepository.refresh(refreshToken)
+    const tokenVersion = await this.tokenVersionRepository.get(user.id)
+    const accessToken = generateAccessToken(user.id, user.role, tokenVersion)
+
+    // Move the session to a new token, keeping its ID and creation time
+    const newRefreshToken = generateRefreshToken()
+    const rotated = await this.sessionRepository.rotate(
+      refreshToken,
+      newRefreshToken,
+      undefined,
+      metadata
+    )
+    if (!rotated) {
+      // Another request rotated the token first
+      throw new UnauthorizedError('Invalid or expired refresh token')
     }
 
     return {
@@ -201,16 +457,21 @@ export class AuthService {
   /**
    * Verify access token
    * - Decodes and validates JWT
+   * - Rejects tokens issued before the user's sessions were revoked
    * - Returns user if valid
    * @param accessToken - Access token
    * @returns User from database
-   * @throws TokenInvalidError if token is invalid
+   * @throws TokenInvalidError if token is invalid or revoked
    * @throws NotFoundError if user not found
    */
   async verifyToken(accessToken: string): Promise<User> {
     try {
       const payload = verifyAccessToken(accessToken)
 
+      if (await this.isAccessTokenRevoked(payload.userId, payload.tokenVersion)) {
+        throw new TokenInvalidError('Access token has been revoked')
+      }
+
       // Get user from database
       const user = await this.userRepository.findById(payload.userId)
       if (!user) {
@@ -282,27 +543,33 @@ export class AuthService {
 
   /**
    * Request password reset
-   * - Generates reset token
-   * - TODO: Send email with reset link
+   * - Generates a reset token valid for 30 minutes
+   * - Emails the reset link to the account address
+   * - Does nothing for unknown emails, so callers cannot tell which accounts exist
    * @param email - User email
-   * @returns Reset token (in production, this would be sent via email)
-   * @throws NotFoundError if user not found
+   * @throws Error if no mailer is configured
    */
-  async requestPasswordReset(email: string): Promise<string> {
+  async requestPasswordReset(email: string): Promise<void> {
+    if (!this.mailer) {
+      throw new Error('Password reset requires a mailer')
+    }
+
     const user = await this.userRepository.findByEmail(email.toLowerCase().trim())
     if (!user) {
-      throw new NotFoundError('User not found')
+      return
     }
 
     // Generate reset token
     const resetToken = generateRefreshToken()
 
     // Store in Redis with 30 minute TTL
-    await this.sessionRepository.create(user.id, resetToken, 30 * 60)
+    await this.resetTokenRepository.create(user.id, resetToken, PASSWORD_RESET_TTL)
 
-    // TODO: Send email with reset link
-    // For now, return the token (in production, this would be sent via email)
-    return resetToken
+    await this.mailer.sendPasswordReset(
+      { email: user.email, name: user.name },
+      resetToken,
+      PASSWORD_RESET_TTL / 60
+    )
   }
 
   /**
@@ -318,7 +585,7 @@ export class AuthService {
    */
   async resetPassword(resetToken: string, newPassword: string): Promise<void> {
     // Verify reset token exists in Redis
-    const session = await this.sessionRepository.get(resetToken)
+    const session = await this.resetTokenRepository.get(resetToken)
     if (!session) {
       throw new UnauthorizedError('Invalid or expired reset token')
     }
@@ -338,7 +605,7 @@ export class AuthService {
     })
 
     // Delete reset token
-    await this.sessionRepository.delete(resetToken)
+    await this.resetTokenRepository.delete(resetToken)
 
     // Revoke all other sessions
     await this.revokeAllSessions(user.id)
@@ -346,12 +613,28 @@ export class AuthService {
 
   /**
    * Revoke all sessions for a user
+   * - Invalidates access tokens already issued, effective immediately
    * - Removes all sessions from Redis
+   * - Tells every API instance to close the user's live update streams
    * @param userId - User ID
    * @returns Number of sessions revoked
    */
   async revokeAllSessions(userId: string): Promise<number> {
-    return this.sessionRepository.deleteAllForUser(userId)
+    await this.tokenVersionRepository.increment(userId)
+    const count = await this.sessionRepository.deleteAllForUser(userId)
+    await this.events.publish(userId, { type: 'session_revoked' })
+    return count
+  }
+
+  /**
+   * Check whether an access token was issued before its user's sessions
+   * were revoked
+   * @param userId - User ID from the token
+   * @param tokenVersion - Token version from the token (missing on older tokens)
+   * @returns True if the token must be rejected
+   */
+  async isAccessTokenRevoked(userId: string, tokenVersion: number = 0): Promise<boolean> {
+    return tokenVersion < (await this.tokenVersionRepository.get(userId))
   }
 
   /**
@@ -364,6 +647,35 @@ export class AuthService {
     return this.sessionRepository.getAllForUser(userId)
   }
 
+  /**
+   * List the sessions of a user with their device details
+   * @param userId - User ID
+   * @param currentRefreshToken - Refresh token of the caller, to flag its session
+   * @returns Sessions, most recently used first
+   */
+  async listSessions(userId: string, currentRefreshToken?: string): Promise<ActiveSession[]> {
+    const sessions = await this.sessionRepository.findAllForUser(userId)
+    return sessions.map((session) => this.toActiveSession(session, currentRefreshToken))
+  }
+
+  /**
+   * Revoke one session of a user, e.g. a lost device
+   * @param userId - User ID
+   * @param sessionId - Session ID (not the refresh token)
+   * @returns The revoked session
+   * @throws NotFoundError if the user has no such session
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<RedisSession> {
+    const sessions = await this.sessionRepository.findAllForUser(userId)
+    const session = sessions.find((s) => s.id === sessionId)
+    if (!session) {
+      throw new NotFoundError('Session')
+    }
+
+    await this.sessionRepository.delete(session.refreshToken)
+    return session
+  }
+
   /**
    * Get session count for a user
    * @param userId - User ID
@@ -372,4 +684,40 @@ export class AuthService {
   async getSessionCount(userId: string): Promise<number> {
     return this.sessionRepository.countForUser(userId)
   }
+
+  /**
+   * Issue a token pair and store its session
+   * @param user - User logging in
+   * @param metadata - Device the user logs in from
+   * @returns Token pair
+   */
+  private async createSession(user: User, metadata: SessionMetadata): Promise<TokenPair> {
+    // Generate tokens
+    const tokenVersion = await this.tokenVersionRepository.get(user.id)
+    const accessToken = generateAccessToken(user.id, user.role, tokenVersion)
+    const refreshToken = generateRefreshToken()
+
+    // Store session in Redis
+    await this.sessionRepository.create(user.id, refreshToken, undefined, metadata)
+
+    return { accessToken, refreshToken }
+  }
+
+  /**
+   * Strip the refresh token from a session
+   * @param session - Stored session
+   * @param currentRefreshToken - Refresh token of the caller
+   * @returns Session as shown to its user
+   */
+  private toActiveSession(session: RedisSession, currentRefreshToken?: string): ActiveSession {
+    return {
+      id: session.id,
+      userAgent: session.userAgent,
+      ip: session.ip,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.refreshToken === currentRefreshToken,
+    }
+  }
 }
@@ -1,11 +1,76 @@
+import { randomInt } from 'node:crypto'
 import type { Kysely, Transaction } from 'kysely'
-import type { Database, Class, NewClass, ClassUpdate, User } from '@concentrate/database'
-import { ClassRepository, UserRepository } from '@concentrate/database'
+import type {
+  Database,
+  Class,
+  NewClass,
+  ClassUpdate,
+  ClassJoinCode,
+  ClassStaffMember,
+  ClassStaffMemberWithUser,
+  User,
+} from '@concentrate/database'
+import {
+  ClassRepository,
+  ClassJoinCodeRepository,
+  ClassStaffRepository,
+  UserRepository,
+} from '@concentrate/database'
 import {
   NotFoundError,
   ForbiddenError,
   AlreadyExistsError,
+  InvalidStateError,
+  ValidationError,
+  parseCsv,
 } from '@concentrate/shared'
+import type { ClassStaffRole, UserRole } from '@concentrate/shared'
+import { RosterRowSchema } from '@concentrate/validation'
+import { UserService } from './UserService'
+import { NotificationService } from './NotificationService'
+import { AuditService, classSnapshot } from './AuditService'
+import { assertClassStaff, getClassStaffRole, hasClassStaffPermission } from './classStaff'
+
+/**
+ * Outcome of one CSV row in a roster import
+ * - created: a new student account was created and enrolled
+ * - enrolled: an existing student was enrolled
+ * - every other status leaves the row's student and class untouched
+ */
+export type RosterImportStatus =
+  | 'created'
+  | 'enrolled'
+  | 'already_enrolled'
+  | 'invalid_row'
+  | 'unknown_class'
+  | 'ambiguous_class'
+  | 'not_a_student'
+
+export interface RosterImportRow {
+  line: number
+  name: string
+  email: string
+  class: string
+  classId: string | null
+  status: RosterImportStatus
+  message: string | null
+}
+
+/**
+ * Roster CSV import report
+ */
+export interface RosterImportResult {
+  rows: RosterImportRow[]
+  created: number
+  enrolled: number
+  errorCount: number
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// No 0/O or 1/I, so codes read aloud or copied from a board are not mistyped
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const JOIN_CODE_LENGTH = 8
 
 /**
  * ClassService - Business logic for class management
@@ -15,22 +80,45 @@ import {
  * - Student enrollment management
  * - Class-student association management
  * - Student transfer between classes
+ * - Roster CSV import (creates missing student accounts)
+ * - Class join codes for student self-enrollment
+ * - Class staff: co-teachers and teaching assistants added by the owner
  *
  * Business Rules:
  * - Only teachers can create classes
  * - Teacher can only update/delete their own classes
+ * - Co-teachers can do everything the owner can except delete the class;
+ *   TAs can only view submissions and grade
+ * - Only the owner manages staff; staff must be teachers and can leave on their own
  * - Student must have student role for enrollment
  * - Cannot enroll student already in class
+ * - Students enrolled by their teacher are notified in-app
  * - Cannot remove student with graded assignments (future enhancement)
  * - Cannot delete class with active assignments (future enhancement)
+ * - Roster imports reach any class for admins and only own classes for teachers;
+ *   the Class column holds a class ID or an exact (case-insensitive) class name
+ * - Roster rows are applied one by one; a bad row does not stop the others
+ * - A class has at most one join code; regenerating it invalidates the old code
+ * - Join codes stop working after their expiry or once max uses is reached
+ * - Class deletions and student transfers are recorded in the audit log
  */
 export class ClassService {
   private classRepository: ClassRepository
+  private classStaffRepository: ClassStaffRepository
   private userRepository: UserRepository
+  private joinCodeRepository: ClassJoinCodeRepository
+  private userService: UserService
+  private notificationService: NotificationService
+  private auditService: AuditService
 
   constructor(db: Kysely<Database> | Transaction<Database>) {
     this.classRepository = new ClassRepository(db)
+    this.classStaffRepository = new ClassStaffRepository(db)
+    this.joinCodeRepository = new ClassJoinCodeRepository(db)
     this.userRepository = new UserRepository(db)
+    this.userService = new UserService(db)
+    this.notificationService = new NotificationService(db)
+    this.auditService = new AuditService(db)
   }
 
   /**
@@ -61,6 +149,11 @@ export class ClassService {
     }
 
     const createdClass = await this.classRepository.create(classData)
+    await this.classStaffRepository.add({
+      class_id: createdClass.id,
+      user_id: teacherId,
+      role: 'owner',
+    })
     return createdClass
   }
 
@@ -96,9 +189,13 @@ export class ClassService {
     const classRecord = await this.getClassById(id)
 
     // Verify ownership
-    if (classRecord.teacher_id !== teacherId) {
-      throw new ForbiddenError('You can only update your own classes')
-    }
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'classes:update_own',
+      'You can only update your own classes'
+    )
 
     const updatedClass = await this.classRepository.update(id, updates)
     return updatedClass
@@ -117,11 +214,23 @@ export class ClassService {
     const classRecord = await this.getClassById(id)
 
     // Verify ownership
-    if (classRecord.teacher_id !== teacherId) {
-      throw new ForbiddenError('You can only delete your own classes')
-    }
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'classes:delete_own',
+      'You can only delete your own classes'
+    )
 
     await this.classRepository.delete(id)
+
+    await this.auditService.record(
+      teacherId,
+      'class_deleted',
+      { type: 'class', id },
+      classSnapshot(classRecord),
+      null
+    )
   }
 
   /**
@@ -150,6 +259,7 @@ export class ClassService {
    * Enroll student in class
    * - Validates student role
    * - Checks if already enrolled
+   * - Notifies the student
    * @param classId - Class ID
    * @param studentId - Student ID
    * @param teacherId - Teacher ID performing the enrollment (for authorization)
@@ -164,9 +274,13 @@ export class ClassService {
   ): Promise<void> {
     // Verify class exists and teacher ownership
     const classRecord = await this.getClassById(classId)
-    if (classRecord.teacher_id !== teacherId) {
-      throw new ForbiddenError('You can only enroll students in your own classes')
-    }
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'classes:add_student',
+      'You can only enroll students in your own classes'
+    )
 
     // Verify student exists and has student role
     const student = await this.userRepository.findById(studentId)
@@ -188,12 +302,14 @@ export class ClassService {
     }
 
     await this.classRepository.addStudent(classId, studentId)
+    await this.notificationService.notifyEnrolled(classRecord, [studentId])
   }
 
   /**
    * Enroll multiple students in class
    * - Validates all students have student role
    * - Filters out already enrolled students
+   * - Notifies the newly enrolled students
    * @param classId - Class ID
    * @param studentIds - Array of student IDs
    * @param teacherId - Teacher ID performing the enrollment
@@ -212,9 +328,13 @@ export class ClassService {
 
     // Verify class exists and teacher ownership
     const classRecord = await this.getClassById(classId)
-    if (classRecord.teacher_id !== teacherId) {
-      throw new ForbiddenError('You can only enroll students in your own classes')
-    }
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'classes:add_student',
+      'You can only enroll students in your own classes'
+    )
 
     // Verify all students exist and have student role
     const students = await Promise.all(
@@ -247,6 +367,7 @@ export class ClassService {
     }
 
     await this.classRepository.addMultipleStudents(classId, studentsToEnroll)
+    await this.notificationService.notifyEnrolled(classRecord, studentsToEnroll)
     return studentsToEnroll.length
   }
 
@@ -266,9 +387,13 @@ export class ClassService {
   ): Promise<void> {
     // Verify class exists and teacher ownership
     const classRecord = await this.getClassById(classId)
-    if (classRecord.teacher_id !== teacherId) {
-      throw new ForbiddenError('You can only remove students from your own classes')
-    }
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'classes:remove_student',
+      'You can only remove students from your own classes'
+    )
 
     await this.classRepository.removeStudent(classId, studentId)
   }
@@ -299,7 +424,20 @@ export class ClassService {
     const fromClass = await this.getClassById(fromClassId)
     const toClass = await this.getClassById(toClassId)
 
-    if (fromClass.teacher_id !== teacherId || toClass.teacher_id !== teacherId) {
+    if (
+      !(await hasClassStaffPermission(
+        this.classStaffRepository,
+        fromClass,
+        teacherId,
+        'classes:remove_student'
+      )) ||
+      !(await hasClassStaffPermission(
+        this.classStaffRepository,
+        toClass,
+        teacherId,
+        'classes:add_student'
+      ))
+    ) {
       throw new ForbiddenError(
         'You can only transfer students between your own classes'
       )
@@ -307,9 +445,324 @@ export class ClassService {
 
     // Use the repository's transfer method
     await this.classRepository.transferStudents(fromClassId, toClassId, studentIds)
+
+    await this.auditService.record(
+      teacherId,
+      'students_transferred',
+      { type: 'class', id: fromClassId },
+      { class_id: fromClassId, student_ids: studentIds },
+      { class_id: toClassId, student_ids: studentIds }
+    )
+
     return studentIds.length
   }
 
+  /**
+   * Import a class roster from CSV
+   * - Needs Name, Email and Class columns (any order, case-insensitive)
+   * - Creates missing student accounts (without a password) via UserService
+   * - Enrolls each student in the row's class
+   * @param csv - CSV text
+   * @param actor - Importing user; admins reach every class, teachers their own
+   * @returns Per-row report
+   * @throws ValidationError if columns are missing
+   */
+  async importRoster(
+    csv: string,
+    actor: { userId: string; role: UserRole }
+  ): Promise<RosterImportResult> {
+    const [header = [], ...records] = parseCsv(csv)
+    const columns = header.map((name) => name.trim().toLowerCase())
+    const nameIndex = columns.indexOf('name')
+    const emailIndex = columns.indexOf('email')
+    const classIndex = columns.indexOf('class')
+    if (nameIndex === -1 || emailIndex === -1 || classIndex === -1) {
+      throw new ValidationError('CSV must have Name, Email and Class columns')
+    }
+
+    // Class column value -> resolved classes, so repeated values are looked up once
+    const classCache = new Map<string, Class[]>()
+    const rows: RosterImportRow[] = []
+
+    for (const [index, record] of records.entries()) {
+      const row: RosterImportRow = {
+        // Header is line 1
+        line: index + 2,
+        name: (record[nameIndex] ?? '').trim(),
+        email: (record[emailIndex] ?? '').trim(),
+        class: (record[classIndex] ?? '').trim(),
+        classId: null,
+        status: 'invalid_row',
+        message: null,
+      }
+      rows.push(row)
+
+      const parsed = RosterRowSchema.safeParse(row)
+      if (!parsed.success) {
+        row.message = parsed.error.issues[0]?.message ?? null
+        continue
+      }
+
+      const classKey = parsed.data.class.toLowerCase()
+      if (!classCache.has(classKey)) {
+        classCache.set(classKey, await this.findImportClasses(parsed.data.class, actor))
+      }
+      const classes = classCache.get(classKey)!
+      if (classes.length !== 1) {
+        row.status = classes.length === 0 ? 'unknown_class' : 'ambiguous_class'
+        continue
+      }
+      row.classId = classes[0]!.id
+
+      let student = await this.userRepository.findByEmail(parsed.data.email)
+      if (student && student.role !== 'student') {
+        row.status = 'not_a_student'
+        continue
+      }
+
+      if (!student) {
+        student = await this.userService.createUser({
+          email: parsed.data.email,
+          name: parsed.data.name,
+          role: 'student',
+          password_hash: null,
+        })
+        row.status = 'created'
+      } else if (await this.classRepository.isStudentEnrolled(row.classId, student.id)) {
+        row.status = 'already_enrolled'
+        continue
+      } else {
+        row.status = 'enrolled'
+      }
+
+      await this.classRepository.addStudent(row.classId, student.id)
+    }
+
+    return {
+      rows,
+      created: rows.filter((r) => r.status === 'created').length,
+      enrolled: rows.filter((r) => r.status === 'created' || r.status === 'enrolled').length,
+      errorCount: rows.filter(
+        (r) => !['created', 'enrolled', 'already_enrolled'].includes(r.status)
+      ).length,
+    }
+  }
+
+  // ==================== Staff Methods ====================
+
+  /**
+   * List the staff of a class
+   * @param classId - Class ID
+   * @param userId - Requesting teacher (must be on the staff)
+   * @returns Owner, co-teachers and TAs with name and email
+   * @throws NotFoundError if class not found
+   * @throws ForbiddenError if not on the class staff
+   */
+  async listStaff(classId: string, userId: string): Promise<ClassStaffMemberWithUser[]> {
+    const classRecord = await this.getClassById(classId)
+    if ((await getClassStaffRole(this.classStaffRepository, classRecord, userId)) === null) {
+      throw new ForbiddenError('You can only view the staff of your own classes')
+    }
+
+    return this.classStaffRepository.findByClass(classId)
+  }
+
+  /**
+   * Add a co-teacher or TA to a class
+   * @param classId - Class ID
+   * @param ownerId - Class owner
+   * @param data - Email of the teacher to add and their staff role
+   * @returns Created staff member
+   * @throws NotFoundError if class or user not found
+   * @throws ForbiddenError if not the class owner
+   * @throws ValidationError if the user is not a teacher
+   * @throws AlreadyExistsError if the user is already on the staff
+   */
+  async addStaff(
+    classId: string,
+    ownerId: string,
+    data: { email: string; role: Exclude<ClassStaffRole, 'owner'> }
+  ): Promise<ClassStaffMember> {
+    const classRecord = await this.getClassById(classId)
+    this.assertClassOwner(classRecord, ownerId)
+
+    const user = await this.userRepository.findByEmail(data.email.toLowerCase().trim())
+    if (!user) {
+      throw new NotFoundError('User')
+    }
+
+    if (user.role !== 'teacher') {
+      throw new ValidationError('Only teachers can join the staff of a class')
+    }
+
+    const member =
+      user.id === classRecord.teacher_id
+        ? null
+        : await this.classStaffRepository.add({
+            class_id: classId,
+            user_id: user.id,
+            role: data.role,
+          })
+    if (!member) {
+      throw new AlreadyExistsError(`Staff member ${user.email}`)
+    }
+
+    return member
+  }
+
+  /**
+   * Change the staff role of a co-teacher or TA
+   * @param classId - Class ID
+   * @param ownerId - Class owner
+   * @param userId - Staff member
+   * @param role - New staff role
+   * @returns Updated staff member
+   * @throws NotFoundError if class not found or the user is not on the staff
+   * @throws ForbiddenError if not the class owner
+   * @throws InvalidStateError if the user is the owner
+   */
+  async updateStaffRole(
+    classId: string,
+    ownerId: string,
+    userId: string,
+    role: Exclude<ClassStaffRole, 'owner'>
+  ): Promise<ClassStaffMember> {
+    const classRecord = await this.getClassById(classId)
+    this.assertClassOwner(classRecord, ownerId)
+
+    if (userId === classRecord.teacher_id) {
+      throw new InvalidStateError('The role of the class owner cannot be changed')
+    }
+
+    const member = await this.classStaffRepository.updateRole(classId, userId, role)
+    if (!member) {
+      throw new NotFoundError('Staff member')
+    }
+
+    return member
+  }
+
+  /**
+   * Remove a co-teacher or TA from a class
+   * - The owner can remove anyone else; staff members can remove themselves
+   * @param classId - Class ID
+   * @param actorId - Class owner or the staff member leaving
+   * @param userId - Staff member
+   * @throws NotFoundError if class not found or the user is not on the staff
+   * @throws ForbiddenError if neither the class owner nor the staff member
+   * @throws InvalidStateError if the user is the owner
+   */
+  async removeStaff(classId: string, actorId: string, userId: string): Promise<void> {
+    const classRecord = await this.getClassById(classId)
+    if (actorId !== userId) {
+      this.assertClassOwner(classRecord, actorId)
+    }
+
+    if (userId === classRecord.teacher_id) {
+      throw new InvalidStateError('The class owner cannot be removed')
+    }
+
+    const removed = await this.classStaffRepository.remove(classId, userId)
+    if (!removed) {
+      throw new NotFoundError('Staff member')
+    }
+  }
+
+  // ==================== Join Code Methods ====================
+
+  /**
+   * Get the join code of a class
+   * @param classId - Class ID
+   * @param teacherId - Teacher ID (for authorization)
+   * @returns Join code, null if the class has none
+   * @throws NotFoundError if class not found
+   * @throws ForbiddenError if not the class teacher
+   */
+  async getJoinCode(classId: string, teacherId: string): Promise<ClassJoinCode | null> {
+    await this.verifyClassTeacher(classId, teacherId)
+    return this.joinCodeRepository.findByClass(classId)
+  }
+
+  /**
+   * Generate a new join code for a class
+   * - Replaces the previous code and resets its use count
+   * @param classId - Class ID
+   * @param teacherId - Teacher ID (for authorization)
+   * @param options - Optional expiry and max uses (unlimited when omitted)
+   * @returns New join code
+   * @throws NotFoundError if class not found
+   * @throws ForbiddenError if not the class teacher
+   * @throws ValidationError if the expiry is in the past
+   */
+  async regenerateJoinCode(
+    classId: string,
+    teacherId: string,
+    options: { expiresAt?: Date | null; maxUses?: number | null } = {}
+  ): Promise<ClassJoinCode> {
+    await this.verifyClassTeacher(classId, teacherId)
+
+    if (options.expiresAt && options.expiresAt.getTime() <= Date.now()) {
+      throw new ValidationError('Join code expiry must be in the future')
+    }
+
+    return this.joinCodeRepository.save({
+      class_id: classId,
+      code: await this.generateUniqueJoinCode(),
+      expires_at: options.expiresAt ?? null,
+      max_uses: options.maxUses ?? null,
+    })
+  }
+
+  /**
+   * Disable the join code of a class
+   * @param classId - Class ID
+   * @param teacherId - Teacher ID (for authorization)
+   * @throws NotFoundError if class not found or it has no join code
+   * @throws ForbiddenError if not the class teacher
+   */
+  async disableJoinCode(classId: string, teacherId: string): Promise<void> {
+    await this.verifyClassTeacher(classId, teacherId)
+
+    const deleted = await this.joinCodeRepository.deleteByClass(classId)
+    if (!deleted) {
+      throw new NotFoundError('Join code')
+    }
+  }
+
+  /**
+   * Enroll a student in the class of a join code
+   * - Codes are matched case-insensitively
+   * - Counts one use of the code in the same transaction as the enrollment
+   * @param code - Join code entered by the student
+   * @param studentId - Student ID
+   * @returns The joined class
+   * @throws NotFoundError if no class has this code
+   * @throws InvalidStateError if the code has expired or has no uses left
+   * @throws AlreadyExistsError if the student is already enrolled
+   */
+  async joinClassWithCode(code: string, studentId: string): Promise<Class> {
+    const joinCode = await this.joinCodeRepository.findByCode(code.trim().toUpperCase())
+    if (!joinCode) {
+      throw new NotFoundError('Join code')
+    }
+
+    if (joinCode.expires_at && joinCode.expires_at.getTime() <= Date.now()) {
+      throw new InvalidStateError('Join code has expired')
+    }
+
+    if (await this.classRepository.isStudentEnrolled(joinCode.class_id, studentId)) {
+      throw new AlreadyExistsError('Enrollment')
+    }
+
+    // Counting the use and enrolling happen together, or not at all
+    const redeemed = await this.joinCodeRepository.redeem(joinCode.class_id, studentId)
+    if (!redeemed) {
+      throw new InvalidStateError('Join code has reached its maximum uses')
+    }
+
+    return this.getClassById(joinCode.class_id)
+  }
+
   /**
    * Get enrolled students in a class
    * @param classId - Class ID
@@ -377,4 +830,79 @@ export class ClassService {
   async getClassCountForStudent(studentId: string): Promise<number> {
     return this.classRepository.countClassesForStudent(studentId)
   }
+
+  /**
+   * Resolve the Class column of a roster row to the classes the actor may import into
+   * - A UUID is matched by ID, anything else by class name
+   */
+  private async findImportClasses(
+    value: string,
+    actor: { userId: string; role: UserRole }
+  ): Promise<Class[]> {
+    const teacherId = actor.role === 'admin' ? undefined : actor.userId
+
+    const candidates = UUID_PATTERN.test(value)
+      ? [await this.classRepository.findById(value)].filter((c): c is Class => c !== null)
+      : await this.classRepository.findByName(value, teacherId)
+
+    if (!teacherId) {
+      return candidates
+    }
+
+    // TAs see the class but cannot enroll students in it
+    const allowed: Class[] = []
+    for (const classRecord of candidates) {
+      if (
+        await hasClassStaffPermission(
+          this.classStaffRepository,
+          classRecord,
+          teacherId,
+          'classes:add_student'
+        )
+      ) {
+        allowed.push(classRecord)
+      }
+    }
+    return allowed
+  }
+
+  /**
+   * Verify the user owns the class
+   * @throws ForbiddenError otherwise
+   */
+  private assertClassOwner(classRecord: Class, userId: string): void {
+    if (classRecord.teacher_id !== userId) {
+      throw new ForbiddenError('Only the class owner can manage its staff')
+    }
+  }
+
+  /**
+   * Verify the class exists and the teacher may manage its join code
+   */
+  private async verifyClassTeacher(classId: string, teacherId: string): Promise<void> {
+    const classRecord = await this.getClassById(classId)
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'classes:add_student',
+      'You can only manage join codes of your own classes'
+    )
+  }
+
+  /**
+   * Generate a random join code that no class uses yet
+   */
+  private async generateUniqueJoinCode(): Promise<string> {
+    for (;;) {
+      let code = ''
+      for (let i = 0; i < JOIN_CODE_LENGTH; i++) {
+        code += JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)]
+      }
+
+      if (!(await this.joinCodeRepository.findByCode(code))) {
+        return code
+      }
+    }
+  }
 }
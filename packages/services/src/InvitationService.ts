@@ -0,0 +1,149 @@
+import type { Kysely, Transaction } from 'kysely'
+import type { Database, Invitation, User, UserRole } from '@concentrate/database'
+import { InvitationRepository, UserRepository, redis } from '@concentrate/database'
+import {
+  AlreadyExistsError,
+  ForbiddenError,
+  NotFoundError,
+  generateRefreshToken,
+  hashPassword,
+} from '@concentrate/shared'
+import type { Mailer } from './mail'
+
+/**
+ * InvitationService - Business logic for invitation-based account onboarding
+ *
+ * Responsibilities:
+ * - Issue single-use invitation tokens (stored in Redis with a TTL)
+ * - List and revoke pending invitations
+ * - Accept an invitation: create the account with the invited role and a password
+ *
+ * Business Rules:
+ * - Only admins can invite; the inviter fixes the role, the invitee cannot change it
+ * - Cannot invite an email that already has an account
+ * - Invitations expire after 7 days and can be accepted once
+ * - The invitee is emailed the accept link when a mailer is configured
+ */
+export class InvitationService {
+  private invitationRepository: InvitationRepository
+  private userRepository: UserRepository
+  private mailer: Mailer | null
+
+  constructor(db: Kysely<Database> | Transaction<Database>, mailer?: Mailer) {
+    this.invitationRepository = new InvitationRepository(redis)
+    this.userRepository = new UserRepository(db)
+    this.mailer = mailer ?? null
+  }
+
+  /**
+   * Invite someone to create an account
+   * - Validates admin role
+   * - Generates a random single-use token
+   * - Emails the accept link to the invitee
+   * @param inviterId - Admin ID issuing the invitation
+   * @param data - Invitee email, role and optional name
+   * @returns Created invitation (including its token)
+   * @throws NotFoundError if inviter not found
+   * @throws ForbiddenError if inviter is not an admin
+   * @throws AlreadyExistsError if the email already has an account
+   */
+  async createInvitation(
+    inviterId: string,
+    data: { email: string; role: UserRole; name?: string | null | undefined }
+  ): Promise<Invitation> {
+    const inviter = await this.userRepository.findById(inviterId)
+    if (!inviter) {
+      throw new NotFoundError('Inviter')
+    }
+
+    if (inviter.role !== 'admin') {
+      throw new ForbiddenError('Only admins can send invitations')
+    }
+
+    const email = data.email.toLowerCase().trim()
+    if (await this.userRepository.findByEmail(email)) {
+      throw new AlreadyExistsError(`User with email ${email}`)
+    }
+
+    const invitation = await this.invitationRepository.create(generateRefreshToken(), {
+      email,
+      name: data.name ?? null,
+      role: data.role,
+      invitedBy: inviterId,
+    })
+
+    if (this.mailer) {
+      await this.mailer.sendInvitation(invitation, inviter.name)
+    }
+
+    return invitation
+  }
+
+  /**
+   * Get a pending invitation
+   * @param token - Invitation token
+   * @returns Invitation
+   * @throws NotFoundError if the invitation does not exist, expired or was used
+   */
+  async getInvitation(token: string): Promise<Invitation> {
+    const invitation = await this.invitationRepository.get(token)
+    if (!invitation) {
+      throw new NotFoundError('Invitation')
+    }
+    return invitation
+  }
+
+  /**
+   * List pending invitations
+   * @returns Invitations, newest first
+   */
+  async listInvitations(): Promise<Invitation[]> {
+    return this.invitationRepository.getAll()
+  }
+
+  /**
+   * Revoke a pending invitation
+   * @param token - Invitation token
+   * @throws NotFoundError if the invitation does not exist
+   */
+  async revokeInvitation(token: string): Promise<void> {
+    const deleted = await this.invitationRepository.delete(token)
+    if (!deleted) {
+      throw new NotFoundError('Invitation')
+    }
+  }
+
+  /**
+   * Accept an invitation
+   * - Consumes the token, so it cannot be accepted twice
+   * - Creates the account with the invited email and role
+   * @param token - Invitation token
+   * @param data - Invitee name and password (plain text)
+   * @returns Created user
+   * @throws NotFoundError if the invitation does not exist, expired or was used
+   * @throws AlreadyExistsError if the email got an account in the meantime
+   */
+  async acceptInvitation(
+    token: string,
+    data: { name: string; password: string }
+  ): Promise<User> {
+    const pending = await this.getInvitation(token)
+
+    // Checked before consuming so the invitation survives this error
+    if (await this.userRepository.findByEmail(pending.email)) {
+      throw new AlreadyExistsError(`User with email ${pending.email}`)
+    }
+
+    const invitation = await this.invitationRepository.consume(token)
+    if (!invitation) {
+      throw new NotFoundError('Invitation')
+    }
+
+    return this.userRepository.create({
+      email: invitation.email,
+      name: data.name,
+      role: invitation.role,
+      password_hash: await hashPassword(data.password),
+    })
+  }
+}
@@ -0,0 +1,239 @@
+import type { Kysely, Transaction } from 'kysely'
+import type {
+  Database,
+  Lesson,
+  NewLesson,
+  LessonUpdate,
+} from '@concentrate/database'
+import { LessonRepository, ClassRepository, ClassStaffRepository } from '@concentrate/database'
+import { NotFoundError, ForbiddenError } from '@concentrate/shared'
+import { assertClassStaff } from './classStaff'
+
+/**
+ * LessonService - Business logic for lesson (course content) management
+ *
+ * Responsibilities:
+ * - Lesson CRUD with teacher ownership validation
+ * - Draft/published state transitions
+ * - Lesson ordering into modules
+ * - Student read-only access to published lessons
+ *
+ * Business Rules:
+ * - Only class teacher can create/manage lessons (co-teachers too, TAs cannot)
+ * - New lessons are drafts unless explicitly published
+ * - published_at is set when a lesson is published and cleared when unpublished
+ * - Lessons without an explicit position are appended to the end of their module
+ * - Students must be enrolled to view lessons
+ * - Students only see published lessons
+ */
+export class LessonService {
+  private lessonRepository: LessonRepository
+  private classRepository: ClassRepository
+  private classStaffRepository: ClassStaffRepository
+
+  constructor(db: Kysely<Database> | Transaction<Database>) {
+    this.lessonRepository = new LessonRepository(db)
+    this.classRepository = new ClassRepository(db)
+    this.classStaffRepository = new ClassStaffRepository(db)
+  }
+
+  /**
+   * Create lesson
+   * - Validates class exists and teacher ownership
+   * - Appends to the end of its module when no position is given
+   * @param classId - Class ID
+   * @param teacherId - Teacher ID
+   * @param data - Lesson data
+   * @returns Created lesson
+   * @throws NotFoundError if class not found
+   * @throws ForbiddenError if not the class teacher
+   */
+  async createLesson(
+    classId: string,
+    teacherId: string,
+    data: Omit<NewLesson, 'class_id' | 'published_at'>
+  ): Promise<Lesson> {
+    await this.verifyClassOwnership(classId, teacherId)
+
+    const modulePosition = data.module_position ?? 0
+    const position =
+      data.position ?? (await this.lessonRepository.getNextPosition(classId, modulePosition))
+
+    const lessonData: NewLesson = {
+      ...data,
+      class_id: classId,
+      module_position: modulePosition,
+      position,
+      published_at: data.status === 'published' ? new Date() : null,
+    }
+
+    return this.lessonRepository.create(lessonData)
+  }
+
+  /**
+   * Get lesson by ID
+   * @param id - Lesson ID
+   * @returns Lesson if found
+   * @throws NotFoundError if lesson not found
+   */
+  async getLessonById(id: string): Promise<Lesson> {
+    const lesson = await this.lessonRepository.findById(id)
+    if (!lesson) {
+      throw new NotFoundError(`Lesson with ID ${id} not found`)
+    }
+    return lesson
+  }
+
+  /**
+   * Get all lessons of a class for its teacher
+   * - Includes drafts
+   * @param classId - Class ID
+   * @param teacherId - Teacher ID
+   * @returns Lessons ordered by module and position
+   * @throws NotFoundError if class not found
+   * @throws ForbiddenError if not the class teacher
+   */
+  async getLessonsForTeacher(classId: string, teacherId: string): Promise<Lesson[]> {
+    await this.verifyClassOwnership(classId, teacherId)
+    return this.lessonRepository.findByClass(classId)
+  }
+
+  /**
+   * Get published lessons of a class for a student
+   * @param classId - Class ID
+   * @param studentId - Student ID
+   * @returns Published lessons ordered by module and position
+   * @throws NotFoundError if class not found
+   * @throws ForbiddenError if student not enrolled
+   */
+  async getLessonsForStudent(classId: string, studentId: string): Promise<Lesson[]> {
+    await this.verifyEnrollment(classId, studentId)
+    return this.lessonRepository.findByClass(classId, { status: 'published' })
+  }
+
+  /**
+   * Get a single published lesson for a student
+   * - Drafts are reported as not found
+   * @param classId - Class ID
+   * @param lessonId - Lesson ID
+   * @param studentId - Student ID
+   * @returns Published lesson
+   * @throws NotFoundError if class or lesson not found, or lesson is a draft
+   * @throws ForbiddenError if student not enrolled
+   */
+  async getLessonForStudent(
+    classId: string,
+    lessonId: string,
+    studentId: string
+  ): Promise<Lesson> {
+    await this.verifyEnrollment(classId, studentId)
+
+    const lesson = await this.lessonRepository.findById(lessonId)
+    if (!lesson || lesson.class_id !== classId || lesson.status !== 'published') {
+      throw new NotFoundError(`Lesson with ID ${lessonId} not found`)
+    }
+
+    return lesson
+  }
+
+  /**
+   * Update lesson
+   * - Validates teacher ownership
+   * - Maintains published_at on status changes
+   * @param classId - Class ID
+   * @param lessonId - Lesson ID
+   * @param teacherId - Teacher ID
+   * @param updates - Lesson updates
+   * @returns Updated lesson
+   * @throws NotFoundError if class or lesson not found
+   * @throws ForbiddenError if not the class teacher
+   */
+  async updateLesson(
+    classId: string,
+    lessonId: string,
+    teacherId: string,
+    updates: Omit<LessonUpdate, 'class_id' | 'published_at'>
+  ): Promise<Lesson> {
+    const lesson = await this.getClassLesson(classId, lessonId, teacherId)
+
+    const lessonUpdates: LessonUpdate = { ...updates }
+    if (updates.status === 'published' && lesson.status !== 'published') {
+      lessonUpdates.published_at = new Date()
+    } else if (updates.status === 'draft' && lesson.status !== 'draft') {
+      lessonUpdates.published_at = null
+    }
+
+    return this.lessonRepository.update(lessonId, lessonUpdates)
+  }
+
+  /**
+   * Delete lesson
+   * - Validates teacher ownership
+   * @param classId - Class ID
+   * @param lessonId - Lesson ID
+   * @param teacherId - Teacher ID
+   * @throws NotFoundError if class or lesson not found
+   * @throws ForbiddenError if not the class teacher
+   */
+  async deleteLesson(classId: string, lessonId: string, teacherId: string): Promise<void> {
+    await this.getClassLesson(classId, lessonId, teacherId)
+    await this.lessonRepository.delete(lessonId)
+  }
+
+  /**
+   * Verify class exists and the teacher owns it or co-teaches it
+   * @throws NotFoundError if class not found
+   * @throws ForbiddenError if not the class teacher
+   */
+  private async verifyClassOwnership(classId: string, teacherId: string): Promise<void> {
+    const classRecord = await this.classRepository.findById(classId)
+    if (!classRecord) {
+      throw new NotFoundError('Class not found')
+    }
+
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      teacherId,
+      'classes:update_own',
+      'You can only manage lessons for your own classes'
+    )
+  }
+
+  /**
+   * Verify class exists and student is enrolled
+   * @throws NotFoundError if class not found
+   * @throws ForbiddenError if student not enrolled
+   */
+  private async verifyEnrollment(classId: string, studentId: string): Promise<void> {
+    const classRecord = await this.classRepository.findById(classId)
+    if (!classRecord) {
+      throw new NotFoundError('Class not found')
+    }
+
+    const isEnrolled = await this.classRepository.isStudentEnrolled(classId, studentId)
+    if (!isEnrolled) {
+      throw new ForbiddenError('You must be enrolled in the class to view lessons')
+    }
+  }
+
+  /**
+   * Load a lesson of a class after verifying teacher ownership
+   * @throws NotFoundError if class or lesson not found (or lesson belongs to another class)
+   * @throws ForbiddenError if not the class teacher
+   */
+  private async getClassLesson(
+    classId: string,
+    lessonId: string,
+    teacherId: string
+  ): Promise<Lesson> {
+    await this.verifyClassOwnership(classId, teacherId)
+
+    const lesson = await this.getLessonById(lessonId)
+    if (lesson.class_id !== classId) {
+      throw new NotFoundError(`Lesson with ID ${lessonId} not found`)
+    }
+
+    return lesson
+  }
+}
@@ -0,0 +1,346 @@
+import { createHash, randomBytes } from 'crypto'
+import type { Kysely, Transaction } from 'kysely'
+import type { Database, User, UserRole } from '@concentrate/database'
+import { MfaRepository, UserRepository } from '@concentrate/database'
+import {
+  ForbiddenError,
+  InvalidStateError,
+  NotFoundError,
+  ValidationError,
+  buildOtpauthUrl,
+  generateTotpSecret,
+  verifyTotp,
+} from '@concentrate/shared'
+import { AuditService } from './AuditService'
+
+/**
+ * Number of recovery codes issued at a time
+ */
+const RECOVERY_CODE_COUNT = 10
+
+/**
+ * MFA state of a user, as shown on their security settings page
+ */
+export interface MfaStatus {
+  enabled: boolean
+  enabledAt: Date | null
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+/**
+ * Secret to add to an authenticator app, and the URI its QR code encodes
+ */
+export interface MfaEnrollment {
+  secret: string
+  otpauthUrl: string
+}
+
+/**
+ * Second step a user must take after entering their password
+ * - none: log in right away
+ * - verify: enter a code from their authenticator app or a recovery code
+ * - enroll: set up MFA first, because their role requires it
+ */
+export type MfaLoginRequirement = 'none' | 'verify' | 'enroll'
+
+/**
+ * MfaService - Business logic for TOTP multi-factor authentication
+ *
+ * Responsibilities:
+ * - Enrollment: issue a secret, enable MFA once a first code is confirmed
+ * - Verify TOTP and recovery codes at login
+ * - Issue recovery codes, disable MFA
+ * - Admin reset of a user's MFA
+ * - Roles MFA is required for
+ *
+ * Business Rules:
+ * - MFA is optional unless an admin requires it for the user's role
+ * - A TOTP code is accepted once; codes of the previous and next 30 second
+ *   step are accepted for clock drift
+ * - Recovery codes are single-use, stored only as hashes, and shown once
+ * - Disabling MFA or issuing new recovery codes needs a valid code
+ * - Users whose role requires MFA cannot disable it; an admin can still reset
+ *   it, and the user sets it up again at their next login
+ * - Admin resets are recorded in the audit log
+ */
+export class MfaService {
+  private mfaRepository: MfaRepository
+  private userRepository: UserRepository
+  private auditService: AuditService
+
+  constructor(db: Kysely<Database> | Transaction<Database>) {
+    this.mfaRepository = new MfaRepository(db)
+    this.userRepository = new UserRepository(db)
+    this.auditService = new AuditService(db)
+  }
+
+  /**
+   * Get the MFA state of a user
+   * @param userId - User ID
+   * @returns MFA status
+   * @throws NotFoundError if user not found
+   */
+  async getStatus(userId: string): Promise<MfaStatus> {
+    const user = await this.getUser(userId)
+    const mfa = await this.mfaRepository.findByUser(userId)
+    const enabledAt = mfa?.enabled_at ?? null
+
+    return {
+      enabled: enabledAt !== null,
+      enabledAt,
+      required: await this.mfaRepository.isRequiredForRole(user.role),
+      recoveryCodesRemaining: enabledAt
+        ? await this.mfaRepository.countUnusedRecoveryCodes(userId)
+        : 0,
+    }
+  }
+
+  /**
+   * Decide the second login step of a user who entered the right password
+   * @param user - User logging in
+   * @returns Login requirement
+   */
+  async getLoginRequirement(user: User): Promise<MfaLoginRequirement> {
+    const mfa = await this.mfaRepository.findByUser(user.id)
+    if (mfa?.enabled_at) {
+      return 'verify'
+    }
+
+    return (await this.mfaRepository.isRequiredForRole(user.role)) ? 'enroll' : 'none'
+  }
+
+  /**
+   * Start MFA enrollment with a new secret
+   * - Replaces the secret of an unfinished enrollment
+   * @param userId - User ID
+   * @returns Secret and otpauth URI for the authenticator app
+   * @throws NotFoundError if user not found
+   * @throws InvalidStateError if MFA is already enabled
+   */
+  async startEnrollment(userId: string): Promise<MfaEnrollment> {
+    const user = await this.getUser(userId)
+
+    const existing = await this.mfaRepository.findByUser(userId)
+    if (existing?.enabled_at) {
+      throw new InvalidStateError('MFA is already enabled')
+    }
+
+    const secret = generateTotpSecret()
+    await this.mfaRepository.savePendingSecret(userId, secret)
+
+    return {
+      secret,
+      otpauthUrl: buildOtpauthUrl(secret, user.email, this.getIssuer()),
+    }
+  }
+
+  /**
+   * Finish enrollment with a code from the authenticator app
+   * @param userId - User ID
+   * @param code - TOTP code
+   * @returns Recovery codes (shown once)
+   * @throws InvalidStateError if enrollment was not started or MFA is already enabled
+   * @throws ValidationError if the code is invalid
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const mfa = await this.mfaRepository.findByUser(userId)
+    if (!mfa) {
+      throw new InvalidStateError('MFA enrollment has not been started')
+    }
+    if (mfa.enabled_at) {
+      throw new InvalidStateError('MFA is already enabled')
+    }
+
+    const step = verifyTotp(mfa.secret, code)
+    if (step === null) {
+      throw new ValidationError('Invalid verification code')
+    }
+
+    // A concurrent confirmation won
+    if (!(await this.mfaRepository.enable(userId, step))) {
+      throw new InvalidStateError('MFA is already enabled')
+    }
+
+    return this.issueRecoveryCodes(userId)
+  }
+
+  /**
+   * Check a code entered by a user with MFA enabled
+   * - Six digits are checked as a TOTP code, anything else as a recovery code
+   * - Either is used up when accepted
+   * @param userId - User ID
+   * @param code - TOTP or recovery code
+   * @returns True if the code was accepted
+   */
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    const mfa = await this.mfaRepository.findByUser(userId)
+    if (!mfa?.enabled_at) {
+      return false
+    }
+
+    const trimmed = code.replace(/\s/g, '')
+    if (/^\d{6}$/.test(trimmed)) {
+      const step = verifyTotp(mfa.secret, trimmed)
+      return step !== null && this.mfaRepository.claimStep(userId, step)
+    }
+
+    return this.mfaRepository.useRecoveryCode(userId, this.hashRecoveryCode(trimmed))
+  }
+
+  /**
+   * Replace a user's recovery codes
+   * @param userId - User ID
+   * @param code - Current TOTP or recovery code
+   * @returns New recovery codes (shown once)
+   * @throws InvalidStateError if MFA is not enabled
+   * @throws ValidationError if the code is invalid
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    await this.requireValidCode(userId, code)
+    return this.issueRecoveryCodes(userId)
+  }
+
+  /**
+   * Turn MFA off for a user
+   * @param userId - User ID
+   * @param code - Current TOTP or recovery code
+   * @throws NotFoundError if user not found
+   * @throws ForbiddenError if the user's role requires MFA
+   * @throws InvalidStateError if MFA is not enabled
+   * @throws ValidationError if the code is invalid
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    const user = await this.getUser(userId)
+    if (await this.mfaRepository.isRequiredForRole(user.role)) {
+      throw new ForbiddenError(`MFA is required for ${user.role} accounts`)
+    }
+
+    await this.requireValidCode(userId, code)
+    await this.mfaRepository.delete(userId)
+  }
+
+  /**
+   * Remove a user's MFA, e.g. after they lost their device
+   * @param adminId - Admin resetting it (for the audit log)
+   * @param userId - User whose MFA is reset
+   * @throws NotFoundError if user not found
+   * @throws InvalidStateError if the user has not set up MFA
+   */
+  async resetMfa(adminId: string, userId: string): Promise<void> {
+    await this.getUser(userId)
+
+    const mfa = await this.mfaRepository.findByUser(userId)
+    if (!mfa) {
+      throw new InvalidStateError('MFA is not set up for this user')
+    }
+
+    await this.mfaRepository.delete(userId)
+
+    await this.auditService.record(
+      adminId,
+      'mfa_reset',
+      { type: 'user', id: userId },
+      { enabled: mfa.enabled_at !== null, enabledAt: mfa.enabled_at },
+      null
+    )
+  }
+
+  /**
+   * Get the roles MFA is required for
+   * @returns Required roles
+   */
+  async getRequiredRoles(): Promise<UserRole[]> {
+    const rows = await this.mfaRepository.findRequiredRoles()
+    return rows.map((row) => row.role)
+  }
+
+  /**
+   * Set the roles MFA is required for
+   * - Users of a newly required role without MFA set it up at their next login
+   * @param adminId - Admin changing the requirement
+   * @param roles - Roles to require MFA for; all others stop requiring it
+   * @returns Required roles
+   */
+  async setRequiredRoles(adminId: string, roles: UserRole[]): Promise<UserRole[]> {
+    const current = await this.getRequiredRoles()
+
+    for (const role of current.filter((r) => !roles.includes(r))) {
+      await this.mfaRepository.unrequireForRole(role)
+    }
+    for (const role of roles.filter((r) => !current.includes(r))) {
+      await this.mfaRepository.requireForRole(role, adminId)
+    }
+
+    return this.getRequiredRoles()
+  }
+
+  /**
+   * Throw unless a code is accepted for a user with MFA enabled
+   * @param userId - User ID
+   * @param code - TOTP or recovery code
+   * @throws InvalidStateError if MFA is not enabled
+   * @throws ValidationError if the code is invalid
+   */
+  private async requireValidCode(userId: string, code: string): Promise<void> {
+    const mfa = await this.mfaRepository.findByUser(userId)
+    if (!mfa?.enabled_at) {
+      throw new InvalidStateError('MFA is not enabled')
+    }
+
+    if (!(await this.verifyCode(userId, code))) {
+      throw new ValidationError('Invalid verification code')
+    }
+  }
+
+  /**
+   * Generate new recovery codes, replacing the old ones
+   * @param userId - User ID
+   * @returns Recovery codes, formatted like `a1b2c-3d4e5`
+   */
+  private async issueRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex')
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`
+    })
+
+    await this.mfaRepository.replaceRecoveryCodes(
+      userId,
+      codes.map((code) => this.hashRecoveryCode(code))
+    )
+
+    return codes
+  }
+
+  /**
+   * Hash a recovery code; case and dashes do not matter
+   * @param code - Recovery code
+   * @returns SHA-256 hex digest
+   */
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[^0-9a-z]/g, '')
+    return createHash('sha256').update(normalized).digest('hex')
+  }
+
+  /**
+   * Get a user
+   * @param userId - User ID
+   * @returns User
+   * @throws NotFoundError if user not found
+   */
+  private async getUser(userId: string): Promise<User> {
+    const user = await this.userRepository.findById(userId)
+    if (!user) {
+      throw new NotFoundError('User')
+    }
+    return user
+  }
+
+  /**
+   * Service name shown in authenticator apps
+   * @returns Issuer
+   */
+  private getIssuer(): string {
+    return process.env['MFA_ISSUER'] || 'School Portal'
+  }
+}
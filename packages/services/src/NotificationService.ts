@@ -0,0 +1,192 @@
+import type { Kysely, Transaction } from 'kysely'
+import type {
+  Database,
+  Assignment,
+  Class,
+  NewNotification,
+  Notification,
+} from '@concentrate/database'
+import { NotificationRepository, redis } from '@concentrate/database'
+import { NotFoundError } from '@concentrate/shared'
+import { EventPublisher } from './realtime'
+
+/**
+ * NotificationService - Business logic for in-app notifications
+ *
+ * Responsibilities:
+ * - Emit notifications for new assignments, posted grades and enrollments
+ * - List a user's notifications and unread count
+ * - Mark notifications read or unread
+ *
+ * Business Rules:
+ * - Users only see and change their own notifications
+ * - Links are frontend paths of the page the notification is about
+ * - Lists are newest first and capped at 100 per request
+ * - Recipients get a live update for every new notification
+ */
+export class NotificationService {
+  private notificationRepository: NotificationRepository
+  private events: EventPublisher
+
+  constructor(db: Kysely<Database> | Transaction<Database>) {
+    this.notificationRepository = new NotificationRepository(db)
+    this.events = new EventPublisher(redis)
+  }
+
+  // ==================== Emit Methods ====================
+
+  /**
+   * Notify enrolled students of a new assignment
+   * @param assignment - Created assignment
+   * @param className - Name of the assignment's class
+   * @param studentIds - Enrolled student IDs
+   * @returns Created notifications
+   */
+  async notifyAssignmentCreated(
+    assignment: Assignment,
+    className: string,
+    studentIds: string[]
+  ): Promise<Notification[]> {
+    return this.deliver(
+      studentIds.map((studentId) => ({
+        user_id: studentId,
+        type: 'assignment_created' as const,
+        title: `New assignment: ${assignment.title}`,
+        body: `${className} • Due ${assignment.due_date.toISOString().slice(0, 10)}`,
+        link: `/student/assignments/${assignment.id}`,
+      }))
+    )
+  }
+
+  /**
+   * Notify a student that their submission was graded
+   * @param assignment - Graded assignment
+   * @param className - Name of the assignment's class
+   * @param studentId - Student ID
+   * @param grade - Points earned
+   * @returns Created notification
+   */
+  async notifyGradePosted(
+    assignment: Assignment,
+    className: string,
+    studentId: string,
+    grade: number
+  ): Promise<Notification> {
+    const [notification] = await this.deliver([
+      {
+        user_id: studentId,
+        type: 'grade_posted',
+        title: `Grade posted: ${assignment.title}`,
+        body: `${grade}/${assignment.max_points} in ${className}`,
+        link: `/student/assignments/${assignment.id}`,
+      },
+    ])
+    return notification!
+  }
+
+  /**
+   * Notify students that they were enrolled in a class
+   * @param classRecord - Class
+   * @param studentIds - Newly enrolled student IDs
+   * @returns Created notifications
+   */
+  async notifyEnrolled(classRecord: Class, studentIds: string[]): Promise<Notification[]> {
+    return this.deliver(
+      studentIds.map((studentId) => ({
+        user_id: studentId,
+        type: 'class_enrolled' as const,
+        title: `Enrolled in ${classRecord.name}`,
+        body: `You were added to ${classRecord.name}`,
+        link: '/student/classes',
+      }))
+    )
+  }
+
+  // ==================== Read Methods ====================
+
+  /**
+   * Get notifications of a user
+   * @param userId - User ID
+   * @param options - Only unread notifications, and maximum number returned (default 50, max 100)
+   * @returns Notifications, newest first
+   */
+  async getNotifications(
+    userId: string,
+    options: { unreadOnly?: boolean | undefined; limit?: number | undefined } = {}
+  ): Promise<Notification[]> {
+    return this.notificationRepository.findByUser(userId, {
+      unreadOnly: options.unreadOnly ?? false,
+      limit: Math.min(options.limit ?? 50, 100),
+    })
+  }
+
+  /**
+   * Count unread notifications of a user
+   * @param userId - User ID
+   * @returns Unread count
+   */
+  async getUnreadCount(userId: string): Promise<number> {
+    return this.notificationRepository.countUnread(userId)
+  }
+
+  /**
+   * Mark a notification as read
+   * @param id - Notification ID
+   * @param userId - User ID
+   * @returns Updated notification
+   * @throws NotFoundError if the notification does not exist or belongs to someone else
+   */
+  async markRead(id: string, userId: string): Promise<Notification> {
+    const notification = await this.notificationRepository.markRead(id, userId)
+    if (!notification) {
+      throw new NotFoundError('Notification')
+    }
+    return notification
+  }
+
+  /**
+   * Mark a notification as unread
+   * @param id - Notification ID
+   * @param userId - User ID
+   * @returns Updated notification
+   * @throws NotFoundError if the notification does not exist or belongs to someone else
+   */
+  async markUnread(id: string, userId: string): Promise<Notification> {
+    const notification = await this.notificationRepository.markUnread(id, userId)
+    if (!notification) {
+      throw new NotFoundError('Notification')
+    }
+    return notification
+  }
+
+  /**
+   * Mark all notifications of a user as read
+   * @param userId - User ID
+   * @returns Number of notifications marked
+   */
+  async markAllRead(userId: string): Promise<number> {
+    return this.notificationRepository.markAllRead(userId)
+  }
+
+  // ==================== Helper Methods ====================
+
+  /**
+   * Store notifications and push a live update to each recipient
+   * @param notifications - Notifications to create
+   * @returns Created notifications
+   */
+  private async deliver(notifications: NewNotification[]): Promise<Notification[]> {
+    const created = await this.notificationRepository.createMany(notifications)
+
+    await Promise.all(
+      created.map((notification) =>
+        this.events.publish(notification.user_id, {
+          type: 'notification_created',
+          notificationId: notification.id,
+        })
+      )
+    )
+
+    return created
+  }
+}
@@ -1,6 +1,11 @@
 import type { Kysely, Transaction } from 'kysely'
 import type { Database, User, OAuthAccount } from '@concentrate/database'
-import { UserRepository, OAuthAccountRepository } from '@concentrate/database'
+import {
+  UserRepository,
+  OAuthAccountRepository,
+  TokenVersionRepository,
+  redis,
+} from '@concentrate/database'
 import {
   generateAccessToken,
   generateRefreshToken,
@@ -51,15 +56,18 @@ export interface OAuthCallbackResult {
  * - Email is used to match existing users
  * - If email exists with password, require linking
  * - OAuth tokens are stored in oauth_accounts table
- * - JWT tokens are generated same as regular login
+ * - JWT tokens are generated same as regular login, at the user's current
+ *   token version
  */
 export class OAuthService {
   private userRepository: UserRepository
   private oauthAccountRepository: OAuthAccountRepository
+  private tokenVersionRepository: TokenVersionRepository
 
   constructor(db: Kysely<Database> | Transaction<Database>) {
     this.userRepository = new UserRepository(db)
     this.oauthAccountRepository = new OAuthAccountRepository(db)
+    this.tokenVersionRepository = new TokenVersionRepository(redis)
   }
 
   /**
@@ -168,7 +176,8 @@ export class OAuthService {
     }
 
     // Generate JWT tokens (same as regular login)
-    const accessToken = generateAccessToken(user.id, user.role)
+    const tokenVersion = await this.tokenVersionRepository.get(user.id)
+    const accessToken = generateAccessToken(user.id, user.role, tokenVersion)
     const refreshToken = generateRefreshToken()
 
     // Note: Session storage in Redis is handled by the auth routes
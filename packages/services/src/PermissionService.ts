@@ -0,0 +1,151 @@
+import type { Kysely, Transaction } from 'kysely'
+import type { Database, UserPermission, UserRole } from '@concentrate/database'
+import { UserPermissionRepository, UserRepository } from '@concentrate/database'
+import {
+  AlreadyExistsError,
+  NotFoundError,
+  ValidationError,
+  getPermissions,
+  isPermission,
+  type Permission,
+} from '@concentrate/shared'
+import { AuditService } from './AuditService'
+
+/**
+ * PermissionService - Business logic for role and granted permissions
+ *
+ * Responsibilities:
+ * - Resolve a user's effective permissions (role table plus database grants)
+ * - List, grant and revoke extra permissions per user
+ *
+ * Business Rules:
+ * - Only known permissions can be granted
+ * - A permission the user's role already has cannot be granted again
+ * - An unscoped permission (e.g. classes:read_all) satisfies its scoped
+ *   counterpart (classes:read_own) for any record, not just the user's own
+ * - Grants and revocations are recorded in the audit log
+ */
+export class PermissionService {
+  private userPermissionRepository: UserPermissionRepository
+  private userRepository: UserRepository
+  private auditService: AuditService
+
+  constructor(db: Kysely<Database> | Transaction<Database>) {
+    this.userPermissionRepository = new UserPermissionRepository(db)
+    this.userRepository = new UserRepository(db)
+    this.auditService = new AuditService(db)
+  }
+
+  /**
+   * Get the permissions granted to a user on top of their role
+   * @param userId - User ID
+   * @returns Granted permissions (unknown names left by older releases are skipped)
+   */
+  async getGrantedPermissions(userId: string): Promise<Permission[]> {
+    const grants = await this.userPermissionRepository.findByUser(userId)
+    return grants.map((grant) => grant.permission).filter(isPermission)
+  }
+
+  /**
+   * Get everything a user is allowed to do
+   * @param userId - User ID
+   * @param role - User role
+   * @returns Role permissions followed by granted ones
+   */
+  async getEffectivePermissions(userId: string, role: UserRole): Promise<Permission[]> {
+    const granted = await this.getGrantedPermissions(userId)
+    return Array.from(new Set([...getPermissions(role), ...granted]))
+  }
+
+  /**
+   * List a user's permissions
+   * @param userId - User ID
+   * @returns Permissions of the role and granted extras (with who granted them)
+   * @throws NotFoundError if user not found
+   */
+  async listPermissions(
+    userId: string
+  ): Promise<{ role: Permission[]; granted: UserPermission[] }> {
+    const user = await this.userRepository.findById(userId)
+    if (!user) {
+      throw new NotFoundError('User')
+    }
+
+    const grants = await this.userPermissionRepository.findByUser(userId)
+
+    return {
+      role: [...getPermissions(user.role)],
+      granted: grants.filter((grant) => isPermission(grant.permission)),
+    }
+  }
+
+  /**
+   * Grant an extra permission to a user
+   * @param adminId - Admin granting the permission (for the audit log)
+   * @param userId - User receiving the permission
+   * @param permission - Permission name
+   * @returns Created grant
+   * @throws ValidationError if the permission is unknown or already part of the user's role
+   * @throws NotFoundError if user not found
+   * @throws AlreadyExistsError if the permission was already granted
+   */
+  async grantPermission(
+    adminId: string,
+    userId: string,
+    permission: string
+  ): Promise<UserPermission> {
+    if (!isPermission(permission)) {
+      throw new ValidationError(`Unknown permission: ${permission}`)
+    }
+
+    const user = await this.userRepository.findById(userId)
+    if (!user) {
+      throw new NotFoundError('User')
+    }
+
+    if (getPermissions(user.role).includes(permission)) {
+      throw new ValidationError(`The ${user.role} role already has ${permission}`)
+    }
+
+    const grant = await this.userPermissionRepository.grant({
+      user_id: userId,
+      permission,
+      granted_by: adminId,
+    })
+    if (!grant) {
+      throw new AlreadyExistsError(`Permission ${permission}`)
+    }
+
+    await this.auditService.record(
+      adminId,
+      'permission_granted',
+      { type: 'user', id: userId },
+      null,
+      { permission }
+    )
+
+    return grant
+  }
+
+  /**
+   * Revoke a granted permission
+   * @param adminId - Admin revoking the permission (for the audit log)
+   * @param userId - User losing the permission
+   * @param permission - Permission name
+   * @throws NotFoundError if the permission was not granted to the user
+   */
+  async revokePermission(adminId: string, userId: string, permission: string): Promise<void> {
+    const revoked = await this.userPermissionRepository.revoke(userId, permission)
+    if (!revoked) {
+      throw new NotFoundError('Permission grant')
+    }
+
+    await this.auditService.record(
+      adminId,
+      'permission_revoked',
+      { type: 'user', id: userId },
+      { permission },
+      null
+    )
+  }
+}
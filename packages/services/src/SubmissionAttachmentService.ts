@@ -0,0 +1,308 @@
+import { randomUUID } from 'node:crypto'
+import type { Kysely, Transaction } from 'kysely'
+import type { Database, Submission, SubmissionAttachment } from '@concentrate/database'
+import {
+  AssignmentRepository,
+  ClassRepository,
+  ClassStaffRepository,
+  SubmissionAttachmentRepository,
+  SubmissionVersionRepository,
+} from '@concentrate/database'
+import {
+  NotFoundError,
+  ForbiddenError,
+  InvalidStateError,
+  ValidationError,
+  UPLOAD_LIMITS,
+  isAllowedUploadMimeType,
+} from '@concentrate/shared'
+import type { StorageBackend } from './storage'
+import { evaluateLateness } from './AssignmentService'
+import { assertClassStaff } from './classStaff'
+
+/**
+ * Uploaded file as received from the transport layer
+ */
+export interface UploadedFile {
+  filename: string
+  mimeType: string
+  data: Buffer
+}
+
+/**
+ * SubmissionAttachmentService - Business logic for files attached to submissions
+ *
+ * Responsibilities:
+ * - Validate and store uploaded files in the configured storage backend
+ * - Keep attachment metadata in sync with stored files
+ * - Authorize listing and downloading of attachments
+ *
+ * Business Rules:
+ * - Only the submission owner can add or remove attachments
+ * - Attachments cannot change after the submission is graded
+ * - Changing attachments follows the assignment late policy like a content edit:
+ *   it is rejected once the policy no longer accepts work and updates the late
+ *   flag and penalty, except on a submission returned for revision
+ * - Every attachment change records a new submission version
+ * - Files must be non-empty, within the size limit and of an allowed MIME type
+ * - A submission has at most UPLOAD_LIMITS.MAX_FILES_PER_SUBMISSION attachments
+ * - Only the submitting student and the class staff can list or download attachments
+ * - Storage keys are generated server-side; client filenames are kept as metadata only
+ */
+export class SubmissionAttachmentService {
+  private attachmentRepository: SubmissionAttachmentRepository
+  private assignmentRepository: AssignmentRepository
+  private classRepository: ClassRepository
+  private classStaffRepository: ClassStaffRepository
+  private versionRepository: SubmissionVersionRepository
+
+  constructor(
+    db: Kysely<Database> | Transaction<Database>,
+    private storage: StorageBackend
+  ) {
+    this.attachmentRepository = new SubmissionAttachmentRepository(db)
+    this.assignmentRepository = new AssignmentRepository(db)
+    this.classRepository = new ClassRepository(db)
+    this.classStaffRepository = new ClassStaffRepository(db)
+    this.versionRepository = new SubmissionVersionRepository(db)
+  }
+
+  /**
+   * Upload an attachment to a submission
+   * - Validates ownership, grading state, late policy and file limits
+   * - Removes the stored file again if the metadata insert fails
+   * - Updates the late flag and penalty and records a new version
+   * @param submissionId - Submission ID
+   * @param studentId - Student ID
+   * @param file - Uploaded file
+   * @returns Created attachment
+   * @throws NotFoundError if submission not found
+   * @throws ForbiddenError if not the submission owner
+   * @throws InvalidStateError if submission graded, late and not accepted by the
+   *   late policy, or attachment limit reached
+   * @throws ValidationError if file is empty, too large or of a disallowed type
+   */
+  async uploadAttachment(
+    submissionId: string,
+    studentId: string,
+    file: UploadedFile
+  ): Promise<SubmissionAttachment> {
+    const submission = await this.getSubmission(submissionId)
+
+    if (submission.student_id !== studentId) {
+      throw new ForbiddenError('You can only attach files to your own submissions')
+    }
+
+    await this.verifyNotGraded(submission.id)
+    const late = await this.evaluateLateness(submission)
+    this.validateFile(file)
+
+    const count = await this.attachmentRepository.countBySubmission(submission.id)
+    if (count >= UPLOAD_LIMITS.MAX_FILES_PER_SUBMISSION) {
+      throw new InvalidStateError(
+        `A submission can have at most ${UPLOAD_LIMITS.MAX_FILES_PER_SUBMISSION} attachments`
+      )
+    }
+
+    const storageKey = `submissions/${submission.id}/${randomUUID()}`
+    await this.storage.put(storageKey, file.data, file.mimeType)
+
+    let attachment: SubmissionAttachment
+    try {
+      attachment = await this.attachmentRepository.create({
+        submission_id: submission.id,
+        filename: file.filename,
+        mime_type: file.mimeType,
+        size_bytes: file.data.length,
+        storage_key: storageKey,
+      })
+    } catch (error) {
+      await this.storage.delete(storageKey)
+      throw error
+    }
+
+    await this.recordChange(submission, late)
+
+    return attachment
+  }
+
+  /**
+   * Get attachments of a submission
+   * @param submissionId - Submission ID
+   * @param userId - Requesting user ID (student owner or class teacher)
+   * @returns Attachments in upload order
+   * @throws NotFoundError if submission not found
+   * @throws ForbiddenError if user may not view the submission
+   */
+  async getAttachments(submissionId: string, userId: string): Promise<SubmissionAttachment[]> {
+    const submission = await this.getSubmission(submissionId)
+    await this.verifyAccess(submission, userId)
+    return this.attachmentRepository.findBySubmission(submission.id)
+  }
+
+  /**
+   * Download an attachment
+   * @param attachmentId - Attachment ID
+   * @param userId - Requesting user ID (student owner or class teacher)
+   * @returns Attachment metadata and file contents
+   * @throws NotFoundError if attachment, submission or stored file not found
+   * @throws ForbiddenError if user may not view the submission
+   */
+  async downloadAttachment(
+    attachmentId: string,
+    userId: string
+  ): Promise<{ attachment: SubmissionAttachment; data: Buffer }> {
+    const attachment = await this.getAttachment(attachmentId)
+    const submission = await this.getSubmission(attachment.submission_id)
+    await this.verifyAccess(submission, userId)
+
+    const data = await this.storage.get(attachment.storage_key)
+    return { attachment, data }
+  }
+
+  /**
+   * Delete an attachment
+   * - Validates ownership, grading state and late policy
+   * - Updates the late flag and penalty and records a new version
+   * @param attachmentId - Attachment ID
+   * @param studentId - Student ID
+   * @throws NotFoundError if attachment or submission not found
+   * @throws ForbiddenError if not the submission owner
+   * @throws InvalidStateError if submission already graded, or late and not
+   *   accepted by the late policy
+   */
+  async deleteAttachment(attachmentId: string, studentId: string): Promise<void> {
+    const attachment = await this.getAttachment(attachmentId)
+    const submission = await this.getSubmission(attachment.submission_id)
+
+    if (submission.student_id !== studentId) {
+      throw new ForbiddenError('You can only remove files from your own submissions')
+    }
+
+    await this.verifyNotGraded(submission.id)
+    const late = await this.evaluateLateness(submission)
+
+    await this.attachmentRepository.delete(attachment.id)
+    await this.storage.delete(attachment.storage_key)
+
+    await this.recordChange(submission, late)
+  }
+
+  /**
+   * Load submission by ID
+   * @throws NotFoundError if submission not found
+   */
+  private async getSubmission(submissionId: string): Promise<Submission> {
+    const submission = await this.assignmentRepository.getSubmissionById(submissionId)
+    if (!submission) {
+      throw new NotFoundError('Submission')
+    }
+    return submission
+  }
+
+  /**
+   * Load attachment by ID
+   * @throws NotFoundError if attachment not found
+   */
+  private async getAttachment(attachmentId: string): Promise<SubmissionAttachment> {
+    const attachment = await this.attachmentRepository.findById(attachmentId)
+    if (!attachment) {
+      throw new NotFoundError('Attachment')
+    }
+    return attachment
+  }
+
+  /**
+   * Verify user is the submitting student or on the class staff
+   * @throws ForbiddenError otherwise
+   */
+  private async verifyAccess(submission: Submission, userId: string): Promise<void> {
+    if (submission.student_id === userId) {
+      return
+    }
+
+    const assignment = await this.assignmentRepository.findById(submission.assignment_id)
+    const classRecord = assignment
+      ? await this.classRepository.findById(assignment.class_id)
+      : null
+
+    if (!classRecord) {
+      throw new ForbiddenError('You do not have access to this submission')
+    }
+
+    await assertClassStaff(
+      this.classStaffRepository,
+      classRecord,
+      userId,
+      'submissions:read_class',
+      'You do not have access to this submission'
+    )
+  }
+
+  /**
+   * Verify submission has not been graded
+   * @throws InvalidStateError if graded
+   */
+  private async verifyNotGraded(submissionId: string): Promise<void> {
+    const grade = await this.assignmentRepository.getGrade(submissionId)
+    if (grade) {
+      throw new InvalidStateError('Cannot change attachments after grading')
+    }
+  }
+
+  /**
+   * Apply the assignment late policy to an attachment change made now
+   * - Revisions the teacher asked for keep the lateness of the original submission
+   * @returns Late flag and penalty to store, or null to keep the current ones
+   * @throws NotFoundError if assignment not found
+   * @throws InvalidStateError if late and not accepted by the late policy
+   */
+  private async evaluateLateness(
+    submission: Submission
+  ): Promise<{ is_late: boolean; late_penalty: number } | null> {
+    if (submission.returned_at) {
+      return null
+    }
+
+    const assignment = await this.assignmentRepository.findById(submission.assignment_id)
+    if (!assignment) {
+      throw new NotFoundError('Assignment')
+    }
+
+    return evaluateLateness(assignment, new Date())
+  }
+
+  /**
+   * Store the late policy outcome and record the changed attachments as a new version
+   */
+  private async recordChange(
+    submission: Submission,
+    late: { is_late: boolean; late_penalty: number } | null
+  ): Promise<void> {
+    const current = late
+      ? await this.assignmentRepository.updateSubmission(submission.id, late)
+      : submission
+
+    await this.versionRepository.create(current.id, current.content, current.file_url)
+  }
+
+  /**
+   * Validate uploaded file against size and MIME limits
+   * @throws ValidationError if file is invalid
+   */
+  private validateFile(file: UploadedFile): void {
+    if (file.data.length === 0) {
+      throw new ValidationError('Uploaded file is empty')
+    }
+
+    if (file.data.length > UPLOAD_LIMITS.MAX_FILE_SIZE_BYTES) {
+      throw new ValidationError(
+        `File exceeds maximum size of ${UPLOAD_LIMITS.MAX_FILE_SIZE_BYTES / (1024 * 1024)} MB`
+      )
+    }
+
+    if (!isAllowedUploadMimeType(file.mimeType)) {
+      throw new ValidationError(`File type ${file.mimeType} is not allowed`)
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import type { Kysely, Transaction } from 'kysely'
+import type {
+  Database,
+  TeacherGroup,
+  NewTeacherGroup,
+  TeacherGroupUpdate,
+  TeacherGroupMember,
+} from '@concentrate/database'
+import { TeacherGroupRepository, UserRepository } from '@concentrate/database'
+import {
+  NotFoundError,
+  ForbiddenError,
+  AlreadyExistsError,
+} from '@concentrate/shared'
+
+/**
+ * TeacherGroupService - Business logic for teacher group management
+ *
+ * Responsibilities:
+ * - Teacher group CRUD operations
+ * - Group membership management
+ * - Group queries (all groups, groups for a teacher)
+ *
+ * Business Rules:
+ * - Only admins can create groups (creator recorded as group admin)
+ * - Only users with the teacher role can be group members
+ * - A teacher cannot be added to the same group twice
+ * - Deleting a group removes all memberships
+ */
+export class TeacherGroupService {
+  private teacherGroupRepository: TeacherGroupRepository
+  private userRepository: UserRepository
+
+  constructor(db: Kysely<Database> | Transaction<Database>) {
+    this.teacherGroupRepository = new TeacherGroupRepository(db)
+    this.userRepository = new UserRepository(db)
+  }
+
+  /**
+   * Create a new teacher group
+   * - Validates admin role
+   * @param adminId - Admin ID creating the group
+   * @param data - Teacher group data
+   * @returns Created teacher group
+   * @throws NotFoundError if admin not found
+   * @throws ForbiddenError if user is not an admin
+   */
+  async createGroup(
+    adminId: string,
+    data: Omit<NewTeacherGroup, 'admin_id'>
+  ): Promise<TeacherGroup> {
+    const admin = await this.userRepository.findById(adminId)
+    if (!admin) {
+      throw new NotFoundError('Admin not found')
+    }
+
+    if (admin.role !== 'admin') {
+      throw new ForbiddenError('Only admins can create teacher groups')
+    }
+
+    return this.teacherGroupRepository.create({
+      ...data,
+      admin_id: adminId,
+    })
+  }
+
+  /**
+   * Get teacher group by ID
+   * @param id - Teacher group ID
+   * @returns Teacher group if found
+   * @throws NotFoundError if teacher group not found
+   */
+  async getGroupById(id: string): Promise<TeacherGroup> {
+    const group = await this.teacherGroupRepository.findById(id)
+    if (!group) {
+      throw new NotFoundError(`Teacher group with ID ${id} not found`)
+    }
+    return group
+  }
+
+  /**
+   * Get all teacher groups with pagination
+   * @param options - Pagination options
+   * @returns List of teacher groups
+   */
+  async getAllGroups(options?: {
+    page?: number
+    limit?: number
+  }): Promise<TeacherGroup[]> {
+    return this.teacherGroupRepository.findAll(options)
+  }
+
+  /**
+   * Update teacher group
+   * @param id - Teacher group ID
+   * @param updates - Teacher group updates
+   * @returns Updated teacher group
+   * @throws NotFoundError if teacher group not found
+   */
+  async updateGroup(id: string, updates: TeacherGroupUpdate): Promise<TeacherGroup> {
+    await this.getGroupById(id)
+    return this.teacherGroupRepository.update(id, updates)
+  }
+
+  /**
+   * Delete teacher group
+   * - Memberships are removed with the group
+   * @param id - Teacher group ID
+   * @throws NotFoundError if teacher group not found
+   */
+  async deleteGroup(id: string): Promise<void> {
+    await this.getGroupById(id)
+    await this.teacherGroupRepository.delete(id)
+  }
+
+  /**
+   * Add teacher to group
+   * - Validates teacher role
+   * - Checks if already a member
+   * @param groupId - Teacher group ID
+   * @param teacherId - Teacher ID
+   * @throws NotFoundError if group or teacher not found
+   * @throws ForbiddenError if user is not a teacher
+   * @throws AlreadyExistsError if teacher already in group
+   */
+  async addMember(groupId: string, teacherId: string): Promise<void> {
+    await this.getGroupById(groupId)
+
+    const teacher = await this.userRepository.findById(teacherId)
+    if (!teacher) {
+      throw new NotFoundError('Teacher not found')
+    }
+
+    if (teacher.role !== 'teacher') {
+      throw new ForbiddenError('User must have teacher role to join a group')
+    }
+
+    const isMember = await this.teacherGroupRepository.isMember(groupId, teacherId)
+    if (isMember) {
+      throw new AlreadyExistsError('Teacher is already a member of this group')
+    }
+
+    await this.teacherGroupRepository.addMember(groupId, teacherId)
+  }
+
+  /**
+   * Remove teacher from group
+   * @param groupId - Teacher group ID
+   * @param teacherId - Teacher ID
+   * @throws NotFoundError if group not found or teacher not a member
+   */
+  async removeMember(groupId: string, teacherId: string): Promise<void> {
+    await this.getGroupById(groupId)
+
+    const isMember = await this.teacherGroupRepository.isMember(groupId, teacherId)
+    if (!isMember) {
+      throw new NotFoundError('Teacher is not a member of this group')
+    }
+
+    await this.teacherGroupRepository.removeMember(groupId, teacherId)
+  }
+
+  /**
+   * Get members of a group
+   * @param groupId - Teacher group ID
+   * @returns List of members with user details
+   * @throws NotFoundError if group not found
+   */
+  async getMembers(groupId: string): Promise<TeacherGroupMember[]> {
+    await this.getGroupById(groupId)
+    return this.teacherGroupRepository.getMembers(groupId)
+  }
+
+  /**
+   * Get groups a teacher belongs to
+   * @param teacherId - Teacher ID
+   * @returns List of teacher groups
+   */
+  async getGroupsForTeacher(teacherId: string): Promise<TeacherGroup[]> {
+    return this.teacherGroupRepository.findGroupsForTeacher(teacherId)
+  }
+
+  /**
+   * Get teacher group count
+   * @returns Total number of teacher groups
+   */
+  async getGroupCount(): Promise<number> {
+    return this.teacherGroupRepository.count()
+  }
+}
@@ -14,6 +14,8 @@ import {
   InvalidStateError,
   ForbiddenError,
 } from '@concentrate/shared'
+import { AuditService, userSnapshot } from './AuditService'
+import { AuthService } from './AuthService'
 
 /**
  * UserService - Business logic for user management
@@ -31,12 +33,19 @@ import {
  * - Cannot suspend yourself
  * - Cannot suspend/delete the last admin
  * - Cannot delete user with active data (classes, assignments, etc.)
+ * - Updates, suspensions and deletions are recorded in the audit log
+ * - Suspending or deleting a user revokes their sessions and access tokens
+ *   immediately
  */
 export class UserService {
   private userRepository: UserRepository
+  private auditService: AuditService
+  private authService: AuthService
 
   constructor(db: Kysely<Database> | Transaction<Database>) {
     this.userRepository = new UserRepository(db)
+    this.auditService = new AuditService(db)
+    this.authService = new AuthService(db)
   }
 
   /**
@@ -109,11 +118,12 @@ export class UserService {
    * - Hashes password if password is being changed
    * @param id - User ID
    * @param updates - User updates
+   * @param actorId - ID of user performing the action (for the audit log)
    * @returns Updated user
    * @throws NotFoundError if user not found
    * @throws AlreadyExistsError if new email already exists
    */
-  async updateUser(id: string, updates: UserUpdate): Promise<User> {
+  async updateUser(id: string, updates: UserUpdate, actorId?: string): Promise<User> {
     // Check if user exists
     const existingUser = await this.getUserById(id)
 
@@ -139,6 +149,18 @@ export class UserService {
 
     // Update user
     const updatedUser = await this.userRepository.update(id, processedUpdates)
+
+    await this.auditService.record(
+      actorId ?? null,
+      'user_updated',
+      { type: 'user', id },
+      userSnapshot(existingUser),
+      // The hash stays out of the log; only the fact that it changed is kept
+      updates.password_hash
+        ? { ...userSnapshot(updatedUser), password_changed: true }
+        : userSnapshot(updatedUser)
+    )
+
     return updatedUser
   }
 
@@ -146,11 +168,13 @@ export class UserService {
    * Delete user
    * - Prevents deletion of last admin
    * - Should check for active data (implemented in repository)
+   * - Revokes the user's sessions and access tokens
    * @param id - User ID
+   * @param actorId - ID of user performing the action (for the audit log)
    * @throws NotFoundError if user not found
    * @throws InvalidStateError if trying to delete last admin
    */
-  async deleteUser(id: string): Promise<void> {
+  async deleteUser(id: string, actorId?: string): Promise<void> {
     const user = await this.getUserById(id)
 
     // Prevent deletion of last admin
@@ -164,12 +188,22 @@ export class UserService {
     }
 
     await this.userRepository.delete(id)
+    await this.authService.revokeAllSessions(id)
+
+    await this.auditService.record(
+      actorId ?? null,
+      'user_deleted',
+      { type: 'user', id },
+      userSnapshot(user),
+      null
+    )
   }
 
   /**
    * Suspend user
    * - Prevents suspending yourself (requires current user ID)
    * - Prevents suspending last admin
+   * - Revokes the user's sessions and access tokens
    * @param id - User ID to suspend
    * @param currentUserId - ID of user performing the action
    * @throws NotFoundError if user not found
@@ -200,16 +234,27 @@ export class UserService {
     }
 
     const suspendedUser = await this.userRepository.suspend(id)
+    await this.authService.revokeAllSessions(id)
+
+    await this.auditService.record(
+      currentUserId ?? null,
+      'user_suspended',
+      { type: 'user', id },
+      userSnapshot(user),
+      userSnapshot(suspendedUser)
+    )
+
     return suspendedUser
   }
 
   /**
    * Unsuspend user
    * @param id - User ID to unsuspend
+   * @param actorId - ID of user performing the action (for the audit log)
    * @returns Updated user
    * @throws NotFoundError if user not found
    */
-  async unsuspendUser(id: string): Promise<User> {
+  async unsuspendUser(id: string, actorId?: string): Promise<User> {
     const user = await this.getUserById(id)
 
     // Check if already active
@@ -218,6 +263,15 @@ export class UserService {
     }
 
     const unsuspendedUser = await this.userRepository.unsuspend(id)
+
+    await this.auditService.record(
+      actorId ?? null,
+      'user_unsuspended',
+      { type: 'user', id },
+      userSnapshot(user),
+      userSnapshot(unsuspendedUser)
+    )
+
     return unsuspendedUser
   }
 
@@ -0,0 +1,68 @@
+import type { Class, ClassStaffRepository, ClassStaffRole } from '@concentrate/database'
+import { ForbiddenError, hasClassPermission } from '@concentrate/shared'
+import type { Permission } from '@concentrate/shared'
+
+/**
+ * Class staff access checks shared by the services
+ *
+ * Business Rules:
+ * - The class teacher (classes.teacher_id) is the owner, even without a staff row
+ * - The owner has every teacher permission on the class, co-teachers and TAs
+ *   those of their staff role
+ */
+
+/**
+ * Get the staff role of a user in a class
+ * @param classStaffRepository - Repository of the calling service
+ * @param classRecord - Class
+ * @param userId - User ID
+ * @returns Staff role, or null if the user is not on the staff
+ */
+export async function getClassStaffRole(
+  classStaffRepository: ClassStaffRepository,
+  classRecord: Class,
+  userId: string
+): Promise<ClassStaffRole | null> {
+  return classRecord.teacher_id === userId
+    ? 'owner'
+    : classStaffRepository.findRole(classRecord.id, userId)
+}
+
+/**
+ * Check whether a user may act on a class with a teacher permission
+ * @param classStaffRepository - Repository of the calling service
+ * @param classRecord - Class
+ * @param userId - User ID
+ * @param permission - Teacher permission
+ * @returns True if the user's staff role has the permission
+ */
+export async function hasClassStaffPermission(
+  classStaffRepository: ClassStaffRepository,
+  classRecord: Class,
+  userId: string,
+  permission: Permission
+): Promise<boolean> {
+  const staffRole = await getClassStaffRole(classStaffRepository, classRecord, userId)
+  return staffRole !== null && hasClassPermission(staffRole, permission)
+}
+
+/**
+ * Check the user is on the staff of a class with a teacher permission
+ * @param classStaffRepository - Repository of the calling service
+ * @param classRecord - Class
+ * @param userId - User ID
+ * @param permission - Teacher permission
+ * @param message - Error message when the check fails
+ * @throws ForbiddenError otherwise
+ */
+export async function assertClassStaff(
+  classStaffRepository: ClassStaffRepository,
+  classRecord: Class,
+  userId: string,
+  permission: Permission,
+  message: string
+): Promise<void> {
+  if (!(await hasClassStaffPermission(classStaffRepository, classRecord, userId, permission))) {
+    throw new ForbiddenError(message)
+  }
+}
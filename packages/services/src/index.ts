@@ -9,9 +9,56 @@
 
 export { UserService } from './UserService'
 export { AuthService } from './AuthService'
-export type { TokenPair } from './AuthService'
+export type { TokenPair, LoginResult, MfaLoginChallenge, MfaLoginResult } from './AuthService'
+export { MfaService } from './MfaService'
+export type { MfaStatus, MfaEnrollment, MfaLoginRequirement } from './MfaService'
+export { InvitationService } from './InvitationService'
+export { NotificationService } from './NotificationService'
+export { AuditService } from './AuditService'
+export { PermissionService } from './PermissionService'
 export { ClassService } from './ClassService'
+export type {
+  RosterImportResult,
+  RosterImportRow,
+  RosterImportStatus,
+} from './ClassService'
 export { AssignmentService } from './AssignmentService'
+export type {
+  CourseGrade,
+  Gradebook,
+  GradebookCell,
+  GradebookStatus,
+  GradeImportResult,
+  GradeImportRow,
+  GradeImportStatus,
+  StudentGrade,
+} from './AssignmentService'
 export { OAuthService } from './OAuthService'
 export type { GoogleProfile, OAuthCallbackResult } from './OAuthService'
 export { ChatbotService } from './ChatbotService'
+export { TeacherGroupService } from './TeacherGroupService'
+export { LessonService } from './LessonService'
+export { SubmissionAttachmentService } from './SubmissionAttachmentService'
+export type { UploadedFile } from './SubmissionAttachmentService'
+export {
+  LocalDiskStorage,
+  S3Storage,
+  createStorageBackend,
+} from './storage'
+export type { StorageBackend, S3CompatibleClient } from './storage'
+export {
+  Mailer,
+  ConsoleMailTransport,
+  FileMailTransport,
+  SmtpMailTransport,
+  createMailer,
+} from './mail'
+export type { MailMessage, MailTransport, SmtpClient } from './mail'
+export { EventHub, EventPublisher, userChannel } from './realtime'
+export type {
+  RealtimeEvent,
+  RealtimeEventType,
+  RealtimeListener,
+  RedisPublisher,
+  RedisSubscriber,
+} from './realtime'
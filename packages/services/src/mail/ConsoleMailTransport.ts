@@ -0,0 +1,26 @@
+import type { MailMessage, MailTransport } from './MailTransport'
+
+/**
+ * ConsoleMailTransport - Prints emails to stdout instead of sending them
+ *
+ * Default transport for local development, so links in emails
+ * (password resets, invitations) can be copied from the API logs.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  constructor(private write: (output: string) => void = (output) => process.stdout.write(output)) {}
+
+  async send(message: MailMessage): Promise<void> {
+    this.write(
+      [
+        '---------- email ----------',
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        '',
+        message.text,
+        '---------------------------',
+        '',
+      ].join('\n')
+    )
+  }
+}
@@ -0,0 +1,28 @@
+import { randomUUID } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import type { MailMessage, MailTransport } from './MailTransport'
+
+/**
+ * FileMailTransport - Writes each email as a JSON file instead of sending it
+ *
+ * Intended for development and end-to-end tests that need to read
+ * delivered mail back (e.g. to follow a password reset link).
+ * Files are named `{timestamp}-{uuid}.json` so they sort by delivery order.
+ */
+export class FileMailTransport implements MailTransport {
+  private outputDir: string
+
+  constructor(outputDir: string) {
+    this.outputDir = path.resolve(outputDir)
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.outputDir, { recursive: true })
+    const fileName = `${Date.now()}-${randomUUID()}.json`
+    await fs.writeFile(
+      path.join(this.outputDir, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    )
+  }
+}
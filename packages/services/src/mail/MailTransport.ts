@@ -0,0 +1,23 @@
+/**
+ * Outgoing email, fully rendered
+ */
+export interface MailMessage {
+  from: string
+  to: string
+  subject: string
+  text: string
+  html: string
+}
+
+/**
+ * MailTransport - Pluggable delivery for outgoing email
+ *
+ * Implementations only deliver; rendering and addressing happen in Mailer.
+ */
+export interface MailTransport {
+  /**
+   * Deliver a message
+   * @param message - Rendered message
+   */
+  send(message: MailMessage): Promise<void>
+}
@@ -0,0 +1,97 @@
+import type { MailTransport } from './MailTransport'
+import {
+  gradePostedEmail,
+  invitationEmail,
+  passwordResetEmail,
+  type EmailContent,
+} from './templates'
+
+/**
+ * Mailer - Renders the portal's transactional emails and hands them to a transport
+ *
+ * Links point at the frontend (`appUrl`), never at the API.
+ */
+export class Mailer {
+  private appUrl: string
+
+  constructor(
+    private transport: MailTransport,
+    private options: { from: string; appUrl: string }
+  ) {
+    this.appUrl = options.appUrl.replace(/\/+$/, '')
+  }
+
+  /**
+   * Send a password reset link
+   * @param to - Recipient
+   * @param token - Reset token
+   * @param expiresInMinutes - Token lifetime shown in the email
+   */
+  async sendPasswordReset(
+    to: { email: string; name: string },
+    token: string,
+    expiresInMinutes: number
+  ): Promise<void> {
+    await this.send(
+      to.email,
+      passwordResetEmail({
+        name: to.name,
+        resetUrl: `${this.appUrl}/reset-password?token=${encodeURIComponent(token)}`,
+        expiresInMinutes,
+      })
+    )
+  }
+
+  /**
+   * Send an account invitation link
+   * @param invitation - Pending invitation
+   * @param inviterName - Name of the admin who sent it
+   */
+  async sendInvitation(
+    invitation: { token: string; email: string; name: string | null; role: string; expiresAt: Date },
+    inviterName: string
+  ): Promise<void> {
+    await this.send(
+      invitation.email,
+      invitationEmail({
+        name: invitation.name,
+        role: invitation.role,
+        inviterName,
+        inviteUrl: `${this.appUrl}/invite/${encodeURIComponent(invitation.token)}`,
+        expiresAt: invitation.expiresAt,
+      })
+    )
+  }
+
+  /**
+   * Notify a student that a grade was posted
+   * @param to - Student
+   * @param details - Class, assignment and points
+   */
+  async sendGradePosted(
+    to: { email: string; name: string },
+    details: {
+      className: string
+      assignmentId: string
+      assignmentTitle: string
+      grade: number
+      maxPoints: number
+    }
+  ): Promise<void> {
+    await this.send(
+      to.email,
+      gradePostedEmail({
+        name: to.name,
+        className: details.className,
+        assignmentTitle: details.assignmentTitle,
+        grade: details.grade,
+        maxPoints: details.maxPoints,
+        assignmentUrl: `${this.appUrl}/student/assignments/${details.assignmentId}`,
+      })
+    )
+  }
+
+  private async send(to: string, content: EmailContent): Promise<void> {
+    await this.transport.send({ from: this.options.from, to, ...content })
+  }
+}
@@ -0,0 +1,34 @@
+import type { MailMessage, MailTransport } from './MailTransport'
+
+/**
+ * Minimal SMTP client contract
+ *
+ * Matches `sendMail` of a nodemailer SMTP transporter, which `createMailer`
+ * builds from the SMTP_* settings.
+ */
+export interface SmtpClient {
+  sendMail(message: {
+    from: string
+    to: string
+    subject: string
+    text: string
+    html: string
+  }): Promise<unknown>
+}
+
+/**
+ * SmtpMailTransport - Sends email through an SMTP server
+ */
+export class SmtpMailTransport implements MailTransport {
+  constructor(private client: SmtpClient) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await this.client.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    })
+  }
+}
@@ -0,0 +1,73 @@
+import path from 'node:path'
+import nodemailer from 'nodemailer'
+import type { MailTransport } from './MailTransport'
+import { ConsoleMailTransport } from './ConsoleMailTransport'
+import { FileMailTransport } from './FileMailTransport'
+import { SmtpMailTransport, type SmtpClient } from './SmtpMailTransport'
+import { Mailer } from './Mailer'
+
+export type { MailMessage, MailTransport } from './MailTransport'
+export type { SmtpClient } from './SmtpMailTransport'
+export type { EmailContent } from './templates'
+export { ConsoleMailTransport } from './ConsoleMailTransport'
+export { FileMailTransport } from './FileMailTransport'
+export { SmtpMailTransport } from './SmtpMailTransport'
+export { Mailer } from './Mailer'
+export { passwordResetEmail, invitationEmail, gradePostedEmail } from './templates'
+
+/**
+ * Create the mailer selected by environment
+ *
+ * - MAIL_DRIVER=console (default): print emails to stdout
+ * - MAIL_DRIVER=file: write emails as JSON files under MAIL_DIR (default ./mail)
+ * - MAIL_DRIVER=smtp: send through SMTP_HOST/SMTP_PORT (default 587), authenticating
+ *   with SMTP_USER/SMTP_PASS when set; SMTP_SECURE=true uses implicit TLS
+ *
+ * The console and file drivers write reset and invitation links in plain text,
+ * so they are refused when NODE_ENV=production.
+ *
+ * Sender is MAIL_FROM; links point at APP_URL (default http://localhost:3000).
+ *
+ * @param options - SMTP client to use instead of one built from SMTP_* settings
+ * @returns Configured mailer
+ * @throws Error if the driver is unknown, is a development driver in production,
+ *   or SMTP is selected without SMTP_HOST
+ */
+export function createMailer(options?: { smtpClient?: SmtpClient }): Mailer {
+  const driver = process.env['MAIL_DRIVER'] || 'console'
+  let transport: MailTransport
+
+  if ((driver === 'console' || driver === 'file') && process.env['NODE_ENV'] === 'production') {
+    throw new Error(`MAIL_DRIVER=${driver} is for development only; use smtp in production`)
+  }
+
+  if (driver === 'console') {
+    transport = new ConsoleMailTransport()
+  } else if (driver === 'file') {
+    transport = new FileMailTransport(process.env['MAIL_DIR'] || path.resolve('mail'))
+  } else if (driver === 'smtp') {
+    transport = new SmtpMailTransport(options?.smtpClient ?? createSmtpClient())
+  } else {
+    throw new Error(`Unknown MAIL_DRIVER: ${driver}`)
+  }
+
+  return new Mailer(transport, {
+    from: process.env['MAIL_FROM'] || 'School Portal <no-reply@localhost>',
+    appUrl: process.env['APP_URL'] || 'http://localhost:3000',
+  })
+}
+
+function createSmtpClient(): SmtpClient {
+  const host = process.env['SMTP_HOST']
+  if (!host) {
+    throw new Error('MAIL_DRIVER=smtp requires SMTP_HOST')
+  }
+
+  const user = process.env['SMTP_USER']
+  return nodemailer.createTransport({
+    host,
+    port: Number(process.env['SMTP_PORT'] || 587),
+    secure: process.env['SMTP_SECURE'] === 'true',
+    auth: user ? { user, pass: process.env['SMTP_PASS'] || '' } : undefined,
+  })
+}
@@ -0,0 +1,117 @@
+/**
+ * Rendered email content
+ */
+export interface EmailContent {
+  subject: string
+  text: string
+  html: string
+}
+
+/**
+ * Escape a value for interpolation into HTML
+ * @param value - Untrusted text
+ * @returns HTML-safe text
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Wrap paragraphs (already escaped) in the shared HTML layout
+ */
+function layout(paragraphs: string[]): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html><body style="font-family: monospace; color: #404040;">',
+    '<h1 style="font-weight: normal; text-transform: uppercase;">School Portal</h1>',
+    ...paragraphs.map((p) => `<p>${p}</p>`),
+    '</body></html>',
+  ].join('\n')
+}
+
+function link(url: string, label: string): string {
+  return `<a href="${escapeHtml(url)}">${escapeHtml(label)}</a>`
+}
+
+/**
+ * Password reset email
+ * @param data - Recipient name, reset link and link lifetime in minutes
+ */
+export function passwordResetEmail(data: {
+  name: string
+  resetUrl: string
+  expiresInMinutes: number
+}): EmailContent {
+  const intro = `Hi ${data.name},`
+  const body = 'We received a request to reset the password of your School Portal account.'
+  const expiry = `The link expires in ${data.expiresInMinutes} minutes and can be used once. If you did not ask for a reset, you can ignore this email.`
+
+  return {
+    subject: 'Reset your School Portal password',
+    text: [intro, '', body, '', `Reset your password: ${data.resetUrl}`, '', expiry].join('\n'),
+    html: layout([
+      escapeHtml(intro),
+      escapeHtml(body),
+      link(data.resetUrl, 'Reset your password'),
+      escapeHtml(expiry),
+    ]),
+  }
+}
+
+/**
+ * Account invitation email
+ * @param data - Invitee name (optional), role, inviter name, accept link and expiry
+ */
+export function invitationEmail(data: {
+  name: string | null
+  role: string
+  inviterName: string
+  inviteUrl: string
+  expiresAt: Date
+}): EmailContent {
+  const intro = data.name ? `Hi ${data.name},` : 'Hi,'
+  const body = `${data.inviterName} invited you to join School Portal as ${data.role === 'admin' ? 'an' : 'a'} ${data.role}.`
+  const expiry = `The invitation expires on ${data.expiresAt.toISOString().slice(0, 10)}.`
+
+  return {
+    subject: "You're invited to School Portal",
+    text: [intro, '', body, '', `Create your account: ${data.inviteUrl}`, '', expiry].join('\n'),
+    html: layout([
+      escapeHtml(intro),
+      escapeHtml(body),
+      link(data.inviteUrl, 'Create your account'),
+      escapeHtml(expiry),
+    ]),
+  }
+}
+
+/**
+ * Grade posted notice
+ * @param data - Student name, class and assignment, points and a link to the assignment
+ */
+export function gradePostedEmail(data: {
+  name: string
+  className: string
+  assignmentTitle: string
+  grade: number
+  maxPoints: number
+  assignmentUrl: string
+}): EmailContent {
+  const intro = `Hi ${data.name},`
+  const body = `Your submission for "${data.assignmentTitle}" in ${data.className} has been graded: ${data.grade}/${data.maxPoints}.`
+
+  return {
+    subject: `Grade posted: ${data.assignmentTitle}`,
+    text: [intro, '', body, '', `View feedback: ${data.assignmentUrl}`].join('\n'),
+    html: layout([
+      escapeHtml(intro),
+      escapeHtml(body),
+      link(data.assignmentUrl, 'View feedback'),
+    ]),
+  }
+}
@@ -0,0 +1,89 @@
+import { userChannel, type RealtimeEvent } from './events'
+
+/**
+ * Minimal Redis subscribing contract (satisfied by an ioredis client)
+ *
+ * A connection in subscriber mode cannot run other commands, so pass a
+ * dedicated one, e.g. `redis.duplicate()`.
+ */
+export interface RedisSubscriber {
+  subscribe(channel: string): Promise<unknown>
+  unsubscribe(channel: string): Promise<unknown>
+  on(event: 'message', listener: (channel: string, message: string) => void): unknown
+  disconnect(): void
+}
+
+export type RealtimeListener = (event: RealtimeEvent) => void
+
+/**
+ * EventHub - Fans out Redis pub/sub events to in-process listeners
+ *
+ * Design decisions:
+ * - One subscriber connection per process, however many clients are connected
+ * - A user's channel is subscribed while at least one listener wants it,
+ *   so several tabs of one user share a subscription
+ */
+export class EventHub {
+  private listeners = new Map<string, Set<RealtimeListener>>()
+
+  constructor(private subscriber: RedisSubscriber) {
+    this.subscriber.on('message', (channel, message) => this.dispatch(channel, message))
+  }
+
+  /**
+   * Listen to the events of a user
+   * @param userId - User ID
+   * @param listener - Called with every event published to the user
+   * @returns Function that stops listening
+   */
+  async subscribe(userId: string, listener: RealtimeListener): Promise<() => Promise<void>> {
+    const channel = userChannel(userId)
+    let channelListeners = this.listeners.get(channel)
+
+    if (!channelListeners) {
+      channelListeners = new Set()
+      this.listeners.set(channel, channelListeners)
+      await this.subscriber.subscribe(channel)
+    }
+    channelListeners.add(listener)
+
+    return async () => {
+      const current = this.listeners.get(channel)
+      if (!current?.delete(listener) || current.size > 0) {
+        return
+      }
+      this.listeners.delete(channel)
+      await this.subscriber.unsubscribe(channel)
+    }
+  }
+
+  /**
+   * Drop all listeners and close the subscriber connection
+   */
+  close(): void {
+    this.listeners.clear()
+    this.subscriber.disconnect()
+  }
+
+  /**
+   * Deliver a published message to the listeners of its channel
+   * - Malformed messages are ignored
+   */
+  private dispatch(channel: string, message: string): void {
+    const channelListeners = this.listeners.get(channel)
+    if (!channelListeners) {
+      return
+    }
+
+    let event: RealtimeEvent
+    try {
+      event = JSON.parse(message) as RealtimeEvent
+    } catch {
+      return
+    }
+
+    for (const listener of channelListeners) {
+      listener(event)
+    }
+  }
+}
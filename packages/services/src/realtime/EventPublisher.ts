@@ -0,0 +1,38 @@
+import { userChannel, type RealtimeEvent } from './events'
+
+/**
+ * Minimal Redis publishing contract (satisfied by an ioredis client)
+ */
+export interface RedisPublisher {
+  publish(channel: string, message: string): Promise<number>
+}
+
+/**
+ * EventPublisher - Publishes live updates to users over Redis pub/sub
+ *
+ * Every API instance subscribes to the channels of its connected users,
+ * so a change made on one instance reaches clients connected to any other.
+ */
+export class EventPublisher {
+  constructor(private client: RedisPublisher) {}
+
+  /**
+   * Publish an event to one or more users
+   * - Best effort: the change is already saved, so publish errors are ignored
+   *   and clients catch up on their next fetch
+   * @param userIds - Recipient user ID(s)
+   * @param event - Event to deliver
+   */
+  async publish(userIds: string | string[], event: RealtimeEvent): Promise<void> {
+    const recipients = Array.isArray(userIds) ? userIds : [userIds]
+    const message = JSON.stringify(event)
+
+    try {
+      await Promise.all(
+        recipients.map((userId) => this.client.publish(userChannel(userId), message))
+      )
+    } catch {
+      // Nobody is left waiting on a missed hint
+    }
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Live update pushed to a signed-in user
+ *
+ * Events are hints to refetch, not the data itself: they carry IDs only,
+ * so a client that misses one loses nothing a reload would not restore.
+ */
+export type RealtimeEvent =
+  | {
+      type: 'submission_created' | 'submission_updated'
+      assignmentId: string
+      submissionId: string
+      studentId: string
+    }
+  | {
+      type: 'grade_posted' | 'grade_updated'
+      assignmentId: string
+      submissionId: string
+    }
+  | {
+      type: 'notification_created'
+      notificationId: string
+    }
+  // The user's sessions were revoked; streams close instead of forwarding it
+  | {
+      type: 'session_revoked'
+    }
+
+export type RealtimeEventType = RealtimeEvent['type']
+
+/**
+ * Get the Redis pub/sub channel of a user
+ * @param userId - User ID
+ * @returns Channel name
+ */
+export function userChannel(userId: string): string {
+  return `events:user:${userId}`
+}
@@ -0,0 +1,6 @@
+export type { RealtimeEvent, RealtimeEventType } from './events'
+export { userChannel } from './events'
+export { EventPublisher } from './EventPublisher'
+export type { RedisPublisher } from './EventPublisher'
+export { EventHub } from './EventHub'
+export type { RedisSubscriber, RealtimeListener } from './EventHub'
@@ -0,0 +1,51 @@
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { NotFoundError, ValidationError } from '@concentrate/shared'
+import type { StorageBackend } from './StorageBackend'
+
+/**
+ * LocalDiskStorage - Stores files on the local filesystem
+ *
+ * Default backend for development and single-node deployments.
+ * Every key maps to a file below the configured root directory.
+ */
+export class LocalDiskStorage implements StorageBackend {
+  private rootDir: string
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir)
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolveKey(key)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, data)
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolveKey(key))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new NotFoundError('Stored file')
+      }
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolveKey(key), { force: true })
+  }
+
+  /**
+   * Map a key to an absolute path, refusing keys that escape the root directory
+   * @throws ValidationError if the key resolves outside the root directory
+   */
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.rootDir, key)
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new ValidationError('Invalid storage key')
+    }
+    return filePath
+  }
+}
@@ -0,0 +1,56 @@
+import { NotFoundError } from '@concentrate/shared'
+import type { StorageBackend } from './StorageBackend'
+
+/**
+ * Minimal S3-compatible client contract
+ *
+ * Matches the object operations of S3 and compatible services (MinIO, R2, GCS interop).
+ * `createStorageBackend` adapts the AWS SDK client to it from the S3_* settings.
+ */
+export interface S3CompatibleClient {
+  putObject(params: {
+    Bucket: string
+    Key: string
+    Body: Buffer
+    ContentType: string
+  }): Promise<unknown>
+  /** Resolves with the object body, or null if the object does not exist */
+  getObject(params: { Bucket: string; Key: string }): Promise<Buffer | null>
+  deleteObject(params: { Bucket: string; Key: string }): Promise<unknown>
+}
+
+/**
+ * S3Storage - Stores files in an S3-compatible bucket
+ */
+export class S3Storage implements StorageBackend {
+  constructor(
+    private client: S3CompatibleClient,
+    private bucket: string,
+    private prefix = ''
+  ) {}
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.putObject({
+      Bucket: this.bucket,
+      Key: this.objectKey(key),
+      Body: data,
+      ContentType: contentType,
+    })
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const body = await this.client.getObject({ Bucket: this.bucket, Key: this.objectKey(key) })
+    if (!body) {
+      throw new NotFoundError('Stored file')
+    }
+    return body
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.deleteObject({ Bucket: this.bucket, Key: this.objectKey(key) })
+  }
+
+  private objectKey(key: string): string {
+    return this.prefix ? `${this.prefix.replace(/\/+$/, '')}/${key}` : key
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * StorageBackend - Pluggable binary storage for uploaded files
+ *
+ * Implementations store opaque blobs under a key chosen by the caller.
+ * Keys are generated server-side and never derived from user-supplied filenames.
+ */
+export interface StorageBackend {
+  /**
+   * Store a file
+   * @param key - Storage key
+   * @param data - File contents
+   * @param contentType - MIME type of the file
+   */
+  put(key: string, data: Buffer, contentType: string): Promise<void>
+
+  /**
+   * Read a file
+   * @param key - Storage key
+   * @returns File contents
+   * @throws NotFoundError if no file is stored under the key
+   */
+  get(key: string): Promise<Buffer>
+
+  /**
+   * Delete a file
+   * - Deleting a missing key is not an error
+   * @param key - Storage key
+   */
+  delete(key: string): Promise<void>
+}
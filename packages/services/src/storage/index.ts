@@ -0,0 +1,85 @@
+import path from 'node:path'
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  NoSuchKey,
+} from '@aws-sdk/client-s3'
+import type { StorageBackend } from './StorageBackend'
+import { LocalDiskStorage } from './LocalDiskStorage'
+import { S3Storage, type S3CompatibleClient } from './S3Storage'
+
+export type { StorageBackend } from './StorageBackend'
+export { LocalDiskStorage } from './LocalDiskStorage'
+export { S3Storage } from './S3Storage'
+export type { S3CompatibleClient } from './S3Storage'
+
+/**
+ * Create the storage backend selected by environment
+ *
+ * - STORAGE_DRIVER=local (default): files under UPLOAD_DIR (default ./uploads)
+ * - STORAGE_DRIVER=s3: objects in S3_BUCKET under optional S3_PREFIX. The client
+ *   targets S3_REGION (default us-east-1) or an S3-compatible S3_ENDPOINT, with
+ *   S3_ACCESS_KEY_ID/S3_SECRET_ACCESS_KEY when set (otherwise the AWS default
+ *   credential chain); S3_FORCE_PATH_STYLE=true for MinIO-style endpoints
+ *
+ * @param options - S3-compatible client to use instead of one built from S3_* settings
+ * @returns Configured storage backend
+ * @throws Error if the driver is unknown or S3 is selected without S3_BUCKET
+ */
+export function createStorageBackend(options?: { s3Client?: S3CompatibleClient }): StorageBackend {
+  const driver = process.env['STORAGE_DRIVER'] || 'local'
+
+  if (driver === 'local') {
+    return new LocalDiskStorage(process.env['UPLOAD_DIR'] || path.resolve('uploads'))
+  }
+
+  if (driver === 's3') {
+    const bucket = process.env['S3_BUCKET']
+    if (!bucket) {
+      throw new Error('STORAGE_DRIVER=s3 requires S3_BUCKET')
+    }
+    return new S3Storage(
+      options?.s3Client ?? createS3Client(),
+      bucket,
+      process.env['S3_PREFIX'] || ''
+    )
+  }
+
+  throw new Error(`Unknown STORAGE_DRIVER: ${driver}`)
+}
+
+function createS3Client(): S3CompatibleClient {
+  const endpoint = process.env['S3_ENDPOINT']
+  const accessKeyId = process.env['S3_ACCESS_KEY_ID']
+  const client = new S3Client({
+    region: process.env['S3_REGION'] || 'us-east-1',
+    forcePathStyle: process.env['S3_FORCE_PATH_STYLE'] === 'true',
+    ...(endpoint ? { endpoint } : {}),
+    ...(accessKeyId
+      ? {
+          credentials: {
+            accessKeyId,
+            secretAccessKey: process.env['S3_SECRET_ACCESS_KEY'] || '',
+          },
+        }
+      : {}),
+  })
+
+  return {
+    putObject: (params) => client.send(new PutObjectCommand(params)),
+    getObject: async (params) => {
+      try {
+        const object = await client.send(new GetObjectCommand(params))
+        return object.Body ? Buffer.from(await object.Body.transformToByteArray()) : null
+      } catch (error) {
+        if (error instanceof NoSuchKey) {
+          return null
+        }
+        throw error
+      }
+    },
+    deleteObject: (params) => client.send(new DeleteObjectCommand(params)),
+  }
+}
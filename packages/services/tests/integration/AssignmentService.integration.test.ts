@@ -293,11 +293,67 @@ describe('AssignmentService - Integration Tests', () => {
         assignment.id,
         student1.id,
         teacher.id,
-        { grade: 90, feedback: 'Excellent work!' }
+        { grade: 90, feedback: 'Excellent work!' },
+        'Rechecked question 3'
       )
 
       expect(Number(updatedGrade.grade)).toBe(90)
       expect(updatedGrade.feedback).toBe('Excellent work!')
+
+      // Previous grade is kept as a revision
+      const revisions = await assignmentService.getGradeRevisions(submission.id, teacher.id)
+      expect(revisions).toHaveLength(1)
+      expect(revisions[0]).toMatchObject({
+        previous_grade: '85.00',
+        previous_feedback: 'Good work',
+        grade: '90.00',
+        feedback: 'Excellent work!',
+        reason: 'Rechecked question 3',
+        teacher_id: teacher.id,
+      })
+    })
+
+    it('should hide grades from the student until they are released', async () => {
+      const assignment = await assignmentService.createAssignment(
+        classRecord.id,
+        teacher.id,
+        {
+          title: 'Homework 1',
+          description: 'Complete exercises',
+          due_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+        }
+      )
+      await assignmentService.submitAssignment(assignment.id, student1.id, 'My work')
+      await assignmentService.gradeSubmission(assignment.id, student1.id, teacher.id, 70)
+
+      // Unreleased grades can change without a reason
+      await assignmentService.updateGrade(assignment.id, student1.id, teacher.id, {
+        grade: 75,
+      })
+
+      const [pending] = await assignmentService.getGradesWithAssignmentByStudent(student1.id)
+      expect(pending!.pendingRelease).toBe(true)
+      expect(pending!.grade).toBeNull()
+      const [pendingCourseGrade] = await assignmentService.getCourseGradesForStudent(
+        student1.id
+      )
+      expect(pendingCourseGrade!.courseGrade).toBeNull()
+
+      await assignmentService.releaseGrades(assignment.id, teacher.id)
+
+      const [released] = await assignmentService.getGradesWithAssignmentByStudent(student1.id)
+      expect(released!.pendingRelease).toBe(false)
+      expect(Number(released!.grade!.grade)).toBe(75)
+      const [courseGrade] = await assignmentService.getCourseGradesForStudent(student1.id)
+      expect(courseGrade!.courseGrade).toBe(75)
+
+      // Released grades need a reason to change
+      await expect(
+        assignmentService.updateGrade(assignment.id, student1.id, teacher.id, { grade: 80 })
+      ).rejects.toThrow(ValidationError)
+      await expect(
+        assignmentService.releaseGrades(assignment.id, teacher.id)
+      ).rejects.toThrow(InvalidStateError)
     })
 
     it('should handle multiple submissions for same assignment', async () => {
@@ -712,7 +768,8 @@ describe('AssignmentService - Integration Tests', () => {
         {
           grade: 90,
           feedback: 'Excellent work after review',
-        }
+        },
+        'Reviewed with the student'
       )
 
       expect(Number(updated.grade)).toBe(90)
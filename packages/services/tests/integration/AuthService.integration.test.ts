@@ -111,7 +111,7 @@ describe('AuthService - Integration Tests', () => {
 
       // Check Redis for session
       const sessionKey = `session:${result.tokens.refreshToken}`
-      const storedUserId = await redisTest.get(sessionKey)
+      const storedUserId = await redisTest.hget(sessionKey, 'userId')
 
       expect(storedUserId).toBe(result.user.id)
     })
@@ -171,14 +171,14 @@ describe('AuthService - Integration Tests', () => {
 
       // Verify session exists
       const sessionKey = `session:${tokens.refreshToken}`
-      let storedUserId = await redisTest.get(sessionKey)
+      let storedUserId = await redisTest.hget(sessionKey, 'userId')
       expect(storedUserId).toBe(user.id)
 
       // Logout
       await service.logout(tokens.refreshToken)
 
       // Verify session deleted
-      storedUserId = await redisTest.get(sessionKey)
+      storedUserId = await redisTest.hget(sessionKey, 'userId')
       expect(storedUserId).toBeNull()
     })
   })
@@ -195,10 +195,7 @@ describe('AuthService - Integration Tests', () => {
 
       const loginResult = await service.login('refresh@example.com', 'password')
 
-      const refreshResult = await service.refreshAccessToken(
-        loginResult.tokens.refreshToken,
-        false
-      )
+      const refreshResult = await service.refreshAccessToken(loginResult.tokens.refreshToken)
 
       // Should get a valid access token
       expect(refreshResult.accessToken).toBeDefined()
@@ -206,12 +203,9 @@ describe('AuthService - Integration Tests', () => {
       // Should verify successfully
       const decoded = verifyAccessToken(refreshResult.accessToken)
       expect(decoded.userId).toBe(loginResult.user.id)
-
-      // Refresh token should remain the same (not rotated)
-      expect(refreshResult.refreshToken).toBe(loginResult.tokens.refreshToken)
     })
 
-    it('should rotate refresh token when requested', async () => {
+    it('should rotate the refresh token on every refresh', async () => {
       await createTestUser(db, {
         email: 'rotate@example.com',
         password: 'password',
@@ -220,24 +214,62 @@ describe('AuthService - Integration Tests', () => {
       const loginResult = await service.login('rotate@example.com', 'password')
       const oldRefreshToken = loginResult.tokens.refreshToken
 
-      const refreshResult = await service.refreshAccessToken(oldRefreshToken, true)
+      const refreshResult = await service.refreshAccessToken(oldRefreshToken)
 
       expect(refreshResult.refreshToken).not.toBe(oldRefreshToken)
 
       // Old token should be deleted from Redis
       const oldSessionKey = `session:${oldRefreshToken}`
-      const oldSession = await redisTest.get(oldSessionKey)
+      const oldSession = await redisTest.hget(oldSessionKey, 'userId')
       expect(oldSession).toBeNull()
 
       // New token should exist in Redis
       const newSessionKey = `session:${refreshResult.refreshToken}`
-      const newSession = await redisTest.get(newSessionKey)
+      const newSession = await redisTest.hget(newSessionKey, 'userId')
       expect(newSession).toBeDefined()
     })
 
+    it('should revoke the token family and audit a replayed refresh token', async () => {
+      const user = await createTestUser(db, {
+        email: 'replay@example.com',
+        password: 'password',
+      })
+
+      const { tokens } = await service.login('replay@example.com', 'password')
+      const otherDevice = await service.login('replay@example.com', 'password')
+      const rotated = await service.refreshAccessToken(tokens.refreshToken)
+
+      // The attacker replays the stolen, already rotated-out token
+      await expect(
+        service.refreshAccessToken(tokens.refreshToken, { ip: '203.0.113.9' })
+      ).rejects.toThrow(UnauthorizedError)
+
+      // The legitimate client's newer token is revoked too
+      await expect(service.refreshAccessToken(rotated.refreshToken)).rejects.toThrow(
+        UnauthorizedError
+      )
+
+      // Sessions of other devices are kept
+      const sessions = await service.getActiveSessions(user.id)
+      expect(sessions).toEqual([otherDevice.tokens.refreshToken])
+
+      const events = await db
+        .selectFrom('audit_events')
+        .selectAll()
+        .where('action', '=', 'refresh_token_reused')
+        .execute()
+      expect(events).toHaveLength(1)
+      expect(events[0]).toMatchObject({
+        actor_id: null,
+        target_type: 'user',
+        target_id: user.id,
+        after: { ip: '203.0.113.9' },
+      })
+    })
+
     it('should reject refresh with invalid token', async () => {
       await expect(
-        service.refreshAccessToken('invalid_refresh_token', false)
+        service.refreshAccessToken('invalid_refresh_token')
       ).rejects.toThrow(UnauthorizedError)
     })
 
@@ -253,12 +285,12 @@ describe('AuthService - Integration Tests', () => {
       await db.deleteFrom('users').where('id', '=', user.id).execute()
 
       await expect(
-        service.refreshAccessToken(tokens.refreshToken, false)
+        service.refreshAccessToken(tokens.refreshToken)
       ).rejects.toThrow(UnauthorizedError)
 
       // Session should be cleaned up
       const sessionKey = `session:${tokens.refreshToken}`
-      const session = await redisTest.get(sessionKey)
+      const session = await redisTest.hget(sessionKey, 'userId')
       expect(session).toBeNull()
     })
 
@@ -274,12 +306,12 @@ describe('AuthService - Integration Tests', () => {
       await db.updateTable('users').set({ suspended: true }).where('id', '=', user.id).execute()
 
       await expect(
-        service.refreshAccessToken(tokens.refreshToken, false)
+        service.refreshAccessToken(tokens.refreshToken)
       ).rejects.toThrow(ForbiddenError)
 
       // Session should be cleaned up
       const sessionKey = `session:${tokens.refreshToken}`
-      const session = await redisTest.get(sessionKey)
+      const session = await redisTest.hget(sessionKey, 'userId')
       expect(session).toBeNull()
     })
   })
@@ -382,9 +414,9 @@ describe('AuthService - Integration Tests', () => {
       const sessionKey2 = `session:${session2.tokens.refreshToken}`
       const sessionKey3 = `session:${session3.tokens.refreshToken}`
 
-      const stored1 = await redisTest.get(sessionKey1)
-      const stored2 = await redisTest.get(sessionKey2)
-      const stored3 = await redisTest.get(sessionKey3)
+      const stored1 = await redisTest.hget(sessionKey1, 'userId')
+      const stored2 = await redisTest.hget(sessionKey2, 'userId')
+      const stored3 = await redisTest.hget(sessionKey3, 'userId')
 
       expect(stored1).toBeNull()
       expect(stored2).toBeNull()
@@ -482,10 +514,7 @@ describe('AuthService - Integration Tests', () => {
       expect(verifiedUser.id).toBe(registeredUser.id)
 
       // Refresh token
-      const refreshResult = await service.refreshAccessToken(
-        loginResult.tokens.refreshToken,
-        false
-      )
+      const refreshResult = await service.refreshAccessToken(loginResult.tokens.refreshToken)
       expect(refreshResult.accessToken).toBeDefined()
 
       // Logout
@@ -493,7 +522,7 @@ describe('AuthService - Integration Tests', () => {
 
       // Session should be deleted
       const sessionKey = `session:${refreshResult.refreshToken}`
-      const session = await redisTest.get(sessionKey)
+      const session = await redisTest.hget(sessionKey, 'userId')
       expect(session).toBeNull()
     })
 
@@ -1,18 +1,48 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { AssignmentService } from '../../src/AssignmentService'
-import type { AssignmentRepository, ClassRepository } from '@concentrate/database'
-import type { Assignment, Class, Submission, Grade } from '@concentrate/database'
+import type {
+  AssignmentRepository,
+  AssignmentCategoryRepository,
+  ClassRepository,
+  ClassStaffRepository,
+  GradeRevisionRepository,
+  RubricRepository,
+  SubmissionVersionRepository,
+  UserRepository,
+} from '@concentrate/database'
+import type {
+  Assignment,
+  AssignmentCategory,
+  Class,
+  ClassGradeRow,
+  Submission,
+  Grade,
+  SubmissionVersion,
+  RubricCriterionWithLevels,
+} from '@concentrate/database'
 import {
   NotFoundError,
   ForbiddenError,
   InvalidStateError,
   ValidationError,
 } from '@concentrate/shared'
+import type { Mailer } from '../../src/mail'
+import type { NotificationService } from '../../src/NotificationService'
+import type { EventPublisher } from '../../src/realtime'
+import type { AuditService } from '../../src/AuditService'
 
 describe('AssignmentService - Unit Tests', () => {
   let service: AssignmentService
   let mockAssignmentRepository: Partial<AssignmentRepository>
+  let mockVersionRepository: Partial<SubmissionVersionRepository>
+  let mockGradeRevisionRepository: Partial<GradeRevisionRepository>
   let mockClassRepository: Partial<ClassRepository>
+  let mockClassStaffRepository: Partial<ClassStaffRepository>
+  let mockRubricRepository: Partial<RubricRepository>
+  let mockCategoryRepository: Partial<AssignmentCategoryRepository>
+  let mockNotificationService: Partial<NotificationService>
+  let mockEvents: Partial<EventPublisher>
+  let mockAuditService: Partial<AuditService>
   let mockDb: unknown
 
   const mockClass: Class = {
@@ -30,16 +60,28 @@ describe('AssignmentService - Unit Tests', () => {
     title: 'Homework 1',
     description: 'Complete exercises 1-10',
     due_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
+    late_policy: 'reject',
+    late_cutoff: null,
+    late_penalty_per_day: 0,
+    max_points: 100,
+    category_id: null,
+    grades_released_at: null,
     created_at: new Date(),
     updated_at: new Date(),
   }
 
+  // Students see grades of this one as soon as they are posted
+  const releasedAssignment: Assignment = { ...mockAssignment, grades_released_at: new Date() }
+
   const mockSubmission: Submission = {
     id: 'submission-123',
     assignment_id: 'assignment-123',
     student_id: 'student-123',
     content: 'My submission',
     file_url: null,
+    is_late: false,
+    late_penalty: 0,
+    returned_at: null,
     submitted_at: new Date(),
     updated_at: new Date(),
   }
@@ -54,6 +96,40 @@ describe('AssignmentService - Unit Tests', () => {
     updated_at: new Date(),
   }
 
+  const mockVersion: SubmissionVersion = {
+    id: 'version-1',
+    submission_id: 'submission-123',
+    version_number: 1,
+    content: 'My submission',
+    file_url: null,
+    grade: null,
+    feedback: null,
+    returned_at: null,
+    created_at: new Date(),
+  }
+
+  const criterion = (
+    id: string,
+    points: number[]
+  ): RubricCriterionWithLevels => ({
+    id,
+    assignment_id: 'assignment-123',
+    title: `Criterion ${id}`,
+    description: null,
+    position: 0,
+    created_at: new Date(),
+    levels: points.map((p, index) => ({
+      id: `${id}-level-${index}`,
+      criterion_id: id,
+      label: `Level ${index}`,
+      description: null,
+      points: p.toFixed(2),
+      position: index,
+    })),
+  })
+
+  const mockRubric = [criterion('c1', [0, 6, 10]), criterion('c2', [2, 5])]
+
   beforeEach(() => {
     vi.clearAllMocks()
 
@@ -77,14 +153,67 @@ describe('AssignmentService - Unit Tests', () => {
       updateGrade: vi.fn(),
       bulkGradeSubmissions: vi.fn(),
       countByClass: vi.fn(),
+      getSubmissionById: vi.fn(),
+      deleteGrade: vi.fn(),
+    }
+
+    mockVersionRepository = {
+      create: vi.fn().mockResolvedValue(mockVersion),
+      findBySubmission: vi.fn().mockResolvedValue([mockVersion]),
+      findByNumber: vi.fn(),
+      findLatest: vi.fn().mockResolvedValue(mockVersion),
+      markReturned: vi.fn(),
+    }
+
+    mockGradeRevisionRepository = {
+      create: vi.fn(),
+      findBySubmission: vi.fn().mockResolvedValue([]),
     }
 
     mockClassRepository = {
       findById: vi.fn(),
       isStudentEnrolled: vi.fn(),
+      getEnrolledStudents: vi.fn().mockResolvedValue([]),
+    }
+
+    mockRubricRepository = {
+      findByAssignment: vi.fn().mockResolvedValue(mockRubric),
+      replaceForAssignment: vi.fn().mockResolvedValue(mockRubric),
+      deleteByAssignment: vi.fn(),
+      countScoredGrades: vi.fn().mockResolvedValue(0),
+      saveScores: vi.fn(),
+      findScoresByGrade: vi.fn().mockResolvedValue([]),
+    }
+
+    mockCategoryRepository = {
+      create: vi.fn(),
+      findById: vi.fn(),
+      findByClass: vi.fn().mockResolvedValue([]),
+      update: vi.fn(),
+      delete: vi.fn(),
+      sumWeightsByClass: vi.fn().mockResolvedValue(0),
+    }
+
+    mockNotificationService = {
+      notifyAssignmentCreated: vi.fn(),
+      notifyGradePosted: vi.fn(),
+    }
+
+    mockEvents = {
+      publish: vi.fn(),
+    }
+
+    mockAuditService = {
+      record: vi.fn(),
+    }
+
+    mockClassStaffRepository = {
+      findRole: vi.fn().mockResolvedValue(null),
+      findUserIds: vi.fn().mockResolvedValue([]),
     }
 
     mockDb = {} as unknown
+
     service = new AssignmentService(mockDb as never)
 
     // Inject mocks
@@ -92,8 +221,43 @@ describe('AssignmentService - Unit Tests', () => {
       mockAssignmentRepository
     ;(service as unknown as { classRepository: Partial<ClassRepository> }).classRepository =
       mockClassRepository
+    ;(
+      service as unknown as { classStaffRepository: Partial<ClassStaffRepository> }
+    ).classStaffRepository = mockClassStaffRepository
+    ;(
+      service as unknown as { versionRepository: Partial<SubmissionVersionRepository> }
+    ).versionRepository = mockVersionRepository
+    ;(
+      service as unknown as { gradeRevisionRepository: Partial<GradeRevisionRepository> }
+    ).gradeRevisionRepository = mockGradeRevisionRepository
+    ;(service as unknown as { rubricRepository: Partial<RubricRepository> }).rubricRepository =
+      mockRubricRepository
+    ;(
+      service as unknown as { categoryRepository: Partial<AssignmentCategoryRepository> }
+    ).categoryRepository = mockCategoryRepository
+    ;(
+      service as unknown as { notificationService: Partial<NotificationService> }
+    ).notificationService = mockNotificationService
+    ;(service as unknown as { events: Partial<EventPublisher> }).events = mockEvents
+    ;(service as unknown as { auditService: Partial<AuditService> }).auditService =
+      mockAuditService
   })
 
+  /**
+   * Give the service a mailer and a student to email
+   */
+  const withMailer = (sendGradePosted = vi.fn()) => {
+    ;(service as unknown as { mailer: Partial<Mailer> }).mailer = { sendGradePosted }
+    ;(service as unknown as { userRepository: Partial<UserRepository> }).userRepository = {
+      findById: vi.fn().mockResolvedValue({
+        id: 'student-123',
+        email: 'student@example.com',
+        name: 'Test Student',
+      }),
+    }
+    return sendGradePosted
+  }
+
   // ===========================================
   // createAssignment() Tests
   // ===========================================
@@ -118,6 +282,51 @@ describe('AssignmentService - Unit Tests', () => {
       expect(result).toEqual(mockAssignment)
     })
 
+    it('should let a co-teacher create assignments', async () => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockClassStaffRepository.findRole = vi.fn().mockResolvedValue('co_teacher')
+      mockAssignmentRepository.create = vi.fn().mockResolvedValue(mockAssignment)
+
+      await service.createAssignment('class-123', 'co-teacher-123', {
+        title: 'Homework 1',
+        due_date: new Date(),
+      })
+
+      expect(mockAssignmentRepository.create).toHaveBeenCalled()
+    })
+
+    it('should throw ForbiddenError if teacher is a TA', async () => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockClassStaffRepository.findRole = vi.fn().mockResolvedValue('ta')
+
+      await expect(
+        service.createAssignment('class-123', 'ta-123', {
+          title: 'Homework 1',
+          due_date: new Date(),
+        })
+      ).rejects.toThrow(ForbiddenError)
+
+      expect(mockAssignmentRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('should notify enrolled students', async () => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockClassRepository.getEnrolledStudents = vi.fn().mockResolvedValue(['s-1', 's-2'])
+      mockAssignmentRepository.create = vi.fn().mockResolvedValue(mockAssignment)
+
+      await service.createAssignment('class-123', 'teacher-123', {
+        title: 'Homework 1',
+        description: 'Complete exercises',
+        due_date: new Date(),
+      })
+
+      expect(mockNotificationService.notifyAssignmentCreated).toHaveBeenCalledWith(
+        mockAssignment,
+        'Math 101',
+        ['s-1', 's-2']
+      )
+    })
+
     it('should throw NotFoundError if class not found', async () => {
       mockClassRepository.findById = vi.fn().mockResolvedValue(null)
 
@@ -143,6 +352,22 @@ describe('AssignmentService - Unit Tests', () => {
 
       expect(mockAssignmentRepository.create).not.toHaveBeenCalled()
     })
+
+    it('should throw ValidationError if late cutoff is before due date', async () => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+
+      await expect(
+        service.createAssignment('class-123', 'teacher-123', {
+          title: 'Homework',
+          description: 'Description',
+          due_date: new Date('2026-03-10T00:00:00Z'),
+          late_policy: 'allow',
+          late_cutoff: new Date('2026-03-09T00:00:00Z'),
+        })
+      ).rejects.toThrow(ValidationError)
+
+      expect(mockAssignmentRepository.create).not.toHaveBeenCalled()
+    })
   })
 
   // ===========================================
@@ -211,6 +436,19 @@ describe('AssignmentService - Unit Tests', () => {
         })
       ).rejects.toThrow(NotFoundError)
     })
+
+    it('should validate new late cutoff against existing due date', async () => {
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+
+      await expect(
+        service.updateAssignment('assignment-123', 'teacher-123', {
+          late_cutoff: new Date(mockAssignment.due_date.getTime() - 60 * 60 * 1000),
+        })
+      ).rejects.toThrow(ValidationError)
+
+      expect(mockAssignmentRepository.update).not.toHaveBeenCalled()
+    })
   })
 
   // ===========================================
@@ -302,6 +540,14 @@ describe('AssignmentService - Unit Tests', () => {
       expect(mockAssignmentRepository.findByTeacher).toHaveBeenCalledWith('teacher-123', undefined)
     })
 
+    it('getAllAssignments should support pagination', async () => {
+      mockAssignmentRepository.findAll = vi.fn().mockResolvedValue([mockAssignment])
+
+      await service.getAllAssignments({ page: 1, limit: 10 })
+
+      expect(mockAssignmentRepository.findAll).toHaveBeenCalledWith({ page: 1, limit: 10 })
+    })
+
     it('getAssignmentsForStudent should return assignments', async () => {
       const assignments = [mockAssignment]
       mockAssignmentRepository.findByStudent = vi.fn().mockResolvedValue(assignments)
@@ -342,6 +588,7 @@ describe('AssignmentService - Unit Tests', () => {
       mockClassRepository.isStudentEnrolled = vi.fn().mockResolvedValue(true)
       mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(null)
       mockAssignmentRepository.submitAssignment = vi.fn().mockResolvedValue(mockSubmission)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
 
       const result = await service.submitAssignment(
         'assignment-123',
@@ -353,9 +600,21 @@ describe('AssignmentService - Unit Tests', () => {
         'assignment-123',
         'student-123',
         'My answer',
-        undefined
+        undefined,
+        { is_late: false, late_penalty: 0 }
+      )
+      expect(mockVersionRepository.create).toHaveBeenCalledWith(
+        'submission-123',
+        'My submission',
+        null
       )
       expect(result).toEqual(mockSubmission)
+      expect(mockEvents.publish).toHaveBeenCalledWith('teacher-123', {
+        type: 'submission_created',
+        assignmentId: 'assignment-123',
+        submissionId: 'submission-123',
+        studentId: 'student-123',
+      })
     })
 
     it('should throw ForbiddenError if student not enrolled', async () => {
@@ -410,9 +669,90 @@ describe('AssignmentService - Unit Tests', () => {
         'assignment-123',
         'student-123',
         'My answer',
-        'https://example.com/file.pdf'
+        'https://example.com/file.pdf',
+        { is_late: false, late_penalty: 0 }
+      )
+    })
+
+    it('should accept late submission without penalty under allow policy', async () => {
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue({
+        ...mockAssignment,
+        late_policy: 'allow',
+        due_date: new Date(Date.now() - 60 * 60 * 1000), // 1 hour ago
+      })
+      mockClassRepository.isStudentEnrolled = vi.fn().mockResolvedValue(true)
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(null)
+      mockAssignmentRepository.submitAssignment = vi.fn().mockResolvedValue(mockSubmission)
+
+      await service.submitAssignment('assignment-123', 'student-123', 'My answer')
+
+      expect(mockAssignmentRepository.submitAssignment).toHaveBeenCalledWith(
+        'assignment-123',
+        'student-123',
+        'My answer',
+        undefined,
+        { is_late: true, late_penalty: 0 }
+      )
+    })
+
+    it('should apply penalty per started day late', async () => {
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue({
+        ...mockAssignment,
+        late_policy: 'penalty',
+        late_penalty_per_day: 10,
+        due_date: new Date(Date.now() - 36 * 60 * 60 * 1000), // 1.5 days ago
+      })
+      mockClassRepository.isStudentEnrolled = vi.fn().mockResolvedValue(true)
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(null)
+      mockAssignmentRepository.submitAssignment = vi.fn().mockResolvedValue(mockSubmission)
+
+      await service.submitAssignment('assignment-123', 'student-123', 'My answer')
+
+      expect(mockAssignmentRepository.submitAssignment).toHaveBeenCalledWith(
+        'assignment-123',
+        'student-123',
+        'My answer',
+        undefined,
+        { is_late: true, late_penalty: 20 }
+      )
+    })
+
+    it('should cap late penalty at 100 percent', async () => {
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue({
+        ...mockAssignment,
+        late_policy: 'penalty',
+        late_penalty_per_day: 40,
+        due_date: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000), // 5 days ago
+      })
+      mockClassRepository.isStudentEnrolled = vi.fn().mockResolvedValue(true)
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(null)
+      mockAssignmentRepository.submitAssignment = vi.fn().mockResolvedValue(mockSubmission)
+
+      await service.submitAssignment('assignment-123', 'student-123', 'My answer')
+
+      expect(mockAssignmentRepository.submitAssignment).toHaveBeenCalledWith(
+        'assignment-123',
+        'student-123',
+        'My answer',
+        undefined,
+        { is_late: true, late_penalty: 100 }
       )
     })
+
+    it('should throw InvalidStateError after late cutoff', async () => {
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue({
+        ...mockAssignment,
+        late_policy: 'allow',
+        due_date: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), // 2 days ago
+        late_cutoff: new Date(Date.now() - 24 * 60 * 60 * 1000), // yesterday
+      })
+      mockClassRepository.isStudentEnrolled = vi.fn().mockResolvedValue(true)
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(null)
+
+      await expect(
+        service.submitAssignment('assignment-123', 'student-123', 'My answer')
+      ).rejects.toThrow('Cannot submit assignment after late cutoff')
+    })
   })
 
   // ===========================================
@@ -426,6 +766,8 @@ describe('AssignmentService - Unit Tests', () => {
         ...mockSubmission,
         content: 'Updated content',
       })
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
 
       const result = await service.updateSubmission('assignment-123', 'student-123', {
         content: 'Updated content',
@@ -433,8 +775,22 @@ describe('AssignmentService - Unit Tests', () => {
 
       expect(mockAssignmentRepository.updateSubmission).toHaveBeenCalledWith('submission-123', {
         content: 'Updated content',
+        is_late: false,
+        late_penalty: 0,
+        returned_at: null,
       })
+      expect(mockVersionRepository.create).toHaveBeenCalledWith(
+        'submission-123',
+        'Updated content',
+        null
+      )
       expect(result.content).toBe('Updated content')
+      expect(mockEvents.publish).toHaveBeenCalledWith('teacher-123', {
+        type: 'submission_updated',
+        assignmentId: 'assignment-123',
+        submissionId: 'submission-123',
+        studentId: 'student-123',
+      })
     })
 
     it('should throw NotFoundError if submission not found', async () => {
@@ -467,115 +823,478 @@ describe('AssignmentService - Unit Tests', () => {
         })
       ).rejects.toThrow(InvalidStateError)
     })
-  })
 
-  // ===========================================
-  // Submission Retrieval Tests
-  // ===========================================
-  describe('Submission Retrieval', () => {
-    it('getSubmission should return submission if found', async () => {
+    it('should recompute lateness and penalty for edits after the due date', async () => {
       mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue(null)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue({
+        ...mockAssignment,
+        late_policy: 'penalty',
+        late_penalty_per_day: 10,
+        due_date: new Date(Date.now() - 36 * 60 * 60 * 1000), // 1.5 days ago
+      })
+      mockAssignmentRepository.updateSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
 
-      const result = await service.getSubmission('assignment-123', 'student-123')
+      await service.updateSubmission('assignment-123', 'student-123', { content: 'Updated' })
 
-      expect(result).toEqual(mockSubmission)
+      expect(mockAssignmentRepository.updateSubmission).toHaveBeenCalledWith('submission-123', {
+        content: 'Updated',
+        is_late: true,
+        late_penalty: 20,
+        returned_at: null,
+      })
     })
 
-    it('getSubmission should return null if not found', async () => {
-      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(null)
+    it('should reject edits after the due date under the reject policy', async () => {
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue(null)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue({
+        ...mockAssignment,
+        due_date: new Date(Date.now() - 60 * 60 * 1000), // 1 hour ago
+      })
 
-      const result = await service.getSubmission('assignment-123', 'student-123')
+      await expect(
+        service.updateSubmission('assignment-123', 'student-123', { content: 'Updated' })
+      ).rejects.toThrow('Cannot submit assignment after due date')
 
-      expect(result).toBeNull()
+      expect(mockAssignmentRepository.updateSubmission).not.toHaveBeenCalled()
+      expect(mockVersionRepository.create).not.toHaveBeenCalled()
     })
 
-    it('getSubmissionsByAssignment should return submissions when teacher owns class', async () => {
-      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+    it('should accept revisions of a returned submission after the due date', async () => {
+      const returned = { ...mockSubmission, returned_at: new Date() }
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(returned)
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue(null)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue({
+        ...mockAssignment,
+        due_date: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), // 2 days ago
+      })
+      mockAssignmentRepository.updateSubmission = vi.fn().mockResolvedValue(returned)
       mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
-      mockAssignmentRepository.getSubmissionsByAssignment = vi
-        .fn()
-        .mockResolvedValue([mockSubmission])
 
-      const result = await service.getSubmissionsByAssignment('assignment-123', 'teacher-123')
+      await service.updateSubmission('assignment-123', 'student-123', { content: 'Revised' })
 
-      expect(result).toEqual([mockSubmission])
+      expect(mockAssignmentRepository.updateSubmission).toHaveBeenCalledWith('submission-123', {
+        content: 'Revised',
+        returned_at: null,
+      })
     })
 
-    it('getSubmissionsByAssignment should throw ForbiddenError if not class teacher', async () => {
-      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+    it('should keep the original penalty when revising a returned submission', async () => {
+      const returned = { ...mockSubmission, returned_at: new Date() }
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(returned)
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue(null)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue({
+        ...mockAssignment,
+        late_policy: 'penalty',
+        late_penalty_per_day: 10,
+        due_date: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000), // 5 days ago
+      })
+      mockAssignmentRepository.updateSubmission = vi.fn().mockResolvedValue(returned)
       mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
 
-      await expect(
-        service.getSubmissionsByAssignment('assignment-123', 'different-teacher')
-      ).rejects.toThrow(ForbiddenError)
-    })
+      await service.updateSubmission('assignment-123', 'student-123', { content: 'Revised' })
 
-    it('getSubmissionsByStudent should return student submissions', async () => {
-      mockAssignmentRepository.getSubmissionsByStudent = vi
-        .fn()
-        .mockResolvedValue([mockSubmission])
+      expect(mockAssignmentRepository.updateSubmission).toHaveBeenCalledWith('submission-123', {
+        content: 'Revised',
+        returned_at: null,
+      })
+    })
 
-      const result = await service.getSubmissionsByStudent('student-123')
+    it('should reject edits after the late cutoff', async () => {
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue(null)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue({
+        ...mockAssignment,
+        late_policy: 'allow',
+        due_date: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), // 2 days ago
+        late_cutoff: new Date(Date.now() - 24 * 60 * 60 * 1000), // yesterday
+      })
 
-      expect(result).toEqual([mockSubmission])
-      expect(mockAssignmentRepository.getSubmissionsByStudent).toHaveBeenCalledWith('student-123')
+      await expect(
+        service.updateSubmission('assignment-123', 'student-123', { content: 'Updated' })
+      ).rejects.toThrow('Cannot submit assignment after late cutoff')
     })
   })
 
   // ===========================================
-  // gradeSubmission() Tests
+  // Submission Versions Tests
   // ===========================================
-  describe('gradeSubmission', () => {
-    it('should grade submission successfully', async () => {
-      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+  describe('returnSubmissionForRevision', () => {
+    beforeEach(() => {
+      mockAssignmentRepository.getSubmissionById = vi.fn().mockResolvedValue(mockSubmission)
       mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
       mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
-      mockAssignmentRepository.gradeSubmission = vi.fn().mockResolvedValue(mockGrade)
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue(mockGrade)
+      mockAssignmentRepository.updateSubmission = vi.fn().mockResolvedValue({
+        ...mockSubmission,
+        returned_at: new Date(),
+      })
+    })
 
-      const result = await service.gradeSubmission(
-        'assignment-123',
-        'student-123',
+    it('should snapshot grade onto latest version and reopen submission', async () => {
+      const result = await service.returnSubmissionForRevision('submission-123', 'teacher-123')
+
+      expect(mockVersionRepository.markReturned).toHaveBeenCalledWith(
+        'version-1',
+        mockGrade.grade,
+        mockGrade.feedback
+      )
+      expect(mockAssignmentRepository.deleteGrade).toHaveBeenCalledWith('grade-123')
+      expect(mockAuditService.record).toHaveBeenCalledWith(
         'teacher-123',
-        85,
-        'Good work'
+        'grade_returned',
+        { type: 'submission', id: 'submission-123' },
+        expect.objectContaining({ grade: 85, feedback: 'Good work' }),
+        null
       )
+      expect(mockAssignmentRepository.updateSubmission).toHaveBeenCalledWith('submission-123', {
+        returned_at: expect.any(Date),
+      })
+      expect(result.returned_at).toBeInstanceOf(Date)
+    })
 
-      expect(mockAssignmentRepository.gradeSubmission).toHaveBeenCalledWith(
+    it('should create a version first for unversioned submissions', async () => {
+      mockVersionRepository.findLatest = vi.fn().mockResolvedValue(null)
+
+      await service.returnSubmissionForRevision('submission-123', 'teacher-123')
+
+      expect(mockVersionRepository.create).toHaveBeenCalledWith(
         'submission-123',
-        'teacher-123',
-        85,
-        'Good work'
+        'My submission',
+        null
       )
-      expect(result).toEqual(mockGrade)
+      expect(mockVersionRepository.markReturned).toHaveBeenCalled()
     })
 
-    it('should throw ValidationError if grade < 0', async () => {
-      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
-
+    it('should throw ForbiddenError if not the class teacher', async () => {
       await expect(
-        service.gradeSubmission('assignment-123', 'student-123', 'teacher-123', -5)
-      ).rejects.toThrow(ValidationError)
+        service.returnSubmissionForRevision('submission-123', 'different-teacher')
+      ).rejects.toThrow(ForbiddenError)
 
-      expect(mockAssignmentRepository.gradeSubmission).not.toHaveBeenCalled()
+      expect(mockAssignmentRepository.deleteGrade).not.toHaveBeenCalled()
     })
 
-    it('should throw ValidationError if grade > 100', async () => {
-      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+    it('should throw InvalidStateError if submission not graded', async () => {
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue(null)
 
       await expect(
-        service.gradeSubmission('assignment-123', 'student-123', 'teacher-123', 105)
-      ).rejects.toThrow(ValidationError)
+        service.returnSubmissionForRevision('submission-123', 'teacher-123')
+      ).rejects.toThrow(InvalidStateError)
     })
 
     it('should throw NotFoundError if submission not found', async () => {
-      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(null)
+      mockAssignmentRepository.getSubmissionById = vi.fn().mockResolvedValue(null)
 
       await expect(
-        service.gradeSubmission('assignment-123', 'student-123', 'teacher-123', 85)
+        service.returnSubmissionForRevision('missing', 'teacher-123')
       ).rejects.toThrow(NotFoundError)
     })
+  })
 
-    it('should throw ForbiddenError if not class teacher', async () => {
+  describe('getSubmissionVersions', () => {
+    beforeEach(() => {
+      mockAssignmentRepository.getSubmissionById = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+    })
+
+    it('should allow submission owner', async () => {
+      const result = await service.getSubmissionVersions('submission-123', 'student-123')
+
+      expect(result).toEqual([mockVersion])
+      expect(mockClassRepository.findById).not.toHaveBeenCalled()
+    })
+
+    it('should allow class teacher', async () => {
+      const result = await service.getSubmissionVersions('submission-123', 'teacher-123')
+
+      expect(result).toEqual([mockVersion])
+    })
+
+    it('should throw ForbiddenError for other users', async () => {
+      await expect(
+        service.getSubmissionVersions('submission-123', 'other-student')
+      ).rejects.toThrow(ForbiddenError)
+    })
+  })
+
+  describe('diffSubmissionVersions', () => {
+    beforeEach(() => {
+      mockAssignmentRepository.getSubmissionById = vi.fn().mockResolvedValue(mockSubmission)
+    })
+
+    it('should return line changes between versions', async () => {
+      mockVersionRepository.findByNumber = vi
+        .fn()
+        .mockResolvedValueOnce({ ...mockVersion, content: 'Intro\nBody' })
+        .mockResolvedValueOnce({
+          ...mockVersion,
+          id: 'version-2',
+          version_number: 2,
+          content: 'Intro\nBetter body',
+        })
+
+      const result = await service.diffSubmissionVersions('submission-123', 'student-123', 1, 2)
+
+      expect(mockVersionRepository.findByNumber).toHaveBeenCalledWith('submission-123', 1)
+      expect(mockVersionRepository.findByNumber).toHaveBeenCalledWith('submission-123', 2)
+      expect(result.changes).toEqual([
+        { type: 'equal', text: 'Intro' },
+        { type: 'removed', text: 'Body' },
+        { type: 'added', text: 'Better body' },
+      ])
+    })
+
+    it('should throw NotFoundError if a version is missing', async () => {
+      mockVersionRepository.findByNumber = vi.fn().mockResolvedValue(null)
+
+      await expect(
+        service.diffSubmissionVersions('submission-123', 'student-123', 1, 5)
+      ).rejects.toThrow(NotFoundError)
+    })
+  })
+
+  // ===========================================
+  // Submission Retrieval Tests
+  // ===========================================
+  describe('Submission Retrieval', () => {
+    it('getSubmission should return submission if found', async () => {
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+
+      const result = await service.getSubmission('assignment-123', 'student-123')
+
+      expect(result).toEqual(mockSubmission)
+    })
+
+    it('getSubmission should return null if not found', async () => {
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(null)
+
+      const result = await service.getSubmission('assignment-123', 'student-123')
+
+      expect(result).toBeNull()
+    })
+
+    it('getSubmissionsByAssignment should return submissions when teacher owns class', async () => {
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockAssignmentRepository.getSubmissionsByAssignment = vi
+        .fn()
+        .mockResolvedValue([mockSubmission])
+
+      const result = await service.getSubmissionsByAssignment('assignment-123', 'teacher-123')
+
+      expect(result).toEqual([mockSubmission])
+    })
+
+    it('getSubmissionsByAssignment should throw ForbiddenError if not class teacher', async () => {
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+
+      await expect(
+        service.getSubmissionsByAssignment('assignment-123', 'different-teacher')
+      ).rejects.toThrow(ForbiddenError)
+    })
+
+    it('getSubmissionsByStudent should return student submissions', async () => {
+      mockAssignmentRepository.getSubmissionsByStudent = vi
+        .fn()
+        .mockResolvedValue([mockSubmission])
+
+      const result = await service.getSubmissionsByStudent('student-123')
+
+      expect(result).toEqual([mockSubmission])
+      expect(mockAssignmentRepository.getSubmissionsByStudent).toHaveBeenCalledWith('student-123')
+    })
+  })
+
+  // ===========================================
+  // gradeSubmission() Tests
+  // ===========================================
+  describe('gradeSubmission', () => {
+    it('should grade submission successfully', async () => {
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(releasedAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockAssignmentRepository.gradeSubmission = vi.fn().mockResolvedValue(mockGrade)
+
+      const result = await service.gradeSubmission(
+        'assignment-123',
+        'student-123',
+        'teacher-123',
+        85,
+        'Good work'
+      )
+
+      expect(mockAssignmentRepository.gradeSubmission).toHaveBeenCalledWith(
+        'submission-123',
+        'teacher-123',
+        85,
+        'Good work'
+      )
+      expect(result).toEqual(mockGrade)
+      expect(mockNotificationService.notifyGradePosted).toHaveBeenCalledWith(
+        releasedAssignment,
+        'Math 101',
+        'student-123',
+        85
+      )
+      expect(mockEvents.publish).toHaveBeenCalledWith('student-123', {
+        type: 'grade_posted',
+        assignmentId: 'assignment-123',
+        submissionId: 'submission-123',
+      })
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        'teacher-123',
+        'grade_posted',
+        { type: 'submission', id: 'submission-123' },
+        null,
+        { grade: Number(mockGrade.grade), feedback: mockGrade.feedback, teacher_id: mockGrade.teacher_id }
+      )
+    })
+
+    it('should let a TA grade submissions', async () => {
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(releasedAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockClassStaffRepository.findRole = vi.fn().mockResolvedValue('ta')
+      mockAssignmentRepository.gradeSubmission = vi.fn().mockResolvedValue(mockGrade)
+
+      await service.gradeSubmission('assignment-123', 'student-123', 'ta-123', 85)
+
+      expect(mockClassStaffRepository.findRole).toHaveBeenCalledWith('class-123', 'ta-123')
+      expect(mockAssignmentRepository.gradeSubmission).toHaveBeenCalledWith(
+        'submission-123',
+        'ta-123',
+        85,
+        undefined
+      )
+    })
+
+    it('should revise the grade when the submission is already graded', async () => {
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue(mockGrade)
+      mockAssignmentRepository.updateGrade = vi.fn().mockResolvedValue({ ...mockGrade, grade: 92 })
+
+      const result = await service.gradeSubmission(
+        'assignment-123',
+        'student-123',
+        'teacher-123',
+        92,
+        undefined,
+        'Late page found'
+      )
+
+      expect(result.grade).toBe(92)
+      expect(mockAssignmentRepository.gradeSubmission).not.toHaveBeenCalled()
+      expect(mockAssignmentRepository.updateGrade).toHaveBeenCalledWith('grade-123', { grade: 92 })
+      expect(mockGradeRevisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ previous_grade: 85, grade: 92, reason: 'Late page found' })
+      )
+    })
+
+    it('should not tell the student before the grades are released', async () => {
+      withMailer()
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockAssignmentRepository.gradeSubmission = vi.fn().mockResolvedValue(mockGrade)
+
+      await service.gradeSubmission('assignment-123', 'student-123', 'teacher-123', 85)
+
+      expect(mockNotificationService.notifyGradePosted).not.toHaveBeenCalled()
+      expect(mockEvents.publish).not.toHaveBeenCalled()
+      expect(mockAuditService.record).toHaveBeenCalled()
+    })
+
+    it('should email the student that the grade was posted', async () => {
+      const sendGradePosted = withMailer()
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(releasedAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockAssignmentRepository.gradeSubmission = vi.fn().mockResolvedValue(mockGrade)
+
+      await service.gradeSubmission('assignment-123', 'student-123', 'teacher-123', 85)
+
+      expect(sendGradePosted).toHaveBeenCalledWith(
+        { email: 'student@example.com', name: 'Test Student' },
+        {
+          className: 'Math 101',
+          assignmentId: 'assignment-123',
+          assignmentTitle: 'Homework 1',
+          grade: 85,
+          maxPoints: 100,
+        }
+      )
+    })
+
+    it('should keep the grade when the email fails', async () => {
+      withMailer(vi.fn().mockRejectedValue(new Error('SMTP down')))
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockAssignmentRepository.gradeSubmission = vi.fn().mockResolvedValue(mockGrade)
+
+      await expect(
+        service.gradeSubmission('assignment-123', 'student-123', 'teacher-123', 85)
+      ).resolves.toEqual(mockGrade)
+    })
+
+    it('should throw ValidationError if grade < 0', async () => {
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+
+      await expect(
+        service.gradeSubmission('assignment-123', 'student-123', 'teacher-123', -5)
+      ).rejects.toThrow(ValidationError)
+
+      expect(mockAssignmentRepository.gradeSubmission).not.toHaveBeenCalled()
+    })
+
+    it('should throw ValidationError if grade > max points', async () => {
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+
+      await expect(
+        service.gradeSubmission('assignment-123', 'student-123', 'teacher-123', 105)
+      ).rejects.toThrow(ValidationError)
+    })
+
+    it('should validate against the assignment max points', async () => {
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.findById = vi
+        .fn()
+        .mockResolvedValue({ ...mockAssignment, max_points: 20 })
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockAssignmentRepository.gradeSubmission = vi.fn().mockResolvedValue(mockGrade)
+
+      await expect(
+        service.gradeSubmission('assignment-123', 'student-123', 'teacher-123', 21)
+      ).rejects.toThrow('Grade must be between 0 and 20')
+
+      await service.gradeSubmission('assignment-123', 'student-123', 'teacher-123', 18)
+      expect(mockAssignmentRepository.gradeSubmission).toHaveBeenCalledWith(
+        'submission-123',
+        'teacher-123',
+        18,
+        undefined
+      )
+    })
+
+    it('should throw NotFoundError if submission not found', async () => {
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(null)
+
+      await expect(
+        service.gradeSubmission('assignment-123', 'student-123', 'teacher-123', 85)
+      ).rejects.toThrow(NotFoundError)
+    })
+
+    it('should throw ForbiddenError if not class teacher', async () => {
       mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
       mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
       mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
@@ -611,11 +1330,164 @@ describe('AssignmentService - Unit Tests', () => {
   // ===========================================
   // updateGrade() Tests
   // ===========================================
+  describe('gradeSubmissionWithRubric', () => {
+    beforeEach(() => {
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockAssignmentRepository.gradeSubmission = vi.fn().mockResolvedValue(mockGrade)
+    })
+
+    it('should compute grade from chosen levels and save criterion scores', async () => {
+      const result = await service.gradeSubmissionWithRubric(
+        'assignment-123',
+        'student-123',
+        'teacher-123',
+        [
+          { criterionId: 'c1', levelId: 'c1-level-1', comment: 'Almost' },
+          { criterionId: 'c2', levelId: 'c2-level-1' },
+        ],
+        'Nice'
+      )
+
+      // (6 + 5) / (10 + 5) = 73.33%
+      expect(mockAssignmentRepository.gradeSubmission).toHaveBeenCalledWith(
+        'submission-123',
+        'teacher-123',
+        73.33,
+        'Nice'
+      )
+      expect(mockRubricRepository.saveScores).toHaveBeenCalledWith('grade-123', [
+        { criterionId: 'c1', levelId: 'c1-level-1', points: '6.00', comment: 'Almost' },
+        { criterionId: 'c2', levelId: 'c2-level-1', points: '5.00', comment: null },
+      ])
+      expect(result.grade).toEqual(mockGrade)
+    })
+
+    it('should scale the rubric share to the assignment max points', async () => {
+      mockAssignmentRepository.findById = vi
+        .fn()
+        .mockResolvedValue({ ...mockAssignment, max_points: 30 })
+
+      await service.gradeSubmissionWithRubric('assignment-123', 'student-123', 'teacher-123', [
+        { criterionId: 'c1', levelId: 'c1-level-1' },
+        { criterionId: 'c2', levelId: 'c2-level-1' },
+      ])
+
+      // 11 / 15 of 30 points
+      expect(mockAssignmentRepository.gradeSubmission).toHaveBeenCalledWith(
+        'submission-123',
+        'teacher-123',
+        22,
+        undefined
+      )
+    })
+
+    it('should throw InvalidStateError if assignment has no rubric', async () => {
+      mockRubricRepository.findByAssignment = vi.fn().mockResolvedValue([])
+
+      await expect(
+        service.gradeSubmissionWithRubric('assignment-123', 'student-123', 'teacher-123', [])
+      ).rejects.toThrow(InvalidStateError)
+    })
+
+    it('should throw ValidationError if a criterion is not scored', async () => {
+      await expect(
+        service.gradeSubmissionWithRubric('assignment-123', 'student-123', 'teacher-123', [
+          { criterionId: 'c1', levelId: 'c1-level-0' },
+        ])
+      ).rejects.toThrow(ValidationError)
+
+      expect(mockAssignmentRepository.gradeSubmission).not.toHaveBeenCalled()
+    })
+
+    it('should throw ValidationError if level belongs to another criterion', async () => {
+      await expect(
+        service.gradeSubmissionWithRubric('assignment-123', 'student-123', 'teacher-123', [
+          { criterionId: 'c1', levelId: 'c2-level-0' },
+          { criterionId: 'c2', levelId: 'c2-level-0' },
+        ])
+      ).rejects.toThrow(ValidationError)
+    })
+
+    it('should throw ValidationError for criteria outside the rubric', async () => {
+      await expect(
+        service.gradeSubmissionWithRubric('assignment-123', 'student-123', 'teacher-123', [
+          { criterionId: 'c1', levelId: 'c1-level-0' },
+          { criterionId: 'c2', levelId: 'c2-level-0' },
+          { criterionId: 'c3', levelId: 'c3-level-0' },
+        ])
+      ).rejects.toThrow(ValidationError)
+    })
+  })
+
+  describe('Rubric Management', () => {
+    const input = [
+      { title: 'Thesis', description: null, levels: [{ label: 'Strong', description: null, points: 10 }] },
+    ]
+
+    beforeEach(() => {
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+    })
+
+    it('should let enrolled students view the rubric', async () => {
+      mockClassRepository.isStudentEnrolled = vi.fn().mockResolvedValue(true)
+
+      const rubric = await service.getRubric('assignment-123', 'student-123')
+
+      expect(rubric).toEqual(mockRubric)
+    })
+
+    it('should forbid viewing the rubric when not enrolled', async () => {
+      mockClassRepository.isStudentEnrolled = vi.fn().mockResolvedValue(false)
+
+      await expect(service.getRubric('assignment-123', 'student-999')).rejects.toThrow(
+        ForbiddenError
+      )
+    })
+
+    it('should replace rubric for class teacher', async () => {
+      await service.setRubric('assignment-123', 'teacher-123', input)
+
+      expect(mockRubricRepository.replaceForAssignment).toHaveBeenCalledWith(
+        'assignment-123',
+        input
+      )
+    })
+
+    it('should throw ForbiddenError if not class teacher', async () => {
+      await expect(
+        service.setRubric('assignment-123', 'different-teacher', input)
+      ).rejects.toThrow(ForbiddenError)
+    })
+
+    it('should throw ValidationError if rubric is worth no points', async () => {
+      await expect(
+        service.setRubric('assignment-123', 'teacher-123', [
+          { title: 'Thesis', description: null, levels: [{ label: 'None', description: null, points: 0 }] },
+        ])
+      ).rejects.toThrow(ValidationError)
+    })
+
+    it('should throw InvalidStateError once rubric was used for grading', async () => {
+      mockRubricRepository.countScoredGrades = vi.fn().mockResolvedValue(1)
+
+      await expect(service.setRubric('assignment-123', 'teacher-123', input)).rejects.toThrow(
+        InvalidStateError
+      )
+      await expect(service.deleteRubric('assignment-123', 'teacher-123')).rejects.toThrow(
+        InvalidStateError
+      )
+      expect(mockRubricRepository.deleteByAssignment).not.toHaveBeenCalled()
+    })
+  })
+
   describe('updateGrade', () => {
     it('should update grade successfully', async () => {
       mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
       mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue(mockGrade)
-      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(releasedAssignment)
       mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
       mockAssignmentRepository.updateGrade = vi.fn().mockResolvedValue({
         ...mockGrade,
@@ -626,25 +1498,97 @@ describe('AssignmentService - Unit Tests', () => {
         'assignment-123',
         'student-123',
         'teacher-123',
-        { grade: 90 }
+        { grade: 90 },
+        'Missed a page while grading'
       )
 
       expect(mockAssignmentRepository.updateGrade).toHaveBeenCalledWith('grade-123', {
         grade: 90,
       })
       expect(result.grade).toBe(90)
+      expect(mockRubricRepository.saveScores).toHaveBeenCalledWith('grade-123', [])
+      expect(mockEvents.publish).toHaveBeenCalledWith('student-123', {
+        type: 'grade_updated',
+        assignmentId: 'assignment-123',
+        submissionId: 'submission-123',
+      })
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        'teacher-123',
+        'grade_updated',
+        { type: 'submission', id: 'submission-123' },
+        expect.objectContaining({ grade: Number(mockGrade.grade) }),
+        expect.objectContaining({ grade: 90, reason: 'Missed a page while grading' })
+      )
+      expect(mockGradeRevisionRepository.create).toHaveBeenCalledWith({
+        submission_id: 'submission-123',
+        teacher_id: 'teacher-123',
+        previous_grade: mockGrade.grade,
+        previous_feedback: mockGrade.feedback,
+        grade: 90,
+        feedback: mockGrade.feedback,
+        reason: 'Missed a page while grading',
+      })
+    })
+
+    it('should require a reason to change a released grade', async () => {
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue(mockGrade)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(releasedAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+
+      await expect(
+        service.updateGrade('assignment-123', 'student-123', 'teacher-123', { grade: 90 }, '  ')
+      ).rejects.toThrow('A reason is required to change a released grade')
+      expect(mockAssignmentRepository.updateGrade).not.toHaveBeenCalled()
+      expect(mockGradeRevisionRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('should change an unreleased grade without a reason or telling the student', async () => {
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue(mockGrade)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockAssignmentRepository.updateGrade = vi.fn().mockResolvedValue({ ...mockGrade, grade: 90 })
+
+      await service.updateGrade('assignment-123', 'student-123', 'teacher-123', { grade: 90 })
+
+      expect(mockGradeRevisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ grade: 90, reason: null })
+      )
+      expect(mockEvents.publish).not.toHaveBeenCalled()
+    })
+
+    it('should not write anything when nothing changes', async () => {
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue(mockGrade)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+
+      const result = await service.updateGrade('assignment-123', 'student-123', 'teacher-123', {
+        grade: Number(mockGrade.grade),
+      })
+
+      expect(result).toEqual(mockGrade)
+      expect(mockAssignmentRepository.updateGrade).not.toHaveBeenCalled()
+      expect(mockGradeRevisionRepository.create).not.toHaveBeenCalled()
     })
 
     it('should throw ValidationError if grade < 0', async () => {
       mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue(mockGrade)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
 
       await expect(
         service.updateGrade('assignment-123', 'student-123', 'teacher-123', { grade: -5 })
       ).rejects.toThrow(ValidationError)
     })
 
-    it('should throw ValidationError if grade > 100', async () => {
+    it('should throw ValidationError if grade > max points', async () => {
       mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue(mockGrade)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
 
       await expect(
         service.updateGrade('assignment-123', 'student-123', 'teacher-123', { grade: 105 })
@@ -659,30 +1603,111 @@ describe('AssignmentService - Unit Tests', () => {
       ).rejects.toThrow(NotFoundError)
     })
 
-    it('should throw NotFoundError if grade not found', async () => {
-      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
-      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue(null)
+    it('should throw NotFoundError if grade not found', async () => {
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue(null)
+
+      await expect(
+        service.updateGrade('assignment-123', 'student-123', 'teacher-123', { grade: 90 })
+      ).rejects.toThrow(NotFoundError)
+    })
+
+    it('should allow updating feedback only', async () => {
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue(mockGrade)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockAssignmentRepository.updateGrade = vi.fn().mockResolvedValue(mockGrade)
+
+      await service.updateGrade(
+        'assignment-123',
+        'student-123',
+        'teacher-123',
+        { feedback: 'Updated feedback' },
+        'Clarified feedback'
+      )
+
+      expect(mockAssignmentRepository.updateGrade).toHaveBeenCalledWith('grade-123', {
+        feedback: 'Updated feedback',
+      })
+    })
+  })
+
+  describe('getGradeRevisions', () => {
+    it('should return the revisions for the class teacher', async () => {
+      mockAssignmentRepository.getSubmissionById = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+
+      const revisions = await service.getGradeRevisions('submission-123', 'teacher-123')
+
+      expect(revisions).toEqual([])
+      expect(mockGradeRevisionRepository.findBySubmission).toHaveBeenCalledWith('submission-123')
+    })
+
+    it('should throw ForbiddenError for another teacher', async () => {
+      mockAssignmentRepository.getSubmissionById = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
 
       await expect(
-        service.updateGrade('assignment-123', 'student-123', 'teacher-123', { grade: 90 })
-      ).rejects.toThrow(NotFoundError)
+        service.getGradeRevisions('submission-123', 'other-teacher')
+      ).rejects.toThrow(ForbiddenError)
     })
+  })
 
-    it('should allow updating feedback only', async () => {
-      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
-      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue(mockGrade)
+  // ===========================================
+  // releaseGrades() Tests
+  // ===========================================
+  describe('releaseGrades', () => {
+    it('should release the grades and tell every graded student', async () => {
       mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
       mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
-      mockAssignmentRepository.updateGrade = vi.fn().mockResolvedValue(mockGrade)
+      mockAssignmentRepository.update = vi.fn().mockResolvedValue(releasedAssignment)
+      mockAssignmentRepository.getSubmissionsByAssignment = vi.fn().mockResolvedValue([
+        mockSubmission,
+        { ...mockSubmission, id: 'submission-456', student_id: 'student-456' },
+      ])
+      mockAssignmentRepository.getGradesByAssignment = vi.fn().mockResolvedValue([mockGrade])
 
-      await service.updateGrade('assignment-123', 'student-123', 'teacher-123', {
-        feedback: 'Updated feedback',
-      })
+      const result = await service.releaseGrades('assignment-123', 'teacher-123')
 
-      expect(mockAssignmentRepository.updateGrade).toHaveBeenCalledWith('grade-123', {
-        feedback: 'Updated feedback',
+      expect(result).toEqual(releasedAssignment)
+      expect(mockAssignmentRepository.update).toHaveBeenCalledWith('assignment-123', {
+        grades_released_at: expect.any(Date),
+      })
+      expect(mockNotificationService.notifyGradePosted).toHaveBeenCalledTimes(1)
+      expect(mockNotificationService.notifyGradePosted).toHaveBeenCalledWith(
+        releasedAssignment,
+        'Math 101',
+        'student-123',
+        85
+      )
+      expect(mockEvents.publish).toHaveBeenCalledWith('student-123', {
+        type: 'grade_posted',
+        assignmentId: 'assignment-123',
+        submissionId: 'submission-123',
       })
     })
+
+    it('should throw InvalidStateError if the grades are already released', async () => {
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(releasedAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+
+      await expect(service.releaseGrades('assignment-123', 'teacher-123')).rejects.toThrow(
+        InvalidStateError
+      )
+      expect(mockAssignmentRepository.update).not.toHaveBeenCalled()
+    })
+
+    it('should throw ForbiddenError for another teacher', async () => {
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+
+      await expect(service.releaseGrades('assignment-123', 'other-teacher')).rejects.toThrow(
+        ForbiddenError
+      )
+    })
   })
 
   // ===========================================
@@ -702,7 +1727,10 @@ describe('AssignmentService - Unit Tests', () => {
 
       mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
       mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
-      mockAssignmentRepository.bulkGradeSubmissions = vi.fn().mockResolvedValue(2)
+      mockAssignmentRepository.bulkGradeSubmissions = vi.fn().mockResolvedValue([
+        { ...mockGrade, submission_id: 'submission-1', grade: '85.00', feedback: 'Good' },
+        { ...mockGrade, submission_id: 'submission-2', grade: '90.00', feedback: 'Great' },
+      ])
 
       const result = await service.bulkGradeSubmissions(grades, 'teacher-123')
 
@@ -731,15 +1759,107 @@ describe('AssignmentService - Unit Tests', () => {
       )
     })
 
-    it('should throw ValidationError if any grade > 100', async () => {
+    it('should throw ValidationError if any grade > max points', async () => {
       const grades = [
         { assignmentId: 'assignment-123', studentId: 'student-1', grade: 85 },
         { assignmentId: 'assignment-123', studentId: 'student-2', grade: 105 },
       ]
 
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+
+      await expect(service.bulkGradeSubmissions(grades, 'teacher-123')).rejects.toThrow(
+        ValidationError
+      )
+    })
+
+    it('should clear rubric scores of changed grades', async () => {
+      const grades = [{ assignmentId: 'assignment-123', studentId: 'student-123', grade: 90 }]
+
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue({ ...mockGrade, grade: '85.00' })
+      mockAssignmentRepository.bulkGradeSubmissions = vi
+        .fn()
+        .mockResolvedValue([{ ...mockGrade, grade: '90.00' }])
+
+      await service.bulkGradeSubmissions(grades, 'teacher-123', 'Rescaled')
+
+      expect(mockRubricRepository.saveScores).toHaveBeenCalledWith('grade-123', [])
+      expect(mockGradeRevisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          submission_id: 'submission-123',
+          previous_grade: '85.00',
+          grade: 90,
+          reason: 'Rescaled',
+        })
+      )
+    })
+
+    it('should audit the saved grade, including feedback kept from before', async () => {
+      const grades = [{ assignmentId: 'assignment-123', studentId: 'student-123', grade: 90 }]
+
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue({ ...mockGrade, grade: '85.00' })
+      mockAssignmentRepository.bulkGradeSubmissions = vi
+        .fn()
+        .mockResolvedValue([{ ...mockGrade, grade: '90.00', feedback: 'Good work' }])
+
+      await service.bulkGradeSubmissions(grades, 'teacher-123', 'Rescaled')
+
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        'teacher-123',
+        'grade_updated',
+        { type: 'submission', id: 'submission-123' },
+        expect.objectContaining({ grade: 85, feedback: 'Good work' }),
+        expect.objectContaining({ grade: 90, feedback: 'Good work', reason: 'Rescaled' })
+      )
+    })
+
+    it('should require a reason when released grades change', async () => {
+      const grades = [{ assignmentId: 'assignment-123', studentId: 'student-123', grade: 90 }]
+
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(releasedAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue({ ...mockGrade, grade: '85.00' })
+
       await expect(service.bulkGradeSubmissions(grades, 'teacher-123')).rejects.toThrow(
         ValidationError
       )
+      expect(mockAssignmentRepository.bulkGradeSubmissions).not.toHaveBeenCalled()
+    })
+
+    it('should only email students whose grade is new or changed', async () => {
+      const sendGradePosted = withMailer()
+      const grades = [
+        { assignmentId: 'assignment-123', studentId: 'student-1', grade: 85 },
+        { assignmentId: 'assignment-123', studentId: 'student-2', grade: 90 },
+      ]
+
+      mockAssignmentRepository.getSubmission = vi.fn().mockResolvedValue(mockSubmission)
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(releasedAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockAssignmentRepository.getGrade = vi
+        .fn()
+        .mockResolvedValueOnce({ ...mockGrade, grade: '85.00' })
+        .mockResolvedValueOnce(null)
+      mockAssignmentRepository.bulkGradeSubmissions = vi.fn().mockResolvedValue([
+        { ...mockGrade, grade: '85.00' },
+        { ...mockGrade, grade: '90.00' },
+      ])
+
+      await service.bulkGradeSubmissions(grades, 'teacher-123', 'Regraded')
+
+      expect(sendGradePosted).toHaveBeenCalledTimes(1)
+      expect(sendGradePosted).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ grade: 90 })
+      )
     })
 
     it('should throw ForbiddenError if not teacher for any submission', async () => {
@@ -788,6 +1908,422 @@ describe('AssignmentService - Unit Tests', () => {
     })
   })
 
+  // ===========================================
+  // Category Tests
+  // ===========================================
+  describe('Category Management', () => {
+    const homework: AssignmentCategory = {
+      id: 'category-homework',
+      class_id: 'class-123',
+      name: 'Homework',
+      weight: 30,
+      created_at: new Date(),
+      updated_at: new Date(),
+    }
+
+    beforeEach(() => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockCategoryRepository.findById = vi.fn().mockResolvedValue(homework)
+    })
+
+    it('should create a category within the remaining weight', async () => {
+      mockCategoryRepository.sumWeightsByClass = vi.fn().mockResolvedValue(70)
+      mockCategoryRepository.create = vi.fn().mockResolvedValue(homework)
+
+      await service.createCategory('class-123', 'teacher-123', { name: 'Homework', weight: 30 })
+
+      expect(mockCategoryRepository.create).toHaveBeenCalledWith({
+        class_id: 'class-123',
+        name: 'Homework',
+        weight: 30,
+      })
+    })
+
+    it('should reject weights adding up to more than 100', async () => {
+      mockCategoryRepository.sumWeightsByClass = vi.fn().mockResolvedValue(80)
+
+      await expect(
+        service.createCategory('class-123', 'teacher-123', { name: 'Exams', weight: 30 })
+      ).rejects.toThrow('Category weights cannot exceed 100 (20 remaining)')
+
+      expect(mockCategoryRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('should exclude the category itself when reweighting', async () => {
+      mockCategoryRepository.sumWeightsByClass = vi.fn().mockResolvedValue(70)
+
+      await service.updateCategory('category-homework', 'teacher-123', { weight: 30 })
+
+      expect(mockCategoryRepository.sumWeightsByClass).toHaveBeenCalledWith(
+        'class-123',
+        'category-homework'
+      )
+      expect(mockCategoryRepository.update).toHaveBeenCalledWith('category-homework', {
+        weight: 30,
+      })
+    })
+
+    it('should throw ForbiddenError if not the class teacher', async () => {
+      await expect(
+        service.deleteCategory('category-homework', 'different-teacher')
+      ).rejects.toThrow(ForbiddenError)
+
+      expect(mockCategoryRepository.delete).not.toHaveBeenCalled()
+    })
+
+    it('should throw NotFoundError if category not found', async () => {
+      mockCategoryRepository.findById = vi.fn().mockResolvedValue(null)
+
+      await expect(service.deleteCategory('missing', 'teacher-123')).rejects.toThrow(
+        NotFoundError
+      )
+    })
+
+    it('should reject an assignment category from another class', async () => {
+      mockCategoryRepository.findById = vi
+        .fn()
+        .mockResolvedValue({ ...homework, class_id: 'class-999' })
+
+      await expect(
+        service.createAssignment('class-123', 'teacher-123', {
+          title: 'Homework',
+          description: 'Description',
+          category_id: 'category-homework',
+        })
+      ).rejects.toThrow(ValidationError)
+
+      expect(mockAssignmentRepository.create).not.toHaveBeenCalled()
+    })
+  })
+
+  // ===========================================
+  // Course Grade Tests
+  // ===========================================
+  describe('Course Grades', () => {
+    const category = (id: string, name: string, weight: number): AssignmentCategory => ({
+      id,
+      class_id: 'class-123',
+      name,
+      weight,
+      created_at: new Date(),
+      updated_at: new Date(),
+    })
+
+    const row = (
+      studentId: string,
+      categoryId: string | null,
+      grade: number,
+      maxPoints = 100,
+      latePenalty = 0
+    ): ClassGradeRow => ({
+      student_id: studentId,
+      assignment_id: `assignment-${Math.random()}`,
+      category_id: categoryId,
+      max_points: maxPoints,
+      late_penalty: latePenalty,
+      grade: grade.toFixed(2),
+    })
+
+    beforeEach(() => {
+      mockClassRepository.getEnrolledStudents = vi.fn().mockResolvedValue(['student-1'])
+    })
+
+    it('should weight category percentages', async () => {
+      mockCategoryRepository.findByClass = vi
+        .fn()
+        .mockResolvedValue([category('exams', 'Exams', 70), category('homework', 'Homework', 30)])
+      mockAssignmentRepository.getGradesByClass = vi
+        .fn()
+        .mockResolvedValue([
+          row('student-1', 'homework', 10, 10),
+          row('student-1', 'homework', 5, 10),
+          row('student-1', 'exams', 60),
+        ])
+
+      const [result] = await service.calculateCourseGrades('class-123')
+
+      // Homework 15/20 = 75%, Exams 60%: 0.3 * 75 + 0.7 * 60 = 64.5
+      expect(result?.courseGrade).toBe(64.5)
+      expect(result?.categories).toEqual([
+        { categoryId: 'exams', name: 'Exams', weight: 70, pointsEarned: 60, pointsPossible: 100, percent: 60 },
+        { categoryId: 'homework', name: 'Homework', weight: 30, pointsEarned: 15, pointsPossible: 20, percent: 75 },
+      ])
+    })
+
+    it('should renormalize over categories with graded work', async () => {
+      mockCategoryRepository.findByClass = vi
+        .fn()
+        .mockResolvedValue([category('exams', 'Exams', 70), category('homework', 'Homework', 30)])
+      mockAssignmentRepository.getGradesByClass = vi
+        .fn()
+        .mockResolvedValue([row('student-1', 'homework', 8, 10)])
+
+      const [result] = await service.calculateCourseGrades('class-123')
+
+      expect(result?.courseGrade).toBe(80)
+    })
+
+    it('should apply late penalties and give uncategorized work the remaining weight', async () => {
+      mockCategoryRepository.findByClass = vi
+        .fn()
+        .mockResolvedValue([category('exams', 'Exams', 50)])
+      mockAssignmentRepository.getGradesByClass = vi
+        .fn()
+        .mockResolvedValue([row('student-1', 'exams', 100), row('student-1', null, 80, 100, 25)])
+
+      const [result] = await service.calculateCourseGrades('class-123')
+
+      // Uncategorized 80 * 0.75 = 60% at weight 50
+      expect(result?.categories[1]).toMatchObject({ categoryId: null, weight: 50, percent: 60 })
+      expect(result?.courseGrade).toBe(80)
+    })
+
+    it('should return null course grade without graded work', async () => {
+      mockAssignmentRepository.getGradesByClass = vi.fn().mockResolvedValue([])
+
+      const [result] = await service.calculateCourseGrades('class-123')
+
+      expect(result?.courseGrade).toBeNull()
+      expect(result?.categories).toEqual([
+        { categoryId: null, name: 'Uncategorized', weight: 100, pointsEarned: 0, pointsPossible: 0, percent: null },
+      ])
+    })
+
+    it('should throw ForbiddenError for students outside the class', async () => {
+      mockAssignmentRepository.getGradesByClass = vi.fn().mockResolvedValue([])
+
+      await expect(service.getCourseGrade('class-123', 'student-2')).rejects.toThrow(
+        ForbiddenError
+      )
+    })
+
+    it('should average course grades of graded students', async () => {
+      mockClassRepository.getEnrolledStudents = vi
+        .fn()
+        .mockResolvedValue(['student-1', 'student-2', 'student-3'])
+      mockAssignmentRepository.getGradedClassIds = vi.fn().mockResolvedValue(['class-123'])
+      mockAssignmentRepository.getGradesByClass = vi
+        .fn()
+        .mockResolvedValue([row('student-1', null, 90), row('student-2', null, 70)])
+
+      const result = await service.getAverageCourseGrade()
+
+      expect(result).toEqual({ average: 80, count: 2 })
+      expect(mockAssignmentRepository.getGradesByClass).toHaveBeenCalledWith('class-123', true)
+    })
+  })
+
+  // ===========================================
+  // getGradebook() Tests
+  // ===========================================
+  describe('getGradebook', () => {
+    const pastAssignment = {
+      ...mockAssignment,
+      id: 'assignment-past',
+      due_date: new Date(Date.now() - 24 * 60 * 60 * 1000),
+    }
+
+    beforeEach(() => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockClassRepository.getEnrolledStudents = vi.fn().mockResolvedValue(['student-1', 'student-2'])
+      mockClassRepository.getEnrolledStudentDetails = vi.fn().mockResolvedValue([
+        { id: 'student-1', name: 'Ada', email: 'ada@test.com' },
+        { id: 'student-2', name: 'Ben', email: 'ben@test.com' },
+      ])
+      mockAssignmentRepository.findAllByClass = vi
+        .fn()
+        .mockResolvedValue([pastAssignment, mockAssignment])
+      mockAssignmentRepository.getGradesByClass = vi.fn().mockResolvedValue([])
+      mockAssignmentRepository.getGradebookSubmissions = vi.fn().mockResolvedValue([
+        {
+          student_id: 'student-1',
+          assignment_id: 'assignment-past',
+          submission_id: 'submission-1',
+          is_late: true,
+          late_penalty: 10,
+          submitted_at: new Date(),
+          grade_id: 'grade-1',
+          grade: '72.50',
+        },
+        {
+          student_id: 'student-1',
+          assignment_id: 'assignment-123',
+          submission_id: 'submission-2',
+          is_late: false,
+          late_penalty: 0,
+          submitted_at: new Date(),
+          grade_id: null,
+          grade: null,
+        },
+      ])
+    })
+
+    it('should build one cell per student and assignment with status', async () => {
+      const gradebook = await service.getGradebook('class-123', 'teacher-123')
+
+      expect(gradebook.assignments.map((a) => a.id)).toEqual(['assignment-past', 'assignment-123'])
+      expect(gradebook.rows[0]?.cells).toEqual([
+        { assignmentId: 'assignment-past', submissionId: 'submission-1', status: 'late', grade: 72.5, latePenalty: 10 },
+        { assignmentId: 'assignment-123', submissionId: 'submission-2', status: 'submitted', grade: null, latePenalty: 0 },
+      ])
+      expect(gradebook.rows[1]?.student.name).toBe('Ben')
+      expect(gradebook.rows[1]?.cells.map((c) => c.status)).toEqual(['missing', 'pending'])
+    })
+
+    it('should throw ForbiddenError if not the class teacher', async () => {
+      await expect(service.getGradebook('class-123', 'different-teacher')).rejects.toThrow(
+        ForbiddenError
+      )
+    })
+
+    it('should let a teacher who may read all grades view another class', async () => {
+      const gradebook = await service.getGradebook('class-123', 'different-teacher', {
+        readAll: true,
+      })
+
+      expect(gradebook.rows).toHaveLength(2)
+    })
+
+    it('should throw NotFoundError if class not found', async () => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(null)
+
+      await expect(service.getGradebook('missing', 'teacher-123')).rejects.toThrow(NotFoundError)
+    })
+  })
+
+  // ===========================================
+  // Grade CSV Tests
+  // ===========================================
+  describe('Grade CSV', () => {
+    const students = [
+      { id: 'student-1', name: 'Ada', email: 'ada@test.com' },
+      { id: 'student-2', name: 'Ben', email: 'ben@test.com' },
+      { id: 'student-3', name: 'Cy', email: 'cy@test.com' },
+    ]
+
+    beforeEach(() => {
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue(mockAssignment)
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockClassRepository.getEnrolledStudentDetails = vi.fn().mockResolvedValue(students)
+      mockAssignmentRepository.getSubmissionsByAssignment = vi.fn().mockResolvedValue([
+        { ...mockSubmission, id: 'submission-1', student_id: 'student-1' },
+        { ...mockSubmission, id: 'submission-2', student_id: 'student-2', is_late: true, late_penalty: 10 },
+      ])
+      mockAssignmentRepository.getGradesByAssignment = vi
+        .fn()
+        .mockResolvedValue([{ ...mockGrade, submission_id: 'submission-1', grade: '85.00' }])
+    })
+
+    it('should export one row per enrolled student', async () => {
+      const csv = await service.exportAssignmentGradesCsv('assignment-123', 'teacher-123')
+      const lines = csv.trimEnd().split('\r\n')
+
+      expect(lines[0]).toBe('Student Name,Email,Submitted At,Late,Late Penalty (%),Grade,Feedback')
+      expect(lines[1]).toMatch(/^Ada,ada@test\.com,.+,No,0,85,Good work$/)
+      expect(lines[2]).toMatch(/^Ben,ben@test\.com,.+,Yes,10,,$/)
+      expect(lines[3]).toBe('Cy,cy@test.com,,,,,')
+    })
+
+    it('should forbid exports by other teachers', async () => {
+      await expect(
+        service.exportAssignmentGradesCsv('assignment-123', 'different-teacher')
+      ).rejects.toThrow(ForbiddenError)
+    })
+
+    it('should let a teacher who may read all grades export another class', async () => {
+      const csv = await service.exportAssignmentGradesCsv('assignment-123', 'different-teacher', {
+        readAll: true,
+      })
+
+      expect(csv.trimEnd().split('\r\n')).toHaveLength(4)
+    })
+
+    it('should report row problems on a dry run without saving', async () => {
+      const csv = [
+        'Email,Grade,Feedback',
+        'ADA@test.com,90,Great',
+        'ben@test.com,101,',
+        'cy@test.com,70,',
+        'nobody@test.com,50,',
+        'ada@test.com,80,',
+      ].join('\n')
+
+      const result = await service.importAssignmentGradesCsv('assignment-123', 'teacher-123', csv, true)
+
+      expect(result.rows.map((r) => r.status)).toEqual([
+        'ok',
+        'out_of_range',
+        'missing_submission',
+        'unknown_student',
+        'duplicate_student',
+      ])
+      expect(result.rows[0]).toEqual({
+        line: 2,
+        email: 'ADA@test.com',
+        grade: 90,
+        feedback: 'Great',
+        status: 'ok',
+      })
+      expect(result.errorCount).toBe(4)
+      expect(result.imported).toBe(0)
+      expect(mockAssignmentRepository.bulkGradeSubmissions).not.toHaveBeenCalled()
+    })
+
+    it('should reject grades that are not numbers with up to two decimals', async () => {
+      const result = await service.importAssignmentGradesCsv(
+        'assignment-123',
+        'teacher-123',
+        'Email,Grade\nada@test.com,90.125\nben@test.com,abc',
+        true
+      )
+
+      expect(result.rows.map((r) => r.status)).toEqual(['invalid_grade', 'invalid_grade'])
+    })
+
+    it('should save valid rows through bulk grading', async () => {
+      mockAssignmentRepository.getSubmission = vi
+        .fn()
+        .mockImplementation((_assignmentId: string, studentId: string) =>
+          Promise.resolve({ ...mockSubmission, id: `submission-${studentId.slice(-1)}`, student_id: studentId })
+        )
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue(null)
+      mockAssignmentRepository.bulkGradeSubmissions = vi
+        .fn()
+        .mockResolvedValue([{ ...mockGrade, submission_id: 'submission-1', grade: '92.50' }])
+
+      const result = await service.importAssignmentGradesCsv(
+        'assignment-123',
+        'teacher-123',
+        'Grade,Email\n92.5,ada@test.com\n,ben@test.com\n',
+        false
+      )
+
+      expect(result.imported).toBe(1)
+      expect(result.rows[1]?.status).toBe('skipped')
+      expect(mockAssignmentRepository.bulkGradeSubmissions).toHaveBeenCalledWith([
+        { submissionId: 'submission-1', teacherId: 'teacher-123', grade: 92.5 },
+      ])
+    })
+
+    it('should refuse to import when any row has an error', async () => {
+      await expect(
+        service.importAssignmentGradesCsv(
+          'assignment-123',
+          'teacher-123',
+          'Email,Grade\nada@test.com,90\nnobody@test.com,80',
+          false
+        )
+      ).rejects.toThrow('1 row has errors; nothing was imported')
+      expect(mockAssignmentRepository.bulkGradeSubmissions).not.toHaveBeenCalled()
+    })
+
+    it('should require Email and Grade columns', async () => {
+      await expect(
+        service.importAssignmentGradesCsv('assignment-123', 'teacher-123', 'Name,Score\nAda,90', true)
+      ).rejects.toThrow(ValidationError)
+    })
+  })
+
   // ===========================================
   // Count Methods Tests
   // ===========================================
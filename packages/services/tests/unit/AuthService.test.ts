@@ -1,14 +1,26 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { AuthService } from '../../src/AuthService'
 import type { UserRepository } from '@concentrate/database'
-import type { SessionRepository } from '@concentrate/database'
+import type {
+  SessionRepository,
+  TokenVersionRepository,
+  MfaChallengeRepository,
+} from '@concentrate/database'
 import type { User } from '@concentrate/database'
+import type { Mailer } from '../../src/mail'
+import type { AuditService } from '../../src/AuditService'
+import type { MfaService } from '../../src/MfaService'
+import type { EventPublisher } from '../../src/realtime'
 import {
   AlreadyExistsError,
   NotFoundError,
   ForbiddenError,
   UnauthorizedError,
   InvalidCredentialsError,
+  InvalidStateError,
+  TokenInvalidError,
+  ValidationError,
+  generateAccessToken,
 } from '@concentrate/shared'
 
 // Mock crypto and JWT utilities
@@ -36,6 +48,13 @@ describe('AuthService - Unit Tests', () => {
   let service: AuthService
   let mockUserRepository: Partial<UserRepository>
   let mockSessionRepository: Partial<SessionRepository>
+  let mockResetTokenRepository: Partial<SessionRepository>
+  let mockTokenVersionRepository: Partial<TokenVersionRepository>
+  let mockAuditService: Partial<AuditService>
+  let mockMfaService: Partial<MfaService>
+  let mockMfaChallengeRepository: Partial<MfaChallengeRepository>
+  let mockMailer: Partial<Mailer>
+  let mockEvents: Partial<EventPublisher>
   let mockDb: unknown
 
   const mockUser: User = {
@@ -69,17 +88,71 @@ describe('AuthService - Unit Tests', () => {
       deleteAllForUser: vi.fn(),
       getAllForUser: vi.fn(),
       countForUser: vi.fn(),
+      rotate: vi.fn(),
+      findAllForUser: vi.fn(),
+      findRetired: vi.fn(),
+      deleteFamily: vi.fn(),
+    }
+
+    mockResetTokenRepository = {
+      create: vi.fn(),
+      get: vi.fn(),
+      delete: vi.fn(),
+    }
+
+    mockTokenVersionRepository = {
+      get: vi.fn().mockResolvedValue(0),
+      increment: vi.fn().mockResolvedValue(1),
+    }
+
+    mockAuditService = {
+      record: vi.fn(),
+    }
+
+    mockMfaService = {
+      getLoginRequirement: vi.fn().mockResolvedValue('none'),
+      startEnrollment: vi.fn(),
+      confirmEnrollment: vi.fn(),
+      verifyCode: vi.fn(),
+    }
+
+    mockMfaChallengeRepository = {
+      create: vi.fn(),
+      get: vi.fn(),
+      recordFailedAttempt: vi.fn(),
+      delete: vi.fn().mockResolvedValue(true),
+    }
+
+    mockMailer = {
+      sendPasswordReset: vi.fn(),
+    }
+
+    mockEvents = {
+      publish: vi.fn(),
     }
 
     // Create service instance
     mockDb = {} as unknown
-    service = new AuthService(mockDb as never)
+    service = new AuthService(mockDb as never, mockMailer as Mailer)
 
     // Inject mocks
     ;(service as unknown as { userRepository: Partial<UserRepository> }).userRepository =
       mockUserRepository
     ;(service as unknown as { sessionRepository: Partial<SessionRepository> }).sessionRepository =
       mockSessionRepository
+    ;(
+      service as unknown as { resetTokenRepository: Partial<SessionRepository> }
+    ).resetTokenRepository = mockResetTokenRepository
+    ;(service as unknown as { auditService: Partial<AuditService> }).auditService =
+      mockAuditService
+    ;(
+      service as unknown as { tokenVersionRepository: Partial<TokenVersionRepository> }
+    ).tokenVersionRepository = mockTokenVersionRepository
+    ;(service as unknown as { mfaService: Partial<MfaService> }).mfaService = mockMfaService
+    ;(
+      service as unknown as { mfaChallengeRepository: Partial<MfaChallengeRepository> }
+    ).mfaChallengeRepository = mockMfaChallengeRepository
+    ;(service as unknown as { events: Partial<EventPublisher> }).events = mockEvents
   })
 
   // ===========================================
@@ -185,6 +258,47 @@ describe('AuthService - Unit Tests', () => {
 
       expect(hashPassword).not.toHaveBeenCalled()
     })
+
+    describe('with OPEN_STAFF_REGISTRATION=false', () => {
+      beforeEach(() => {
+        process.env['OPEN_STAFF_REGISTRATION'] = 'false'
+      })
+
+      afterEach(() => {
+        delete process.env['OPEN_STAFF_REGISTRATION']
+      })
+
+      it('should reject teacher self-registration', async () => {
+        await expect(
+          service.register({
+            email: 'teacher@example.com',
+            password_hash: 'password',
+            name: 'Teacher',
+            role: 'teacher',
+          })
+        ).rejects.toThrow(ForbiddenError)
+
+        expect(mockUserRepository.create).not.toHaveBeenCalled()
+      })
+
+      it('should still allow student self-registration', async () => {
+        mockUserRepository.findByEmail = vi.fn().mockResolvedValue(null)
+        mockUserRepository.create = vi.fn().mockResolvedValue(mockUser)
+
+        await service.register({
+          email: 'test@example.com',
+          password_hash: 'password',
+          name: 'Student',
+          role: 'student',
+        })
+
+        expect(mockUserRepository.create).toHaveBeenCalled()
+      })
+
+      it('should only list student as an open role', () => {
+        expect(service.getOpenRegistrationRoles()).toEqual(['student'])
+      })
+    })
   })
 
   // ===========================================
@@ -202,10 +316,38 @@ describe('AuthService - Unit Tests', () => {
       expect(result.user).toEqual(mockUser)
       expect(mockSessionRepository.create).toHaveBeenCalledWith(
         'user-123',
-        expect.stringContaining('refresh_token_')
+        expect.stringContaining('refresh_token_'),
+        undefined,
+        {}
+      )
+    })
+
+    it('should record the device the user logs in from', async () => {
+      mockUserRepository.findByEmail = vi.fn().mockResolvedValue(mockUser)
+      mockSessionRepository.create = vi.fn().mockResolvedValue(undefined)
+
+      await service.login('test@example.com', 'password123', {
+        userAgent: 'Firefox',
+        ip: '10.0.0.1',
+      })
+
+      expect(mockSessionRepository.create).toHaveBeenCalledWith(
+        'user-123',
+        expect.any(String),
+        undefined,
+        { userAgent: 'Firefox', ip: '10.0.0.1' }
       )
     })
 
+    it('should issue the access token at the current token version', async () => {
+      mockUserRepository.findByEmail = vi.fn().mockResolvedValue(mockUser)
+      mockTokenVersionRepository.get = vi.fn().mockResolvedValue(3)
+
+      await service.login('test@example.com', 'password123')
+
+      expect(generateAccessToken).toHaveBeenCalledWith('user-123', 'student', 3)
+    })
+
     it('should throw InvalidCredentialsError for non-existent user', async () => {
       mockUserRepository.findByEmail = vi.fn().mockResolvedValue(null)
 
@@ -274,6 +416,165 @@ describe('AuthService - Unit Tests', () => {
       expect(result.tokens.accessToken).toMatch(/^access_/)
       expect(result.tokens.refreshToken).toMatch(/^refresh_token_/)
     })
+
+    it('should return an MFA challenge instead of tokens when MFA is enabled', async () => {
+      const expiresAt = new Date(Date.now() + 300_000)
+      mockUserRepository.findByEmail = vi.fn().mockResolvedValue(mockUser)
+      mockMfaService.getLoginRequirement = vi.fn().mockResolvedValue('verify')
+      mockMfaChallengeRepository.create = vi
+        .fn()
+        .mockResolvedValue({ token: 'challenge-1', expiresAt })
+
+      const result = await service.login('test@example.com', 'password123', { ip: '10.0.0.1' })
+
+      expect(result.tokens).toBeUndefined()
+      expect(result.mfaChallenge).toEqual({
+        challengeToken: 'challenge-1',
+        enrollmentRequired: false,
+        expiresAt,
+      })
+      expect(mockMfaChallengeRepository.create).toHaveBeenCalledWith(
+        'user-123',
+        expect.any(String),
+        300,
+        { ip: '10.0.0.1' }
+      )
+      expect(mockSessionRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('should flag challenges of users who must set up MFA', async () => {
+      mockUserRepository.findByEmail = vi.fn().mockResolvedValue(mockUser)
+      mockMfaService.getLoginRequirement = vi.fn().mockResolvedValue('enroll')
+      mockMfaChallengeRepository.create = vi
+        .fn()
+        .mockResolvedValue({ token: 'challenge-1', expiresAt: new Date() })
+
+      const result = await service.login('test@example.com', 'password123')
+
+      expect(result.mfaChallenge?.enrollmentRequired).toBe(true)
+    })
+  })
+
+  // ===========================================
+  // completeMfaChallenge() Tests
+  // ===========================================
+  describe('completeMfaChallenge', () => {
+    const challenge = {
+      token: 'challenge-1',
+      userId: 'user-123',
+      userAgent: 'Firefox',
+      ip: '10.0.0.1',
+      failedAttempts: 0,
+      expiresAt: new Date(Date.now() + 300_000),
+    }
+
+    beforeEach(() => {
+      mockMfaChallengeRepository.get = vi.fn().mockResolvedValue(challenge)
+      mockUserRepository.findById = vi.fn().mockResolvedValue(mockUser)
+    })
+
+    it('should log in with a valid code and use up the challenge', async () => {
+      mockMfaService.getLoginRequirement = vi.fn().mockResolvedValue('verify')
+      mockMfaService.verifyCode = vi.fn().mockResolvedValue(true)
+
+      const result = await service.completeMfaChallenge('challenge-1', '123456')
+
+      expect(mockMfaService.verifyCode).toHaveBeenCalledWith('user-123', '123456')
+      expect(result.tokens.accessToken).toBe('access_user-123_student')
+      expect(result.recoveryCodes).toBeNull()
+      expect(mockMfaChallengeRepository.delete).toHaveBeenCalledWith('challenge-1')
+      expect(mockSessionRepository.create).toHaveBeenCalledWith(
+        'user-123',
+        expect.any(String),
+        undefined,
+        { userAgent: 'Firefox', ip: '10.0.0.1' }
+      )
+    })
+
+    it('should finish a required enrollment and return recovery codes', async () => {
+      mockMfaService.getLoginRequirement = vi.fn().mockResolvedValue('enroll')
+      mockMfaService.confirmEnrollment = vi.fn().mockResolvedValue(['aaaaa-bbbbb'])
+
+      const result = await service.completeMfaChallenge('challenge-1', '123456')
+
+      expect(result.recoveryCodes).toEqual(['aaaaa-bbbbb'])
+      expect(mockSessionRepository.create).toHaveBeenCalled()
+    })
+
+    it('should count wrong codes', async () => {
+      mockMfaService.getLoginRequirement = vi.fn().mockResolvedValue('verify')
+      mockMfaService.verifyCode = vi.fn().mockResolvedValue(false)
+      mockMfaChallengeRepository.recordFailedAttempt = vi.fn().mockResolvedValue(1)
+
+      await expect(service.completeMfaChallenge('challenge-1', '000000')).rejects.toThrow(
+        InvalidCredentialsError
+      )
+      expect(mockMfaChallengeRepository.delete).not.toHaveBeenCalled()
+      expect(mockSessionRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('should count wrong codes during enrollment', async () => {
+      mockMfaService.getLoginRequirement = vi.fn().mockResolvedValue('enroll')
+      mockMfaService.confirmEnrollment = vi
+        .fn()
+        .mockRejectedValue(new ValidationError('Invalid verification code'))
+      mockMfaChallengeRepository.recordFailedAttempt = vi.fn().mockResolvedValue(1)
+
+      await expect(service.completeMfaChallenge('challenge-1', '000000')).rejects.toThrow(
+        InvalidCredentialsError
+      )
+      expect(mockMfaChallengeRepository.recordFailedAttempt).toHaveBeenCalledWith('challenge-1')
+    })
+
+    it('should not count enrollments that were never started as wrong codes', async () => {
+      mockMfaService.getLoginRequirement = vi.fn().mockResolvedValue('enroll')
+      mockMfaService.confirmEnrollment = vi
+        .fn()
+        .mockRejectedValue(new InvalidStateError('MFA enrollment has not been started'))
+
+      await expect(service.completeMfaChallenge('challenge-1', '123456')).rejects.toThrow(
+        InvalidStateError
+      )
+      expect(mockMfaChallengeRepository.recordFailedAttempt).not.toHaveBeenCalled()
+    })
+
+    it('should drop the challenge after too many wrong codes', async () => {
+      mockMfaService.getLoginRequirement = vi.fn().mockResolvedValue('verify')
+      mockMfaService.verifyCode = vi.fn().mockResolvedValue(false)
+      mockMfaChallengeRepository.recordFailedAttempt = vi.fn().mockResolvedValue(5)
+
+      await expect(service.completeMfaChallenge('challenge-1', '000000')).rejects.toThrow(
+        UnauthorizedError
+      )
+      expect(mockMfaChallengeRepository.delete).toHaveBeenCalledWith('challenge-1')
+    })
+
+    it('should reject unknown or expired challenges', async () => {
+      mockMfaChallengeRepository.get = vi.fn().mockResolvedValue(null)
+
+      await expect(service.completeMfaChallenge('missing', '123456')).rejects.toThrow(
+        UnauthorizedError
+      )
+    })
+
+    it('should reject a challenge another request completed first', async () => {
+      mockMfaService.getLoginRequirement = vi.fn().mockResolvedValue('verify')
+      mockMfaService.verifyCode = vi.fn().mockResolvedValue(true)
+      mockMfaChallengeRepository.delete = vi.fn().mockResolvedValue(false)
+
+      await expect(service.completeMfaChallenge('challenge-1', '123456')).rejects.toThrow(
+        UnauthorizedError
+      )
+      expect(mockSessionRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject suspended users', async () => {
+      mockUserRepository.findById = vi.fn().mockResolvedValue({ ...mockUser, suspended: true })
+
+      await expect(service.completeMfaChallenge('challenge-1', '123456')).rejects.toThrow(
+        ForbiddenError
+      )
+    })
   })
 
   // ===========================================
@@ -299,22 +600,64 @@ describe('AuthService - Unit Tests', () => {
   // refreshAccessToken() Tests
   // ===========================================
   describe('refreshAccessToken', () => {
-    it('should return new access token for valid refresh token', async () => {
+    it('should return new access token and rotate the refresh token', async () => {
       mockSessionRepository.get = vi.fn().mockResolvedValue({ userId: 'user-123' })
       mockUserRepository.findById = vi.fn().mockResolvedValue(mockUser)
-      mockSessionRepository.refresh = vi.fn().mockResolvedValue(undefined)
+      mockSessionRepository.rotate = vi.fn().mockResolvedValue({ id: 'session-1' })
 
-      const result = await service.refreshAccessToken('refresh_token_123', false)
+      const result = await service.refreshAccessToken('old_refresh_token', { ip: '10.0.0.1' })
 
       expect(result.accessToken).toBe('access_user-123_student')
-      expect(result.refreshToken).toBe('refresh_token_123')
-      expect(mockSessionRepository.refresh).toHaveBeenCalledWith('refresh_token_123')
+      expect(result.refreshToken).not.toBe('old_refresh_token')
+      expect(result.refreshToken).toContain('refresh_token_')
+      expect(mockSessionRepository.rotate).toHaveBeenCalledWith(
+        'old_refresh_token',
+        result.refreshToken,
+        undefined,
+        { ip: '10.0.0.1' }
+      )
+      expect(mockSessionRepository.create).not.toHaveBeenCalled()
+      expect(mockSessionRepository.refresh).not.toHaveBeenCalled()
     })
 
     it('should throw UnauthorizedError for invalid refresh token', async () => {
       mockSessionRepository.get = vi.fn().mockResolvedValue(null)
+      mockSessionRepository.findRetired = vi.fn().mockResolvedValue(null)
+
+      await expect(service.refreshAccessToken('invalid_token')).rejects.toThrow(
+        UnauthorizedError
+      )
+      expect(mockSessionRepository.deleteFamily).not.toHaveBeenCalled()
+      expect(mockAuditService.record).not.toHaveBeenCalled()
+    })
+
+    it('should revoke the token family and log a reused refresh token', async () => {
+      mockSessionRepository.get = vi.fn().mockResolvedValue(null)
+      mockSessionRepository.findRetired = vi
+        .fn()
+        .mockResolvedValue({ userId: 'user-123', sessionId: 'session-1' })
+      mockSessionRepository.deleteFamily = vi.fn().mockResolvedValue(true)
+
+      await expect(
+        service.refreshAccessToken('rotated_out_token', { ip: '203.0.113.9', userAgent: 'curl' })
+      ).rejects.toThrow(UnauthorizedError)
+
+      expect(mockSessionRepository.deleteFamily).toHaveBeenCalledWith('user-123', 'session-1')
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        null,
+        'refresh_token_reused',
+        { type: 'user', id: 'user-123' },
+        null,
+        { sessionId: 'session-1', ip: '203.0.113.9', userAgent: 'curl' }
+      )
+    })
 
-      await expect(service.refreshAccessToken('invalid_token', false)).rejects.toThrow(
+    it('should throw UnauthorizedError when a concurrent refresh rotated the token first', async () => {
+      mockSessionRepository.get = vi.fn().mockResolvedValue({ userId: 'user-123' })
+      mockUserRepository.findById = vi.fn().mockResolvedValue(mockUser)
+      mockSessionRepository.rotate = vi.fn().mockResolvedValue(null)
+
+      await expect(service.refreshAccessToken('refresh_token_123')).rejects.toThrow(
         UnauthorizedError
       )
     })
@@ -324,7 +667,7 @@ describe('AuthService - Unit Tests', () => {
       mockUserRepository.findById = vi.fn().mockResolvedValue(null)
       mockSessionRepository.delete = vi.fn().mockResolvedValue(undefined)
 
-      await expect(service.refreshAccessToken('refresh_token_123', false)).rejects.toThrow(
+      await expect(service.refreshAccessToken('refresh_token_123')).rejects.toThrow(
         UnauthorizedError
       )
       expect(mockSessionRepository.delete).toHaveBeenCalledWith('refresh_token_123')
@@ -338,46 +681,11 @@ describe('AuthService - Unit Tests', () => {
       })
       mockSessionRepository.delete = vi.fn().mockResolvedValue(undefined)
 
-      await expect(service.refreshAccessToken('refresh_token_123', false)).rejects.toThrow(
+      await expect(service.refreshAccessToken('refresh_token_123')).rejects.toThrow(
         ForbiddenError
       )
       expect(mockSessionRepository.delete).toHaveBeenCalledWith('refresh_token_123')
-    })
-
-    it('should rotate refresh token when rotate=true', async () => {
-      mockSessionRepository.get = vi.fn().mockResolvedValue({ userId: 'user-123' })
-      mockUserRepository.findById = vi.fn().mockResolvedValue(mockUser)
-      mockSessionRepository.delete = vi.fn().mockResolvedValue(undefined)
-      mockSessionRepository.create = vi.fn().mockResolvedValue(undefined)
-
-      const result = await service.refreshAccessToken('old_refresh_token', true)
-
-      expect(result.refreshToken).not.toBe('old_refresh_token')
-      expect(result.refreshToken).toContain('refresh_token_')
-      expect(mockSessionRepository.delete).toHaveBeenCalledWith('old_refresh_token')
-      expect(mockSessionRepository.create).toHaveBeenCalled()
-    })
-
-    it('should not rotate refresh token when rotate=false', async () => {
-      mockSessionRepository.get = vi.fn().mockResolvedValue({ userId: 'user-123' })
-      mockUserRepository.findById = vi.fn().mockResolvedValue(mockUser)
-      mockSessionRepository.refresh = vi.fn().mockResolvedValue(undefined)
-
-      const result = await service.refreshAccessToken('refresh_token_123', false)
-
-      expect(result.refreshToken).toBe('refresh_token_123')
-      expect(mockSessionRepository.delete).not.toHaveBeenCalled()
-      expect(mockSessionRepository.create).not.toHaveBeenCalled()
-    })
-
-    it('should extend TTL when not rotating', async () => {
-      mockSessionRepository.get = vi.fn().mockResolvedValue({ userId: 'user-123' })
-      mockUserRepository.findById = vi.fn().mockResolvedValue(mockUser)
-      mockSessionRepository.refresh = vi.fn().mockResolvedValue(undefined)
-
-      await service.refreshAccessToken('refresh_token_123', false)
-
-      expect(mockSessionRepository.refresh).toHaveBeenCalledWith('refresh_token_123')
+      expect(mockSessionRepository.rotate).not.toHaveBeenCalled()
     })
 
     it('should not clean up session on database errors (error propagation)', async () => {
@@ -386,7 +694,7 @@ describe('AuthService - Unit Tests', () => {
       mockSessionRepository.delete = vi.fn().mockResolvedValue(undefined)
 
       // On database errors, the service lets the error propagate without cleanup
-      await expect(service.refreshAccessToken('refresh_token_123', false)).rejects.toThrow('DB error')
+      await expect(service.refreshAccessToken('refresh_token_123')).rejects.toThrow('DB error')
       expect(mockSessionRepository.delete).not.toHaveBeenCalled()
     })
   })
@@ -404,6 +712,16 @@ describe('AuthService - Unit Tests', () => {
       expect(mockUserRepository.findById).toHaveBeenCalledWith('user-123')
     })
 
+    it('should reject a token issued before its sessions were revoked', async () => {
+      mockUserRepository.findById = vi.fn().mockResolvedValue(mockUser)
+      mockTokenVersionRepository.get = vi.fn().mockResolvedValue(1)
+
+      await expect(service.verifyToken('access_user-123_student')).rejects.toThrow(
+        TokenInvalidError
+      )
+      expect(mockUserRepository.findById).not.toHaveBeenCalled()
+    })
+
     it('should throw error for invalid token signature', async () => {
       const { verifyAccessToken } = await import('@concentrate/shared')
       ;(verifyAccessToken as ReturnType<typeof vi.fn>).mockImplementation(() => {
@@ -522,26 +840,42 @@ describe('AuthService - Unit Tests', () => {
   // requestPasswordReset() Tests
   // ===========================================
   describe('requestPasswordReset', () => {
-    it('should generate reset token for valid email', async () => {
+    it('should store a reset token and email it instead of returning it', async () => {
       mockUserRepository.findByEmail = vi.fn().mockResolvedValue(mockUser)
-      mockUserRepository.update = vi.fn().mockResolvedValue({
-        ...mockUser,
-        // Would have reset token fields
-      })
 
-      const token = await service.requestPasswordReset('test@example.com')
+      const result = await service.requestPasswordReset('test@example.com')
 
-      expect(token).toBeDefined()
-      expect(typeof token).toBe('string')
-      expect(mockUserRepository.findByEmail).toHaveBeenCalledWith('test@example.com')
+      expect(result).toBeUndefined()
+      expect(mockResetTokenRepository.create).toHaveBeenCalledWith(
+        'user-123',
+        expect.any(String),
+        30 * 60
+      )
+      const token = vi.mocked(mockResetTokenRepository.create!).mock.calls[0]![1]
+      expect(mockMailer.sendPasswordReset).toHaveBeenCalledWith(
+        { email: 'test@example.com', name: 'Test User' },
+        token,
+        30
+      )
     })
 
-    it('should throw NotFoundError for non-existent email', async () => {
+    it('should silently ignore non-existent emails', async () => {
       mockUserRepository.findByEmail = vi.fn().mockResolvedValue(null)
 
-      await expect(service.requestPasswordReset('nonexistent@example.com')).rejects.toThrow(
-        NotFoundError
-      )
+      await expect(
+        service.requestPasswordReset('nonexistent@example.com')
+      ).resolves.toBeUndefined()
+
+      expect(mockResetTokenRepository.create).not.toHaveBeenCalled()
+      expect(mockMailer.sendPasswordReset).not.toHaveBeenCalled()
+    })
+
+    it('should throw when no mailer is configured', async () => {
+      const serviceWithoutMailer = new AuthService(mockDb as never)
+
+      await expect(
+        serviceWithoutMailer.requestPasswordReset('test@example.com')
+      ).rejects.toThrow('Password reset requires a mailer')
     })
 
     it('should normalize email before lookup', async () => {
@@ -561,27 +895,27 @@ describe('AuthService - Unit Tests', () => {
     const validResetToken = 'valid_reset_token_123'
 
     it('should reset password with valid token', async () => {
-      mockSessionRepository.get = vi.fn().mockResolvedValue({ userId: 'user-123' })
+      mockResetTokenRepository.get = vi.fn().mockResolvedValue({ userId: 'user-123' })
       mockUserRepository.findById = vi.fn().mockResolvedValue(mockUser)
       mockUserRepository.update = vi.fn().mockResolvedValue({
         ...mockUser,
         password_hash: 'hashed_newpassword',
       })
-      mockSessionRepository.delete = vi.fn().mockResolvedValue(undefined)
+      mockResetTokenRepository.delete = vi.fn().mockResolvedValue(undefined)
       mockSessionRepository.deleteAllForUser = vi.fn().mockResolvedValue(undefined)
 
       await service.resetPassword(validResetToken, 'newpassword')
 
-      expect(mockSessionRepository.get).toHaveBeenCalledWith(validResetToken)
+      expect(mockResetTokenRepository.get).toHaveBeenCalledWith(validResetToken)
       expect(mockUserRepository.update).toHaveBeenCalledWith('user-123', {
         password_hash: 'hashed_newpassword',
       })
-      expect(mockSessionRepository.delete).toHaveBeenCalledWith(validResetToken)
+      expect(mockResetTokenRepository.delete).toHaveBeenCalledWith(validResetToken)
       expect(mockSessionRepository.deleteAllForUser).toHaveBeenCalledWith('user-123')
     })
 
     it('should throw UnauthorizedError for invalid token', async () => {
-      mockSessionRepository.get = vi.fn().mockResolvedValue(null)
+      mockResetTokenRepository.get = vi.fn().mockResolvedValue(null)
 
       await expect(service.resetPassword('invalid_token', 'newpassword')).rejects.toThrow(
         UnauthorizedError
@@ -590,7 +924,7 @@ describe('AuthService - Unit Tests', () => {
 
     it('should throw UnauthorizedError for expired token (not in Redis)', async () => {
       // If token is not in Redis, it's expired (TTL elapsed)
-      mockSessionRepository.get = vi.fn().mockResolvedValue(null)
+      mockResetTokenRepository.get = vi.fn().mockResolvedValue(null)
 
       await expect(service.resetPassword('expired_token', 'newpassword')).rejects.toThrow(
         UnauthorizedError
@@ -598,13 +932,13 @@ describe('AuthService - Unit Tests', () => {
     })
 
     it('should revoke all sessions after reset', async () => {
-      mockSessionRepository.get = vi.fn().mockResolvedValue({ userId: 'user-123' })
+      mockResetTokenRepository.get = vi.fn().mockResolvedValue({ userId: 'user-123' })
       mockUserRepository.findById = vi.fn().mockResolvedValue(mockUser)
       mockUserRepository.update = vi.fn().mockResolvedValue({
         ...mockUser,
         password_hash: 'hashed_newpassword',
       })
-      mockSessionRepository.delete = vi.fn().mockResolvedValue(undefined)
+      mockResetTokenRepository.delete = vi.fn().mockResolvedValue(undefined)
       mockSessionRepository.deleteAllForUser = vi.fn().mockResolvedValue(undefined)
 
       await service.resetPassword(validResetToken, 'newpassword')
@@ -613,19 +947,19 @@ describe('AuthService - Unit Tests', () => {
     })
 
     it('should clear reset token after use', async () => {
-      mockSessionRepository.get = vi.fn().mockResolvedValue({ userId: 'user-123' })
+      mockResetTokenRepository.get = vi.fn().mockResolvedValue({ userId: 'user-123' })
       mockUserRepository.findById = vi.fn().mockResolvedValue(mockUser)
       mockUserRepository.update = vi.fn().mockResolvedValue({
         ...mockUser,
         password_hash: 'hashed_newpassword',
       })
-      mockSessionRepository.delete = vi.fn().mockResolvedValue(undefined)
+      mockResetTokenRepository.delete = vi.fn().mockResolvedValue(undefined)
       mockSessionRepository.deleteAllForUser = vi.fn().mockResolvedValue(undefined)
 
       await service.resetPassword(validResetToken, 'newpassword')
 
       // Reset token should be deleted from Redis
-      expect(mockSessionRepository.delete).toHaveBeenCalledWith(validResetToken)
+      expect(mockResetTokenRepository.delete).toHaveBeenCalledWith(validResetToken)
     })
   })
 
@@ -642,6 +976,22 @@ describe('AuthService - Unit Tests', () => {
       expect(mockSessionRepository.deleteAllForUser).toHaveBeenCalledWith('user-123')
     })
 
+    it('should revoke access tokens already issued', async () => {
+      mockSessionRepository.deleteAllForUser = vi.fn().mockResolvedValue(0)
+
+      await service.revokeAllSessions('user-123')
+
+      expect(mockTokenVersionRepository.increment).toHaveBeenCalledWith('user-123')
+    })
+
+    it('should close the open live update streams of the user', async () => {
+      mockSessionRepository.deleteAllForUser = vi.fn().mockResolvedValue(0)
+
+      await service.revokeAllSessions('user-123')
+
+      expect(mockEvents.publish).toHaveBeenCalledWith('user-123', { type: 'session_revoked' })
+    })
+
     it('should return 0 when no sessions exist', async () => {
       mockSessionRepository.deleteAllForUser = vi.fn().mockResolvedValue(0)
 
@@ -651,6 +1001,20 @@ describe('AuthService - Unit Tests', () => {
     })
   })
 
+  // ===========================================
+  // isAccessTokenRevoked() Tests
+  // ===========================================
+  describe('isAccessTokenRevoked', () => {
+    it('should only reject tokens older than the current token version', async () => {
+      mockTokenVersionRepository.get = vi.fn().mockResolvedValue(2)
+
+      expect(await service.isAccessTokenRevoked('user-123', 1)).toBe(true)
+      expect(await service.isAccessTokenRevoked('user-123', 2)).toBe(false)
+      // Tokens issued before versions existed count as version 0
+      expect(await service.isAccessTokenRevoked('user-123')).toBe(true)
+    })
+  })
+
   // ===========================================
   // getActiveSessions() Tests
   // ===========================================
@@ -698,4 +1062,54 @@ describe('AuthService - Unit Tests', () => {
       expect(count).toBe(0)
     })
   })
+
+  // ===========================================
+  // listSessions() / revokeSession() Tests
+  // ===========================================
+  describe('listSessions', () => {
+    const storedSession = (id: string, refreshToken: string) => ({
+      id,
+      userId: 'user-123',
+      refreshToken,
+      userAgent: 'Firefox',
+      ip: '10.0.0.1',
+      createdAt: new Date('2026-01-01T10:00:00Z'),
+      lastUsedAt: new Date('2026-01-02T10:00:00Z'),
+      expiresAt: new Date('2026-01-08T10:00:00Z'),
+    })
+
+    it('should flag the current session and hide refresh tokens', async () => {
+      mockSessionRepository.findAllForUser = vi
+        .fn()
+        .mockResolvedValue([storedSession('s1', 'token1'), storedSession('s2', 'token2')])
+
+      const sessions = await service.listSessions('user-123', 'token2')
+
+      expect(sessions.map((s) => [s.id, s.current])).toEqual([
+        ['s1', false],
+        ['s2', true],
+      ])
+      expect(sessions[0]).not.toHaveProperty('refreshToken')
+      expect(sessions[0]).toMatchObject({ userAgent: 'Firefox', ip: '10.0.0.1' })
+    })
+
+    it('should revoke a session by ID', async () => {
+      mockSessionRepository.findAllForUser = vi
+        .fn()
+        .mockResolvedValue([storedSession('s1', 'token1')])
+      mockSessionRepository.delete = vi.fn().mockResolvedValue(undefined)
+
+      const revoked = await service.revokeSession('user-123', 's1')
+
+      expect(revoked.refreshToken).toBe('token1')
+      expect(mockSessionRepository.delete).toHaveBeenCalledWith('token1')
+    })
+
+    it('should throw NotFoundError for a session of another user', async () => {
+      mockSessionRepository.findAllForUser = vi.fn().mockResolvedValue([])
+
+      await expect(service.revokeSession('user-123', 's1')).rejects.toThrow(NotFoundError)
+      expect(mockSessionRepository.delete).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -1,13 +1,32 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { ClassService } from '../../src/ClassService'
-import type { ClassRepository, UserRepository } from '@concentrate/database'
-import type { Class, User } from '@concentrate/database'
-import { NotFoundError, ForbiddenError, AlreadyExistsError } from '@concentrate/shared'
+import type {
+  ClassRepository,
+  ClassStaffRepository,
+  ClassJoinCodeRepository,
+  UserRepository,
+} from '@concentrate/database'
+import type { Class, ClassJoinCode, User } from '@concentrate/database'
+import {
+  NotFoundError,
+  ForbiddenError,
+  AlreadyExistsError,
+  InvalidStateError,
+  ValidationError,
+} from '@concentrate/shared'
+import type { UserService } from '../../src/UserService'
+import type { NotificationService } from '../../src/NotificationService'
+import type { AuditService } from '../../src/AuditService'
 
 describe('ClassService - Unit Tests', () => {
   let service: ClassService
   let mockClassRepository: Partial<ClassRepository>
+  let mockClassStaffRepository: Partial<ClassStaffRepository>
+  let mockJoinCodeRepository: Partial<ClassJoinCodeRepository>
   let mockUserRepository: Partial<UserRepository>
+  let mockUserService: Partial<UserService>
+  let mockNotificationService: Partial<NotificationService>
+  let mockAuditService: Partial<AuditService>
   let mockDb: unknown
 
   const mockTeacher: User = {
@@ -64,18 +83,57 @@ describe('ClassService - Unit Tests', () => {
       countClassesForStudent: vi.fn(),
     }
 
+    mockJoinCodeRepository = {
+      findByClass: vi.fn(),
+      findByCode: vi.fn(),
+      save: vi.fn(),
+      deleteByClass: vi.fn(),
+      redeem: vi.fn(),
+    }
+
     mockUserRepository = {
       findById: vi.fn(),
+      findByEmail: vi.fn(),
+    }
+
+    mockUserService = {
+      createUser: vi.fn(),
+    }
+
+    mockNotificationService = {
+      notifyEnrolled: vi.fn(),
+    }
+
+    mockAuditService = {
+      record: vi.fn(),
+    }
+
+    mockClassStaffRepository = {
+      add: vi.fn().mockResolvedValue(null),
+      findRole: vi.fn().mockResolvedValue(null),
     }
 
     mockDb = {} as unknown
+
     service = new ClassService(mockDb as never)
 
     // Inject mocks
     ;(service as unknown as { classRepository: Partial<ClassRepository> }).classRepository =
       mockClassRepository
+    ;(
+      service as unknown as { classStaffRepository: Partial<ClassStaffRepository> }
+    ).classStaffRepository = mockClassStaffRepository
+    ;(
+      service as unknown as { joinCodeRepository: Partial<ClassJoinCodeRepository> }
+    ).joinCodeRepository = mockJoinCodeRepository
     ;(service as unknown as { userRepository: Partial<UserRepository> }).userRepository =
       mockUserRepository
+    ;(service as unknown as { userService: Partial<UserService> }).userService = mockUserService
+    ;(
+      service as unknown as { notificationService: Partial<NotificationService> }
+    ).notificationService = mockNotificationService
+    ;(service as unknown as { auditService: Partial<AuditService> }).auditService =
+      mockAuditService
   })
 
   // ===========================================
@@ -138,6 +196,19 @@ describe('ClassService - Unit Tests', () => {
       const createCall = (mockClassRepository.create as ReturnType<typeof vi.fn>).mock.calls[0][0]
       expect(createCall.teacher_id).toBe('teacher-123')
     })
+
+    it('should add the teacher as class owner on the staff', async () => {
+      mockUserRepository.findById = vi.fn().mockResolvedValue(mockTeacher)
+      mockClassRepository.create = vi.fn().mockResolvedValue(mockClass)
+
+      await service.createClass('teacher-123', { name: 'Test' })
+
+      expect(mockClassStaffRepository.add).toHaveBeenCalledWith({
+        class_id: 'class-123',
+        user_id: 'teacher-123',
+        role: 'owner',
+      })
+    })
   })
 
   // ===========================================
@@ -193,6 +264,28 @@ describe('ClassService - Unit Tests', () => {
       expect(mockClassRepository.update).not.toHaveBeenCalled()
     })
 
+    it('should update class when teacher is a co-teacher', async () => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockClassStaffRepository.findRole = vi.fn().mockResolvedValue('co_teacher')
+      mockClassRepository.update = vi.fn().mockResolvedValue(mockClass)
+
+      await service.updateClass('class-123', 'co-teacher-123', { name: 'Updated Name' })
+
+      expect(mockClassStaffRepository.findRole).toHaveBeenCalledWith('class-123', 'co-teacher-123')
+      expect(mockClassRepository.update).toHaveBeenCalled()
+    })
+
+    it('should throw ForbiddenError if teacher is a TA', async () => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockClassStaffRepository.findRole = vi.fn().mockResolvedValue('ta')
+
+      await expect(
+        service.updateClass('class-123', 'ta-123', { name: 'Updated Name' })
+      ).rejects.toThrow(ForbiddenError)
+
+      expect(mockClassRepository.update).not.toHaveBeenCalled()
+    })
+
     it('should throw NotFoundError if class not found', async () => {
       mockClassRepository.findById = vi.fn().mockResolvedValue(null)
 
@@ -215,6 +308,13 @@ describe('ClassService - Unit Tests', () => {
       await service.deleteClass('class-123', 'teacher-123')
 
       expect(mockClassRepository.delete).toHaveBeenCalledWith('class-123')
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        'teacher-123',
+        'class_deleted',
+        { type: 'class', id: 'class-123' },
+        { name: mockClass.name, description: mockClass.description, teacher_id: 'teacher-123' },
+        null
+      )
     })
 
     it('should throw ForbiddenError if teacher is not owner', async () => {
@@ -227,6 +327,17 @@ describe('ClassService - Unit Tests', () => {
       expect(mockClassRepository.delete).not.toHaveBeenCalled()
     })
 
+    it('should throw ForbiddenError if teacher is a co-teacher', async () => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockClassStaffRepository.findRole = vi.fn().mockResolvedValue('co_teacher')
+
+      await expect(service.deleteClass('class-123', 'co-teacher-123')).rejects.toThrow(
+        ForbiddenError
+      )
+
+      expect(mockClassRepository.delete).not.toHaveBeenCalled()
+    })
+
     it('should throw NotFoundError if class not found', async () => {
       mockClassRepository.findById = vi.fn().mockResolvedValue(null)
 
@@ -290,6 +401,9 @@ describe('ClassService - Unit Tests', () => {
       await service.enrollStudent('class-123', 'student-123', 'teacher-123')
 
       expect(mockClassRepository.addStudent).toHaveBeenCalledWith('class-123', 'student-123')
+      expect(mockNotificationService.notifyEnrolled).toHaveBeenCalledWith(mockClass, [
+        'student-123',
+      ])
     })
 
     it('should throw ForbiddenError if teacher is not class owner', async () => {
@@ -470,6 +584,13 @@ describe('ClassService - Unit Tests', () => {
         'class-456',
         ['student-1', 'student-2']
       )
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        'teacher-123',
+        'students_transferred',
+        { type: 'class', id: 'class-123' },
+        { class_id: 'class-123', student_ids: ['student-1', 'student-2'] },
+        { class_id: 'class-456', student_ids: ['student-1', 'student-2'] }
+      )
     })
 
     it('should throw ForbiddenError if teacher is not owner of source class', async () => {
@@ -481,6 +602,446 @@ describe('ClassService - Unit Tests', () => {
     })
   })
 
+  // ===========================================
+  // importRoster() Tests
+  // ===========================================
+  describe('importRoster', () => {
+    const otherClass: Class = {
+      ...mockClass,
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      name: 'Other Class',
+      teacher_id: 'other-teacher',
+    }
+    const teacher = { userId: 'teacher-123', role: 'teacher' as const }
+
+    beforeEach(() => {
+      mockClassRepository.findByName = vi
+        .fn()
+        .mockImplementation((name: string) =>
+          Promise.resolve(name.toLowerCase() === 'test class' ? [mockClass] : [])
+        )
+      mockClassRepository.findById = vi.fn().mockResolvedValue(otherClass)
+      mockClassRepository.isStudentEnrolled = vi.fn().mockResolvedValue(false)
+      mockUserRepository.findByEmail = vi.fn().mockImplementation((email: string) =>
+        Promise.resolve(
+          email === mockStudent.email
+            ? mockStudent
+            : email === mockTeacher.email
+              ? mockTeacher
+              : null
+        )
+      )
+      mockUserService.createUser = vi
+        .fn()
+        .mockResolvedValue({ ...mockStudent, id: 'student-new', email: 'new@example.com' })
+    })
+
+    it('should create missing students and enroll everyone', async () => {
+      const csv = [
+        'Name,Email,Class',
+        'New Student,New@Example.com,Test Class',
+        'Test Student,student@example.com,test class',
+      ].join('\n')
+
+      const result = await service.importRoster(csv, teacher)
+
+      expect(result.rows.map((r) => r.status)).toEqual(['created', 'enrolled'])
+      expect(result).toMatchObject({ created: 1, enrolled: 2, errorCount: 0 })
+      expect(mockUserService.createUser).toHaveBeenCalledWith({
+        email: 'new@example.com',
+        name: 'New Student',
+        role: 'student',
+        password_hash: null,
+      })
+      expect(mockClassRepository.addStudent).toHaveBeenCalledWith('class-123', 'student-new')
+      expect(mockClassRepository.addStudent).toHaveBeenCalledWith('class-123', 'student-123')
+      expect(mockClassRepository.findByName).toHaveBeenCalledTimes(1)
+      expect(mockClassRepository.findByName).toHaveBeenCalledWith('Test Class', 'teacher-123')
+    })
+
+    it('should report bad rows without stopping the import', async () => {
+      mockClassRepository.isStudentEnrolled = vi.fn().mockResolvedValue(true)
+      const csv = [
+        'Email,Name,Class',
+        'bad-email,Someone,Test Class',
+        'x@example.com,Someone,Missing Class',
+        'teacher@example.com,Teacher,Test Class',
+        'student@example.com,Test Student,Test Class',
+      ].join('\n')
+
+      const result = await service.importRoster(csv, teacher)
+
+      expect(result.rows.map((r) => r.status)).toEqual([
+        'invalid_row',
+        'unknown_class',
+        'not_a_student',
+        'already_enrolled',
+      ])
+      expect(result.rows[0]?.message).toBe('Invalid email format')
+      expect(result.errorCount).toBe(3)
+      expect(mockClassRepository.addStudent).not.toHaveBeenCalled()
+    })
+
+    it('should report class names shared by several classes', async () => {
+      mockClassRepository.findByName = vi.fn().mockResolvedValue([mockClass, otherClass])
+
+      const result = await service.importRoster(
+        'Name,Email,Class\nTest Student,student@example.com,Test Class',
+        { userId: 'admin-123', role: 'admin' }
+      )
+
+      expect(result.rows[0]?.status).toBe('ambiguous_class')
+      expect(mockClassRepository.findByName).toHaveBeenCalledWith('Test Class', undefined)
+    })
+
+    it('should let admins import into any class by ID', async () => {
+      const csv = `Name,Email,Class\nTest Student,student@example.com,${otherClass.id}`
+
+      const asAdmin = await service.importRoster(csv, { userId: 'admin-123', role: 'admin' })
+      const asTeacher = await service.importRoster(csv, teacher)
+
+      expect(asAdmin.rows[0]).toMatchObject({ status: 'enrolled', classId: otherClass.id })
+      expect(asTeacher.rows[0]).toMatchObject({ status: 'unknown_class', classId: null })
+    })
+
+    it('should require Name, Email and Class columns', async () => {
+      await expect(service.importRoster('Name,Email\nA,a@example.com', teacher)).rejects.toThrow(
+        ValidationError
+      )
+    })
+  })
+
+  // ===========================================
+  // Join Code Tests
+  // ===========================================
+  describe('join codes', () => {
+    const joinCode: ClassJoinCode = {
+      class_id: 'class-123',
+      code: 'ABCD2345',
+      expires_at: null,
+      max_uses: null,
+      use_count: 0,
+      created_at: new Date(),
+    }
+
+    describe('regenerateJoinCode', () => {
+      it('should save a new code with expiry and max uses', async () => {
+        const expiresAt = new Date(Date.now() + 60_000)
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+        mockJoinCodeRepository.findByCode = vi.fn().mockResolvedValue(null)
+        mockJoinCodeRepository.save = vi.fn().mockImplementation(async (data) => data)
+
+        const result = await service.regenerateJoinCode('class-123', 'teacher-123', {
+          expiresAt,
+          maxUses: 30,
+        })
+
+        expect(result).toMatchObject({
+          class_id: 'class-123',
+          expires_at: expiresAt,
+          max_uses: 30,
+        })
+        expect(result.code).toMatch(/^[A-HJ-NP-Z2-9]{8}$/)
+      })
+
+      it('should retry when the generated code is taken', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+        mockJoinCodeRepository.findByCode = vi
+          .fn()
+          .mockResolvedValueOnce(joinCode)
+          .mockResolvedValueOnce(null)
+        mockJoinCodeRepository.save = vi.fn().mockImplementation(async (data) => data)
+
+        await service.regenerateJoinCode('class-123', 'teacher-123')
+
+        expect(mockJoinCodeRepository.findByCode).toHaveBeenCalledTimes(2)
+        expect(mockJoinCodeRepository.save).toHaveBeenCalledWith(
+          expect.objectContaining({ expires_at: null, max_uses: null })
+        )
+      })
+
+      it('should reject an expiry in the past', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+
+        await expect(
+          service.regenerateJoinCode('class-123', 'teacher-123', {
+            expiresAt: new Date(Date.now() - 1000),
+          })
+        ).rejects.toThrow(ValidationError)
+      })
+
+      it('should forbid other teachers', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+
+        await expect(service.regenerateJoinCode('class-123', 'teacher-456')).rejects.toThrow(
+          ForbiddenError
+        )
+        expect(mockJoinCodeRepository.save).not.toHaveBeenCalled()
+      })
+    })
+
+    describe('disableJoinCode', () => {
+      it('should throw NotFoundError when the class has no code', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+        mockJoinCodeRepository.deleteByClass = vi.fn().mockResolvedValue(false)
+
+        await expect(service.disableJoinCode('class-123', 'teacher-123')).rejects.toThrow(
+          NotFoundError
+        )
+      })
+    })
+
+    describe('joinClassWithCode', () => {
+      it('should enroll the student and count the use', async () => {
+        mockJoinCodeRepository.findByCode = vi.fn().mockResolvedValue(joinCode)
+        mockJoinCodeRepository.redeem = vi.fn().mockResolvedValue(true)
+        mockClassRepository.isStudentEnrolled = vi.fn().mockResolvedValue(false)
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+
+        const result = await service.joinClassWithCode(' abcd2345 ', 'student-123')
+
+        expect(result).toEqual(mockClass)
+        expect(mockJoinCodeRepository.findByCode).toHaveBeenCalledWith('ABCD2345')
+        expect(mockJoinCodeRepository.redeem).toHaveBeenCalledWith('class-123', 'student-123')
+      })
+
+      it('should throw NotFoundError for an unknown code', async () => {
+        mockJoinCodeRepository.findByCode = vi.fn().mockResolvedValue(null)
+
+        await expect(service.joinClassWithCode('NOPE', 'student-123')).rejects.toThrow(
+          NotFoundError
+        )
+      })
+
+      it('should reject an expired code', async () => {
+        mockJoinCodeRepository.findByCode = vi
+          .fn()
+          .mockResolvedValue({ ...joinCode, expires_at: new Date(Date.now() - 1000) })
+
+        await expect(service.joinClassWithCode('ABCD2345', 'student-123')).rejects.toThrow(
+          'Join code has expired'
+        )
+        expect(mockJoinCodeRepository.redeem).not.toHaveBeenCalled()
+      })
+
+      it('should reject a code with no uses left', async () => {
+        mockJoinCodeRepository.findByCode = vi.fn().mockResolvedValue(joinCode)
+        mockJoinCodeRepository.redeem = vi.fn().mockResolvedValue(false)
+        mockClassRepository.isStudentEnrolled = vi.fn().mockResolvedValue(false)
+
+        await expect(service.joinClassWithCode('ABCD2345', 'student-123')).rejects.toThrow(
+          InvalidStateError
+        )
+      })
+
+      it('should not use up the code for an enrolled student', async () => {
+        mockJoinCodeRepository.findByCode = vi.fn().mockResolvedValue(joinCode)
+        mockClassRepository.isStudentEnrolled = vi.fn().mockResolvedValue(true)
+
+        await expect(service.joinClassWithCode('ABCD2345', 'student-123')).rejects.toThrow(
+          AlreadyExistsError
+        )
+        expect(mockJoinCodeRepository.redeem).not.toHaveBeenCalled()
+      })
+    })
+  })
+
+  // ===========================================
+  // Class staff Tests
+  // ===========================================
+  describe('class staff', () => {
+    const mockStaffMember = {
+      class_id: 'class-123',
+      user_id: 'teacher-456',
+      role: 'ta' as const,
+      created_at: new Date(),
+    }
+
+    describe('listStaff', () => {
+      it('should list staff for a staff member', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+        mockClassStaffRepository.findRole = vi.fn().mockResolvedValue('ta')
+        mockClassStaffRepository.findByClass = vi.fn().mockResolvedValue([mockStaffMember])
+
+        const result = await service.listStaff('class-123', 'teacher-456')
+
+        expect(result).toEqual([mockStaffMember])
+      })
+
+      it('should throw ForbiddenError for teachers not on the staff', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+
+        await expect(service.listStaff('class-123', 'different-teacher')).rejects.toThrow(
+          ForbiddenError
+        )
+      })
+    })
+
+    describe('addStaff', () => {
+      const otherTeacher = { ...mockTeacher, id: 'teacher-456', email: 'other@test.com' }
+
+      it('should add a teacher with the given role', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+        mockUserRepository.findByEmail = vi.fn().mockResolvedValue(otherTeacher)
+        mockClassStaffRepository.add = vi.fn().mockResolvedValue(mockStaffMember)
+
+        const result = await service.addStaff('class-123', 'teacher-123', {
+          email: ' Other@Test.com ',
+          role: 'ta',
+        })
+
+        expect(mockUserRepository.findByEmail).toHaveBeenCalledWith('other@test.com')
+        expect(mockClassStaffRepository.add).toHaveBeenCalledWith({
+          class_id: 'class-123',
+          user_id: 'teacher-456',
+          role: 'ta',
+        })
+        expect(result).toEqual(mockStaffMember)
+      })
+
+      it('should throw ForbiddenError if not the class owner', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+        mockClassStaffRepository.findRole = vi.fn().mockResolvedValue('co_teacher')
+
+        await expect(
+          service.addStaff('class-123', 'co-teacher-123', { email: 'other@test.com', role: 'ta' })
+        ).rejects.toThrow(ForbiddenError)
+      })
+
+      it('should throw NotFoundError if the user does not exist', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+        mockUserRepository.findByEmail = vi.fn().mockResolvedValue(null)
+
+        await expect(
+          service.addStaff('class-123', 'teacher-123', { email: 'nobody@test.com', role: 'ta' })
+        ).rejects.toThrow(NotFoundError)
+      })
+
+      it('should throw ValidationError if the user is not a teacher', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+        mockUserRepository.findByEmail = vi.fn().mockResolvedValue(mockStudent)
+
+        await expect(
+          service.addStaff('class-123', 'teacher-123', {
+            email: mockStudent.email,
+            role: 'co_teacher',
+          })
+        ).rejects.toThrow(ValidationError)
+
+        expect(mockClassStaffRepository.add).not.toHaveBeenCalled()
+      })
+
+      it('should throw AlreadyExistsError if the user is already on the staff', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+        mockUserRepository.findByEmail = vi.fn().mockResolvedValue(otherTeacher)
+
+        await expect(
+          service.addStaff('class-123', 'teacher-123', { email: otherTeacher.email, role: 'ta' })
+        ).rejects.toThrow(AlreadyExistsError)
+      })
+
+      it('should throw AlreadyExistsError when adding the owner', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+        mockUserRepository.findByEmail = vi.fn().mockResolvedValue(mockTeacher)
+
+        await expect(
+          service.addStaff('class-123', 'teacher-123', { email: mockTeacher.email, role: 'ta' })
+        ).rejects.toThrow(AlreadyExistsError)
+
+        expect(mockClassStaffRepository.add).not.toHaveBeenCalled()
+      })
+    })
+
+    describe('updateStaffRole', () => {
+      it('should change the role of a staff member', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+        mockClassStaffRepository.updateRole = vi
+          .fn()
+          .mockResolvedValue({ ...mockStaffMember, role: 'co_teacher' })
+
+        const result = await service.updateStaffRole(
+          'class-123',
+          'teacher-123',
+          'teacher-456',
+          'co_teacher'
+        )
+
+        expect(mockClassStaffRepository.updateRole).toHaveBeenCalledWith(
+          'class-123',
+          'teacher-456',
+          'co_teacher'
+        )
+        expect(result.role).toBe('co_teacher')
+      })
+
+      it('should throw InvalidStateError for the class owner', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+
+        await expect(
+          service.updateStaffRole('class-123', 'teacher-123', 'teacher-123', 'ta')
+        ).rejects.toThrow(InvalidStateError)
+      })
+
+      it('should throw NotFoundError if the user is not on the staff', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+        mockClassStaffRepository.updateRole = vi.fn().mockResolvedValue(null)
+
+        await expect(
+          service.updateStaffRole('class-123', 'teacher-123', 'teacher-456', 'ta')
+        ).rejects.toThrow(NotFoundError)
+      })
+    })
+
+    describe('removeStaff', () => {
+      it('should let the owner remove a staff member', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+        mockClassStaffRepository.remove = vi.fn().mockResolvedValue(true)
+
+        await service.removeStaff('class-123', 'teacher-123', 'teacher-456')
+
+        expect(mockClassStaffRepository.remove).toHaveBeenCalledWith('class-123', 'teacher-456')
+      })
+
+      it('should let a staff member remove themselves', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+        mockClassStaffRepository.remove = vi.fn().mockResolvedValue(true)
+
+        await service.removeStaff('class-123', 'teacher-456', 'teacher-456')
+
+        expect(mockClassStaffRepository.remove).toHaveBeenCalledWith('class-123', 'teacher-456')
+      })
+
+      it('should throw ForbiddenError if another staff member removes someone', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+        mockClassStaffRepository.findRole = vi.fn().mockResolvedValue('co_teacher')
+        mockClassStaffRepository.remove = vi.fn()
+
+        await expect(
+          service.removeStaff('class-123', 'co-teacher-123', 'teacher-456')
+        ).rejects.toThrow(ForbiddenError)
+
+        expect(mockClassStaffRepository.remove).not.toHaveBeenCalled()
+      })
+
+      it('should throw InvalidStateError when removing the owner', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+
+        await expect(
+          service.removeStaff('class-123', 'teacher-123', 'teacher-123')
+        ).rejects.toThrow(InvalidStateError)
+      })
+
+      it('should throw NotFoundError if the user is not on the staff', async () => {
+        mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+        mockClassStaffRepository.remove = vi.fn().mockResolvedValue(false)
+
+        await expect(
+          service.removeStaff('class-123', 'teacher-123', 'teacher-456')
+        ).rejects.toThrow(NotFoundError)
+      })
+    })
+  })
+
   // ===========================================
   // Query Methods Tests
   // ===========================================
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { InvitationService } from '../../src/InvitationService'
+import type { InvitationRepository, UserRepository } from '@concentrate/database'
+import type { Invitation, User } from '@concentrate/database'
+import { NotFoundError, ForbiddenError, AlreadyExistsError } from '@concentrate/shared'
+
+vi.mock('@concentrate/shared', async () => {
+  const actual = await vi.importActual('@concentrate/shared')
+  return {
+    ...actual,
+    hashPassword: vi.fn((password: string) => Promise.resolve(`hashed_${password}`)),
+    generateRefreshToken: vi.fn(() => 'invite-token'),
+  }
+})
+
+describe('InvitationService - Unit Tests', () => {
+  let service: InvitationService
+  let mockInvitationRepository: Partial<InvitationRepository>
+  let mockUserRepository: Partial<UserRepository>
+  let mockDb: unknown
+
+  const mockAdmin: User = {
+    id: 'admin-123',
+    email: 'admin@example.com',
+    password_hash: 'hashed_password',
+    name: 'Test Admin',
+    role: 'admin',
+    suspended: false,
+    created_at: new Date(),
+    updated_at: new Date(),
+  }
+
+  const mockInvitation: Invitation = {
+    token: 'invite-token',
+    email: 'teacher@example.com',
+    name: null,
+    role: 'teacher',
+    invitedBy: 'admin-123',
+    createdAt: new Date(),
+    expiresAt: new Date(Date.now() + 60_000),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    mockInvitationRepository = {
+      create: vi.fn(),
+      get: vi.fn(),
+      consume: vi.fn(),
+      delete: vi.fn(),
+      getAll: vi.fn(),
+    }
+
+    mockUserRepository = {
+      findById: vi.fn(),
+      findByEmail: vi.fn(),
+      create: vi.fn(),
+    }
+
+    mockDb = {} as unknown
+    service = new InvitationService(mockDb as never)
+
+    // Inject mocks
+    ;(
+      service as unknown as { invitationRepository: Partial<InvitationRepository> }
+    ).invitationRepository = mockInvitationRepository
+    ;(service as unknown as { userRepository: Partial<UserRepository> }).userRepository =
+      mockUserRepository
+  })
+
+  // ===========================================
+  // createInvitation() Tests
+  // ===========================================
+  describe('createInvitation', () => {
+    it('should store an invitation with the role chosen by the admin', async () => {
+      mockUserRepository.findById = vi.fn().mockResolvedValue(mockAdmin)
+      mockUserRepository.findByEmail = vi.fn().mockResolvedValue(null)
+      mockInvitationRepository.create = vi.fn().mockResolvedValue(mockInvitation)
+
+      const result = await service.createInvitation('admin-123', {
+        email: ' Teacher@Example.com ',
+        role: 'teacher',
+      })
+
+      expect(result).toEqual(mockInvitation)
+      expect(mockInvitationRepository.create).toHaveBeenCalledWith('invite-token', {
+        email: 'teacher@example.com',
+        name: null,
+        role: 'teacher',
+        invitedBy: 'admin-123',
+      })
+    })
+
+    it('should email the accept link when a mailer is configured', async () => {
+      const sendInvitation = vi.fn()
+      const mailedService = new InvitationService(mockDb as never, { sendInvitation } as never)
+      ;(
+        mailedService as unknown as { invitationRepository: Partial<InvitationRepository> }
+      ).invitationRepository = mockInvitationRepository
+      ;(mailedService as unknown as { userRepository: Partial<UserRepository> }).userRepository =
+        mockUserRepository
+      mockUserRepository.findById = vi.fn().mockResolvedValue(mockAdmin)
+      mockUserRepository.findByEmail = vi.fn().mockResolvedValue(null)
+      mockInvitationRepository.create = vi.fn().mockResolvedValue(mockInvitation)
+
+      await mailedService.createInvitation('admin-123', {
+        email: 'teacher@example.com',
+        role: 'teacher',
+      })
+
+      expect(sendInvitation).toHaveBeenCalledWith(mockInvitation, 'Test Admin')
+    })
+
+    it('should throw ForbiddenError if inviter is not an admin', async () => {
+      mockUserRepository.findById = vi.fn().mockResolvedValue({ ...mockAdmin, role: 'teacher' })
+
+      await expect(
+        service.createInvitation('admin-123', { email: 'a@example.com', role: 'teacher' })
+      ).rejects.toThrow(ForbiddenError)
+    })
+
+    it('should throw AlreadyExistsError if the email has an account', async () => {
+      mockUserRepository.findById = vi.fn().mockResolvedValue(mockAdmin)
+      mockUserRepository.findByEmail = vi.fn().mockResolvedValue(mockAdmin)
+
+      await expect(
+        service.createInvitation('admin-123', { email: 'admin@example.com', role: 'admin' })
+      ).rejects.toThrow(AlreadyExistsError)
+      expect(mockInvitationRepository.create).not.toHaveBeenCalled()
+    })
+  })
+
+  // ===========================================
+  // acceptInvitation() Tests
+  // ===========================================
+  describe('acceptInvitation', () => {
+    it('should consume the invitation and create the account', async () => {
+      mockInvitationRepository.get = vi.fn().mockResolvedValue(mockInvitation)
+      mockInvitationRepository.consume = vi.fn().mockResolvedValue(mockInvitation)
+      mockUserRepository.findByEmail = vi.fn().mockResolvedValue(null)
+      mockUserRepository.create = vi.fn().mockResolvedValue({ ...mockAdmin, role: 'teacher' })
+
+      await service.acceptInvitation('invite-token', { name: 'Teacher', password: 'Secret1!' })
+
+      expect(mockInvitationRepository.consume).toHaveBeenCalledWith('invite-token')
+      expect(mockUserRepository.create).toHaveBeenCalledWith({
+        email: 'teacher@example.com',
+        name: 'Teacher',
+        role: 'teacher',
+        password_hash: 'hashed_Secret1!',
+      })
+    })
+
+    it('should throw NotFoundError for an unknown invitation', async () => {
+      mockInvitationRepository.get = vi.fn().mockResolvedValue(null)
+
+      await expect(
+        service.acceptInvitation('missing', { name: 'Teacher', password: 'Secret1!' })
+      ).rejects.toThrow(NotFoundError)
+    })
+
+    it('should throw NotFoundError if the invitation was used concurrently', async () => {
+      mockInvitationRepository.get = vi.fn().mockResolvedValue(mockInvitation)
+      mockInvitationRepository.consume = vi.fn().mockResolvedValue(null)
+      mockUserRepository.findByEmail = vi.fn().mockResolvedValue(null)
+
+      await expect(
+        service.acceptInvitation('invite-token', { name: 'Teacher', password: 'Secret1!' })
+      ).rejects.toThrow(NotFoundError)
+      expect(mockUserRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('should keep the invitation if the email already has an account', async () => {
+      mockInvitationRepository.get = vi.fn().mockResolvedValue(mockInvitation)
+      mockUserRepository.findByEmail = vi.fn().mockResolvedValue(mockAdmin)
+
+      await expect(
+        service.acceptInvitation('invite-token', { name: 'Teacher', password: 'Secret1!' })
+      ).rejects.toThrow(AlreadyExistsError)
+      expect(mockInvitationRepository.consume).not.toHaveBeenCalled()
+    })
+  })
+
+  // ===========================================
+  // revokeInvitation() Tests
+  // ===========================================
+  describe('revokeInvitation', () => {
+    it('should throw NotFoundError for an unknown invitation', async () => {
+      mockInvitationRepository.delete = vi.fn().mockResolvedValue(false)
+
+      await expect(service.revokeInvitation('missing')).rejects.toThrow(NotFoundError)
+    })
+  })
+})
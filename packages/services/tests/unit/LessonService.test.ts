@@ -0,0 +1,279 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { LessonService } from '../../src/LessonService'
+import type {
+  LessonRepository,
+  ClassRepository,
+  ClassStaffRepository,
+} from '@concentrate/database'
+import type { Lesson, Class } from '@concentrate/database'
+import { NotFoundError, ForbiddenError } from '@concentrate/shared'
+
+describe('LessonService - Unit Tests', () => {
+  let service: LessonService
+  let mockLessonRepository: Partial<LessonRepository>
+  let mockClassRepository: Partial<ClassRepository>
+  let mockClassStaffRepository: Partial<ClassStaffRepository>
+  let mockDb: unknown
+
+  const mockClass: Class = {
+    id: 'class-123',
+    name: 'Math 101',
+    description: 'Math class',
+    teacher_id: 'teacher-123',
+    created_at: new Date(),
+    updated_at: new Date(),
+  }
+
+  const mockLesson: Lesson = {
+    id: 'lesson-123',
+    class_id: 'class-123',
+    title: 'Fractions',
+    content: 'Fractions represent parts of a whole',
+    module_name: 'Module 1',
+    module_position: 0,
+    position: 0,
+    status: 'draft',
+    published_at: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    mockLessonRepository = {
+      create: vi.fn(),
+      findById: vi.fn(),
+      findByClass: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      getNextPosition: vi.fn(),
+    }
+
+    mockClassRepository = {
+      findById: vi.fn(),
+      isStudentEnrolled: vi.fn(),
+    }
+
+    mockClassStaffRepository = {
+      findRole: vi.fn().mockResolvedValue(null),
+    }
+
+    mockDb = {} as unknown
+
+    service = new LessonService(mockDb as never)
+
+    // Inject mocks
+    ;(service as unknown as { lessonRepository: Partial<LessonRepository> }).lessonRepository =
+      mockLessonRepository
+    ;(service as unknown as { classRepository: Partial<ClassRepository> }).classRepository =
+      mockClassRepository
+    ;(
+      service as unknown as { classStaffRepository: Partial<ClassStaffRepository> }
+    ).classStaffRepository = mockClassStaffRepository
+  })
+
+  describe('createLesson', () => {
+    it('should append draft lesson to end of module', async () => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockLessonRepository.getNextPosition = vi.fn().mockResolvedValue(3)
+      mockLessonRepository.create = vi.fn().mockResolvedValue(mockLesson)
+
+      await service.createLesson('class-123', 'teacher-123', {
+        title: 'Fractions',
+        content: 'Content',
+        module_position: 1,
+      })
+
+      expect(mockLessonRepository.getNextPosition).toHaveBeenCalledWith('class-123', 1)
+      expect(mockLessonRepository.create).toHaveBeenCalledWith({
+        title: 'Fractions',
+        content: 'Content',
+        class_id: 'class-123',
+        module_position: 1,
+        position: 3,
+        published_at: null,
+      })
+    })
+
+    it('should use explicit position and set published_at when published', async () => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockLessonRepository.create = vi.fn().mockResolvedValue(mockLesson)
+
+      await service.createLesson('class-123', 'teacher-123', {
+        title: 'Fractions',
+        content: 'Content',
+        position: 5,
+        status: 'published',
+      })
+
+      expect(mockLessonRepository.getNextPosition).not.toHaveBeenCalled()
+      expect(mockLessonRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ position: 5, status: 'published', published_at: expect.any(Date) })
+      )
+    })
+
+    it('should throw NotFoundError if class not found', async () => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(null)
+
+      await expect(
+        service.createLesson('missing', 'teacher-123', { title: 'T', content: 'C' })
+      ).rejects.toThrow(NotFoundError)
+    })
+
+    it('should throw ForbiddenError if not the class teacher', async () => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+
+      await expect(
+        service.createLesson('class-123', 'other-teacher', { title: 'T', content: 'C' })
+      ).rejects.toThrow(ForbiddenError)
+      expect(mockLessonRepository.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getLessonsForTeacher', () => {
+    it('should return all lessons including drafts', async () => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockLessonRepository.findByClass = vi.fn().mockResolvedValue([mockLesson])
+
+      const result = await service.getLessonsForTeacher('class-123', 'teacher-123')
+
+      expect(mockLessonRepository.findByClass).toHaveBeenCalledWith('class-123')
+      expect(result).toEqual([mockLesson])
+    })
+  })
+
+  describe('getLessonsForStudent', () => {
+    it('should return only published lessons for enrolled student', async () => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockClassRepository.isStudentEnrolled = vi.fn().mockResolvedValue(true)
+      mockLessonRepository.findByClass = vi.fn().mockResolvedValue([])
+
+      await service.getLessonsForStudent('class-123', 'student-123')
+
+      expect(mockLessonRepository.findByClass).toHaveBeenCalledWith('class-123', {
+        status: 'published',
+      })
+    })
+
+    it('should throw ForbiddenError if student not enrolled', async () => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockClassRepository.isStudentEnrolled = vi.fn().mockResolvedValue(false)
+
+      await expect(service.getLessonsForStudent('class-123', 'student-123')).rejects.toThrow(
+        ForbiddenError
+      )
+    })
+  })
+
+  describe('getLessonForStudent', () => {
+    beforeEach(() => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockClassRepository.isStudentEnrolled = vi.fn().mockResolvedValue(true)
+    })
+
+    it('should return published lesson', async () => {
+      const published = { ...mockLesson, status: 'published' as const }
+      mockLessonRepository.findById = vi.fn().mockResolvedValue(published)
+
+      const result = await service.getLessonForStudent('class-123', 'lesson-123', 'student-123')
+
+      expect(result).toEqual(published)
+    })
+
+    it('should hide draft lessons', async () => {
+      mockLessonRepository.findById = vi.fn().mockResolvedValue(mockLesson)
+
+      await expect(
+        service.getLessonForStudent('class-123', 'lesson-123', 'student-123')
+      ).rejects.toThrow(NotFoundError)
+    })
+
+    it('should hide lessons from other classes', async () => {
+      mockLessonRepository.findById = vi
+        .fn()
+        .mockResolvedValue({ ...mockLesson, class_id: 'other-class', status: 'published' })
+
+      await expect(
+        service.getLessonForStudent('class-123', 'lesson-123', 'student-123')
+      ).rejects.toThrow(NotFoundError)
+    })
+  })
+
+  describe('updateLesson', () => {
+    beforeEach(() => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+    })
+
+    it('should set published_at when publishing', async () => {
+      mockLessonRepository.findById = vi.fn().mockResolvedValue(mockLesson)
+
+      await service.updateLesson('class-123', 'lesson-123', 'teacher-123', {
+        status: 'published',
+      })
+
+      expect(mockLessonRepository.update).toHaveBeenCalledWith('lesson-123', {
+        status: 'published',
+        published_at: expect.any(Date),
+      })
+    })
+
+    it('should clear published_at when unpublishing', async () => {
+      mockLessonRepository.findById = vi
+        .fn()
+        .mockResolvedValue({ ...mockLesson, status: 'published', published_at: new Date() })
+
+      await service.updateLesson('class-123', 'lesson-123', 'teacher-123', { status: 'draft' })
+
+      expect(mockLessonRepository.update).toHaveBeenCalledWith('lesson-123', {
+        status: 'draft',
+        published_at: null,
+      })
+    })
+
+    it('should not touch published_at when status unchanged', async () => {
+      mockLessonRepository.findById = vi.fn().mockResolvedValue(mockLesson)
+
+      await service.updateLesson('class-123', 'lesson-123', 'teacher-123', { title: 'New' })
+
+      expect(mockLessonRepository.update).toHaveBeenCalledWith('lesson-123', { title: 'New' })
+    })
+
+    it('should throw NotFoundError if lesson belongs to another class', async () => {
+      mockLessonRepository.findById = vi
+        .fn()
+        .mockResolvedValue({ ...mockLesson, class_id: 'other-class' })
+
+      await expect(
+        service.updateLesson('class-123', 'lesson-123', 'teacher-123', { title: 'New' })
+      ).rejects.toThrow(NotFoundError)
+      expect(mockLessonRepository.update).not.toHaveBeenCalled()
+    })
+
+    it('should throw ForbiddenError if not the class teacher', async () => {
+      await expect(
+        service.updateLesson('class-123', 'lesson-123', 'other-teacher', { title: 'New' })
+      ).rejects.toThrow(ForbiddenError)
+    })
+  })
+
+  describe('deleteLesson', () => {
+    it('should delete lesson for class teacher', async () => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockLessonRepository.findById = vi.fn().mockResolvedValue(mockLesson)
+
+      await service.deleteLesson('class-123', 'lesson-123', 'teacher-123')
+
+      expect(mockLessonRepository.delete).toHaveBeenCalledWith('lesson-123')
+    })
+
+    it('should throw NotFoundError if lesson not found', async () => {
+      mockClassRepository.findById = vi.fn().mockResolvedValue(mockClass)
+      mockLessonRepository.findById = vi.fn().mockResolvedValue(null)
+
+      await expect(
+        service.deleteLesson('class-123', 'missing', 'teacher-123')
+      ).rejects.toThrow(NotFoundError)
+    })
+  })
+})
@@ -0,0 +1,257 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { MfaService } from '../../src/MfaService'
+import type { AuditService } from '../../src/AuditService'
+import type { MfaRepository, UserRepository } from '@concentrate/database'
+import type { User, UserMfa } from '@concentrate/database'
+import {
+  ForbiddenError,
+  InvalidStateError,
+  NotFoundError,
+  ValidationError,
+  generateTotp,
+  getTotpStep,
+} from '@concentrate/shared'
+
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+describe('MfaService - Unit Tests', () => {
+  let service: MfaService
+  let mockMfaRepository: Partial<MfaRepository>
+  let mockUserRepository: Partial<UserRepository>
+  let mockAuditService: Partial<AuditService>
+
+  const mockTeacher: User = {
+    id: 'teacher-123',
+    email: 'teacher@example.com',
+    password_hash: 'hashed_password',
+    name: 'Test Teacher',
+    role: 'teacher',
+    suspended: false,
+    created_at: new Date(),
+    updated_at: new Date(),
+  }
+
+  const pendingMfa: UserMfa = {
+    user_id: 'teacher-123',
+    secret: SECRET,
+    enabled_at: null,
+    last_used_step: null,
+    created_at: new Date(),
+  }
+
+  const enabledMfa: UserMfa = { ...pendingMfa, enabled_at: new Date('2026-01-01') }
+
+  beforeEach(() => {
+    mockMfaRepository = {
+      findByUser: vi.fn().mockResolvedValue(null),
+      savePendingSecret: vi.fn(),
+      enable: vi.fn().mockResolvedValue(enabledMfa),
+      claimStep: vi.fn().mockResolvedValue(true),
+      delete: vi.fn().mockResolvedValue(true),
+      replaceRecoveryCodes: vi.fn(),
+      useRecoveryCode: vi.fn().mockResolvedValue(false),
+      countUnusedRecoveryCodes: vi.fn().mockResolvedValue(0),
+      findRequiredRoles: vi.fn().mockResolvedValue([]),
+      isRequiredForRole: vi.fn().mockResolvedValue(false),
+      requireForRole: vi.fn(),
+      unrequireForRole: vi.fn(),
+    }
+
+    mockUserRepository = {
+      findById: vi.fn().mockResolvedValue(mockTeacher),
+    }
+
+    mockAuditService = {
+      record: vi.fn(),
+    }
+
+    service = new MfaService({} as never)
+    ;(service as unknown as { mfaRepository: Partial<MfaRepository> }).mfaRepository =
+      mockMfaRepository
+    ;(service as unknown as { userRepository: Partial<UserRepository> }).userRepository =
+      mockUserRepository
+    ;(service as unknown as { auditService: Partial<AuditService> }).auditService =
+      mockAuditService
+  })
+
+  describe('getLoginRequirement', () => {
+    it('should ask users with MFA enabled for a code', async () => {
+      mockMfaRepository.findByUser = vi.fn().mockResolvedValue(enabledMfa)
+
+      expect(await service.getLoginRequirement(mockTeacher)).toBe('verify')
+    })
+
+    it('should ask users of a required role to enroll', async () => {
+      mockMfaRepository.findByUser = vi.fn().mockResolvedValue(pendingMfa)
+      mockMfaRepository.isRequiredForRole = vi.fn().mockResolvedValue(true)
+
+      expect(await service.getLoginRequirement(mockTeacher)).toBe('enroll')
+      expect(mockMfaRepository.isRequiredForRole).toHaveBeenCalledWith('teacher')
+    })
+
+    it('should let other users log in right away', async () => {
+      expect(await service.getLoginRequirement(mockTeacher)).toBe('none')
+    })
+  })
+
+  describe('startEnrollment', () => {
+    it('should store a new secret and return its otpauth URI', async () => {
+      const enrollment = await service.startEnrollment('teacher-123')
+
+      expect(enrollment.secret).toMatch(/^[A-Z2-7]{32}$/)
+      expect(enrollment.otpauthUrl).toContain(`secret=${enrollment.secret}`)
+      expect(enrollment.otpauthUrl).toContain('teacher%40example.com')
+      expect(mockMfaRepository.savePendingSecret).toHaveBeenCalledWith(
+        'teacher-123',
+        enrollment.secret
+      )
+    })
+
+    it('should refuse when MFA is already enabled', async () => {
+      mockMfaRepository.findByUser = vi.fn().mockResolvedValue(enabledMfa)
+
+      await expect(service.startEnrollment('teacher-123')).rejects.toThrow(InvalidStateError)
+      expect(mockMfaRepository.savePendingSecret).not.toHaveBeenCalled()
+    })
+
+    it('should throw NotFoundError for unknown users', async () => {
+      mockUserRepository.findById = vi.fn().mockResolvedValue(null)
+
+      await expect(service.startEnrollment('missing')).rejects.toThrow(NotFoundError)
+    })
+  })
+
+  describe('confirmEnrollment', () => {
+    it('should enable MFA and issue hashed recovery codes', async () => {
+      mockMfaRepository.findByUser = vi.fn().mockResolvedValue(pendingMfa)
+
+      const step = getTotpStep()
+      const codes = await service.confirmEnrollment('teacher-123', generateTotp(SECRET, step))
+
+      expect(mockMfaRepository.enable).toHaveBeenCalledWith('teacher-123', step)
+      expect(codes).toHaveLength(10)
+      codes.forEach((code) => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/))
+
+      const hashes = (mockMfaRepository.replaceRecoveryCodes as ReturnType<typeof vi.fn>).mock
+        .calls[0][1] as string[]
+      expect(hashes).toHaveLength(10)
+      expect(hashes).not.toContain(codes[0])
+    })
+
+    it('should reject a wrong code', async () => {
+      mockMfaRepository.findByUser = vi.fn().mockResolvedValue(pendingMfa)
+
+      await expect(service.confirmEnrollment('teacher-123', '000000')).rejects.toThrow(
+        ValidationError
+      )
+      expect(mockMfaRepository.enable).not.toHaveBeenCalled()
+    })
+
+    it('should require a started enrollment', async () => {
+      await expect(service.confirmEnrollment('teacher-123', '123456')).rejects.toThrow(
+        InvalidStateError
+      )
+    })
+  })
+
+  describe('verifyCode', () => {
+    beforeEach(() => {
+      mockMfaRepository.findByUser = vi.fn().mockResolvedValue(enabledMfa)
+    })
+
+    it('should accept a current TOTP code once', async () => {
+      const step = getTotpStep()
+      expect(await service.verifyCode('teacher-123', generateTotp(SECRET, step))).toBe(true)
+      expect(mockMfaRepository.claimStep).toHaveBeenCalledWith('teacher-123', step)
+
+      mockMfaRepository.claimStep = vi.fn().mockResolvedValue(false)
+      expect(await service.verifyCode('teacher-123', generateTotp(SECRET))).toBe(false)
+    })
+
+    it('should check other input as a recovery code', async () => {
+      mockMfaRepository.useRecoveryCode = vi.fn().mockResolvedValue(true)
+
+      expect(await service.verifyCode('teacher-123', 'ABCDE-12345')).toBe(true)
+      expect(await service.verifyCode('teacher-123', 'abcde12345')).toBe(true)
+
+      const [first, second] = (mockMfaRepository.useRecoveryCode as ReturnType<typeof vi.fn>)
+        .mock.calls
+      expect(first[1]).toMatch(/^[0-9a-f]{64}$/)
+      expect(first[1]).toBe(second[1])
+    })
+
+    it('should reject codes of users without MFA', async () => {
+      mockMfaRepository.findByUser = vi.fn().mockResolvedValue(pendingMfa)
+
+      expect(await service.verifyCode('teacher-123', generateTotp(SECRET))).toBe(false)
+    })
+  })
+
+  describe('disable', () => {
+    it('should remove MFA with a valid code', async () => {
+      mockMfaRepository.findByUser = vi.fn().mockResolvedValue(enabledMfa)
+
+      await service.disable('teacher-123', generateTotp(SECRET))
+
+      expect(mockMfaRepository.delete).toHaveBeenCalledWith('teacher-123')
+    })
+
+    it('should refuse when the role requires MFA', async () => {
+      mockMfaRepository.findByUser = vi.fn().mockResolvedValue(enabledMfa)
+      mockMfaRepository.isRequiredForRole = vi.fn().mockResolvedValue(true)
+
+      await expect(service.disable('teacher-123', generateTotp(SECRET))).rejects.toThrow(
+        ForbiddenError
+      )
+      expect(mockMfaRepository.delete).not.toHaveBeenCalled()
+    })
+
+    it('should refuse without a valid code', async () => {
+      mockMfaRepository.findByUser = vi.fn().mockResolvedValue(enabledMfa)
+
+      await expect(service.disable('teacher-123', '000000')).rejects.toThrow(ValidationError)
+      expect(mockMfaRepository.delete).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('resetMfa', () => {
+    it('should remove MFA and record it in the audit log', async () => {
+      mockMfaRepository.findByUser = vi.fn().mockResolvedValue(enabledMfa)
+
+      await service.resetMfa('admin-123', 'teacher-123')
+
+      expect(mockMfaRepository.delete).toHaveBeenCalledWith('teacher-123')
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        'admin-123',
+        'mfa_reset',
+        { type: 'user', id: 'teacher-123' },
+        { enabled: true, enabledAt: enabledMfa.enabled_at },
+        null
+      )
+    })
+
+    it('should refuse users without MFA', async () => {
+      await expect(service.resetMfa('admin-123', 'teacher-123')).rejects.toThrow(
+        InvalidStateError
+      )
+      expect(mockAuditService.record).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('setRequiredRoles', () => {
+    it('should only change the roles that differ', async () => {
+      mockMfaRepository.findRequiredRoles = vi
+        .fn()
+        .mockResolvedValueOnce([{ role: 'admin' }, { role: 'student' }])
+        .mockResolvedValueOnce([{ role: 'admin' }, { role: 'teacher' }])
+
+      const roles = await service.setRequiredRoles('admin-123', ['admin', 'teacher'])
+
+      expect(roles).toEqual(['admin', 'teacher'])
+      expect(mockMfaRepository.unrequireForRole).toHaveBeenCalledTimes(1)
+      expect(mockMfaRepository.unrequireForRole).toHaveBeenCalledWith('student')
+      expect(mockMfaRepository.requireForRole).toHaveBeenCalledTimes(1)
+      expect(mockMfaRepository.requireForRole).toHaveBeenCalledWith('teacher', 'admin-123')
+    })
+  })
+})
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { NotificationService } from '../../src/NotificationService'
+import type { EventPublisher } from '../../src/realtime'
+import type { NotificationRepository } from '@concentrate/database'
+import type { Assignment, Class, Notification } from '@concentrate/database'
+import { NotFoundError } from '@concentrate/shared'
+
+describe('NotificationService - Unit Tests', () => {
+  let service: NotificationService
+  let mockNotificationRepository: Partial<NotificationRepository>
+  let mockEvents: Partial<EventPublisher>
+  let mockDb: unknown
+
+  const mockAssignment: Assignment = {
+    id: 'assignment-123',
+    class_id: 'class-123',
+    title: 'Homework 1',
+    description: 'Complete exercises 1-10',
+    due_date: new Date('2030-03-01T12:00:00Z'),
+    late_policy: 'reject',
+    late_cutoff: null,
+    late_penalty_per_day: 0,
+    max_points: 20,
+    category_id: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  }
+
+  const mockClass: Class = {
+    id: 'class-123',
+    name: 'Math 101',
+    description: null,
+    teacher_id: 'teacher-123',
+    created_at: new Date(),
+    updated_at: new Date(),
+  }
+
+  const mockNotification: Notification = {
+    id: 'notification-123',
+    user_id: 'student-123',
+    type: 'grade_posted',
+    title: 'Grade posted: Homework 1',
+    body: '18/20 in Math 101',
+    link: '/student/assignments/assignment-123',
+    read_at: null,
+    created_at: new Date(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    mockNotificationRepository = {
+      createMany: vi.fn().mockResolvedValue([mockNotification]),
+      findByUser: vi.fn().mockResolvedValue([mockNotification]),
+      countUnread: vi.fn().mockResolvedValue(3),
+      markRead: vi.fn(),
+      markUnread: vi.fn(),
+      markAllRead: vi.fn().mockResolvedValue(2),
+    }
+
+    mockEvents = {
+      publish: vi.fn(),
+    }
+
+    mockDb = {} as unknown
+    service = new NotificationService(mockDb as never)
+
+    // Inject mocks
+    ;(
+      service as unknown as { notificationRepository: Partial<NotificationRepository> }
+    ).notificationRepository = mockNotificationRepository
+    ;(service as unknown as { events: Partial<EventPublisher> }).events = mockEvents
+  })
+
+  // ===========================================
+  // Emit Tests
+  // ===========================================
+  describe('emit', () => {
+    it('should notify every enrolled student of a new assignment', async () => {
+      await service.notifyAssignmentCreated(mockAssignment, 'Math 101', ['s-1', 's-2'])
+
+      expect(mockNotificationRepository.createMany).toHaveBeenCalledWith([
+        {
+          user_id: 's-1',
+          type: 'assignment_created',
+          title: 'New assignment: Homework 1',
+          body: 'Math 101 • Due 2030-03-01',
+          link: '/student/assignments/assignment-123',
+        },
+        expect.objectContaining({ user_id: 's-2' }),
+      ])
+    })
+
+    it('should notify a student of a posted grade', async () => {
+      const result = await service.notifyGradePosted(mockAssignment, 'Math 101', 'student-123', 18)
+
+      expect(result).toEqual(mockNotification)
+      expect(mockNotificationRepository.createMany).toHaveBeenCalledWith([
+        {
+          user_id: 'student-123',
+          type: 'grade_posted',
+          title: 'Grade posted: Homework 1',
+          body: '18/20 in Math 101',
+          link: '/student/assignments/assignment-123',
+        },
+      ])
+    })
+
+    it('should push a live update to each recipient', async () => {
+      await service.notifyGradePosted(mockAssignment, 'Math 101', 'student-123', 18)
+
+      expect(mockEvents.publish).toHaveBeenCalledWith('student-123', {
+        type: 'notification_created',
+        notificationId: 'notification-123',
+      })
+    })
+
+    it('should notify enrolled students', async () => {
+      await service.notifyEnrolled(mockClass, ['student-123'])
+
+      expect(mockNotificationRepository.createMany).toHaveBeenCalledWith([
+        {
+          user_id: 'student-123',
+          type: 'class_enrolled',
+          title: 'Enrolled in Math 101',
+          body: 'You were added to Math 101',
+          link: '/student/classes',
+        },
+      ])
+    })
+  })
+
+  // ===========================================
+  // Read Tests
+  // ===========================================
+  describe('read', () => {
+    it('should list notifications with a capped limit', async () => {
+      await service.getNotifications('student-123', { unreadOnly: true, limit: 500 })
+
+      expect(mockNotificationRepository.findByUser).toHaveBeenCalledWith('student-123', {
+        unreadOnly: true,
+        limit: 100,
+      })
+    })
+
+    it('should default to the 50 newest notifications', async () => {
+      await service.getNotifications('student-123')
+
+      expect(mockNotificationRepository.findByUser).toHaveBeenCalledWith('student-123', {
+        unreadOnly: false,
+        limit: 50,
+      })
+    })
+
+    it('should return the unread count', async () => {
+      expect(await service.getUnreadCount('student-123')).toBe(3)
+    })
+
+    it('should mark a notification read', async () => {
+      const read = { ...mockNotification, read_at: new Date() }
+      mockNotificationRepository.markRead = vi.fn().mockResolvedValue(read)
+
+      expect(await service.markRead('notification-123', 'student-123')).toEqual(read)
+      expect(mockNotificationRepository.markRead).toHaveBeenCalledWith(
+        'notification-123',
+        'student-123'
+      )
+    })
+
+    it("should throw NotFoundError for someone else's notification", async () => {
+      mockNotificationRepository.markRead = vi.fn().mockResolvedValue(null)
+      mockNotificationRepository.markUnread = vi.fn().mockResolvedValue(null)
+
+      await expect(service.markRead('notification-123', 'other')).rejects.toThrow(NotFoundError)
+      await expect(service.markUnread('notification-123', 'other')).rejects.toThrow(
+        NotFoundError
+      )
+    })
+
+    it('should mark all notifications read', async () => {
+      expect(await service.markAllRead('student-123')).toBe(2)
+    })
+  })
+})
@@ -1,11 +1,16 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { OAuthService, type GoogleProfile } from '../../src/OAuthService'
-import type { UserRepository, OAuthAccountRepository } from '@concentrate/database'
+import type {
+  UserRepository,
+  OAuthAccountRepository,
+  TokenVersionRepository,
+} from '@concentrate/database'
 import type { User, OAuthAccount } from '@concentrate/database'
 import {
   AlreadyExistsError,
   NotFoundError,
   InvalidCredentialsError,
+  generateAccessToken,
 } from '@concentrate/shared'
 
 // Mock utilities
@@ -22,6 +27,7 @@ describe('OAuthService - Unit Tests', () => {
   let service: OAuthService
   let mockUserRepository: Partial<UserRepository>
   let mockOAuthAccountRepository: Partial<OAuthAccountRepository>
+  let mockTokenVersionRepository: Partial<TokenVersionRepository>
   let mockDb: unknown
 
   const mockUser: User = {
@@ -101,6 +107,10 @@ describe('OAuthService - Unit Tests', () => {
       countByUserId: vi.fn(),
     }
 
+    mockTokenVersionRepository = {
+      get: vi.fn().mockResolvedValue(0),
+    }
+
     // Create service instance
     mockDb = {} as unknown
     service = new OAuthService(mockDb as never)
@@ -110,6 +120,9 @@ describe('OAuthService - Unit Tests', () => {
       mockUserRepository
     ;(service as unknown as { oauthAccountRepository: Partial<OAuthAccountRepository> }).oauthAccountRepository =
       mockOAuthAccountRepository
+    ;(
+      service as unknown as { tokenVersionRepository: Partial<TokenVersionRepository> }
+    ).tokenVersionRepository = mockTokenVersionRepository
   })
 
   // ===========================================
@@ -140,6 +153,18 @@ describe('OAuthService - Unit Tests', () => {
       )
     })
 
+    it('should issue the access token at the current token version', async () => {
+      mockOAuthAccountRepository.findByProvider = vi.fn().mockResolvedValue(mockOAuthAccount)
+      mockUserRepository.findById = vi.fn().mockResolvedValue(mockUser)
+      mockOAuthAccountRepository.updateTokens = vi.fn().mockResolvedValue(mockOAuthAccount)
+      mockTokenVersionRepository.get = vi.fn().mockResolvedValue(2)
+
+      await service.handleGoogleCallback(mockGoogleProfile, mockOAuthTokens)
+
+      expect(mockTokenVersionRepository.get).toHaveBeenCalledWith('user-123')
+      expect(generateAccessToken).toHaveBeenCalledWith('user-123', 'student', 2)
+    })
+
     it('should create new user for new OAuth login', async () => {
       mockOAuthAccountRepository.findByProvider = vi.fn().mockResolvedValue(null)
       mockUserRepository.findByEmail = vi.fn().mockResolvedValue(null)
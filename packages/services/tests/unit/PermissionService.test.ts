@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { PermissionService } from '../../src/PermissionService'
+import type { AuditService } from '../../src/AuditService'
+import type { UserPermissionRepository, UserRepository } from '@concentrate/database'
+import type { User, UserPermission } from '@concentrate/database'
+import { AlreadyExistsError, NotFoundError, ValidationError } from '@concentrate/shared'
+
+describe('PermissionService - Unit Tests', () => {
+  let service: PermissionService
+  let mockUserPermissionRepository: Partial<UserPermissionRepository>
+  let mockUserRepository: Partial<UserRepository>
+  let mockAuditService: Partial<AuditService>
+
+  const mockTeacher: User = {
+    id: 'teacher-123',
+    email: 'teacher@example.com',
+    password_hash: 'hashed_password',
+    name: 'Test Teacher',
+    role: 'teacher',
+    suspended: false,
+    created_at: new Date(),
+    updated_at: new Date(),
+  }
+
+  const mockGrant: UserPermission = {
+    user_id: 'teacher-123',
+    permission: 'classes:read_all',
+    granted_by: 'admin-123',
+    created_at: new Date(),
+  }
+
+  beforeEach(() => {
+    mockUserPermissionRepository = {
+      findByUser: vi.fn().mockResolvedValue([]),
+      grant: vi.fn(),
+      revoke: vi.fn(),
+    }
+
+    mockUserRepository = {
+      findById: vi.fn().mockResolvedValue(mockTeacher),
+    }
+
+    mockAuditService = {
+      record: vi.fn(),
+    }
+
+    service = new PermissionService({} as never)
+    ;(
+      service as unknown as { userPermissionRepository: Partial<UserPermissionRepository> }
+    ).userPermissionRepository = mockUserPermissionRepository
+    ;(service as unknown as { userRepository: Partial<UserRepository> }).userRepository =
+      mockUserRepository
+    ;(service as unknown as { auditService: Partial<AuditService> }).auditService =
+      mockAuditService
+  })
+
+  describe('getEffectivePermissions', () => {
+    it('should combine role permissions with granted ones', async () => {
+      mockUserPermissionRepository.findByUser = vi.fn().mockResolvedValue([mockGrant])
+
+      const permissions = await service.getEffectivePermissions('teacher-123', 'teacher')
+
+      expect(permissions).toContain('grades:update_own')
+      expect(permissions).toContain('classes:read_all')
+      expect(permissions).not.toContain('users:create')
+    })
+
+    it('should skip granted names that are no longer permissions', async () => {
+      mockUserPermissionRepository.findByUser = vi
+        .fn()
+        .mockResolvedValue([{ ...mockGrant, permission: 'reports:read' }])
+
+      const permissions = await service.getEffectivePermissions('teacher-123', 'teacher')
+
+      expect(permissions).not.toContain('reports:read')
+    })
+  })
+
+  describe('listPermissions', () => {
+    it('should list role and granted permissions', async () => {
+      mockUserPermissionRepository.findByUser = vi.fn().mockResolvedValue([mockGrant])
+
+      const result = await service.listPermissions('teacher-123')
+
+      expect(result.role).toContain('classes:read_own')
+      expect(result.granted).toEqual([mockGrant])
+    })
+
+    it('should throw NotFoundError if user not found', async () => {
+      mockUserRepository.findById = vi.fn().mockResolvedValue(null)
+
+      await expect(service.listPermissions('missing')).rejects.toThrow(NotFoundError)
+    })
+  })
+
+  describe('grantPermission', () => {
+    it('should grant a permission and record it in the audit log', async () => {
+      mockUserPermissionRepository.grant = vi.fn().mockResolvedValue(mockGrant)
+
+      const grant = await service.grantPermission('admin-123', 'teacher-123', 'classes:read_all')
+
+      expect(grant).toEqual(mockGrant)
+      expect(mockUserPermissionRepository.grant).toHaveBeenCalledWith({
+        user_id: 'teacher-123',
+        permission: 'classes:read_all',
+        granted_by: 'admin-123',
+      })
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        'admin-123',
+        'permission_granted',
+        { type: 'user', id: 'teacher-123' },
+        null,
+        { permission: 'classes:read_all' }
+      )
+    })
+
+    it('should throw ValidationError for an unknown permission', async () => {
+      await expect(
+        service.grantPermission('admin-123', 'teacher-123', 'reports:read')
+      ).rejects.toThrow(ValidationError)
+      expect(mockUserPermissionRepository.grant).not.toHaveBeenCalled()
+    })
+
+    it('should throw ValidationError if the role already has the permission', async () => {
+      await expect(
+        service.grantPermission('admin-123', 'teacher-123', 'grades:update_own')
+      ).rejects.toThrow(ValidationError)
+    })
+
+    it('should throw NotFoundError if user not found', async () => {
+      mockUserRepository.findById = vi.fn().mockResolvedValue(null)
+
+      await expect(
+        service.grantPermission('admin-123', 'missing', 'classes:read_all')
+      ).rejects.toThrow(NotFoundError)
+    })
+
+    it('should throw AlreadyExistsError if already granted', async () => {
+      mockUserPermissionRepository.grant = vi.fn().mockResolvedValue(null)
+
+      await expect(
+        service.grantPermission('admin-123', 'teacher-123', 'classes:read_all')
+      ).rejects.toThrow(AlreadyExistsError)
+      expect(mockAuditService.record).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('revokePermission', () => {
+    it('should revoke a grant and record it in the audit log', async () => {
+      mockUserPermissionRepository.revoke = vi.fn().mockResolvedValue(true)
+
+      await service.revokePermission('admin-123', 'teacher-123', 'classes:read_all')
+
+      expect(mockUserPermissionRepository.revoke).toHaveBeenCalledWith(
+        'teacher-123',
+        'classes:read_all'
+      )
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        'admin-123',
+        'permission_revoked',
+        { type: 'user', id: 'teacher-123' },
+        { permission: 'classes:read_all' },
+        null
+      )
+    })
+
+    it('should throw NotFoundError if the permission was not granted', async () => {
+      mockUserPermissionRepository.revoke = vi.fn().mockResolvedValue(false)
+
+      await expect(
+        service.revokePermission('admin-123', 'teacher-123', 'classes:read_all')
+      ).rejects.toThrow(NotFoundError)
+    })
+  })
+})
@@ -0,0 +1,384 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { SubmissionAttachmentService } from '../../src/SubmissionAttachmentService'
+import type { StorageBackend } from '../../src/storage'
+import type {
+  SubmissionAttachmentRepository,
+  AssignmentRepository,
+  ClassRepository,
+  ClassStaffRepository,
+  SubmissionVersionRepository,
+} from '@concentrate/database'
+import type { Submission, SubmissionAttachment, Assignment, Class } from '@concentrate/database'
+import {
+  NotFoundError,
+  ForbiddenError,
+  InvalidStateError,
+  ValidationError,
+  UPLOAD_LIMITS,
+} from '@concentrate/shared'
+
+describe('SubmissionAttachmentService - Unit Tests', () => {
+  let service: SubmissionAttachmentService
+  let mockAttachmentRepository: Partial<SubmissionAttachmentRepository>
+  let mockAssignmentRepository: Partial<AssignmentRepository>
+  let mockClassRepository: Partial<ClassRepository>
+  let mockClassStaffRepository: Partial<ClassStaffRepository>
+  let mockVersionRepository: Partial<SubmissionVersionRepository>
+  let mockStorage: StorageBackend
+
+  const mockSubmission: Submission = {
+    id: 'submission-123',
+    assignment_id: 'assignment-123',
+    student_id: 'student-123',
+    content: 'My essay',
+    file_url: null,
+    is_late: false,
+    late_penalty: 0,
+    returned_at: null,
+    submitted_at: new Date(),
+    updated_at: new Date(),
+  }
+
+  const mockAssignment: Assignment = {
+    id: 'assignment-123',
+    class_id: 'class-123',
+    title: 'Essay',
+    description: 'Write an essay',
+    due_date: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    late_policy: 'reject',
+    late_cutoff: null,
+    late_penalty_per_day: 0,
+    created_at: new Date(),
+    updated_at: new Date(),
+  }
+
+  const mockClass: Class = {
+    id: 'class-123',
+    name: 'English',
+    description: null,
+    teacher_id: 'teacher-123',
+    created_at: new Date(),
+    updated_at: new Date(),
+  }
+
+  const mockAttachment: SubmissionAttachment = {
+    id: 'attachment-123',
+    submission_id: 'submission-123',
+    filename: 'essay.pdf',
+    mime_type: 'application/pdf',
+    size_bytes: 4,
+    storage_key: 'submissions/submission-123/key',
+    created_at: new Date(),
+  }
+
+  const pdf = { filename: 'essay.pdf', mimeType: 'application/pdf', data: Buffer.from('%PDF') }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    mockAttachmentRepository = {
+      create: vi.fn().mockResolvedValue(mockAttachment),
+      findById: vi.fn().mockResolvedValue(mockAttachment),
+      findBySubmission: vi.fn().mockResolvedValue([mockAttachment]),
+      countBySubmission: vi.fn().mockResolvedValue(0),
+      delete: vi.fn(),
+    }
+
+    mockAssignmentRepository = {
+      getSubmissionById: vi.fn().mockResolvedValue(mockSubmission),
+      getGrade: vi.fn().mockResolvedValue(null),
+      findById: vi.fn().mockResolvedValue(mockAssignment),
+      updateSubmission: vi.fn().mockResolvedValue(mockSubmission),
+    }
+
+    mockClassRepository = {
+      findById: vi.fn().mockResolvedValue(mockClass),
+    }
+
+    mockStorage = {
+      put: vi.fn(),
+      get: vi.fn().mockResolvedValue(Buffer.from('%PDF')),
+      delete: vi.fn(),
+    }
+
+    mockClassStaffRepository = {
+      findRole: vi.fn().mockResolvedValue(null),
+    }
+
+    mockVersionRepository = {
+      create: vi.fn(),
+    }
+
+    service = new SubmissionAttachmentService({} as never, mockStorage)
+
+    // Inject mocks
+    ;(
+      service as unknown as { attachmentRepository: Partial<SubmissionAttachmentRepository> }
+    ).attachmentRepository = mockAttachmentRepository
+    ;(
+      service as unknown as { assignmentRepository: Partial<AssignmentRepository> }
+    ).assignmentRepository = mockAssignmentRepository
+    ;(service as unknown as { classRepository: Partial<ClassRepository> }).classRepository =
+      mockClassRepository
+    ;(
+      service as unknown as { classStaffRepository: Partial<ClassStaffRepository> }
+    ).classStaffRepository = mockClassStaffRepository
+    ;(
+      service as unknown as { versionRepository: Partial<SubmissionVersionRepository> }
+    ).versionRepository = mockVersionRepository
+  })
+
+  describe('uploadAttachment', () => {
+    it('should store file and create metadata', async () => {
+      const result = await service.uploadAttachment('submission-123', 'student-123', pdf)
+
+      expect(mockStorage.put).toHaveBeenCalledWith(
+        expect.stringMatching(/^submissions\/submission-123\//),
+        pdf.data,
+        'application/pdf'
+      )
+      expect(mockAttachmentRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          submission_id: 'submission-123',
+          filename: 'essay.pdf',
+          mime_type: 'application/pdf',
+          size_bytes: 4,
+        })
+      )
+      expect(result).toEqual(mockAttachment)
+      expect(mockAssignmentRepository.updateSubmission).toHaveBeenCalledWith('submission-123', {
+        is_late: false,
+        late_penalty: 0,
+      })
+      expect(mockVersionRepository.create).toHaveBeenCalledWith(
+        'submission-123',
+        'My essay',
+        null
+      )
+    })
+
+    it('should reject uploads after the due date under the reject policy', async () => {
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue({
+        ...mockAssignment,
+        due_date: new Date(Date.now() - 60 * 60 * 1000),
+      })
+
+      await expect(
+        service.uploadAttachment('submission-123', 'student-123', pdf)
+      ).rejects.toThrow('Cannot submit assignment after due date')
+      expect(mockStorage.put).not.toHaveBeenCalled()
+      expect(mockVersionRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject uploads after the late cutoff', async () => {
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue({
+        ...mockAssignment,
+        due_date: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
+        late_policy: 'penalty',
+        late_penalty_per_day: 10,
+        late_cutoff: new Date(Date.now() - 60 * 60 * 1000),
+      })
+
+      await expect(
+        service.uploadAttachment('submission-123', 'student-123', pdf)
+      ).rejects.toThrow('Cannot submit assignment after late cutoff')
+      expect(mockStorage.put).not.toHaveBeenCalled()
+    })
+
+    it('should mark late uploads with the late penalty', async () => {
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue({
+        ...mockAssignment,
+        due_date: new Date(Date.now() - 36 * 60 * 60 * 1000),
+        late_policy: 'penalty',
+        late_penalty_per_day: 10,
+      })
+
+      await service.uploadAttachment('submission-123', 'student-123', pdf)
+
+      expect(mockAssignmentRepository.updateSubmission).toHaveBeenCalledWith('submission-123', {
+        is_late: true,
+        late_penalty: 20,
+      })
+    })
+
+    it('should keep the lateness of a submission returned for revision', async () => {
+      mockAssignmentRepository.getSubmissionById = vi.fn().mockResolvedValue({
+        ...mockSubmission,
+        returned_at: new Date(),
+      })
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue({
+        ...mockAssignment,
+        due_date: new Date(Date.now() - 60 * 60 * 1000),
+      })
+
+      await service.uploadAttachment('submission-123', 'student-123', pdf)
+
+      expect(mockAssignmentRepository.updateSubmission).not.toHaveBeenCalled()
+      expect(mockVersionRepository.create).toHaveBeenCalledWith(
+        'submission-123',
+        'My essay',
+        null
+      )
+    })
+
+    it('should throw NotFoundError if submission not found', async () => {
+      mockAssignmentRepository.getSubmissionById = vi.fn().mockResolvedValue(null)
+
+      await expect(
+        service.uploadAttachment('missing', 'student-123', pdf)
+      ).rejects.toThrow(NotFoundError)
+    })
+
+    it('should throw ForbiddenError for another student', async () => {
+      await expect(
+        service.uploadAttachment('submission-123', 'other-student', pdf)
+      ).rejects.toThrow(ForbiddenError)
+      expect(mockStorage.put).not.toHaveBeenCalled()
+    })
+
+    it('should throw InvalidStateError after grading', async () => {
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue({ id: 'grade-123' })
+
+      await expect(
+        service.uploadAttachment('submission-123', 'student-123', pdf)
+      ).rejects.toThrow(InvalidStateError)
+    })
+
+    it('should reject disallowed MIME types', async () => {
+      await expect(
+        service.uploadAttachment('submission-123', 'student-123', {
+          ...pdf,
+          mimeType: 'application/x-msdownload',
+        })
+      ).rejects.toThrow(ValidationError)
+      expect(mockStorage.put).not.toHaveBeenCalled()
+    })
+
+    it('should reject empty files', async () => {
+      await expect(
+        service.uploadAttachment('submission-123', 'student-123', {
+          ...pdf,
+          data: Buffer.alloc(0),
+        })
+      ).rejects.toThrow('Uploaded file is empty')
+    })
+
+    it('should reject files over the size limit', async () => {
+      await expect(
+        service.uploadAttachment('submission-123', 'student-123', {
+          ...pdf,
+          data: Buffer.alloc(UPLOAD_LIMITS.MAX_FILE_SIZE_BYTES + 1),
+        })
+      ).rejects.toThrow(ValidationError)
+    })
+
+    it('should reject uploads beyond the attachment limit', async () => {
+      mockAttachmentRepository.countBySubmission = vi
+        .fn()
+        .mockResolvedValue(UPLOAD_LIMITS.MAX_FILES_PER_SUBMISSION)
+
+      await expect(
+        service.uploadAttachment('submission-123', 'student-123', pdf)
+      ).rejects.toThrow(InvalidStateError)
+    })
+
+    it('should remove stored file if metadata insert fails', async () => {
+      mockAttachmentRepository.create = vi.fn().mockRejectedValue(new Error('insert failed'))
+
+      await expect(
+        service.uploadAttachment('submission-123', 'student-123', pdf)
+      ).rejects.toThrow('insert failed')
+
+      const storedKey = vi.mocked(mockStorage.put).mock.calls[0]?.[0]
+      expect(mockStorage.delete).toHaveBeenCalledWith(storedKey)
+    })
+  })
+
+  describe('getAttachments', () => {
+    it('should allow submission owner', async () => {
+      const result = await service.getAttachments('submission-123', 'student-123')
+
+      expect(result).toEqual([mockAttachment])
+      expect(mockClassRepository.findById).not.toHaveBeenCalled()
+    })
+
+    it('should allow class teacher', async () => {
+      const result = await service.getAttachments('submission-123', 'teacher-123')
+
+      expect(result).toEqual([mockAttachment])
+    })
+
+    it('should throw ForbiddenError for other users', async () => {
+      await expect(
+        service.getAttachments('submission-123', 'other-teacher')
+      ).rejects.toThrow(ForbiddenError)
+    })
+  })
+
+  describe('downloadAttachment', () => {
+    it('should return metadata and file contents', async () => {
+      const result = await service.downloadAttachment('attachment-123', 'teacher-123')
+
+      expect(mockStorage.get).toHaveBeenCalledWith('submissions/submission-123/key')
+      expect(result.attachment).toEqual(mockAttachment)
+      expect(result.data.toString()).toBe('%PDF')
+    })
+
+    it('should throw NotFoundError if attachment not found', async () => {
+      mockAttachmentRepository.findById = vi.fn().mockResolvedValue(null)
+
+      await expect(
+        service.downloadAttachment('missing', 'student-123')
+      ).rejects.toThrow(NotFoundError)
+    })
+
+    it('should throw ForbiddenError for other users', async () => {
+      await expect(
+        service.downloadAttachment('attachment-123', 'other-student')
+      ).rejects.toThrow(ForbiddenError)
+      expect(mockStorage.get).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('deleteAttachment', () => {
+    it('should delete metadata and stored file', async () => {
+      await service.deleteAttachment('attachment-123', 'student-123')
+
+      expect(mockAttachmentRepository.delete).toHaveBeenCalledWith('attachment-123')
+      expect(mockStorage.delete).toHaveBeenCalledWith('submissions/submission-123/key')
+      expect(mockVersionRepository.create).toHaveBeenCalledWith(
+        'submission-123',
+        'My essay',
+        null
+      )
+    })
+
+    it('should reject removals after the due date under the reject policy', async () => {
+      mockAssignmentRepository.findById = vi.fn().mockResolvedValue({
+        ...mockAssignment,
+        due_date: new Date(Date.now() - 60 * 60 * 1000),
+      })
+
+      await expect(
+        service.deleteAttachment('attachment-123', 'student-123')
+      ).rejects.toThrow(InvalidStateError)
+      expect(mockAttachmentRepository.delete).not.toHaveBeenCalled()
+      expect(mockStorage.delete).not.toHaveBeenCalled()
+    })
+
+    it('should throw ForbiddenError for class teacher', async () => {
+      await expect(
+        service.deleteAttachment('attachment-123', 'teacher-123')
+      ).rejects.toThrow(ForbiddenError)
+    })
+
+    it('should throw InvalidStateError after grading', async () => {
+      mockAssignmentRepository.getGrade = vi.fn().mockResolvedValue({ id: 'grade-123' })
+
+      await expect(
+        service.deleteAttachment('attachment-123', 'student-123')
+      ).rejects.toThrow(InvalidStateError)
+      expect(mockAttachmentRepository.delete).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,286 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { TeacherGroupService } from '../../src/TeacherGroupService'
+import type { TeacherGroupRepository, UserRepository } from '@concentrate/database'
+import type { TeacherGroup, User } from '@concentrate/database'
+import { NotFoundError, ForbiddenError, AlreadyExistsError } from '@concentrate/shared'
+
+describe('TeacherGroupService - Unit Tests', () => {
+  let service: TeacherGroupService
+  let mockTeacherGroupRepository: Partial<TeacherGroupRepository>
+  let mockUserRepository: Partial<UserRepository>
+  let mockDb: unknown
+
+  const mockAdmin: User = {
+    id: 'admin-123',
+    email: 'admin@example.com',
+    password_hash: 'hashed_password',
+    name: 'Test Admin',
+    role: 'admin',
+    suspended: false,
+    created_at: new Date(),
+    updated_at: new Date(),
+  }
+
+  const mockTeacher: User = {
+    ...mockAdmin,
+    id: 'teacher-123',
+    email: 'teacher@example.com',
+    name: 'Test Teacher',
+    role: 'teacher',
+  }
+
+  const mockStudent: User = {
+    ...mockAdmin,
+    id: 'student-123',
+    email: 'student@example.com',
+    name: 'Test Student',
+    role: 'student',
+  }
+
+  const mockGroup: TeacherGroup = {
+    id: 'group-123',
+    name: 'Science Department',
+    admin_id: 'admin-123',
+    created_at: new Date(),
+    updated_at: new Date(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    mockTeacherGroupRepository = {
+      create: vi.fn(),
+      findById: vi.fn(),
+      findAll: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      count: vi.fn(),
+      addMember: vi.fn(),
+      removeMember: vi.fn(),
+      getMembers: vi.fn(),
+      isMember: vi.fn(),
+      findGroupsForTeacher: vi.fn(),
+    }
+
+    mockUserRepository = {
+      findById: vi.fn(),
+    }
+
+    mockDb = {} as unknown
+    service = new TeacherGroupService(mockDb as never)
+
+    // Inject mocks
+    ;(
+      service as unknown as { teacherGroupRepository: Partial<TeacherGroupRepository> }
+    ).teacherGroupRepository = mockTeacherGroupRepository
+    ;(service as unknown as { userRepository: Partial<UserRepository> }).userRepository =
+      mockUserRepository
+  })
+
+  describe('createGroup', () => {
+    it('should create group owned by the admin', async () => {
+      mockUserRepository.findById = vi.fn().mockResolvedValue(mockAdmin)
+      mockTeacherGroupRepository.create = vi.fn().mockResolvedValue(mockGroup)
+
+      const result = await service.createGroup('admin-123', { name: 'Science Department' })
+
+      expect(mockTeacherGroupRepository.create).toHaveBeenCalledWith({
+        name: 'Science Department',
+        admin_id: 'admin-123',
+      })
+      expect(result).toEqual(mockGroup)
+    })
+
+    it('should throw NotFoundError if admin not found', async () => {
+      mockUserRepository.findById = vi.fn().mockResolvedValue(null)
+
+      await expect(service.createGroup('missing', { name: 'Group' })).rejects.toThrow(
+        NotFoundError
+      )
+      expect(mockTeacherGroupRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('should throw ForbiddenError if user is not an admin', async () => {
+      mockUserRepository.findById = vi.fn().mockResolvedValue(mockTeacher)
+
+      await expect(service.createGroup('teacher-123', { name: 'Group' })).rejects.toThrow(
+        ForbiddenError
+      )
+    })
+  })
+
+  describe('getGroupById', () => {
+    it('should return group when found', async () => {
+      mockTeacherGroupRepository.findById = vi.fn().mockResolvedValue(mockGroup)
+
+      const result = await service.getGroupById('group-123')
+
+      expect(result).toEqual(mockGroup)
+    })
+
+    it('should throw NotFoundError when group not found', async () => {
+      mockTeacherGroupRepository.findById = vi.fn().mockResolvedValue(null)
+
+      await expect(service.getGroupById('missing')).rejects.toThrow(NotFoundError)
+    })
+  })
+
+  describe('getAllGroups', () => {
+    it('should pass pagination options to repository', async () => {
+      mockTeacherGroupRepository.findAll = vi.fn().mockResolvedValue([mockGroup])
+
+      const result = await service.getAllGroups({ page: 2, limit: 5 })
+
+      expect(mockTeacherGroupRepository.findAll).toHaveBeenCalledWith({ page: 2, limit: 5 })
+      expect(result).toEqual([mockGroup])
+    })
+  })
+
+  describe('updateGroup', () => {
+    it('should update existing group', async () => {
+      const updated = { ...mockGroup, name: 'Renamed' }
+      mockTeacherGroupRepository.findById = vi.fn().mockResolvedValue(mockGroup)
+      mockTeacherGroupRepository.update = vi.fn().mockResolvedValue(updated)
+
+      const result = await service.updateGroup('group-123', { name: 'Renamed' })
+
+      expect(mockTeacherGroupRepository.update).toHaveBeenCalledWith('group-123', {
+        name: 'Renamed',
+      })
+      expect(result).toEqual(updated)
+    })
+
+    it('should throw NotFoundError for missing group', async () => {
+      mockTeacherGroupRepository.findById = vi.fn().mockResolvedValue(null)
+
+      await expect(service.updateGroup('missing', { name: 'X' })).rejects.toThrow(
+        NotFoundError
+      )
+      expect(mockTeacherGroupRepository.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('deleteGroup', () => {
+    it('should delete existing group', async () => {
+      mockTeacherGroupRepository.findById = vi.fn().mockResolvedValue(mockGroup)
+
+      await service.deleteGroup('group-123')
+
+      expect(mockTeacherGroupRepository.delete).toHaveBeenCalledWith('group-123')
+    })
+
+    it('should throw NotFoundError for missing group', async () => {
+      mockTeacherGroupRepository.findById = vi.fn().mockResolvedValue(null)
+
+      await expect(service.deleteGroup('missing')).rejects.toThrow(NotFoundError)
+      expect(mockTeacherGroupRepository.delete).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('addMember', () => {
+    beforeEach(() => {
+      mockTeacherGroupRepository.findById = vi.fn().mockResolvedValue(mockGroup)
+    })
+
+    it('should add teacher to group', async () => {
+      mockUserRepository.findById = vi.fn().mockResolvedValue(mockTeacher)
+      mockTeacherGroupRepository.isMember = vi.fn().mockResolvedValue(false)
+
+      await service.addMember('group-123', 'teacher-123')
+
+      expect(mockTeacherGroupRepository.addMember).toHaveBeenCalledWith(
+        'group-123',
+        'teacher-123'
+      )
+    })
+
+    it('should throw NotFoundError if teacher not found', async () => {
+      mockUserRepository.findById = vi.fn().mockResolvedValue(null)
+
+      await expect(service.addMember('group-123', 'missing')).rejects.toThrow(NotFoundError)
+    })
+
+    it('should throw ForbiddenError if user is not a teacher', async () => {
+      mockUserRepository.findById = vi.fn().mockResolvedValue(mockStudent)
+
+      await expect(service.addMember('group-123', 'student-123')).rejects.toThrow(
+        ForbiddenError
+      )
+      expect(mockTeacherGroupRepository.addMember).not.toHaveBeenCalled()
+    })
+
+    it('should throw AlreadyExistsError if teacher already a member', async () => {
+      mockUserRepository.findById = vi.fn().mockResolvedValue(mockTeacher)
+      mockTeacherGroupRepository.isMember = vi.fn().mockResolvedValue(true)
+
+      await expect(service.addMember('group-123', 'teacher-123')).rejects.toThrow(
+        AlreadyExistsError
+      )
+    })
+  })
+
+  describe('removeMember', () => {
+    beforeEach(() => {
+      mockTeacherGroupRepository.findById = vi.fn().mockResolvedValue(mockGroup)
+    })
+
+    it('should remove member from group', async () => {
+      mockTeacherGroupRepository.isMember = vi.fn().mockResolvedValue(true)
+
+      await service.removeMember('group-123', 'teacher-123')
+
+      expect(mockTeacherGroupRepository.removeMember).toHaveBeenCalledWith(
+        'group-123',
+        'teacher-123'
+      )
+    })
+
+    it('should throw NotFoundError if teacher is not a member', async () => {
+      mockTeacherGroupRepository.isMember = vi.fn().mockResolvedValue(false)
+
+      await expect(service.removeMember('group-123', 'teacher-123')).rejects.toThrow(
+        NotFoundError
+      )
+      expect(mockTeacherGroupRepository.removeMember).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getMembers', () => {
+    it('should return members of existing group', async () => {
+      const members = [
+        { id: 'teacher-123', name: 'Test Teacher', email: 'teacher@example.com', joined_at: new Date() },
+      ]
+      mockTeacherGroupRepository.findById = vi.fn().mockResolvedValue(mockGroup)
+      mockTeacherGroupRepository.getMembers = vi.fn().mockResolvedValue(members)
+
+      const result = await service.getMembers('group-123')
+
+      expect(result).toEqual(members)
+    })
+
+    it('should throw NotFoundError for missing group', async () => {
+      mockTeacherGroupRepository.findById = vi.fn().mockResolvedValue(null)
+
+      await expect(service.getMembers('missing')).rejects.toThrow(NotFoundError)
+    })
+  })
+
+  describe('getGroupsForTeacher', () => {
+    it('should return groups the teacher belongs to', async () => {
+      mockTeacherGroupRepository.findGroupsForTeacher = vi.fn().mockResolvedValue([mockGroup])
+
+      const result = await service.getGroupsForTeacher('teacher-123')
+
+      expect(mockTeacherGroupRepository.findGroupsForTeacher).toHaveBeenCalledWith('teacher-123')
+      expect(result).toEqual([mockGroup])
+    })
+  })
+
+  describe('getGroupCount', () => {
+    it('should return group count', async () => {
+      mockTeacherGroupRepository.count = vi.fn().mockResolvedValue(3)
+
+      expect(await service.getGroupCount()).toBe(3)
+    })
+  })
+})
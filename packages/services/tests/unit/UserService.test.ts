@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { UserService } from '../../src/UserService'
+import type { AuditService } from '../../src/AuditService'
+import type { AuthService } from '../../src/AuthService'
 import type { UserRepository } from '@concentrate/database'
 import type { User, NewUser, UserUpdate } from '@concentrate/database'
 import {
@@ -21,6 +23,8 @@ vi.mock('@concentrate/shared', async () => {
 describe('UserService - Unit Tests', () => {
   let service: UserService
   let mockUserRepository: Partial<UserRepository>
+  let mockAuditService: Partial<AuditService>
+  let mockAuthService: Partial<AuthService>
   let mockDb: unknown
 
   const mockUser: User = {
@@ -53,11 +57,23 @@ describe('UserService - Unit Tests', () => {
       batchSuspend: vi.fn(),
     }
 
+    mockAuditService = {
+      record: vi.fn(),
+    }
+
+    mockAuthService = {
+      revokeAllSessions: vi.fn(),
+    }
+
     mockDb = {} as unknown
     service = new UserService(mockDb as never)
     // Replace the repository with our mock
     ;(service as unknown as { userRepository: Partial<UserRepository> }).userRepository =
       mockUserRepository
+    ;(service as unknown as { auditService: Partial<AuditService> }).auditService =
+      mockAuditService
+    ;(service as unknown as { authService: Partial<AuthService> }).authService =
+      mockAuthService
   })
 
   describe('createUser', () => {
@@ -169,11 +185,18 @@ describe('UserService - Unit Tests', () => {
       mockUserRepository.findById = vi.fn().mockResolvedValue(mockUser)
       mockUserRepository.update = vi.fn().mockResolvedValue(updatedUser)
 
-      const result = await service.updateUser('user-1', updates)
+      const result = await service.updateUser('user-1', updates, 'admin-1')
 
       expect(mockUserRepository.findById).toHaveBeenCalledWith('user-1')
       expect(mockUserRepository.update).toHaveBeenCalledWith('user-1', updates)
       expect(result.name).toBe(updates.name)
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        'admin-1',
+        'user_updated',
+        { type: 'user', id: 'user-1' },
+        expect.objectContaining({ name: 'Test User' }),
+        expect.objectContaining({ name: 'Updated Name' })
+      )
     })
 
     it('should check email uniqueness when updating email', async () => {
@@ -228,10 +251,18 @@ describe('UserService - Unit Tests', () => {
       mockUserRepository.findById = vi.fn().mockResolvedValue(mockUser)
       mockUserRepository.delete = vi.fn().mockResolvedValue(undefined)
 
-      await service.deleteUser('user-1')
+      await service.deleteUser('user-1', 'admin-1')
 
       expect(mockUserRepository.findById).toHaveBeenCalledWith('user-1')
       expect(mockUserRepository.delete).toHaveBeenCalledWith('user-1')
+      expect(mockAuthService.revokeAllSessions).toHaveBeenCalledWith('user-1')
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        'admin-1',
+        'user_deleted',
+        { type: 'user', id: 'user-1' },
+        expect.objectContaining({ email: 'test@example.com' }),
+        null
+      )
     })
 
     it('should prevent deletion of last admin', async () => {
@@ -264,10 +295,18 @@ describe('UserService - Unit Tests', () => {
       mockUserRepository.findById = vi.fn().mockResolvedValue(mockUser)
       mockUserRepository.suspend = vi.fn().mockResolvedValue(suspendedUser)
 
-      const result = await service.suspendUser('user-1')
+      const result = await service.suspendUser('user-1', 'admin-1')
 
       expect(mockUserRepository.suspend).toHaveBeenCalledWith('user-1')
       expect(result.suspended).toBe(true)
+      expect(mockAuthService.revokeAllSessions).toHaveBeenCalledWith('user-1')
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        'admin-1',
+        'user_suspended',
+        { type: 'user', id: 'user-1' },
+        expect.objectContaining({ suspended: false }),
+        expect.objectContaining({ suspended: true })
+      )
     })
 
     it('should prevent self-suspension', async () => {
@@ -277,6 +316,7 @@ describe('UserService - Unit Tests', () => {
         ForbiddenError
       )
       expect(mockUserRepository.suspend).not.toHaveBeenCalled()
+      expect(mockAuthService.revokeAllSessions).not.toHaveBeenCalled()
     })
 
     it('should prevent suspending last admin', async () => {
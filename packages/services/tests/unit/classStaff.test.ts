@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { assertClassStaff, getClassStaffRole, hasClassStaffPermission } from '../../src/classStaff'
+import type { Class, ClassStaffRepository } from '@concentrate/database'
+import { ForbiddenError } from '@concentrate/shared'
+
+describe('class staff access', () => {
+  let mockClassStaffRepository: Partial<ClassStaffRepository>
+  let repository: ClassStaffRepository
+
+  const mockClass: Class = {
+    id: 'class-123',
+    name: 'English',
+    description: null,
+    teacher_id: 'teacher-123',
+    created_at: new Date(),
+    updated_at: new Date(),
+  }
+
+  beforeEach(() => {
+    mockClassStaffRepository = {
+      findRole: vi.fn().mockResolvedValue(null),
+    }
+    repository = mockClassStaffRepository as ClassStaffRepository
+  })
+
+  it('should treat the class teacher as owner without a staff row', async () => {
+    expect(await getClassStaffRole(repository, mockClass, 'teacher-123')).toBe('owner')
+    expect(mockClassStaffRepository.findRole).not.toHaveBeenCalled()
+  })
+
+  it('should look up the staff role of other users', async () => {
+    mockClassStaffRepository.findRole = vi.fn().mockResolvedValue('ta')
+
+    expect(await getClassStaffRole(repository, mockClass, 'ta-123')).toBe('ta')
+    expect(mockClassStaffRepository.findRole).toHaveBeenCalledWith('class-123', 'ta-123')
+  })
+
+  it('should check the permission against the staff role', async () => {
+    mockClassStaffRepository.findRole = vi.fn().mockResolvedValue('ta')
+
+    expect(
+      await hasClassStaffPermission(repository, mockClass, 'ta-123', 'submissions:read_class')
+    ).toBe(true)
+    expect(
+      await hasClassStaffPermission(repository, mockClass, 'ta-123', 'classes:update_own')
+    ).toBe(false)
+  })
+
+  it('should throw ForbiddenError with the given message for users off the staff', async () => {
+    await expect(
+      assertClassStaff(repository, mockClass, 'stranger', 'grades:read_class', 'Not your class')
+    ).rejects.toThrow(new ForbiddenError('Not your class'))
+  })
+})
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import {
+  ConsoleMailTransport,
+  FileMailTransport,
+  Mailer,
+  SmtpMailTransport,
+  createMailer,
+  invitationEmail,
+} from '../../src/mail'
+import type { MailMessage, MailTransport } from '../../src/mail'
+
+const message: MailMessage = {
+  from: 'School Portal <no-reply@school.test>',
+  to: 'student@example.com',
+  subject: 'Hello',
+  text: 'Plain body',
+  html: '<p>HTML body</p>',
+}
+
+describe('FileMailTransport', () => {
+  let outputDir: string
+
+  beforeEach(async () => {
+    outputDir = await mkdtemp(path.join(tmpdir(), 'mail-test-'))
+  })
+
+  afterEach(async () => {
+    await rm(outputDir, { recursive: true, force: true })
+  })
+
+  it('should write each message as a JSON file', async () => {
+    const transport = new FileMailTransport(path.join(outputDir, 'outbox'))
+
+    await transport.send(message)
+    await transport.send({ ...message, subject: 'Second' })
+
+    const files = (await readdir(path.join(outputDir, 'outbox'))).sort()
+    expect(files).toHaveLength(2)
+    const first = JSON.parse(await readFile(path.join(outputDir, 'outbox', files[0]!), 'utf8'))
+    expect(first).toMatchObject(message)
+    expect(first.sentAt).toBeDefined()
+  })
+})
+
+describe('ConsoleMailTransport', () => {
+  it('should print headers and the text body', async () => {
+    const write = vi.fn()
+
+    await new ConsoleMailTransport(write).send(message)
+
+    const output = write.mock.calls[0]![0] as string
+    expect(output).toContain('To: student@example.com')
+    expect(output).toContain('Subject: Hello')
+    expect(output).toContain('Plain body')
+  })
+})
+
+describe('SmtpMailTransport', () => {
+  it('should hand the message to the SMTP client', async () => {
+    const client = { sendMail: vi.fn().mockResolvedValue({ messageId: '1' }) }
+
+    await new SmtpMailTransport(client).send(message)
+
+    expect(client.sendMail).toHaveBeenCalledWith(message)
+  })
+})
+
+describe('Mailer', () => {
+  let transport: MailTransport & { send: ReturnType<typeof vi.fn> }
+  let mailer: Mailer
+
+  beforeEach(() => {
+    transport = { send: vi.fn() }
+    mailer = new Mailer(transport, {
+      from: 'School Portal <no-reply@school.test>',
+      appUrl: 'https://portal.school.test/',
+    })
+  })
+
+  const sent = (): MailMessage => transport.send.mock.calls[0]![0] as MailMessage
+
+  it('should send a password reset link to the frontend', async () => {
+    await mailer.sendPasswordReset({ email: 'a@example.com', name: 'Ada' }, 'abc123', 30)
+
+    expect(sent().from).toBe('School Portal <no-reply@school.test>')
+    expect(sent().to).toBe('a@example.com')
+    expect(sent().subject).toBe('Reset your School Portal password')
+    expect(sent().text).toContain('https://portal.school.test/reset-password?token=abc123')
+    expect(sent().text).toContain('30 minutes')
+  })
+
+  it('should send an invitation link with the role', async () => {
+    await mailer.sendInvitation(
+      {
+        token: 'tok',
+        email: 'new@example.com',
+        name: 'New Teacher',
+        role: 'teacher',
+        expiresAt: new Date('2030-01-08T00:00:00Z'),
+      },
+      'Head Admin'
+    )
+
+    expect(sent().to).toBe('new@example.com')
+    expect(sent().text).toContain('Head Admin invited you to join School Portal as a teacher.')
+    expect(sent().text).toContain('https://portal.school.test/invite/tok')
+    expect(sent().text).toContain('2030-01-08')
+  })
+
+  it('should send a grade posted notice', async () => {
+    await mailer.sendGradePosted(
+      { email: 's@example.com', name: 'Sam' },
+      {
+        className: 'Math 101',
+        assignmentId: 'assignment-1',
+        assignmentTitle: 'Homework 1',
+        grade: 85,
+        maxPoints: 100,
+      }
+    )
+
+    expect(sent().subject).toBe('Grade posted: Homework 1')
+    expect(sent().text).toContain('"Homework 1" in Math 101 has been graded: 85/100')
+    expect(sent().html).toContain('https://portal.school.test/student/assignments/assignment-1')
+  })
+})
+
+describe('templates', () => {
+  it('should escape values in the HTML body', () => {
+    const email = invitationEmail({
+      name: '<script>alert(1)</script>',
+      role: 'student',
+      inviterName: 'Admin',
+      inviteUrl: 'https://portal.school.test/invite/x',
+      expiresAt: new Date(),
+    })
+
+    expect(email.html).not.toContain('<script>')
+    expect(email.html).toContain('&lt;script&gt;')
+  })
+})
+
+describe('createMailer', () => {
+  const originalEnv = { ...process.env }
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+  })
+
+  it('should default to the console transport', () => {
+    delete process.env['MAIL_DRIVER']
+
+    const mailer = createMailer()
+
+    expect((mailer as unknown as { transport: MailTransport }).transport).toBeInstanceOf(
+      ConsoleMailTransport
+    )
+  })
+
+  it('should create the file transport', () => {
+    process.env['MAIL_DRIVER'] = 'file'
+
+    const mailer = createMailer()
+
+    expect((mailer as unknown as { transport: MailTransport }).transport).toBeInstanceOf(
+      FileMailTransport
+    )
+  })
+
+  it('should create the SMTP transport with a client', () => {
+    process.env['MAIL_DRIVER'] = 'smtp'
+
+    const mailer = createMailer({ smtpClient: { sendMail: vi.fn() } })
+
+    expect((mailer as unknown as { transport: MailTransport }).transport).toBeInstanceOf(
+      SmtpMailTransport
+    )
+  })
+
+  it('should build the SMTP transport from SMTP_* settings', () => {
+    process.env['MAIL_DRIVER'] = 'smtp'
+    process.env['SMTP_HOST'] = 'smtp.school.test'
+    process.env['SMTP_PORT'] = '465'
+    process.env['SMTP_SECURE'] = 'true'
+    process.env['SMTP_USER'] = 'mailer'
+    process.env['SMTP_PASS'] = 'secret'
+
+    const mailer = createMailer()
+
+    expect((mailer as unknown as { transport: MailTransport }).transport).toBeInstanceOf(
+      SmtpMailTransport
+    )
+  })
+
+  it('should throw when SMTP is selected without SMTP_HOST', () => {
+    process.env['MAIL_DRIVER'] = 'smtp'
+    delete process.env['SMTP_HOST']
+
+    expect(() => createMailer()).toThrow('requires SMTP_HOST')
+  })
+
+  it('should refuse the console and file drivers in production', () => {
+    process.env['NODE_ENV'] = 'production'
+
+    delete process.env['MAIL_DRIVER']
+    expect(() => createMailer()).toThrow('MAIL_DRIVER=console is for development only')
+
+    process.env['MAIL_DRIVER'] = 'file'
+    expect(() => createMailer()).toThrow('MAIL_DRIVER=file is for development only')
+  })
+
+  it('should throw for unknown drivers', () => {
+    process.env['MAIL_DRIVER'] = 'pigeon'
+
+    expect(() => createMailer()).toThrow('Unknown MAIL_DRIVER: pigeon')
+  })
+})
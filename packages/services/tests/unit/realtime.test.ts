@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { EventHub, EventPublisher, userChannel } from '../../src/realtime'
+import type { RealtimeEvent, RedisSubscriber } from '../../src/realtime'
+
+const event: RealtimeEvent = {
+  type: 'grade_posted',
+  assignmentId: 'assignment-123',
+  submissionId: 'submission-123',
+}
+
+describe('EventPublisher', () => {
+  it('should publish the event as JSON on each user channel', async () => {
+    const client = { publish: vi.fn().mockResolvedValue(1) }
+    const publisher = new EventPublisher(client)
+
+    await publisher.publish(['user-1', 'user-2'], event)
+
+    expect(client.publish).toHaveBeenCalledWith('events:user:user-1', JSON.stringify(event))
+    expect(client.publish).toHaveBeenCalledWith('events:user:user-2', JSON.stringify(event))
+  })
+
+  it('should ignore publish errors', async () => {
+    const client = { publish: vi.fn().mockRejectedValue(new Error('Redis down')) }
+    const publisher = new EventPublisher(client)
+
+    await expect(publisher.publish('user-1', event)).resolves.toBeUndefined()
+  })
+})
+
+describe('EventHub', () => {
+  let onMessage: (channel: string, message: string) => void
+  let subscriber: {
+    subscribe: ReturnType<typeof vi.fn>
+    unsubscribe: ReturnType<typeof vi.fn>
+    on: ReturnType<typeof vi.fn>
+    disconnect: ReturnType<typeof vi.fn>
+  }
+  let hub: EventHub
+
+  beforeEach(() => {
+    subscriber = {
+      subscribe: vi.fn().mockResolvedValue(1),
+      unsubscribe: vi.fn().mockResolvedValue(0),
+      on: vi.fn((_event: string, listener: typeof onMessage) => {
+        onMessage = listener
+      }),
+      disconnect: vi.fn(),
+    }
+    hub = new EventHub(subscriber as RedisSubscriber)
+  })
+
+  it('should deliver messages of a user channel to its listeners', async () => {
+    const listener = vi.fn()
+    const other = vi.fn()
+    await hub.subscribe('user-1', listener)
+    await hub.subscribe('user-2', other)
+
+    onMessage(userChannel('user-1'), JSON.stringify(event))
+
+    expect(listener).toHaveBeenCalledWith(event)
+    expect(other).not.toHaveBeenCalled()
+  })
+
+  it('should share one subscription between listeners of a user', async () => {
+    const stopFirst = await hub.subscribe('user-1', vi.fn())
+    const stopSecond = await hub.subscribe('user-1', vi.fn())
+
+    expect(subscriber.subscribe).toHaveBeenCalledTimes(1)
+
+    await stopFirst()
+    expect(subscriber.unsubscribe).not.toHaveBeenCalled()
+
+    await stopSecond()
+    expect(subscriber.unsubscribe).toHaveBeenCalledWith('events:user:user-1')
+  })
+
+  it('should stop delivering after unsubscribing', async () => {
+    const listener = vi.fn()
+    const stop = await hub.subscribe('user-1', listener)
+    await stop()
+    await stop()
+
+    onMessage(userChannel('user-1'), JSON.stringify(event))
+
+    expect(listener).not.toHaveBeenCalled()
+    expect(subscriber.unsubscribe).toHaveBeenCalledTimes(1)
+  })
+
+  it('should ignore malformed messages', async () => {
+    const listener = vi.fn()
+    await hub.subscribe('user-1', listener)
+
+    onMessage(userChannel('user-1'), 'not json')
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('should disconnect on close', async () => {
+    hub.close()
+
+    expect(subscriber.disconnect).toHaveBeenCalled()
+  })
+})
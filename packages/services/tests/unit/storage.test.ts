@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { LocalDiskStorage, S3Storage, createStorageBackend } from '../../src/storage'
+import type { S3CompatibleClient } from '../../src/storage'
+import { NotFoundError, ValidationError } from '@concentrate/shared'
+
+describe('LocalDiskStorage', () => {
+  let rootDir: string
+  let storage: LocalDiskStorage
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(tmpdir(), 'storage-test-'))
+    storage = new LocalDiskStorage(rootDir)
+  })
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true })
+  })
+
+  it('should store and read files under nested keys', async () => {
+    await storage.put('submissions/abc/file', Buffer.from('hello'), 'text/plain')
+
+    const data = await storage.get('submissions/abc/file')
+
+    expect(data.toString()).toBe('hello')
+  })
+
+  it('should throw NotFoundError for missing keys', async () => {
+    await expect(storage.get('missing')).rejects.toThrow(NotFoundError)
+  })
+
+  it('should delete files and ignore missing keys', async () => {
+    await storage.put('file', Buffer.from('x'), 'text/plain')
+
+    await storage.delete('file')
+    await storage.delete('file')
+
+    await expect(storage.get('file')).rejects.toThrow(NotFoundError)
+  })
+
+  it('should reject keys escaping the root directory', async () => {
+    await expect(
+      storage.put('../outside', Buffer.from('x'), 'text/plain')
+    ).rejects.toThrow(ValidationError)
+  })
+})
+
+describe('S3Storage', () => {
+  let client: S3CompatibleClient
+
+  beforeEach(() => {
+    client = {
+      putObject: vi.fn(),
+      getObject: vi.fn().mockResolvedValue(Buffer.from('data')),
+      deleteObject: vi.fn(),
+    }
+  })
+
+  it('should put objects with bucket, prefixed key and content type', async () => {
+    const storage = new S3Storage(client, 'uploads', 'portal/')
+
+    await storage.put('submissions/abc', Buffer.from('data'), 'application/pdf')
+
+    expect(client.putObject).toHaveBeenCalledWith({
+      Bucket: 'uploads',
+      Key: 'portal/submissions/abc',
+      Body: Buffer.from('data'),
+      ContentType: 'application/pdf',
+    })
+  })
+
+  it('should throw NotFoundError when object is missing', async () => {
+    client.getObject = vi.fn().mockResolvedValue(null)
+    const storage = new S3Storage(client, 'uploads')
+
+    await expect(storage.get('missing')).rejects.toThrow(NotFoundError)
+  })
+
+  it('should delete objects', async () => {
+    const storage = new S3Storage(client, 'uploads')
+
+    await storage.delete('key')
+
+    expect(client.deleteObject).toHaveBeenCalledWith({ Bucket: 'uploads', Key: 'key' })
+  })
+})
+
+describe('createStorageBackend', () => {
+  const originalEnv = { ...process.env }
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+  })
+
+  it('should default to local disk storage', () => {
+    delete process.env['STORAGE_DRIVER']
+
+    expect(createStorageBackend()).toBeInstanceOf(LocalDiskStorage)
+  })
+
+  it('should create S3 storage with client and bucket', () => {
+    process.env['STORAGE_DRIVER'] = 's3'
+    process.env['S3_BUCKET'] = 'uploads'
+    const client = { putObject: vi.fn(), getObject: vi.fn(), deleteObject: vi.fn() }
+
+    expect(createStorageBackend({ s3Client: client })).toBeInstanceOf(S3Storage)
+  })
+
+  it('should build the S3 client from S3_* settings', () => {
+    process.env['STORAGE_DRIVER'] = 's3'
+    process.env['S3_BUCKET'] = 'uploads'
+    process.env['S3_ENDPOINT'] = 'http://minio.local:9000'
+    process.env['S3_ACCESS_KEY_ID'] = 'key'
+    process.env['S3_SECRET_ACCESS_KEY'] = 'secret'
+
+    expect(createStorageBackend()).toBeInstanceOf(S3Storage)
+  })
+
+  it('should throw when S3 is selected without a bucket', () => {
+    process.env['STORAGE_DRIVER'] = 's3'
+    delete process.env['S3_BUCKET']
+
+    expect(() => createStorageBackend()).toThrow('requires S3_BUCKET')
+  })
+
+  it('should throw for unknown drivers', () => {
+    process.env['STORAGE_DRIVER'] = 'ftp'
+
+    expect(() => createStorageBackend()).toThrow('Unknown STORAGE_DRIVER: ftp')
+  })
+})
@@ -3,11 +3,19 @@ import {
   USER_ROLES,
   type UserRole,
   ROLE_PERMISSIONS,
+  ALL_PERMISSIONS,
+  UNSCOPED_PERMISSIONS,
   hasPermission,
+  isPermission,
+  allowsPermission,
+  CLASS_STAFF_ROLES,
+  hasClassPermission,
   getPermissions,
   ERROR_CODES,
   type ErrorCode,
   getStatusCode,
+  UPLOAD_LIMITS,
+  isAllowedUploadMimeType,
 } from '../index'
 
 describe('User Roles', () => {
@@ -65,6 +73,41 @@ describe('Role Permissions', () => {
     expect(hasPermission(USER_ROLES.STUDENT, 'submissions:create_own')).toBe(true)
   })
 
+  it('should honour permissions granted on top of the role', () => {
+    expect(hasPermission(USER_ROLES.TEACHER, 'classes:read_all')).toBe(false)
+    expect(hasPermission(USER_ROLES.TEACHER, 'classes:read_all', ['classes:read_all'])).toBe(true)
+  })
+
+  it('should list every permission once', () => {
+    expect(new Set(ALL_PERMISSIONS).size).toBe(ALL_PERMISSIONS.length)
+    expect(ALL_PERMISSIONS).toContain('users:create')
+    expect(ALL_PERMISSIONS).toContain('submissions:create_own')
+    expect(isPermission('grades:read_all')).toBe(true)
+    expect(isPermission('grades:delete_everything')).toBe(false)
+  })
+
+  it('should allow scoped permissions through their unscoped counterpart', () => {
+    expect(allowsPermission(['classes:read_all'], 'classes:read_own')).toBe(true)
+    expect(allowsPermission(['classes:read_own'], 'classes:read_all')).toBe(false)
+    expect(allowsPermission(['grades:read_class'], 'grades:read_class')).toBe(true)
+    expect(allowsPermission([], 'grades:update_own')).toBe(false)
+  })
+
+  it('should map scoped permissions to known unscoped ones', () => {
+    for (const unscoped of Object.values(UNSCOPED_PERMISSIONS)) {
+      expect(ALL_PERMISSIONS).toContain(unscoped)
+    }
+  })
+
+  it('should limit class staff permissions by staff role', () => {
+    expect(hasClassPermission(CLASS_STAFF_ROLES.OWNER, 'classes:delete_own')).toBe(true)
+    expect(hasClassPermission(CLASS_STAFF_ROLES.CO_TEACHER, 'classes:delete_own')).toBe(false)
+    expect(hasClassPermission(CLASS_STAFF_ROLES.CO_TEACHER, 'assignments:create')).toBe(true)
+    expect(hasClassPermission(CLASS_STAFF_ROLES.TA, 'grades:update_own')).toBe(true)
+    expect(hasClassPermission(CLASS_STAFF_ROLES.TA, 'assignments:create')).toBe(false)
+    expect(hasClassPermission(CLASS_STAFF_ROLES.TA, 'classes:add_student')).toBe(false)
+  })
+
   it('should get all permissions for a role', () => {
     const adminPermissions = getPermissions(USER_ROLES.ADMIN)
     const teacherPermissions = getPermissions(USER_ROLES.TEACHER)
@@ -128,3 +171,20 @@ describe('Error Codes', () => {
     })
   })
 })
+
+describe('Upload Limits', () => {
+  it('should limit file size and count', () => {
+    expect(UPLOAD_LIMITS.MAX_FILE_SIZE_BYTES).toBe(10 * 1024 * 1024)
+    expect(UPLOAD_LIMITS.MAX_FILES_PER_SUBMISSION).toBe(5)
+  })
+
+  it('should allow common document types', () => {
+    expect(isAllowedUploadMimeType('application/pdf')).toBe(true)
+    expect(isAllowedUploadMimeType('image/png')).toBe(true)
+  })
+
+  it('should reject executable and unknown types', () => {
+    expect(isAllowedUploadMimeType('application/x-msdownload')).toBe(false)
+    expect(isAllowedUploadMimeType('text/html')).toBe(false)
+  })
+})
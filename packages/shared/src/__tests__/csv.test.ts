@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { parseCsv, toCsv } from '../utils/csv'
+
+describe('toCsv', () => {
+  it('should join cells and rows with CRLF line endings', () => {
+    expect(toCsv([['Name', 'Grade'], ['Alice', 92.5]])).toBe('Name,Grade\r\nAlice,92.5\r\n')
+  })
+
+  it('should quote cells with commas, quotes and line breaks', () => {
+    expect(toCsv([['Smith, Jo', 'Said "hi"', 'a\nb']])).toBe(
+      '"Smith, Jo","Said ""hi""","a\nb"\r\n'
+    )
+  })
+
+  it('should write empty cells for null and undefined', () => {
+    expect(toCsv([[null, undefined, 0, false]])).toBe(',,0,false\r\n')
+  })
+
+  it('should write dates as ISO strings', () => {
+    expect(toCsv([[new Date('2026-03-01T10:00:00.000Z')]])).toBe('2026-03-01T10:00:00.000Z\r\n')
+  })
+
+  it('should neutralize text that would run as a formula', () => {
+    expect(toCsv([['=SUM(A1:A2)', '@cmd', '+1', -5]])).toBe("'=SUM(A1:A2),'@cmd,'+1,-5\r\n")
+  })
+})
+
+describe('parseCsv', () => {
+  it('should parse rows and cells', () => {
+    expect(parseCsv('Email,Grade\na@test.com,90\n')).toEqual([
+      ['Email', 'Grade'],
+      ['a@test.com', '90'],
+    ])
+  })
+
+  it('should parse quoted cells with escaped quotes and line breaks', () => {
+    expect(parseCsv('"Smith, Jo","Said ""hi""","a\r\nb"')).toEqual([
+      ['Smith, Jo', 'Said "hi"', 'a\r\nb'],
+    ])
+  })
+
+  it('should handle CRLF endings, a byte order mark and blank lines', () => {
+    expect(parseCsv('﻿Email,Grade\r\n\r\na@test.com,\r\n\r\n')).toEqual([
+      ['Email', 'Grade'],
+      ['a@test.com', ''],
+    ])
+  })
+
+  it('should round-trip output from toCsv', () => {
+    const rows = [
+      ['Name', 'Feedback'],
+      ['Smith, Jo', 'Line one\nLine "two"'],
+    ]
+
+    expect(parseCsv(toCsv(rows))).toEqual(rows)
+  })
+
+  it('should return no rows for empty text', () => {
+    expect(parseCsv('')).toEqual([])
+  })
+})
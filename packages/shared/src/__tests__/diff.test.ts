@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { diffLines } from '../utils/diff'
+
+describe('diffLines', () => {
+  it('should mark identical texts as equal', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'equal', text: 'b' },
+    ])
+  })
+
+  it('should detect changed lines', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'equal', text: 'c' },
+    ])
+  })
+
+  it('should detect appended and removed lines', () => {
+    expect(diffLines('a\nb', 'b\nc')).toEqual([
+      { type: 'removed', text: 'a' },
+      { type: 'equal', text: 'b' },
+      { type: 'added', text: 'c' },
+    ])
+  })
+
+  it('should handle empty texts', () => {
+    expect(diffLines('', '')).toEqual([])
+    expect(diffLines('', 'a')).toEqual([{ type: 'added', text: 'a' }])
+    expect(diffLines('a', '')).toEqual([{ type: 'removed', text: 'a' }])
+  })
+
+  it('should treat CRLF and LF line endings alike', () => {
+    expect(diffLines('a\r\nb', 'a\nb')).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'equal', text: 'b' },
+    ])
+  })
+})
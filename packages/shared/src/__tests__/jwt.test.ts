@@ -107,6 +107,15 @@ describe('verifyAccessToken', () => {
     expect(payload.role).toBe(role)
   })
 
+  it('should carry the token version, defaulting to 0', () => {
+    expect(
+      verifyAccessToken(generateAccessToken('user-123', USER_ROLES.STUDENT)).tokenVersion
+    ).toBe(0)
+    expect(
+      verifyAccessToken(generateAccessToken('user-123', USER_ROLES.STUDENT, 3)).tokenVersion
+    ).toBe(3)
+  })
+
   it('should return payload with iat and exp fields', () => {
     const token = generateAccessToken('user-123', USER_ROLES.STUDENT)
     const payload = verifyAccessToken(token)
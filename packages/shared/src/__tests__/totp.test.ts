@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  generateTotp,
+  getTotpStep,
+  verifyTotp,
+  buildOtpauthUrl,
+} from '../utils/totp'
+
+// ASCII "12345678901234567890", the SHA1 test secret of RFC 6238
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+describe('base32', () => {
+  it('should round-trip bytes', () => {
+    const bytes = Buffer.from('12345678901234567890')
+
+    expect(base32Encode(bytes)).toBe(RFC_SECRET)
+    expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890')
+  })
+
+  it('should ignore case, spaces and padding when decoding', () => {
+    expect(base32Decode('mzxw 6yq=').toString()).toBe('foob')
+  })
+
+  it('should reject characters outside the alphabet', () => {
+    expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character')
+  })
+})
+
+describe('generateTotpSecret', () => {
+  it('should generate random 160-bit secrets', () => {
+    const secret = generateTotpSecret()
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/)
+    expect(base32Decode(secret)).toHaveLength(20)
+    expect(generateTotpSecret()).not.toBe(secret)
+  })
+})
+
+describe('generateTotp', () => {
+  it('should match the RFC 6238 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, getTotpStep(59 * 1000))).toBe('287082')
+    expect(generateTotp(RFC_SECRET, getTotpStep(1111111109 * 1000))).toBe('081804')
+    expect(generateTotp(RFC_SECRET, getTotpStep(1234567890 * 1000))).toBe('005924')
+  })
+})
+
+describe('verifyTotp', () => {
+  const time = 1234567890 * 1000
+
+  it('should return the step of a valid code', () => {
+    expect(verifyTotp(RFC_SECRET, '005924', time)).toBe(getTotpStep(time))
+    expect(verifyTotp(RFC_SECRET, '005 924', time)).toBe(getTotpStep(time))
+  })
+
+  it('should accept codes from the adjacent steps only', () => {
+    const previous = generateTotp(RFC_SECRET, getTotpStep(time) - 1)
+    const stale = generateTotp(RFC_SECRET, getTotpStep(time) - 2)
+
+    expect(verifyTotp(RFC_SECRET, previous, time)).toBe(getTotpStep(time) - 1)
+    expect(verifyTotp(RFC_SECRET, stale, time)).toBeNull()
+  })
+
+  it('should reject malformed codes', () => {
+    expect(verifyTotp(RFC_SECRET, '', time)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, '00592', time)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, 'abcdef', time)).toBeNull()
+  })
+})
+
+describe('buildOtpauthUrl', () => {
+  it('should build a URI authenticator apps can scan', () => {
+    const url = new URL(buildOtpauthUrl(RFC_SECRET, 'ada@example.com', 'Concentrate Quiz'))
+
+    expect(url.protocol).toBe('otpauth:')
+    expect(url.host).toBe('totp')
+    expect(decodeURIComponent(url.pathname)).toBe('/Concentrate Quiz:ada@example.com')
+    expect(url.searchParams.get('secret')).toBe(RFC_SECRET)
+    expect(url.searchParams.get('issuer')).toBe('Concentrate Quiz')
+    expect(url.searchParams.get('digits')).toBe('6')
+    expect(url.searchParams.get('period')).toBe('30')
+  })
+})
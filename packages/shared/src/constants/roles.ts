@@ -68,11 +68,95 @@ export const ROLE_PERMISSIONS = {
 
 export type Permission = (typeof ROLE_PERMISSIONS)[UserRole][number]
 
+/**
+ * Every known permission, each listed once
+ */
+export const ALL_PERMISSIONS: readonly Permission[] = Array.from(
+  new Set(Object.values(ROLE_PERMISSIONS).flat())
+)
+
+/**
+ * Permissions that lift the ownership limit of a scoped permission
+ * e.g. a user with classes:read_all passes classes:read_own checks for any class
+ */
+export const UNSCOPED_PERMISSIONS: Partial<Record<Permission, Permission>> = {
+  'classes:read_own': 'classes:read_all',
+  'assignments:read_own': 'assignments:read_all',
+  'grades:read_class': 'grades:read_all',
+}
+
+/**
+ * Check if a permission list allows an action, directly or through its unscoped counterpart
+ * @param permissions - Effective permissions of a user
+ * @param permission - Required permission
+ */
+export function allowsPermission(
+  permissions: readonly Permission[],
+  permission: Permission
+): boolean {
+  const unscoped = UNSCOPED_PERMISSIONS[permission]
+  return (
+    permissions.includes(permission) ||
+    (unscoped !== undefined && permissions.includes(unscoped))
+  )
+}
+
+/**
+ * Check if a string names a known permission
+ */
+export function isPermission(value: string): value is Permission {
+  return ALL_PERMISSIONS.includes(value as Permission)
+}
+
 /**
  * Check if a role has a specific permission
+ * @param granted - Extra permissions granted to the user on top of the role
+ */
+export function hasPermission(
+  role: UserRole,
+  permission: Permission,
+  granted: readonly Permission[] = []
+): boolean {
+  return (
+    ROLE_PERMISSIONS[role].includes(permission as never) ||
+    granted.includes(permission)
+  )
+}
+
+/**
+ * Staff roles within a class
+ * The owner is the teacher who created the class; co-teachers and TAs are added by the owner
+ */
+export const CLASS_STAFF_ROLES = {
+  OWNER: 'owner',
+  CO_TEACHER: 'co_teacher',
+  TA: 'ta',
+} as const
+
+export type ClassStaffRole = (typeof CLASS_STAFF_ROLES)[keyof typeof CLASS_STAFF_ROLES]
+
+/**
+ * Teacher permissions each staff role has within its class
+ * Co-teachers can do everything but delete the class; TAs can only grade
+ */
+export const CLASS_STAFF_PERMISSIONS: Record<ClassStaffRole, readonly Permission[]> = {
+  [CLASS_STAFF_ROLES.OWNER]: ROLE_PERMISSIONS[USER_ROLES.TEACHER],
+  [CLASS_STAFF_ROLES.CO_TEACHER]: ROLE_PERMISSIONS[USER_ROLES.TEACHER].filter(
+    (permission) => permission !== 'classes:delete_own'
+  ),
+  [CLASS_STAFF_ROLES.TA]: [
+    'submissions:read_class',
+    'grades:create',
+    'grades:update_own',
+    'grades:read_class',
+  ],
+}
+
+/**
+ * Check if a staff role has a permission within its class
  */
-export function hasPermission(role: UserRole, permission: Permission): boolean {
-  return ROLE_PERMISSIONS[role].includes(permission as never)
+export function hasClassPermission(role: ClassStaffRole, permission: Permission): boolean {
+  return CLASS_STAFF_PERMISSIONS[role].includes(permission)
 }
 
 /**
@@ -0,0 +1,38 @@
+/**
+ * File upload limits and allowed content types
+ */
+
+export const UPLOAD_LIMITS = {
+  // Maximum size of a single uploaded file (10 MB)
+  MAX_FILE_SIZE_BYTES: 10 * 1024 * 1024,
+  // Maximum number of attachments per submission
+  MAX_FILES_PER_SUBMISSION: 5,
+} as const
+
+/**
+ * MIME types accepted for submission attachments
+ */
+export const ALLOWED_UPLOAD_MIME_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/zip',
+  'text/plain',
+  'text/csv',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+] as const
+
+export type AllowedUploadMimeType = (typeof ALLOWED_UPLOAD_MIME_TYPES)[number]
+
+/**
+ * Check if a MIME type is accepted for uploads
+ */
+export function isAllowedUploadMimeType(mimeType: string): mimeType is AllowedUploadMimeType {
+  return ALLOWED_UPLOAD_MIME_TYPES.includes(mimeType as AllowedUploadMimeType)
+}
@@ -6,6 +6,7 @@
 // Constants
 export * from './constants/roles'
 export * from './constants/errors'
+export * from './constants/uploads'
 
 // Utilities
 export * from './utils/errors'
@@ -13,5 +14,8 @@ export * from './utils/password'
 export * from './utils/jwt'
 export * from './utils/date'
 export * from './utils/pagination'
+export * from './utils/diff'
+export * from './utils/csv'
+export * from './utils/totp'
 
 // Types (to be added)
@@ -0,0 +1,110 @@
+/**
+ * CSV (RFC 4180) utilities
+ */
+
+/**
+ * A CSV cell value; null and undefined become empty cells
+ */
+export type CsvValue = string | number | boolean | Date | null | undefined
+
+// Spreadsheet apps evaluate cells starting with these as formulas
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r']
+
+function formatCell(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+
+  let text = value instanceof Date ? value.toISOString() : String(value)
+
+  // Only text can be a formula; negative numbers are left alone
+  if (typeof value === 'string' && FORMULA_PREFIXES.some((p) => text.startsWith(p))) {
+    text = `'${text}`
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serialize rows to CSV text with CRLF line endings
+ *
+ * Cells containing commas, quotes or line breaks are quoted. Text cells that
+ * a spreadsheet would run as a formula are prefixed with a single quote.
+ *
+ * @param rows - Rows of cells; the first row is usually the header
+ * @returns CSV text, ending with a line break
+ *
+ * @example
+ * ```typescript
+ * toCsv([['Name', 'Grade'], ['Smith, Jo', 92]])
+ * // Returns: 'Name,Grade\r\n"Smith, Jo",92\r\n'
+ * ```
+ */
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map((row) => row.map(formatCell).join(',') + '\r\n').join('')
+}
+
+/**
+ * Parse CSV text into rows of cells
+ *
+ * Handles quoted cells (including escaped quotes and line breaks), CRLF or
+ * LF line endings and a leading byte order mark. Blank lines are skipped.
+ *
+ * @param text - CSV text
+ * @returns Rows of raw cell strings
+ *
+ * @example
+ * ```typescript
+ * parseCsv('Email,Grade\r\n"a@test.com",90\r\n')
+ * // Returns: [['Email', 'Grade'], ['a@test.com', '90']]
+ * ```
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.startsWith('﻿') ? text.slice(1) : text
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row)
+    }
+    row = []
+    cell = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++
+      }
+      endRow()
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow()
+  }
+
+  return rows
+}
@@ -0,0 +1,72 @@
+/**
+ * Line-based text diff utilities
+ */
+
+/**
+ * A single line in a diff
+ */
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+/**
+ * Compute a line diff between two texts using the longest common subsequence
+ *
+ * @param before - Original text
+ * @param after - Changed text
+ * @returns Lines in order, marked as equal, added or removed
+ *
+ * @example
+ * ```typescript
+ * diffLines('a\nb', 'a\nc')
+ * // Returns:
+ * // [
+ * //   { type: 'equal', text: 'a' },
+ * //   { type: 'removed', text: 'b' },
+ * //   { type: 'added', text: 'c' }
+ * // ]
+ * ```
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before === '' ? [] : before.split(/\r?\n/)
+  const b = after === '' ? [] : after.split(/\r?\n/)
+
+  // lcs[i][j] = length of LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  )
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] =
+        a[i] === b[j]
+          ? lcs[i + 1]![j + 1]! + 1
+          : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!)
+    }
+  }
+
+  const result: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'equal', text: a[i]! })
+      i++
+      j++
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      result.push({ type: 'removed', text: a[i]! })
+      i++
+    } else {
+      result.push({ type: 'added', text: b[j]! })
+      j++
+    }
+  }
+  while (i < a.length) {
+    result.push({ type: 'removed', text: a[i++]! })
+  }
+  while (j < b.length) {
+    result.push({ type: 'added', text: b[j++]! })
+  }
+
+  return result
+}
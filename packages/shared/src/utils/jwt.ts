@@ -13,6 +13,8 @@ import { TokenExpiredError, TokenInvalidError } from './errors'
 export interface TokenPayload {
   userId: string
   role: UserRole
+  /** Token version of the user at issue time; missing on older tokens (version 0) */
+  tokenVersion?: number
   iat?: number
   exp?: number
 }
@@ -47,6 +49,7 @@ function getJwtSecret(): string {
  *
  * @param userId - The user's ID
  * @param role - The user's role
+ * @param tokenVersion - The user's current token version (default: 0)
  * @returns The signed JWT token
  *
  * @example
@@ -55,7 +58,11 @@ function getJwtSecret(): string {
  * // Returns: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
  * ```
  */
-export function generateAccessToken(userId: string, role: UserRole): string {
+export function generateAccessToken(
+  userId: string,
+  role: UserRole,
+  tokenVersion: number = 0
+): string {
   if (typeof userId !== 'string' || userId.length === 0) {
     throw new Error('userId must be a non-empty string')
   }
@@ -67,6 +74,7 @@ export function generateAccessToken(userId: string, role: UserRole): string {
   const payload: TokenPayload = {
     userId,
     role,
+    tokenVersion,
   }
 
   return jwt.sign(payload, getJwtSecret(), {
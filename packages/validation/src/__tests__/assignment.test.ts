@@ -15,8 +15,14 @@ import {
   AssignmentIdParamSchema,
   SubmissionIdParamSchema,
   GradeIdParamSchema,
+  AttachmentIdParamSchema,
   AssignmentSubmissionParamsSchema,
   BulkGradeSubmissionsSchema,
+  SubmissionVersionDiffQuerySchema,
+  SetRubricSchema,
+  CreateCategorySchema,
+  UpdateCategorySchema,
+  ImportGradesCsvSchema,
 } from '../assignment'
 
 describe('CreateAssignmentSchema', () => {
@@ -62,9 +68,84 @@ describe('CreateAssignmentSchema', () => {
       const result = CreateAssignmentSchema.safeParse(validData)
       expect(result.success).toBe(true)
     })
+
+    it('should validate late policy fields', () => {
+      const validData = {
+        title: 'Assignment',
+        description: 'Description',
+        dueDate: '2024-12-31T23:59:59Z',
+        latePolicy: 'penalty',
+        lateCutoff: '2025-01-07T23:59:59Z',
+        latePenaltyPerDay: 10,
+      }
+
+      const result = CreateAssignmentSchema.safeParse(validData)
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.latePolicy).toBe('penalty')
+        expect(result.data.latePenaltyPerDay).toBe(10)
+      }
+    })
   })
 
   describe('invalid inputs', () => {
+    it('should reject unknown late policy', () => {
+      const invalidData = {
+        title: 'Assignment',
+        description: 'Description',
+        dueDate: '2024-12-31T23:59:59Z',
+        latePolicy: 'sometimes',
+      }
+
+      const result = CreateAssignmentSchema.safeParse(invalidData)
+      expect(result.success).toBe(false)
+    })
+
+    it('should reject late penalty above 100', () => {
+      const invalidData = {
+        title: 'Assignment',
+        description: 'Description',
+        dueDate: '2024-12-31T23:59:59Z',
+        latePenaltyPerDay: 101,
+      }
+
+      const result = CreateAssignmentSchema.safeParse(invalidData)
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0]?.message).toBe('Late penalty cannot exceed 100 percent')
+      }
+    })
+
+    it('should reject max points below 1', () => {
+      const invalidData = {
+        title: 'Assignment',
+        description: 'Description',
+        dueDate: '2024-12-31T23:59:59Z',
+        maxPoints: 0,
+      }
+
+      const result = CreateAssignmentSchema.safeParse(invalidData)
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0]?.message).toBe('Max points must be at least 1')
+      }
+    })
+
+    it('should reject invalid category ID', () => {
+      const invalidData = {
+        title: 'Assignment',
+        description: 'Description',
+        dueDate: '2024-12-31T23:59:59Z',
+        categoryId: 'homework',
+      }
+
+      const result = CreateAssignmentSchema.safeParse(invalidData)
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0]?.message).toBe('Invalid category ID format')
+      }
+    })
+
     it('should reject missing title', () => {
       const invalidData = {
         description: 'Complete exercises 1-10',
@@ -228,6 +309,19 @@ describe('UpdateAssignmentSchema', () => {
         expect(result.data.description).toBe('Updated description')
       }
     })
+
+    it('should allow clearing the late cutoff', () => {
+      const validData = {
+        latePolicy: 'allow',
+        lateCutoff: null,
+      }
+
+      const result = UpdateAssignmentSchema.safeParse(validData)
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.lateCutoff).toBeNull()
+      }
+    })
   })
 
   describe('invalid inputs', () => {
@@ -525,6 +619,21 @@ describe('GradeSubmissionSchema', () => {
       expect(result.success).toBe(true)
     })
 
+    it('should validate rubric scores without grade', () => {
+      const validData = {
+        rubricScores: [
+          {
+            criterionId: '123e4567-e89b-12d3-a456-426614174000',
+            levelId: '123e4567-e89b-12d3-a456-426614174001',
+            comment: 'Clear thesis',
+          },
+        ],
+      }
+
+      const result = GradeSubmissionSchema.safeParse(validData)
+      expect(result.success).toBe(true)
+    })
+
     it('should validate grade without feedback', () => {
       const validData = {
         grade: 90,
@@ -563,13 +672,47 @@ describe('GradeSubmissionSchema', () => {
   })
 
   describe('invalid inputs', () => {
-    it('should reject missing grade', () => {
+    it('should reject missing grade and rubric scores', () => {
       const invalidData = {}
 
       const result = GradeSubmissionSchema.safeParse(invalidData)
       expect(result.success).toBe(false)
       if (!result.success) {
-        expect(result.error.issues[0]?.message).toBe('Grade is required')
+        expect(result.error.issues[0]?.message).toBe(
+          'Provide either a grade or rubric scores'
+        )
+      }
+    })
+
+    it('should reject both grade and rubric scores', () => {
+      const invalidData = {
+        grade: 85,
+        rubricScores: [
+          {
+            criterionId: '123e4567-e89b-12d3-a456-426614174000',
+            levelId: '123e4567-e89b-12d3-a456-426614174001',
+          },
+        ],
+      }
+
+      const result = GradeSubmissionSchema.safeParse(invalidData)
+      expect(result.success).toBe(false)
+    })
+
+    it('should reject invalid rubric level ID', () => {
+      const invalidData = {
+        rubricScores: [
+          {
+            criterionId: '123e4567-e89b-12d3-a456-426614174000',
+            levelId: 'not-a-uuid',
+          },
+        ],
+      }
+
+      const result = GradeSubmissionSchema.safeParse(invalidData)
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0]?.message).toBe('Invalid level ID format')
       }
     })
 
@@ -585,15 +728,15 @@ describe('GradeSubmissionSchema', () => {
       }
     })
 
-    it('should reject grade above 100', () => {
+    it('should reject grade above 999.99', () => {
       const invalidData = {
-        grade: 101,
+        grade: 1000,
       }
 
       const result = GradeSubmissionSchema.safeParse(invalidData)
       expect(result.success).toBe(false)
       if (!result.success) {
-        expect(result.error.issues[0]?.message).toBe('Grade must not exceed 100')
+        expect(result.error.issues[0]?.message).toBe('Grade must not exceed 999.99')
       }
     })
 
@@ -664,9 +807,25 @@ describe('UpdateGradeSchema', () => {
       const result = UpdateGradeSchema.safeParse(validData)
       expect(result.success).toBe(true)
     })
+
+    it('should trim the change reason', () => {
+      const result = UpdateGradeSchema.safeParse({ grade: 90, reason: '  Recounted  ' })
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.reason).toBe('Recounted')
+      }
+    })
   })
 
   describe('invalid inputs', () => {
+    it('should reject a blank change reason', () => {
+      const result = UpdateGradeSchema.safeParse({ grade: 90, reason: '   ' })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0]?.message).toBe('Reason cannot be empty')
+      }
+    })
+
     it('should reject grade below 0', () => {
       const invalidData = {
         grade: -1,
@@ -679,15 +838,15 @@ describe('UpdateGradeSchema', () => {
       }
     })
 
-    it('should reject grade above 100', () => {
+    it('should reject grade above 999.99', () => {
       const invalidData = {
-        grade: 101,
+        grade: 1000,
       }
 
       const result = UpdateGradeSchema.safeParse(invalidData)
       expect(result.success).toBe(false)
       if (!result.success) {
-        expect(result.error.issues[0]?.message).toBe('Grade must not exceed 100')
+        expect(result.error.issues[0]?.message).toBe('Grade must not exceed 999.99')
       }
     })
   })
@@ -804,6 +963,23 @@ describe('GradeIdParamSchema', () => {
   })
 })
 
+describe('AttachmentIdParamSchema', () => {
+  it('should validate valid attachment ID', () => {
+    const result = AttachmentIdParamSchema.safeParse({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject invalid attachment ID format', () => {
+    const result = AttachmentIdParamSchema.safeParse({ id: 'not-a-uuid' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Invalid attachment ID format')
+    }
+  })
+})
+
 describe('AssignmentSubmissionParamsSchema', () => {
   describe('valid inputs', () => {
     it('should validate valid assignment and submission IDs', () => {
@@ -968,7 +1144,7 @@ describe('BulkGradeSubmissionsSchema', () => {
         grades: [
           {
             submissionId: '123e4567-e89b-12d3-a456-426614174000',
-            grade: 101,
+            grade: 1000,
           },
         ],
       }
@@ -976,8 +1152,147 @@ describe('BulkGradeSubmissionsSchema', () => {
       const result = BulkGradeSubmissionsSchema.safeParse(invalidData)
       expect(result.success).toBe(false)
       if (!result.success) {
-        expect(result.error.issues[0]?.message).toBe('Grade must not exceed 100')
+        expect(result.error.issues[0]?.message).toBe('Grade must not exceed 999.99')
       }
     })
   })
 })
+
+describe('SubmissionVersionDiffQuerySchema', () => {
+  it('should parse version numbers from query strings', () => {
+    const result = SubmissionVersionDiffQuerySchema.safeParse({ from: '1', to: '3' })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data).toEqual({ from: 1, to: 3 })
+    }
+  })
+
+  it('should reject non-numeric versions', () => {
+    const result = SubmissionVersionDiffQuerySchema.safeParse({ from: 'latest', to: '2' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('From version must be a positive integer')
+    }
+  })
+
+  it('should reject version 0', () => {
+    const result = SubmissionVersionDiffQuerySchema.safeParse({ from: '0', to: '2' })
+    expect(result.success).toBe(false)
+  })
+
+  it('should require both versions', () => {
+    const result = SubmissionVersionDiffQuerySchema.safeParse({ from: '1' })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('SetRubricSchema', () => {
+  const level = { label: 'Strong', points: 10 }
+
+  it('should validate criteria with levels', () => {
+    const result = SetRubricSchema.safeParse({
+      criteria: [
+        { title: 'Thesis', description: 'Clear claim', levels: [level, { ...level, label: 'Weak', points: 2.5 }] },
+      ],
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject empty criteria', () => {
+    const result = SetRubricSchema.safeParse({ criteria: [] })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('At least one criterion is required')
+    }
+  })
+
+  it('should reject criterion without levels', () => {
+    const result = SetRubricSchema.safeParse({ criteria: [{ title: 'Thesis', levels: [] }] })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Each criterion needs at least one level')
+    }
+  })
+
+  it('should reject negative level points', () => {
+    const result = SetRubricSchema.safeParse({
+      criteria: [{ title: 'Thesis', levels: [{ ...level, points: -1 }] }],
+    })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Level points must be at least 0')
+    }
+  })
+})
+
+describe('ImportGradesCsvSchema', () => {
+  it('should validate CSV with dry run flag', () => {
+    const result = ImportGradesCsvSchema.safeParse({ csv: 'Email,Grade\n', dryRun: true })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject empty CSV', () => {
+    const result = ImportGradesCsvSchema.safeParse({ csv: '' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('CSV cannot be empty')
+    }
+  })
+
+  it('should reject missing CSV', () => {
+    const result = ImportGradesCsvSchema.safeParse({ dryRun: false })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('CSV is required')
+    }
+  })
+})
+
+describe('CreateCategorySchema', () => {
+  it('should validate name and weight', () => {
+    const result = CreateCategorySchema.safeParse({ name: ' Homework ', weight: 30 })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.name).toBe('Homework')
+    }
+  })
+
+  it('should reject weight above 100', () => {
+    const result = CreateCategorySchema.safeParse({ name: 'Exams', weight: 101 })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Category weight cannot exceed 100 percent')
+    }
+  })
+
+  it('should reject fractional weight', () => {
+    const result = CreateCategorySchema.safeParse({ name: 'Exams', weight: 12.5 })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Category weight must be an integer')
+    }
+  })
+
+  it('should require a name', () => {
+    const result = CreateCategorySchema.safeParse({ weight: 30 })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Category name is required')
+    }
+  })
+})
+
+describe('UpdateCategorySchema', () => {
+  it('should allow partial updates', () => {
+    const result = UpdateCategorySchema.safeParse({ weight: 0 })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject an empty name', () => {
+    const result = UpdateCategorySchema.safeParse({ name: '  ' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Category name cannot be empty')
+    }
+  })
+})
@@ -0,0 +1,56 @@
+/**
+ * @module audit.test
+ * @description Tests for audit log validation schemas
+ */
+
+import { describe, it, expect } from 'vitest'
+import { AuditEventQuerySchema } from '../audit'
+
+describe('AuditEventQuerySchema', () => {
+  it('should parse filters, dates and pagination', () => {
+    const result = AuditEventQuerySchema.parse({
+      action: 'grade_updated',
+      targetType: 'submission',
+      targetId: '123e4567-e89b-12d3-a456-426614174000',
+      from: '2030-01-01T00:00:00.000Z',
+      to: '2030-01-31T23:59:59.000Z',
+      page: '2',
+      limit: '25',
+    })
+
+    expect(result).toEqual({
+      action: 'grade_updated',
+      targetType: 'submission',
+      targetId: '123e4567-e89b-12d3-a456-426614174000',
+      from: new Date('2030-01-01T00:00:00.000Z'),
+      to: new Date('2030-01-31T23:59:59.000Z'),
+      page: 2,
+      limit: 25,
+    })
+  })
+
+  it('should accept an empty query', () => {
+    expect(AuditEventQuerySchema.parse({})).toEqual({})
+  })
+
+  it('should reject unknown actions and target types', () => {
+    expect(AuditEventQuerySchema.safeParse({ action: 'user_created' }).success).toBe(false)
+    expect(AuditEventQuerySchema.safeParse({ targetType: 'lesson' }).success).toBe(false)
+  })
+
+  it('should reject a range that ends before it starts', () => {
+    const result = AuditEventQuerySchema.safeParse({
+      from: '2030-02-01T00:00:00.000Z',
+      to: '2030-01-01T00:00:00.000Z',
+    })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('From must not be after to')
+    }
+  })
+
+  it('should cap the page size at 100', () => {
+    expect(AuditEventQuerySchema.safeParse({ limit: '101' }).success).toBe(false)
+  })
+})
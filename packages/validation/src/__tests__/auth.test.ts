@@ -13,6 +13,12 @@ import {
   PasswordResetRequestSchema,
   PasswordResetSchema,
   ChangePasswordSchema,
+  CreateInvitationSchema,
+  AcceptInvitationSchema,
+  InvitationTokenParamSchema,
+  SessionIdParamSchema,
+  MfaCodeSchema,
+  MfaChallengeVerifySchema,
 } from '../auth'
 
 describe('LoginSchema', () => {
@@ -663,3 +669,105 @@ describe('ChangePasswordSchema', () => {
     })
   })
 })
+
+describe('CreateInvitationSchema', () => {
+  it('should normalize the email and keep the role', () => {
+    const result = CreateInvitationSchema.safeParse({
+      email: ' Teacher@Example.com ',
+      role: USER_ROLES.TEACHER,
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data).toEqual({ email: 'teacher@example.com', role: 'teacher' })
+    }
+  })
+
+  it('should reject invalid role', () => {
+    const result = CreateInvitationSchema.safeParse({
+      email: 'teacher@example.com',
+      role: 'superuser',
+    })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('AcceptInvitationSchema', () => {
+  it('should validate name and strong password', () => {
+    const result = AcceptInvitationSchema.safeParse({ name: 'Ada', password: 'Password123!' })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject weak password', () => {
+    const result = AcceptInvitationSchema.safeParse({ name: 'Ada', password: 'weak' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Password must be at least 8 characters')
+    }
+  })
+})
+
+describe('InvitationTokenParamSchema', () => {
+  it('should validate a hex token', () => {
+    expect(InvitationTokenParamSchema.safeParse({ token: 'a'.repeat(64) }).success).toBe(true)
+  })
+
+  it('should reject malformed token', () => {
+    const result = InvitationTokenParamSchema.safeParse({ token: 'not-a-token' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Invalid invitation token format')
+    }
+  })
+})
+
+describe('SessionIdParamSchema', () => {
+  it('should validate UUID and legacy hex session IDs', () => {
+    expect(
+      SessionIdParamSchema.safeParse({ id: '3f2b8c1e-9d4a-4b6e-8f1a-2c3d4e5f6a7b' }).success
+    ).toBe(true)
+    expect(SessionIdParamSchema.safeParse({ id: 'b'.repeat(32) }).success).toBe(true)
+  })
+
+  it('should reject malformed session ID', () => {
+    const result = SessionIdParamSchema.safeParse({ id: 'session:abc' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Invalid session ID format')
+    }
+  })
+})
+
+describe('MfaCodeSchema', () => {
+  it('should accept TOTP and recovery codes', () => {
+    expect(MfaCodeSchema.safeParse({ code: '123456' }).success).toBe(true)
+    expect(MfaCodeSchema.safeParse({ code: ' a1b2c-3d4e5 ' }).success).toBe(true)
+  })
+
+  it('should reject malformed codes', () => {
+    expect(MfaCodeSchema.safeParse({ code: '12345' }).success).toBe(false)
+
+    const result = MfaCodeSchema.safeParse({ code: '123456;' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Invalid code format')
+    }
+  })
+})
+
+describe('MfaChallengeVerifySchema', () => {
+  it('should validate a challenge token with a code', () => {
+    const result = MfaChallengeVerifySchema.safeParse({
+      challengeToken: 'a'.repeat(64),
+      code: '123456',
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject malformed challenge tokens', () => {
+    const result = MfaChallengeVerifySchema.safeParse({ challengeToken: 'abc', code: '123456' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Invalid challenge token format')
+    }
+  })
+})
@@ -14,6 +14,13 @@ import {
   ClassIdParamSchema,
   ClassStudentParamsSchema,
   TransferStudentsSchema,
+  ImportRosterSchema,
+  RosterRowSchema,
+  RegenerateJoinCodeSchema,
+  JoinClassSchema,
+  AddClassStaffSchema,
+  UpdateClassStaffSchema,
+  ClassStaffParamsSchema,
 } from '../class'
 
 describe('CreateClassSchema', () => {
@@ -717,3 +724,142 @@ describe('TransferStudentsSchema', () => {
     })
   })
 })
+
+describe('ImportRosterSchema', () => {
+  it('should validate CSV text', () => {
+    const result = ImportRosterSchema.safeParse({ csv: 'Name,Email,Class\n' })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject empty CSV', () => {
+    const result = ImportRosterSchema.safeParse({ csv: '' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('CSV cannot be empty')
+    }
+  })
+})
+
+describe('RosterRowSchema', () => {
+  it('should trim cells and lowercase the email', () => {
+    const result = RosterRowSchema.safeParse({
+      name: ' Ada Lovelace ',
+      email: ' Ada@Test.com ',
+      class: ' Math ',
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data).toEqual({ name: 'Ada Lovelace', email: 'ada@test.com', class: 'Math' })
+    }
+  })
+
+  it('should reject invalid email', () => {
+    const result = RosterRowSchema.safeParse({ name: 'Ada', email: 'not-an-email', class: 'Math' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Invalid email format')
+    }
+  })
+
+  it('should reject blank name and class', () => {
+    const result = RosterRowSchema.safeParse({ name: ' ', email: 'ada@test.com', class: '' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues.map((i) => i.message)).toEqual([
+        'Name is required',
+        'Class is required',
+      ])
+    }
+  })
+})
+
+describe('RegenerateJoinCodeSchema', () => {
+  it('should validate expiry and max uses', () => {
+    const result = RegenerateJoinCodeSchema.safeParse({
+      expiresAt: '2030-01-01T00:00:00.000Z',
+      maxUses: 30,
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('should allow neither', () => {
+    expect(RegenerateJoinCodeSchema.safeParse({}).success).toBe(true)
+  })
+
+  it('should reject non-positive max uses', () => {
+    const result = RegenerateJoinCodeSchema.safeParse({ maxUses: 0 })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Max uses must be positive')
+    }
+  })
+
+  it('should reject invalid expiry', () => {
+    const result = RegenerateJoinCodeSchema.safeParse({ expiresAt: 'tomorrow' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Expiry must be in ISO 8601 format')
+    }
+  })
+})
+
+describe('JoinClassSchema', () => {
+  it('should trim the code', () => {
+    const result = JoinClassSchema.safeParse({ code: ' abcd2345 ' })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.code).toBe('abcd2345')
+    }
+  })
+
+  it('should reject blank code', () => {
+    const result = JoinClassSchema.safeParse({ code: '  ' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Join code is required')
+    }
+  })
+})
+
+describe('AddClassStaffSchema', () => {
+  it('should normalize the email', () => {
+    const result = AddClassStaffSchema.safeParse({ email: ' TA@School.edu ', role: 'ta' })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.email).toBe('ta@school.edu')
+    }
+  })
+
+  it('should reject the owner role', () => {
+    const result = AddClassStaffSchema.safeParse({ email: 'ta@school.edu', role: 'owner' })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('UpdateClassStaffSchema', () => {
+  it('should accept a co-teacher role', () => {
+    const result = UpdateClassStaffSchema.safeParse({ role: 'co_teacher' })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject a missing role', () => {
+    const result = UpdateClassStaffSchema.safeParse({})
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Staff role is required')
+    }
+  })
+})
+
+describe('ClassStaffParamsSchema', () => {
+  it('should reject an invalid user ID', () => {
+    const result = ClassStaffParamsSchema.safeParse({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      userId: 'not-a-uuid',
+    })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Invalid user ID format')
+    }
+  })
+})
@@ -0,0 +1,135 @@
+/**
+ * @module lesson.test
+ * @description Tests for lesson validation schemas
+ */
+
+import { describe, it, expect } from 'vitest'
+import { CreateLessonSchema, UpdateLessonSchema, ClassLessonParamsSchema } from '../lesson'
+
+describe('CreateLessonSchema', () => {
+  describe('valid inputs', () => {
+    it('should validate lesson with all fields', () => {
+      const result = CreateLessonSchema.safeParse({
+        title: 'Fractions',
+        content: 'Fractions represent parts of a whole',
+        moduleName: 'Module 1',
+        modulePosition: 0,
+        position: 2,
+        status: 'published',
+      })
+      expect(result.success).toBe(true)
+    })
+
+    it('should validate lesson with title and content only', () => {
+      const result = CreateLessonSchema.safeParse({ title: 'Fractions', content: 'Body' })
+      expect(result.success).toBe(true)
+    })
+
+    it('should trim title', () => {
+      const result = CreateLessonSchema.safeParse({ title: '  Fractions  ', content: 'Body' })
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.title).toBe('Fractions')
+      }
+    })
+  })
+
+  describe('invalid inputs', () => {
+    it('should reject missing title', () => {
+      const result = CreateLessonSchema.safeParse({ content: 'Body' })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0]?.message).toBe('Lesson title is required')
+      }
+    })
+
+    it('should reject missing content', () => {
+      const result = CreateLessonSchema.safeParse({ title: 'Fractions' })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0]?.message).toBe('Lesson content is required')
+      }
+    })
+
+    it('should reject negative position', () => {
+      const result = CreateLessonSchema.safeParse({
+        title: 'Fractions',
+        content: 'Body',
+        position: -1,
+      })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0]?.message).toBe('Position cannot be negative')
+      }
+    })
+
+    it('should reject non-integer module position', () => {
+      const result = CreateLessonSchema.safeParse({
+        title: 'Fractions',
+        content: 'Body',
+        modulePosition: 1.5,
+      })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0]?.message).toBe('Module position must be an integer')
+      }
+    })
+
+    it('should reject unknown status', () => {
+      const result = CreateLessonSchema.safeParse({
+        title: 'Fractions',
+        content: 'Body',
+        status: 'archived',
+      })
+      expect(result.success).toBe(false)
+    })
+  })
+})
+
+describe('UpdateLessonSchema', () => {
+  it('should validate empty update', () => {
+    expect(UpdateLessonSchema.safeParse({}).success).toBe(true)
+  })
+
+  it('should allow clearing module name', () => {
+    const result = UpdateLessonSchema.safeParse({ moduleName: null })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.moduleName).toBeNull()
+    }
+  })
+
+  it('should validate status change', () => {
+    const result = UpdateLessonSchema.safeParse({ status: 'draft' })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject empty title', () => {
+    const result = UpdateLessonSchema.safeParse({ title: '' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Lesson title cannot be empty')
+    }
+  })
+})
+
+describe('ClassLessonParamsSchema', () => {
+  it('should validate valid class and lesson IDs', () => {
+    const result = ClassLessonParamsSchema.safeParse({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      lessonId: '223e4567-e89b-12d3-a456-426614174001',
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject invalid lesson ID format', () => {
+    const result = ClassLessonParamsSchema.safeParse({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      lessonId: 'not-a-uuid',
+    })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Invalid lesson ID format')
+    }
+  })
+})
@@ -0,0 +1,45 @@
+/**
+ * @module notification.test
+ * @description Tests for notification validation schemas
+ */
+
+import { describe, it, expect } from 'vitest'
+import { NotificationIdParamSchema, NotificationQuerySchema } from '../notification'
+
+describe('NotificationIdParamSchema', () => {
+  it('should accept a UUID', () => {
+    const result = NotificationIdParamSchema.safeParse({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject a non-UUID', () => {
+    const result = NotificationIdParamSchema.safeParse({ id: 'abc' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Invalid notification ID format')
+    }
+  })
+})
+
+describe('NotificationQuerySchema', () => {
+  it('should parse unread flag and limit', () => {
+    const result = NotificationQuerySchema.parse({ unread: 'true', limit: '10' })
+    expect(result).toEqual({ unread: true, limit: 10 })
+  })
+
+  it('should accept an empty query', () => {
+    expect(NotificationQuerySchema.parse({})).toEqual({})
+  })
+
+  it('should reject limits above 100', () => {
+    const result = NotificationQuerySchema.safeParse({ limit: '101' })
+    expect(result.success).toBe(false)
+  })
+
+  it('should reject invalid unread values', () => {
+    const result = NotificationQuerySchema.safeParse({ unread: 'yes' })
+    expect(result.success).toBe(false)
+  })
+})
@@ -0,0 +1,176 @@
+/**
+ * @module teacherGroup.test
+ * @description Tests for teacher group validation schemas
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  CreateTeacherGroupSchema,
+  UpdateTeacherGroupSchema,
+  TeacherGroupQuerySchema,
+  TeacherGroupIdParamSchema,
+  AddTeacherGroupMemberSchema,
+  TeacherGroupMemberParamsSchema,
+} from '../teacherGroup'
+
+describe('CreateTeacherGroupSchema', () => {
+  describe('valid inputs', () => {
+    it('should validate group with name', () => {
+      const result = CreateTeacherGroupSchema.safeParse({ name: 'Science Department' })
+      expect(result.success).toBe(true)
+    })
+
+    it('should trim group name', () => {
+      const result = CreateTeacherGroupSchema.safeParse({ name: '  Science Department  ' })
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.name).toBe('Science Department')
+      }
+    })
+  })
+
+  describe('invalid inputs', () => {
+    it('should reject missing name', () => {
+      const result = CreateTeacherGroupSchema.safeParse({})
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0]?.message).toBe('Group name is required')
+      }
+    })
+
+    it('should reject whitespace-only name', () => {
+      const result = CreateTeacherGroupSchema.safeParse({ name: '   ' })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0]?.message).toBe('Group name is required')
+      }
+    })
+
+    it('should reject name exceeding 255 characters', () => {
+      const result = CreateTeacherGroupSchema.safeParse({ name: 'a'.repeat(256) })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0]?.message).toBe(
+          'Group name must not exceed 255 characters'
+        )
+      }
+    })
+
+    it('should reject non-string name', () => {
+      const result = CreateTeacherGroupSchema.safeParse({ name: 123 })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0]?.message).toBe('Group name must be a string')
+      }
+    })
+  })
+})
+
+describe('UpdateTeacherGroupSchema', () => {
+  it('should validate name update', () => {
+    const result = UpdateTeacherGroupSchema.safeParse({ name: 'Renamed' })
+    expect(result.success).toBe(true)
+  })
+
+  it('should validate empty update', () => {
+    const result = UpdateTeacherGroupSchema.safeParse({})
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject empty name', () => {
+    const result = UpdateTeacherGroupSchema.safeParse({ name: '' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Group name cannot be empty')
+    }
+  })
+})
+
+describe('TeacherGroupQuerySchema', () => {
+  it('should transform page and limit to numbers', () => {
+    const result = TeacherGroupQuerySchema.safeParse({ page: '2', limit: '25' })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.page).toBe(2)
+      expect(result.data.limit).toBe(25)
+    }
+  })
+
+  it('should reject limit over 100', () => {
+    const result = TeacherGroupQuerySchema.safeParse({ limit: '101' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Limit must not exceed 100')
+    }
+  })
+
+  it('should reject non-numeric page', () => {
+    const result = TeacherGroupQuerySchema.safeParse({ page: 'abc' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Page must be a positive integer')
+    }
+  })
+})
+
+describe('TeacherGroupIdParamSchema', () => {
+  it('should validate valid group ID', () => {
+    const result = TeacherGroupIdParamSchema.safeParse({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject invalid group ID format', () => {
+    const result = TeacherGroupIdParamSchema.safeParse({ id: 'not-a-uuid' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Invalid group ID format')
+    }
+  })
+})
+
+describe('AddTeacherGroupMemberSchema', () => {
+  it('should validate valid teacher ID', () => {
+    const result = AddTeacherGroupMemberSchema.safeParse({
+      teacherId: '123e4567-e89b-12d3-a456-426614174000',
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject missing teacher ID', () => {
+    const result = AddTeacherGroupMemberSchema.safeParse({})
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Teacher ID is required')
+    }
+  })
+
+  it('should reject invalid teacher ID format', () => {
+    const result = AddTeacherGroupMemberSchema.safeParse({ teacherId: 'abc' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Invalid teacher ID format')
+    }
+  })
+})
+
+describe('TeacherGroupMemberParamsSchema', () => {
+  it('should validate valid group and teacher IDs', () => {
+    const result = TeacherGroupMemberParamsSchema.safeParse({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      teacherId: '223e4567-e89b-12d3-a456-426614174001',
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject missing teacher ID', () => {
+    const result = TeacherGroupMemberParamsSchema.safeParse({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+    })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Teacher ID is required')
+    }
+  })
+})
@@ -12,6 +12,9 @@ import {
   SuspendUserSchema,
   UserIdParamSchema,
   BatchUserOperationSchema,
+  GrantPermissionSchema,
+  UserPermissionParamsSchema,
+  MfaRequiredRolesSchema,
 } from '../user'
 
 describe('CreateUserSchema', () => {
@@ -757,3 +760,62 @@ describe('BatchUserOperationSchema', () => {
     })
   })
 })
+
+describe('GrantPermissionSchema', () => {
+  it('should accept a trimmed permission name', () => {
+    const result = GrantPermissionSchema.safeParse({ permission: ' classes:read_all ' })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.permission).toBe('classes:read_all')
+    }
+  })
+
+  it('should reject a missing permission', () => {
+    const result = GrantPermissionSchema.safeParse({})
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Permission is required')
+    }
+  })
+})
+
+describe('UserPermissionParamsSchema', () => {
+  it('should accept a user ID and permission', () => {
+    const result = UserPermissionParamsSchema.safeParse({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      permission: 'classes:read_all',
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject an invalid user ID', () => {
+    const result = UserPermissionParamsSchema.safeParse({
+      id: 'not-a-uuid',
+      permission: 'classes:read_all',
+    })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Invalid user ID format')
+    }
+  })
+})
+
+describe('MfaRequiredRolesSchema', () => {
+  it('should accept a list of roles, including none', () => {
+    expect(MfaRequiredRolesSchema.safeParse({ roles: ['admin', 'teacher'] }).success).toBe(true)
+    expect(MfaRequiredRolesSchema.safeParse({ roles: [] }).success).toBe(true)
+  })
+
+  it('should reject unknown roles', () => {
+    const result = MfaRequiredRolesSchema.safeParse({ roles: ['owner'] })
+    expect(result.success).toBe(false)
+  })
+
+  it('should require the roles', () => {
+    const result = MfaRequiredRolesSchema.safeParse({})
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Roles are required')
+    }
+  })
+})
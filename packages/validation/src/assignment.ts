@@ -31,6 +31,41 @@ export const CreateAssignmentSchema = z.object({
       invalid_type_error: 'Due date must be a string',
     })
     .datetime('Due date must be in ISO 8601 format'),
+  latePolicy: z
+    .enum(['reject', 'allow', 'penalty'], {
+      invalid_type_error: 'Invalid late policy',
+    })
+    .optional(),
+  lateCutoff: z
+    .string({
+      invalid_type_error: 'Late cutoff must be a string',
+    })
+    .datetime('Late cutoff must be in ISO 8601 format')
+    .nullable()
+    .optional(),
+  latePenaltyPerDay: z
+    .number({
+      invalid_type_error: 'Late penalty must be a number',
+    })
+    .int('Late penalty must be an integer')
+    .min(0, 'Late penalty cannot be negative')
+    .max(100, 'Late penalty cannot exceed 100 percent')
+    .optional(),
+  maxPoints: z
+    .number({
+      invalid_type_error: 'Max points must be a number',
+    })
+    .int('Max points must be an integer')
+    .min(1, 'Max points must be at least 1')
+    .max(999, 'Max points must not exceed 999')
+    .optional(),
+  categoryId: z
+    .string({
+      invalid_type_error: 'Category ID must be a string',
+    })
+    .uuid('Invalid category ID format')
+    .nullable()
+    .optional(),
 })
 
 /**
@@ -59,6 +94,41 @@ export const UpdateAssignmentSchema = z.object({
     })
     .datetime('Due date must be in ISO 8601 format')
     .optional(),
+  latePolicy: z
+    .enum(['reject', 'allow', 'penalty'], {
+      invalid_type_error: 'Invalid late policy',
+    })
+    .optional(),
+  lateCutoff: z
+    .string({
+      invalid_type_error: 'Late cutoff must be a string',
+    })
+    .datetime('Late cutoff must be in ISO 8601 format')
+    .nullable()
+    .optional(),
+  latePenaltyPerDay: z
+    .number({
+      invalid_type_error: 'Late penalty must be a number',
+    })
+    .int('Late penalty must be an integer')
+    .min(0, 'Late penalty cannot be negative')
+    .max(100, 'Late penalty cannot exceed 100 percent')
+    .optional(),
+  maxPoints: z
+    .number({
+      invalid_type_error: 'Max points must be a number',
+    })
+    .int('Max points must be an integer')
+    .min(1, 'Max points must be at least 1')
+    .max(999, 'Max points must not exceed 999')
+    .optional(),
+  categoryId: z
+    .string({
+      invalid_type_error: 'Category ID must be a string',
+    })
+    .uuid('Invalid category ID format')
+    .nullable()
+    .optional(),
 })
 
 /**
@@ -151,26 +221,76 @@ export const UpdateSubmissionSchema = z.object({
 })
 
 /**
- * Grade submission validation schema
- * For teachers to grade student submissions
+ * Rubric criterion score validation schema
+ * One chosen level per rubric criterion when grading with a rubric
  */
-export const GradeSubmissionSchema = z.object({
-  grade: z
-    .number({
-      required_error: 'Grade is required',
-      invalid_type_error: 'Grade must be a number',
+export const RubricScoreSchema = z.object({
+  criterionId: z
+    .string({
+      required_error: 'Criterion ID is required',
+      invalid_type_error: 'Criterion ID must be a string',
     })
-    .min(0, 'Grade must be at least 0')
-    .max(100, 'Grade must not exceed 100')
-    .multipleOf(0.01, 'Grade must have at most 2 decimal places'),
-  feedback: z
+    .uuid('Invalid criterion ID format'),
+  levelId: z
     .string({
-      invalid_type_error: 'Feedback must be a string',
+      required_error: 'Level ID is required',
+      invalid_type_error: 'Level ID must be a string',
+    })
+    .uuid('Invalid level ID format'),
+  comment: z
+    .string({
+      invalid_type_error: 'Comment must be a string',
     })
     .trim()
     .optional(),
 })
 
+/**
+ * Grade change reason validation schema
+ * Required by the service whenever a posted grade changes
+ */
+export const GradeChangeReasonSchema = z
+  .string({
+    invalid_type_error: 'Reason must be a string',
+  })
+  .trim()
+  .min(1, 'Reason cannot be empty')
+  .max(500, 'Reason must not exceed 500 characters')
+
+/**
+ * Grade submission validation schema
+ * For teachers to grade student submissions
+ * Either a grade or rubric scores (grade computed server-side), not both
+ */
+export const GradeSubmissionSchema = z
+  .object({
+    grade: z
+      .number({
+        invalid_type_error: 'Grade must be a number',
+      })
+      .min(0, 'Grade must be at least 0')
+      .max(999.99, 'Grade must not exceed 999.99')
+      .multipleOf(0.01, 'Grade must have at most 2 decimal places')
+      .optional(),
+    rubricScores: z
+      .array(RubricScoreSchema, {
+        invalid_type_error: 'Rubric scores must be an array',
+      })
+      .min(1, 'At least one rubric score is required')
+      .optional(),
+    feedback: z
+      .string({
+        invalid_type_error: 'Feedback must be a string',
+      })
+      .trim()
+      .optional(),
+    reason: GradeChangeReasonSchema.optional(),
+  })
+  .refine((data) => (data.grade === undefined) !== (data.rubricScores === undefined), {
+    message: 'Provide either a grade or rubric scores',
+    path: ['grade'],
+  })
+
 /**
  * Update grade validation schema
  * For teachers to update existing grades
@@ -181,7 +301,7 @@ export const UpdateGradeSchema = z.object({
       invalid_type_error: 'Grade must be a number',
     })
     .min(0, 'Grade must be at least 0')
-    .max(100, 'Grade must not exceed 100')
+    .max(999.99, 'Grade must not exceed 999.99')
     .multipleOf(0.01, 'Grade must have at most 2 decimal places')
     .optional(),
   feedback: z
@@ -190,6 +310,7 @@ export const UpdateGradeSchema = z.object({
     })
     .trim()
     .optional(),
+  reason: GradeChangeReasonSchema.optional(),
 })
 
 /**
@@ -231,6 +352,19 @@ export const GradeIdParamSchema = z.object({
     .uuid('Invalid grade ID format'),
 })
 
+/**
+ * Attachment ID parameter validation schema
+ * For validating submission attachment UUID parameters in routes
+ */
+export const AttachmentIdParamSchema = z.object({
+  id: z
+    .string({
+      required_error: 'Attachment ID is required',
+      invalid_type_error: 'Attachment ID must be a string',
+    })
+    .uuid('Invalid attachment ID format'),
+})
+
 /**
  * Assignment and submission parameters validation schema
  * For routes that require both assignment and submission IDs
@@ -262,7 +396,7 @@ export const BulkGradeSubmissionsSchema = z.object({
         grade: z
           .number()
           .min(0, 'Grade must be at least 0')
-          .max(100, 'Grade must not exceed 100')
+          .max(999.99, 'Grade must not exceed 999.99')
           .multipleOf(0.01, 'Grade must have at most 2 decimal places'),
         feedback: z.string().trim().optional(),
       }),
@@ -273,6 +407,172 @@ export const BulkGradeSubmissionsSchema = z.object({
     )
     .min(1, 'At least one grade is required')
     .max(50, 'Cannot grade more than 50 submissions at once'),
+  reason: GradeChangeReasonSchema.optional(),
+})
+
+/**
+ * Grade CSV import validation schema
+ * For teachers to upload offline grades for one assignment
+ */
+export const ImportGradesCsvSchema = z.object({
+  csv: z
+    .string({
+      required_error: 'CSV is required',
+      invalid_type_error: 'CSV must be a string',
+    })
+    .min(1, 'CSV cannot be empty')
+    .max(500_000, 'CSV must be at most 500,000 characters'),
+  dryRun: z.boolean().optional(),
+  reason: GradeChangeReasonSchema.optional(),
+})
+
+/**
+ * Create assignment category validation schema
+ * For teachers to add a weighted category to a class
+ */
+export const CreateCategorySchema = z.object({
+  name: z
+    .string({
+      required_error: 'Category name is required',
+      invalid_type_error: 'Category name must be a string',
+    })
+    .trim()
+    .min(1, 'Category name is required')
+    .max(100, 'Category name must not exceed 100 characters'),
+  weight: z
+    .number({
+      required_error: 'Category weight is required',
+      invalid_type_error: 'Category weight must be a number',
+    })
+    .int('Category weight must be an integer')
+    .min(0, 'Category weight cannot be negative')
+    .max(100, 'Category weight cannot exceed 100 percent'),
+})
+
+/**
+ * Update assignment category validation schema
+ * For teachers to rename or reweight a category
+ */
+export const UpdateCategorySchema = z.object({
+  name: z
+    .string({
+      invalid_type_error: 'Category name must be a string',
+    })
+    .trim()
+    .min(1, 'Category name cannot be empty')
+    .max(100, 'Category name must not exceed 100 characters')
+    .optional(),
+  weight: z
+    .number({
+      invalid_type_error: 'Category weight must be a number',
+    })
+    .int('Category weight must be an integer')
+    .min(0, 'Category weight cannot be negative')
+    .max(100, 'Category weight cannot exceed 100 percent')
+    .optional(),
+})
+
+/**
+ * Category ID parameter validation schema
+ * For validating category UUID parameters in routes
+ */
+export const CategoryIdParamSchema = z.object({
+  id: z
+    .string({
+      required_error: 'Category ID is required',
+      invalid_type_error: 'Category ID must be a string',
+    })
+    .uuid('Invalid category ID format'),
+})
+
+/**
+ * Rubric validation schema
+ * For teachers to replace the rubric of an assignment
+ */
+export const SetRubricSchema = z.object({
+  criteria: z
+    .array(
+      z.object({
+        title: z
+          .string({
+            required_error: 'Criterion title is required',
+            invalid_type_error: 'Criterion title must be a string',
+          })
+          .trim()
+          .min(1, 'Criterion title cannot be empty')
+          .max(255, 'Criterion title must not exceed 255 characters'),
+        description: z
+          .string({
+            invalid_type_error: 'Criterion description must be a string',
+          })
+          .trim()
+          .nullable()
+          .optional(),
+        levels: z
+          .array(
+            z.object({
+              label: z
+                .string({
+                  required_error: 'Level label is required',
+                  invalid_type_error: 'Level label must be a string',
+                })
+                .trim()
+                .min(1, 'Level label cannot be empty')
+                .max(255, 'Level label must not exceed 255 characters'),
+              description: z
+                .string({
+                  invalid_type_error: 'Level description must be a string',
+                })
+                .trim()
+                .nullable()
+                .optional(),
+              points: z
+                .number({
+                  required_error: 'Level points are required',
+                  invalid_type_error: 'Level points must be a number',
+                })
+                .min(0, 'Level points must be at least 0')
+                .max(100, 'Level points must not exceed 100')
+                .multipleOf(0.01, 'Level points must have at most 2 decimal places'),
+            }),
+            {
+              required_error: 'Levels are required',
+              invalid_type_error: 'Levels must be an array',
+            }
+          )
+          .min(1, 'Each criterion needs at least one level')
+          .max(10, 'A criterion cannot have more than 10 levels'),
+      }),
+      {
+        required_error: 'Criteria are required',
+        invalid_type_error: 'Criteria must be an array',
+      }
+    )
+    .min(1, 'At least one criterion is required')
+    .max(20, 'A rubric cannot have more than 20 criteria'),
+})
+
+/**
+ * Submission version diff query validation schema
+ * For comparing two versions of a submission
+ */
+export const SubmissionVersionDiffQuerySchema = z.object({
+  from: z
+    .string({
+      required_error: 'From version is required',
+      invalid_type_error: 'From version must be a string',
+    })
+    .regex(/^\d+$/, 'From version must be a positive integer')
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().positive('From version must be a positive integer')),
+  to: z
+    .string({
+      required_error: 'To version is required',
+      invalid_type_error: 'To version must be a string',
+    })
+    .regex(/^\d+$/, 'To version must be a positive integer')
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().positive('To version must be a positive integer')),
 })
 
 // Export types inferred from schemas
@@ -281,14 +581,22 @@ export type UpdateAssignmentInput = z.infer<typeof UpdateAssignmentSchema>
 export type AssignmentQueryInput = z.infer<typeof AssignmentQuerySchema>
 export type SubmitAssignmentInput = z.infer<typeof SubmitAssignmentSchema>
 export type UpdateSubmissionInput = z.infer<typeof UpdateSubmissionSchema>
+export type RubricScoreInput = z.infer<typeof RubricScoreSchema>
 export type GradeSubmissionInput = z.infer<typeof GradeSubmissionSchema>
 export type UpdateGradeInput = z.infer<typeof UpdateGradeSchema>
 export type AssignmentIdParam = z.infer<typeof AssignmentIdParamSchema>
 export type SubmissionIdParam = z.infer<typeof SubmissionIdParamSchema>
 export type GradeIdParam = z.infer<typeof GradeIdParamSchema>
+export type AttachmentIdParam = z.infer<typeof AttachmentIdParamSchema>
 export type AssignmentSubmissionParams = z.infer<
   typeof AssignmentSubmissionParamsSchema
 >
+export type CreateCategoryInput = z.infer<typeof CreateCategorySchema>
+export type UpdateCategoryInput = z.infer<typeof UpdateCategorySchema>
+export type CategoryIdParam = z.infer<typeof CategoryIdParamSchema>
+export type SetRubricInput = z.infer<typeof SetRubricSchema>
+export type SubmissionVersionDiffQuery = z.infer<typeof SubmissionVersionDiffQuerySchema>
 export type BulkGradeSubmissionsInput = z.infer<
   typeof BulkGradeSubmissionsSchema
 >
+export type ImportGradesCsvInput = z.infer<typeof ImportGradesCsvSchema>
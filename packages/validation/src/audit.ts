@@ -0,0 +1,80 @@
+/**
+ * @module audit
+ * @description Audit log validation schemas
+ */
+
+import { z } from 'zod'
+
+/**
+ * Audit event list query validation schema
+ * - Dates are ISO 8601 timestamps; `to` is inclusive
+ */
+export const AuditEventQuerySchema = z
+  .object({
+    actorId: z.string().uuid('Invalid actor ID format').optional(),
+    action: z
+      .enum(
+        [
+          'user_updated',
+          'user_suspended',
+          'user_unsuspended',
+          'user_deleted',
+          'class_deleted',
+          'students_transferred',
+          'grade_posted',
+          'grade_updated',
+          'grade_returned',
+          'permission_granted',
+          'permission_revoked',
+          'refresh_token_reused',
+          'mfa_reset',
+        ],
+        { invalid_type_error: 'Invalid action' }
+      )
+      .optional(),
+    targetType: z
+      .enum(['user', 'class', 'submission'], {
+        invalid_type_error: 'Invalid target type',
+      })
+      .optional(),
+    targetId: z.string().uuid('Invalid target ID format').optional(),
+    from: z
+      .string()
+      .datetime('From must be in ISO 8601 format')
+      .transform((val) => new Date(val))
+      .optional(),
+    to: z
+      .string()
+      .datetime('To must be in ISO 8601 format')
+      .transform((val) => new Date(val))
+      .optional(),
+    page: z
+      .string({
+        invalid_type_error: 'Page must be a string',
+      })
+      .regex(/^\d+$/, 'Page must be a positive integer')
+      .transform((val) => parseInt(val, 10))
+      .pipe(z.number().int().positive('Page must be a positive integer'))
+      .optional(),
+    limit: z
+      .string({
+        invalid_type_error: 'Limit must be a string',
+      })
+      .regex(/^\d+$/, 'Limit must be a positive integer')
+      .transform((val) => parseInt(val, 10))
+      .pipe(
+        z
+          .number()
+          .int()
+          .positive('Limit must be a positive integer')
+          .max(100, 'Limit must not exceed 100')
+      )
+      .optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'From must not be after to',
+    path: ['to'],
+  })
+
+// Type exports
+export type AuditEventQueryInput = z.infer<typeof AuditEventQuerySchema>
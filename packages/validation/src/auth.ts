@@ -170,6 +170,125 @@ export const ChangePasswordSchema = z.object({
     ),
 })
 
+/**
+ * Invitation validation schema
+ * Validates admin-issued invitations; the role is fixed by the inviter
+ */
+export const CreateInvitationSchema = z.object({
+  email: z
+    .string({
+      required_error: 'Email is required',
+      invalid_type_error: 'Email must be a string',
+    })
+    .trim()
+    .toLowerCase()
+    .email('Invalid email format'),
+  role: z.enum([USER_ROLES.ADMIN, USER_ROLES.TEACHER, USER_ROLES.STUDENT], {
+    required_error: 'Role is required',
+    invalid_type_error: 'Invalid role',
+  }),
+  name: z
+    .string({
+      invalid_type_error: 'Name must be a string',
+    })
+    .max(255, 'Name must not exceed 255 characters')
+    .trim()
+    .optional(),
+})
+
+/**
+ * Accept invitation validation schema
+ * Validates the name and password chosen by the invitee
+ */
+export const AcceptInvitationSchema = z.object({
+  name: z
+    .string({
+      required_error: 'Name is required',
+      invalid_type_error: 'Name must be a string',
+    })
+    .min(1, 'Name is required')
+    .max(255, 'Name must not exceed 255 characters')
+    .trim(),
+  password: z
+    .string({
+      required_error: 'Password is required',
+      invalid_type_error: 'Password must be a string',
+    })
+    .min(8, 'Password must be at least 8 characters')
+    .max(128, 'Password must not exceed 128 characters')
+    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
+    .regex(/[0-9]/, 'Password must contain at least one number')
+    .regex(
+      /[^A-Za-z0-9]/,
+      'Password must contain at least one special character'
+    ),
+})
+
+/**
+ * Invitation token parameter validation schema
+ * For routes addressing an invitation by its token
+ */
+export const InvitationTokenParamSchema = z.object({
+  token: z
+    .string({
+      required_error: 'Invitation token is required',
+      invalid_type_error: 'Invitation token must be a string',
+    })
+    .regex(/^[0-9a-f]{64}$/, 'Invalid invitation token format'),
+})
+
+/**
+ * Session ID parameter validation schema
+ * Session IDs are UUIDs; sessions from before device tracking use a 32-char hex ID
+ */
+export const SessionIdParamSchema = z.object({
+  id: z
+    .string({
+      required_error: 'Session ID is required',
+      invalid_type_error: 'Session ID must be a string',
+    })
+    .regex(
+      /^(?:[0-9a-f]{32}|[0-9a-f]{8}(?:-[0-9a-f]{4}){3}-[0-9a-f]{12})$/i,
+      'Invalid session ID format'
+    ),
+})
+
+/**
+ * MFA code validation schema
+ * Accepts a 6-digit TOTP code or a recovery code (e.g. a1b2c-3d4e5)
+ */
+export const MfaCodeSchema = z.object({
+  code: z
+    .string({
+      required_error: 'Code is required',
+      invalid_type_error: 'Code must be a string',
+    })
+    .trim()
+    .min(6, 'Code must be at least 6 characters')
+    .max(20, 'Code must not exceed 20 characters')
+    .regex(/^[0-9A-Za-z -]+$/, 'Invalid code format'),
+})
+
+/**
+ * MFA challenge validation schema
+ * Validates the challenge token login returns to users with MFA
+ */
+export const MfaChallengeSchema = z.object({
+  challengeToken: z
+    .string({
+      required_error: 'Challenge token is required',
+      invalid_type_error: 'Challenge token must be a string',
+    })
+    .regex(/^[0-9a-f]{64}$/, 'Invalid challenge token format'),
+})
+
+/**
+ * MFA challenge verification validation schema
+ * Completes a login with the challenge token and a code
+ */
+export const MfaChallengeVerifySchema = MfaChallengeSchema.merge(MfaCodeSchema)
+
 // Export types inferred from schemas
 export type LoginInput = z.infer<typeof LoginSchema>
 export type RegisterInput = z.infer<typeof RegisterSchema>
@@ -180,3 +299,10 @@ export type PasswordResetRequestInput = z.infer<
 >
 export type PasswordResetInput = z.infer<typeof PasswordResetSchema>
 export type ChangePasswordInput = z.infer<typeof ChangePasswordSchema>
+export type CreateInvitationInput = z.infer<typeof CreateInvitationSchema>
+export type AcceptInvitationInput = z.infer<typeof AcceptInvitationSchema>
+export type InvitationTokenParam = z.infer<typeof InvitationTokenParamSchema>
+export type SessionIdParam = z.infer<typeof SessionIdParamSchema>
+export type MfaCodeInput = z.infer<typeof MfaCodeSchema>
+export type MfaChallengeInput = z.infer<typeof MfaChallengeSchema>
+export type MfaChallengeVerifyInput = z.infer<typeof MfaChallengeVerifySchema>
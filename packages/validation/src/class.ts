@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod'
+import { CLASS_STAFF_ROLES } from '@concentrate/shared'
 
 /**
  * Create class validation schema
@@ -192,6 +193,122 @@ export const TransferStudentsSchema = z.object({
     .uuid('Invalid target class ID format'),
 })
 
+/**
+ * Roster import validation schema
+ * For importing students from a CSV with Name, Email and Class columns
+ */
+export const ImportRosterSchema = z.object({
+  csv: z
+    .string({
+      required_error: 'CSV is required',
+      invalid_type_error: 'CSV must be a string',
+    })
+    .min(1, 'CSV cannot be empty')
+    .max(500_000, 'CSV must be at most 500,000 characters'),
+})
+
+/**
+ * Roster row validation schema
+ * For validating a single student row of a roster import
+ */
+export const RosterRowSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(255, 'Name must not exceed 255 characters'),
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .email('Invalid email format')
+    .max(255, 'Email must not exceed 255 characters'),
+  class: z.string().trim().min(1, 'Class is required'),
+})
+
+/**
+ * Join code generation validation schema
+ * For regenerating a class join code with optional expiry and max uses
+ */
+export const RegenerateJoinCodeSchema = z.object({
+  expiresAt: z
+    .string({
+      invalid_type_error: 'Expiry must be a string',
+    })
+    .datetime('Expiry must be in ISO 8601 format')
+    .nullable()
+    .optional(),
+  maxUses: z
+    .number({
+      invalid_type_error: 'Max uses must be a number',
+    })
+    .int('Max uses must be an integer')
+    .positive('Max uses must be positive')
+    .nullable()
+    .optional(),
+})
+
+/**
+ * Join class validation schema
+ * For students enrolling themselves with a class join code
+ */
+export const JoinClassSchema = z.object({
+  code: z
+    .string({
+      required_error: 'Join code is required',
+      invalid_type_error: 'Join code must be a string',
+    })
+    .trim()
+    .min(1, 'Join code is required')
+    .max(16, 'Join code must not exceed 16 characters'),
+})
+
+/**
+ * Class staff role validation schema
+ * The owner role comes with the class and cannot be assigned
+ */
+const ClassStaffRoleSchema = z.enum([CLASS_STAFF_ROLES.CO_TEACHER, CLASS_STAFF_ROLES.TA], {
+  required_error: 'Staff role is required',
+  invalid_type_error: 'Staff role must be co_teacher or ta',
+})
+
+/**
+ * Add class staff validation schema
+ * For class owners adding a co-teacher or TA by email
+ */
+export const AddClassStaffSchema = z.object({
+  email: z
+    .string({
+      required_error: 'Email is required',
+      invalid_type_error: 'Email must be a string',
+    })
+    .trim()
+    .toLowerCase()
+    .email('Invalid email format'),
+  role: ClassStaffRoleSchema,
+})
+
+/**
+ * Update class staff validation schema
+ * For class owners changing the role of a staff member
+ */
+export const UpdateClassStaffSchema = z.object({
+  role: ClassStaffRoleSchema,
+})
+
+/**
+ * Class staff parameters validation schema
+ * For routes addressing one staff member of a class
+ */
+export const ClassStaffParamsSchema = ClassIdParamSchema.extend({
+  userId: z
+    .string({
+      required_error: 'User ID is required',
+      invalid_type_error: 'User ID must be a string',
+    })
+    .uuid('Invalid user ID format'),
+})
+
 // Export types inferred from schemas
 export type CreateClassInput = z.infer<typeof CreateClassSchema>
 export type UpdateClassInput = z.infer<typeof UpdateClassSchema>
@@ -202,3 +319,10 @@ export type RemoveStudentInput = z.infer<typeof RemoveStudentSchema>
 export type ClassIdParam = z.infer<typeof ClassIdParamSchema>
 export type ClassStudentParams = z.infer<typeof ClassStudentParamsSchema>
 export type TransferStudentsInput = z.infer<typeof TransferStudentsSchema>
+export type ImportRosterInput = z.infer<typeof ImportRosterSchema>
+export type RosterRowInput = z.infer<typeof RosterRowSchema>
+export type RegenerateJoinCodeInput = z.infer<typeof RegenerateJoinCodeSchema>
+export type JoinClassInput = z.infer<typeof JoinClassSchema>
+export type AddClassStaffInput = z.infer<typeof AddClassStaffSchema>
+export type UpdateClassStaffInput = z.infer<typeof UpdateClassStaffSchema>
+export type ClassStaffParams = z.infer<typeof ClassStaffParamsSchema>
@@ -14,3 +14,15 @@ export * from './class'
 
 // Assignment validation schemas
 export * from './assignment'
+
+// Teacher group validation schemas
+export * from './teacherGroup'
+
+// Lesson validation schemas
+export * from './lesson'
+
+// Notification validation schemas
+export * from './notification'
+
+// Audit log validation schemas
+export * from './audit'
@@ -0,0 +1,127 @@
+/**
+ * @module lesson
+ * @description Lesson validation schemas
+ */
+
+import { z } from 'zod'
+
+/**
+ * Create lesson validation schema
+ * For teachers to add lessons to a class
+ */
+export const CreateLessonSchema = z.object({
+  title: z
+    .string({
+      required_error: 'Lesson title is required',
+      invalid_type_error: 'Lesson title must be a string',
+    })
+    .trim()
+    .min(1, 'Lesson title is required')
+    .max(255, 'Lesson title must not exceed 255 characters'),
+  content: z
+    .string({
+      required_error: 'Lesson content is required',
+      invalid_type_error: 'Lesson content must be a string',
+    })
+    .trim()
+    .min(1, 'Lesson content is required'),
+  moduleName: z
+    .string({
+      invalid_type_error: 'Module name must be a string',
+    })
+    .trim()
+    .max(255, 'Module name must not exceed 255 characters')
+    .optional(),
+  modulePosition: z
+    .number({
+      invalid_type_error: 'Module position must be a number',
+    })
+    .int('Module position must be an integer')
+    .nonnegative('Module position cannot be negative')
+    .optional(),
+  position: z
+    .number({
+      invalid_type_error: 'Position must be a number',
+    })
+    .int('Position must be an integer')
+    .nonnegative('Position cannot be negative')
+    .optional(),
+  status: z
+    .enum(['draft', 'published'], {
+      invalid_type_error: 'Invalid lesson status',
+    })
+    .optional(),
+})
+
+/**
+ * Update lesson validation schema
+ * For teachers to edit, reorder, publish or unpublish lessons
+ */
+export const UpdateLessonSchema = z.object({
+  title: z
+    .string({
+      invalid_type_error: 'Lesson title must be a string',
+    })
+    .trim()
+    .min(1, 'Lesson title cannot be empty')
+    .max(255, 'Lesson title must not exceed 255 characters')
+    .optional(),
+  content: z
+    .string({
+      invalid_type_error: 'Lesson content must be a string',
+    })
+    .trim()
+    .min(1, 'Lesson content cannot be empty')
+    .optional(),
+  moduleName: z
+    .string({
+      invalid_type_error: 'Module name must be a string',
+    })
+    .trim()
+    .max(255, 'Module name must not exceed 255 characters')
+    .nullable()
+    .optional(),
+  modulePosition: z
+    .number({
+      invalid_type_error: 'Module position must be a number',
+    })
+    .int('Module position must be an integer')
+    .nonnegative('Module position cannot be negative')
+    .optional(),
+  position: z
+    .number({
+      invalid_type_error: 'Position must be a number',
+    })
+    .int('Position must be an integer')
+    .nonnegative('Position cannot be negative')
+    .optional(),
+  status: z
+    .enum(['draft', 'published'], {
+      invalid_type_error: 'Invalid lesson status',
+    })
+    .optional(),
+})
+
+/**
+ * Class and lesson ID parameters validation schema
+ * For routes under /classes/:id/lessons/:lessonId
+ */
+export const ClassLessonParamsSchema = z.object({
+  id: z
+    .string({
+      required_error: 'Class ID is required',
+      invalid_type_error: 'Class ID must be a string',
+    })
+    .uuid('Invalid class ID format'),
+  lessonId: z
+    .string({
+      required_error: 'Lesson ID is required',
+      invalid_type_error: 'Lesson ID must be a string',
+    })
+    .uuid('Invalid lesson ID format'),
+})
+
+// Export types inferred from schemas
+export type CreateLessonInput = z.infer<typeof CreateLessonSchema>
+export type UpdateLessonInput = z.infer<typeof UpdateLessonSchema>
+export type ClassLessonParams = z.infer<typeof ClassLessonParamsSchema>
@@ -0,0 +1,48 @@
+/**
+ * @module notification
+ * @description In-app notification validation schemas
+ */
+
+import { z } from 'zod'
+
+/**
+ * Notification ID parameter validation schema
+ */
+export const NotificationIdParamSchema = z.object({
+  id: z
+    .string({
+      required_error: 'Notification ID is required',
+      invalid_type_error: 'Notification ID must be a string',
+    })
+    .uuid('Invalid notification ID format'),
+})
+
+/**
+ * Notification list query validation schema
+ */
+export const NotificationQuerySchema = z.object({
+  unread: z
+    .enum(['true', 'false'], {
+      invalid_type_error: 'Unread must be "true" or "false"',
+    })
+    .transform((val) => val === 'true')
+    .optional(),
+  limit: z
+    .string({
+      invalid_type_error: 'Limit must be a string',
+    })
+    .regex(/^\d+$/, 'Limit must be a positive integer')
+    .transform((val) => parseInt(val, 10))
+    .pipe(
+      z
+        .number()
+        .int()
+        .min(1, 'Limit must be at least 1')
+        .max(100, 'Limit must not exceed 100')
+    )
+    .optional(),
+})
+
+// Type exports
+export type NotificationIdParam = z.infer<typeof NotificationIdParamSchema>
+export type NotificationQueryInput = z.infer<typeof NotificationQuerySchema>
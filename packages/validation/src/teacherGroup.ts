@@ -0,0 +1,118 @@
+/**
+ * @module teacherGroup
+ * @description Teacher group validation schemas
+ */
+
+import { z } from 'zod'
+
+/**
+ * Create teacher group validation schema
+ * For admins to create new teacher groups
+ */
+export const CreateTeacherGroupSchema = z.object({
+  name: z
+    .string({
+      required_error: 'Group name is required',
+      invalid_type_error: 'Group name must be a string',
+    })
+    .trim()
+    .min(1, 'Group name is required')
+    .max(255, 'Group name must not exceed 255 characters'),
+})
+
+/**
+ * Update teacher group validation schema
+ * For admins to rename teacher groups
+ */
+export const UpdateTeacherGroupSchema = z.object({
+  name: z
+    .string({
+      invalid_type_error: 'Group name must be a string',
+    })
+    .trim()
+    .min(1, 'Group name cannot be empty')
+    .max(255, 'Group name must not exceed 255 characters')
+    .optional(),
+})
+
+/**
+ * Teacher group query validation schema
+ * For paginating teacher group listings
+ */
+export const TeacherGroupQuerySchema = z.object({
+  page: z
+    .string({
+      invalid_type_error: 'Page must be a string',
+    })
+    .regex(/^\d+$/, 'Page must be a positive integer')
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().positive('Page must be a positive integer'))
+    .optional(),
+  limit: z
+    .string({
+      invalid_type_error: 'Limit must be a string',
+    })
+    .regex(/^\d+$/, 'Limit must be a positive integer')
+    .transform((val) => parseInt(val, 10))
+    .pipe(
+      z
+        .number()
+        .int()
+        .positive('Limit must be a positive integer')
+        .max(100, 'Limit must not exceed 100')
+    )
+    .optional(),
+})
+
+/**
+ * Teacher group ID parameter validation schema
+ * For validating UUID parameters in routes
+ */
+export const TeacherGroupIdParamSchema = z.object({
+  id: z
+    .string({
+      required_error: 'Group ID is required',
+      invalid_type_error: 'Group ID must be a string',
+    })
+    .uuid('Invalid group ID format'),
+})
+
+/**
+ * Add teacher group member validation schema
+ * For adding a teacher to a group
+ */
+export const AddTeacherGroupMemberSchema = z.object({
+  teacherId: z
+    .string({
+      required_error: 'Teacher ID is required',
+      invalid_type_error: 'Teacher ID must be a string',
+    })
+    .uuid('Invalid teacher ID format'),
+})
+
+/**
+ * Teacher group and teacher ID parameters validation schema
+ * For routes that require both group and teacher IDs
+ */
+export const TeacherGroupMemberParamsSchema = z.object({
+  id: z
+    .string({
+      required_error: 'Group ID is required',
+      invalid_type_error: 'Group ID must be a string',
+    })
+    .uuid('Invalid group ID format'),
+  teacherId: z
+    .string({
+      required_error: 'Teacher ID is required',
+      invalid_type_error: 'Teacher ID must be a string',
+    })
+    .uuid('Invalid teacher ID format'),
+})
+
+// Export types inferred from schemas
+export type CreateTeacherGroupInput = z.infer<typeof CreateTeacherGroupSchema>
+export type UpdateTeacherGroupInput = z.infer<typeof UpdateTeacherGroupSchema>
+export type TeacherGroupQueryInput = z.infer<typeof TeacherGroupQuerySchema>
+export type TeacherGroupIdParam = z.infer<typeof TeacherGroupIdParamSchema>
+export type AddTeacherGroupMemberInput = z.infer<typeof AddTeacherGroupMemberSchema>
+export type TeacherGroupMemberParams = z.infer<typeof TeacherGroupMemberParamsSchema>
@@ -211,6 +211,53 @@ export const BatchUserOperationSchema = z.object({
     .max(100, 'Cannot process more than 100 users at once'),
 })
 
+/**
+ * Grant permission validation schema
+ * The permission name is checked against the role table by the service
+ */
+export const GrantPermissionSchema = z.object({
+  permission: z
+    .string({
+      required_error: 'Permission is required',
+      invalid_type_error: 'Permission must be a string',
+    })
+    .trim()
+    .min(1, 'Permission is required')
+    .max(50, 'Permission must not exceed 50 characters'),
+})
+
+/**
+ * User permission parameters validation schema
+ * For routes addressing one granted permission of a user
+ */
+export const UserPermissionParamsSchema = UserIdParamSchema.extend({
+  permission: z
+    .string({
+      required_error: 'Permission is required',
+      invalid_type_error: 'Permission must be a string',
+    })
+    .min(1, 'Permission is required')
+    .max(50, 'Permission must not exceed 50 characters'),
+})
+
+/**
+ * MFA required roles validation schema
+ * The full list of roles whose users must use MFA
+ */
+export const MfaRequiredRolesSchema = z.object({
+  roles: z
+    .array(
+      z.enum([USER_ROLES.ADMIN, USER_ROLES.TEACHER, USER_ROLES.STUDENT], {
+        invalid_type_error: 'Invalid role',
+      }),
+      {
+        required_error: 'Roles are required',
+        invalid_type_error: 'Roles must be an array',
+      }
+    )
+    .max(3, 'Roles must not exceed 3 entries'),
+})
+
 // Export types inferred from schemas
 export type CreateUserInput = z.infer<typeof CreateUserSchema>
 export type UpdateUserInput = z.infer<typeof UpdateUserSchema>
@@ -219,3 +266,6 @@ export type UserSearchInput = z.infer<typeof UserSearchSchema>
 export type SuspendUserInput = z.infer<typeof SuspendUserSchema>
 export type UserIdParam = z.infer<typeof UserIdParamSchema>
 export type BatchUserOperationInput = z.infer<typeof BatchUserOperationSchema>
+export type GrantPermissionInput = z.infer<typeof GrantPermissionSchema>
+export type UserPermissionParams = z.infer<typeof UserPermissionParamsSchema>
+export type MfaRequiredRolesInput = z.infer<typeof MfaRequiredRolesSchema>